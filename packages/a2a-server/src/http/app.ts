@@ -18,8 +18,15 @@ import {
 import { A2AExpressApp, type UserBuilder } from '@a2a-js/sdk/server/express'; // Import server components
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
-import type { AgentSettings } from '../types.js';
+import type {
+  AgentSettings,
+  PersistedTaskSummary,
+  TaskMetadata,
+} from '../types.js';
 import { GCSTaskStore, NoOpTaskStore } from '../persistence/gcs.js';
+import { FileSystemTaskStore } from '../persistence/filesystem.js';
+import { SQLiteTaskStore } from '../persistence/sqlite.js';
+import { isListableTaskStore } from '../persistence/taskStore.js';
 import { CoderAgentExecutor } from '../agent/executor.js';
 import { requestStorage } from './requestStorage.js';
 import { loadConfig, loadEnvironment, setTargetDir } from '../config/config.js';
@@ -213,14 +220,28 @@ export async function createApp() {
 
     // loadEnvironment() is called within getConfig now
     const bucketName = process.env['GCS_BUCKET_NAME'];
+    const sqlitePath = process.env['CODER_AGENT_TASK_STORE_SQLITE'];
+    const taskStoreDir = process.env['CODER_AGENT_TASK_STORE_DIR'];
     let taskStoreForExecutor: TaskStore;
     let taskStoreForHandler: TaskStore;
 
+    // Persistent stores are only written by the executor, which captures the
+    // workspace alongside the task state.
     if (bucketName) {
       logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
       const gcsTaskStore = new GCSTaskStore(bucketName);
       taskStoreForExecutor = gcsTaskStore;
       taskStoreForHandler = new NoOpTaskStore(gcsTaskStore);
+    } else if (sqlitePath) {
+      logger.info(`Using SQLiteTaskStore with database: ${sqlitePath}`);
+      const sqliteTaskStore = new SQLiteTaskStore(sqlitePath);
+      taskStoreForExecutor = sqliteTaskStore;
+      taskStoreForHandler = new NoOpTaskStore(sqliteTaskStore);
+    } else if (taskStoreDir) {
+      logger.info(`Using FileSystemTaskStore with directory: ${taskStoreDir}`);
+      const fileSystemTaskStore = new FileSystemTaskStore(taskStoreDir);
+      taskStoreForExecutor = fileSystemTaskStore;
+      taskStoreForHandler = new NoOpTaskStore(fileSystemTaskStore);
     } else {
       logger.info('Using InMemoryTaskStore');
       const inMemoryTaskStore = new InMemoryTaskStore();
@@ -320,19 +341,31 @@ export async function createApp() {
     });
 
     expressApp.get('/tasks/metadata', async (req, res) => {
-      // This endpoint is only meaningful if the task store is in-memory.
-      if (!(taskStoreForExecutor instanceof InMemoryTaskStore)) {
+      // Persisted tasks can only be listed if the store can enumerate them.
+      const isInMemory = taskStoreForExecutor instanceof InMemoryTaskStore;
+      if (!isInMemory && !isListableTaskStore(taskStoreForExecutor)) {
         res.status(501).send({
           error:
-            'Listing all task metadata is only supported when using InMemoryTaskStore.',
+            'Listing all task metadata is not supported by the configured task store.',
         });
+        return;
       }
       try {
         const wrappers = agentExecutor.getAllTasks();
-        if (wrappers && wrappers.length > 0) {
-          const tasksMetadata = await Promise.all(
+        const tasksMetadata: Array<TaskMetadata | PersistedTaskSummary> =
+          await Promise.all(
             wrappers.map((wrapper) => wrapper.task.getMetadata()),
           );
+        // Tasks that are not loaded are summarized from the store rather than
+        // reconstructed, which would restore their workspaces.
+        if (isListableTaskStore(taskStoreForExecutor)) {
+          const loadedIds = new Set(wrappers.map((wrapper) => wrapper.id));
+          const persisted = await taskStoreForExecutor.listTasks();
+          tasksMetadata.push(
+            ...persisted.filter((summary) => !loadedIds.has(summary.id)),
+          );
+        }
+        if (tasksMetadata.length > 0) {
           res.status(200).json(tasksMetadata);
         } else {
           res.status(204).send();
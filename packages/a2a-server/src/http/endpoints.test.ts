@@ -160,3 +160,41 @@ describe('Agent Server Endpoints', () => {
     expect(response.body.url).toBe(`http://localhost:${port}/`);
   });
 });
+
+describe('Agent Server Endpoints with a filesystem task store', () => {
+  let testRoot: string;
+
+  beforeAll(() => {
+    testRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-agent-store-'));
+    fs.mkdirSync(path.join(testRoot, 'workspace'));
+    vi.stubEnv('CODER_AGENT_TASK_STORE_DIR', path.join(testRoot, 'store'));
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(testRoot, { recursive: true, force: true });
+  });
+
+  it('should list tasks persisted by a previous server via GET /tasks/metadata', async () => {
+    const firstApp = await createApp();
+    const createResponse = await request(firstApp)
+      .post('/tasks')
+      .send({
+        contextId: 'persisted-context',
+        agentSettings: {
+          kind: 'agent-settings',
+          workspacePath: path.join(testRoot, 'workspace'),
+        },
+      })
+      .set('Content-Type', 'application/json');
+    const taskId = createResponse.body;
+
+    const secondApp = await createApp();
+    const response = await request(secondApp).get('/tasks/metadata');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([
+      { id: taskId, contextId: 'persisted-context', taskState: 'submitted' },
+    ]);
+  }, 10000);
+});
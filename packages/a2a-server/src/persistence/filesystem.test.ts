@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { FileSystemTaskStore } from './filesystem.js';
+import { setTargetDir } from '../config/config.js';
+import { METADATA_KEY } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../config/config.js', () => ({
+  setTargetDir: vi.fn(),
+}));
+
+describe('FileSystemTaskStore', () => {
+  let tmpRoot: string;
+  let storeDir: string;
+  let workspaceDir: string;
+  let restoreDir: string;
+
+  const createTask = (id: string): SDKTask => ({
+    id,
+    contextId: 'ctx-1',
+    kind: 'task',
+    status: { state: 'working', timestamp: new Date().toISOString() },
+    metadata: {
+      [METADATA_KEY]: {
+        _agentSettings: {
+          kind: 'agent-settings',
+          workspacePath: workspaceDir,
+        },
+        _taskState: 'working',
+      },
+      _contextId: 'ctx-1',
+    },
+    history: [],
+    artifacts: [],
+  });
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'fs-task-store-'));
+    storeDir = path.join(tmpRoot, 'store');
+    workspaceDir = path.join(tmpRoot, 'workspace');
+    restoreDir = path.join(tmpRoot, 'restore');
+    fs.mkdirSync(workspaceDir);
+    fs.mkdirSync(restoreDir);
+    fs.writeFileSync(path.join(workspaceDir, 'main.ts'), 'console.log(1);');
+    vi.spyOn(process, 'cwd').mockReturnValue(workspaceDir);
+    vi.mocked(setTargetDir).mockReturnValue(restoreDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  it('should require a directory', () => {
+    expect(() => new FileSystemTaskStore('')).toThrow(
+      'Task store directory is required.',
+    );
+  });
+
+  it('should save metadata and workspace using the GCS object layout', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    const task = createTask('task-1');
+
+    await store.save(task);
+
+    const taskDir = path.join(storeDir, 'tasks', 'task-1');
+    const metadata = JSON.parse(
+      gunzipSync(
+        fs.readFileSync(path.join(taskDir, 'metadata.tar.gz')),
+      ).toString(),
+    );
+    expect(metadata).toEqual(task.metadata);
+    expect(fs.existsSync(path.join(taskDir, 'workspace.tar.gz'))).toBe(true);
+    expect(fs.readdirSync(taskDir).sort()).toEqual([
+      'metadata.tar.gz',
+      'workspace.tar.gz',
+    ]);
+  });
+
+  it('should load a saved task and restore its workspace', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    const task = createTask('task-1');
+    await store.save(task);
+
+    const loaded = await store.load('task-1');
+
+    expect(loaded).toMatchObject({
+      id: 'task-1',
+      contextId: 'ctx-1',
+      kind: 'task',
+      status: { state: 'working' },
+      metadata: task.metadata,
+    });
+    expect(setTargetDir).toHaveBeenCalledWith({
+      kind: 'agent-settings',
+      workspacePath: workspaceDir,
+    });
+    expect(fs.readFileSync(path.join(restoreDir, 'main.ts'), 'utf-8')).toBe(
+      'console.log(1);',
+    );
+  });
+
+  it('should return undefined for an unknown task', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await expect(store.load('missing')).resolves.toBeUndefined();
+  });
+
+  it('should reject invalid task ids', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await expect(store.load('../escape')).rejects.toThrow(
+      'Invalid taskId: ../escape',
+    );
+  });
+
+  it('should reject tasks without persisted state', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await expect(
+      store.save({ ...createTask('task-1'), metadata: {} }),
+    ).rejects.toThrow('Task task-1 is missing persisted state in metadata.');
+  });
+
+  it('should keep the previous workspace when the workspace is empty', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await store.save(createTask('task-1'));
+    fs.rmSync(path.join(workspaceDir, 'main.ts'));
+
+    await store.save(createTask('task-1'));
+    await store.load('task-1');
+
+    expect(fs.existsSync(path.join(restoreDir, 'main.ts'))).toBe(true);
+  });
+
+  it('should list persisted tasks without restoring workspaces', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await expect(store.listTasks()).resolves.toEqual([]);
+
+    await store.save(createTask('task-1'));
+    await store.save(createTask('task-2'));
+    fs.mkdirSync(path.join(storeDir, 'tasks', 'not-a-task'));
+
+    const summaries = await store.listTasks();
+
+    expect(summaries).toHaveLength(2);
+    expect(summaries).toEqual(
+      expect.arrayContaining([
+        { id: 'task-1', contextId: 'ctx-1', taskState: 'working' },
+        { id: 'task-2', contextId: 'ctx-1', taskState: 'working' },
+      ]),
+    );
+    expect(setTargetDir).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { gzipSync, gunzipSync } from 'node:zlib';
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { join, resolve } from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { logger } from '../utils/logger.js';
+import type { PersistedTaskMetadata, PersistedTaskSummary } from '../types.js';
+import {
+  archiveWorkspace,
+  getMetadataToPersist,
+  isTaskIdValid,
+  restorePersistedTask,
+  toPersistedTaskSummary,
+  type ListableTaskStore,
+} from './taskStore.js';
+
+type ObjectType = 'metadata' | 'workspace';
+
+/**
+ * Persists tasks to a local directory using the same layout as
+ * `GCSTaskStore`: `tasks/<taskId>/metadata.tar.gz` holds the gzipped task
+ * metadata and `tasks/<taskId>/workspace.tar.gz` the workspace archive.
+ */
+export class FileSystemTaskStore implements ListableTaskStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    if (!rootDir) {
+      throw new Error('Task store directory is required.');
+    }
+    this.rootDir = resolve(rootDir);
+    logger.info(`FileSystemTaskStore using directory: ${this.rootDir}`);
+  }
+
+  private getTasksDir(): string {
+    return join(this.rootDir, 'tasks');
+  }
+
+  private getObjectPath(taskId: string, type: ObjectType): string {
+    if (!isTaskIdValid(taskId)) {
+      throw new Error(`Invalid taskId: ${taskId}`);
+    }
+    return join(this.getTasksDir(), taskId, `${type}.tar.gz`);
+  }
+
+  // Writes go to a sibling file first so a crash never leaves a truncated
+  // object behind.
+  private async replaceObject(
+    objectPath: string,
+    write: (tmpPath: string) => Promise<boolean>,
+  ): Promise<boolean> {
+    const tmpPath = `${objectPath}.tmp`;
+    try {
+      if (!(await write(tmpPath))) {
+        return false;
+      }
+      await fse.move(tmpPath, objectPath, { overwrite: true });
+      return true;
+    } finally {
+      await fse.remove(tmpPath);
+    }
+  }
+
+  private async readMetadata(
+    metadataPath: string,
+  ): Promise<PersistedTaskMetadata> {
+    const compressedMetadata = await fse.readFile(metadataPath);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+    return JSON.parse(gunzipSync(compressedMetadata).toString());
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    const metadata = getMetadataToPersist(task);
+    const metadataPath = this.getObjectPath(taskId, 'metadata');
+    const workspacePath = this.getObjectPath(taskId, 'workspace');
+
+    try {
+      await fse.ensureDir(join(this.getTasksDir(), taskId));
+      await this.replaceObject(metadataPath, async (tmpPath) => {
+        await fse.writeFile(
+          tmpPath,
+          gzipSync(Buffer.from(JSON.stringify(metadata))),
+        );
+        return true;
+      });
+      logger.info(`Task ${taskId} metadata saved to ${metadataPath}`);
+
+      const saved = await this.replaceObject(workspacePath, (tmpPath) =>
+        archiveWorkspace(taskId, process.cwd(), tmpPath),
+      );
+      if (saved) {
+        logger.info(`Task ${taskId} workspace saved to ${workspacePath}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to filesystem:`, error);
+      throw error;
+    }
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const metadataPath = this.getObjectPath(taskId, 'metadata');
+    const workspacePath = this.getObjectPath(taskId, 'workspace');
+
+    try {
+      if (!(await fse.pathExists(metadataPath))) {
+        logger.info(`Task ${taskId} metadata not found in filesystem.`);
+        return undefined;
+      }
+      const metadata = await this.readMetadata(metadataPath);
+      logger.info(`Task ${taskId} metadata loaded from filesystem.`);
+
+      return await restorePersistedTask(taskId, metadata, async (workDir) => {
+        if (await fse.pathExists(workspacePath)) {
+          await tar.x({ file: workspacePath, cwd: workDir });
+          logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+        } else {
+          logger.info(`Task ${taskId} workspace archive not found.`);
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from filesystem:`, error);
+      throw error;
+    }
+  }
+
+  async listTasks(): Promise<PersistedTaskSummary[]> {
+    const tasksDir = this.getTasksDir();
+    if (!(await fse.pathExists(tasksDir))) {
+      return [];
+    }
+
+    const summaries: PersistedTaskSummary[] = [];
+    for (const taskId of await fse.readdir(tasksDir)) {
+      if (!isTaskIdValid(taskId)) {
+        continue;
+      }
+      const metadataPath = this.getObjectPath(taskId, 'metadata');
+      if (!(await fse.pathExists(metadataPath))) {
+        continue;
+      }
+      try {
+        const summary = toPersistedTaskSummary(
+          taskId,
+          await this.readMetadata(metadataPath),
+        );
+        if (summary) {
+          summaries.push(summary);
+        }
+      } catch (error) {
+        logger.warn(`Skipping unreadable metadata for task ${taskId}:`, error);
+      }
+    }
+    return summaries;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { SQLiteTaskStore } from './sqlite.js';
+import { setTargetDir } from '../config/config.js';
+import { METADATA_KEY } from '../types.js';
+
+// node:sqlite is only available on newer Node.js releases.
+const sqliteModuleName = 'node:sqlite';
+const hasNodeSqlite = await import(sqliteModuleName).then(
+  () => true,
+  () => false,
+);
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../config/config.js', () => ({
+  setTargetDir: vi.fn(),
+}));
+
+describe.skipIf(!hasNodeSqlite)('SQLiteTaskStore', () => {
+  let tmpRoot: string;
+  let dbPath: string;
+  let workspaceDir: string;
+  let restoreDir: string;
+  let store: SQLiteTaskStore;
+
+  const createTask = (id: string): SDKTask => ({
+    id,
+    contextId: 'ctx-1',
+    kind: 'task',
+    status: { state: 'working', timestamp: new Date().toISOString() },
+    metadata: {
+      [METADATA_KEY]: {
+        _agentSettings: {
+          kind: 'agent-settings',
+          workspacePath: workspaceDir,
+        },
+        _taskState: 'working',
+      },
+      _contextId: 'ctx-1',
+    },
+    history: [],
+    artifacts: [],
+  });
+
+  beforeEach(() => {
+    tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-task-store-'));
+    dbPath = path.join(tmpRoot, 'db', 'tasks.sqlite');
+    workspaceDir = path.join(tmpRoot, 'workspace');
+    restoreDir = path.join(tmpRoot, 'restore');
+    fs.mkdirSync(workspaceDir);
+    fs.mkdirSync(restoreDir);
+    fs.writeFileSync(path.join(workspaceDir, 'main.ts'), 'console.log(1);');
+    vi.spyOn(process, 'cwd').mockReturnValue(workspaceDir);
+    vi.mocked(setTargetDir).mockReturnValue(restoreDir);
+    store = new SQLiteTaskStore(dbPath);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    vi.restoreAllMocks();
+    fs.rmSync(tmpRoot, { recursive: true, force: true });
+  });
+
+  it('should require a database path', () => {
+    expect(() => new SQLiteTaskStore('')).toThrow(
+      'SQLite database path is required.',
+    );
+  });
+
+  it('should load a saved task and restore its workspace', async () => {
+    const task = createTask('task-1');
+    await store.save(task);
+
+    const loaded = await store.load('task-1');
+
+    expect(fs.existsSync(dbPath)).toBe(true);
+    expect(loaded).toMatchObject({
+      id: 'task-1',
+      contextId: 'ctx-1',
+      kind: 'task',
+      status: { state: 'working' },
+      metadata: task.metadata,
+    });
+    expect(fs.readFileSync(path.join(restoreDir, 'main.ts'), 'utf-8')).toBe(
+      'console.log(1);',
+    );
+  });
+
+  it('should persist tasks across store instances', async () => {
+    await store.save(createTask('task-1'));
+    await store.close();
+
+    store = new SQLiteTaskStore(dbPath);
+
+    await expect(store.load('task-1')).resolves.toMatchObject({
+      id: 'task-1',
+    });
+  });
+
+  it('should return undefined for an unknown task', async () => {
+    await expect(store.load('missing')).resolves.toBeUndefined();
+  });
+
+  it('should reject tasks without persisted state', async () => {
+    await expect(
+      store.save({ ...createTask('task-1'), metadata: {} }),
+    ).rejects.toThrow('Task task-1 is missing persisted state in metadata.');
+  });
+
+  it('should keep the previous workspace when the workspace is empty', async () => {
+    await store.save(createTask('task-1'));
+    fs.rmSync(path.join(workspaceDir, 'main.ts'));
+
+    await store.save(createTask('task-1'));
+    await store.load('task-1');
+
+    expect(fs.existsSync(path.join(restoreDir, 'main.ts'))).toBe(true);
+  });
+
+  it('should list persisted tasks without restoring workspaces', async () => {
+    await expect(store.listTasks()).resolves.toEqual([]);
+
+    await store.save(createTask('task-1'));
+    await store.save(createTask('task-2'));
+
+    await expect(store.listTasks()).resolves.toEqual(
+      expect.arrayContaining([
+        { id: 'task-1', contextId: 'ctx-1', taskState: 'working' },
+        { id: 'task-2', contextId: 'ctx-1', taskState: 'working' },
+      ]),
+    );
+    expect(setTargetDir).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { dirname, join, resolve } from 'node:path';
+import { tmpdir } from '@google/gemini-cli-core';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import { logger } from '../utils/logger.js';
+import type { PersistedTaskMetadata, PersistedTaskSummary } from '../types.js';
+import {
+  archiveWorkspace,
+  getMetadataToPersist,
+  getTmpArchiveFilename,
+  isTaskIdValid,
+  restorePersistedTask,
+  toPersistedTaskSummary,
+  type ListableTaskStore,
+} from './taskStore.js';
+
+/**
+ * The subset of the `node:sqlite` `DatabaseSync` API used by the store.
+ */
+interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+type SqliteDatabaseConstructor = new (path: string) => SqliteDatabase;
+
+interface TaskRow {
+  metadata: string;
+  workspace: Uint8Array | null;
+}
+
+interface TaskListRow {
+  id: string;
+  metadata: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    metadata TEXT NOT NULL,
+    workspace BLOB,
+    updated_at TEXT NOT NULL
+  )
+`;
+
+// The workspace is only replaced when a new archive was captured, matching
+// GCSTaskStore which leaves the previous archive in place for empty workspaces.
+const UPSERT_TASK = `
+  INSERT INTO tasks (id, metadata, workspace, updated_at)
+  VALUES (?, ?, ?, ?)
+  ON CONFLICT(id) DO UPDATE SET
+    metadata = excluded.metadata,
+    workspace = COALESCE(excluded.workspace, tasks.workspace),
+    updated_at = excluded.updated_at
+`;
+
+async function loadDatabaseConstructor(): Promise<SqliteDatabaseConstructor> {
+  // node:sqlite is only available from Node.js 22.13, so it is loaded lazily
+  // to keep the other task stores working on older runtimes.
+  const moduleName = 'node:sqlite';
+  try {
+    const module: unknown = await import(moduleName);
+    if (
+      typeof module === 'object' &&
+      module !== null &&
+      'DatabaseSync' in module &&
+      typeof module.DatabaseSync === 'function'
+    ) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      return module.DatabaseSync as SqliteDatabaseConstructor;
+    }
+  } catch (error) {
+    logger.error('Failed to load node:sqlite:', error);
+  }
+  throw new Error(
+    `SQLiteTaskStore requires the node:sqlite module (Node.js 22.13 or later); running on Node.js ${process.versions.node}.`,
+  );
+}
+
+/**
+ * Persists tasks to a SQLite database. Each row holds the task metadata as
+ * JSON and the gzipped workspace tarball written by `GCSTaskStore`.
+ */
+export class SQLiteTaskStore implements ListableTaskStore {
+  private dbPath: string;
+  private dbInitialized: Promise<SqliteDatabase>;
+
+  constructor(dbPath: string) {
+    if (!dbPath) {
+      throw new Error('SQLite database path is required.');
+    }
+    this.dbPath = resolve(dbPath);
+    logger.info(`SQLiteTaskStore initializing with database: ${this.dbPath}`);
+    this.dbInitialized = this.initializeDatabase();
+    // Initialization errors surface on first use instead of as an unhandled
+    // rejection.
+    this.dbInitialized.catch(() => {});
+  }
+
+  private async initializeDatabase(): Promise<SqliteDatabase> {
+    const DatabaseSync = await loadDatabaseConstructor();
+    await fse.ensureDir(dirname(this.dbPath));
+    const db = new DatabaseSync(this.dbPath);
+    db.exec(SCHEMA);
+    return db;
+  }
+
+  private async getDatabase(): Promise<SqliteDatabase> {
+    return this.dbInitialized;
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    if (!isTaskIdValid(taskId)) {
+      throw new Error(`Invalid taskId: ${taskId}`);
+    }
+    const metadata = getMetadataToPersist(task);
+    const db = await this.getDatabase();
+
+    const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
+    try {
+      const workspace = (await archiveWorkspace(
+        taskId,
+        process.cwd(),
+        tmpArchiveFile,
+      ))
+        ? await fse.readFile(tmpArchiveFile)
+        : null;
+
+      db.prepare(UPSERT_TASK).run(
+        taskId,
+        JSON.stringify(metadata),
+        workspace,
+        new Date().toISOString(),
+      );
+      logger.info(`Task ${taskId} saved to SQLite: ${this.dbPath}`);
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to SQLite:`, error);
+      throw error;
+    } finally {
+      await fse.remove(tmpArchiveFile);
+    }
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    if (!isTaskIdValid(taskId)) {
+      throw new Error(`Invalid taskId: ${taskId}`);
+    }
+    const db = await this.getDatabase();
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const row = db
+        .prepare('SELECT metadata, workspace FROM tasks WHERE id = ?')
+        .get(taskId) as TaskRow | undefined;
+      if (!row) {
+        logger.info(`Task ${taskId} not found in SQLite.`);
+        return undefined;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const metadata = JSON.parse(row.metadata) as PersistedTaskMetadata;
+      logger.info(`Task ${taskId} metadata loaded from SQLite.`);
+
+      return await restorePersistedTask(taskId, metadata, async (workDir) => {
+        if (!row.workspace) {
+          logger.info(`Task ${taskId} workspace archive not found in SQLite.`);
+          return;
+        }
+        const tmpArchiveFile = join(tmpdir(), getTmpArchiveFilename(taskId));
+        try {
+          await fse.writeFile(tmpArchiveFile, row.workspace);
+          await tar.x({ file: tmpArchiveFile, cwd: workDir });
+          logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+        } finally {
+          await fse.remove(tmpArchiveFile);
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from SQLite:`, error);
+      throw error;
+    }
+  }
+
+  async listTasks(): Promise<PersistedTaskSummary[]> {
+    const db = await this.getDatabase();
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const rows = db
+      .prepare('SELECT id, metadata FROM tasks ORDER BY updated_at')
+      .all() as TaskListRow[];
+
+    const summaries: PersistedTaskSummary[] = [];
+    for (const row of rows) {
+      try {
+        const summary = toPersistedTaskSummary(
+          row.id,
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+          JSON.parse(row.metadata) as PersistedTaskMetadata,
+        );
+        if (summary) {
+          summaries.push(summary);
+        }
+      } catch (error) {
+        logger.warn(`Skipping unreadable metadata for task ${row.id}:`, error);
+      }
+    }
+    return summaries;
+  }
+
+  async close(): Promise<void> {
+    const db = await this.getDatabase();
+    db.close();
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import type { Task as SDKTask } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { setTargetDir } from '../config/config.js';
+import {
+  getContextIdFromMetadata,
+  getPersistedState,
+  type PersistedTaskMetadata,
+  type PersistedTaskSummary,
+} from '../types.js';
+
+/**
+ * A TaskStore that can enumerate the tasks it has persisted without
+ * restoring their workspaces.
+ */
+export interface ListableTaskStore extends TaskStore {
+  listTasks(): Promise<PersistedTaskSummary[]>;
+}
+
+export function isListableTaskStore(
+  store: TaskStore,
+): store is ListableTaskStore {
+  return 'listTasks' in store && typeof store.listTasks === 'function';
+}
+
+export const getTmpArchiveFilename = (taskId: string): string =>
+  `task-${taskId}-workspace-${uuidv4()}.tar.gz`;
+
+// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
+export const isTaskIdValid = (taskId: string): boolean => {
+  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
+  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
+  return validTaskIdRegex.test(taskId);
+};
+
+/**
+ * Returns the metadata to persist for a task, throwing if it is missing the
+ * internal persisted state needed to load it again.
+ */
+export function getMetadataToPersist(task: SDKTask): PersistedTaskMetadata {
+  const metadata: PersistedTaskMetadata | undefined = task.metadata;
+  if (!metadata || !getPersistedState(metadata)) {
+    throw new Error(`Task ${task.id} is missing persisted state in metadata.`);
+  }
+  return metadata;
+}
+
+/**
+ * Archives the contents of `workDir` into a gzipped tarball at `archiveFile`.
+ *
+ * @returns false if the workspace is missing or empty and nothing was written.
+ */
+export async function archiveWorkspace(
+  taskId: string,
+  workDir: string,
+  archiveFile: string,
+): Promise<boolean> {
+  if (!(await fse.pathExists(workDir))) {
+    logger.info(
+      `Workspace directory ${workDir} not found, skipping workspace save for task ${taskId}.`,
+    );
+    return false;
+  }
+  const entries = await fsPromises.readdir(workDir);
+  if (entries.length === 0) {
+    logger.info(
+      `Workspace directory ${workDir} is empty, skipping workspace save for task ${taskId}.`,
+    );
+    return false;
+  }
+  await tar.c(
+    {
+      gzip: true,
+      file: archiveFile,
+      cwd: workDir,
+      portable: true,
+    },
+    entries,
+  );
+  if (!(await fse.pathExists(archiveFile))) {
+    throw new Error(`tar.c command failed to create ${archiveFile}`);
+  }
+  return true;
+}
+
+/**
+ * Rebuilds an SDK task from persisted metadata. The task's workspace directory
+ * is selected from its agent settings and handed to `restoreWorkspace` before
+ * the task is returned.
+ */
+export async function restorePersistedTask(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+  restoreWorkspace: (workDir: string) => Promise<void>,
+): Promise<SDKTask> {
+  const persistedState = getPersistedState(metadata);
+  if (!persistedState) {
+    throw new Error(
+      `Loaded metadata for task ${taskId} is missing internal persisted state.`,
+    );
+  }
+
+  const workDir = setTargetDir(persistedState._agentSettings);
+  await fse.ensureDir(workDir);
+  await restoreWorkspace(workDir);
+
+  return {
+    id: taskId,
+    contextId: getContextIdFromMetadata(metadata) || uuidv4(),
+    kind: 'task',
+    status: {
+      state: persistedState._taskState,
+      timestamp: new Date().toISOString(),
+    },
+    metadata,
+    history: [],
+    artifacts: [],
+  };
+}
+
+/**
+ * Summarizes persisted metadata for listing, or returns undefined if it is
+ * missing the internal persisted state.
+ */
+export function toPersistedTaskSummary(
+  taskId: string,
+  metadata: PersistedTaskMetadata,
+): PersistedTaskSummary | undefined {
+  const persistedState = getPersistedState(metadata);
+  if (!persistedState) {
+    return undefined;
+  }
+  return {
+    id: taskId,
+    contextId: getContextIdFromMetadata(metadata) ?? '',
+    taskState: persistedState._taskState,
+  };
+}
@@ -113,6 +113,14 @@ export interface TaskMetadata {
   }>;
 }
 
+/**
+ * Metadata for a persisted task that is not loaded in this server process.
+ */
+export type PersistedTaskSummary = Pick<
+  TaskMetadata,
+  'id' | 'contextId' | 'taskState'
+>;
+
 export interface PersistedStateMetadata {
   _agentSettings: AgentSettings;
   _taskState: TaskState;
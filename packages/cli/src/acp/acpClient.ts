@@ -11,6 +11,7 @@ import {
   type ToolCallConfirmationDetails,
   type FilterFilesOptions,
   type ConversationRecord,
+  type MessageRecord,
   CoreToolCallStatus,
   AuthType,
   logToolCall,
@@ -52,10 +53,16 @@ import {
   InvalidStreamError,
   type AgentLoopContext,
   updatePolicy,
+  Storage,
+  generateSummary,
 } from '@google/gemini-cli-core';
 import * as acp from '@agentclientprotocol/sdk';
 import { AcpFileSystemService } from './fileSystemService.js';
 import { getAcpErrorMessage } from './acpErrors.js';
+import {
+  forwardMcpElicitationToClient,
+  supportsMcpElicitation,
+} from './mcpElicitation.js';
 import { Readable, Writable } from 'node:stream';
 
 function hasMeta(obj: unknown): obj is { _meta?: Record<string, unknown> } {
@@ -79,6 +86,8 @@ import { SessionSelector } from '../utils/sessionUtils.js';
 
 import { CommandHandler } from './commandHandler.js';
 
+const LIST_SESSIONS_PAGE_SIZE = 50;
+
 const RequestPermissionResponseSchema = z.object({
   outcome: z.discriminatedUnion('outcome', [
     z.object({ outcome: z.literal('cancelled') }),
@@ -121,6 +130,8 @@ export class GeminiAgent {
   }
 
   private sessions: Map<string, Session> = new Map();
+  /** Stops MCP elicitation forwarding for sessions that haven't started yet. */
+  private pendingElicitationUnsubscribes = new Map<string, () => void>();
   private clientCapabilities: acp.ClientCapabilities | undefined;
   private apiKey: string | undefined;
   private baseUrl: string | undefined;
@@ -184,6 +195,10 @@ export class GeminiAgent {
       },
       agentCapabilities: {
         loadSession: true,
+        sessionCapabilities: {
+          list: {},
+          fork: {},
+        },
         promptCapabilities: {
           image: true,
           audio: true,
@@ -328,14 +343,7 @@ export class GeminiAgent {
     const geminiClient = config.getGeminiClient();
     const chat = await geminiClient.startChat();
 
-    const session = new Session(
-      sessionId,
-      chat,
-      config,
-      this.connection,
-      this.settings,
-    );
-    this.sessions.set(sessionId, session);
+    const session = this.addSession(sessionId, chat, config);
 
     setTimeout(() => {
       // eslint-disable-next-line @typescript-eslint/no-floating-promises
@@ -361,6 +369,50 @@ export class GeminiAgent {
     return response;
   }
 
+  async listSessions({
+    cwd,
+    cursor,
+  }: acp.ListSessionsRequest): Promise<acp.ListSessionsResponse> {
+    const offset = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new acp.RequestError(-32602, `Invalid cursor: ${cursor}`);
+    }
+
+    const config = this.context.config;
+    const storage = cwd ? new Storage(cwd) : config.storage;
+    await storage.initialize();
+
+    // Generate summary for most recent session if needed, like --list-sessions.
+    // Later pages are listed from the same sessions, so only the first asks.
+    if (offset === 0) {
+      await generateSummary(config, storage);
+    }
+
+    const sessions = await new SessionSelector(storage).listSessions();
+    sessions.sort(
+      (a, b) =>
+        new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime(),
+    );
+
+    const page = sessions.slice(offset, offset + LIST_SESSIONS_PAGE_SIZE);
+    const nextOffset = offset + page.length;
+
+    return {
+      sessions: page.map((session) => ({
+        sessionId: session.id,
+        cwd: cwd ?? config.getTargetDir(),
+        title: session.displayName,
+        updatedAt: session.lastUpdated,
+        _meta: {
+          startTime: session.startTime,
+          messageCount: session.messageCount,
+          summary: session.summary,
+        },
+      })),
+      nextCursor: nextOffset < sessions.length ? String(nextOffset) : undefined,
+    };
+  }
+
   async loadSession({
     sessionId,
     cwd,
@@ -385,18 +437,71 @@ export class GeminiAgent {
       filePath: sessionPath,
     });
 
-    const session = new Session(
+    return this.startRestoredSession(sessionId, config, sessionData.messages);
+  }
+
+  /**
+   * Forks a saved session into a new one. If `_meta.messageId` is set, the
+   * fork keeps only the messages before it, the same way `/rewind` does;
+   * otherwise the whole conversation is copied.
+   */
+  async unstable_forkSession(
+    params: acp.ForkSessionRequest,
+  ): Promise<acp.ForkSessionResponse> {
+    const { sessionId, cwd, mcpServers = [] } = params;
+    const meta = hasMeta(params) ? params._meta : undefined;
+    const messageId =
+      typeof meta?.['messageId'] === 'string' ? meta['messageId'] : undefined;
+
+    const forkedSessionId = randomUUID();
+    const config = await this.initializeSessionConfig(
+      forkedSessionId,
+      cwd,
+      mcpServers,
+    );
+
+    const sessionSelector = new SessionSelector(config.storage);
+    const { sessionData } = await sessionSelector.resolveSession(sessionId);
+
+    let messages: MessageRecord[] = sessionData.messages;
+    if (messageId) {
+      const messageIndex = messages.findIndex((m) => m.id === messageId);
+      if (messageIndex === -1) {
+        throw new acp.RequestError(
+          -32602,
+          `Message ${messageId} not found in session ${sessionId}`,
+        );
+      }
+      messages = messages.slice(0, messageIndex);
+    }
+
+    const geminiClient = config.getGeminiClient();
+    await geminiClient.initialize();
+    geminiClient.getChatRecordingService()?.appendMessages(messages);
+    geminiClient.setHistory(convertSessionToClientHistory(messages));
+
+    const response = this.startRestoredSession(
+      forkedSessionId,
+      config,
+      messages,
+    );
+    return { sessionId: forkedSessionId, ...response };
+  }
+
+  private startRestoredSession(
+    sessionId: string,
+    config: Config,
+    messages: ConversationRecord['messages'],
+  ): acp.LoadSessionResponse {
+    const session = this.addSession(
       sessionId,
-      geminiClient.getChat(),
+      config.getGeminiClient().getChat(),
       config,
-      this.connection,
-      this.settings,
     );
-    this.sessions.set(sessionId, session);
 
     // Stream history back to client
     // eslint-disable-next-line @typescript-eslint/no-floating-promises
-    session.streamHistory(sessionData.messages);
+    session.streamHistory(messages);
 
     setTimeout(() => {
       // eslint-disable-next-line @typescript-eslint/no-floating-promises
@@ -408,7 +513,7 @@ export class GeminiAgent {
       this.settings,
     );
 
-    const response = {
+    return {
       modes: {
         availableModes: buildAvailableModes(config.isPlanEnabled()),
         currentModeId: config.getApprovalMode(),
@@ -418,7 +523,29 @@ export class GeminiAgent {
         currentModelId,
       },
     };
-    return response;
+  }
+
+  /**
+   * Starts tracking a session, handing it the MCP elicitation forwarding set
+   * up with its config. A session it replaces is disposed.
+   */
+  private addSession(
+    sessionId: string,
+    chat: GeminiChat,
+    config: Config,
+  ): Session {
+    const session = new Session(
+      sessionId,
+      chat,
+      config,
+      this.connection,
+      this.settings,
+      this.pendingElicitationUnsubscribes.get(sessionId),
+    );
+    this.pendingElicitationUnsubscribes.delete(sessionId);
+    this.sessions.get(sessionId)?.dispose();
+    this.sessions.set(sessionId, session);
+    return session;
   }
 
   private async initializeSessionConfig(
@@ -524,6 +651,19 @@ export class GeminiAgent {
       config.storage,
     );
 
+    // Without a listener, MCP elicitation requests are declined by core.
+    if (supportsMcpElicitation(this.clientCapabilities)) {
+      this.pendingElicitationUnsubscribes.get(sessionId)?.();
+      this.pendingElicitationUnsubscribes.set(
+        sessionId,
+        forwardMcpElicitationToClient(
+          config.messageBus,
+          this.connection,
+          sessionId,
+        ),
+      );
+    }
+
     return config;
   }
 
@@ -574,8 +714,16 @@ export class Session {
     private readonly context: AgentLoopContext,
     private readonly connection: acp.AgentSideConnection,
     private readonly settings: LoadedSettings,
+    private readonly stopElicitationForwarding?: () => void,
   ) {}
 
+  /**
+   * Releases the session's subscriptions once it ends or is replaced.
+   */
+  dispose(): void {
+    this.stopElicitationForwarding?.();
+  }
+
   async cancelPendingPrompt(): Promise<void> {
     if (!this.pendingPrompt) {
       throw new Error('Not currently generating');
@@ -625,9 +773,11 @@ export class Session {
 
       if (msg.type === 'user') {
         if (contentString.trim()) {
+          // The message ID lets clients fork the session at this prompt.
           await this.sendUpdate({
             sessionUpdate: 'user_message_chunk',
             content: { type: 'text', text: contentString },
+            _meta: { messageId: msg.id },
           });
         }
       } else if (msg.type === 'gemini') {
@@ -20,6 +20,9 @@ import {
   AuthType,
   type Config,
   CoreToolCallStatus,
+  MessageBusType,
+  Storage,
+  generateSummary,
 } from '@google/gemini-cli-core';
 import { loadCliConfig, type CliArgs } from '../config/config.js';
 import {
@@ -28,6 +31,7 @@ import {
 } from '../utils/sessionUtils.js';
 import { convertSessionToClientHistory } from '@google/gemini-cli-core';
 import type { LoadedSettings } from '../config/settings.js';
+import { MCP_ELICITATION_CAPABILITY } from './mcpElicitation.js';
 
 vi.mock('../config/config.js', () => ({
   loadCliConfig: vi.fn(),
@@ -67,6 +71,7 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
       TOOL: 'tool',
     },
     convertSessionToClientHistory: vi.fn(),
+    generateSummary: vi.fn().mockResolvedValue(undefined),
   };
 });
 
@@ -86,11 +91,17 @@ describe('GeminiAgent Session Resume', () => {
       getGeminiClient: vi.fn().mockReturnValue({
         initialize: vi.fn().mockResolvedValue(undefined),
         resumeChat: vi.fn().mockResolvedValue(undefined),
+        setHistory: vi.fn(),
         getChat: vi.fn().mockReturnValue({}),
+        getChatRecordingService: vi.fn().mockReturnValue({
+          appendMessages: vi.fn(),
+        }),
       }),
       storage: {
+        initialize: vi.fn().mockResolvedValue(undefined),
         getProjectTempDir: vi.fn().mockReturnValue('/tmp/project'),
       },
+      getTargetDir: vi.fn().mockReturnValue('/tmp/project'),
       getPolicyEngine: vi.fn().mockReturnValue({
         addRule: vi.fn(),
       }),
@@ -131,6 +142,235 @@ describe('GeminiAgent Session Resume', () => {
       protocolVersion: acp.PROTOCOL_VERSION,
     });
     expect(response.agentCapabilities?.loadSession).toBe(true);
+    expect(response.agentCapabilities?.sessionCapabilities).toEqual({
+      list: {},
+      fork: {},
+    });
+  });
+
+  it('should stop forwarding MCP elicitations for a replaced session', async () => {
+    await agent.initialize({
+      protocolVersion: acp.PROTOCOL_VERSION,
+      clientCapabilities: { _meta: { [MCP_ELICITATION_CAPABILITY]: true } },
+    });
+    (SessionSelector as unknown as Mock).mockImplementation(() => ({
+      resolveSession: vi.fn().mockResolvedValue({
+        sessionData: { sessionId: 'session-1', messages: [] },
+        sessionPath: '/path/to/session.json',
+      }),
+    }));
+    (convertSessionToClientHistory as unknown as Mock).mockReturnValue([]);
+    const load = () =>
+      agent.loadSession({
+        sessionId: 'session-1',
+        cwd: '/tmp',
+        mcpServers: [],
+      });
+
+    await load();
+    expect(mockConfig.messageBus.subscribe).toHaveBeenCalledWith(
+      MessageBusType.MCP_ELICITATION_REQUEST,
+      expect.any(Function),
+    );
+    expect(mockConfig.messageBus.unsubscribe).not.toHaveBeenCalled();
+
+    await load();
+    const [, listener] = vi
+      .mocked(mockConfig.messageBus.subscribe)
+      .mock.calls.find(
+        ([type]) => type === MessageBusType.MCP_ELICITATION_REQUEST,
+      )!;
+    expect(mockConfig.messageBus.unsubscribe).toHaveBeenCalledTimes(1);
+    expect(mockConfig.messageBus.unsubscribe).toHaveBeenCalledWith(
+      MessageBusType.MCP_ELICITATION_REQUEST,
+      listener,
+    );
+  });
+
+  describe('listSessions', () => {
+    const makeSession = (index: number, lastUpdated: string) => ({
+      id: `session-${index}`,
+      startTime: '2026-01-01T00:00:00.000Z',
+      lastUpdated,
+      messageCount: 2,
+      displayName: `Session ${index}`,
+      summary: index === 1 ? 'Fix the build' : undefined,
+    });
+
+    it('should list sessions newest first with their summaries', async () => {
+      const listSessions = vi
+        .fn()
+        .mockResolvedValue([
+          makeSession(1, '2026-01-02T00:00:00.000Z'),
+          makeSession(2, '2026-01-03T00:00:00.000Z'),
+        ]);
+      (SessionSelector as unknown as Mock).mockImplementation(() => ({
+        listSessions,
+      }));
+
+      const response = await agent.listSessions({});
+
+      expect(generateSummary).toHaveBeenCalledWith(
+        mockConfig,
+        mockConfig.storage,
+      );
+      expect(SessionSelector).toHaveBeenCalledWith(mockConfig.storage);
+      expect(response.nextCursor).toBeUndefined();
+      expect(response.sessions).toEqual([
+        {
+          sessionId: 'session-2',
+          cwd: '/tmp/project',
+          title: 'Session 2',
+          updatedAt: '2026-01-03T00:00:00.000Z',
+          _meta: {
+            startTime: '2026-01-01T00:00:00.000Z',
+            messageCount: 2,
+            summary: undefined,
+          },
+        },
+        {
+          sessionId: 'session-1',
+          cwd: '/tmp/project',
+          title: 'Session 1',
+          updatedAt: '2026-01-02T00:00:00.000Z',
+          _meta: {
+            startTime: '2026-01-01T00:00:00.000Z',
+            messageCount: 2,
+            summary: 'Fix the build',
+          },
+        },
+      ]);
+    });
+
+    it('should read sessions from the requested working directory', async () => {
+      vi.spyOn(Storage.prototype, 'initialize').mockResolvedValue(undefined);
+      (SessionSelector as unknown as Mock).mockImplementation(() => ({
+        listSessions: vi.fn().mockResolvedValue([]),
+      }));
+
+      const response = await agent.listSessions({ cwd: '/other/project' });
+
+      const [storage] = (SessionSelector as unknown as Mock).mock.lastCall!;
+      expect(storage).toBeInstanceOf(Storage);
+      expect((storage as Storage).getProjectRoot()).toBe('/other/project');
+      expect(generateSummary).toHaveBeenCalledWith(mockConfig, storage);
+      expect(response.sessions).toEqual([]);
+    });
+
+    it('should page through sessions with a cursor', async () => {
+      const sessions = Array.from({ length: 60 }, (_, i) =>
+        makeSession(i, new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString()),
+      );
+      (SessionSelector as unknown as Mock).mockImplementation(() => ({
+        listSessions: vi.fn().mockResolvedValue([...sessions]),
+      }));
+
+      vi.mocked(generateSummary).mockClear();
+
+      const first = await agent.listSessions({});
+      expect(first.sessions).toHaveLength(50);
+      expect(first.sessions[0].sessionId).toBe('session-59');
+      expect(first.nextCursor).toBe('50');
+
+      const second = await agent.listSessions({ cursor: first.nextCursor });
+      expect(generateSummary).toHaveBeenCalledTimes(1);
+      expect(second.sessions).toHaveLength(10);
+      expect(second.sessions.at(-1)?.sessionId).toBe('session-0');
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should reject an invalid cursor', async () => {
+      await expect(agent.listSessions({ cursor: 'abc' })).rejects.toThrow(
+        'Invalid cursor: abc',
+      );
+    });
+  });
+
+  describe('unstable_forkSession', () => {
+    const sessionData = {
+      sessionId: 'existing-session-id',
+      messages: [
+        { id: 'msg-1', type: 'user', content: [{ text: 'Hello' }] },
+        { id: 'msg-2', type: 'gemini', content: [{ text: 'Hi there' }] },
+        { id: 'msg-3', type: 'user', content: [{ text: 'Try again' }] },
+        { id: 'msg-4', type: 'gemini', content: [{ text: 'Done' }] },
+      ],
+    };
+
+    beforeEach(() => {
+      (SessionSelector as unknown as Mock).mockImplementation(() => ({
+        resolveSession: vi.fn().mockResolvedValue({
+          sessionData,
+          sessionPath: '/path/to/session.jsonl',
+        }),
+      }));
+      (convertSessionToClientHistory as unknown as Mock).mockReturnValue([]);
+    });
+
+    it('should fork a session before the given message', async () => {
+      const response = await agent.unstable_forkSession({
+        sessionId: 'existing-session-id',
+        cwd: '/tmp',
+        _meta: { messageId: 'msg-3' },
+      });
+
+      expect(response.sessionId).not.toBe('existing-session-id');
+      expect(loadCliConfig).toHaveBeenCalledWith(
+        expect.anything(),
+        response.sessionId,
+        mockArgv,
+        { cwd: '/tmp' },
+      );
+
+      const forked = sessionData.messages.slice(0, 2);
+      const geminiClient = mockConfig.getGeminiClient();
+      expect(
+        geminiClient.getChatRecordingService()!.appendMessages,
+      ).toHaveBeenCalledWith(forked);
+      expect(convertSessionToClientHistory).toHaveBeenCalledWith(forked);
+      expect(geminiClient.setHistory).toHaveBeenCalledWith([]);
+      expect(geminiClient.resumeChat).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => {
+        expect(mockConnection.sessionUpdate).toHaveBeenCalledWith({
+          sessionId: response.sessionId,
+          update: {
+            sessionUpdate: 'user_message_chunk',
+            content: { type: 'text', text: 'Hello' },
+            _meta: { messageId: 'msg-1' },
+          },
+        });
+      });
+      expect(mockConnection.sessionUpdate).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({
+            content: expect.objectContaining({ text: 'Try again' }),
+          }),
+        }),
+      );
+    });
+
+    it('should copy the whole session without a message ID', async () => {
+      await agent.unstable_forkSession({
+        sessionId: 'existing-session-id',
+        cwd: '/tmp',
+      });
+
+      expect(
+        mockConfig.getGeminiClient().getChatRecordingService()!.appendMessages,
+      ).toHaveBeenCalledWith(sessionData.messages);
+    });
+
+    it('should reject an unknown message ID', async () => {
+      await expect(
+        agent.unstable_forkSession({
+          sessionId: 'existing-session-id',
+          cwd: '/tmp',
+          _meta: { messageId: 'missing' },
+        }),
+      ).rejects.toThrow('Message missing not found in session');
+      expect(mockConfig.getGeminiClient().initialize).not.toHaveBeenCalled();
+    });
   });
 
   it('should load a session, resume chat, and stream all message types', async () => {
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mocked } from 'vitest';
+import type { AgentSideConnection } from '@agentclientprotocol/sdk';
+import {
+  MessageBus,
+  MessageBusType,
+  PolicyEngine,
+  type McpElicitationResponse,
+} from '@google/gemini-cli-core';
+import {
+  forwardMcpElicitationToClient,
+  MCP_ELICITATION_METHOD,
+  supportsMcpElicitation,
+} from './mcpElicitation.js';
+
+describe('mcpElicitation', () => {
+  let messageBus: MessageBus;
+  let mockConnection: Mocked<AgentSideConnection>;
+
+  const publishRequest = () =>
+    messageBus.publish({
+      type: MessageBusType.MCP_ELICITATION_REQUEST,
+      correlationId: 'corr-1',
+      serverName: 'server',
+      message: 'Need input',
+      requestedSchema: {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+      },
+    });
+
+  const nextResponse = () =>
+    new Promise<McpElicitationResponse>((resolve) => {
+      messageBus.subscribe<McpElicitationResponse>(
+        MessageBusType.MCP_ELICITATION_RESPONSE,
+        resolve,
+      );
+    });
+
+  beforeEach(() => {
+    messageBus = new MessageBus(new PolicyEngine());
+    mockConnection = {
+      extMethod: vi.fn(),
+    } as unknown as Mocked<AgentSideConnection>;
+  });
+
+  describe('supportsMcpElicitation', () => {
+    it('requires the client to opt in through _meta', () => {
+      expect(supportsMcpElicitation(undefined)).toBe(false);
+      expect(supportsMcpElicitation({})).toBe(false);
+      expect(supportsMcpElicitation({ _meta: { mcpElicitation: true } })).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('forwardMcpElicitationToClient', () => {
+    it('forwards requests and publishes the client response', async () => {
+      mockConnection.extMethod.mockResolvedValue({
+        action: 'accept',
+        content: { name: 'Ada' },
+      });
+      forwardMcpElicitationToClient(messageBus, mockConnection, 'session-1');
+
+      const response = nextResponse();
+      await publishRequest();
+
+      await expect(response).resolves.toEqual({
+        type: MessageBusType.MCP_ELICITATION_RESPONSE,
+        correlationId: 'corr-1',
+        action: 'accept',
+        content: { name: 'Ada' },
+      });
+      expect(mockConnection.extMethod).toHaveBeenCalledWith(
+        MCP_ELICITATION_METHOD,
+        {
+          sessionId: 'session-1',
+          serverName: 'server',
+          message: 'Need input',
+          requestedSchema: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+          },
+        },
+      );
+    });
+
+    it('declines when the client fails to answer', async () => {
+      mockConnection.extMethod.mockRejectedValue(new Error('Method not found'));
+      forwardMcpElicitationToClient(messageBus, mockConnection, 'session-1');
+
+      const response = nextResponse();
+      await publishRequest();
+
+      await expect(response).resolves.toMatchObject({
+        correlationId: 'corr-1',
+        action: 'decline',
+      });
+    });
+
+    it('stops forwarding once unsubscribed', async () => {
+      const stop = forwardMcpElicitationToClient(
+        messageBus,
+        mockConnection,
+        'session-1',
+      );
+      stop();
+
+      await publishRequest();
+
+      expect(mockConnection.extMethod).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  debugLogger,
+  MessageBusType,
+  type McpElicitationRequest,
+  type McpElicitationResponse,
+  type MessageBus,
+} from '@google/gemini-cli-core';
+import type * as acp from '@agentclientprotocol/sdk';
+
+/**
+ * The `_meta` key a client sets in its capabilities to opt in to receiving
+ * MCP elicitation requests.
+ */
+export const MCP_ELICITATION_CAPABILITY = 'mcpElicitation';
+
+/**
+ * The extension method used to forward an MCP elicitation request to the
+ * client. The client responds with `{ action, content? }`, mirroring the MCP
+ * `ElicitResult`.
+ */
+export const MCP_ELICITATION_METHOD = '_gemini/mcpElicitation';
+
+const ELICITATION_ACTIONS: ReadonlyArray<McpElicitationResponse['action']> = [
+  'accept',
+  'decline',
+  'cancel',
+];
+
+export function supportsMcpElicitation(
+  capabilities: acp.ClientCapabilities | undefined,
+): boolean {
+  return capabilities?._meta?.[MCP_ELICITATION_CAPABILITY] === true;
+}
+
+function toResponse(
+  correlationId: string,
+  result: Record<string, unknown>,
+): McpElicitationResponse {
+  const action = ELICITATION_ACTIONS.find((a) => a === result['action']);
+  if (!action) {
+    return {
+      type: MessageBusType.MCP_ELICITATION_RESPONSE,
+      correlationId,
+      action: 'decline',
+    };
+  }
+  return {
+    type: MessageBusType.MCP_ELICITATION_RESPONSE,
+    correlationId,
+    action,
+    ...(action === 'accept' && {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      content: (result['content'] ?? {}) as McpElicitationResponse['content'],
+    }),
+  };
+}
+
+/**
+ * Forwards MCP elicitation requests published on the message bus to the ACP
+ * client. Requests the client fails to answer are declined.
+ *
+ * @returns A function that stops forwarding.
+ */
+export function forwardMcpElicitationToClient(
+  messageBus: MessageBus,
+  connection: acp.AgentSideConnection,
+  sessionId: string,
+): () => void {
+  const forward = async (request: McpElicitationRequest) => {
+    let response: McpElicitationResponse;
+    try {
+      const result = await connection.extMethod(MCP_ELICITATION_METHOD, {
+        sessionId,
+        serverName: request.serverName,
+        message: request.message,
+        requestedSchema: request.requestedSchema,
+      });
+      response = toResponse(request.correlationId, result);
+    } catch (error) {
+      debugLogger.warn(
+        `Failed to forward MCP elicitation from "${request.serverName}": ${error}`,
+      );
+      response = toResponse(request.correlationId, {});
+    }
+    await messageBus.publish(response);
+  };
+  const onRequest = (request: McpElicitationRequest) => {
+    void forward(request);
+  };
+
+  messageBus.subscribe(MessageBusType.MCP_ELICITATION_REQUEST, onRequest);
+  return () =>
+    messageBus.unsubscribe(MessageBusType.MCP_ELICITATION_REQUEST, onRequest);
+}
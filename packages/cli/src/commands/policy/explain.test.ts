@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ApprovalMode, debugLogger } from '@google/gemini-cli-core';
+import { handleExplain } from './explain.js';
+import { loadSettings } from '../../config/settings.js';
+import { exitCli } from '../utils.js';
+
+vi.mock('../../config/settings.js', () => ({
+  loadSettings: vi.fn(),
+}));
+vi.mock('../../config/trustedFolders.js', () => ({
+  isWorkspaceTrusted: vi.fn(() => ({ isTrusted: true })),
+}));
+vi.mock('../utils.js', () => ({
+  exitCli: vi.fn(),
+}));
+
+describe('policy explain command', () => {
+  let tmpDir: string;
+  let policyFile: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-explain-'));
+    policyFile = path.join(tmpDir, 'git.toml');
+    fs.writeFileSync(
+      policyFile,
+      [
+        '[[rule]]',
+        'toolName = "run_shell_command"',
+        'commandPrefix = "git push"',
+        'decision = "deny"',
+        'priority = 500',
+        '',
+        '[[rule]]',
+        'toolName = "run_shell_command"',
+        'subagent = "pr-creator"',
+        'decision = "allow"',
+        'priority = 600',
+      ].join('\n'),
+    );
+    vi.mocked(loadSettings).mockReturnValue({
+      merged: { policyPaths: [policyFile] },
+    } as unknown as ReturnType<typeof loadSettings>);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should print the matching rules and the one that wins', async () => {
+    const logSpy = vi.spyOn(debugLogger, 'log');
+
+    await handleExplain({
+      tool: 'run_shell_command',
+      args: '{"command":"git push origin main"}',
+      mode: ApprovalMode.AUTO_EDIT,
+    });
+
+    const output = String(logSpy.mock.calls[0][0]);
+    expect(output).toContain(
+      'Tool call: run_shell_command {"command":"git push origin main"}',
+    );
+    expect(output).toContain('Approval mode: autoEdit');
+    expect(output).toMatch(/→ 1\. deny {2}priority 4\.5 {2}modes: all/);
+    expect(output).toContain(`source: User: git.toml (${policyFile})`);
+    expect(output).not.toContain('subagent: pr-creator');
+    expect(output).toContain('Decision: deny\nDecided by: rule 1');
+    expect(exitCli).not.toHaveBeenCalled();
+  });
+
+  it('should include rules scoped to the given subagent', async () => {
+    const logSpy = vi.spyOn(debugLogger, 'log');
+
+    await handleExplain({
+      tool: 'run_shell_command',
+      args: '{"command":"git status"}',
+      subagent: 'pr-creator',
+    });
+
+    const output = String(logSpy.mock.calls[0][0]);
+    expect(output).toContain('Subagent: pr-creator');
+    expect(output).toMatch(/→ 1\. allow {2}priority 4\.6/);
+    expect(output).toContain('subagent: pr-creator');
+    expect(output).toContain('Decision: allow');
+  });
+
+  it('should reject arguments that are not a JSON object', async () => {
+    const errorSpy = vi.spyOn(debugLogger, 'error');
+
+    await handleExplain({ tool: 'run_shell_command', args: '[1]' });
+
+    expect(errorSpy).toHaveBeenCalledWith('--args must be a JSON object.');
+    expect(exitCli).toHaveBeenCalledWith(1);
+  });
+});
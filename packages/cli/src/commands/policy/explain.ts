@@ -0,0 +1,231 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import { randomUUID } from 'node:crypto';
+import {
+  ApprovalMode,
+  Config,
+  debugLogger,
+  getErrorMessage,
+  type PolicyExplanation,
+  type PolicyRule,
+  type SafetyCheckerRule,
+} from '@google/gemini-cli-core';
+import { loadSettings } from '../../config/settings.js';
+import {
+  createPolicyEngineConfig,
+  resolveWorkspacePolicyState,
+} from '../../config/policy.js';
+import { isWorkspaceTrusted } from '../../config/trustedFolders.js';
+import { exitCli } from '../utils.js';
+
+interface ExplainArgs {
+  tool: string;
+  args?: string;
+  mode?: ApprovalMode;
+  subagent?: string;
+  nonInteractive?: boolean;
+}
+
+function parseToolArgs(json: string | undefined): Record<string, unknown> {
+  if (!json) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid --args JSON: ${getErrorMessage(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('--args must be a JSON object.');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+  return parsed as Record<string, unknown>;
+}
+
+function formatSource(rule: PolicyRule | SafetyCheckerRule): string {
+  const source = rule.source ?? 'unknown';
+  return rule.sourceFile ? `${source} (${rule.sourceFile})` : source;
+}
+
+function formatRule(rule: PolicyRule): string[] {
+  const conditions = [`toolName: ${rule.toolName}`];
+  if (rule.mcpName) {
+    conditions.push(`mcpName: ${rule.mcpName}`);
+  }
+  if (rule.subagent) {
+    conditions.push(`subagent: ${rule.subagent}`);
+  }
+  if (rule.argsPattern) {
+    conditions.push(`argsPattern: ${rule.argsPattern.source}`);
+  }
+  if (rule.interactive !== undefined) {
+    conditions.push(`interactive: ${rule.interactive}`);
+  }
+  return [
+    `${rule.decision}  priority ${rule.priority ?? 0}  modes: ${rule.modes?.length ? rule.modes.join(', ') : 'all'}`,
+    conditions.join('  '),
+    `source: ${formatSource(rule)}`,
+  ];
+}
+
+/**
+ * Renders a policy explanation as text. The rule that decided the tool call
+ * is marked with an arrow.
+ */
+export function formatPolicyExplanation(
+  explanation: PolicyExplanation,
+  toolCall: { name: string; args: Record<string, unknown> },
+  options: { mode: ApprovalMode; subagent?: string; nonInteractive?: boolean },
+): string {
+  const { matchingRules, checkers, result } = explanation;
+  const lines = [
+    `Tool call: ${toolCall.name} ${JSON.stringify(toolCall.args)}`,
+    `Approval mode: ${options.mode}${options.nonInteractive ? ' (non-interactive)' : ''}`,
+  ];
+  if (options.subagent) {
+    lines.push(`Subagent: ${options.subagent}`);
+  }
+
+  lines.push('');
+  if (matchingRules.length === 0) {
+    lines.push('Matching rules: none');
+  } else {
+    lines.push('Matching rules, highest priority first:');
+    matchingRules.forEach((rule, index) => {
+      const [summary, ...details] = formatRule(rule);
+      const marker = rule === result.rule ? '→' : ' ';
+      lines.push(
+        `${marker} ${index + 1}. ${summary}`,
+        ...details.map((detail) => `     ${detail}`),
+      );
+    });
+  }
+
+  lines.push('');
+  if (checkers.length === 0) {
+    lines.push('Safety checkers: none ran');
+  } else {
+    lines.push('Safety checkers:');
+    for (const { checker, result: checkResult, error } of checkers) {
+      const outcome = error
+        ? `error (${error})`
+        : `${checkResult?.decision}${checkResult?.reason ? ` (${checkResult.reason})` : ''}`;
+      lines.push(
+        `  ${checker.checker.name} [${checker.checker.type}]: ${outcome}`,
+        `     source: ${formatSource(checker)}`,
+      );
+    }
+  }
+
+  lines.push('', `Decision: ${result.decision}`);
+  if (!result.rule) {
+    lines.push('Decided by: no rule (built-in default for this mode)');
+  } else {
+    const index = matchingRules.indexOf(result.rule);
+    lines.push(
+      index === -1
+        ? `Decided by: a rule matching part of the shell command: ${formatRule(result.rule).join(', ')}`
+        : `Decided by: rule ${index + 1}`,
+    );
+    if (result.rule.decision !== result.decision) {
+      lines.push(
+        `The rule's decision (${result.rule.decision}) was changed by shell command checks or safety checkers.`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+export async function handleExplain(args: ExplainArgs) {
+  try {
+    const toolArgs = parseToolArgs(args.args);
+    const mode = args.mode ?? ApprovalMode.DEFAULT;
+    const interactive = !args.nonInteractive;
+    const cwd = process.cwd();
+    const settings = loadSettings(cwd).merged;
+
+    const { workspacePoliciesDir } = await resolveWorkspacePolicyState({
+      cwd,
+      trustedFolder: isWorkspaceTrusted(settings, cwd).isTrusted ?? false,
+      interactive,
+    });
+    const policyEngineConfig = await createPolicyEngineConfig(
+      settings,
+      mode,
+      workspacePoliciesDir,
+      interactive,
+    );
+    // The Config owns the policy engine and its safety checker runner.
+    const config = new Config({
+      sessionId: randomUUID(),
+      targetDir: cwd,
+      cwd,
+      model: '',
+      debugMode: false,
+      interactive,
+      approvalMode: mode,
+      policyEngineConfig,
+    });
+
+    const toolCall = { name: args.tool, args: toolArgs };
+    const explanation = await config
+      .getPolicyEngine()
+      .explain(toolCall, undefined, undefined, args.subagent);
+    debugLogger.log(
+      formatPolicyExplanation(explanation, toolCall, {
+        mode,
+        subagent: args.subagent,
+        nonInteractive: args.nonInteractive,
+      }),
+    );
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    await exitCli(1);
+  }
+}
+
+export const explainCommand: CommandModule<object, ExplainArgs> = {
+  command: 'explain',
+  describe: 'Shows which policy rules match a tool call and which one wins.',
+  builder: (yargs) =>
+    yargs
+      .option('tool', {
+        describe: 'The name of the tool, e.g. run_shell_command.',
+        type: 'string',
+        demandOption: true,
+      })
+      .option('args', {
+        describe: 'The tool arguments as a JSON object.',
+        type: 'string',
+      })
+      .option('mode', {
+        describe: 'The approval mode to simulate.',
+        choices: Object.values(ApprovalMode),
+        default: ApprovalMode.DEFAULT,
+      })
+      .option('subagent', {
+        describe: 'Simulate the call being made by this subagent.',
+        type: 'string',
+      })
+      .option('non-interactive', {
+        describe: 'Simulate a headless run, where prompts become denials.',
+        type: 'boolean',
+        default: false,
+      }),
+  handler: async (argv) => {
+    await handleExplain({
+      tool: argv.tool,
+      args: argv.args,
+      mode: argv.mode,
+      subagent: argv.subagent,
+      nonInteractive: argv.nonInteractive,
+    });
+    await exitCli();
+  },
+};
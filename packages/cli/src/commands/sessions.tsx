@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import { exportCommand } from './sessions/export.js';
+import { initializeOutputListenersAndFlush } from '../gemini.js';
+
+export const sessionsCommand: CommandModule = {
+  command: 'sessions <command>',
+  aliases: ['session'],
+  describe: 'Manage saved Gemini CLI sessions.',
+  builder: (yargs) =>
+    yargs
+      .middleware((argv) => {
+        initializeOutputListenersAndFlush();
+        argv['isCommand'] = true;
+      })
+      .command(exportCommand)
+      .demandCommand(1, 'You need at least one command before continuing.')
+      .version(false),
+  handler: () => {
+    // This handler is not called when a subcommand is provided.
+    // Yargs will show the help menu.
+  },
+};
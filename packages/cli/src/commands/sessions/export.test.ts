@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { debugLogger, type ConversationRecord } from '@google/gemini-cli-core';
+import { handleExport } from './export.js';
+import { exitCli } from '../utils.js';
+
+const mockResolveSession = vi.hoisted(() => vi.fn());
+
+vi.mock('../../utils/sessionUtils.js', () => ({
+  SessionSelector: class {
+    resolveSession = mockResolveSession;
+  },
+}));
+vi.mock('../utils.js', () => ({
+  exitCli: vi.fn(),
+}));
+
+const record: ConversationRecord = {
+  sessionId: 'session-1',
+  projectHash: 'hash',
+  startTime: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:05:00.000Z',
+  messages: [
+    {
+      id: 'm1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      type: 'user',
+      content: [{ text: 'Log in with password=hunter22' }],
+    },
+  ],
+};
+
+describe('sessions export command', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-export-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    mockResolveSession.mockResolvedValue({
+      sessionData: record,
+      sessionPath: path.join(tmpDir, 'session.jsonl'),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should write HTML to stdout by default', async () => {
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+
+    await handleExport({ session: 'latest' });
+
+    expect(mockResolveSession).toHaveBeenCalledWith('latest');
+    const output = String(stdoutSpy.mock.calls[0][0]);
+    expect(output).toMatch(/^<!DOCTYPE html>/);
+    expect(output).toContain('password=hunter22');
+  });
+
+  it('should infer the format from the output file and redact', async () => {
+    const output = path.join(tmpDir, 'reports', 'session.md');
+    const logSpy = vi.spyOn(debugLogger, 'log');
+
+    await handleExport({ session: '1', output, redact: true });
+
+    const content = fs.readFileSync(output, 'utf8');
+    expect(content).toContain('# Session session-1');
+    expect(content).toContain('password=[REDACTED]');
+    expect(content).not.toContain('hunter22');
+    expect(logSpy).toHaveBeenCalledWith(
+      `Exported session session-1 to ${output}.`,
+    );
+  });
+
+  it('should report unknown sessions and exit with a failure code', async () => {
+    mockResolveSession.mockRejectedValue(
+      new Error('Invalid session identifier "9".'),
+    );
+    const errorSpy = vi.spyOn(debugLogger, 'error');
+
+    await handleExport({ session: '9' });
+
+    expect(errorSpy).toHaveBeenCalledWith('Invalid session identifier "9".');
+    expect(exitCli).toHaveBeenCalledWith(1);
+  });
+});
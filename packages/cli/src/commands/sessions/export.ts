@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  Storage,
+  debugLogger,
+  getErrorMessage,
+  sanitizeConversationRecord,
+} from '@google/gemini-cli-core';
+import { exitCli } from '../utils.js';
+import { SessionSelector } from '../../utils/sessionUtils.js';
+import {
+  SESSION_EXPORT_FORMATS,
+  getSessionExportFormat,
+  serializeSession,
+  type SessionExportFormat,
+} from '../../utils/sessionExport.js';
+
+interface ExportArgs {
+  session: string;
+  format?: SessionExportFormat;
+  output?: string;
+  redact?: boolean;
+}
+
+export async function handleExport(args: ExportArgs) {
+  try {
+    const storage = new Storage(process.cwd());
+    await storage.initialize();
+    const { sessionData } = await new SessionSelector(storage).resolveSession(
+      args.session,
+    );
+
+    const record = args.redact
+      ? sanitizeConversationRecord(sessionData)
+      : sessionData;
+    const format =
+      args.format ??
+      (args.output ? getSessionExportFormat(args.output) : undefined) ??
+      'html';
+    const content = serializeSession(record, format);
+
+    if (!args.output) {
+      process.stdout.write(content);
+      return;
+    }
+    await fs.mkdir(path.dirname(args.output), { recursive: true });
+    await fs.writeFile(args.output, content, 'utf8');
+    debugLogger.log(
+      `Exported session ${sessionData.sessionId} to ${args.output}.`,
+    );
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    await exitCli(1);
+  }
+}
+
+export const exportCommand: CommandModule<object, ExportArgs> = {
+  command: 'export <session> [--format] [--output] [--redact]',
+  describe: 'Exports a saved session as HTML, Markdown or JSON Lines.',
+  builder: (yargs) =>
+    yargs
+      .positional('session', {
+        describe:
+          'The session to export: "latest", a session index or a session ID.',
+        type: 'string',
+        demandOption: true,
+      })
+      .option('format', {
+        describe:
+          'The output format. Defaults to the extension of --output, or html.',
+        choices: SESSION_EXPORT_FORMATS,
+      })
+      .option('output', {
+        alias: 'o',
+        describe: 'The file to write to. Defaults to standard output.',
+        type: 'string',
+      })
+      .option('redact', {
+        describe:
+          'Redact credentials, tokens and private keys before exporting.',
+        type: 'boolean',
+        default: false,
+      }),
+  handler: async (argv) => {
+    await handleExport({
+      session: argv.session,
+      format: argv.format,
+      output: argv.output,
+      redact: argv.redact,
+    });
+    await exitCli();
+  },
+};
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import { exportCommand } from './tracker/export.js';
+import { importCommand } from './tracker/import.js';
+import { initializeOutputListenersAndFlush } from '../gemini.js';
+
+export const trackerCommand: CommandModule = {
+  command: 'tracker <command>',
+  describe: 'Export and import task tracker plans.',
+  builder: (yargs) =>
+    yargs
+      .middleware((argv) => {
+        initializeOutputListenersAndFlush();
+        argv['isCommand'] = true;
+      })
+      .command(exportCommand)
+      .command(importCommand)
+      .demandCommand(1, 'You need at least one command before continuing.')
+      .version(false),
+  handler: () => {
+    // This handler is not called when a subcommand is provided.
+    // Yargs will show the help menu.
+  },
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  TaskStatus,
+  TaskType,
+  TrackerService,
+  debugLogger,
+} from '@google/gemini-cli-core';
+import { handleExport } from './export.js';
+import { getSessionTrackerService } from './utils.js';
+import { exitCli } from '../utils.js';
+
+vi.mock('./utils.js');
+vi.mock('../utils.js', () => ({
+  exitCli: vi.fn(),
+}));
+
+describe('tracker export command', () => {
+  let tmpDir: string;
+  let service: TrackerService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-export-'));
+    service = new TrackerService(path.join(tmpDir, 'tracker'));
+    vi.mocked(getSessionTrackerService).mockResolvedValue(service);
+    await service.importTasks([
+      {
+        id: 'epic01',
+        title: 'Storage',
+        description: '',
+        type: TaskType.EPIC,
+        status: TaskStatus.OPEN,
+        dependencies: [],
+      },
+      {
+        id: 'task01',
+        title: 'Write schema',
+        description: '',
+        type: TaskType.TASK,
+        status: TaskStatus.CLOSED,
+        parentId: 'epic01',
+        dependencies: [],
+        subagentSessionId: 'session-1',
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should write Markdown to stdout by default', async () => {
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+
+    await handleExport({ session: 'latest' });
+
+    expect(getSessionTrackerService).toHaveBeenCalledWith('latest');
+    const output = String(stdoutSpy.mock.calls[0][0]);
+    expect(output).toContain('- [ ] [EPIC] Storage');
+    expect(output).toContain(
+      '  - [x] [TASK] Write schema <!-- tracker: {"id":"task01","status":"closed","subagentSessionId":"session-1"} -->',
+    );
+  });
+
+  it('should infer JSON Lines from the output file name', async () => {
+    const output = path.join(tmpDir, 'plan.jsonl');
+
+    const logSpy = vi.spyOn(debugLogger, 'log');
+
+    await handleExport({ session: '2', output });
+
+    const lines = fs.readFileSync(output, 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual([
+      'epic01',
+      'task01',
+    ]);
+    expect(logSpy).toHaveBeenCalledWith(`Exported 2 task(s) to ${output}.`);
+  });
+
+  it('should report errors and exit with a failure code', async () => {
+    vi.mocked(getSessionTrackerService).mockRejectedValue(
+      new Error('No previous sessions found for this project.'),
+    );
+    const errorSpy = vi.spyOn(debugLogger, 'error');
+
+    await handleExport({ session: 'latest' });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'No previous sessions found for this project.',
+    );
+    expect(exitCli).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import * as fs from 'node:fs/promises';
+import {
+  debugLogger,
+  exportTrackerTasks,
+  getErrorMessage,
+  getTrackerExportFormat,
+  type TrackerExportFormat,
+} from '@google/gemini-cli-core';
+import { exitCli } from '../utils.js';
+import { getSessionTrackerService } from './utils.js';
+
+interface ExportArgs {
+  session: string;
+  format?: TrackerExportFormat;
+  output?: string;
+}
+
+export async function handleExport(args: ExportArgs) {
+  try {
+    const service = await getSessionTrackerService(args.session);
+    const tasks = await service.listTasks();
+    const format =
+      args.format ??
+      (args.output ? getTrackerExportFormat(args.output) : 'markdown');
+    const content = exportTrackerTasks(tasks, format);
+
+    if (!args.output) {
+      process.stdout.write(content);
+      return;
+    }
+    await fs.writeFile(args.output, content, 'utf8');
+    debugLogger.log(`Exported ${tasks.length} task(s) to ${args.output}.`);
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    await exitCli(1);
+  }
+}
+
+export const exportCommand: CommandModule<object, ExportArgs> = {
+  command: 'export [--session] [--format] [--output]',
+  describe:
+    'Exports the task tracker of a session as a Markdown checklist or JSON Lines.',
+  builder: (yargs) =>
+    yargs
+      .option('session', {
+        describe:
+          'The session to export: "latest", a session index or a session ID.',
+        type: 'string',
+        default: 'latest',
+      })
+      .option('format', {
+        describe:
+          'The output format. Defaults to the extension of --output, or markdown.',
+        choices: ['markdown', 'jsonl'] as const,
+      })
+      .option('output', {
+        alias: 'o',
+        describe: 'The file to write to. Defaults to standard output.',
+        type: 'string',
+      }),
+  handler: async (argv) => {
+    await handleExport({
+      session: argv.session,
+      format: argv.format,
+      output: argv.output,
+    });
+    await exitCli();
+  },
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  TaskStatus,
+  TaskType,
+  TrackerService,
+  debugLogger,
+} from '@google/gemini-cli-core';
+import { handleImport } from './import.js';
+import { getSessionTrackerService } from './utils.js';
+import { exitCli } from '../utils.js';
+
+vi.mock('./utils.js');
+vi.mock('../utils.js', () => ({
+  exitCli: vi.fn(),
+}));
+
+describe('tracker import command', () => {
+  let tmpDir: string;
+  let service: TrackerService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-import-'));
+    service = new TrackerService(path.join(tmpDir, 'tracker'));
+    vi.mocked(getSessionTrackerService).mockResolvedValue(service);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const writeFile = (name: string, content: string) => {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  it('should import a reviewed Markdown plan', async () => {
+    const file = writeFile(
+      'plan.md',
+      [
+        '# Task tracker',
+        '',
+        '- [ ] [EPIC] Storage <!-- tracker: {"id":"epic01","status":"open"} -->',
+        '  - [x] [TASK] Write schema <!-- tracker: {"id":"task01","status":"open"} -->',
+        '  - [ ] [TASK] Build API <!-- tracker: {"id":"task02","status":"open","dependencies":["task01"],"subagentSessionId":"session-1"} -->',
+        '',
+      ].join('\n'),
+    );
+
+    const logSpy = vi.spyOn(debugLogger, 'log');
+
+    await handleImport({ file, session: 'latest' });
+
+    expect(getSessionTrackerService).toHaveBeenCalledWith('latest');
+    expect(await service.getTask('task01')).toMatchObject({
+      parentId: 'epic01',
+      status: TaskStatus.CLOSED,
+    });
+    expect(await service.getTask('task02')).toMatchObject({
+      parentId: 'epic01',
+      dependencies: ['task01'],
+      subagentSessionId: 'session-1',
+    });
+    expect(logSpy).toHaveBeenCalledWith(
+      `Imported 3 task(s) from ${file} into session latest.`,
+    );
+  });
+
+  it('should replace existing tasks when asked', async () => {
+    await service.importTasks([
+      {
+        id: 'old001',
+        title: 'Old',
+        description: '',
+        type: TaskType.TASK,
+        status: TaskStatus.OPEN,
+        dependencies: [],
+      },
+    ]);
+    const file = writeFile(
+      'plan.jsonl',
+      '{"id":"new001","title":"New","description":"","type":"task","status":"open","dependencies":[]}\n',
+    );
+
+    await handleImport({ file, session: 'latest', replace: true });
+
+    expect((await service.listTasks()).map((task) => task.id)).toEqual([
+      'new001',
+    ]);
+  });
+
+  it('should report invalid plans and exit with a failure code', async () => {
+    const file = writeFile(
+      'plan.md',
+      '- [ ] Build API <!-- tracker: {"id":"task02","dependencies":["gone01"]} -->\n',
+    );
+    const errorSpy = vi.spyOn(debugLogger, 'error');
+
+    await handleImport({ file, session: 'latest' });
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      'Dependency gone01 not found for task task02.',
+    );
+    expect(exitCli).toHaveBeenCalledWith(1);
+    expect(await service.listTasks()).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { CommandModule } from 'yargs';
+import * as fs from 'node:fs/promises';
+import {
+  debugLogger,
+  getErrorMessage,
+  getTrackerExportFormat,
+  parseTrackerTasks,
+  type TrackerExportFormat,
+} from '@google/gemini-cli-core';
+import { exitCli } from '../utils.js';
+import { getSessionTrackerService } from './utils.js';
+
+interface ImportArgs {
+  file: string;
+  session: string;
+  format?: TrackerExportFormat;
+  replace?: boolean;
+}
+
+export async function handleImport(args: ImportArgs) {
+  try {
+    const content = await fs.readFile(args.file, 'utf8');
+    const tasks = parseTrackerTasks(
+      content,
+      args.format ?? getTrackerExportFormat(args.file),
+    );
+    const service = await getSessionTrackerService(args.session);
+    await service.importTasks(tasks, { replace: args.replace });
+    debugLogger.log(
+      `Imported ${tasks.length} task(s) from ${args.file} into session ${args.session}.`,
+    );
+  } catch (error) {
+    debugLogger.error(getErrorMessage(error));
+    await exitCli(1);
+  }
+}
+
+export const importCommand: CommandModule<object, ImportArgs> = {
+  command: 'import <file> [--session] [--format] [--replace]',
+  describe:
+    'Imports tasks from a Markdown checklist or JSON Lines file into the task tracker of a session.',
+  builder: (yargs) =>
+    yargs
+      .positional('file', {
+        describe: 'The file to import, as written by "gemini tracker export".',
+        type: 'string',
+        demandOption: true,
+      })
+      .option('session', {
+        describe:
+          'The session to import into: "latest", a session index or a session ID.',
+        type: 'string',
+        default: 'latest',
+      })
+      .option('format', {
+        describe:
+          'The input format. Defaults to jsonl for .json and .jsonl files, markdown otherwise.',
+        choices: ['markdown', 'jsonl'] as const,
+      })
+      .option('replace', {
+        describe: 'Delete existing tasks that are not part of the import.',
+        type: 'boolean',
+        default: false,
+      }),
+  handler: async (argv) => {
+    await handleImport({
+      file: argv.file,
+      session: argv.session,
+      format: argv.format,
+      replace: argv.replace,
+    });
+    await exitCli();
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Storage, TrackerService } from '@google/gemini-cli-core';
+import { SessionSelector } from '../../utils/sessionUtils.js';
+
+/**
+ * Returns the tracker of a session in the current project. The session can be
+ * "latest", a 1-based index or a session UUID, as for `--resume`.
+ */
+export async function getSessionTrackerService(
+  session: string,
+): Promise<TrackerService> {
+  const storage = new Storage(process.cwd());
+  await storage.initialize();
+  const { sessionData } = await new SessionSelector(storage).resolveSession(
+    session,
+  );
+  storage.setSessionId(sessionData.sessionId);
+  return new TrackerService(storage.getProjectTempTrackerDir());
+}
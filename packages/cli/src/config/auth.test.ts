@@ -21,6 +21,7 @@ describe('validateAuthMethod', () => {
     vi.stubEnv('GOOGLE_CLOUD_PROJECT', undefined);
     vi.stubEnv('GOOGLE_CLOUD_LOCATION', undefined);
     vi.stubEnv('GOOGLE_API_KEY', undefined);
+    vi.stubEnv('OPENAI_BASE_URL', undefined);
   });
 
   afterEach(() => {
@@ -83,6 +84,22 @@ describe('validateAuthMethod', () => {
         '• GOOGLE_API_KEY environment variable (if using express mode).\n' +
         'Update your environment and try again (no reload needed if using .env)!',
     },
+    {
+      description:
+        'should return null for OPENAI_COMPATIBLE if OPENAI_BASE_URL is set',
+      authType: AuthType.OPENAI_COMPATIBLE,
+      envs: { OPENAI_BASE_URL: 'http://localhost:8080/v1' },
+      expected: null,
+    },
+    {
+      description:
+        'should return an error message for OPENAI_COMPATIBLE if OPENAI_BASE_URL is not set',
+      authType: AuthType.OPENAI_COMPATIBLE,
+      envs: {},
+      expected:
+        'When using an OpenAI-compatible endpoint, you must specify the OPENAI_BASE_URL environment variable.\n' +
+        'Update your environment and try again (no reload needed if using .env)!',
+    },
     {
       description: 'should return an error message for an invalid auth method',
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -42,5 +42,15 @@ export function validateAuthMethod(authMethod: string): string | null {
     return null;
   }
 
+  if (authMethod === AuthType.OPENAI_COMPATIBLE) {
+    if (!process.env['OPENAI_BASE_URL']) {
+      return (
+        'When using an OpenAI-compatible endpoint, you must specify the OPENAI_BASE_URL environment variable.\n' +
+        'Update your environment and try again (no reload needed if using .env)!'
+      );
+    }
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 }
@@ -42,6 +42,7 @@ vi.mock('./trustedFolders.js', () => ({
 
 vi.mock('./sandboxConfig.js', () => ({
   loadSandboxConfig: vi.fn(async () => undefined),
+  loadToolSandboxImage: vi.fn(async () => undefined),
 }));
 
 vi.mock('../commands/utils.js', () => ({
@@ -13,6 +13,9 @@ import { mcpCommand } from '../commands/mcp.js';
 import { extensionsCommand } from '../commands/extensions.js';
 import { skillsCommand } from '../commands/skills.js';
 import { hooksCommand } from '../commands/hooks.js';
+import { trackerCommand } from '../commands/tracker.js';
+import { sessionsCommand } from '../commands/sessions.js';
+import { policyCommand } from '../commands/policy.js';
 import {
   setGeminiMdFilename as setServerGeminiMdFilename,
   getCurrentGeminiMdFilename,
@@ -57,7 +60,7 @@ import {
   type LoadedSettings,
 } from './settings.js';
 
-import { loadSandboxConfig } from './sandboxConfig.js';
+import { loadSandboxConfig, loadToolSandboxImage } from './sandboxConfig.js';
 import { resolvePath } from '../utils/resolvePath.js';
 import { RESUME_LATEST } from '../utils/sessionUtils.js';
 
@@ -181,6 +184,9 @@ export async function parseArguments(
         extensionsCommand,
         skillsCommand,
         hooksCommand,
+        trackerCommand,
+        sessionsCommand,
+        policyCommand,
       ];
 
       const subcommands = commandModules.flatMap((mod) => {
@@ -260,6 +266,9 @@ export async function parseArguments(
   yargsInstance.command(extensionsCommand);
   yargsInstance.command(skillsCommand);
   yargsInstance.command(hooksCommand);
+  yargsInstance.command(trackerCommand);
+  yargsInstance.command(sessionsCommand);
+  yargsInstance.command(policyCommand);
 
   yargsInstance
     .command('$0 [query..]', 'Launch Gemini CLI', (yargsInstance) =>
@@ -902,6 +911,10 @@ export async function loadCliConfig(
     embeddingModel: DEFAULT_GEMINI_EMBEDDING_MODEL,
     sandbox: sandboxConfig,
     toolSandboxing: settings.security?.toolSandboxing ?? false,
+    sandboxAllowedDomains: settings.tools?.sandboxAllowedDomains,
+    sandboxDeniedDomains: settings.tools?.sandboxDeniedDomains,
+    toolSandboxBackend: settings.security?.toolSandboxBackend,
+    toolSandboxImage: await loadToolSandboxImage(settings),
     targetDir: cwd,
     includeDirectoryTree,
     includeDirectories,
@@ -982,6 +995,7 @@ export async function loadCliConfig(
     plan: settings.general?.plan?.enabled ?? true,
     tracker: settings.experimental?.taskTracker,
     directWebFetch: settings.experimental?.directWebFetch,
+    docSearchPaths: settings.tools?.docSearchPaths,
     planSettings: settings.general?.plan?.directory
       ? settings.general.plan
       : (extensionPlanSettings ?? settings.general?.plan),
@@ -1033,6 +1047,7 @@ export async function loadCliConfig(
     acceptRawOutputRisk: argv.acceptRawOutputRisk,
     dynamicModelConfiguration: settings.experimental?.dynamicModelConfiguration,
     modelConfigServiceConfig: settings.modelConfigs,
+    providerChain: settings.model?.providerChain,
     // TODO: loading of hooks based on workspace trust
     enableHooks: settings.hooksConfig.enabled,
     enableHooksUI: settings.hooksConfig.enabled,
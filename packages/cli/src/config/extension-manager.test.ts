@@ -9,7 +9,11 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { ExtensionManager } from './extension-manager.js';
-import { createTestMergedSettings, type MergedSettings } from './settings.js';
+import {
+  createTestMergedSettings,
+  SettingScope,
+  type MergedSettings,
+} from './settings.js';
 import { createExtension } from '../test-utils/createExtension.js';
 import { EXTENSIONS_DIRECTORY_NAME } from './extensions/variables.js';
 import { themeManager } from '../ui/themes/theme-manager.js';
@@ -637,4 +641,63 @@ describe('ExtensionManager', () => {
       );
     });
   });
+
+  describe('context processors', () => {
+    let markerPath: string;
+
+    beforeEach(() => {
+      const extDir = createExtension({
+        extensionsDir: userExtensionsDir,
+        name: 'processor-ext',
+        version: '1.0.0',
+      });
+      markerPath = path.join(tempHomeDir, 'processor-loaded');
+      fs.writeFileSync(
+        path.join(extDir, 'gemini-extension.json'),
+        JSON.stringify({
+          name: 'processor-ext',
+          version: '1.0.0',
+          contextProcessors: [{ name: 'logs', module: 'processor.mjs' }],
+        }),
+      );
+      fs.writeFileSync(
+        path.join(extDir, 'processor.mjs'),
+        `import * as fs from 'node:fs';
+fs.writeFileSync(${JSON.stringify(markerPath)}, '');
+export default () => ({});
+`,
+      );
+    });
+
+    it('should load processor modules for enabled extensions', async () => {
+      const [extension] = await extensionManager.loadExtensions();
+
+      expect(extension.contextProcessors?.map((p) => p.id)).toEqual([
+        'processor-ext.logs',
+      ]);
+      expect(fs.existsSync(markerPath)).toBe(true);
+    });
+
+    it('should not load processor modules until the extension is enabled', async () => {
+      const manager = new ExtensionManager({
+        enabledExtensionOverrides: ['none'],
+        settings: createTestMergedSettings(),
+        workspaceDir: tempWorkspaceDir,
+        requestConsent: vi.fn().mockResolvedValue(true),
+        requestSetting: null,
+      });
+
+      const [extension] = await manager.loadExtensions();
+
+      expect(extension.contextProcessors).toBeUndefined();
+      expect(fs.existsSync(markerPath)).toBe(false);
+
+      await manager.enableExtension('processor-ext', SettingScope.Session);
+
+      expect(extension.contextProcessors?.map((p) => p.id)).toEqual([
+        'processor-ext.logs',
+      ]);
+      expect(fs.existsSync(markerPath)).toBe(true);
+    });
+  });
 });
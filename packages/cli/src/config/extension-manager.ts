@@ -59,11 +59,13 @@ import {
   isSubpath,
   type PolicyRule,
   type SafetyCheckerRule,
+  type ContextProcessorDef,
   HookType,
 } from '@google/gemini-cli-core';
 import { maybeRequestConsentOrFail } from './extensions/consent.js';
 import { resolveEnvVarsInObject } from '../utils/envVarResolver.js';
 import { ExtensionStorage } from './extensions/storage.js';
+import { loadExtensionContextProcessors } from './extensions/contextProcessors.js';
 import {
   EXTENSIONS_CONFIG_FILENAME,
   INSTALL_METADATA_FILENAME,
@@ -905,7 +907,10 @@ Would you like to attempt to install via "git clone" instead?`,
             if (eventHooks) {
               for (const definition of eventHooks) {
                 for (const hook of definition.hooks) {
-                  if (hook.type === HookType.Command) {
+                  if (
+                    hook.type === HookType.Command ||
+                    hook.type === HookType.Http
+                  ) {
                     // Merge existing env with new env vars, giving extension settings precedence.
                     hook.env = { ...hook.env, ...hookEnv };
                   }
@@ -957,6 +962,16 @@ Would you like to attempt to install via "git clone" instead?`,
         );
       }
 
+      const isActive = this.extensionEnablementManager.isEnabled(
+        config.name,
+        this.workspaceDir,
+      );
+      // Processor modules run extension code on import, so they are only
+      // loaded once the extension is enabled.
+      const contextProcessors = isActive
+        ? await this.loadContextProcessors(config, effectiveExtensionPath)
+        : undefined;
+
       return {
         name: config.name,
         version: config.version,
@@ -967,10 +982,7 @@ Would you like to attempt to install via "git clone" instead?`,
         mcpServers: config.mcpServers,
         excludeTools: config.excludeTools,
         hooks,
-        isActive: this.extensionEnablementManager.isEnabled(
-          config.name,
-          this.workspaceDir,
-        ),
+        isActive,
         id: getExtensionId(config, installMetadata),
         settings: config.settings,
         resolvedSettings,
@@ -979,6 +991,7 @@ Would you like to attempt to install via "git clone" instead?`,
         themes: config.themes,
         rules,
         checkers,
+        contextProcessors,
         plan: config.plan,
       };
     } catch (e) {
@@ -1012,6 +1025,26 @@ Would you like to attempt to install via "git clone" instead?`,
     return this.maybeStopExtension(extension);
   }
 
+  private async loadContextProcessors(
+    config: ExtensionConfig,
+    extensionPath: string,
+  ): Promise<ContextProcessorDef[] | undefined> {
+    if (!config.contextProcessors) {
+      return undefined;
+    }
+    const result = await loadExtensionContextProcessors(
+      config.name,
+      extensionPath,
+      config.contextProcessors,
+    );
+    for (const error of result.errors) {
+      debugLogger.warn(
+        `[ExtensionManager] Error loading context processor from ${config.name}: ${error}`,
+      );
+    }
+    return result.processors;
+  }
+
   async loadExtensionConfig(extensionDir: string): Promise<ExtensionConfig> {
     const configFilePath = path.join(extensionDir, EXTENSIONS_CONFIG_FILENAME);
     if (!fs.existsSync(configFilePath)) {
@@ -1231,6 +1264,12 @@ Would you like to attempt to install via "git clone" instead?`,
       // in the current session, or we haven't been initialized yet.
       extension.isActive = true;
     }
+    if (extension.isActive && !extension.contextProcessors) {
+      extension.contextProcessors = await this.loadContextProcessors(
+        await this.loadExtensionConfig(extension.path),
+        extension.path,
+      );
+    }
     await this.maybeStartExtension(extension);
   }
 }
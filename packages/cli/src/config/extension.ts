@@ -13,6 +13,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { INSTALL_METADATA_FILENAME } from './extensions/variables.js';
 import type { ExtensionSetting } from './extensions/extensionSettings.js';
+import type { ExtensionContextProcessorConfig } from './extensions/contextProcessors.js';
 
 /**
  * Extension definition as written to disk in gemini-extension.json files.
@@ -33,6 +34,11 @@ export interface ExtensionConfig {
    * These themes will be registered when the extension is activated.
    */
   themes?: CustomTheme[];
+  /**
+   * Context processors contributed by this extension. Context management
+   * configs reference them as `<extension name>.<processor name>`.
+   */
+  contextProcessors?: ExtensionContextProcessorConfig[];
   /**
    * Planning features configuration contributed by this extension.
    */
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ContextEnvironment } from '@google/gemini-cli-core';
+import { loadExtensionContextProcessors } from './contextProcessors.js';
+
+describe('loadExtensionContextProcessors', () => {
+  let extensionDir: string;
+
+  beforeEach(() => {
+    extensionDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'extension-processors-'),
+    );
+    fs.writeFileSync(
+      path.join(extensionDir, 'collapse.mjs'),
+      'export default (id, env, options) => ({ id, name: "CollapseLogs", options, process: async ({ targets }) => targets });\n',
+    );
+    fs.writeFileSync(
+      path.join(extensionDir, 'no-default.mjs'),
+      'export const create = () => ({});\n',
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(extensionDir, { recursive: true, force: true });
+  });
+
+  it('loads factories and prefixes IDs with the extension name', async () => {
+    const schema = {
+      type: 'object',
+      properties: { maxLines: { type: 'number' } },
+    };
+    const { processors, errors } = await loadExtensionContextProcessors(
+      'build-tools',
+      extensionDir,
+      [
+        { name: 'collapseLogs', module: 'collapse.mjs', schema },
+        { name: 'collapseLogsAsync', module: 'collapse.mjs', async: true },
+      ],
+    );
+
+    expect(errors).toEqual([]);
+    expect(processors).toHaveLength(2);
+    expect(processors[0]).toMatchObject({
+      id: 'build-tools.collapseLogs',
+      schema,
+      extensionName: 'build-tools',
+    });
+    expect(processors[0].createAsync).toBeUndefined();
+    expect(
+      processors[0].create!('buildLogs', {} as ContextEnvironment, {
+        maxLines: 20,
+      }),
+    ).toMatchObject({ id: 'buildLogs', options: { maxLines: 20 } });
+    expect(processors[1]).toMatchObject({
+      id: 'build-tools.collapseLogsAsync',
+      schema: { type: 'object' },
+    });
+    expect(processors[1].create).toBeUndefined();
+    expect(processors[1].createAsync).toBeTypeOf('function');
+  });
+
+  it('reports invalid processors and keeps loading the rest', async () => {
+    const { processors, errors } = await loadExtensionContextProcessors(
+      'build-tools',
+      extensionDir,
+      [
+        { name: 'escape', module: '../outside.mjs' },
+        { name: 'missing', module: 'missing.mjs' },
+        { name: 'noDefault', module: 'no-default.mjs' },
+        { name: 'bad name', module: 'collapse.mjs' },
+        { name: 'collapseLogs', module: 'collapse.mjs' },
+      ],
+    );
+
+    expect(processors.map((processor) => processor.id)).toEqual([
+      'build-tools.collapseLogs',
+    ]);
+    expect(errors).toEqual([
+      'Invalid module path "../outside.mjs" for context processor "escape". Modules must be within the extension directory.',
+      'Module "missing.mjs" for context processor "missing" does not exist.',
+      'Module "no-default.mjs" for context processor "noDefault" must export a factory function as its default export.',
+      'Invalid context processor name "bad name". Names may only contain letters, numbers, "_" and "-".',
+    ]);
+  });
+});
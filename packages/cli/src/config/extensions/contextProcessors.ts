@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  getErrorMessage,
+  isSubpath,
+  type AsyncContextProcessorFactory,
+  type ContextProcessorDef,
+  type ContextProcessorFactory,
+} from '@google/gemini-cli-core';
+
+/**
+ * A context processor declared in `gemini-extension.json`.
+ */
+export interface ExtensionContextProcessorConfig {
+  /** The processor type name, unique within the extension. */
+  name: string;
+  /**
+   * Path to a JS module, relative to the extension directory. Its default
+   * export is called as `(id, env, options)` and returns the processor.
+   */
+  module: string;
+  /** JSON schema for the options configs can pass to the processor. */
+  schema?: object;
+  /** Whether the processor runs in async pipelines. Defaults to false. */
+  async?: boolean;
+}
+
+const PROCESSOR_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Returns the registry ID for a processor contributed by an extension.
+ */
+export function getExtensionContextProcessorId(
+  extensionName: string,
+  processorName: string,
+): string {
+  return `${extensionName}.${processorName}`;
+}
+
+async function loadContextProcessor(
+  extensionName: string,
+  extensionPath: string,
+  config: ExtensionContextProcessorConfig,
+): Promise<ContextProcessorDef> {
+  if (!PROCESSOR_NAME_PATTERN.test(config.name ?? '')) {
+    throw new Error(
+      `Invalid context processor name "${config.name}". Names may only contain letters, numbers, "_" and "-".`,
+    );
+  }
+  const modulePath = path.resolve(extensionPath, config.module ?? '');
+  if (!config.module || !isSubpath(extensionPath, modulePath)) {
+    throw new Error(
+      `Invalid module path "${config.module}" for context processor "${config.name}". Modules must be within the extension directory.`,
+    );
+  }
+  if (!fs.existsSync(modulePath)) {
+    throw new Error(
+      `Module "${config.module}" for context processor "${config.name}" does not exist.`,
+    );
+  }
+
+  const loaded: unknown = await import(pathToFileURL(modulePath).href);
+  const factory =
+    typeof loaded === 'object' && loaded !== null && 'default' in loaded
+      ? loaded.default
+      : undefined;
+  if (typeof factory !== 'function') {
+    throw new Error(
+      `Module "${config.module}" for context processor "${config.name}" must export a factory function as its default export.`,
+    );
+  }
+
+  // The schema comes from the manifest, so it can only be checked when a
+  // context config that uses the processor is validated.
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+  const schema = (config.schema ?? {
+    type: 'object',
+  }) as ContextProcessorDef['schema'];
+  const id = getExtensionContextProcessorId(extensionName, config.name);
+  return config.async
+    ? {
+        id,
+        schema,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        createAsync: factory as AsyncContextProcessorFactory,
+        extensionName,
+      }
+    : {
+        id,
+        schema,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        create: factory as ContextProcessorFactory,
+        extensionName,
+      };
+}
+
+/**
+ * Loads the context processor modules declared by an extension. Processors
+ * that fail to load are reported in `errors` and skipped.
+ */
+export async function loadExtensionContextProcessors(
+  extensionName: string,
+  extensionPath: string,
+  configs: ExtensionContextProcessorConfig[],
+): Promise<{ processors: ContextProcessorDef[]; errors: string[] }> {
+  const processors: ContextProcessorDef[] = [];
+  const errors: string[] = [];
+  for (const config of configs) {
+    try {
+      processors.push(
+        await loadContextProcessor(extensionName, extensionPath, config),
+      );
+    } catch (error) {
+      errors.push(getErrorMessage(error));
+    }
+  }
+  return { processors, errors };
+}
@@ -74,6 +74,17 @@ describe('Policy Engine Integration Tests', () => {
       ).toBe(PolicyDecision.ALLOW);
     });
 
+    it('should allow the read-only IDE tools by default', async () => {
+      const config = await createPolicyEngineConfig({}, ApprovalMode.DEFAULT);
+      const engine = new PolicyEngine(config);
+
+      for (const name of ['ide_diagnostics', 'ide_navigate']) {
+        expect((await engine.check({ name }, undefined)).decision).toBe(
+          PolicyDecision.ALLOW,
+        );
+      }
+    });
+
     it('should handle MCP server wildcard patterns correctly', async () => {
       const settings: Settings = {
         mcp: {
@@ -8,7 +8,7 @@ import { getPackageJson } from '@google/gemini-cli-core';
 import commandExists from 'command-exists';
 import * as os from 'node:os';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { loadSandboxConfig } from './sandboxConfig.js';
+import { loadSandboxConfig, loadToolSandboxImage } from './sandboxConfig.js';
 
 // Mock dependencies
 vi.mock('@google/gemini-cli-core', async (importOriginal) => {
@@ -510,3 +510,60 @@ describe('loadSandboxConfig', () => {
     });
   });
 });
+
+describe('loadToolSandboxImage', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env['GEMINI_SANDBOX_IMAGE'];
+    mockedGetPackageJson.mockResolvedValue({
+      config: { sandboxImageUri: 'default/image' },
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should return undefined for the native backend', async () => {
+    expect(await loadToolSandboxImage({})).toBeUndefined();
+    expect(
+      await loadToolSandboxImage({
+        security: { toolSandboxBackend: 'native', toolSandboxImage: 'x' },
+      }),
+    ).toBeUndefined();
+  });
+
+  it('should default to the image from package.json', async () => {
+    expect(
+      await loadToolSandboxImage({
+        security: { toolSandboxBackend: 'podman' },
+      }),
+    ).toBe('default/image');
+  });
+
+  it('should prefer the configured image over package.json', async () => {
+    expect(
+      await loadToolSandboxImage({
+        security: {
+          toolSandboxBackend: 'docker',
+          toolSandboxImage: 'my/image',
+        },
+      }),
+    ).toBe('my/image');
+  });
+
+  it('should prefer GEMINI_SANDBOX_IMAGE over settings', async () => {
+    process.env['GEMINI_SANDBOX_IMAGE'] = 'env/image';
+    expect(
+      await loadToolSandboxImage({
+        security: {
+          toolSandboxBackend: 'docker',
+          toolSandboxImage: 'my/image',
+        },
+      }),
+    ).toBe('env/image');
+  });
+});
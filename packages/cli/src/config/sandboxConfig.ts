@@ -166,3 +166,23 @@ export async function loadSandboxConfig(
     ? { enabled: true, allowedPaths, networkAccess, command, image }
     : undefined;
 }
+
+/**
+ * Resolves the container image used by the podman and docker tool sandbox
+ * backends. Returns undefined for the native backend.
+ */
+export async function loadToolSandboxImage(
+  settings: Settings,
+): Promise<string | undefined> {
+  const backend = settings.security?.toolSandboxBackend ?? 'native';
+  if (backend === 'native') {
+    return undefined;
+  }
+
+  const packageJson = await getPackageJson(__dirname);
+  return (
+    process.env['GEMINI_SANDBOX_IMAGE'] ??
+    settings.security?.toolSandboxImage ??
+    packageJson?.config?.sandboxImageUri
+  );
+}
@@ -21,6 +21,8 @@ import {
   type AgentOverride,
   type CustomTheme,
   type SandboxConfig,
+  type ModelPricing,
+  type ProviderHopConfig,
 } from '@google/gemini-cli-core';
 import type { SessionRetentionSettings } from './settings.js';
 import { DEFAULT_MIN_RETENTION } from '../utils/sessionCleanup.js';
@@ -980,6 +982,96 @@ const SETTINGS_SCHEMA = {
           { value: 'never', label: 'Never use credits' },
         ],
       },
+      currency: {
+        type: 'string',
+        label: 'Currency',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: 'USD',
+        description: oneLine`
+          Currency of the model prices and budget limits, shown next to costs.
+          The default prices are in USD.
+        `,
+        showInDialog: false,
+      },
+      pricing: {
+        type: 'object',
+        label: 'Model Pricing',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: {} as Record<string, ModelPricing>,
+        description: oneLine`
+          Prices per million tokens by model name or model name prefix, for
+          example {"gemini-2.5-pro": {"input": 1.25, "output": 10,
+          "cachedInput": 0.125}}. Overrides the built-in prices.
+        `,
+        showInDialog: false,
+        mergeStrategy: MergeStrategy.SHALLOW_MERGE,
+        additionalProperties: {
+          type: 'object',
+          ref: 'ModelPricing',
+        },
+      },
+      budget: {
+        type: 'object',
+        label: 'Budget',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: {},
+        description: oneLine`
+          Spending limits in the configured currency. Soft limits ask once
+          before continuing; hard limits stop the agent and ask again for
+          every prompt. Non-interactive runs warn at soft limits and stop at
+          hard limits.
+        `,
+        showInDialog: false,
+        properties: {
+          sessionSoftLimit: {
+            type: 'number',
+            label: 'Session Soft Limit',
+            category: 'Advanced',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description: oneLine`
+              Spend in a session after which to ask once whether to continue.
+            `,
+            showInDialog: false,
+          },
+          sessionHardLimit: {
+            type: 'number',
+            label: 'Session Hard Limit',
+            category: 'Advanced',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description: oneLine`
+              Spend in a session after which to stop the agent on every prompt until confirmed.
+            `,
+            showInDialog: false,
+          },
+          dailySoftLimit: {
+            type: 'number',
+            label: 'Daily Soft Limit',
+            category: 'Advanced',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description: oneLine`
+              Spend across all sessions of the day after which to ask once whether to continue.
+            `,
+            showInDialog: false,
+          },
+          dailyHardLimit: {
+            type: 'number',
+            label: 'Daily Hard Limit',
+            category: 'Advanced',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description: oneLine`
+              Spend across all sessions of the day after which to stop the agent on every prompt until confirmed.
+            `,
+            showInDialog: false,
+          },
+        },
+      },
     },
   },
 
@@ -1062,6 +1154,21 @@ const SETTINGS_SCHEMA = {
         description: 'Skip the next speaker check.',
         showInDialog: true,
       },
+      providerChain: {
+        type: 'array',
+        label: 'Provider Chain',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as ProviderHopConfig[] | undefined,
+        description: oneLine`
+          Ordered auth/backend hops to fall through when a request fails with
+          a quota, capacity or not-found error, for example Vertex AI, then an
+          API key, then a local endpoint. A failed hop is skipped until its
+          cool-down expires.
+        `,
+        showInDialog: false,
+        ref: 'ProviderChain',
+      },
     },
   },
 
@@ -1196,6 +1303,31 @@ const SETTINGS_SCHEMA = {
           ref: 'AgentOverride',
         },
       },
+      maxConcurrentFanOut: {
+        type: 'number',
+        label: 'Max Concurrent Fan-Out Agents',
+        category: 'Advanced',
+        requiresRestart: false,
+        default: 4,
+        description:
+          'The maximum number of subagent instances that run at the same time when invoke_agent is called with a list of inputs.',
+        showInDialog: false,
+      },
+      remoteAgentSources: {
+        type: 'array',
+        label: 'Remote Agent Sources',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: [] as string[],
+        description: oneLine`
+          Directories of A2A agent card JSON files and URLs of agent cards to import as remote agents
+          (for example ["~/.a2a/cards", "https://agents.example.com/.well-known/agent-card.json"]).
+          Relative paths are resolved against the workspace.
+        `,
+        showInDialog: false,
+        items: { type: 'string' },
+        mergeStrategy: MergeStrategy.UNION,
+      },
       browser: {
         type: 'object',
         label: 'Browser Agent',
@@ -1501,6 +1633,33 @@ const SETTINGS_SCHEMA = {
         description: 'Whether the sandbox is allowed to access the network.',
         showInDialog: true,
       },
+      sandboxAllowedDomains: {
+        type: 'array',
+        label: 'Sandbox Allowed Domains',
+        category: 'Tools',
+        requiresRestart: true,
+        default: [] as string[],
+        description: oneLine`
+          Domains that sandboxed tools may reach through a filtering proxy
+          without full network access. Use "*.example.com" to allow all
+          subdomains.
+        `,
+        showInDialog: false,
+        items: { type: 'string' },
+      },
+      sandboxDeniedDomains: {
+        type: 'array',
+        label: 'Sandbox Denied Domains',
+        category: 'Tools',
+        requiresRestart: true,
+        default: [] as string[],
+        description: oneLine`
+          Domains that sandboxed tools may never reach, even when network
+          access is granted.
+        `,
+        showInDialog: false,
+        items: { type: 'string' },
+      },
       shell: {
         type: 'object',
         label: 'Shell',
@@ -1617,6 +1776,21 @@ const SETTINGS_SCHEMA = {
         items: { type: 'string' },
         mergeStrategy: MergeStrategy.UNION,
       },
+      docSearchPaths: {
+        type: 'array',
+        label: 'Documentation Search Paths',
+        category: 'Tools',
+        requiresRestart: true,
+        default: [] as string[],
+        description: oneLine`
+          Files, directories or glob patterns of local documentation to make searchable offline with the search_docs tool
+          (for example ["docs", "node_modules/*/README.md", "/usr/share/man/man1"]).
+          Relative paths are resolved against the workspace.
+        `,
+        showInDialog: false,
+        items: { type: 'string' },
+        mergeStrategy: MergeStrategy.UNION,
+      },
       discoveryCommand: {
         type: 'string',
         label: 'Tool Discovery Command',
@@ -1742,6 +1916,36 @@ const SETTINGS_SCHEMA = {
           'Tool-level sandboxing. Isolates individual tools instead of the entire CLI process.',
         showInDialog: true,
       },
+      toolSandboxBackend: {
+        type: 'enum',
+        label: 'Tool Sandbox Backend',
+        category: 'Security',
+        requiresRestart: true,
+        default: 'native',
+        description: oneLine`
+          Where tool sandboxing runs commands. 'native' uses the platform's
+          sandbox (bubblewrap, Seatbelt or the Windows sandbox), 'podman' and
+          'docker' run commands inside a long-lived rootless container.
+        `,
+        showInDialog: false,
+        options: [
+          { value: 'native', label: 'Native' },
+          { value: 'podman', label: 'Podman' },
+          { value: 'docker', label: 'Docker' },
+        ],
+      },
+      toolSandboxImage: {
+        type: 'string',
+        label: 'Tool Sandbox Image',
+        category: 'Security',
+        requiresRestart: true,
+        default: undefined as string | undefined,
+        description: oneLine`
+          Container image used by the podman and docker tool sandbox backends.
+          Defaults to the Gemini CLI sandbox image.
+        `,
+        showInDialog: false,
+      },
       disableYoloMode: {
         type: 'boolean',
         label: 'Disable YOLO Mode',
@@ -3013,6 +3217,27 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
     },
     required: ['urlTemplate'],
   },
+  ModelPricing: {
+    type: 'object',
+    description: 'Prices of a model per million tokens.',
+    additionalProperties: false,
+    properties: {
+      input: {
+        type: 'number',
+        description: 'Price of uncached input tokens.',
+      },
+      output: {
+        type: 'number',
+        description: 'Price of output tokens, including thoughts.',
+      },
+      cachedInput: {
+        type: 'number',
+        description:
+          'Price of cached input tokens. Defaults to the input price.',
+      },
+    },
+    required: ['input', 'output'],
+  },
   SummarizeToolOutputSettings: {
     type: 'object',
     description:
@@ -3216,13 +3441,24 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
               type: {
                 type: 'string',
                 description:
-                  'Type of hook (currently only "command" supported).',
+                  'Type of hook: "command" runs a shell command, "http" POSTs to a URL.',
               },
               command: {
                 type: 'string',
                 description:
                   'Shell command to execute. Receives JSON input via stdin and returns JSON output via stdout.',
               },
+              url: {
+                type: 'string',
+                description:
+                  'URL for "http" hooks. Receives JSON input as a POST body and returns JSON output in the response body.',
+              },
+              headers: {
+                type: 'object',
+                description:
+                  'Request headers for "http" hooks. Values support $VAR and ${VAR} environment variable expansion.',
+                additionalProperties: { type: 'string' },
+              },
               description: {
                 type: 'string',
                 description: 'A description of the hook.',
@@ -3293,6 +3529,57 @@ export const SETTINGS_SCHEMA_DEFINITIONS: Record<
       ref: 'ModelPolicy',
     },
   },
+  ProviderChain: {
+    type: 'array',
+    description:
+      'An ordered chain of auth/backend hops for cross-provider fallback.',
+    items: {
+      type: 'object',
+      ref: 'ProviderHop',
+    },
+  },
+  ProviderHop: {
+    type: 'object',
+    description: 'A single auth/backend hop of a provider chain.',
+    properties: {
+      model: {
+        type: 'string',
+        description: 'Model served by this hop. Defaults to the session model.',
+      },
+      backend: {
+        type: 'object',
+        properties: {
+          authType: {
+            type: 'string',
+            enum: [
+              'oauth-personal',
+              'gemini-api-key',
+              'vertex-ai',
+              'compute-default-credentials',
+              'gateway',
+              'openai-compatible',
+            ],
+          },
+          label: {
+            type: 'string',
+            description: 'Name shown to the user. Must be unique.',
+          },
+          baseUrl: { type: 'string' },
+          apiKeyEnvVar: {
+            type: 'string',
+            description: 'Environment variable holding the API key.',
+          },
+        },
+        required: ['authType'],
+      },
+      cooldownMs: {
+        type: 'number',
+        description:
+          'How long the hop is skipped after it fails. Doubles with consecutive failures.',
+      },
+    },
+    required: ['backend'],
+  },
   ModelPolicy: {
     type: 'object',
     description:
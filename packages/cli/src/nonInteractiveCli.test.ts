@@ -8,6 +8,7 @@ import type {
   Config,
   ToolRegistry,
   ServerGeminiStreamEvent,
+  SessionCost,
   SessionMetrics,
   AnyDeclarativeTool,
   AnyToolInvocation,
@@ -131,6 +132,13 @@ describe('runNonInteractive', () => {
     },
   };
 
+  const MOCK_SESSION_COST: SessionCost = {
+    currency: 'USD',
+    total: 0.25,
+    models: { 'test-model': 0.25 },
+    unpricedModels: [],
+  };
+
   beforeEach(async () => {
     mockSchedulerSchedule.mockReset();
 
@@ -177,6 +185,7 @@ describe('runNonInteractive', () => {
       getToolRegistry: vi.fn().mockReturnValue(mockToolRegistry),
       getMaxSessionTurns: vi.fn().mockReturnValue(10),
       getSessionId: vi.fn().mockReturnValue('test-session-id'),
+      getSessionCost: vi.fn().mockReturnValue(MOCK_SESSION_COST),
       getProjectRoot: vi.fn().mockReturnValue('/test/project'),
       storage: {
         getProjectTempDir: vi.fn().mockReturnValue('/test/project/.gemini/tmp'),
@@ -728,6 +737,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: 'Hello World',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -817,6 +827,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: '',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -863,6 +874,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: '',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -1920,6 +1932,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: 'Partial content',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
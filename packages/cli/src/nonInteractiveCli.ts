@@ -387,6 +387,9 @@ export async function runNonInteractive(
                   metrics,
                   durationMs,
                 ),
+                cost: streamFormatter.convertToStreamCost(
+                  config.getSessionCost(),
+                ),
               });
             }
             return;
@@ -486,12 +489,21 @@ export async function runNonInteractive(
                   metrics,
                   durationMs,
                 ),
+                cost: streamFormatter.convertToStreamCost(
+                  config.getSessionCost(),
+                ),
               });
             } else if (config.getOutputFormat() === OutputFormat.JSON) {
               const formatter = new JsonFormatter();
               const stats = uiTelemetryService.getMetrics();
               textOutput.write(
-                formatter.format(config.getSessionId(), responseText, stats),
+                formatter.format(
+                  config.getSessionId(),
+                  responseText,
+                  stats,
+                  undefined,
+                  config.getSessionCost(),
+                ),
               );
             } else {
               textOutput.ensureTrailingNewline(); // Ensure a final newline
@@ -510,12 +522,21 @@ export async function runNonInteractive(
               timestamp: new Date().toISOString(),
               status: 'success',
               stats: streamFormatter.convertToStreamStats(metrics, durationMs),
+              cost: streamFormatter.convertToStreamCost(
+                config.getSessionCost(),
+              ),
             });
           } else if (config.getOutputFormat() === OutputFormat.JSON) {
             const formatter = new JsonFormatter();
             const stats = uiTelemetryService.getMetrics();
             textOutput.write(
-              formatter.format(config.getSessionId(), responseText, stats),
+              formatter.format(
+                config.getSessionId(),
+                responseText,
+                stats,
+                undefined,
+                config.getSessionCost(),
+              ),
             );
           } else {
             textOutput.ensureTrailingNewline(); // Ensure a final newline
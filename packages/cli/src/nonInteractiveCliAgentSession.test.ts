@@ -8,6 +8,7 @@ import type {
   Config,
   ToolRegistry,
   ServerGeminiStreamEvent,
+  SessionCost,
   SessionMetrics,
   AnyDeclarativeTool,
   AnyToolInvocation,
@@ -135,6 +136,13 @@ describe('runNonInteractive', () => {
     },
   };
 
+  const MOCK_SESSION_COST: SessionCost = {
+    currency: 'USD',
+    total: 0.25,
+    models: { 'test-model': 0.25 },
+    unpricedModels: [],
+  };
+
   beforeEach(async () => {
     mockSchedulerSchedule.mockReset();
 
@@ -183,6 +191,7 @@ describe('runNonInteractive', () => {
       getToolRegistry: vi.fn().mockReturnValue(mockToolRegistry),
       getMaxSessionTurns: vi.fn().mockReturnValue(10),
       getSessionId: vi.fn().mockReturnValue('test-session-id'),
+      getSessionCost: vi.fn().mockReturnValue(MOCK_SESSION_COST),
       getProjectRoot: vi.fn().mockReturnValue('/test/project'),
       storage: {
         getProjectTempDir: vi.fn().mockReturnValue('/test/project/.gemini/tmp'),
@@ -782,6 +791,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: 'Hello World',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -871,6 +881,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: '',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -944,6 +955,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: 'Final answer',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -990,6 +1002,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: '',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
@@ -2087,6 +2100,7 @@ describe('runNonInteractive', () => {
           session_id: 'test-session-id',
           response: 'Partial content',
           stats: MOCK_SESSION_METRICS,
+          cost: MOCK_SESSION_COST,
         },
         null,
         2,
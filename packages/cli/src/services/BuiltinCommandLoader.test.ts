@@ -87,6 +87,7 @@ vi.mock('../ui/commands/chatCommand.js', () => ({
 }));
 vi.mock('../ui/commands/clearCommand.js', () => ({ clearCommand: {} }));
 vi.mock('../ui/commands/compressCommand.js', () => ({ compressCommand: {} }));
+vi.mock('../ui/commands/contextCommand.js', () => ({ contextCommand: {} }));
 vi.mock('../ui/commands/corgiCommand.js', () => ({ corgiCommand: {} }));
 vi.mock('../ui/commands/docsCommand.js', () => ({ docsCommand: {} }));
 vi.mock('../ui/commands/editorCommand.js', () => ({ editorCommand: {} }));
@@ -165,6 +166,7 @@ describe('BuiltinCommandLoader', () => {
       getExtensionsEnabled: vi.fn().mockReturnValue(true),
       isSkillsSupportEnabled: vi.fn().mockReturnValue(true),
       isAgentsEnabled: vi.fn().mockReturnValue(false),
+      isTrackerEnabled: vi.fn().mockReturnValue(false),
       getMcpEnabled: vi.fn().mockReturnValue(true),
       getSkillManager: vi.fn().mockReturnValue({
         getAllSkills: vi.fn().mockReturnValue([]),
@@ -309,6 +311,21 @@ describe('BuiltinCommandLoader', () => {
     expect(agentsCmd).toBeUndefined();
   });
 
+  it('should include tracker command when the tracker is enabled', async () => {
+    mockConfig.isTrackerEnabled = vi.fn().mockReturnValue(true);
+    const loader = new BuiltinCommandLoader(mockConfig);
+    const commands = await loader.loadCommands(new AbortController().signal);
+    const trackerCmd = commands.find((c) => c.name === 'tracker');
+    expect(trackerCmd).toBeDefined();
+  });
+
+  it('should exclude tracker command when the tracker is disabled', async () => {
+    const loader = new BuiltinCommandLoader(mockConfig);
+    const commands = await loader.loadCommands(new AbortController().signal);
+    const trackerCmd = commands.find((c) => c.name === 'tracker');
+    expect(trackerCmd).toBeUndefined();
+  });
+
   describe('chat debug command', () => {
     it('should NOT add debug subcommand to chat/resume commands if not a nightly build', async () => {
       vi.mocked(isNightly).mockResolvedValue(false);
@@ -391,6 +408,7 @@ describe('BuiltinCommandLoader profile', () => {
       getExtensionsEnabled: vi.fn().mockReturnValue(true),
       isSkillsSupportEnabled: vi.fn().mockReturnValue(true),
       isAgentsEnabled: vi.fn().mockReturnValue(false),
+      isTrackerEnabled: vi.fn().mockReturnValue(false),
       getMcpEnabled: vi.fn().mockReturnValue(true),
       getSkillManager: vi.fn().mockReturnValue({
         getAllSkills: vi.fn().mockReturnValue([]),
@@ -26,6 +26,7 @@ import { chatCommand, debugCommand } from '../ui/commands/chatCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
 import { commandsCommand } from '../ui/commands/commandsCommand.js';
 import { compressCommand } from '../ui/commands/compressCommand.js';
+import { contextCommand } from '../ui/commands/contextCommand.js';
 import { copyCommand } from '../ui/commands/copyCommand.js';
 import { corgiCommand } from '../ui/commands/corgiCommand.js';
 import { docsCommand } from '../ui/commands/docsCommand.js';
@@ -57,6 +58,7 @@ import { toolsCommand } from '../ui/commands/toolsCommand.js';
 import { skillsCommand } from '../ui/commands/skillsCommand.js';
 import { settingsCommand } from '../ui/commands/settingsCommand.js';
 import { tasksCommand } from '../ui/commands/tasksCommand.js';
+import { trackerCommand } from '../ui/commands/trackerCommand.js';
 import { vimCommand } from '../ui/commands/vimCommand.js';
 import { setupGithubCommand } from '../ui/commands/setupGithubCommand.js';
 import { terminalSetupCommand } from '../ui/commands/terminalSetupCommand.js';
@@ -128,6 +130,7 @@ export class BuiltinCommandLoader implements ICommandLoader {
       clearCommand,
       commandsCommand,
       compressCommand,
+      contextCommand,
       copyCommand,
       corgiCommand,
       docsCommand,
@@ -222,6 +225,7 @@ export class BuiltinCommandLoader implements ICommandLoader {
         : []),
       settingsCommand,
       tasksCommand,
+      ...(this.config?.isTrackerEnabled() ? [trackerCommand] : []),
       vimCommand,
       setupGithubCommand,
       terminalSetupCommand,
@@ -574,6 +574,7 @@ const mockUIActions: UIActions = {
   handleValidationChoice: vi.fn(),
   handleOverageMenuChoice: vi.fn(),
   handleEmptyWalletChoice: vi.fn(),
+  handleBudgetChoice: vi.fn(),
   setQueueErrorMessage: vi.fn(),
   addMessage: vi.fn(),
   popAllMessages: vi.fn(),
@@ -36,6 +36,7 @@ import {
   AuthState,
   type ConfirmationRequest,
   type PermissionConfirmationRequest,
+  type McpElicitationConfirmationRequest,
   type QuotaStats,
   MessageType,
   StreamingState,
@@ -146,6 +147,7 @@ import { relaunchApp } from '../utils/processUtils.js';
 import type { SessionInfo } from '../utils/sessionUtils.js';
 import { useMessageQueue } from './hooks/useMessageQueue.js';
 import { useMcpStatus } from './hooks/useMcpStatus.js';
+import { useMcpElicitation } from './hooks/useMcpElicitation.js';
 import { useApprovalModeIndicator } from './hooks/useApprovalModeIndicator.js';
 import { useSessionStats } from './contexts/SessionContext.js';
 import { useGitBranchName } from './hooks/useGitBranchName.js';
@@ -774,6 +776,8 @@ export const AppContainer = (props: AppContainerProps) => {
     handleOverageMenuChoice,
     emptyWalletRequest,
     handleEmptyWalletChoice,
+    budgetRequest,
+    handleBudgetChoice,
   } = useQuotaAndFallback({
     config,
     historyManager,
@@ -1301,6 +1305,25 @@ Logging in with Google... Restarting Gemini CLI to continue.
   );
 
   const { isMcpReady } = useMcpStatus(config);
+  const {
+    mcpElicitationRequest: pendingMcpElicitation,
+    respondToMcpElicitation,
+  } = useMcpElicitation(config);
+  const mcpElicitationRequest =
+    useMemo<McpElicitationConfirmationRequest | null>(
+      () =>
+        pendingMcpElicitation
+          ? {
+              request: pendingMcpElicitation,
+              onComplete: (result) =>
+                respondToMcpElicitation({
+                  correlationId: pendingMcpElicitation.correlationId,
+                  ...result,
+                }),
+            }
+          : null,
+      [pendingMcpElicitation, respondToMcpElicitation],
+    );
 
   const {
     messageQueue,
@@ -2188,6 +2211,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
     !!commandConfirmationRequest ||
     !!authConsentRequest ||
     !!permissionConfirmationRequest ||
+    !!mcpElicitationRequest ||
     !!customDialog ||
     confirmUpdateExtensionRequests.length > 0 ||
     !!loopDetectionConfirmationRequest ||
@@ -2205,6 +2229,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
     !!validationRequest ||
     !!overageMenuRequest ||
     !!emptyWalletRequest ||
+    !!budgetRequest ||
     isSessionBrowserOpen ||
     authState === AuthState.AwaitingApiKeyInput ||
     !!newAgents;
@@ -2223,12 +2248,14 @@ Logging in with Google... Restarting Gemini CLI to continue.
     hasPendingToolConfirmation ||
     !!commandConfirmationRequest ||
     !!authConsentRequest ||
+    !!mcpElicitationRequest ||
     hasConfirmUpdateExtensionRequests ||
     hasLoopDetectionConfirmationRequest ||
     !!proQuotaRequest ||
     !!validationRequest ||
     !!overageMenuRequest ||
     !!emptyWalletRequest ||
+    !!budgetRequest ||
     !!customDialog;
 
   const loadingPhrases = settings.merged.ui.loadingPhrases;
@@ -2416,6 +2443,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
       // G1 AI Credits dialog state
       overageMenuRequest,
       emptyWalletRequest,
+      budgetRequest,
     }),
     [
       userTier,
@@ -2424,6 +2452,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
       validationRequest,
       overageMenuRequest,
       emptyWalletRequest,
+      budgetRequest,
     ],
   );
 
@@ -2465,6 +2494,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
       confirmUpdateExtensionRequests,
       loopDetectionConfirmationRequest,
       permissionConfirmationRequest,
+      mcpElicitationRequest,
       geminiMdFileCount,
       streamingState,
       initError,
@@ -2576,6 +2606,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
       confirmUpdateExtensionRequests,
       loopDetectionConfirmationRequest,
       permissionConfirmationRequest,
+      mcpElicitationRequest,
       geminiMdFileCount,
       streamingState,
       initError,
@@ -2693,6 +2724,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
       // G1 AI Credits handlers
       handleOverageMenuChoice,
       handleEmptyWalletChoice,
+      handleBudgetChoice,
       openSessionBrowser,
       closeSessionBrowser,
       handleResumeSession,
@@ -2785,6 +2817,7 @@ Logging in with Google... Restarting Gemini CLI to continue.
       handleValidationChoice,
       handleOverageMenuChoice,
       handleEmptyWalletChoice,
+      handleBudgetChoice,
       openSessionBrowser,
       closeSessionBrowser,
       handleResumeSession,
@@ -156,6 +156,27 @@ describe('AuthDialog', () => {
         unmount();
       },
     );
+
+    it('shows the OpenAI-compatible option only when OPENAI_BASE_URL is set', async () => {
+      const openAiItem = {
+        label: 'OpenAI-compatible endpoint',
+        value: AuthType.OPENAI_COMPATIBLE,
+        key: AuthType.OPENAI_COMPATIBLE,
+      };
+      vi.stubEnv('OPENAI_BASE_URL', '');
+      const first = await renderWithProviders(<AuthDialog {...props} />);
+      expect(mockedRadioButtonSelect.mock.calls[0][0].items).not.toContainEqual(
+        openAiItem,
+      );
+      first.unmount();
+
+      vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:8080/v1');
+      const second = await renderWithProviders(<AuthDialog {...props} />);
+      expect(mockedRadioButtonSelect.mock.lastCall?.[0].items).toContainEqual(
+        openAiItem,
+      );
+      second.unmount();
+    });
   });
 
   it('filters auth types when enforcedType is set', async () => {
@@ -75,6 +75,15 @@ export function AuthDialog({
       value: AuthType.USE_VERTEX_AI,
       key: AuthType.USE_VERTEX_AI,
     },
+    ...(process.env['OPENAI_BASE_URL']
+      ? [
+          {
+            label: 'OpenAI-compatible endpoint',
+            value: AuthType.OPENAI_COMPATIBLE,
+            key: AuthType.OPENAI_COMPATIBLE,
+          },
+        ]
+      : []),
   ];
 
   if (settings.merged.security.auth.enforcedType) {
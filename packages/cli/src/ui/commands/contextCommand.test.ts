@@ -0,0 +1,194 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type React from 'react';
+import {
+  ContextInspector,
+  type Content,
+  type ContextNodeInspection,
+} from '@google/gemini-cli-core';
+import { contextCommand } from './contextCommand.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { CommandContext } from './types.js';
+import { ContextInspectorView } from '../components/ContextInspectorView.js';
+
+describe('contextCommand', () => {
+  let mockContext: CommandContext;
+  let inspector: ContextInspector;
+  let history: Content[];
+  let isInitialized: boolean;
+
+  const getSubCommand = (name: string) => {
+    const command = contextCommand.subCommands?.find((c) => c.name === name);
+    if (!command?.action) {
+      throw new Error(`${name} command must have an action`);
+    }
+    return command;
+  };
+
+  const getNode = (type: string): ContextNodeInspection =>
+    inspector
+      .inspect(history)
+      .episodes.flatMap((episode) => episode.nodes)
+      .find((node) => node.type === type)!;
+
+  beforeEach(() => {
+    inspector = new ContextInspector();
+    isInitialized = true;
+    history = [
+      { role: 'user', parts: [{ text: 'Read the config' }] },
+      {
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              id: 'call-1',
+              name: 'read_file',
+              args: { path: 'a.json' },
+            },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              id: 'call-1',
+              name: 'read_file',
+              response: { output: '{}' },
+            },
+          },
+        ],
+      },
+    ];
+    mockContext = createMockCommandContext({
+      services: {
+        agentContext: {
+          geminiClient: {
+            isInitialized: () => isInitialized,
+            getHistory: () => history,
+            getContextInspector: () => inspector,
+          },
+        },
+      },
+    });
+  });
+
+  it('should open the inspector when invoked without a subcommand', async () => {
+    const result = await contextCommand.action!(mockContext, '');
+
+    expect(result).toMatchObject({ type: 'custom_dialog' });
+    const component = (result as { component: React.ReactElement }).component;
+    expect(component.type).toBe(ContextInspectorView);
+
+    const props = component.props as React.ComponentProps<
+      typeof ContextInspectorView
+    >;
+    expect(props.inspect().episodes).toHaveLength(1);
+    const toolNode = getNode('TOOL_EXECUTION');
+    expect(props.setPinned(toolNode.id, true)).toBe(true);
+    expect(getNode('TOOL_EXECUTION').pinned).toBe(true);
+  });
+
+  it('should report when no chat is active', async () => {
+    isInitialized = false;
+
+    const result = await contextCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'No chat is active.',
+    });
+  });
+
+  describe('pin', () => {
+    it('should pin a node by ID prefix', async () => {
+      const toolNode = getNode('TOOL_EXECUTION');
+
+      const result = await getSubCommand('pin').action!(
+        mockContext,
+        toolNode.id.slice(0, 8),
+      );
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: `Pinned TOOL_EXECUTION node ${toolNode.id.slice(0, 8)}. Compression, tool output masking, and context processors will leave it alone.`,
+      });
+      expect(inspector.getPinnedNodeIds()).toEqual(new Set([toolNode.id]));
+    });
+
+    it('should reject unknown and synthesized nodes', async () => {
+      expect(
+        await getSubCommand('pin').action!(mockContext, 'missing'),
+      ).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'No context node matches "missing".',
+      });
+
+      const yieldNode = getNode('AGENT_YIELD');
+      expect(
+        await getSubCommand('pin').action!(mockContext, yieldNode.id),
+      ).toMatchObject({ messageType: 'error' });
+    });
+
+    it('should complete IDs of unpinned nodes', async () => {
+      const toolNode = getNode('TOOL_EXECUTION');
+      inspector.pinNode(history, toolNode.id);
+
+      const completions = await getSubCommand('pin').completion!(
+        mockContext,
+        '',
+      );
+
+      expect(completions).toEqual([getNode('USER_PROMPT').id.slice(0, 8)]);
+    });
+  });
+
+  describe('unpin', () => {
+    it('should unpin a pinned node', async () => {
+      const toolNode = getNode('TOOL_EXECUTION');
+      inspector.pinNode(history, toolNode.id);
+
+      const result = await getSubCommand('unpin').action!(
+        mockContext,
+        toolNode.id,
+      );
+
+      expect(result).toMatchObject({
+        messageType: 'info',
+        content: `Unpinned TOOL_EXECUTION node ${toolNode.id.slice(0, 8)}.`,
+      });
+      expect(inspector.getPinnedNodeIds().size).toBe(0);
+    });
+
+    it('should report nodes that are not pinned', async () => {
+      const toolNode = getNode('TOOL_EXECUTION');
+
+      const result = await getSubCommand('unpin').action!(
+        mockContext,
+        toolNode.id,
+      );
+
+      expect(result).toMatchObject({
+        messageType: 'error',
+        content: `Node ${toolNode.id.slice(0, 8)} is not pinned.`,
+      });
+    });
+
+    it('should print usage without an ID', async () => {
+      const result = await getSubCommand('unpin').action!(mockContext, ' ');
+
+      expect(result).toMatchObject({
+        content: 'Usage: /context unpin <id>',
+      });
+    });
+  });
+});
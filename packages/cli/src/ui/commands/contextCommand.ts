@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createElement } from 'react';
+import type {
+  ContextNodeInspection,
+  GeminiClient,
+  MessageActionReturn,
+} from '@google/gemini-cli-core';
+import type {
+  CommandContext,
+  OpenCustomDialogActionReturn,
+  SlashCommand,
+} from './types.js';
+import { CommandKind } from './types.js';
+import {
+  ContextInspectorView,
+  SHORT_NODE_ID_LENGTH,
+} from '../components/ContextInspectorView.js';
+
+function getClient(context: CommandContext) {
+  const client = context.services.agentContext?.geminiClient;
+  if (!client?.isInitialized()) {
+    return { error: 'No chat is active.' };
+  }
+  return { client };
+}
+
+function errorMessage(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+function listNodes(client: GeminiClient): ContextNodeInspection[] {
+  return client
+    .getContextInspector()
+    .inspect(client.getHistory())
+    .episodes.flatMap((episode) => episode.nodes);
+}
+
+/**
+ * Finds a node by its full ID or a unique prefix of it.
+ */
+function findNode(
+  client: GeminiClient,
+  id: string,
+): { node?: ContextNodeInspection; error?: string } {
+  const matches = listNodes(client).filter((node) => node.id.startsWith(id));
+  if (matches.length === 0) {
+    return { error: `No context node matches "${id}".` };
+  }
+  if (matches.length > 1) {
+    return { error: `"${id}" matches more than one context node.` };
+  }
+  return { node: matches[0] };
+}
+
+/**
+ * Opens the interactive context inspector.
+ */
+function inspectAction(
+  context: CommandContext,
+): MessageActionReturn | OpenCustomDialogActionReturn {
+  const { client, error } = getClient(context);
+  if (!client) {
+    return errorMessage(error);
+  }
+  const inspector = client.getContextInspector();
+  return {
+    type: 'custom_dialog',
+    component: createElement(ContextInspectorView, {
+      inspect: () => inspector.inspect(client.getHistory()),
+      setPinned: (nodeId: string, pinned: boolean) =>
+        pinned
+          ? inspector.pinNode(client.getHistory(), nodeId)
+          : inspector.unpinNode(nodeId),
+      onClose: () => context.ui.removeComponent(),
+    }),
+  };
+}
+
+function pinAction(pinned: boolean) {
+  return (context: CommandContext, args: string): MessageActionReturn => {
+    const { client, error } = getClient(context);
+    if (!client) {
+      return errorMessage(error);
+    }
+    const id = args.trim();
+    if (!id) {
+      return errorMessage(`Usage: /context ${pinned ? 'pin' : 'unpin'} <id>`);
+    }
+
+    const { node, error: findError } = findNode(client, id);
+    if (!node) {
+      return errorMessage(findError!);
+    }
+    const shortId = node.id.slice(0, SHORT_NODE_ID_LENGTH);
+    const inspector = client.getContextInspector();
+    if (pinned) {
+      if (!inspector.pinNode(client.getHistory(), node.id)) {
+        return errorMessage(`Node ${shortId} can't be pinned.`);
+      }
+    } else if (!inspector.unpinNode(node.id)) {
+      return errorMessage(`Node ${shortId} is not pinned.`);
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: pinned
+        ? `Pinned ${node.type} node ${shortId}. Compression, tool output masking, and context processors will leave it alone.`
+        : `Unpinned ${node.type} node ${shortId}.`,
+    };
+  };
+}
+
+function completeNodeIds(pinned: boolean) {
+  return (context: CommandContext, partialArg: string): string[] => {
+    const { client } = getClient(context);
+    if (!client) return [];
+    return listNodes(client)
+      .filter((node) => node.pinned !== pinned && node.type !== 'AGENT_YIELD')
+      .map((node) => node.id.slice(0, SHORT_NODE_ID_LENGTH))
+      .filter((id) => id.startsWith(partialArg));
+  };
+}
+
+const inspectCommand: SlashCommand = {
+  name: 'inspect',
+  description: 'Show the context graph the model sees',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: true,
+  action: inspectAction,
+};
+
+const pinCommand: SlashCommand = {
+  name: 'pin',
+  description:
+    'Pin a context node so it is never degraded. Usage: /context pin <id>',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: false,
+  action: pinAction(true),
+  completion: completeNodeIds(true),
+};
+
+const unpinCommand: SlashCommand = {
+  name: 'unpin',
+  description: 'Unpin a context node. Usage: /context unpin <id>',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: false,
+  action: pinAction(false),
+  completion: completeNodeIds(false),
+};
+
+export const contextCommand: SlashCommand = {
+  name: 'context',
+  description: 'Inspect the context graph and pin nodes',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: true,
+  subCommands: [inspectCommand, pinCommand, unpinCommand],
+  action: (context: CommandContext) => inspectCommand.action!(context, ''),
+};
@@ -205,7 +205,9 @@ function completeDisabledHookNames(
  * Get a display name for a hook
  */
 function getHookDisplayName(hook: HookRegistryEntry): string {
-  return hook.config.name || hook.config.command || 'unknown-hook';
+  return (
+    hook.config.name || hook.config.command || hook.config.url || 'unknown-hook'
+  );
 }
 
 /**
@@ -68,6 +68,9 @@ async function listAction(
       location: skill.location,
       body: skill.body,
       isBuiltin: skill.isBuiltin,
+      allowedTools: skill.allowedTools,
+      scripts: skill.scripts,
+      minCliVersion: skill.minCliVersion,
     })),
     showDescriptions: useShowDescriptions,
   };
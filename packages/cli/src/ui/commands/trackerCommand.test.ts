@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  TaskStatus,
+  TaskType,
+  type TrackerTask,
+} from '@google/gemini-cli-core';
+import { trackerCommand } from './trackerCommand.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { CommandContext } from './types.js';
+import { TrackerBoard } from '../components/TrackerBoard.js';
+
+const createTask = (
+  id: string,
+  overrides: Partial<TrackerTask> = {},
+): TrackerTask => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  type: TaskType.TASK,
+  status: TaskStatus.OPEN,
+  dependencies: [],
+  ...overrides,
+});
+
+describe('trackerCommand', () => {
+  let mockContext: CommandContext;
+  let mockService: {
+    listTasks: ReturnType<typeof vi.fn>;
+    updateTask: ReturnType<typeof vi.fn>;
+  };
+  let mockConfig: {
+    isTrackerEnabled: ReturnType<typeof vi.fn>;
+    getTrackerService: ReturnType<typeof vi.fn>;
+  };
+
+  const getSubCommand = (name: string) => {
+    const command = trackerCommand.subCommands?.find((c) => c.name === name);
+    if (!command?.action) {
+      throw new Error(`${name} command must have an action`);
+    }
+    return command;
+  };
+
+  beforeEach(() => {
+    mockService = {
+      listTasks: vi.fn().mockResolvedValue([]),
+      updateTask: vi.fn(),
+    };
+    mockConfig = {
+      isTrackerEnabled: vi.fn().mockReturnValue(true),
+      getTrackerService: vi.fn().mockReturnValue(mockService),
+    };
+    mockContext = createMockCommandContext({
+      services: {
+        agentContext: { config: mockConfig },
+      },
+    });
+  });
+
+  it('should open the board when invoked without a subcommand', async () => {
+    const result = await trackerCommand.action!(mockContext, '');
+
+    expect(result).toMatchObject({ type: 'custom_dialog' });
+    const component = (result as { component: React.ReactElement }).component;
+    expect(component.type).toBe(TrackerBoard);
+    expect(component.props).toMatchObject({ service: mockService });
+  });
+
+  it('should report when the tracker is disabled', async () => {
+    mockConfig.isTrackerEnabled.mockReturnValue(false);
+
+    const result = await trackerCommand.action!(mockContext, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'The task tracker is not enabled.',
+    });
+  });
+
+  describe('list', () => {
+    it('should list tasks as a tree', async () => {
+      mockService.listTasks.mockResolvedValue([
+        createTask('epic01', { type: TaskType.EPIC, title: 'Epic' }),
+        createTask('child1', {
+          parentId: 'epic01',
+          title: 'Child',
+          dependencies: ['other1'],
+        }),
+        createTask('other1', { status: TaskStatus.CLOSED, title: 'Other' }),
+      ]);
+
+      const result = await getSubCommand('list').action!(mockContext, '');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: [
+          '⭕ epic01 [EPIC] Epic',
+          '  ⭕ child1 [TASK] Child (depends on other1)',
+          '✅ other1 [TASK] Other',
+        ].join('\n'),
+      });
+    });
+
+    it('should filter by status', async () => {
+      mockService.listTasks.mockResolvedValue([
+        createTask('open01'),
+        createTask('done01', { status: TaskStatus.CLOSED }),
+      ]);
+
+      const result = await getSubCommand('list').action!(mockContext, 'closed');
+
+      expect(result).toMatchObject({ content: '✅ done01 [TASK] Task done01' });
+    });
+
+    it('should reject unknown statuses', async () => {
+      const result = await getSubCommand('list').action!(mockContext, 'done');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Unknown status "done". Expected one of: open, in_progress, blocked, closed.',
+      });
+    });
+  });
+
+  describe('status', () => {
+    it('should update the task through the service', async () => {
+      mockService.updateTask.mockResolvedValue(
+        createTask('abc123', { status: TaskStatus.IN_PROGRESS }),
+      );
+
+      const result = await getSubCommand('status').action!(
+        mockContext,
+        'abc123 in_progress',
+      );
+
+      expect(mockService.updateTask).toHaveBeenCalledWith('abc123', {
+        status: TaskStatus.IN_PROGRESS,
+      });
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'Task abc123 "Task abc123" is now in_progress.',
+      });
+    });
+
+    it('should surface validation errors', async () => {
+      mockService.updateTask.mockRejectedValue(
+        new Error(
+          'Cannot close task abc123 because dependency def456 is still open.',
+        ),
+      );
+
+      const result = await getSubCommand('status').action!(
+        mockContext,
+        'abc123 closed',
+      );
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Failed to update task: Cannot close task abc123 because dependency def456 is still open.',
+      });
+    });
+
+    it('should show usage when arguments are missing', async () => {
+      const result = await getSubCommand('status').action!(
+        mockContext,
+        'abc123',
+      );
+
+      expect(result).toMatchObject({
+        messageType: 'error',
+        content: 'Usage: /tracker status <task-id> <status>',
+      });
+      expect(mockService.updateTask).not.toHaveBeenCalled();
+    });
+
+    it('should complete task ids and then statuses', async () => {
+      mockService.listTasks.mockResolvedValue([
+        createTask('abc123'),
+        createTask('def456'),
+      ]);
+      const { completion } = getSubCommand('status');
+
+      await expect(completion!(mockContext, 'ab')).resolves.toEqual(['abc123']);
+      await expect(completion!(mockContext, 'abc123 bl')).resolves.toEqual([
+        'abc123 blocked',
+      ]);
+    });
+  });
+});
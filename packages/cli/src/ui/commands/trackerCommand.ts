@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createElement } from 'react';
+import {
+  TaskStatus,
+  TASK_TYPE_LABELS,
+  getErrorMessage,
+  type MessageActionReturn,
+} from '@google/gemini-cli-core';
+import type {
+  CommandContext,
+  OpenCustomDialogActionReturn,
+  SlashCommand,
+} from './types.js';
+import { CommandKind } from './types.js';
+import {
+  TASK_STATUS_ICONS,
+  TrackerBoard,
+  buildTrackerRows,
+  type TrackerFilter,
+} from '../components/TrackerBoard.js';
+
+const STATUS_VALUES: string[] = Object.values(TaskStatus);
+
+function isTaskStatus(value: string): value is TaskStatus {
+  return STATUS_VALUES.includes(value);
+}
+
+function getTrackerService(context: CommandContext) {
+  const config = context.services.agentContext?.config;
+  if (!config) {
+    return { error: 'Config not loaded.' };
+  }
+  if (!config.isTrackerEnabled()) {
+    return { error: 'The task tracker is not enabled.' };
+  }
+  return { service: config.getTrackerService() };
+}
+
+function errorMessage(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+/**
+ * Opens the interactive tracker board.
+ */
+function boardAction(
+  context: CommandContext,
+): MessageActionReturn | OpenCustomDialogActionReturn {
+  const { service, error } = getTrackerService(context);
+  if (!service) {
+    return errorMessage(error);
+  }
+  return {
+    type: 'custom_dialog',
+    component: createElement(TrackerBoard, {
+      service,
+      onClose: () => context.ui.removeComponent(),
+    }),
+  };
+}
+
+/**
+ * Lists tracker tasks, optionally filtered by status.
+ */
+async function listAction(
+  context: CommandContext,
+  args: string,
+): Promise<MessageActionReturn> {
+  const { service, error } = getTrackerService(context);
+  if (!service) {
+    return errorMessage(error);
+  }
+
+  const filterArg = args.trim();
+  let filter: TrackerFilter = 'all';
+  if (filterArg) {
+    if (!isTaskStatus(filterArg)) {
+      return errorMessage(
+        `Unknown status "${filterArg}". Expected one of: ${STATUS_VALUES.join(', ')}.`,
+      );
+    }
+    filter = filterArg;
+  }
+
+  try {
+    const rows = buildTrackerRows(await service.listTasks(), filter);
+    if (rows.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: filterArg
+          ? `No ${filterArg} tasks.`
+          : 'No tasks in the tracker.',
+      };
+    }
+    const lines = rows.map(({ task, depth }) => {
+      const deps =
+        task.dependencies.length > 0
+          ? ` (depends on ${task.dependencies.join(', ')})`
+          : '';
+      return `${'  '.repeat(depth)}${TASK_STATUS_ICONS[task.status]} ${task.id} ${TASK_TYPE_LABELS[task.type]} ${task.title}${deps}`;
+    });
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: lines.join('\n'),
+    };
+  } catch (e) {
+    return errorMessage(`Failed to list tasks: ${getErrorMessage(e)}`);
+  }
+}
+
+/**
+ * Changes the status of a task: `/tracker status <id> <status>`.
+ */
+async function statusAction(
+  context: CommandContext,
+  args: string,
+): Promise<MessageActionReturn> {
+  const { service, error } = getTrackerService(context);
+  if (!service) {
+    return errorMessage(error);
+  }
+
+  const [id, status, ...rest] = args.trim().split(/\s+/);
+  if (!id || !status || rest.length > 0) {
+    return errorMessage('Usage: /tracker status <task-id> <status>');
+  }
+  if (!isTaskStatus(status)) {
+    return errorMessage(
+      `Unknown status "${status}". Expected one of: ${STATUS_VALUES.join(', ')}.`,
+    );
+  }
+
+  try {
+    const task = await service.updateTask(id, { status });
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Task ${task.id} "${task.title}" is now ${task.status}.`,
+    };
+  } catch (e) {
+    return errorMessage(`Failed to update task: ${getErrorMessage(e)}`);
+  }
+}
+
+async function completeTaskIds(
+  context: CommandContext,
+  partialArg: string,
+): Promise<string[]> {
+  const { service } = getTrackerService(context);
+  if (!service) return [];
+
+  const parts = partialArg.split(/\s+/);
+  if (parts.length > 1) {
+    return STATUS_VALUES.filter((status) =>
+      status.startsWith(parts[parts.length - 1]),
+    ).map((status) => `${parts[0]} ${status}`);
+  }
+  try {
+    const tasks = await service.listTasks();
+    return tasks
+      .map((task) => task.id)
+      .filter((id) => id.startsWith(partialArg));
+  } catch {
+    return [];
+  }
+}
+
+const boardCommand: SlashCommand = {
+  name: 'board',
+  altNames: ['show'],
+  description: 'Open the interactive task board',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: true,
+  action: boardAction,
+};
+
+const listCommand: SlashCommand = {
+  name: 'list',
+  description: 'List tracker tasks. Usage: /tracker list [status]',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: false,
+  action: listAction,
+  completion: (_context, partialArg) =>
+    STATUS_VALUES.filter((status) => status.startsWith(partialArg)),
+};
+
+const statusCommand: SlashCommand = {
+  name: 'status',
+  description:
+    'Change the status of a task. Usage: /tracker status <id> <status>',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: false,
+  action: statusAction,
+  completion: completeTaskIds,
+};
+
+export const trackerCommand: SlashCommand = {
+  name: 'tracker',
+  description: 'View and manage tracker tasks',
+  kind: CommandKind.BUILT_IN,
+  autoExecute: true,
+  subCommands: [boardCommand, listCommand, statusCommand],
+  action: (context: CommandContext) => boardCommand.action!(context, ''),
+};
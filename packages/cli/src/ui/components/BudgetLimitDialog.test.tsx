@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { renderWithProviders } from '../../test-utils/render.js';
+import { waitFor } from '../../test-utils/async.js';
+import { act } from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BudgetLimitExceeded } from '@google/gemini-cli-core';
+import { BudgetLimitDialog } from './BudgetLimitDialog.js';
+
+const writeKey = (stdin: { write: (data: string) => void }, key: string) => {
+  act(() => {
+    stdin.write(key);
+  });
+};
+
+const SOFT_LIMIT: BudgetLimitExceeded = {
+  scope: 'session',
+  severity: 'soft',
+  limit: 5,
+  spent: 5.25,
+  currency: 'USD',
+};
+
+const HARD_LIMIT: BudgetLimitExceeded = {
+  scope: 'daily',
+  severity: 'hard',
+  limit: 20,
+  spent: 21,
+  currency: 'USD',
+};
+
+describe('BudgetLimitDialog', () => {
+  const mockOnChoice = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should match snapshot for a soft limit', async () => {
+    const { lastFrame, unmount } = await renderWithProviders(
+      <BudgetLimitDialog exceeded={SOFT_LIMIT} onChoice={mockOnChoice} />,
+    );
+
+    expect(lastFrame()).toMatchSnapshot();
+    unmount();
+  });
+
+  it('should explain that hard limits are asked about on every prompt', async () => {
+    const { lastFrame, unmount } = await renderWithProviders(
+      <BudgetLimitDialog exceeded={HARD_LIMIT} onChoice={mockOnChoice} />,
+    );
+
+    const output = lastFrame() ?? '';
+    expect(output).toContain(
+      'Daily budget hard limit of $20.00 reached ($21.00 spent).',
+    );
+    expect(output).toContain('You will be asked again on your next prompt.');
+    expect(output).toContain('Continue for this prompt');
+    unmount();
+  });
+
+  it('should call onChoice with continue when selected', async () => {
+    const { unmount, stdin } = await renderWithProviders(
+      <BudgetLimitDialog exceeded={SOFT_LIMIT} onChoice={mockOnChoice} />,
+    );
+
+    writeKey(stdin, '\r');
+
+    await waitFor(() => {
+      expect(mockOnChoice).toHaveBeenCalledWith('continue');
+    });
+    unmount();
+  });
+
+  it('should call onChoice with stop when selected', async () => {
+    const { unmount, stdin } = await renderWithProviders(
+      <BudgetLimitDialog exceeded={HARD_LIMIT} onChoice={mockOnChoice} />,
+    );
+
+    writeKey(stdin, '\x1b[B'); // Down arrow
+    writeKey(stdin, '\r');
+
+    await waitFor(() => {
+      expect(mockOnChoice).toHaveBeenCalledWith('stop');
+    });
+    unmount();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { Box, Text } from 'ink';
+import {
+  describeBudgetLimit,
+  type BudgetIntent,
+  type BudgetLimitExceeded,
+} from '@google/gemini-cli-core';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { theme } from '../semantic-colors.js';
+
+interface BudgetLimitDialogProps {
+  /** The budget limit that was reached */
+  exceeded: BudgetLimitExceeded;
+  /** Callback when user makes a selection */
+  onChoice: (choice: BudgetIntent) => void;
+}
+
+export function BudgetLimitDialog({
+  exceeded,
+  onChoice,
+}: BudgetLimitDialogProps): React.JSX.Element {
+  const isHardLimit = exceeded.severity === 'hard';
+  const items: Array<{ label: string; value: BudgetIntent; key: string }> = [
+    {
+      label: isHardLimit ? 'Continue for this prompt' : 'Continue',
+      value: 'continue',
+      key: 'continue',
+    },
+    {
+      label: 'Stop - Pause the agent',
+      value: 'stop',
+      key: 'stop',
+    },
+  ];
+
+  return (
+    <Box borderStyle="round" flexDirection="column" padding={1}>
+      <Box marginBottom={1} flexDirection="column">
+        <Text color={isHardLimit ? theme.status.error : theme.status.warning}>
+          {describeBudgetLimit(exceeded)}
+        </Text>
+        <Text>
+          {isHardLimit
+            ? 'You will be asked again on your next prompt.'
+            : 'You will not be asked about this limit again.'}
+        </Text>
+        <Text>
+          <Text bold color={theme.text.accent}>
+            /stats
+          </Text>{' '}
+          for cost details
+        </Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text>How would you like to proceed?</Text>
+      </Box>
+      <Box marginTop={1} marginBottom={1}>
+        <RadioButtonSelect items={items} onSelect={onChoice} />
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { act } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContextInspector, type Content } from '@google/gemini-cli-core';
+import { waitFor } from '../../test-utils/async.js';
+import { renderWithProviders } from '../../test-utils/render.js';
+import {
+  ContextInspectorView,
+  buildContextNodeRows,
+  formatNodeStatus,
+} from './ContextInspectorView.js';
+
+describe('formatNodeStatus', () => {
+  const node = {
+    id: 'node-1',
+    type: 'TOOL_EXECUTION' as const,
+    preview: 'read_file',
+    tokens: 10,
+    pinned: false,
+  };
+
+  it('describes changed nodes', () => {
+    expect(formatNodeStatus({ ...node, status: 'original' })).toBe('');
+    expect(
+      formatNodeStatus({
+        ...node,
+        status: 'masked',
+        changedBy: 'ToolOutputMasking',
+      }),
+    ).toBe('masked by ToolOutputMasking');
+    expect(formatNodeStatus({ ...node, status: 'truncated' })).toBe(
+      'truncated',
+    );
+  });
+});
+
+describe('ContextInspectorView', () => {
+  let inspector: ContextInspector;
+  let history: Content[];
+
+  beforeEach(() => {
+    inspector = new ContextInspector();
+    history = [
+      { role: 'user', parts: [{ text: 'First question' }] },
+      { role: 'model', parts: [{ text: 'First answer' }] },
+      { role: 'user', parts: [{ text: 'Second question' }] },
+    ];
+  });
+
+  const renderView = (onClose = vi.fn()) =>
+    act(async () =>
+      renderWithProviders(
+        <ContextInspectorView
+          inspect={() => inspector.inspect(history)}
+          setPinned={(nodeId, pinned) =>
+            pinned
+              ? inspector.pinNode(history, nodeId)
+              : inspector.unpinNode(nodeId)
+          }
+          onClose={onClose}
+        />,
+      ),
+    );
+
+  it('groups nodes into episodes', async () => {
+    const rows = buildContextNodeRows(inspector.inspect(history));
+    expect(rows.map((row) => [row.episodeIndex, row.startsEpisode])).toEqual([
+      [0, true],
+      [0, false],
+      [1, true],
+      [1, false],
+    ]);
+
+    const { lastFrame, unmount } = await renderView();
+
+    await waitFor(() => {
+      const frame = lastFrame();
+      expect(frame).toContain('in 2 episodes');
+      expect(frame).toContain('Episode 1');
+      expect(frame).toContain('Episode 2');
+      expect(frame).toContain('First question');
+      expect(frame).toContain('agent thought');
+    });
+    unmount();
+  });
+
+  it('pins the selected node', async () => {
+    const { lastFrame, stdin, unmount, waitUntilReady } = await renderView();
+    await waitFor(() => {
+      expect(lastFrame()).toContain('First question');
+    });
+
+    await act(async () => {
+      stdin.write('p');
+      await waitUntilReady();
+    });
+
+    const promptId = inspector.inspect(history).episodes[0].nodes[0].id;
+    await waitFor(() => {
+      expect(lastFrame()).toContain(`Pinned node ${promptId.slice(0, 8)}.`);
+      expect(lastFrame()).toContain('📌');
+    });
+    expect(inspector.getPinnedNodeIds()).toEqual(new Set([promptId]));
+    unmount();
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useCallback, useMemo, useState } from 'react';
+import { Box, Text } from 'ink';
+import type {
+  ContextInspection,
+  ContextNodeInspection,
+} from '@google/gemini-cli-core';
+import { theme } from '../semantic-colors.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { Command } from '../key/keyMatchers.js';
+import { useKeyMatchers } from '../hooks/useKeyMatchers.js';
+
+/** Length of the node ID prefix shown to users and accepted by `/context pin`. */
+export const SHORT_NODE_ID_LENGTH = 8;
+
+export interface ContextNodeRow {
+  node: ContextNodeInspection;
+  episodeIndex: number;
+  /** Whether this is the first node of its episode. */
+  startsEpisode: boolean;
+}
+
+export function buildContextNodeRows(
+  inspection: ContextInspection,
+): ContextNodeRow[] {
+  return inspection.episodes.flatMap((episode, episodeIndex) =>
+    episode.nodes.map((node, index) => ({
+      node,
+      episodeIndex,
+      startsEpisode: index === 0,
+    })),
+  );
+}
+
+export function formatNodeType(node: ContextNodeInspection): string {
+  return node.type.toLowerCase().replace(/_/g, ' ');
+}
+
+export function formatNodeStatus(node: ContextNodeInspection): string {
+  if (node.status === 'original') {
+    return node.changedBy ? `changed by ${node.changedBy}` : '';
+  }
+  return node.changedBy ? `${node.status} by ${node.changedBy}` : node.status;
+}
+
+interface ContextInspectorViewProps {
+  /** Returns the current inspection of the chat's context. */
+  inspect: () => ContextInspection;
+  /** Pins or unpins a node. Returns false if the node can't be pinned. */
+  setPinned: (nodeId: string, pinned: boolean) => boolean;
+  onClose: () => void;
+  /** Maximum number of nodes to display at once before scrolling. Default: 12 */
+  maxVisibleNodes?: number;
+}
+
+const DEFAULT_MAX_VISIBLE_NODES = 12;
+
+/**
+ * Interactive view of the context graph: every node the model sees, grouped
+ * into episodes, with its token cost and what last changed it. Pinned nodes
+ * are left alone by masking and context processors.
+ */
+export const ContextInspectorView: React.FC<ContextInspectorViewProps> = ({
+  inspect,
+  setPinned,
+  onClose,
+  maxVisibleNodes = DEFAULT_MAX_VISIBLE_NODES,
+}) => {
+  const keyMatchers = useKeyMatchers();
+  const [inspection, setInspection] = useState<ContextInspection>(inspect);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [notice, setNotice] = useState<
+    { type: 'error' | 'info'; text: string } | undefined
+  >(undefined);
+
+  const rows = useMemo(() => buildContextNodeRows(inspection), [inspection]);
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, rows.length - 1));
+  const selected = rows[clampedIndex]?.node;
+
+  const togglePin = useCallback(
+    (node: ContextNodeInspection) => {
+      const shortId = node.id.slice(0, SHORT_NODE_ID_LENGTH);
+      if (setPinned(node.id, !node.pinned)) {
+        setNotice({
+          type: 'info',
+          text: node.pinned
+            ? `Unpinned node ${shortId}.`
+            : `Pinned node ${shortId}.`,
+        });
+      } else {
+        setNotice({
+          type: 'error',
+          text: `Node ${shortId} can't be pinned.`,
+        });
+      }
+      setInspection(inspect());
+    },
+    [inspect, setPinned],
+  );
+
+  useKeypress(
+    (key) => {
+      if (keyMatchers[Command.ESCAPE](key)) {
+        onClose();
+        return true;
+      }
+      if (keyMatchers[Command.DIALOG_NAVIGATION_UP](key)) {
+        setSelectedIndex(Math.max(0, clampedIndex - 1));
+        return true;
+      }
+      if (keyMatchers[Command.DIALOG_NAVIGATION_DOWN](key)) {
+        setSelectedIndex(Math.min(rows.length - 1, clampedIndex + 1));
+        return true;
+      }
+      if (key.sequence === 'p' && selected) {
+        togglePin(selected);
+        return true;
+      }
+      if (key.sequence === 'r') {
+        setNotice(undefined);
+        setInspection(inspect());
+        return true;
+      }
+      return false;
+    },
+    { isActive: true },
+  );
+
+  const scrollOffset = Math.min(
+    Math.max(0, clampedIndex - maxVisibleNodes + 1),
+    Math.max(0, rows.length - maxVisibleNodes),
+  );
+  const visibleRows = rows.slice(scrollOffset, scrollOffset + maxVisibleNodes);
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      padding={1}
+      marginY={1}
+      width="100%"
+    >
+      <Box marginBottom={1}>
+        <Text bold color={theme.text.accent}>
+          Context
+        </Text>
+        <Text color={theme.text.secondary}>
+          {`  ${inspection.totalTokens.toLocaleString()} tokens in ${inspection.episodes.length} episodes`}
+        </Text>
+      </Box>
+
+      {rows.length === 0 ? (
+        <Text color={theme.text.primary}>The context is empty.</Text>
+      ) : (
+        <>
+          {scrollOffset > 0 && (
+            <Text color={theme.text.secondary}>{'  ▲'}</Text>
+          )}
+          {visibleRows.map(({ node, episodeIndex, startsEpisode }, index) => {
+            const isSelected = node.id === selected?.id;
+            const status = formatNodeStatus(node);
+            return (
+              <Box key={node.id} flexDirection="column">
+                {(startsEpisode || index === 0) && (
+                  <Text color={theme.text.secondary}>
+                    {`Episode ${episodeIndex + 1} · ${inspection.episodes[
+                      episodeIndex
+                    ].tokens.toLocaleString()} tokens`}
+                  </Text>
+                )}
+                <Box flexDirection="row">
+                  <Text color={isSelected ? theme.text.accent : undefined}>
+                    {isSelected ? '› ' : '  '}
+                    {node.pinned ? '📌 ' : '   '}
+                    {node.id.slice(0, SHORT_NODE_ID_LENGTH)}{' '}
+                    {formatNodeType(node).padEnd(14)}
+                    {node.tokens.toLocaleString().padStart(8)}{' '}
+                  </Text>
+                  <Text
+                    color={isSelected ? theme.text.accent : theme.text.primary}
+                    bold={isSelected}
+                    wrap="truncate"
+                  >
+                    {node.preview}
+                  </Text>
+                  {status && (
+                    <Text color={theme.status.warning}>{` (${status})`}</Text>
+                  )}
+                </Box>
+              </Box>
+            );
+          })}
+          {scrollOffset + maxVisibleNodes < rows.length && (
+            <Text color={theme.text.secondary}>{'  ▼'}</Text>
+          )}
+        </>
+      )}
+
+      {notice && (
+        <Box marginTop={1}>
+          <Text
+            color={
+              notice.type === 'error'
+                ? theme.status.error
+                : theme.status.success
+            }
+            wrap="wrap"
+          >
+            {notice.text}
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary} wrap="wrap">
+          ↑/↓ select · p pin/unpin · r refresh · Esc close
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -9,6 +9,7 @@ import { IdeIntegrationNudge } from '../IdeIntegrationNudge.js';
 import { LoopDetectionConfirmation } from './LoopDetectionConfirmation.js';
 import { FolderTrustDialog } from './FolderTrustDialog.js';
 import { ConsentPrompt } from './ConsentPrompt.js';
+import { McpElicitationDialog } from './McpElicitationDialog.js';
 import { ThemeDialog } from './ThemeDialog.js';
 import { SettingsDialog } from './SettingsDialog.js';
 import { AuthInProgress } from '../auth/AuthInProgress.js';
@@ -21,6 +22,7 @@ import { ProQuotaDialog } from './ProQuotaDialog.js';
 import { ValidationDialog } from './ValidationDialog.js';
 import { OverageMenuDialog } from './OverageMenuDialog.js';
 import { EmptyWalletDialog } from './EmptyWalletDialog.js';
+import { BudgetLimitDialog } from './BudgetLimitDialog.js';
 import { relaunchApp } from '../../utils/processUtils.js';
 import { SessionBrowser } from './SessionBrowser.js';
 import { PermissionsModifyTrustDialog } from './PermissionsModifyTrustDialog.js';
@@ -124,6 +126,14 @@ export const DialogManager = ({
       />
     );
   }
+  if (quotaState.budgetRequest) {
+    return (
+      <BudgetLimitDialog
+        exceeded={quotaState.budgetRequest.exceeded}
+        onChoice={uiActions.handleBudgetChoice}
+      />
+    );
+  }
   if (uiState.shouldShowIdePrompt) {
     return (
       <IdeIntegrationNudge
@@ -193,6 +203,18 @@ export const DialogManager = ({
       />
     );
   }
+  if (uiState.mcpElicitationRequest) {
+    return (
+      <McpElicitationDialog
+        request={uiState.mcpElicitationRequest.request}
+        onComplete={uiState.mcpElicitationRequest.onComplete}
+        terminalWidth={uiTerminalWidth}
+        availableHeight={
+          constrainHeight ? terminalHeight - staticExtraHeight : undefined
+        }
+      />
+    );
+  }
   if (uiState.confirmUpdateExtensionRequests.length > 0) {
     const request = uiState.confirmUpdateExtensionRequests[0];
     return (
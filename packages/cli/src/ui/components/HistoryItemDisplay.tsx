@@ -178,7 +178,10 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
       )}
       {itemForDisplay.type === 'tool_stats' && <ToolStatsDisplay />}
       {itemForDisplay.type === 'model' && (
-        <ModelMessage model={itemForDisplay.model} />
+        <ModelMessage
+          model={itemForDisplay.model}
+          provider={itemForDisplay.provider}
+        />
       )}
       {itemForDisplay.type === 'quit' && (
         <SessionSummaryDisplay duration={itemForDisplay.duration} />
@@ -18,6 +18,7 @@ import { useKeyMatchers } from '../hooks/useKeyMatchers.js';
 export interface HookEntry {
   config: {
     command?: string;
+    url?: string;
     type: string;
     name?: string;
     description?: string;
@@ -189,8 +190,11 @@ export const HooksDialog: React.FC<HooksDialogProps> = ({
 
               const hook = item.hook!;
               const hookName =
-                hook.config.name || hook.config.command || 'unknown';
-              const hookKey = `${item.eventName}:${hook.source}:${hook.config.name ?? ''}:${hook.config.command ?? ''}`;
+                hook.config.name ||
+                hook.config.command ||
+                hook.config.url ||
+                'unknown';
+              const hookKey = `${item.eventName}:${hook.source}:${hook.config.name ?? ''}:${hook.config.command ?? hook.config.url ?? ''}`;
               const statusColor = hook.enabled
                 ? theme.status.success
                 : theme.text.secondary;
@@ -215,6 +219,9 @@ export const HooksDialog: React.FC<HooksDialogProps> = ({
                       {hook.config.name &&
                         hook.config.command &&
                         ` | Command: ${hook.config.command}`}
+                      {hook.config.name &&
+                        hook.config.url &&
+                        ` | URL: ${hook.config.url}`}
                       {hook.matcher && ` | Matcher: ${hook.matcher}`}
                       {hook.sequential && ` | Sequential`}
                       {hook.config.timeout &&
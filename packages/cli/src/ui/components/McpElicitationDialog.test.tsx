@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act } from 'react';
+import {
+  MessageBusType,
+  QuestionType,
+  type McpElicitationRequest,
+} from '@google/gemini-cli-core';
+import { render } from '../../test-utils/render.js';
+import { McpElicitationDialog } from './McpElicitationDialog.js';
+import { AskUserDialog } from './AskUserDialog.js';
+import { ConsentPrompt } from './ConsentPrompt.js';
+
+vi.mock('./AskUserDialog.js', () => ({
+  AskUserDialog: vi.fn(() => null),
+}));
+
+vi.mock('./ConsentPrompt.js', () => ({
+  ConsentPrompt: vi.fn(() => null),
+}));
+
+const MockedAskUserDialog = vi.mocked(AskUserDialog);
+const MockedConsentPrompt = vi.mocked(ConsentPrompt);
+
+function createRequest(
+  properties: McpElicitationRequest['requestedSchema']['properties'],
+): McpElicitationRequest {
+  return {
+    type: MessageBusType.MCP_ELICITATION_REQUEST,
+    correlationId: 'corr-1',
+    serverName: 'github',
+    message: 'Which repository?',
+    requestedSchema: { type: 'object', properties },
+  };
+}
+
+describe('McpElicitationDialog', () => {
+  const onComplete = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the server name, message and schema-driven questions', async () => {
+    const { lastFrame, unmount } = await render(
+      <McpElicitationDialog
+        request={createRequest({ repo: { type: 'string', title: 'Repo' } })}
+        onComplete={onComplete}
+        terminalWidth={80}
+      />,
+    );
+
+    expect(lastFrame()).toContain('MCP server "github"');
+    expect(lastFrame()).toContain('Which repository?');
+    expect(MockedAskUserDialog.mock.calls[0][0].questions).toEqual([
+      expect.objectContaining({ type: QuestionType.TEXT, header: 'Repo' }),
+    ]);
+    unmount();
+  });
+
+  it('accepts with typed content when the form is submitted', async () => {
+    const { unmount } = await render(
+      <McpElicitationDialog
+        request={createRequest({
+          repo: { type: 'string' },
+          stars: { type: 'number' },
+        })}
+        onComplete={onComplete}
+        terminalWidth={80}
+      />,
+    );
+
+    await act(async () => {
+      MockedAskUserDialog.mock.calls[0][0].onSubmit({
+        '0': 'gemini-cli',
+        '1': '42',
+      });
+    });
+
+    expect(onComplete).toHaveBeenCalledWith({
+      action: 'accept',
+      content: { repo: 'gemini-cli', stars: 42 },
+    });
+    unmount();
+  });
+
+  it('cancels when the form is dismissed', async () => {
+    const { unmount } = await render(
+      <McpElicitationDialog
+        request={createRequest({ repo: { type: 'string' } })}
+        onComplete={onComplete}
+        terminalWidth={80}
+      />,
+    );
+
+    await act(async () => {
+      MockedAskUserDialog.mock.calls[0][0].onCancel();
+    });
+
+    expect(onComplete).toHaveBeenCalledWith({ action: 'cancel' });
+    unmount();
+  });
+
+  it('falls back to a confirmation when no fields are requested', async () => {
+    const { unmount } = await render(
+      <McpElicitationDialog
+        request={createRequest({})}
+        onComplete={onComplete}
+        terminalWidth={80}
+      />,
+    );
+
+    expect(MockedAskUserDialog).not.toHaveBeenCalled();
+    await act(async () => {
+      MockedConsentPrompt.mock.calls[0][0].onConfirm(false);
+    });
+
+    expect(onComplete).toHaveBeenCalledWith({ action: 'decline' });
+    unmount();
+  });
+});
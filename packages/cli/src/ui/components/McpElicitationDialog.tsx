@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useMemo } from 'react';
+import { Box, Text } from 'ink';
+import {
+  answersToElicitationContent,
+  elicitationSchemaToQuestions,
+} from '@google/gemini-cli-core';
+import { theme } from '../semantic-colors.js';
+import { AskUserDialog } from './AskUserDialog.js';
+import { ConsentPrompt } from './ConsentPrompt.js';
+import type { McpElicitationConfirmationRequest } from '../types.js';
+
+interface McpElicitationDialogProps {
+  request: McpElicitationConfirmationRequest['request'];
+  onComplete: McpElicitationConfirmationRequest['onComplete'];
+  terminalWidth: number;
+  availableHeight?: number;
+}
+
+export const McpElicitationDialog = ({
+  request,
+  onComplete,
+  terminalWidth,
+  availableHeight,
+}: McpElicitationDialogProps) => {
+  const questions = useMemo(
+    () => elicitationSchemaToQuestions(request.requestedSchema),
+    [request.requestedSchema],
+  );
+
+  const header = (
+    <Box flexDirection="column" marginBottom={1}>
+      <Text bold color={theme.text.accent}>
+        MCP server &quot;{request.serverName}&quot; is requesting information
+      </Text>
+      <Text wrap="wrap">{request.message}</Text>
+    </Box>
+  );
+
+  // Servers may elicit a plain confirmation without any fields.
+  if (questions.length === 0) {
+    return (
+      <ConsentPrompt
+        prompt={header}
+        onConfirm={(confirmed) =>
+          onComplete(
+            confirmed
+              ? { action: 'accept', content: {} }
+              : { action: 'decline' },
+          )
+        }
+        terminalWidth={terminalWidth}
+      />
+    );
+  }
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      paddingX={1}
+      width={terminalWidth}
+    >
+      {header}
+      <AskUserDialog
+        questions={questions}
+        onSubmit={(answers) =>
+          onComplete({
+            action: 'accept',
+            content: answersToElicitationContent(
+              request.requestedSchema,
+              answers,
+            ),
+          })
+        }
+        onCancel={() => onComplete({ action: 'cancel' })}
+        width={terminalWidth - 4}
+        availableHeight={availableHeight}
+      />
+    </Box>
+  );
+};
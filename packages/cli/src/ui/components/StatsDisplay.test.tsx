@@ -310,6 +310,33 @@ describe('<StatsDisplay />', () => {
 
       expect(output).toMatchSnapshot();
     });
+
+    it('lists models without a price under the cost', async () => {
+      const metrics = createTestMetrics({
+        models: {
+          'local-model': {
+            api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+            tokens: {
+              input: 100,
+              prompt: 100,
+              candidates: 100,
+              total: 200,
+              cached: 0,
+              thoughts: 0,
+              tool: 0,
+            },
+            roles: {},
+          },
+        },
+      });
+
+      const { lastFrame } = await renderWithMockedStats(metrics);
+      const output = lastFrame();
+
+      expect(output).toContain('Estimated Cost:');
+      expect(output).toContain('$0.00');
+      expect(output).toMatch(/Not Priced:\s+local-model/);
+    });
   });
 
   describe('Conditional Color Tests', () => {
@@ -24,7 +24,11 @@ import {
 import { computeSessionStats } from '../utils/computeStats.js';
 import { useSettings } from '../contexts/SettingsContext.js';
 import type { QuotaStats } from '../types.js';
-import { LlmRole } from '@google/gemini-cli-core';
+import {
+  LlmRole,
+  calculateSessionCost,
+  formatCost,
+} from '@google/gemini-cli-core';
 
 // A more flexible and powerful StatRow component
 interface StatRowProps {
@@ -253,6 +257,11 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
   const { tools, files, models } = metrics;
   const computed = computeSessionStats(metrics);
   const settings = useSettings();
+  const cost = calculateSessionCost(
+    metrics,
+    settings.merged.billing.pricing,
+    settings.merged.billing.currency,
+  );
 
   const showUserIdentity = settings.merged.ui.showUserIdentity;
 
@@ -366,6 +375,23 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
           )}
       </Section>
 
+      {Object.keys(models).length > 0 && (
+        <Section title="Cost">
+          <StatRow title="Estimated Cost:">
+            <Text color={theme.text.primary}>
+              {formatCost(cost.total, cost.currency)}
+            </Text>
+          </StatRow>
+          {cost.unpricedModels.length > 0 && (
+            <SubStatRow title="Not Priced:">
+              <Text color={theme.text.secondary}>
+                {cost.unpricedModels.join(', ')}
+              </Text>
+            </SubStatRow>
+          )}
+        </Section>
+      )}
+
       <Section title="Performance">
         <StatRow title="Wall Time:">
           <Text color={theme.text.primary}>{duration}</Text>
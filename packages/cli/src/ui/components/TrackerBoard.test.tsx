@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { act } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  TaskStatus,
+  TaskType,
+  TrackerService,
+  type TrackerTask,
+} from '@google/gemini-cli-core';
+import { waitFor } from '../../test-utils/async.js';
+import { renderWithProviders } from '../../test-utils/render.js';
+import {
+  TrackerBoard,
+  buildBlockerRows,
+  buildTrackerRows,
+} from './TrackerBoard.js';
+
+const createTask = (
+  id: string,
+  overrides: Partial<TrackerTask> = {},
+): TrackerTask => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  type: TaskType.TASK,
+  status: TaskStatus.OPEN,
+  dependencies: [],
+  ...overrides,
+});
+
+describe('buildTrackerRows', () => {
+  it('nests children under their parent and sorts by status', () => {
+    const rows = buildTrackerRows(
+      [
+        createTask('child1', { parentId: 'epic01' }),
+        createTask('epic01', { type: TaskType.EPIC }),
+        createTask('child2', {
+          parentId: 'epic01',
+          status: TaskStatus.IN_PROGRESS,
+        }),
+        createTask('orphan', { parentId: 'gone00' }),
+      ],
+      'all',
+    );
+
+    expect(rows.map(({ task, depth }) => [task.id, depth])).toEqual([
+      ['epic01', 0],
+      ['child2', 1],
+      ['child1', 1],
+      ['orphan', 0],
+    ]);
+  });
+
+  it('keeps the depth of matching tasks when filtering', () => {
+    const rows = buildTrackerRows(
+      [
+        createTask('epic01', { type: TaskType.EPIC }),
+        createTask('child1', {
+          parentId: 'epic01',
+          status: TaskStatus.BLOCKED,
+        }),
+      ],
+      TaskStatus.BLOCKED,
+    );
+
+    expect(rows.map(({ task, depth }) => [task.id, depth])).toEqual([
+      ['child1', 1],
+    ]);
+  });
+});
+
+describe('buildBlockerRows', () => {
+  it('returns unresolved dependencies transitively', () => {
+    const tasks = [
+      createTask('aaaaaa', { dependencies: ['bbbbbb', 'cccccc'] }),
+      createTask('bbbbbb', { dependencies: ['dddddd'] }),
+      createTask('cccccc', { status: TaskStatus.CLOSED }),
+      createTask('dddddd', { dependencies: ['aaaaaa'] }),
+    ];
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+
+    const rows = buildBlockerRows(tasks[0], byId);
+
+    expect(rows.map(({ id, depth }) => [id, depth])).toEqual([
+      ['bbbbbb', 0],
+      ['dddddd', 1],
+    ]);
+  });
+
+  it('reports missing dependencies', () => {
+    const task = createTask('aaaaaa', { dependencies: ['zzzzzz'] });
+    expect(buildBlockerRows(task, new Map([[task.id, task]]))).toEqual([
+      { id: 'zzzzzz', depth: 0, task: undefined },
+    ]);
+  });
+});
+
+describe('TrackerBoard', () => {
+  let trackerDir: string;
+  let service: TrackerService;
+
+  beforeEach(() => {
+    trackerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-board-'));
+    service = new TrackerService(trackerDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(trackerDir, { recursive: true, force: true });
+  });
+
+  const renderBoard = (onClose = vi.fn()) =>
+    act(async () =>
+      renderWithProviders(<TrackerBoard service={service} onClose={onClose} />),
+    );
+
+  it('shows an empty state', async () => {
+    const { lastFrame, unmount } = await renderBoard();
+
+    await waitFor(() => {
+      expect(lastFrame()).toContain('No tasks in the tracker.');
+    });
+    unmount();
+  });
+
+  it('lists tasks and shows what blocks the selected task', async () => {
+    const schema = await service.createTask({
+      title: 'Write schema',
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.OPEN,
+      dependencies: [],
+    });
+    await service.createTask({
+      title: 'Build API',
+      description: 'Expose the schema over HTTP',
+      type: TaskType.TASK,
+      status: TaskStatus.IN_PROGRESS,
+      dependencies: [schema.id],
+    });
+
+    const { lastFrame, unmount } = await renderBoard();
+
+    await waitFor(() => {
+      const frame = lastFrame();
+      expect(frame).toContain('Write schema');
+      expect(frame).toContain('Expose the schema over HTTP');
+      expect(frame).toContain('(waiting on 1)');
+      expect(frame).toContain('Blocked by:');
+      expect(frame).toContain(`${schema.id} Write schema`);
+    });
+    unmount();
+  });
+
+  it('changes the status of the selected task through the service', async () => {
+    const task = await service.createTask({
+      title: 'Write schema',
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.OPEN,
+      dependencies: [],
+    });
+    const { lastFrame, stdin, unmount, waitUntilReady } = await renderBoard();
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Write schema');
+    });
+
+    await act(async () => {
+      stdin.write('p');
+      await waitUntilReady();
+    });
+
+    await waitFor(async () => {
+      expect(lastFrame()).toContain(`Task ${task.id} is now in progress.`);
+      expect((await service.getTask(task.id))?.status).toBe(
+        TaskStatus.IN_PROGRESS,
+      );
+    });
+    unmount();
+  });
+
+  it('shows validation errors from the service', async () => {
+    const dep = await service.createTask({
+      title: 'Write schema',
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.OPEN,
+      dependencies: [],
+    });
+    const task = await service.createTask({
+      title: 'Build API',
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.IN_PROGRESS,
+      dependencies: [dep.id],
+    });
+    const { lastFrame, stdin, unmount, waitUntilReady } = await renderBoard();
+    await waitFor(() => {
+      expect(lastFrame()).toContain('› 🚧');
+    });
+
+    await act(async () => {
+      stdin.write('c');
+      await waitUntilReady();
+    });
+
+    await waitFor(() => {
+      expect(lastFrame()).toContain(
+        `Cannot close task ${task.id} because dependency ${dep.id} is still open.`,
+      );
+    });
+    expect((await service.getTask(task.id))?.status).toBe(
+      TaskStatus.IN_PROGRESS,
+    );
+    unmount();
+  });
+
+  it('filters tasks by status with tab', async () => {
+    await service.createTask({
+      title: 'Open work',
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.OPEN,
+      dependencies: [],
+    });
+    await service.createTask({
+      title: 'Done work',
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.CLOSED,
+      dependencies: [],
+    });
+    const { lastFrame, stdin, unmount, waitUntilReady } = await renderBoard();
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Done work');
+    });
+
+    await act(async () => {
+      stdin.write('\t');
+      await waitUntilReady();
+    });
+
+    await waitFor(() => {
+      const frame = lastFrame();
+      expect(frame).toContain('Open work');
+      expect(frame).not.toContain('Done work');
+    });
+    unmount();
+  });
+
+  it('calls onClose when escape is pressed', async () => {
+    const onClose = vi.fn();
+    const { stdin, unmount, waitUntilReady } = await renderBoard(onClose);
+
+    await act(async () => {
+      stdin.write('\u001b[27u');
+      await waitUntilReady();
+    });
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    unmount();
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Text } from 'ink';
+import {
+  TaskStatus,
+  TASK_TYPE_LABELS,
+  getErrorMessage,
+  type TrackerService,
+  type TrackerTask,
+} from '@google/gemini-cli-core';
+import { theme } from '../semantic-colors.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { Command } from '../key/keyMatchers.js';
+import { useKeyMatchers } from '../hooks/useKeyMatchers.js';
+
+export type TrackerFilter = 'all' | TaskStatus;
+
+const FILTERS: TrackerFilter[] = [
+  'all',
+  TaskStatus.OPEN,
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.BLOCKED,
+  TaskStatus.CLOSED,
+];
+
+export const TASK_STATUS_ICONS: Record<TaskStatus, string> = {
+  [TaskStatus.OPEN]: '⭕',
+  [TaskStatus.IN_PROGRESS]: '🚧',
+  [TaskStatus.BLOCKED]: '⛔',
+  [TaskStatus.CLOSED]: '✅',
+};
+
+const STATUS_KEYS: Record<string, TaskStatus> = {
+  o: TaskStatus.OPEN,
+  p: TaskStatus.IN_PROGRESS,
+  b: TaskStatus.BLOCKED,
+  c: TaskStatus.CLOSED,
+};
+
+const STATUS_ORDER: Record<TaskStatus, number> = {
+  [TaskStatus.IN_PROGRESS]: 0,
+  [TaskStatus.OPEN]: 1,
+  [TaskStatus.BLOCKED]: 2,
+  [TaskStatus.CLOSED]: 3,
+};
+
+export interface TrackerRow {
+  task: TrackerTask;
+  depth: number;
+}
+
+export interface BlockerRow {
+  /** The dependency, or undefined if it no longer exists in the tracker. */
+  task?: TrackerTask;
+  id: string;
+  depth: number;
+}
+
+function compareTasks(a: TrackerTask, b: TrackerTask): number {
+  if (STATUS_ORDER[a.status] !== STATUS_ORDER[b.status]) {
+    return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+  }
+  return a.id.localeCompare(b.id);
+}
+
+/**
+ * Flattens the parent/child hierarchy into display rows. Children are kept
+ * under their parent even when the parent is filtered out, so filtering never
+ * hides where a task sits in the plan.
+ */
+export function buildTrackerRows(
+  tasks: readonly TrackerTask[],
+  filter: TrackerFilter,
+): TrackerRow[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const childrenMap = new Map<string, TrackerTask[]>();
+  const roots: TrackerTask[] = [];
+  for (const task of tasks) {
+    if (task.parentId && ids.has(task.parentId)) {
+      const children = childrenMap.get(task.parentId) ?? [];
+      children.push(task);
+      childrenMap.set(task.parentId, children);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const rows: TrackerRow[] = [];
+  const visited = new Set<string>();
+  const addTask = (task: TrackerTask, depth: number) => {
+    if (visited.has(task.id)) {
+      return;
+    }
+    visited.add(task.id);
+    if (filter === 'all' || task.status === filter) {
+      rows.push({ task, depth });
+    }
+    const children = [...(childrenMap.get(task.id) ?? [])].sort(compareTasks);
+    for (const child of children) {
+      addTask(child, depth + 1);
+    }
+  };
+  for (const root of [...roots].sort(compareTasks)) {
+    addTask(root, 0);
+  }
+  return rows;
+}
+
+/**
+ * Returns the unresolved dependencies of a task as a tree: every dependency
+ * that is not closed, followed by whatever is in turn blocking it.
+ */
+export function buildBlockerRows(
+  task: TrackerTask,
+  tasksById: ReadonlyMap<string, TrackerTask>,
+): BlockerRow[] {
+  const rows: BlockerRow[] = [];
+  const visit = (current: TrackerTask, depth: number, path: Set<string>) => {
+    for (const depId of current.dependencies) {
+      const dep = tasksById.get(depId);
+      if (dep?.status === TaskStatus.CLOSED || path.has(depId)) {
+        continue;
+      }
+      rows.push({ task: dep, id: depId, depth });
+      if (dep) {
+        visit(dep, depth + 1, new Set(path).add(depId));
+      }
+    }
+  };
+  visit(task, 0, new Set([task.id]));
+  return rows;
+}
+
+function formatFilter(filter: TrackerFilter): string {
+  return filter === 'all' ? 'all' : filter.replace('_', ' ');
+}
+
+interface TrackerBoardProps {
+  service: TrackerService;
+  onClose: () => void;
+  /** Maximum number of tasks to display at once before scrolling. Default: 10 */
+  maxVisibleTasks?: number;
+}
+
+const DEFAULT_MAX_VISIBLE_TASKS = 10;
+
+/**
+ * Interactive board for the task tracker. Lists tasks by hierarchy, filters
+ * them by status, and re-statuses the selected task through
+ * `TrackerService.updateTask` so the same validation applies as for the model.
+ */
+export const TrackerBoard: React.FC<TrackerBoardProps> = ({
+  service,
+  onClose,
+  maxVisibleTasks = DEFAULT_MAX_VISIBLE_TASKS,
+}) => {
+  const keyMatchers = useKeyMatchers();
+  const [tasks, setTasks] = useState<TrackerTask[] | undefined>(undefined);
+  const [filter, setFilter] = useState<TrackerFilter>('all');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [notice, setNotice] = useState<
+    { type: 'error' | 'info'; text: string } | undefined
+  >(undefined);
+
+  const reload = useCallback(async () => {
+    try {
+      setTasks(await service.listTasks());
+    } catch (error) {
+      setTasks([]);
+      setNotice({
+        type: 'error',
+        text: `Failed to load tasks: ${getErrorMessage(error)}`,
+      });
+    }
+  }, [service]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const rows = useMemo(
+    () => buildTrackerRows(tasks ?? [], filter),
+    [tasks, filter],
+  );
+  const tasksById = useMemo(
+    () => new Map((tasks ?? []).map((task) => [task.id, task])),
+    [tasks],
+  );
+
+  const clampedIndex = Math.min(selectedIndex, Math.max(0, rows.length - 1));
+  const selected = rows[clampedIndex]?.task;
+
+  const updateStatus = useCallback(
+    async (task: TrackerTask, status: TaskStatus) => {
+      if (task.status === status) {
+        return;
+      }
+      try {
+        await service.updateTask(task.id, { status });
+        setNotice({
+          type: 'info',
+          text: `Task ${task.id} is now ${formatFilter(status)}.`,
+        });
+      } catch (error) {
+        setNotice({ type: 'error', text: getErrorMessage(error) });
+      }
+      await reload();
+    },
+    [service, reload],
+  );
+
+  useKeypress(
+    (key) => {
+      if (keyMatchers[Command.ESCAPE](key)) {
+        onClose();
+        return true;
+      }
+      if (keyMatchers[Command.DIALOG_NAVIGATION_UP](key)) {
+        setSelectedIndex(Math.max(0, clampedIndex - 1));
+        return true;
+      }
+      if (keyMatchers[Command.DIALOG_NAVIGATION_DOWN](key)) {
+        setSelectedIndex(Math.min(rows.length - 1, clampedIndex + 1));
+        return true;
+      }
+      if (
+        keyMatchers[Command.DIALOG_NEXT](key) ||
+        keyMatchers[Command.DIALOG_PREV](key)
+      ) {
+        const step = keyMatchers[Command.DIALOG_NEXT](key) ? 1 : -1;
+        setFilter(
+          (prev) =>
+            FILTERS[
+              (FILTERS.indexOf(prev) + step + FILTERS.length) % FILTERS.length
+            ],
+        );
+        setSelectedIndex(0);
+        return true;
+      }
+      if (key.sequence === 'r') {
+        setNotice(undefined);
+        void reload();
+        return true;
+      }
+      const status = STATUS_KEYS[key.sequence];
+      if (status && selected) {
+        void updateStatus(selected, status);
+        return true;
+      }
+      return false;
+    },
+    { isActive: true },
+  );
+
+  const scrollOffset = Math.min(
+    Math.max(0, clampedIndex - maxVisibleTasks + 1),
+    Math.max(0, rows.length - maxVisibleTasks),
+  );
+  const visibleRows = rows.slice(scrollOffset, scrollOffset + maxVisibleTasks);
+  const blockers = selected ? buildBlockerRows(selected, tasksById) : [];
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      padding={1}
+      marginY={1}
+      width="100%"
+    >
+      <Box marginBottom={1}>
+        <Text bold color={theme.text.accent}>
+          Task Tracker
+        </Text>
+        <Text color={theme.text.secondary}>{'  Filter: '}</Text>
+        {FILTERS.map((item) => (
+          <Text
+            key={item}
+            color={item === filter ? theme.text.accent : theme.text.secondary}
+            bold={item === filter}
+          >
+            {` ${formatFilter(item)} `}
+          </Text>
+        ))}
+      </Box>
+
+      {tasks === undefined ? (
+        <Text color={theme.text.secondary}>Loading tasks...</Text>
+      ) : rows.length === 0 ? (
+        <Text color={theme.text.primary}>
+          {tasks.length === 0
+            ? 'No tasks in the tracker.'
+            : `No ${formatFilter(filter)} tasks.`}
+        </Text>
+      ) : (
+        <>
+          {scrollOffset > 0 && (
+            <Text color={theme.text.secondary}>{'  ▲'}</Text>
+          )}
+          {visibleRows.map(({ task, depth }) => {
+            const isSelected = task.id === selected?.id;
+            const openDeps = task.dependencies.filter(
+              (id) => tasksById.get(id)?.status !== TaskStatus.CLOSED,
+            ).length;
+            return (
+              <Box key={task.id} flexDirection="row">
+                <Text color={isSelected ? theme.text.accent : undefined}>
+                  {isSelected ? '› ' : '  '}
+                  {'  '.repeat(depth)}
+                  {TASK_STATUS_ICONS[task.status]} {task.id}{' '}
+                  {TASK_TYPE_LABELS[task.type]}{' '}
+                </Text>
+                <Text
+                  color={
+                    isSelected
+                      ? theme.text.accent
+                      : task.status === TaskStatus.CLOSED
+                        ? theme.text.secondary
+                        : theme.text.primary
+                  }
+                  bold={isSelected}
+                  wrap="truncate"
+                >
+                  {task.title}
+                </Text>
+                {openDeps > 0 && (
+                  <Text color={theme.status.warning}>
+                    {` (waiting on ${openDeps})`}
+                  </Text>
+                )}
+              </Box>
+            );
+          })}
+          {scrollOffset + maxVisibleTasks < rows.length && (
+            <Text color={theme.text.secondary}>{'  ▼'}</Text>
+          )}
+        </>
+      )}
+
+      {selected && (
+        <Box
+          marginTop={1}
+          flexDirection="column"
+          borderStyle="single"
+          borderColor={theme.border.default}
+          paddingX={1}
+        >
+          <Text bold color={theme.text.primary}>
+            {selected.title}
+          </Text>
+          {selected.description && (
+            <Text color={theme.text.secondary} wrap="wrap">
+              {selected.description}
+            </Text>
+          )}
+          <Text color={theme.text.secondary}>
+            Status: {formatFilter(selected.status)}
+            {selected.parentId && ` | Parent: ${selected.parentId}`}
+            {selected.subagentSessionId &&
+              ` | Subagent session: ${selected.subagentSessionId}`}
+          </Text>
+          {selected.dependencies.length > 0 && (
+            <Text color={theme.text.secondary} wrap="wrap">
+              Depends on:{' '}
+              {selected.dependencies
+                .map((id) => {
+                  const dep = tasksById.get(id);
+                  return dep
+                    ? `${TASK_STATUS_ICONS[dep.status]} ${id}`
+                    : `${id} (missing)`;
+                })
+                .join(', ')}
+            </Text>
+          )}
+          {blockers.length > 0 && (
+            <Box marginTop={1} flexDirection="column">
+              <Text color={theme.status.warning}>Blocked by:</Text>
+              {blockers.map((blocker, index) => (
+                <Text
+                  key={`${blocker.id}-${index}`}
+                  color={theme.text.secondary}
+                  wrap="truncate"
+                >
+                  {'  '.repeat(blocker.depth + 1)}
+                  {blocker.task
+                    ? `${TASK_STATUS_ICONS[blocker.task.status]} ${blocker.id} ${blocker.task.title}`
+                    : `${blocker.id} (missing)`}
+                </Text>
+              ))}
+            </Box>
+          )}
+        </Box>
+      )}
+
+      {notice && (
+        <Box marginTop={1}>
+          <Text
+            color={
+              notice.type === 'error'
+                ? theme.status.error
+                : theme.status.success
+            }
+            wrap="wrap"
+          >
+            {notice.text}
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color={theme.text.secondary} wrap="wrap">
+          ↑/↓ select · Tab filter · o open · p in progress · b blocked · c
+          closed · r refresh · Esc close
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { renderWithProviders } from '../../../test-utils/render.js';
+import { waitFor } from '../../../test-utils/async.js';
+import { act } from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DiffHunkReview, toSplitRows } from './DiffHunkReview.js';
+
+const writeKey = (stdin: { write: (data: string) => void }, key: string) => {
+  act(() => {
+    stdin.write(key);
+  });
+};
+
+const lines = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+const ORIGINAL = lines.join('\n') + '\n';
+const PROPOSED =
+  lines
+    .map((line, i) => (i === 1 ? 'changed2' : i === 17 ? 'changed18' : line))
+    .join('\n') + '\n';
+
+describe('DiffHunkReview', () => {
+  const onApply = vi.fn();
+  const onReject = vi.fn();
+  const onCancel = vi.fn();
+
+  const renderReview = (originalContent = ORIGINAL, newContent = PROPOSED) =>
+    renderWithProviders(
+      <DiffHunkReview
+        fileName="file.txt"
+        originalContent={originalContent}
+        newContent={newContent}
+        onApply={onApply}
+        onReject={onReject}
+        onCancel={onCancel}
+        terminalWidth={80}
+      />,
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the first hunk and the review keys', async () => {
+    const { lastFrame, unmount } = await renderReview();
+
+    const output = lastFrame() ?? '';
+    expect(output).toContain('Hunk 1 of 2');
+    expect(output).toContain('changed2');
+    expect(output).not.toContain('changed18');
+    expect(output).toContain('r to reject');
+    unmount();
+  });
+
+  it('should apply the full change when every hunk is accepted', async () => {
+    const { stdin, unmount } = await renderReview();
+
+    writeKey(stdin, '\r');
+
+    await waitFor(() => {
+      expect(onApply).toHaveBeenCalledWith({
+        newContent: PROPOSED,
+        rejectedHunks: undefined,
+      });
+    });
+    unmount();
+  });
+
+  it('should leave rejected hunks out and report them', async () => {
+    const { stdin, lastFrame, unmount } = await renderReview();
+
+    writeKey(stdin, 'r');
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Hunk 2 of 2');
+    });
+    writeKey(stdin, '\r');
+
+    await waitFor(() => {
+      expect(onApply).toHaveBeenCalledTimes(1);
+    });
+    const payload = onApply.mock.calls[0][0];
+    expect(payload.newContent).toContain('line2\n');
+    expect(payload.newContent).toContain('changed18\n');
+    expect(payload.rejectedHunks).toHaveLength(1);
+    expect(payload.rejectedHunks[0]).toContain('+changed2');
+    unmount();
+  });
+
+  it('should reject the change when every hunk is rejected', async () => {
+    const { stdin, lastFrame, unmount } = await renderReview();
+
+    writeKey(stdin, 'r');
+    await waitFor(() => {
+      expect(lastFrame()).toContain('Hunk 2 of 2');
+    });
+    writeKey(stdin, 'r');
+    await waitFor(() => {
+      expect(lastFrame()).toContain('✗✗');
+    });
+    writeKey(stdin, '\r');
+
+    await waitFor(() => {
+      expect(onReject).toHaveBeenCalled();
+    });
+    expect(onApply).not.toHaveBeenCalled();
+    unmount();
+  });
+
+  it('should switch to the side-by-side view', async () => {
+    const { stdin, lastFrame, unmount } = await renderReview();
+
+    writeKey(stdin, 's');
+
+    await waitFor(() => {
+      expect(lastFrame()).toContain('│');
+    });
+    expect(lastFrame()).toContain('for unified view');
+    unmount();
+  });
+
+  it('should call onCancel on escape', async () => {
+    const { stdin, unmount } = await renderReview();
+
+    writeKey(stdin, '\x1b');
+
+    await waitFor(() => {
+      expect(onCancel).toHaveBeenCalled();
+    });
+    unmount();
+  });
+
+  it('should still call onCancel on escape when there are no hunks', async () => {
+    const { stdin, lastFrame, unmount } = await renderReview(
+      ORIGINAL,
+      ORIGINAL,
+    );
+    expect(lastFrame()).toContain('No changes to review.');
+
+    writeKey(stdin, '\r');
+    writeKey(stdin, '\x1b');
+
+    await waitFor(() => {
+      expect(onCancel).toHaveBeenCalled();
+    });
+    expect(onApply).not.toHaveBeenCalled();
+    expect(onReject).not.toHaveBeenCalled();
+    unmount();
+  });
+});
+
+describe('toSplitRows', () => {
+  it('should pair removed and added lines', () => {
+    const rows = toSplitRows('@@ -1,3 +1,3 @@\n a\n-b\n+c\n d');
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toEqual({
+      left: { lineNumber: 2, content: 'b', changed: true },
+      right: { lineNumber: 2, content: 'c', changed: true },
+    });
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useCallback, useMemo, useState } from 'react';
+import { Box, Text } from 'ink';
+import {
+  applyDiffHunks,
+  formatDiffHunk,
+  getDiffHunkNewText,
+  getDiffHunks,
+  type DiffHunkDecision,
+  type ToolEditConfirmationPayload,
+} from '@google/gemini-cli-core';
+import { DiffRenderer, parseDiffWithLineNumbers } from './DiffRenderer.js';
+import { TextInput } from '../shared/TextInput.js';
+import { useTextBuffer } from '../shared/text-buffer.js';
+import { MaxSizedBox } from '../shared/MaxSizedBox.js';
+import { DialogFooter } from '../shared/DialogFooter.js';
+import { useKeypress } from '../../hooks/useKeypress.js';
+import { useKeyMatchers } from '../../hooks/useKeyMatchers.js';
+import { Command } from '../../key/keyMatchers.js';
+import { theme } from '../../semantic-colors.js';
+import { stripUnsafeCharacters } from '../../utils/textUtils.js';
+
+type DiffHunk = ReturnType<typeof getDiffHunks>[number];
+
+export type DiffHunkLayout = 'unified' | 'split';
+
+export interface DiffHunkReviewProps {
+  fileName: string;
+  originalContent: string | null;
+  newContent: string;
+  /** Called with the content to write when at least one hunk is kept */
+  onApply: (payload: ToolEditConfirmationPayload) => void;
+  /** Called when every hunk was rejected */
+  onReject: () => void;
+  /** Called to leave the review without deciding */
+  onCancel: () => void;
+  terminalWidth: number;
+  availableHeight?: number;
+  isFocused?: boolean;
+}
+
+// Header line, its margin, and the footer with its margin.
+const CHROME_HEIGHT = 4;
+const EDITOR_HEIGHT = 8;
+
+const STATUS_SYMBOLS: Record<DiffHunkDecision['status'], string> = {
+  accepted: '✓',
+  rejected: '✗',
+  edited: '✎',
+};
+
+function getStatusColor(status: DiffHunkDecision['status']): string {
+  switch (status) {
+    case 'accepted':
+      return theme.status.success;
+    case 'rejected':
+      return theme.status.error;
+    default:
+      return theme.status.warning;
+  }
+}
+
+/**
+ * Returns the diff shown for a hunk, reflecting any inline edit. Line numbers
+ * stay relative to the whole file.
+ */
+function getHunkDiff(hunk: DiffHunk, decision: DiffHunkDecision): string {
+  if (decision.status !== 'edited') {
+    return formatDiffHunk(hunk);
+  }
+  const oldText = hunk.lines
+    .filter((line) => line.startsWith(' ') || line.startsWith('-'))
+    .map((line) => line.slice(1))
+    .join('\n');
+  return getDiffHunks(oldText, decision.newText)
+    .map((editedHunk) =>
+      formatDiffHunk({
+        ...editedHunk,
+        oldStart: editedHunk.oldStart + hunk.oldStart - 1,
+        newStart: editedHunk.newStart + hunk.newStart - 1,
+      }),
+    )
+    .join('\n');
+}
+
+interface SplitCell {
+  lineNumber?: number;
+  content: string;
+  changed: boolean;
+}
+
+interface SplitRow {
+  left?: SplitCell;
+  right?: SplitCell;
+}
+
+/**
+ * Pairs the removed and added lines of a hunk so they can be shown in two
+ * columns.
+ */
+export function toSplitRows(diff: string): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: SplitCell[] = [];
+  let added: SplitCell[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of parseDiffWithLineNumbers(diff)) {
+    if (line.type === 'del') {
+      removed.push({
+        lineNumber: line.oldLine,
+        content: line.content,
+        changed: true,
+      });
+    } else if (line.type === 'add') {
+      added.push({
+        lineNumber: line.newLine,
+        content: line.content,
+        changed: true,
+      });
+    } else if (line.type === 'context') {
+      flush();
+      rows.push({
+        left: {
+          lineNumber: line.oldLine,
+          content: line.content,
+          changed: false,
+        },
+        right: {
+          lineNumber: line.newLine,
+          content: line.content,
+          changed: false,
+        },
+      });
+    }
+  }
+  flush();
+  return rows;
+}
+
+const SplitDiff: React.FC<{
+  diff: string;
+  width: number;
+  availableHeight?: number;
+}> = ({ diff, width, availableHeight }) => {
+  const rows = useMemo(() => toSplitRows(diff), [diff]);
+  const columnWidth = Math.max(Math.floor((width - 3) / 2), 1);
+  const gutterWidth = Math.max(
+    ...rows.flatMap((row) => [
+      String(row.left?.lineNumber ?? '').length,
+      String(row.right?.lineNumber ?? '').length,
+    ]),
+    1,
+  );
+
+  const renderCell = (cell: SplitCell | undefined, changedColor: string) => (
+    <Box width={columnWidth}>
+      <Text
+        wrap="truncate"
+        backgroundColor={cell?.changed ? changedColor : undefined}
+        color={theme.text.primary}
+      >
+        {cell
+          ? `${String(cell.lineNumber ?? '').padStart(gutterWidth)} ${cell.content}`
+          : ''}
+      </Text>
+    </Box>
+  );
+
+  return (
+    <MaxSizedBox maxHeight={availableHeight} maxWidth={width}>
+      {rows.map((row, index) => (
+        <Box key={index} flexDirection="row">
+          {renderCell(row.left, theme.background.diff.removed)}
+          <Text color={theme.border.default}> │ </Text>
+          {renderCell(row.right, theme.background.diff.added)}
+        </Box>
+      ))}
+    </MaxSizedBox>
+  );
+};
+
+const HunkEditor: React.FC<{
+  initialText: string;
+  width: number;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}> = ({ initialText, width, onSubmit, onCancel }) => {
+  const buffer = useTextBuffer({
+    initialText,
+    viewport: { width: Math.max(width - 2, 1), height: EDITOR_HEIGHT },
+    singleLine: false,
+  });
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      paddingX={1}
+      width={width}
+    >
+      <TextInput buffer={buffer} onSubmit={onSubmit} onCancel={onCancel} />
+    </Box>
+  );
+};
+
+/**
+ * Lets the user accept, reject, or edit each hunk of a proposed file change
+ * before it is written.
+ */
+export const DiffHunkReview: React.FC<DiffHunkReviewProps> = ({
+  fileName,
+  originalContent,
+  newContent,
+  onApply,
+  onReject,
+  onCancel,
+  terminalWidth,
+  availableHeight,
+  isFocused = true,
+}) => {
+  const keyMatchers = useKeyMatchers();
+  const hunks = useMemo(
+    () => getDiffHunks(originalContent ?? '', newContent),
+    [originalContent, newContent],
+  );
+  const [decisions, setDecisions] = useState<DiffHunkDecision[]>(() =>
+    hunks.map(() => ({ status: 'accepted' })),
+  );
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [layout, setLayout] = useState<DiffHunkLayout>('unified');
+  const [isEditing, setIsEditing] = useState(false);
+
+  const activeHunk = hunks[activeIndex];
+  const activeDecision = decisions[activeIndex];
+
+  const decide = useCallback(
+    (decision: DiffHunkDecision) => {
+      setDecisions((prev) =>
+        prev.map((d, i) => (i === activeIndex ? decision : d)),
+      );
+      setActiveIndex((i) => Math.min(i + 1, hunks.length - 1));
+    },
+    [activeIndex, hunks.length],
+  );
+
+  const submit = useCallback(() => {
+    if (decisions.every((d) => d.status === 'rejected')) {
+      onReject();
+      return;
+    }
+    const rejectedHunks = hunks
+      .filter((_, i) => decisions[i].status === 'rejected')
+      .map(formatDiffHunk);
+    onApply({
+      newContent: applyDiffHunks(
+        originalContent ?? '',
+        newContent,
+        hunks,
+        decisions,
+      ),
+      rejectedHunks: rejectedHunks.length > 0 ? rejectedHunks : undefined,
+    });
+  }, [decisions, hunks, originalContent, newContent, onApply, onReject]);
+
+  const editorText = useMemo(() => {
+    if (!activeHunk) return '';
+    if (activeDecision.status === 'edited') return activeDecision.newText;
+    return getDiffHunkNewText(newContent, activeHunk)
+      .replace(/\r\n/g, '\n')
+      .replace(/\n$/, '');
+  }, [activeHunk, activeDecision, newContent]);
+
+  const handleEditSubmit = useCallback(
+    (text: string) => {
+      setIsEditing(false);
+      decide(
+        text === editorText && activeDecision.status !== 'edited'
+          ? { status: 'accepted' }
+          : { status: 'edited', newText: text },
+      );
+    },
+    [decide, editorText, activeDecision],
+  );
+
+  useKeypress(
+    (key) => {
+      if (keyMatchers[Command.ESCAPE](key)) {
+        onCancel();
+        return true;
+      }
+      if (!activeHunk) {
+        return false;
+      }
+      if (keyMatchers[Command.RETURN](key)) {
+        submit();
+        return true;
+      }
+      if (keyMatchers[Command.DIALOG_NAVIGATION_UP](key)) {
+        setActiveIndex((i) => Math.max(i - 1, 0));
+        return true;
+      }
+      if (keyMatchers[Command.DIALOG_NAVIGATION_DOWN](key)) {
+        setActiveIndex((i) => Math.min(i + 1, hunks.length - 1));
+        return true;
+      }
+      switch (key.sequence) {
+        case 'a':
+          decide({ status: 'accepted' });
+          return true;
+        case 'r':
+          decide({ status: 'rejected' });
+          return true;
+        case 'e':
+          setIsEditing(true);
+          return true;
+        case 's':
+          setLayout((l) => (l === 'unified' ? 'split' : 'unified'));
+          return true;
+        default:
+          return false;
+      }
+    },
+    { isActive: isFocused && !isEditing, priority: true },
+  );
+
+  if (!activeHunk) {
+    return (
+      <Box>
+        <Text color={theme.text.secondary}>No changes to review.</Text>
+      </Box>
+    );
+  }
+
+  const bodyHeight =
+    availableHeight !== undefined
+      ? Math.max(availableHeight - CHROME_HEIGHT, 2)
+      : undefined;
+  const diff = stripUnsafeCharacters(getHunkDiff(activeHunk, activeDecision));
+
+  return (
+    <Box flexDirection="column" width={terminalWidth}>
+      <Box marginBottom={1}>
+        <Text color={theme.text.primary}>
+          Hunk {activeIndex + 1} of {hunks.length}{' '}
+        </Text>
+        {decisions.map((decision, index) => (
+          <Text
+            key={index}
+            color={getStatusColor(decision.status)}
+            bold={index === activeIndex}
+            underline={index === activeIndex}
+          >
+            {STATUS_SYMBOLS[decision.status]}
+          </Text>
+        ))}
+      </Box>
+
+      {isEditing ? (
+        <HunkEditor
+          initialText={editorText}
+          width={terminalWidth}
+          onSubmit={handleEditSubmit}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : layout === 'split' ? (
+        <SplitDiff
+          diff={diff}
+          width={terminalWidth}
+          availableHeight={bodyHeight}
+        />
+      ) : (
+        <DiffRenderer
+          diffContent={diff}
+          filename={fileName}
+          availableTerminalHeight={bodyHeight}
+          terminalWidth={terminalWidth}
+        />
+      )}
+
+      {isEditing ? (
+        <DialogFooter
+          primaryAction="Enter to save hunk"
+          cancelAction="Esc to discard edit"
+        />
+      ) : (
+        <DialogFooter
+          primaryAction="Enter to apply"
+          navigationActions="↑/↓ to switch hunks"
+          extraParts={[
+            'a to accept',
+            'r to reject',
+            'e to edit',
+            `s for ${layout === 'unified' ? 'side-by-side' : 'unified'} view`,
+          ]}
+          cancelAction="Esc to go back"
+        />
+      )}
+    </Box>
+  );
+};
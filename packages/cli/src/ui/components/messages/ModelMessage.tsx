@@ -11,12 +11,17 @@ import { getDisplayString } from '@google/gemini-cli-core';
 
 interface ModelMessageProps {
   model: string;
+  provider?: string;
 }
 
-export const ModelMessage: React.FC<ModelMessageProps> = ({ model }) => (
+export const ModelMessage: React.FC<ModelMessageProps> = ({
+  model,
+  provider,
+}) => (
   <Box marginLeft={2}>
     <Text color={theme.ui.comment} italic>
       Responding with {getDisplayString(model)}
+      {provider ? ` via ${provider}` : ''}
     </Text>
   </Box>
 );
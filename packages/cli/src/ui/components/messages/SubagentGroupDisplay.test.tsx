@@ -124,4 +124,49 @@ describe('<SubagentGroupDisplay />', () => {
       expect(lastFrame()).toContain('(ctrl+o to expand)');
     });
   });
+
+  it('renders one row per fan-out input and counts queued inputs', async () => {
+    const fanOutCall: IndividualToolCallDisplay = {
+      callId: 'call-fan-out',
+      name: 'invoke_agent',
+      description: "Delegating 3 tasks to agent 'reviewer'",
+      confirmationDetails: undefined,
+      status: CoreToolCallStatus.Executing,
+      kind: Kind.Agent,
+      resultDisplay: {
+        isSubagentFanOutProgress: true,
+        agentName: 'reviewer',
+        items: [
+          {
+            input: 'packages/core',
+            progress: {
+              isSubagentProgress: true,
+              agentName: 'reviewer',
+              state: 'completed',
+              result: 'No issues',
+              recentActivity: [],
+            },
+          },
+          {
+            input: 'packages/cli',
+            progress: {
+              isSubagentProgress: true,
+              agentName: 'reviewer',
+              state: 'running',
+              recentActivity: [],
+            },
+          },
+          { input: 'packages/sdk' },
+        ],
+      },
+    };
+
+    const { lastFrame } = await renderSubagentGroup([fanOutCall], 40);
+    const frame = lastFrame();
+    expect(frame).toContain('3 Agents (1 running, 1 completed, 1 queued)...');
+    expect(frame).toContain('reviewer (packages/core)');
+    expect(frame).toContain('reviewer (packages/cli)');
+    expect(frame).toContain('reviewer (packages/sdk)');
+    expect(frame).toContain('Queued');
+  });
 });
@@ -11,6 +11,7 @@ import { theme } from '../../semantic-colors.js';
 import type { IndividualToolCallDisplay } from '../../types.js';
 import {
   isSubagentProgress,
+  isSubagentFanOutProgress,
   checkExhaustive,
   type SubagentActivityItem,
 } from '@google/gemini-cli-core';
@@ -30,8 +31,47 @@ export interface SubagentGroupDisplayProps {
   isExpandable?: boolean;
 }
 
+const FAN_OUT_LABEL_MAX_LENGTH = 40;
+
+/**
+ * Expands `invoke_agent` calls that fan out over several inputs into one row
+ * per input, so they render like parallel agent calls. Inputs that haven't
+ * started yet are returned as queued.
+ */
+function expandFanOutCalls(toolCalls: IndividualToolCallDisplay[]): {
+  rows: IndividualToolCallDisplay[];
+  queuedIds: Set<string>;
+} {
+  const queuedIds = new Set<string>();
+  const rows = toolCalls.flatMap((toolCall) => {
+    const display = toolCall.resultDisplay;
+    if (!isSubagentFanOutProgress(display)) {
+      return [toolCall];
+    }
+    return display.items.map((item, index) => {
+      const input =
+        item.input.length > FAN_OUT_LABEL_MAX_LENGTH
+          ? `${item.input.slice(0, FAN_OUT_LABEL_MAX_LENGTH)}...`
+          : item.input;
+      const label = `${display.agentName} (${input})`;
+      const callId = `${toolCall.callId}-${index}`;
+      if (!item.progress) {
+        queuedIds.add(callId);
+      }
+      return {
+        ...toolCall,
+        callId,
+        name: label,
+        resultDisplay: item.progress && { ...item.progress, agentName: label },
+        subagentHistory: undefined,
+      };
+    });
+  });
+  return { rows, queuedIds };
+}
+
 export const SubagentGroupDisplay: React.FC<SubagentGroupDisplayProps> = ({
-  toolCalls,
+  toolCalls: groupToolCalls,
   availableTerminalHeight,
   terminalWidth,
   borderColor,
@@ -57,6 +97,7 @@ export const SubagentGroupDisplay: React.FC<SubagentGroupDisplayProps> = ({
     };
   }, [isExpandable, overflowActions, overflowId]);
 
+  const { rows: toolCalls, queuedIds } = expandFanOutCalls(groupToolCalls);
   if (toolCalls.length === 0) {
     return null;
   }
@@ -85,9 +126,12 @@ export const SubagentGroupDisplay: React.FC<SubagentGroupDisplayProps> = ({
   } else {
     let completedCount = 0;
     let runningCount = 0;
+    let queuedCount = 0;
     for (const tc of toolCalls) {
       const progress = tc.resultDisplay;
-      if (isSubagentProgress(progress)) {
+      if (queuedIds.has(tc.callId)) {
+        queuedCount++;
+      } else if (isSubagentProgress(progress)) {
         if (progress.state === 'completed') completedCount++;
         else if (progress.state === 'running') runningCount++;
       } else {
@@ -98,6 +142,8 @@ export const SubagentGroupDisplay: React.FC<SubagentGroupDisplayProps> = ({
 
     if (completedCount === toolCalls.length) {
       headerText = `${toolCalls.length} Agents Completed`;
+    } else if (queuedCount > 0) {
+      headerText = `${toolCalls.length} Agents (${runningCount} running, ${completedCount} completed, ${queuedCount} queued)...`;
     } else if (completedCount > 0) {
       headerText = `${toolCalls.length} Agents (${runningCount} running, ${completedCount} completed)...`;
     } else {
@@ -162,12 +208,15 @@ export const SubagentGroupDisplay: React.FC<SubagentGroupDisplayProps> = ({
 
         if (!isSubagentProgress(progress)) {
           const agentName = toolCall.name || 'agent';
+          const statusText = queuedIds.has(toolCall.callId)
+            ? 'Queued'
+            : 'Starting...';
           if (!isExpanded) {
             return renderCollapsedRow(
               toolCall.callId,
               agentName,
               <Text color={theme.text.primary}>!</Text>,
-              'Starting...',
+              statusText,
             );
           } else {
             return (
@@ -184,7 +233,7 @@ export const SubagentGroupDisplay: React.FC<SubagentGroupDisplayProps> = ({
                   </Text>
                 </Box>
                 <Box marginLeft={2}>
-                  <Text color={theme.text.secondary}>Starting...</Text>
+                  <Text color={theme.text.secondary}>{statusText}</Text>
                 </Box>
               </Box>
             );
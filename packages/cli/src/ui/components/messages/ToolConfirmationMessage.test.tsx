@@ -15,6 +15,7 @@ import {
 import { renderWithProviders } from '../../../test-utils/render.js';
 import { createMockSettings } from '../../../test-utils/settings.js';
 import { useToolActions } from '../../contexts/ToolActionsContext.js';
+import { waitFor } from '../../../test-utils/async.js';
 import { act } from 'react';
 
 vi.mock('../../contexts/ToolActionsContext.js', async (importOriginal) => {
@@ -559,6 +560,129 @@ describe('ToolConfirmationMessage', () => {
     });
   });
 
+  it('should only offer allow once and reject for edits that cannot be modified', async () => {
+    const confirmationDetails: SerializableConfirmationDetails = {
+      type: 'edit',
+      title: 'Merge changes from worker?',
+      fileName: 'worker-1',
+      filePath: '/tmp/worktrees/worker-1',
+      fileDiff: '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+b',
+      originalContent: null,
+      newContent: '',
+      isModifiable: false,
+    };
+
+    const { lastFrame, unmount } = await renderWithProviders(
+      <ToolConfirmationMessage
+        callId="test-call-id"
+        confirmationDetails={confirmationDetails}
+        config={mockConfig}
+        getPreferredEditor={vi.fn()}
+        availableTerminalHeight={30}
+        terminalWidth={80}
+        toolName="merge_worktree"
+      />,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain('Allow once');
+    expect(output).toContain('No, suggest changes (esc)');
+    expect(output).not.toContain('Allow for this session');
+    expect(output).not.toContain('Allow for this file in all future sessions');
+    expect(output).not.toContain('Modify with external editor');
+    unmount();
+  });
+
+  describe('Review changes hunk by hunk option', () => {
+    const editConfirmationDetails: SerializableConfirmationDetails = {
+      type: 'edit',
+      title: 'Confirm Edit',
+      fileName: 'test.txt',
+      filePath: '/test.txt',
+      fileDiff: '...diff...',
+      originalContent: 'a\n',
+      newContent: 'b\n',
+    };
+
+    it('should open the hunk review and apply the reviewed content', async () => {
+      const mockConfirm = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(useToolActions).mockReturnValue({
+        confirm: mockConfirm,
+        cancel: vi.fn(),
+        isDiffingEnabled: false,
+        isExpanded: vi.fn().mockReturnValue(false),
+        toggleExpansion: vi.fn(),
+        toggleAllExpansion: vi.fn(),
+      });
+
+      const { stdin, lastFrame, unmount } = await renderWithProviders(
+        <ToolConfirmationMessage
+          callId="test-call-id"
+          confirmationDetails={editConfirmationDetails}
+          config={mockConfig}
+          getPreferredEditor={vi.fn()}
+          availableTerminalHeight={30}
+          terminalWidth={80}
+          toolName="replace"
+        />,
+      );
+
+      for (let i = 0; i < 3; i++) {
+        act(() => {
+          stdin.write('\x1b[B');
+        });
+      }
+      act(() => {
+        stdin.write('\r');
+      });
+
+      await waitFor(() => {
+        expect(lastFrame()).toContain('Hunk 1 of 1');
+      });
+      expect(mockConfirm).not.toHaveBeenCalled();
+
+      act(() => {
+        stdin.write('\r');
+      });
+
+      await waitFor(() => {
+        expect(mockConfirm).toHaveBeenCalledWith(
+          'test-call-id',
+          ToolConfirmationOutcome.ProceedOnce,
+          { newContent: 'b\n', rejectedHunks: undefined },
+        );
+      });
+      unmount();
+    });
+
+    it.each([
+      {
+        name: 'the change has no hunks',
+        details: { ...editConfirmationDetails, newContent: 'a\n' },
+      },
+      {
+        name: 'the tool cannot be modified',
+        details: { ...editConfirmationDetails, isModifiable: false },
+      },
+    ])('should not offer the hunk review when $name', async ({ details }) => {
+      const { lastFrame, unmount } = await renderWithProviders(
+        <ToolConfirmationMessage
+          callId="test-call-id"
+          confirmationDetails={details}
+          config={mockConfig}
+          getPreferredEditor={vi.fn()}
+          availableTerminalHeight={30}
+          terminalWidth={80}
+          toolName="replace"
+        />,
+      );
+
+      expect(lastFrame()).toContain('Allow once');
+      expect(lastFrame()).not.toContain('Review changes hunk by hunk');
+      unmount();
+    });
+  });
+
   it('should strip BiDi characters from MCP tool and server names', async () => {
     const confirmationDetails: ToolCallConfirmationDetails = {
       type: 'mcp',
@@ -8,6 +8,7 @@ import type React from 'react';
 import { useEffect, useMemo, useCallback, useState, useRef } from 'react';
 import { Box, Text, ResizeObserver, type DOMElement } from 'ink';
 import { DiffRenderer } from './DiffRenderer.js';
+import { DiffHunkReview } from './DiffHunkReview.js';
 import { RenderInline } from '../../utils/InlineMarkdownRenderer.js';
 import {
   type SerializableConfirmationDetails,
@@ -18,6 +19,7 @@ import {
   ApprovalMode,
   hasRedirection,
   debugLogger,
+  getDiffHunks,
 } from '@google/gemini-cli-core';
 import { useToolActions } from '../../contexts/ToolActionsContext.js';
 import {
@@ -47,6 +49,10 @@ import {
 import { useKeyMatchers } from '../../hooks/useKeyMatchers.js';
 import { isShellTool } from './ToolShared.js';
 
+// Opens the per-hunk review instead of resolving the confirmation.
+const REVIEW_HUNKS = 'review_hunks';
+type ConfirmationChoice = ToolConfirmationOutcome | typeof REVIEW_HUNKS;
+
 export interface ToolConfirmationMessageProps {
   callId: string;
   confirmationDetails: SerializableConfirmationDetails;
@@ -80,6 +86,7 @@ export const ToolConfirmationMessage: React.FC<
     expanded: false,
   });
   const [isCancelling, setIsCancelling] = useState(false);
+  const [isReviewingHunks, setIsReviewingHunks] = useState(false);
   const isMcpToolDetailsExpanded =
     mcpDetailsExpansionState.callId === callId
       ? mcpDetailsExpansionState.expanded
@@ -158,7 +165,8 @@ export const ToolConfirmationMessage: React.FC<
 
   const handlesOwnUI =
     confirmationDetails.type === 'ask_user' ||
-    confirmationDetails.type === 'exit_plan_mode';
+    confirmationDetails.type === 'exit_plan_mode' ||
+    (confirmationDetails.type === 'edit' && isReviewingHunks);
   const isTrustedFolder =
     config.isTrustedFolder() && !config.getDisableAlwaysAllow();
 
@@ -258,7 +266,7 @@ export const ToolConfirmationMessage: React.FC<
       }
       return false;
     },
-    { isActive: isFocused, priority: true },
+    { isActive: isFocused && !isReviewingHunks, priority: true },
   );
 
   // TODO(#23009): Remove this hack once we migrate to the new renderer.
@@ -276,12 +284,31 @@ export const ToolConfirmationMessage: React.FC<
   }, [isCancelling, handleConfirm]);
 
   const handleSelect = useCallback(
-    (item: ToolConfirmationOutcome) => handleConfirm(item),
+    (item: ConfirmationChoice) => {
+      if (item === REVIEW_HUNKS) {
+        setIsReviewingHunks(true);
+        return;
+      }
+      handleConfirm(item);
+    },
     [handleConfirm],
   );
 
+  // Reviewed hunks are applied as an inline modification, so only offer the
+  // review for tools that accept one and for changes that have hunks.
+  const canReviewHunks = useMemo(
+    () =>
+      confirmationDetails.type === 'edit' &&
+      confirmationDetails.isModifiable !== false &&
+      getDiffHunks(
+        confirmationDetails.originalContent ?? '',
+        confirmationDetails.newContent,
+      ).length > 0,
+    [confirmationDetails],
+  );
+
   const getOptions = useCallback(() => {
-    const options: Array<RadioSelectItem<ToolConfirmationOutcome>> = [];
+    const options: Array<RadioSelectItem<ConfirmationChoice>> = [];
 
     if (confirmationDetails.type === 'edit') {
       if (!confirmationDetails.isModifying) {
@@ -290,7 +317,11 @@ export const ToolConfirmationMessage: React.FC<
           value: ToolConfirmationOutcome.ProceedOnce,
           key: 'Allow once',
         });
-        if (isTrustedFolder) {
+        // Session and file approvals are keyed by the edited file, and only
+        // modifiable tools can open the change in an editor. Tools that merely
+        // show a diff (e.g. merging a worktree) get neither.
+        const isModifiable = confirmationDetails.isModifiable !== false;
+        if (isModifiable && isTrustedFolder) {
           options.push({
             label: 'Allow for this session',
             value: ToolConfirmationOutcome.ProceedAlways,
@@ -306,13 +337,20 @@ export const ToolConfirmationMessage: React.FC<
         }
         // We hide "Modify with external editor" if IDE mode is active AND
         // the IDE is actually capable of showing a diff (connected).
-        if (!config.getIdeMode() || !isDiffingEnabled) {
+        if (isModifiable && (!config.getIdeMode() || !isDiffingEnabled)) {
           options.push({
             label: 'Modify with external editor',
             value: ToolConfirmationOutcome.ModifyWithEditor,
             key: 'Modify with external editor',
           });
         }
+        if (canReviewHunks) {
+          options.push({
+            label: 'Review changes hunk by hunk',
+            value: REVIEW_HUNKS,
+            key: 'Review changes hunk by hunk',
+          });
+        }
 
         options.push({
           label: 'No, suggest changes (esc)',
@@ -433,6 +471,7 @@ export const ToolConfirmationMessage: React.FC<
     allowPermanentApproval,
     config,
     isDiffingEnabled,
+    canReviewHunks,
   ]);
 
   const availableBodyContentHeight = useCallback(() => {
@@ -462,7 +501,12 @@ export const ToolConfirmationMessage: React.FC<
     let extraInfoLines = 0;
     if (confirmationDetails.type === 'sandbox_expansion') {
       const { additionalPermissions } = confirmationDetails;
-      if (additionalPermissions?.network) extraInfoLines++;
+      if (
+        additionalPermissions?.network ||
+        additionalPermissions?.allowedDomains?.length
+      ) {
+        extraInfoLines++;
+      }
       extraInfoLines += additionalPermissions?.fileSystem?.read?.length || 0;
       extraInfoLines += additionalPermissions?.fileSystem?.write?.length || 0;
     } else if (confirmationDetails.type === 'exec') {
@@ -507,7 +551,7 @@ export const ToolConfirmationMessage: React.FC<
     useMemo<{
       question: React.ReactNode;
       bodyContent: React.ReactNode;
-      options: Array<RadioSelectItem<ToolConfirmationOutcome>>;
+      options: Array<RadioSelectItem<ConfirmationChoice>>;
       securityWarnings: React.ReactNode;
       initialIndex: number;
     }>(() => {
@@ -600,6 +644,33 @@ export const ToolConfirmationMessage: React.FC<
         };
       }
 
+      if (confirmationDetails.type === 'edit' && isReviewingHunks) {
+        bodyContent = (
+          <DiffHunkReview
+            fileName={sanitizeForDisplay(confirmationDetails.fileName)}
+            originalContent={confirmationDetails.originalContent}
+            newContent={confirmationDetails.newContent}
+            onApply={(payload) => {
+              handleConfirm(ToolConfirmationOutcome.ProceedOnce, payload);
+            }}
+            onReject={() => {
+              handleConfirm(ToolConfirmationOutcome.Cancel);
+            }}
+            onCancel={() => setIsReviewingHunks(false)}
+            terminalWidth={terminalWidth}
+            availableHeight={bodyHeight}
+            isFocused={isFocused}
+          />
+        );
+        return {
+          question: '',
+          bodyContent,
+          options: [],
+          securityWarnings: null,
+          initialIndex: 0,
+        };
+      }
+
       if (confirmationDetails.type === 'edit') {
         if (!confirmationDetails.isModifying) {
           question = `Apply this change?`;
@@ -634,6 +705,7 @@ export const ToolConfirmationMessage: React.FC<
         const readPaths = additionalPermissions?.fileSystem?.read || [];
         const writePaths = additionalPermissions?.fileSystem?.write || [];
         const network = additionalPermissions?.network;
+        const allowedDomains = additionalPermissions?.allowedDomains || [];
         const isShell = isShellTool(toolName);
 
         const rootCmds = rootCommand
@@ -684,6 +756,14 @@ export const ToolConfirmationMessage: React.FC<
                   All Urls
                 </Text>
               )}
+              {!network && allowedDomains.length > 0 && (
+                <Text>
+                  <Text color={isShell ? theme.status.warning : undefined} bold>
+                    • Network:
+                  </Text>{' '}
+                  {allowedDomains.map((d) => sanitizeForDisplay(d)).join(', ')}
+                </Text>
+              )}
               {writePaths.length > 0 && (
                 <Text>
                   <Text color={isShell ? theme.status.warning : undefined} bold>
@@ -906,6 +986,8 @@ export const ToolConfirmationMessage: React.FC<
       activeTheme,
       config,
       toolName,
+      isReviewingHunks,
+      isFocused,
     ]);
 
   const bodyOverflowDirection: 'top' | 'bottom' =
@@ -915,7 +997,7 @@ export const ToolConfirmationMessage: React.FC<
 
   const renderRadioItem = useCallback(
     (
-      item: RadioSelectItem<ToolConfirmationOutcome>,
+      item: RadioSelectItem<ConfirmationChoice>,
       { titleColor }: { titleColor: string },
     ) => {
       if (item.value === ToolConfirmationOutcome.ProceedAlwaysAndSave) {
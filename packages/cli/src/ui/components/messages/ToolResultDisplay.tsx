@@ -16,6 +16,7 @@ import {
   type AnsiOutput,
   type AnsiLine,
   isSubagentProgress,
+  isSubagentFanOutProgress,
   isStructuredToolResult,
 } from '@google/gemini-cli-core';
 import { useUIState } from '../../contexts/UIStateContext.js';
@@ -110,6 +111,28 @@ export const ToolResultDisplay: React.FC<ToolResultDisplayProps> = ({
           terminalWidth={childWidth}
         />
       );
+    } else if (isSubagentFanOutProgress(contentData)) {
+      content = (
+        <Box flexDirection="column">
+          {contentData.items.map((item, index) => (
+            <Box key={index} flexDirection="column" marginBottom={1}>
+              {item.progress ? (
+                <SubagentProgressDisplay
+                  progress={{
+                    ...item.progress,
+                    agentName: `${item.progress.agentName} (${item.input})`,
+                  }}
+                  terminalWidth={childWidth}
+                />
+              ) : (
+                <Text color={theme.text.secondary} italic>
+                  Queued subagent {contentData.agentName} ({item.input}).
+                </Text>
+              )}
+            </Box>
+          ))}
+        </Box>
+      );
     } else if (typeof contentData === 'string' && renderOutputAsMarkdown) {
       content = (
         <MarkdownDisplay
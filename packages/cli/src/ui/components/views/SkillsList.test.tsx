@@ -126,4 +126,24 @@ describe('SkillsList Component', () => {
 
     unmount();
   });
+  it('should render declared tools, scripts and the minimum CLI version', async () => {
+    const skill: SkillDefinition = {
+      name: 'release',
+      description: 'Cuts a release',
+      location: 'loc',
+      body: 'body',
+      allowedTools: ['read_file', 'run_shell_command'],
+      scripts: [{ name: 'bump', description: '', path: '/scripts/bump.sh' }],
+      minCliVersion: '0.40.0',
+    };
+    const { lastFrame, unmount } = await render(
+      <SkillsList skills={[skill]} showDescriptions={true} />,
+    );
+    const output = lastFrame();
+
+    expect(output).toContain('Allowed tools: read_file, run_shell_command');
+    expect(output).toContain('Scripts: bump');
+    expect(output).toContain('Requires Gemini CLI 0.40.0 or later');
+    unmount();
+  });
 });
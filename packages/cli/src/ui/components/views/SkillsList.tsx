@@ -10,6 +10,27 @@ import { theme } from '../../semantic-colors.js';
 import { type SkillDefinition } from '../../types.js';
 import { SKILLS_DOCS_URL } from '../../constants.js';
 
+/**
+ * Describes the optional frontmatter fields a skill declares.
+ */
+export function getSkillDetails(skill: SkillDefinition): string[] {
+  const details: string[] = [];
+  if (skill.allowedTools) {
+    details.push(
+      `Allowed tools: ${skill.allowedTools.length > 0 ? skill.allowedTools.join(', ') : '(none)'}`,
+    );
+  }
+  if (skill.scripts && skill.scripts.length > 0) {
+    details.push(
+      `Scripts: ${skill.scripts.map((script) => script.name).join(', ')}`,
+    );
+  }
+  if (skill.minCliVersion) {
+    details.push(`Requires Gemini CLI ${skill.minCliVersion} or later`);
+  }
+  return details;
+}
+
 interface SkillsListProps {
   skills: readonly SkillDefinition[];
   showDescriptions: boolean;
@@ -54,6 +75,12 @@ export const SkillsList: React.FC<SkillsListProps> = ({
             </Text>
           </Box>
         )}
+        {showDescriptions &&
+          getSkillDetails(skill).map((detail) => (
+            <Box key={detail} marginLeft={2}>
+              <Text color={theme.text.secondary}>{detail}</Text>
+            </Box>
+          ))}
       </Box>
     </Box>
   );
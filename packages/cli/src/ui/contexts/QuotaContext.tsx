@@ -12,6 +12,7 @@ import type {
   ValidationDialogRequest,
   OverageMenuDialogRequest,
   EmptyWalletDialogRequest,
+  BudgetDialogRequest,
 } from './UIStateContext.js';
 
 export interface QuotaState {
@@ -21,6 +22,7 @@ export interface QuotaState {
   validationRequest?: ValidationDialogRequest | null;
   overageMenuRequest?: OverageMenuDialogRequest | null;
   emptyWalletRequest?: EmptyWalletDialogRequest | null;
+  budgetRequest?: BudgetDialogRequest | null;
 }
 
 export const QuotaContext = createContext<QuotaState | null>(null);
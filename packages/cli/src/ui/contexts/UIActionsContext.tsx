@@ -12,6 +12,7 @@ import {
   type AuthType,
   type EditorType,
   type AgentDefinition,
+  type BudgetIntent,
 } from '@google/gemini-cli-core';
 import { type LoadableSettingScope } from '../../config/settings.js';
 import type { AuthState } from '../types.js';
@@ -65,6 +66,7 @@ export interface UIActions {
   handleValidationChoice: (choice: 'verify' | 'change_auth' | 'cancel') => void;
   handleOverageMenuChoice: (choice: OverageMenuIntent) => void;
   handleEmptyWalletChoice: (choice: EmptyWalletIntent) => void;
+  handleBudgetChoice: (choice: BudgetIntent) => void;
   openSessionBrowser: () => void;
   closeSessionBrowser: () => void;
   handleResumeSession: (session: SessionInfo) => Promise<void>;
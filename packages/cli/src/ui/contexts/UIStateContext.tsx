@@ -14,6 +14,7 @@ import type {
   StreamingState,
   ActiveHook,
   PermissionConfirmationRequest,
+  McpElicitationConfirmationRequest,
 } from '../types.js';
 import type { CommandContext, SlashCommand } from '../commands/types.js';
 
@@ -24,6 +25,8 @@ import type {
   AuthType,
   FallbackIntent,
   ValidationIntent,
+  BudgetIntent,
+  BudgetLimitExceeded,
   AgentDefinition,
   FolderDiscoveryResults,
   PolicyUpdateConfirmationRequest,
@@ -79,6 +82,11 @@ export interface EmptyWalletDialogRequest {
   resolve: (intent: EmptyWalletIntent) => void;
 }
 
+export interface BudgetDialogRequest {
+  exceeded: BudgetLimitExceeded;
+  resolve: (intent: BudgetIntent) => void;
+}
+
 import { type UseHistoryManagerReturn } from '../hooks/useHistoryManager.js';
 import { type RestartReason } from '../hooks/useIdeTrustListener.js';
 import type { TerminalBackgroundColor } from '../utils/terminalCapabilityManager.js';
@@ -126,6 +134,7 @@ export interface UIState {
   confirmUpdateExtensionRequests: ConfirmationRequest[];
   loopDetectionConfirmationRequest: LoopDetectionConfirmationRequest | null;
   permissionConfirmationRequest: PermissionConfirmationRequest | null;
+  mcpElicitationRequest: McpElicitationConfirmationRequest | null;
   geminiMdFileCount: number;
   streamingState: StreamingState;
   initError: string | null;
@@ -40,6 +40,7 @@ export const useComposerStatus = () => {
     hasPendingToolConfirmation ||
     Boolean(uiState.commandConfirmationRequest) ||
     Boolean(uiState.authConsentRequest) ||
+    Boolean(uiState.mcpElicitationRequest) ||
     (uiState.confirmUpdateExtensionRequests?.length ?? 0) > 0 ||
     Boolean(uiState.loopDetectionConfirmationRequest) ||
     Boolean(quotaState.proQuotaRequest) ||
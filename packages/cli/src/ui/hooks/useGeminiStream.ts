@@ -1328,8 +1328,13 @@ export const useGeminiStream = (
   );
 
   const handleChatModelEvent = useCallback(
-    (eventValue: string, userMessageTimestamp: number) => {
-      if (!settings.merged.ui.showModelInfoInChat) {
+    (
+      eventValue: string,
+      provider: string | undefined,
+      userMessageTimestamp: number,
+    ) => {
+      // With a provider chain, always say which hop serves the turn.
+      if (!settings.merged.ui.showModelInfoInChat && !provider) {
         return;
       }
       if (pendingHistoryItemRef.current) {
@@ -1340,6 +1345,7 @@ export const useGeminiStream = (
         {
           type: 'model',
           model: eventValue,
+          provider,
         } as HistoryItemModel,
         userMessageTimestamp,
       );
@@ -1500,7 +1506,11 @@ export const useGeminiStream = (
             handleCitationEvent(event.value, userMessageTimestamp);
             break;
           case ServerGeminiEventType.ModelInfo:
-            handleChatModelEvent(event.value, userMessageTimestamp);
+            handleChatModelEvent(
+              event.value,
+              event.provider,
+              userMessageTimestamp,
+            );
             break;
           case ServerGeminiEventType.LoopDetected:
             // handle later because we want to move pending history to history
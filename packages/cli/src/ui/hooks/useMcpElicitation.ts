@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  MessageBusType,
+  type Config,
+  type McpElicitationRequest,
+  type McpElicitationResponse,
+} from '@google/gemini-cli-core';
+
+/**
+ * Listens for MCP elicitation requests on the message bus and exposes the
+ * oldest pending one so it can be rendered as a form.
+ */
+export function useMcpElicitation(config: Config) {
+  const [pendingRequests, setPendingRequests] = useState<
+    McpElicitationRequest[]
+  >([]);
+
+  useEffect(() => {
+    const messageBus = config.messageBus;
+
+    const onRequest = (request: McpElicitationRequest) => {
+      setPendingRequests((prev) => [...prev, request]);
+    };
+    // Responses also arrive when the server cancels a request, so any
+    // request that has been answered is dropped from the queue.
+    const onResponse = (response: McpElicitationResponse) => {
+      setPendingRequests((prev) =>
+        prev.filter((r) => r.correlationId !== response.correlationId),
+      );
+    };
+
+    messageBus.subscribe(MessageBusType.MCP_ELICITATION_REQUEST, onRequest);
+    messageBus.subscribe(MessageBusType.MCP_ELICITATION_RESPONSE, onResponse);
+    return () => {
+      messageBus.unsubscribe(MessageBusType.MCP_ELICITATION_REQUEST, onRequest);
+      messageBus.unsubscribe(
+        MessageBusType.MCP_ELICITATION_RESPONSE,
+        onResponse,
+      );
+    };
+  }, [config]);
+
+  const respondToMcpElicitation = useCallback(
+    (response: Omit<McpElicitationResponse, 'type'>) => {
+      void config.messageBus.publish({
+        type: MessageBusType.MCP_ELICITATION_RESPONSE,
+        ...response,
+      });
+    },
+    [config],
+  );
+
+  return {
+    mcpElicitationRequest: pendingRequests[0] ?? null,
+    respondToMcpElicitation,
+  };
+}
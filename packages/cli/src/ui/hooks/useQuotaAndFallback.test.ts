@@ -1179,4 +1179,43 @@ Your admin might have disabled the access. Contact them to enable the Preview Re
       expect(mockHistoryManager.addItem).not.toHaveBeenCalled();
     });
   });
+
+  describe('Budget Handler', () => {
+    it('should show a budget request and resolve it with the choice', async () => {
+      const setBudgetHandlerSpy = vi.spyOn(mockConfig, 'setBudgetHandler');
+      const { result } = await renderHook(() =>
+        useQuotaAndFallback({
+          config: mockConfig,
+          historyManager: mockHistoryManager,
+          userTier: UserTierId.FREE,
+          setModelSwitchedFromQuotaError: mockSetModelSwitchedFromQuotaError,
+          onShowAuthSelection: mockOnShowAuthSelection,
+          paidTier: null,
+          settings: mockSettings,
+        }),
+      );
+
+      const handler = setBudgetHandlerSpy.mock.calls[0][0];
+      const exceeded = {
+        scope: 'session' as const,
+        severity: 'soft' as const,
+        limit: 5,
+        spent: 6,
+        currency: 'USD',
+      };
+      let promise: Promise<'continue' | 'stop'>;
+      act(() => {
+        promise = handler(exceeded);
+      });
+
+      expect(result.current.budgetRequest?.exceeded).toEqual(exceeded);
+
+      act(() => {
+        result.current.handleBudgetChoice('continue');
+      });
+
+      expect(await promise!).toBe('continue');
+      expect(result.current.budgetRequest).toBeNull();
+    });
+  });
 });
@@ -11,6 +11,8 @@ import {
   type FallbackIntent,
   type ValidationHandler,
   type ValidationIntent,
+  type BudgetHandler,
+  type BudgetIntent,
   TerminalQuotaError,
   ModelNotFoundError,
   type UserTierId,
@@ -30,6 +32,7 @@ import {
   type OverageMenuIntent,
   type EmptyWalletDialogRequest,
   type EmptyWalletIntent,
+  type BudgetDialogRequest,
 } from '../contexts/UIStateContext.js';
 import type { LoadedSettings } from '../../config/settings.js';
 import { handleCreditsFlow } from './creditsFlowHandler.js';
@@ -64,6 +67,8 @@ export function useQuotaAndFallback({
     useState<OverageMenuDialogRequest | null>(null);
   const [emptyWalletRequest, setEmptyWalletRequest] =
     useState<EmptyWalletDialogRequest | null>(null);
+  const [budgetRequest, setBudgetRequest] =
+    useState<BudgetDialogRequest | null>(null);
   const isDialogPending = useRef(false);
   const isValidationPending = useRef(false);
 
@@ -234,6 +239,16 @@ export function useQuotaAndFallback({
     config.setValidationHandler(validationHandler);
   }, [config]);
 
+  // Set up budget handler for session and daily spending limits
+  useEffect(() => {
+    const budgetHandler: BudgetHandler = (exceeded) =>
+      new Promise<BudgetIntent>((resolve) => {
+        setBudgetRequest({ exceeded, resolve });
+      });
+
+    config.setBudgetHandler(budgetHandler);
+  }, [config]);
+
   const handleProQuotaChoice = useCallback(
     (choice: FallbackIntent) => {
       if (!proQuotaRequest) return;
@@ -302,6 +317,16 @@ export function useQuotaAndFallback({
     [emptyWalletRequest],
   );
 
+  const handleBudgetChoice = useCallback(
+    (choice: BudgetIntent) => {
+      if (!budgetRequest) return;
+
+      budgetRequest.resolve(choice);
+      setBudgetRequest(null);
+    },
+    [budgetRequest],
+  );
+
   return {
     proQuotaRequest,
     handleProQuotaChoice,
@@ -312,6 +337,8 @@ export function useQuotaAndFallback({
     handleOverageMenuChoice,
     emptyWalletRequest,
     handleEmptyWalletChoice,
+    budgetRequest,
+    handleBudgetChoice,
   };
 }
 
@@ -21,6 +21,8 @@ import {
   CoreToolCallStatus,
   checkExhaustive,
   type SubagentActivityItem,
+  type McpElicitationRequest,
+  type McpElicitationResponse,
 } from '@google/gemini-cli-core';
 import type { PartListUnion } from '@google/genai';
 import { type ReactNode } from 'react';
@@ -244,6 +246,7 @@ export type HistoryItemToolStats = HistoryItemBase & {
 export type HistoryItemModel = HistoryItemBase & {
   type: 'model';
   model: string;
+  provider?: string;
 };
 
 export type HistoryItemQuit = HistoryItemBase & {
@@ -531,6 +534,13 @@ export interface PermissionConfirmationRequest {
   onComplete: (result: { allowed: boolean }) => void;
 }
 
+export interface McpElicitationConfirmationRequest {
+  request: McpElicitationRequest;
+  onComplete: (
+    result: Pick<McpElicitationResponse, 'action' | 'content'>,
+  ) => void;
+}
+
 export interface ActiveHook {
   name: string;
   eventName: string;
@@ -5,8 +5,17 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { ActivityLogger, type NetworkLog } from './activityLogger.js';
-import type { ConsoleLogPayload } from '@google/gemini-cli-core';
+import {
+  ActivityLogger,
+  initActivityLogger,
+  type NetworkLog,
+} from './activityLogger.js';
+import {
+  coreEvents,
+  promptIdContext,
+  type Config,
+  type ConsoleLogPayload,
+} from '@google/gemini-cli-core';
 
 describe('ActivityLogger', () => {
   let logger: ActivityLogger;
@@ -132,4 +141,52 @@ describe('ActivityLogger', () => {
     expect(after.console.length).toBe(0);
     expect(after.network.length).toBe(0);
   });
+
+  it('tags console logs with the prompt being handled', () => {
+    promptIdContext.run('prompt-1', () => {
+      logger.logConsole({ content: 'inside', type: 'log' });
+    });
+    logger.logConsole({ content: 'outside', type: 'log' });
+
+    const logs = logger.getBufferedLogs();
+    expect(logs.console.map((l) => l.promptId)).toEqual([
+      'prompt-1',
+      undefined,
+    ]);
+  });
+
+  it('buffers and drains timeline events', () => {
+    logger.logTimelineEvent({
+      id: 'call-1',
+      kind: 'tool',
+      promptId: 'prompt-1',
+      name: 'read_file',
+      status: 'executing',
+      timestamp: 1,
+    });
+
+    expect(logger.drainBufferedLogs().timeline).toEqual([
+      expect.objectContaining({ id: 'call-1', status: 'executing' }),
+    ]);
+    expect(logger.getBufferedLogs().timeline).toHaveLength(0);
+  });
+
+  it('matches hook ends to their starts when a hook runs concurrently', () => {
+    initActivityLogger(
+      { getMessageBus: () => ({ subscribe: () => {} }) } as unknown as Config,
+      { mode: 'buffer' },
+    );
+    const hook = { hookName: 'check.sh', eventName: 'BeforeTool' };
+
+    coreEvents.emitHookStart({ ...hook, executionId: 'run-1' });
+    coreEvents.emitHookStart({ ...hook, executionId: 'run-2' });
+    coreEvents.emitHookEnd({ ...hook, executionId: 'run-2', success: false });
+    coreEvents.emitHookEnd({ ...hook, executionId: 'run-1', success: true });
+
+    const [first, second, secondEnd, firstEnd] =
+      logger.drainBufferedLogs().timeline;
+    expect(secondEnd).toMatchObject({ id: second.id, status: 'error' });
+    expect(firstEnd).toMatchObject({ id: first.id, status: 'success' });
+    expect(first.id).not.toBe(second.id);
+  });
 });
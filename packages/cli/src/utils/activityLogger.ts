@@ -12,10 +12,16 @@ import path from 'node:path';
 import { EventEmitter } from 'node:events';
 import {
   CoreEvent,
+  CoreToolCallStatus,
+  MessageBusType,
   coreEvents,
   debugLogger,
+  promptIdContext,
   type ConsoleLogPayload,
   type Config,
+  type HookEndPayload,
+  type HookStartPayload,
+  type ToolCallsUpdateMessage,
 } from '@google/gemini-cli-core';
 import WebSocket from 'ws';
 
@@ -100,6 +106,8 @@ function callHttpRequest(
 
 export interface NetworkLog {
   id: string;
+  /** The prompt that was being handled when the request was sent. */
+  promptId?: string;
   timestamp: number;
   method: string;
   url: string;
@@ -123,6 +131,27 @@ export interface NetworkLog {
 /** Partial update to an existing network log. */
 export type PartialNetworkLog = { id: string } & Partial<NetworkLog>;
 
+export type ConsoleLogEntry = ConsoleLogPayload & {
+  timestamp: number;
+  promptId?: string;
+};
+
+/**
+ * A tool call or hook execution, reported so DevTools can place it on the
+ * session timeline. Later events with the same ID update earlier ones.
+ */
+export interface TimelineEvent {
+  id: string;
+  kind: 'tool' | 'hook';
+  promptId?: string;
+  name: string;
+  /** The hook event that ran the hook, e.g. `BeforeTool`. */
+  eventName?: string;
+  status: string;
+  timestamp: number;
+  durationMs?: number;
+}
+
 /**
  * Capture utility for session activities (network and console).
  * Provides a stream of events that can be persisted for analysis or inspection.
@@ -138,7 +167,8 @@ export class ActivityLogger extends EventEmitter {
     Array<NetworkLog | PartialNetworkLog>
   >();
   private networkBufferIds: string[] = [];
-  private consoleBuffer: Array<ConsoleLogPayload & { timestamp: number }> = [];
+  private consoleBuffer: ConsoleLogEntry[] = [];
+  private timelineBuffer: TimelineEvent[] = [];
   private readonly bufferLimit = 10;
 
   static getInstance(): ActivityLogger {
@@ -167,23 +197,18 @@ export class ActivityLogger extends EventEmitter {
    */
   drainBufferedLogs(): {
     network: Array<NetworkLog | PartialNetworkLog>;
-    console: Array<ConsoleLogPayload & { timestamp: number }>;
+    console: ConsoleLogEntry[];
+    timeline: TimelineEvent[];
   } {
-    const network: Array<NetworkLog | PartialNetworkLog> = [];
-    for (const id of this.networkBufferIds) {
-      const events = this.networkBufferMap.get(id);
-      if (events) network.push(...events);
-    }
-    const console = [...this.consoleBuffer];
-    this.networkBufferMap.clear();
-    this.networkBufferIds = [];
-    this.consoleBuffer = [];
-    return { network, console };
+    const logs = this.getBufferedLogs();
+    this.clearBufferedLogs();
+    return logs;
   }
 
   getBufferedLogs(): {
     network: Array<NetworkLog | PartialNetworkLog>;
-    console: Array<ConsoleLogPayload & { timestamp: number }>;
+    console: ConsoleLogEntry[];
+    timeline: TimelineEvent[];
   } {
     const network: Array<NetworkLog | PartialNetworkLog> = [];
     for (const id of this.networkBufferIds) {
@@ -193,6 +218,7 @@ export class ActivityLogger extends EventEmitter {
     return {
       network,
       console: [...this.consoleBuffer],
+      timeline: [...this.timelineBuffer],
     };
   }
 
@@ -200,6 +226,7 @@ export class ActivityLogger extends EventEmitter {
     this.networkBufferMap.clear();
     this.networkBufferIds = [];
     this.consoleBuffer = [];
+    this.timelineBuffer = [];
   }
 
   private stringifyHeaders(headers: unknown): Record<string, string> {
@@ -319,6 +346,7 @@ export class ActivityLogger extends EventEmitter {
       this.requestStartTimes.set(id, Date.now());
       this.safeEmitNetwork({
         id,
+        promptId: promptIdContext.getStore(),
         timestamp: Date.now(),
         method,
         url,
@@ -485,6 +513,7 @@ export class ActivityLogger extends EventEmitter {
       }
 
       const id = Math.random().toString(36).substring(7);
+      const promptId = promptIdContext.getStore();
       this.requestStartTimes.set(id, Date.now());
       const req = callHttpRequest(originalFn, args);
       const requestChunks: Buffer[] = [];
@@ -539,6 +568,7 @@ export class ActivityLogger extends EventEmitter {
 
         self.safeEmitNetwork({
           id,
+          promptId,
           timestamp: Date.now(),
           method: req.method || 'GET',
           url,
@@ -660,13 +690,25 @@ export class ActivityLogger extends EventEmitter {
   }
 
   logConsole(payload: ConsoleLogPayload) {
-    const enriched = { ...payload, timestamp: Date.now() };
+    const enriched: ConsoleLogEntry = {
+      ...payload,
+      promptId: promptIdContext.getStore(),
+      timestamp: Date.now(),
+    };
     this.consoleBuffer.push(enriched);
     if (this.consoleBuffer.length > this.bufferLimit) {
       this.consoleBuffer.shift();
     }
     this.emit('console', enriched);
   }
+
+  logTimelineEvent(event: TimelineEvent) {
+    this.timelineBuffer.push(event);
+    if (this.timelineBuffer.length > this.bufferLimit) {
+      this.timelineBuffer.shift();
+    }
+    this.emit('timeline', event);
+  }
 }
 
 /**
@@ -693,7 +735,10 @@ function setupFileLogging(
     fs.mkdirSync(logsDir, { recursive: true });
   }
 
-  const writeToLog = (type: 'console' | 'network', payload: unknown) => {
+  const writeToLog = (
+    type: 'console' | 'network' | 'timeline',
+    payload: unknown,
+  ) => {
     try {
       const entry =
         JSON.stringify({
@@ -713,6 +758,7 @@ function setupFileLogging(
 
   capture.on('console', (payload) => writeToLog('console', payload));
   capture.on('network', (payload) => writeToLog('network', payload));
+  capture.on('timeline', (payload) => writeToLog('timeline', payload));
 }
 
 /**
@@ -763,6 +809,14 @@ function setupNetworkLogging(
                 'sessionId' in parsed && typeof parsed.sessionId === 'string'
                   ? parsed.sessionId
                   : undefined,
+              action:
+                'action' in parsed && typeof parsed.action === 'string'
+                  ? parsed.action
+                  : undefined,
+              nodeId:
+                'nodeId' in parsed && typeof parsed.nodeId === 'string'
+                  ? parsed.nodeId
+                  : undefined,
             });
           }
         } catch (err) {
@@ -788,6 +842,8 @@ function setupNetworkLogging(
   const handleServerMessage = (message: {
     type: string;
     sessionId?: string;
+    action?: string;
+    nodeId?: string;
   }) => {
     switch (message.type) {
       case 'registered':
@@ -826,6 +882,9 @@ function setupNetworkLogging(
       case 'ping':
         sendMessage({ type: 'pong', timestamp: Date.now() });
         break;
+      case 'context-request':
+        handleContextRequest(message.action, message.nodeId);
+        break;
 
       default:
         // Ignore unknown message types
@@ -833,13 +892,38 @@ function setupNetworkLogging(
     }
   };
 
+  // Applies a pin change from the DevTools context panel, then replies with
+  // the chat's current context graph.
+  const handleContextRequest = (action?: string, nodeId?: string) => {
+    const client = config.getGeminiClient();
+    if (!client?.isInitialized()) {
+      return;
+    }
+    const inspector = client.getContextInspector();
+    const history = client.getHistory();
+    if (action === 'pin' && nodeId) {
+      inspector.pinNode(history, nodeId);
+    } else if (action === 'unpin' && nodeId) {
+      inspector.unpinNode(nodeId);
+    }
+    sendMessage({
+      type: 'context',
+      payload: inspector.inspect(history),
+      sessionId: sessionId || config.getSessionId(),
+      timestamp: Date.now(),
+    });
+  };
+
   const sendMessage = (message: object) => {
     if (ws && ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   };
 
-  const sendToNetwork = (type: 'console' | 'network', payload: object) => {
+  const sendToNetwork = (
+    type: 'console' | 'network' | 'timeline',
+    payload: object,
+  ) => {
     const message = {
       type,
       payload,
@@ -870,9 +954,13 @@ function setupNetworkLogging(
       return;
     }
 
-    const { network, console: consoleLogs } = capture.drainBufferedLogs();
+    const {
+      network,
+      console: consoleLogs,
+      timeline,
+    } = capture.drainBufferedLogs();
     const allInitialLogs: Array<{
-      type: 'network' | 'console';
+      type: 'network' | 'console' | 'timeline';
       payload: object;
       timestamp: number;
     }> = [
@@ -886,6 +974,11 @@ function setupNetworkLogging(
         payload: l,
         timestamp: l.timestamp,
       })),
+      ...timeline.map((e) => ({
+        type: 'timeline' as const,
+        payload: e,
+        timestamp: e.timestamp,
+      })),
     ].sort((a, b) => a.timestamp - b.timestamp);
 
     debugLogger.debug(
@@ -939,6 +1032,7 @@ function setupNetworkLogging(
 
   capture.on('console', (payload) => sendToNetwork('console', payload));
   capture.on('network', (payload) => sendToNetwork('network', payload));
+  capture.on('timeline', (payload) => sendToNetwork('timeline', payload));
 
   capture.on('network-logging-enabled', () => {
     debugLogger.debug('Network logging enabled, flushing buffer...');
@@ -955,15 +1049,94 @@ function setupNetworkLogging(
 
 let bridgeAttached = false;
 
+const TERMINAL_TOOL_STATUSES: ReadonlySet<string> = new Set([
+  CoreToolCallStatus.Success,
+  CoreToolCallStatus.Error,
+  CoreToolCallStatus.Cancelled,
+]);
+
 /**
- * Bridge coreEvents to the ActivityLogger singleton (guarded — only once).
+ * Bridge coreEvents and tool call updates to the ActivityLogger singleton
+ * (guarded — only once).
  */
-function bridgeCoreEvents(capture: ActivityLogger) {
+function bridgeCoreEvents(capture: ActivityLogger, config: Config) {
   if (bridgeAttached) return;
   bridgeAttached = true;
   coreEvents.on(CoreEvent.ConsoleLog, (payload) => {
     capture.logConsole(payload);
   });
+
+  // Hooks run inside the prompt's async context, so the prompt ID is read
+  // when they start. Starts are keyed by execution ID, as the same hook can
+  // run several times at once.
+  const hookStarts = new Map<
+    string,
+    { id: string; timestamp: number; promptId?: string }
+  >();
+  let hookCount = 0;
+  const getHookKey = (payload: HookStartPayload | HookEndPayload) =>
+    payload.executionId ?? `${payload.eventName}:${payload.hookName}`;
+  coreEvents.on(CoreEvent.HookStart, (payload) => {
+    const { hookName, eventName } = payload;
+    const start = {
+      id: `hook-${++hookCount}`,
+      timestamp: Date.now(),
+      promptId: promptIdContext.getStore(),
+    };
+    hookStarts.set(getHookKey(payload), start);
+    capture.logTimelineEvent({
+      ...start,
+      kind: 'hook',
+      name: hookName,
+      eventName,
+      status: 'running',
+    });
+  });
+  coreEvents.on(CoreEvent.HookEnd, (payload) => {
+    const { hookName, eventName, success } = payload;
+    const key = getHookKey(payload);
+    const start = hookStarts.get(key);
+    if (!start) return;
+    hookStarts.delete(key);
+    capture.logTimelineEvent({
+      ...start,
+      kind: 'hook',
+      name: hookName,
+      eventName,
+      status: success ? 'success' : 'error',
+      durationMs: Date.now() - start.timestamp,
+    });
+  });
+
+  const toolCalls = new Map<string, { status: string; timestamp: number }>();
+  config
+    .getMessageBus()
+    .subscribe<ToolCallsUpdateMessage>(
+      MessageBusType.TOOL_CALLS_UPDATE,
+      (message) => {
+        for (const call of message.toolCalls) {
+          const { callId, name, prompt_id } = call.request;
+          const seen = toolCalls.get(callId);
+          if (seen?.status === call.status) continue;
+          const timestamp = seen?.timestamp ?? Date.now();
+          const isTerminal = TERMINAL_TOOL_STATUSES.has(call.status);
+          if (isTerminal) {
+            toolCalls.delete(callId);
+          } else {
+            toolCalls.set(callId, { status: call.status, timestamp });
+          }
+          capture.logTimelineEvent({
+            id: callId,
+            kind: 'tool',
+            promptId: prompt_id,
+            name,
+            status: call.status,
+            timestamp,
+            durationMs: isTerminal ? Date.now() - timestamp : undefined,
+          });
+        }
+      },
+    );
 }
 
 /**
@@ -1001,7 +1174,7 @@ export function initActivityLogger(
   }
   // buffer mode: no transport, just intercept + bridge
 
-  bridgeCoreEvents(capture);
+  bridgeCoreEvents(capture, config);
 }
 
 /**
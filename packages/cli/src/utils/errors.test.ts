@@ -75,6 +75,12 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
         tool_calls: 0,
         models: {},
       }),
+      convertToStreamCost: vi.fn().mockReturnValue({
+        currency: 'USD',
+        total: 0,
+        models: {},
+        unpriced_models: [],
+      }),
     })),
     uiTelemetryService: {
       getMetrics: vi.fn().mockReturnValue({}),
@@ -142,6 +148,12 @@ describe('errors', () => {
       getOutputFormat: vi.fn().mockReturnValue(OutputFormat.TEXT),
       getContentGeneratorConfig: vi.fn().mockReturnValue({ authType: 'test' }),
       getSessionId: vi.fn().mockReturnValue(TEST_SESSION_ID),
+      getSessionCost: vi.fn().mockReturnValue({
+        currency: 'USD',
+        total: 0,
+        models: {},
+        unpricedModels: [],
+      }),
     } as unknown as Config;
   });
 
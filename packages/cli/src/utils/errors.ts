@@ -87,6 +87,7 @@ export function handleError(
         message: errorMessage,
       },
       stats: streamFormatter.convertToStreamStats(metrics, 0),
+      cost: streamFormatter.convertToStreamCost(config.getSessionCost()),
     });
 
     runSyncCleanup();
@@ -144,6 +145,7 @@ export function handleToolError(
           message: toolExecutionError.message,
         },
         stats: streamFormatter.convertToStreamStats(metrics, 0),
+        cost: streamFormatter.convertToStreamCost(config.getSessionCost()),
       });
     } else if (config.getOutputFormat() === OutputFormat.JSON) {
       const formatter = new JsonFormatter();
@@ -182,6 +184,7 @@ export function handleCancellationError(config: Config): never {
         message: cancellationError.message,
       },
       stats: streamFormatter.convertToStreamStats(metrics, 0),
+      cost: streamFormatter.convertToStreamCost(config.getSessionCost()),
     });
     runSyncCleanup();
     process.exit(cancellationError.exitCode);
@@ -223,6 +226,7 @@ export function handleMaxTurnsExceededError(config: Config): never {
         message: maxTurnsError.message,
       },
       stats: streamFormatter.convertToStreamStats(metrics, 0),
+      cost: streamFormatter.convertToStreamCost(config.getSessionCost()),
     });
     runSyncCleanup();
     process.exit(maxTurnsError.exitCode);
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CoreToolCallStatus,
+  type ConversationRecord,
+} from '@google/gemini-cli-core';
+import { getSessionExportFormat, serializeSession } from './sessionExport.js';
+
+const record: ConversationRecord = {
+  sessionId: 'session-1',
+  projectHash: 'hash',
+  startTime: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:05:00.000Z',
+  summary: 'Fix the <login> page',
+  messages: [
+    {
+      id: 'm1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      type: 'user',
+      content: [{ text: 'Fix the login page' }],
+    },
+    {
+      id: 'm2',
+      timestamp: '2026-01-01T00:01:00.000Z',
+      type: 'gemini',
+      content: 'Updated the form.',
+      model: 'gemini-2.5-pro',
+      thoughts: [
+        {
+          subject: 'Planning',
+          description: 'Look at login.html first',
+          timestamp: '2026-01-01T00:00:30.000Z',
+        },
+      ],
+      toolCalls: [
+        {
+          id: 't1',
+          name: 'replace',
+          args: { file_path: 'login.html' },
+          status: CoreToolCallStatus.Success,
+          timestamp: '2026-01-01T00:00:40.000Z',
+          resultDisplay: {
+            fileName: 'login.html',
+            filePath: '/project/login.html',
+            fileDiff:
+              '--- a/login.html\n+++ b/login.html\n@@ -1 +1 @@\n-<form>\n+<form method="post">',
+            originalContent: '<form>',
+            newContent: '<form method="post">',
+          },
+        },
+        {
+          id: 't2',
+          name: 'run_shell_command',
+          args: { command: 'npm test' },
+          status: CoreToolCallStatus.Error,
+          timestamp: '2026-01-01T00:00:50.000Z',
+          result: [
+            {
+              functionResponse: {
+                id: 't2',
+                name: 'run_shell_command',
+                response: { error: '1 test failed' },
+              },
+            },
+          ],
+        },
+      ],
+      tokens: { input: 100, output: 20, cached: 10, thoughts: 5, total: 125 },
+    },
+  ],
+};
+
+describe('getSessionExportFormat', () => {
+  it('infers the format from the file extension', () => {
+    expect(getSessionExportFormat('report.html')).toBe('html');
+    expect(getSessionExportFormat('report.MD')).toBe('md');
+    expect(getSessionExportFormat('session.jsonl')).toBe('jsonl');
+    expect(getSessionExportFormat('report.txt')).toBeUndefined();
+  });
+});
+
+describe('serializeSession', () => {
+  it('renders a self-contained HTML report', () => {
+    const html = serializeSession(record, 'html');
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).toContain('<title>Fix the &lt;login&gt; page</title>');
+    expect(html).toContain(
+      '<details class="thoughts"><summary>Thoughts (1)</summary>',
+    );
+    expect(html).toContain('<details class="tool-call status-success">');
+    expect(html).toContain(
+      '<span class="diff-add">+&lt;form method=&quot;post&quot;&gt;</span>',
+    );
+    expect(html).toContain('<span class="diff-del">-&lt;form&gt;</span>');
+    expect(html).toContain('1 test failed');
+    expect(html).toContain(
+      'Tokens: input 100 · output 20 · cached 10 · thoughts 5 · total 125',
+    );
+  });
+
+  it('renders Markdown with tool calls and token usage', () => {
+    const markdown = serializeSession(record, 'md');
+
+    expect(markdown).toContain('# Fix the <login> page');
+    expect(markdown).toContain('## User (2026-01-01T00:00:00.000Z)');
+    expect(markdown).toContain('> **Planning** Look at login.html first');
+    expect(markdown).toContain('**Tool Command** `replace` (success):');
+    expect(markdown).toContain('```diff\n--- a/login.html');
+    expect(markdown).toContain(
+      '_Tokens: input 100 · output 20 · cached 10 · thoughts 5 · total 125_',
+    );
+  });
+
+  it('writes JSON Lines in the session file layout', () => {
+    const lines = serializeSession(record, 'jsonl').trim().split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toEqual({
+      sessionId: 'session-1',
+      projectHash: 'hash',
+      startTime: '2026-01-01T00:00:00.000Z',
+      lastUpdated: '2026-01-01T00:05:00.000Z',
+      summary: 'Fix the <login> page',
+    });
+    expect(JSON.parse(lines[2])).toEqual(record.messages[1]);
+  });
+});
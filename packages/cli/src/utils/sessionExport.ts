@@ -0,0 +1,355 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import {
+  checkExhaustive,
+  isFileDiff,
+  partListUnionToString,
+  type ConversationRecord,
+  type MessageRecord,
+  type TokensSummary,
+  type ToolCallRecord,
+} from '@google/gemini-cli-core';
+
+export type SessionExportFormat = 'html' | 'md' | 'jsonl';
+
+export const SESSION_EXPORT_FORMATS: readonly SessionExportFormat[] = [
+  'html',
+  'md',
+  'jsonl',
+];
+
+const ROLE_LABELS: Record<MessageRecord['type'], string> = {
+  user: 'User',
+  gemini: 'Gemini',
+  info: 'Info',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+/**
+ * Infers the export format from a file extension.
+ */
+export function getSessionExportFormat(
+  filePath: string,
+): SessionExportFormat | undefined {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.html':
+    case '.htm':
+      return 'html';
+    case '.md':
+      return 'md';
+    case '.jsonl':
+    case '.json':
+      return 'jsonl';
+    default:
+      return undefined;
+  }
+}
+
+function getMessageText(message: MessageRecord): string {
+  const displayText = message.displayContent
+    ? partListUnionToString(message.displayContent)
+    : '';
+  return displayText || partListUnionToString(message.content);
+}
+
+function sumTokens(messages: readonly MessageRecord[]): TokensSummary {
+  const total: TokensSummary = {
+    input: 0,
+    output: 0,
+    cached: 0,
+    thoughts: 0,
+    tool: 0,
+    total: 0,
+  };
+  for (const message of messages) {
+    if (message.type !== 'gemini' || !message.tokens) {
+      continue;
+    }
+    total.input += message.tokens.input;
+    total.output += message.tokens.output;
+    total.cached += message.tokens.cached;
+    total.thoughts = (total.thoughts ?? 0) + (message.tokens.thoughts ?? 0);
+    total.tool = (total.tool ?? 0) + (message.tokens.tool ?? 0);
+    total.total += message.tokens.total;
+  }
+  return total;
+}
+
+function formatTokens(tokens: TokensSummary): string {
+  const parts = [
+    `input ${tokens.input}`,
+    `output ${tokens.output}`,
+    `cached ${tokens.cached}`,
+  ];
+  if (tokens.thoughts) {
+    parts.push(`thoughts ${tokens.thoughts}`);
+  }
+  if (tokens.tool) {
+    parts.push(`tool ${tokens.tool}`);
+  }
+  parts.push(`total ${tokens.total}`);
+  return parts.join(' · ');
+}
+
+/**
+ * Returns the output of a tool call as text, preferring what was displayed.
+ */
+function getToolOutput(toolCall: ToolCallRecord): string {
+  if (typeof toolCall.resultDisplay === 'string') {
+    return toolCall.resultDisplay;
+  }
+  const results = Array.isArray(toolCall.result)
+    ? toolCall.result
+    : toolCall.result
+      ? [toolCall.result]
+      : [];
+  return results
+    .map((part) =>
+      typeof part === 'string'
+        ? part
+        : part.functionResponse?.response
+          ? JSON.stringify(part.functionResponse.response, null, 2)
+          : (part.text ?? ''),
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+function getSessionTitle(record: ConversationRecord): string {
+  return record.summary || `Session ${record.sessionId}`;
+}
+
+function serializeSessionToJsonl(record: ConversationRecord): string {
+  const { messages, ...metadata } = record;
+  return [metadata, ...messages]
+    .map((line) => JSON.stringify(line) + '\n')
+    .join('');
+}
+
+function serializeSessionToMarkdown(record: ConversationRecord): string {
+  const header = [
+    `# ${getSessionTitle(record)}`,
+    '',
+    `- **Session ID**: ${record.sessionId}`,
+    `- **Started**: ${record.startTime}`,
+    `- **Last updated**: ${record.lastUpdated}`,
+    `- **Tokens**: ${formatTokens(sumTokens(record.messages))}`,
+  ].join('\n');
+
+  const sections = record.messages.map((message) => {
+    const lines = [`## ${ROLE_LABELS[message.type]} (${message.timestamp})`];
+    if (message.type === 'gemini') {
+      for (const thought of message.thoughts ?? []) {
+        lines.push('', `> **${thought.subject}** ${thought.description}`);
+      }
+    }
+    const text = getMessageText(message);
+    if (text.trim()) {
+      lines.push('', text);
+    }
+    if (message.type === 'gemini') {
+      for (const toolCall of message.toolCalls ?? []) {
+        lines.push(
+          '',
+          `**Tool Command** \`${toolCall.name}\` (${toolCall.status}):`,
+          '```json',
+          JSON.stringify(toolCall.args, null, 2),
+          '```',
+        );
+        const diff = isFileDiff(toolCall.resultDisplay)
+          ? toolCall.resultDisplay.fileDiff
+          : undefined;
+        const output = diff ?? getToolOutput(toolCall);
+        if (output) {
+          lines.push(
+            '',
+            '**Tool Response**:',
+            diff ? '```diff' : '```',
+            output,
+            '```',
+          );
+        }
+      }
+      if (message.tokens) {
+        lines.push('', `_Tokens: ${formatTokens(message.tokens)}_`);
+      }
+    }
+    return lines.join('\n');
+  });
+
+  return [header, ...sections].join('\n\n---\n\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderDiffHtml(diff: string): string {
+  const lines = diff.split('\n').map((line) => {
+    let className = '';
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      className = 'diff-file';
+    } else if (line.startsWith('+')) {
+      className = 'diff-add';
+    } else if (line.startsWith('-')) {
+      className = 'diff-del';
+    } else if (line.startsWith('@@')) {
+      className = 'diff-hunk';
+    }
+    const escaped = escapeHtml(line);
+    return className ? `<span class="${className}">${escaped}</span>` : escaped;
+  });
+  return `<pre class="diff">${lines.join('\n')}</pre>`;
+}
+
+function renderToolCallHtml(toolCall: ToolCallRecord): string {
+  const description = toolCall.description
+    ? ` <span class="muted">${escapeHtml(toolCall.description)}</span>`
+    : '';
+  const body = [
+    '<h4>Arguments</h4>',
+    `<pre>${escapeHtml(JSON.stringify(toolCall.args, null, 2))}</pre>`,
+  ];
+  if (isFileDiff(toolCall.resultDisplay)) {
+    body.push(
+      `<h4>${escapeHtml(toolCall.resultDisplay.fileName)}</h4>`,
+      renderDiffHtml(toolCall.resultDisplay.fileDiff),
+    );
+  } else {
+    const output = getToolOutput(toolCall);
+    if (output) {
+      body.push('<h4>Output</h4>', `<pre>${escapeHtml(output)}</pre>`);
+    }
+  }
+  return [
+    `<details class="tool-call status-${escapeHtml(toolCall.status)}">`,
+    `<summary><code>${escapeHtml(toolCall.displayName || toolCall.name)}</code>${description} <span class="status">${escapeHtml(toolCall.status)}</span></summary>`,
+    ...body,
+    '</details>',
+  ].join('\n');
+}
+
+function renderMessageHtml(message: MessageRecord): string {
+  const parts = [
+    `<div class="meta"><span class="role">${ROLE_LABELS[message.type]}</span>`,
+  ];
+  if (message.type === 'gemini' && message.model) {
+    parts.push(` <span class="muted">${escapeHtml(message.model)}</span>`);
+  }
+  parts.push(
+    ` <time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(message.timestamp)}</time></div>`,
+  );
+
+  if (message.type === 'gemini' && message.thoughts?.length) {
+    parts.push(
+      `<details class="thoughts"><summary>Thoughts (${message.thoughts.length})</summary>`,
+      ...message.thoughts.map(
+        (thought) =>
+          `<p><strong>${escapeHtml(thought.subject)}</strong> ${escapeHtml(thought.description)}</p>`,
+      ),
+      '</details>',
+    );
+  }
+
+  const text = getMessageText(message);
+  if (text.trim()) {
+    parts.push(`<div class="text">${escapeHtml(text)}</div>`);
+  }
+
+  if (message.type === 'gemini') {
+    parts.push(...(message.toolCalls ?? []).map(renderToolCallHtml));
+    if (message.tokens) {
+      parts.push(
+        `<div class="tokens">Tokens: ${formatTokens(message.tokens)}</div>`,
+      );
+    }
+  }
+
+  return `<section class="message ${message.type}">\n${parts.join('\n')}\n</section>`;
+}
+
+const HTML_STYLES = `
+:root { color-scheme: light dark; --muted: #6b7280; --border: #d1d5db; }
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+header dt { font-weight: 600; }
+.message { border: 1px solid var(--border); border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { border-left: 4px solid #2563eb; }
+.message.gemini { border-left: 4px solid #7c3aed; }
+.message.warning { border-left: 4px solid #d97706; }
+.message.error { border-left: 4px solid #dc2626; }
+.meta { font-size: 0.875rem; margin-bottom: 0.5rem; }
+.role { font-weight: 600; }
+.muted, time, .tokens { color: var(--muted); }
+.text { white-space: pre-wrap; }
+.tokens { font-size: 0.8rem; margin-top: 0.5rem; }
+details { border: 1px solid var(--border); border-radius: 6px; padding: 0.25rem 0.75rem; margin: 0.5rem 0; }
+summary { cursor: pointer; }
+.status { font-size: 0.75rem; text-transform: uppercase; color: var(--muted); }
+.status-error .status, .status-cancelled .status { color: #dc2626; }
+pre { overflow-x: auto; padding: 0.5rem; background: rgba(127, 127, 127, 0.1); border-radius: 4px; }
+.diff-add { color: #16a34a; }
+.diff-del { color: #dc2626; }
+.diff-hunk { color: #0891b2; }
+.diff-file { font-weight: 600; }
+`;
+
+function serializeSessionToHtml(record: ConversationRecord): string {
+  const title = escapeHtml(getSessionTitle(record));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<dl>
+<dt>Session ID</dt><dd>${escapeHtml(record.sessionId)}</dd>
+<dt>Started</dt><dd>${escapeHtml(record.startTime)}</dd>
+<dt>Last updated</dt><dd>${escapeHtml(record.lastUpdated)}</dd>
+<dt>Messages</dt><dd>${record.messages.length}</dd>
+<dt>Tokens</dt><dd>${formatTokens(sumTokens(record.messages))}</dd>
+</dl>
+</header>
+<main>
+${record.messages.map(renderMessageHtml).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Serializes a saved conversation. HTML output is a single self-contained
+ * page; JSONL output uses the same layout as session files.
+ */
+export function serializeSession(
+  record: ConversationRecord,
+  format: SessionExportFormat,
+): string {
+  switch (format) {
+    case 'html':
+      return serializeSessionToHtml(record);
+    case 'md':
+      return serializeSessionToMarkdown(record);
+    case 'jsonl':
+      return serializeSessionToJsonl(record);
+    default:
+      return checkExhaustive(format);
+  }
+}
@@ -141,4 +141,56 @@ describe('AgentTool', () => {
       'Invoke Browser Agent',
     );
   });
+
+  it('should create one local invocation per fan-out input', async () => {
+    const params = {
+      agent_name: 'TestLocalAgent',
+      prompt: 'Review {{input}}',
+      inputs: ['core', 'cli'],
+    };
+    const invocation = tool['createInvocation'](params, mockMessageBus);
+
+    expect(invocation.getDescription()).toBe(
+      "Delegating 2 tasks to agent 'TestLocalAgent'",
+    );
+
+    vi.mocked(LocalSubagentInvocation.prototype.execute).mockResolvedValue({
+      llmContent: [{ text: 'done' }],
+      returnDisplay: 'done',
+    });
+    const result = await invocation.execute({
+      abortSignal: new AbortController().signal,
+    });
+
+    expect(LocalSubagentInvocation).toHaveBeenCalledWith(
+      testLocalDefinition,
+      mockConfig,
+      { objective: 'Review core' },
+      mockMessageBus,
+    );
+    expect(LocalSubagentInvocation).toHaveBeenCalledWith(
+      testLocalDefinition,
+      mockConfig,
+      { objective: 'Review cli' },
+      mockMessageBus,
+    );
+    expect(result.data).toEqual({
+      fanOut: expect.objectContaining({
+        agent: 'TestLocalAgent',
+        total: 2,
+        completed: 2,
+        failed: 0,
+      }),
+    });
+  });
+
+  it('should reject fan-out inputs for the browser agent', () => {
+    expect(() =>
+      tool.build({
+        agent_name: BROWSER_AGENT_NAME,
+        prompt: 'Open {{input}}',
+        inputs: ['a.com', 'b.com'],
+      }),
+    ).toThrow(`Subagent '${BROWSER_AGENT_NAME}' cannot run with 'inputs'.`);
+  });
 });
@@ -29,6 +29,28 @@ import {
   GEN_AI_AGENT_NAME,
 } from '../telemetry/constants.js';
 import { AGENT_TOOL_NAME } from '../tools/tool-names.js';
+import {
+  buildFanOutPrompt,
+  DEFAULT_FAN_OUT_CONCURRENCY,
+  FAN_OUT_INPUT_PLACEHOLDER,
+  MAX_FAN_OUT_INPUTS,
+  runFanOut,
+} from './fan-out.js';
+
+/**
+ * Parameters for the AgentTool.
+ */
+interface AgentToolParams {
+  agent_name: string;
+  prompt: string;
+  /** When set, one instance of the agent runs per input. */
+  inputs?: string[];
+}
+
+interface FanOutInput {
+  input: string;
+  agentInputs: AgentInputs;
+}
 
 /**
  * A unified tool for invoking subagents.
@@ -38,7 +60,7 @@ import { AGENT_TOOL_NAME } from '../tools/tool-names.js';
  * and delegating execution.
  */
 export class AgentTool extends BaseDeclarativeTool<
-  { agent_name: string; prompt: string },
+  AgentToolParams,
   ToolResult
 > {
   static readonly Name = AGENT_TOOL_NAME;
@@ -64,6 +86,13 @@ export class AgentTool extends BaseDeclarativeTool<
             description:
               'The COMPLETE query to send the subagent. MUST be comprehensive and detailed. Include all context, background, questions, and expected output format. Do NOT send brief or incomplete instructions.',
           },
+          inputs: {
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1,
+            maxItems: MAX_FAN_OUT_INPUTS,
+            description: `Optional. Runs one instance of the subagent per item, several at a time, and returns all results merged into one JSON object. Use it to apply the same task to many independent items, e.g. reviewing each of several packages. Each instance receives the prompt with ${FAN_OUT_INPUT_PLACEHOLDER} replaced by its item, or with the item appended if the prompt has no placeholder.`,
+          },
         },
         required: ['agent_name', 'prompt'],
       },
@@ -73,12 +102,24 @@ export class AgentTool extends BaseDeclarativeTool<
     );
   }
 
+  protected override validateToolParamValues(
+    params: AgentToolParams,
+  ): string | null {
+    if (
+      params.inputs !== undefined &&
+      params.agent_name === BROWSER_AGENT_NAME
+    ) {
+      return `Subagent '${BROWSER_AGENT_NAME}' cannot run with 'inputs'.`;
+    }
+    return null;
+  }
+
   protected createInvocation(
-    params: { agent_name: string; prompt: string },
+    params: AgentToolParams,
     messageBus: MessageBus,
     _toolName?: string,
     _toolDisplayName?: string,
-  ): ToolInvocation<{ agent_name: string; prompt: string }, ToolResult> {
+  ): ToolInvocation<AgentToolParams, ToolResult> {
     const registry = this.context.config.getAgentRegistry();
     const definition = registry.getDefinition(params.agent_name);
 
@@ -92,9 +133,18 @@ export class AgentTool extends BaseDeclarativeTool<
       definition.inputConfig.inputSchema,
     );
 
+    const fanOutInputs = params.inputs?.map((input) => ({
+      input,
+      agentInputs: this.mapParams(
+        buildFanOutPrompt(params.prompt, input),
+        definition.inputConfig.inputSchema,
+      ),
+    }));
+
     return new DelegateInvocation(
       params,
       mappedInputs,
+      fanOutInputs,
       messageBus,
       definition,
       this.context,
@@ -120,14 +170,15 @@ export class AgentTool extends BaseDeclarativeTool<
 }
 
 class DelegateInvocation extends BaseToolInvocation<
-  { agent_name: string; prompt: string },
+  AgentToolParams,
   ToolResult
 > {
   private readonly startIndex: number;
 
   constructor(
-    params: { agent_name: string; prompt: string },
+    params: AgentToolParams,
     private readonly mappedInputs: AgentInputs,
+    private readonly fanOutInputs: FanOutInput[] | undefined,
     messageBus: MessageBus,
     private readonly definition: AgentDefinition,
     private readonly context: AgentLoopContext,
@@ -144,6 +195,9 @@ class DelegateInvocation extends BaseToolInvocation<
   }
 
   getDescription(): string {
+    if (this.fanOutInputs) {
+      return `Delegating ${this.fanOutInputs.length} tasks to agent '${this.definition.name}'`;
+    }
     return `Delegating to agent '${this.definition.name}'`;
   }
 
@@ -180,15 +234,16 @@ class DelegateInvocation extends BaseToolInvocation<
   override async shouldConfirmExecute(
     abortSignal: AbortSignal,
   ): Promise<ToolCallConfirmationDetails | false> {
-    const hintedParams = this.withUserHints(this.mappedInputs);
+    // A fan-out is confirmed once, based on its first input.
+    const hintedParams = this.withUserHints(
+      this.fanOutInputs?.[0]?.agentInputs ?? this.mappedInputs,
+    );
     const invocation = this.buildChildInvocation(hintedParams);
     return invocation.shouldConfirmExecute(abortSignal);
   }
 
   async execute(options: ExecuteOptions): Promise<ToolResult> {
     const { abortSignal: signal, updateOutput } = options;
-    const hintedParams = this.withUserHints(this.mappedInputs);
-    const invocation = this.buildChildInvocation(hintedParams);
 
     return runInDevTraceSpan(
       {
@@ -202,10 +257,22 @@ class DelegateInvocation extends BaseToolInvocation<
       },
       async ({ metadata }) => {
         metadata.input = this.params;
-        const result = await invocation.execute({
-          abortSignal: signal,
-          updateOutput,
-        });
+        const result = this.fanOutInputs
+          ? await runFanOut(
+              this.definition,
+              this.fanOutInputs,
+              (agentInputs) =>
+                this.buildChildInvocation(this.withUserHints(agentInputs)),
+              this.context.config.getAgentsSettings()?.maxConcurrentFanOut ??
+                DEFAULT_FAN_OUT_CONCURRENCY,
+              options,
+            )
+          : await this.buildChildInvocation(
+              this.withUserHints(this.mappedInputs),
+            ).execute({
+              abortSignal: signal,
+              updateOutput,
+            });
         metadata.output = result;
         return result;
       },
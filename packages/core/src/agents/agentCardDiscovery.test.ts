@@ -0,0 +1,259 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AgentCard } from '@a2a-js/sdk';
+import {
+  discoverRemoteAgents,
+  getAgentCardHash,
+  toAgentName,
+} from './agentCardDiscovery.js';
+import type { RemoteAgentDefinition } from './types.js';
+
+function makeCard(overrides: Partial<AgentCard> = {}): AgentCard {
+  return {
+    name: 'Weather Agent',
+    description: 'Answers questions about the weather.',
+    url: 'http://localhost:9999/a2a',
+    version: '1.0.0',
+    protocolVersion: '0.3.0',
+    capabilities: { streaming: true },
+    defaultInputModes: ['text'],
+    defaultOutputModes: ['text'],
+    skills: [
+      {
+        id: 'forecast',
+        name: 'Forecast',
+        description: 'Gives the forecast for a city.',
+        tags: [],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('toAgentName', () => {
+  it('turns card names into agent name slugs', () => {
+    expect(toAgentName('Weather Agent')).toBe('weather-agent');
+    expect(toAgentName('  Code.Review (beta) ')).toBe('code-review-beta');
+    expect(toAgentName('my_agent-2')).toBe('my_agent-2');
+  });
+});
+
+describe('getAgentCardHash', () => {
+  it('changes when the skills change', () => {
+    const changed = makeCard({
+      skills: [
+        {
+          id: 'forecast',
+          name: 'Forecast',
+          description: 'Gives the forecast and sends alerts.',
+          tags: [],
+        },
+      ],
+    });
+    expect(getAgentCardHash(changed)).not.toBe(getAgentCardHash(makeCard()));
+  });
+
+  it('changes when the authentication requirements change', () => {
+    const changed = makeCard({
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      security: [{ apiKey: [] }],
+    });
+    expect(getAgentCardHash(changed)).not.toBe(getAgentCardHash(makeCard()));
+  });
+
+  it('ignores changes to the description and version', () => {
+    const changed = makeCard({ description: 'New wording.', version: '1.1.0' });
+    expect(getAgentCardHash(changed)).toBe(getAgentCardHash(makeCard()));
+  });
+});
+
+describe('discoverRemoteAgents', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-cards-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('imports every agent card in a directory', async () => {
+    const cardsDir = path.join(tempDir, 'cards');
+    await fs.mkdir(cardsDir);
+    await fs.writeFile(
+      path.join(cardsDir, 'weather.json'),
+      JSON.stringify(makeCard()),
+    );
+    await fs.writeFile(
+      path.join(cardsDir, 'review.json'),
+      JSON.stringify(makeCard({ name: 'Code Review', skills: [] })),
+    );
+    await fs.writeFile(path.join(cardsDir, '_draft.json'), '{}');
+    await fs.writeFile(path.join(cardsDir, 'notes.md'), '# Notes');
+
+    const result = await discoverRemoteAgents(['cards'], tempDir);
+
+    expect(result.errors).toEqual([]);
+    const agents = result.agents as RemoteAgentDefinition[];
+    expect(agents.map((agent) => agent.name).sort()).toEqual([
+      'code-review',
+      'weather-agent',
+    ]);
+    const weather = agents.find((agent) => agent.name === 'weather-agent')!;
+    expect(weather).toMatchObject({
+      kind: 'remote',
+      displayName: 'Weather Agent',
+      description: 'Answers questions about the weather.',
+      metadata: {
+        hash: getAgentCardHash(makeCard()),
+        filePath: path.join(cardsDir, 'weather.json'),
+      },
+    });
+    expect(JSON.parse(weather.agentCardJson!)).toMatchObject({
+      name: 'Weather Agent',
+      url: 'http://localhost:9999/a2a',
+    });
+  });
+
+  it('reports invalid cards and missing directories', async () => {
+    await fs.writeFile(path.join(tempDir, 'broken.json'), 'not json');
+    await fs.writeFile(
+      path.join(tempDir, 'nameless.json'),
+      JSON.stringify(makeCard({ name: '!!!' })),
+    );
+
+    const result = await discoverRemoteAgents(
+      [tempDir, path.join(tempDir, 'missing')],
+      tempDir,
+    );
+
+    expect(result.agents).toEqual([]);
+    expect(result.errors.map((error) => error.message)).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('broken.json: Invalid agent card'),
+        expect.stringContaining('nameless.json: Invalid agent card'),
+        expect.stringContaining('Agent card directory does not exist.'),
+      ]),
+    );
+  });
+
+  it('keeps the first card when two cards map to the same name', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'a.json'),
+      JSON.stringify(makeCard()),
+    );
+    const otherDir = path.join(tempDir, 'other');
+    await fs.mkdir(otherDir);
+    await fs.writeFile(
+      path.join(otherDir, 'b.json'),
+      JSON.stringify(makeCard({ name: 'weather agent' })),
+    );
+
+    const result = await discoverRemoteAgents([tempDir, otherDir], tempDir);
+
+    expect(result.agents).toHaveLength(1);
+    expect(result.agents[0].metadata?.filePath).toBe(
+      path.join(tempDir, 'a.json'),
+    );
+    expect(result.errors[0].message).toContain(
+      "Another agent card is already named 'weather-agent'.",
+    );
+  });
+
+  describe('with a local A2A server', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let cards: Record<string, AgentCard>;
+
+    beforeEach(async () => {
+      cards = {};
+      server = http.createServer((req, res) => {
+        const card = cards[req.url ?? ''];
+        if (!card) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(card));
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      const { port } = server.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('imports agents from card URLs', async () => {
+      cards['/.well-known/agent-card.json'] = makeCard({
+        url: `${baseUrl}/a2a`,
+      });
+      cards['/cards/review.json'] = makeCard({
+        name: 'Code Review',
+        url: `${baseUrl}/review`,
+      });
+
+      const result = await discoverRemoteAgents(
+        [
+          `${baseUrl}/.well-known/agent-card.json`,
+          `${baseUrl}/cards/review.json`,
+        ],
+        tempDir,
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.agents).toHaveLength(2);
+      expect(result.agents[0]).toMatchObject({
+        name: 'weather-agent',
+        agentCardUrl: `${baseUrl}/.well-known/agent-card.json`,
+      });
+      expect(result.agents[1]).toMatchObject({
+        name: 'code-review',
+        agentCardUrl: `${baseUrl}/cards/review.json`,
+      });
+    });
+
+    it('picks up changes to a served card', async () => {
+      const url = `${baseUrl}/.well-known/agent-card.json`;
+      cards['/.well-known/agent-card.json'] = makeCard();
+      const before = await discoverRemoteAgents([url], tempDir);
+
+      cards['/.well-known/agent-card.json'] = makeCard({
+        securitySchemes: {
+          bearer: { type: 'http', scheme: 'bearer' },
+        },
+      });
+      const after = await discoverRemoteAgents([url], tempDir);
+
+      expect(after.agents[0].metadata?.hash).not.toBe(
+        before.agents[0].metadata?.hash,
+      );
+    });
+
+    it('reports cards that cannot be fetched', async () => {
+      const result = await discoverRemoteAgents(
+        [`${baseUrl}/missing.json`],
+        tempDir,
+      );
+
+      expect(result.agents).toEqual([]);
+      expect(result.errors[0].message).toContain('Could not fetch agent card');
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import { type Dirent } from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import type { AgentCard } from '@a2a-js/sdk';
+import { DefaultAgentCardResolver } from '@a2a-js/sdk/client';
+import type { RemoteAgentDefinition } from './types.js';
+import { AgentLoadError, type AgentLoadResult } from './agentLoader.js';
+import { normalizeAgentCard } from './a2aUtils.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { homedir } from '../utils/paths.js';
+
+const CARD_FETCH_TIMEOUT_MS = 10000;
+
+interface CardLoadResult {
+  agents: RemoteAgentDefinition[];
+  errors: AgentLoadError[];
+}
+
+/**
+ * Returns true if a source is the URL of an agent card rather than a
+ * directory.
+ */
+export function isAgentCardUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Derives a valid agent name from the name in an agent card.
+ */
+export function toAgentName(cardName: string): string {
+  return cardName
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Hashes the parts of an agent card that the user acknowledges: where the
+ * agent lives, what it can do and how it authenticates. Changes to other
+ * fields, like the description, don't require a new acknowledgement.
+ */
+export function getAgentCardHash(card: AgentCard): string {
+  const acknowledged = {
+    url: card.url,
+    skills: (card.skills ?? []).map((skill) => ({
+      id: skill.id,
+      name: skill.name,
+      description: skill.description,
+    })),
+    securitySchemes: card.securitySchemes ?? {},
+    security: card.security ?? [],
+  };
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(acknowledged))
+    .digest('hex');
+}
+
+function toAgentDefinition(
+  card: AgentCard,
+  cardJson: string,
+  source: { agentCardUrl?: string; filePath?: string },
+): RemoteAgentDefinition {
+  const name = toAgentName(card.name ?? '');
+  if (!name) {
+    throw new Error('Agent card has no usable name.');
+  }
+  return {
+    kind: 'remote',
+    name,
+    displayName: card.name,
+    description: card.description ?? '',
+    // The card's description is merged in on registration; there is no
+    // user-provided one.
+    originalDescription: '',
+    inputConfig: {
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'The task for the agent.',
+          },
+        },
+        required: [],
+      },
+    },
+    agentCardUrl: source.agentCardUrl,
+    agentCardJson: cardJson,
+    metadata: { hash: getAgentCardHash(card), filePath: source.filePath },
+  };
+}
+
+function resolveDirectory(source: string, projectRoot: string): string {
+  const expanded =
+    source === '~' || source.startsWith('~/')
+      ? path.join(homedir(), source.slice(1))
+      : source;
+  return path.resolve(projectRoot, expanded);
+}
+
+async function loadCardsFromDirectory(
+  dir: string,
+  result: CardLoadResult,
+): Promise<void> {
+  let dirEntries: Dirent[];
+  try {
+    dirEntries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    result.errors.push(
+      new AgentLoadError(
+        dir,
+        isNodeError(error) && error.code === 'ENOENT'
+          ? 'Agent card directory does not exist.'
+          : `Could not list directory: ${getErrorMessage(error)}`,
+      ),
+    );
+    return;
+  }
+
+  const files = dirEntries.filter(
+    (entry) =>
+      entry.isFile() &&
+      !entry.name.startsWith('_') &&
+      entry.name.endsWith('.json'),
+  );
+  for (const entry of files) {
+    const filePath = path.join(dir, entry.name);
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const card = normalizeAgentCard(JSON.parse(content));
+      result.agents.push(
+        toAgentDefinition(card, JSON.stringify(card), { filePath }),
+      );
+    } catch (error) {
+      result.errors.push(
+        new AgentLoadError(
+          filePath,
+          `Invalid agent card: ${getErrorMessage(error)}`,
+        ),
+      );
+    }
+  }
+}
+
+async function loadCardFromUrl(
+  url: string,
+  result: CardLoadResult,
+): Promise<void> {
+  const resolver = new DefaultAgentCardResolver({
+    fetchImpl: (input, init) =>
+      fetch(input, {
+        ...init,
+        signal: AbortSignal.timeout(CARD_FETCH_TIMEOUT_MS),
+      }),
+  });
+  try {
+    const card = normalizeAgentCard(await resolver.resolve(url, ''));
+    result.agents.push(
+      toAgentDefinition(card, JSON.stringify(card), { agentCardUrl: url }),
+    );
+  } catch (error) {
+    result.errors.push(
+      new AgentLoadError(
+        url,
+        `Could not fetch agent card: ${getErrorMessage(error)}`,
+      ),
+    );
+  }
+}
+
+/**
+ * Imports remote agents from A2A agent cards. Each source is either the URL
+ * of an agent card or a directory of agent card `.json` files; relative
+ * directories are resolved against the project root.
+ *
+ * Each agent is named after its card and carries a hash of the card's skills
+ * and authentication requirements in `metadata.hash`, so that changes to them
+ * can be acknowledged again. When several cards map to the same name, the
+ * first one wins.
+ */
+export async function discoverRemoteAgents(
+  sources: string[],
+  projectRoot: string,
+): Promise<AgentLoadResult> {
+  const loaded = await Promise.all(
+    sources.map(async (source) => {
+      const result: CardLoadResult = { agents: [], errors: [] };
+      if (isAgentCardUrl(source)) {
+        await loadCardFromUrl(source, result);
+      } else {
+        await loadCardsFromDirectory(
+          resolveDirectory(source, projectRoot),
+          result,
+        );
+      }
+      return result;
+    }),
+  );
+
+  const result: AgentLoadResult = { agents: [], errors: [] };
+  const seen = new Set<string>();
+  for (const { agents, errors } of loaded) {
+    result.errors.push(...errors);
+    for (const agent of agents) {
+      if (seen.has(agent.name)) {
+        result.errors.push(
+          new AgentLoadError(
+            agent.agentCardUrl ?? agent.metadata?.filePath ?? agent.name,
+            `Another agent card is already named '${agent.name}'.`,
+          ),
+        );
+        continue;
+      }
+      seen.add(agent.name);
+      result.agents.push(agent);
+    }
+  }
+  return result;
+}
@@ -111,6 +111,35 @@ System prompt content.`);
       });
     });
 
+    it('should parse frontmatter with worktree isolation', async () => {
+      const filePath = await writeAgentMarkdown(`---
+name: isolated-agent
+description: An agent that edits files in its own worktree
+isolation: worktree
+---
+System prompt content.`);
+
+      const result = await parseAgentMarkdown(filePath);
+      expect(result[0]).toMatchObject({ isolation: 'worktree' });
+      expect(markdownToAgentDefinition(result[0])).toMatchObject({
+        kind: 'local',
+        isolation: 'worktree',
+      });
+    });
+
+    it('should reject unknown isolation modes', async () => {
+      const filePath = await writeAgentMarkdown(`---
+name: isolated-agent
+description: An agent with a bad isolation mode
+isolation: container
+---
+System prompt content.`);
+
+      await expect(parseAgentMarkdown(filePath)).rejects.toThrow(
+        AgentLoadError,
+      );
+    });
+
     it('should throw AgentLoadError if frontmatter is missing', async () => {
       const filePath = await writeAgentMarkdown(`Just some markdown content.`);
       await expect(parseAgentMarkdown(filePath)).rejects.toThrow(
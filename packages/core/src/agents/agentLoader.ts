@@ -107,6 +107,7 @@ const localAgentSchema = z
     temperature: z.number().optional(),
     max_turns: z.number().int().positive().optional(),
     timeout_mins: z.number().int().positive().optional(),
+    isolation: z.enum(['worktree']).optional(),
   })
   .strict();
 
@@ -266,7 +267,8 @@ function guessIntendedKind(rawInput: unknown): 'local' | 'remote' | undefined {
     'model' in input ||
     'temperature' in input ||
     'max_turns' in input ||
-    'timeout_mins' in input;
+    'timeout_mins' in input ||
+    'isolation' in input;
   const hasRemoteKeys =
     'agent_card_url' in input || 'auth' in input || 'agent_card_json' in input;
 
@@ -604,6 +606,7 @@ export function markdownToAgentDefinition(
         }
       : undefined,
     mcpServers: Object.keys(mcpServers).length > 0 ? mcpServers : undefined,
+    isolation: markdown.isolation,
     inputConfig,
     metadata,
   };
@@ -0,0 +1,283 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { buildFanOutPrompt, runFanOut, type FanOutResult } from './fan-out.js';
+import {
+  AgentTerminateMode,
+  isSubagentFanOutProgress,
+  type AgentInputs,
+  type LocalAgentDefinition,
+  type SubagentProgress,
+} from './types.js';
+import type { ToolInvocation, ToolResult } from '../tools/tools.js';
+
+const definition: LocalAgentDefinition = {
+  kind: 'local',
+  name: 'Reviewer',
+  description: 'Reviews things.',
+  inputConfig: { inputSchema: { type: 'object' } },
+  modelConfig: { model: 'test', generateContentConfig: {} },
+  runConfig: { maxTimeMinutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+function completed(result: string): ToolResult {
+  const progress: SubagentProgress = {
+    isSubagentProgress: true,
+    agentName: definition.name,
+    recentActivity: [],
+    state: 'completed',
+    result,
+    terminateReason: AgentTerminateMode.GOAL,
+  };
+  return { llmContent: [{ text: result }], returnDisplay: progress };
+}
+
+function fakeInvocation(
+  execute: ToolInvocation<AgentInputs, ToolResult>['execute'],
+): ToolInvocation<AgentInputs, ToolResult> {
+  return { execute } as unknown as ToolInvocation<AgentInputs, ToolResult>;
+}
+
+function toInputs(inputs: string[]) {
+  return inputs.map((input) => ({ input, agentInputs: { objective: input } }));
+}
+
+function getMerged(result: ToolResult): FanOutResult {
+  return (result.data as { fanOut: FanOutResult }).fanOut;
+}
+
+describe('buildFanOutPrompt', () => {
+  it('replaces every placeholder with the input', () => {
+    expect(buildFanOutPrompt('Review {{input}}; report {{input}}.', 'a')).toBe(
+      'Review a; report a.',
+    );
+  });
+
+  it('appends the input when the prompt has no placeholder', () => {
+    expect(buildFanOutPrompt('Review the package.', 'core')).toBe(
+      'Review the package.\n\nInput: core',
+    );
+  });
+});
+
+describe('runFanOut', () => {
+  it('runs every input and merges the results in input order', async () => {
+    const result = await runFanOut(
+      definition,
+      toInputs(['a', 'b', 'c']),
+      (agentInputs) =>
+        fakeInvocation(async () =>
+          completed(`done ${agentInputs['objective']}`),
+        ),
+      2,
+      { abortSignal: new AbortController().signal },
+    );
+
+    const merged = getMerged(result);
+    expect(merged).toEqual({
+      agent: 'Reviewer',
+      total: 3,
+      completed: 3,
+      failed: 0,
+      results: [
+        {
+          input: 'a',
+          status: 'completed',
+          terminate_reason: AgentTerminateMode.GOAL,
+          output: 'done a',
+        },
+        {
+          input: 'b',
+          status: 'completed',
+          terminate_reason: AgentTerminateMode.GOAL,
+          output: 'done b',
+        },
+        {
+          input: 'c',
+          status: 'completed',
+          terminate_reason: AgentTerminateMode.GOAL,
+          output: 'done c',
+        },
+      ],
+    });
+    expect(result.llmContent).toEqual([
+      {
+        text: expect.stringContaining(
+          "Subagent 'Reviewer' ran for 3 inputs: 3 completed, 0 failed.",
+        ),
+      },
+    ]);
+  });
+
+  it('runs at most maxConcurrency instances at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await runFanOut(
+      definition,
+      toInputs(['a', 'b', 'c', 'd', 'e']),
+      () =>
+        fakeInvocation(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return completed('ok');
+        }),
+      2,
+      { abortSignal: new AbortController().signal },
+    );
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('validates outputs against the output schema', async () => {
+    const withSchema: LocalAgentDefinition<
+      z.ZodObject<{ score: z.ZodNumber }>
+    > = {
+      ...definition,
+      outputConfig: {
+        outputName: 'report',
+        description: 'The report.',
+        schema: z.object({ score: z.number() }),
+      },
+    };
+
+    const result = await runFanOut(
+      withSchema,
+      toInputs(['good', 'bad']),
+      (agentInputs) =>
+        fakeInvocation(async () =>
+          completed(
+            agentInputs['objective'] === 'good'
+              ? JSON.stringify({ score: 3 })
+              : JSON.stringify({ score: 'high' }),
+          ),
+        ),
+      4,
+      { abortSignal: new AbortController().signal },
+    );
+
+    const merged = getMerged(result);
+    expect(merged.completed).toBe(1);
+    expect(merged.failed).toBe(1);
+    expect(merged.results[0]).toMatchObject({
+      status: 'completed',
+      output: { score: 3 },
+    });
+    expect(merged.results[1]).toMatchObject({
+      status: 'error',
+      output: { score: 'high' },
+      error: expect.stringContaining(
+        "does not match the agent's output schema",
+      ),
+    });
+  });
+
+  it('records failures without stopping the other instances', async () => {
+    const result = await runFanOut(
+      definition,
+      toInputs(['a', 'b', 'c']),
+      (agentInputs) =>
+        fakeInvocation(async () => {
+          if (agentInputs['objective'] === 'b') {
+            throw new Error('boom');
+          }
+          return completed('ok');
+        }),
+      1,
+      { abortSignal: new AbortController().signal },
+    );
+
+    const merged = getMerged(result);
+    expect(merged.results.map((item) => item.status)).toEqual([
+      'completed',
+      'error',
+      'completed',
+    ]);
+    expect(merged.results[1].error).toBe('boom');
+  });
+
+  it('treats a non-goal termination as a failure', async () => {
+    const result = await runFanOut(
+      definition,
+      toInputs(['a']),
+      () =>
+        fakeInvocation(async () => ({
+          llmContent: [{ text: 'timed out' }],
+          returnDisplay: {
+            isSubagentProgress: true,
+            agentName: definition.name,
+            recentActivity: [],
+            state: 'completed',
+            result: 'Ran out of time.',
+            terminateReason: AgentTerminateMode.TIMEOUT,
+          },
+        })),
+      1,
+      { abortSignal: new AbortController().signal },
+    );
+
+    expect(getMerged(result).results[0]).toEqual({
+      input: 'a',
+      status: 'error',
+      terminate_reason: AgentTerminateMode.TIMEOUT,
+      error: 'Ran out of time.',
+    });
+  });
+
+  it('streams the progress of every instance', async () => {
+    const updateOutput = vi.fn();
+    await runFanOut(
+      definition,
+      toInputs(['a', 'b']),
+      () =>
+        fakeInvocation(async ({ updateOutput: report }) => {
+          report?.({
+            isSubagentProgress: true,
+            agentName: definition.name,
+            recentActivity: [],
+            state: 'running',
+          });
+          return completed('ok');
+        }),
+      2,
+      { abortSignal: new AbortController().signal, updateOutput },
+    );
+
+    const updates = updateOutput.mock.calls.map(([output]) => output);
+    expect(updates.every(isSubagentFanOutProgress)).toBe(true);
+    expect(updates[0].items).toEqual([{ input: 'a' }, { input: 'b' }]);
+    expect(
+      updates
+        .at(-1)
+        .items.map((item: { progress?: SubagentProgress }) => [
+          item.progress?.state,
+        ]),
+    ).toEqual([['completed'], ['completed']]);
+  });
+
+  it('stops queued instances and throws when aborted', async () => {
+    const controller = new AbortController();
+    const execute = vi.fn(async () => {
+      controller.abort();
+      return completed('ok');
+    });
+
+    await expect(
+      runFanOut(
+        definition,
+        toInputs(['a', 'b', 'c']),
+        () => fakeInvocation(execute),
+        1,
+        { abortSignal: controller.signal },
+      ),
+    ).rejects.toThrow('Operation cancelled by user');
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
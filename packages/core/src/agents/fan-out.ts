@@ -0,0 +1,257 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { z } from 'zod';
+import type {
+  ExecuteOptions,
+  ToolInvocation,
+  ToolResult,
+} from '../tools/tools.js';
+import {
+  AgentTerminateMode,
+  isSubagentProgress,
+  type AgentDefinition,
+  type AgentInputs,
+  type SubagentFanOutItem,
+  type SubagentFanOutProgress,
+  type SubagentProgress,
+} from './types.js';
+import { partToString } from '../utils/partUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+/** Default number of subagent instances a fan-out runs at once. */
+export const DEFAULT_FAN_OUT_CONCURRENCY = 4;
+
+/** Maximum number of inputs a single fan-out accepts. */
+export const MAX_FAN_OUT_INPUTS = 50;
+
+/** Placeholder in a fan-out prompt that is replaced by each input. */
+export const FAN_OUT_INPUT_PLACEHOLDER = '{{input}}';
+
+/**
+ * The outcome of one input of a fan-out.
+ */
+export interface FanOutItemResult {
+  input: string;
+  status: 'completed' | 'error' | 'cancelled';
+  terminate_reason?: AgentTerminateMode;
+  /**
+   * The instance's output. For agents with an output schema, this is the
+   * parsed output that matched the schema, or the raw result if it didn't.
+   */
+  output?: unknown;
+  error?: string;
+}
+
+/**
+ * The merged output of a fan-out, returned to the model as JSON.
+ */
+export interface FanOutResult {
+  agent: string;
+  total: number;
+  completed: number;
+  failed: number;
+  results: FanOutItemResult[];
+}
+
+/**
+ * Builds the prompt for one input: the placeholder is replaced by the input,
+ * or the input is appended when the prompt has no placeholder.
+ */
+export function buildFanOutPrompt(prompt: string, input: string): string {
+  if (prompt.includes(FAN_OUT_INPUT_PLACEHOLDER)) {
+    return prompt.split(FAN_OUT_INPUT_PLACEHOLDER).join(input);
+  }
+  return `${prompt}\n\nInput: ${input}`;
+}
+
+function parseOutput<TOutput extends z.ZodTypeAny>(
+  definition: AgentDefinition<TOutput>,
+  result: string,
+): { output: unknown; error?: string } {
+  const schema = definition.outputConfig?.schema;
+  if (!schema) {
+    return { output: result };
+  }
+  let value: unknown = result;
+  try {
+    value = JSON.parse(result);
+  } catch {
+    // Schemas for plain strings receive the result as is.
+  }
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { output: parsed.data };
+  }
+  return {
+    output: value,
+    error: `Output does not match the agent's output schema: ${parsed.error.message}`,
+  };
+}
+
+function toItemResult<TOutput extends z.ZodTypeAny>(
+  definition: AgentDefinition<TOutput>,
+  input: string,
+  result: ToolResult,
+): FanOutItemResult {
+  const progress = isSubagentProgress(result.returnDisplay)
+    ? result.returnDisplay
+    : undefined;
+  const text = progress?.result ?? partToString(result.llmContent);
+
+  if (result.error || progress?.state === 'error') {
+    const lastError = progress?.recentActivity
+      .filter((item) => item.status === 'error')
+      .pop();
+    return {
+      input,
+      status: 'error',
+      error: result.error?.message ?? lastError?.content ?? text,
+    };
+  }
+
+  const terminateReason = progress?.terminateReason;
+  if (terminateReason && terminateReason !== AgentTerminateMode.GOAL) {
+    return {
+      input,
+      status: 'error',
+      terminate_reason: terminateReason,
+      error: text,
+    };
+  }
+
+  const { output, error } = parseOutput(definition, text);
+  return {
+    input,
+    status: error ? 'error' : 'completed',
+    terminate_reason: terminateReason,
+    output,
+    error,
+  };
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Runs one subagent instance per input, at most `maxConcurrency` at a time,
+ * and merges their results into a single {@link FanOutResult}.
+ *
+ * Progress of every instance is reported through `updateOutput` as a
+ * {@link SubagentFanOutProgress}. A failing instance doesn't stop the others;
+ * its error is recorded in the merged result. Cancelling the signal stops
+ * queued instances from starting and throws an `AbortError` once the running
+ * ones have stopped.
+ */
+export async function runFanOut<TOutput extends z.ZodTypeAny>(
+  definition: AgentDefinition<TOutput>,
+  inputs: Array<{ input: string; agentInputs: AgentInputs }>,
+  buildInvocation: (
+    agentInputs: AgentInputs,
+  ) => ToolInvocation<AgentInputs, ToolResult>,
+  maxConcurrency: number,
+  { abortSignal: signal, updateOutput }: ExecuteOptions,
+): Promise<ToolResult> {
+  const items: SubagentFanOutItem[] = inputs.map(({ input }) => ({ input }));
+  const results: Array<FanOutItemResult | undefined> = [];
+
+  const buildProgress = (): SubagentFanOutProgress => ({
+    isSubagentFanOutProgress: true,
+    agentName: definition.name,
+    items: items.map((item) => ({ ...item })),
+  });
+  const reportProgress = () => updateOutput?.(buildProgress());
+
+  const runItem = async (index: number) => {
+    const { input, agentInputs } = inputs[index];
+    const setProgress = (progress: SubagentProgress) => {
+      items[index].progress = progress;
+      reportProgress();
+    };
+    try {
+      const result = await buildInvocation(agentInputs).execute({
+        abortSignal: signal,
+        updateOutput: (output) => {
+          if (isSubagentProgress(output)) {
+            setProgress(output);
+          }
+        },
+      });
+      if (isSubagentProgress(result.returnDisplay)) {
+        setProgress(result.returnDisplay);
+      }
+      results[index] = toItemResult(definition, input, result);
+    } catch (error) {
+      const cancelled = signal.aborted || isAbortError(error);
+      if (!cancelled) {
+        debugLogger.warn(
+          `Fan-out instance of '${definition.name}' failed:`,
+          error,
+        );
+      }
+      setProgress({
+        isSubagentProgress: true,
+        agentName: definition.name,
+        recentActivity: items[index].progress?.recentActivity ?? [],
+        state: cancelled ? 'cancelled' : 'error',
+      });
+      results[index] = cancelled
+        ? { input, status: 'cancelled' }
+        : { input, status: 'error', error: getErrorMessage(error) };
+    }
+  };
+
+  reportProgress();
+  let next = 0;
+  const worker = async () => {
+    while (next < inputs.length && !signal.aborted) {
+      await runItem(next++);
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(maxConcurrency, inputs.length)) },
+      worker,
+    ),
+  );
+
+  if (signal.aborted) {
+    const cancelError = new Error('Operation cancelled by user');
+    cancelError.name = 'AbortError';
+    throw cancelError;
+  }
+
+  const merged: FanOutResult = {
+    agent: definition.name,
+    total: inputs.length,
+    completed: 0,
+    failed: 0,
+    results: items.map(
+      ({ input }, index) => results[index] ?? { input, status: 'cancelled' },
+    ),
+  };
+  for (const result of merged.results) {
+    if (result.status === 'completed') {
+      merged.completed++;
+    } else {
+      merged.failed++;
+    }
+  }
+
+  return {
+    llmContent: [
+      {
+        text: `Subagent '${definition.name}' ran for ${merged.total} inputs: ${merged.completed} completed, ${merged.failed} failed.
+Results:
+${JSON.stringify(merged, null, 2)}`,
+      },
+    ],
+    returnDisplay: buildProgress(),
+    data: { fanOut: merged },
+  };
+}
@@ -48,6 +48,9 @@ vi.mock('../tools/mcp-client-manager.js', () => ({
   },
 }));
 
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { debugLogger } from '../utils/debugLogger.js';
 import { LocalAgentExecutor, type ActivityCallback } from './local-executor.js';
 import { makeFakeConfig } from '../test-utils/config.js';
@@ -210,9 +213,30 @@ vi.mock('../config/scoped-config.js', async (importOriginal) => {
   };
 });
 
+const mockWorktree = vi.hoisted(() => ({
+  setup: vi.fn(),
+  maybeCleanup: vi.fn(),
+  hasWorktreeChanges: vi.fn(),
+  getWorktreePatch: vi.fn(),
+  cleanupWorktree: vi.fn(),
+}));
+
+vi.mock('../services/worktreeService.js', () => ({
+  WorktreeService: class {
+    setup = mockWorktree.setup;
+    maybeCleanup = mockWorktree.maybeCleanup;
+  },
+  getProjectRootForWorktree: vi.fn(async () => '/project'),
+  hasWorktreeChanges: mockWorktree.hasWorktreeChanges,
+  getWorktreePatch: mockWorktree.getWorktreePatch,
+  cleanupWorktree: mockWorktree.cleanupWorktree,
+  applyWorktreePatch: vi.fn(),
+}));
+
 import {
   runWithScopedWorkspaceContext,
   createScopedWorkspaceContext,
+  getTargetDirOverride,
 } from '../config/scoped-config.js';
 const mockedRunWithScopedWorkspaceContext = vi.mocked(
   runWithScopedWorkspaceContext,
@@ -964,6 +988,175 @@ describe('LocalAgentExecutor', () => {
     });
   });
 
+  describe('run (Worktree Isolation)', () => {
+    let worktree: { name: string; path: string; baseSha: string };
+    const patch = 'diff --git a/a.ts b/a.ts\n';
+
+    const runIsolatedAgent = async () => {
+      const definition = createTestDefinition();
+      definition.isolation = 'worktree';
+      const executor = await LocalAgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+      mockModelResponse([
+        {
+          name: COMPLETE_TASK_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'c1',
+        },
+      ]);
+      return executor.run({ goal: 'test' }, signal);
+    };
+
+    const mockMergeCall = (call: Record<string, unknown>) => {
+      mockScheduleAgentTools.mockImplementation(async (_config, requests) =>
+        requests.map((req: ToolCallRequestInfo) =>
+          req.name === 'merge_worktree'
+            ? { request: req, ...call }
+            : {
+                status: 'success',
+                request: req,
+                response: {
+                  resultDisplay: 'Task completed.',
+                  responseParts: [],
+                  data: { taskCompleted: true, submittedOutput: 'done' },
+                },
+              },
+        ),
+      );
+    };
+
+    beforeEach(() => {
+      worktree = {
+        name: 'agent-test',
+        path: fs.mkdtempSync(path.join(os.tmpdir(), 'agent-worktree-')),
+        baseSha: 'base-sha',
+      };
+      mockWorktree.setup.mockResolvedValue(worktree);
+      mockWorktree.hasWorktreeChanges.mockResolvedValue(true);
+      mockWorktree.getWorktreePatch.mockResolvedValue(patch);
+      mockWorktree.cleanupWorktree.mockReset();
+    });
+
+    afterEach(() => {
+      fs.rmSync(worktree.path, { recursive: true, force: true });
+    });
+
+    it('should run the agent with the worktree as its target directory', async () => {
+      let targetDir: string | undefined;
+      mockScheduleAgentTools.mockImplementationOnce(
+        async (config, requests) => {
+          targetDir = config.getTargetDir();
+          return requests.map((req: ToolCallRequestInfo) => ({
+            status: 'success',
+            request: req,
+            response: {
+              resultDisplay: 'Task completed.',
+              responseParts: [],
+              data: { taskCompleted: true, submittedOutput: 'done' },
+            },
+          }));
+        },
+      );
+      mockWorktree.hasWorktreeChanges.mockResolvedValue(false);
+
+      const output = await runIsolatedAgent();
+
+      expect(mockWorktree.setup).toHaveBeenCalledWith(
+        expect.stringMatching(/^agent-TestAgent-/),
+      );
+      expect(targetDir).toBe(worktree.path);
+      expect(mockConfig.getTargetDir()).not.toBe(worktree.path);
+      expect(mockWorktree.cleanupWorktree).toHaveBeenCalledWith(
+        worktree.path,
+        '/project',
+      );
+      expect(output.worktree).toBeUndefined();
+    });
+
+    it('should scope the agent to the same subdirectory of the worktree', async () => {
+      let targetDir: string | undefined;
+      mockScheduleAgentTools.mockImplementationOnce(
+        async (config, requests) => {
+          targetDir = config.getTargetDir();
+          return requests.map((req: ToolCallRequestInfo) => ({
+            status: 'success',
+            request: req,
+            response: {
+              resultDisplay: 'Task completed.',
+              responseParts: [],
+              data: { taskCompleted: true, submittedOutput: 'done' },
+            },
+          }));
+        },
+      );
+      mockWorktree.hasWorktreeChanges.mockResolvedValue(false);
+      vi.spyOn(mockConfig, 'getTargetDir').mockImplementation(
+        () =>
+          getTargetDirOverride() ?? path.join('/project', 'packages', 'app'),
+      );
+      fs.mkdirSync(path.join(worktree.path, 'packages', 'app'), {
+        recursive: true,
+      });
+
+      await runIsolatedAgent();
+
+      expect(targetDir).toBe(path.join(worktree.path, 'packages', 'app'));
+    });
+
+    it('should report merged changes when the user approves the patch', async () => {
+      mockMergeCall({ status: 'success', response: {} });
+
+      const output = await runIsolatedAgent();
+
+      expect(mockScheduleAgentTools).toHaveBeenLastCalledWith(
+        mockConfig,
+        [expect.objectContaining({ name: 'merge_worktree', args: {} })],
+        expect.objectContaining({ subagent: 'TestAgent' }),
+      );
+      expect(output.worktree).toEqual({
+        status: 'merged',
+        path: worktree.path,
+        patch,
+      });
+    });
+
+    it('should discard the worktree when the user rejects the patch', async () => {
+      mockMergeCall({
+        status: 'cancelled',
+        outcome: ToolConfirmationOutcome.Cancel,
+        response: {},
+      });
+
+      const output = await runIsolatedAgent();
+
+      expect(mockWorktree.cleanupWorktree).toHaveBeenCalledWith(
+        worktree.path,
+        '/project',
+      );
+      expect(output.worktree?.status).toBe('discarded');
+    });
+
+    it('should keep the worktree when the patch cannot be merged', async () => {
+      mockMergeCall({
+        status: 'error',
+        response: { error: new Error('patch does not apply') },
+      });
+
+      const output = await runIsolatedAgent();
+
+      expect(mockWorktree.cleanupWorktree).not.toHaveBeenCalled();
+      expect(output.worktree).toEqual({
+        status: 'preserved',
+        path: worktree.path,
+        patch,
+        error: 'patch does not apply',
+      });
+    });
+  });
+
   describe('run (Execution Loop and Logic)', () => {
     it('should log AgentFinish with error if run throws', async () => {
       const definition = createTestDefinition();
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import { type AgentLoopContext } from '../config/agent-loop-context.js';
 import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat, StreamEventType } from '../core/geminiChat.js';
@@ -56,6 +58,7 @@ import {
   type AgentInputs,
   type OutputObject,
   type SubagentActivityEvent,
+  type AgentWorktreeResult,
 } from './types.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { templateString } from './utils.js';
@@ -76,9 +79,20 @@ import {
 import type { InjectionSource } from '../config/injectionService.js';
 import {
   createScopedWorkspaceContext,
+  createWorktreeWorkspaceContext,
+  runWithScopedTargetDir,
   runWithScopedWorkspaceContext,
 } from '../config/scoped-config.js';
 import { CompleteTaskTool } from '../tools/complete-task.js';
+import { MergeWorktreeTool } from '../tools/merge-worktree.js';
+import {
+  WorktreeService,
+  cleanupWorktree,
+  getProjectRootForWorktree,
+  getWorktreePatch,
+  hasWorktreeChanges,
+  type WorktreeInfo,
+} from '../services/worktreeService.js';
 import {
   COMPLETE_TASK_TOOL_NAME,
   ACTIVATE_SKILL_TOOL_NAME,
@@ -523,6 +537,162 @@ export class LocalAgentExecutor<TOutput extends z.ZodTypeAny> {
    * @returns A promise that resolves to the agent's final output.
    */
   async run(inputs: AgentInputs, signal: AbortSignal): Promise<OutputObject> {
+    if (this.definition.isolation === 'worktree') {
+      return this.runInWorktree(inputs, signal);
+    }
+    return this.runInWorkspace(inputs, signal);
+  }
+
+  /**
+   * Runs the agent in a new git worktree of the project. Tools resolve paths
+   * against the worktree's copy of the target directory, and the main
+   * checkout is left out of the agent's workspace. Once the agent finishes,
+   * any changes are offered to the user as a patch to merge into the main
+   * checkout.
+   */
+  private async runInWorktree(
+    inputs: AgentInputs,
+    signal: AbortSignal,
+  ): Promise<OutputObject> {
+    const targetDir = this.context.config.getTargetDir();
+    const projectRoot = await getProjectRootForWorktree(targetDir);
+    const worktreeService = new WorktreeService(projectRoot);
+    const worktree = await worktreeService.setup(
+      `agent-${this.definition.name}-${this.agentId}`,
+    );
+    debugLogger.debug(
+      `[LocalAgentExecutor] Running ${this.definition.name} in worktree ${worktree.path}`,
+    );
+
+    // Keep the agent in the same subdirectory it was started from. Falls back
+    // to the worktree root if that directory isn't checked in.
+    const relativeTargetDir = path.relative(projectRoot, targetDir);
+    const worktreeTargetDir =
+      relativeTargetDir &&
+      !relativeTargetDir.startsWith('..') &&
+      !path.isAbsolute(relativeTargetDir) &&
+      fs.existsSync(path.join(worktree.path, relativeTargetDir))
+        ? path.join(worktree.path, relativeTargetDir)
+        : worktree.path;
+
+    const worktreeContext = createWorktreeWorkspaceContext(
+      this.context.config.getWorkspaceContext(),
+      worktreeTargetDir,
+    );
+
+    let output: OutputObject;
+    try {
+      output = await runWithScopedTargetDir(worktreeTargetDir, () =>
+        runWithScopedWorkspaceContext(worktreeContext, () =>
+          this.runInWorkspace(inputs, signal),
+        ),
+      );
+    } catch (error) {
+      await worktreeService.maybeCleanup(worktree);
+      throw error;
+    }
+
+    const worktreeResult = await this.reviewWorktreeChanges(
+      projectRoot,
+      worktree,
+      signal,
+    );
+    return worktreeResult ? { ...output, worktree: worktreeResult } : output;
+  }
+
+  /**
+   * Asks the user to merge the agent's worktree changes into the main
+   * checkout. Approving applies the patch and removes the worktree, rejecting
+   * it discards the worktree, and anything else (a policy denial, a patch
+   * that no longer applies, cancellation) keeps the worktree for manual
+   * review.
+   *
+   * @returns The outcome, or `undefined` if the agent changed nothing.
+   */
+  private async reviewWorktreeChanges(
+    projectRoot: string,
+    worktree: WorktreeInfo,
+    signal: AbortSignal,
+  ): Promise<AgentWorktreeResult | undefined> {
+    const preserved = (patch: string, error: string): AgentWorktreeResult => ({
+      status: 'preserved',
+      path: worktree.path,
+      patch,
+      error,
+    });
+
+    if (!(await hasWorktreeChanges(worktree.path, worktree.baseSha))) {
+      await cleanupWorktree(worktree.path, projectRoot);
+      return undefined;
+    }
+
+    let patch: string;
+    try {
+      patch = await getWorktreePatch(worktree.path, worktree.baseSha);
+    } catch (error) {
+      return preserved('', getErrorMessage(error));
+    }
+    if (!patch.trim()) {
+      await cleanupWorktree(worktree.path, projectRoot);
+      return undefined;
+    }
+    if (signal.aborted) {
+      return preserved(patch, 'The agent was cancelled before merging.');
+    }
+
+    this.toolRegistry.registerTool(
+      new MergeWorktreeTool(
+        this.toolRegistry.getMessageBus(),
+        this.definition.displayName ?? this.definition.name,
+        projectRoot,
+        worktree,
+        patch,
+      ),
+    );
+    const [call] = await scheduleAgentTools(
+      this.context.config,
+      [
+        {
+          callId: `${this.agentId}-${MergeWorktreeTool.Name}`,
+          name: MergeWorktreeTool.Name,
+          args: {},
+          isClientInitiated: false,
+          prompt_id: this.agentId,
+        },
+      ],
+      {
+        schedulerId: this.agentId,
+        subagent: this.definition.name,
+        parentCallId: this.parentCallId,
+        toolRegistry: this.toolRegistry,
+        promptRegistry: this.promptRegistry,
+        resourceRegistry: this.resourceRegistry,
+        signal,
+      },
+    );
+
+    if (call?.status === 'success') {
+      return { status: 'merged', path: worktree.path, patch };
+    }
+    if (
+      call?.status === 'cancelled' &&
+      call.outcome === ToolConfirmationOutcome.Cancel
+    ) {
+      await cleanupWorktree(worktree.path, projectRoot);
+      return { status: 'discarded', path: worktree.path, patch };
+    }
+    return preserved(
+      patch,
+      call?.status === 'error'
+        ? (call.response.error?.message ?? 'Unknown error')
+        : 'The merge was cancelled.',
+    );
+  }
+
+  private async runInWorkspace(
+    inputs: AgentInputs,
+    signal: AbortSignal,
+  ): Promise<OutputObject> {
     // If the agent definition declares additional workspace directories,
     // wrap execution in a scoped workspace context. All calls to
     // Config.getWorkspaceContext() within this scope will see the extended
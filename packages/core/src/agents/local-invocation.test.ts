@@ -220,6 +220,51 @@ describe('LocalSubagentInvocation', () => {
       expect(display.terminateReason).toBe(AgentTerminateMode.GOAL);
     });
 
+    it('should report merged worktree changes with the patch', async () => {
+      mockExecutorInstance.run.mockResolvedValue({
+        result: 'Fixed the bug.',
+        terminate_reason: AgentTerminateMode.GOAL,
+        worktree: {
+          status: 'merged',
+          path: '/project/.gemini/worktrees/agent-mock',
+          patch: 'diff --git a/a.ts b/a.ts\n',
+        },
+      });
+
+      const result = await invocation.execute({ abortSignal: signal });
+
+      expect(result.llmContent).toEqual([
+        {
+          text: expect.stringContaining(
+            'Worktree Changes: merged into the main checkout.\nPatch:\n```diff\ndiff --git a/a.ts b/a.ts\n```',
+          ),
+        },
+      ]);
+    });
+
+    it('should report where preserved worktree changes are kept', async () => {
+      mockExecutorInstance.run.mockResolvedValue({
+        result: 'Fixed the bug.',
+        terminate_reason: AgentTerminateMode.GOAL,
+        worktree: {
+          status: 'preserved',
+          path: '/project/.gemini/worktrees/agent-mock',
+          patch: 'diff --git a/a.ts b/a.ts\n',
+          error: 'patch does not apply',
+        },
+      });
+
+      const result = await invocation.execute({ abortSignal: signal });
+
+      expect(result.llmContent).toEqual([
+        {
+          text: expect.stringContaining(
+            'Worktree Changes: not merged (patch does not apply). They are kept in /project/.gemini/worktrees/agent-mock.',
+          ),
+        },
+      ]);
+    });
+
     it('should show detailed UI for non-goal terminations (e.g., TIMEOUT)', async () => {
       const mockOutput = {
         result: 'Partial progress...',
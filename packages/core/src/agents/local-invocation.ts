@@ -18,6 +18,7 @@ import {
   type SubagentActivityEvent,
   type SubagentProgress,
   type SubagentActivityItem,
+  type AgentWorktreeResult,
   AgentTerminateMode,
   SubagentActivityErrorType,
   SUBAGENT_REJECTED_ERROR_PREFIX,
@@ -33,10 +34,29 @@ import {
   sanitizeErrorMessage,
 } from '../utils/agent-sanitization-utils.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import { checkExhaustive } from '../utils/checks.js';
 
 const INPUT_PREVIEW_MAX_LENGTH = 50;
 const DESCRIPTION_MAX_LENGTH = 200;
 
+/**
+ * Describes what happened to the changes an agent made in its worktree, so
+ * the parent agent knows whether they are in the main checkout.
+ */
+function formatWorktreeResult(worktree: AgentWorktreeResult): string {
+  const patch = `Patch:\n\`\`\`diff\n${worktree.patch.trimEnd()}\n\`\`\``;
+  switch (worktree.status) {
+    case 'merged':
+      return `Worktree Changes: merged into the main checkout.\n${patch}`;
+    case 'discarded':
+      return 'Worktree Changes: discarded by the user.';
+    case 'preserved':
+      return `Worktree Changes: not merged (${worktree.error ?? 'unknown reason'}). They are kept in ${worktree.path}.\n${patch}`;
+    default:
+      return checkExhaustive(worktree.status);
+  }
+}
+
 /**
  * Represents a validated, executable instance of a subagent tool.
  *
@@ -283,6 +303,11 @@ export class LocalSubagentInvocation extends BaseToolInvocation<
       const output = await executor.run(this.params, signal);
 
       if (output.terminate_reason === AgentTerminateMode.ABORTED) {
+        if (output.worktree?.status === 'preserved') {
+          debugLogger.warn(
+            `Subagent '${this.definition.name}' was cancelled. Its changes are kept in ${output.worktree.path}.`,
+          );
+        }
         const progress: SubagentProgress = {
           isSubagentProgress: true,
           agentName: this.definition.name,
@@ -312,10 +337,13 @@ export class LocalSubagentInvocation extends BaseToolInvocation<
         updateOutput(progress);
       }
 
-      const resultContent = `Subagent '${this.definition.name}' finished.
+      let resultContent = `Subagent '${this.definition.name}' finished.
 Termination Reason: ${output.terminate_reason}
 Result:
 ${output.result}`;
+      if (output.worktree) {
+        resultContent += `\n${formatWorktreeResult(output.worktree)}`;
+      }
 
       return {
         llmContent: [{ text: resultContent }],
@@ -11,6 +11,7 @@ import type { AgentOverride, Config } from '../config/config.js';
 import type { AgentDefinition, LocalAgentDefinition } from './types.js';
 import { getAgentCardLoadOptions, getRemoteAgentTargetUrl } from './types.js';
 import { loadAgentsFromDirectory } from './agentLoader.js';
+import { discoverRemoteAgents } from './agentCardDiscovery.js';
 import { CodebaseInvestigatorAgent } from './codebase-investigator.js';
 import { CliHelpAgent } from './cli-help-agent.js';
 import { GeneralistAgent } from './generalist-agent.js';
@@ -152,6 +153,9 @@ export class AgentRegistry {
       }),
     );
 
+    // Agents that need the user's acknowledgement before they are registered.
+    const unacknowledgedAgents: AgentDefinition[] = [];
+
     // Load project-level agents: .gemini/agents/ (relative to Project Root)
     const folderTrustEnabled = this.config.getFolderTrust();
     const isTrustedFolder = this.config.isTrustedFolder();
@@ -166,11 +170,6 @@ export class AgentRegistry {
         );
       }
 
-      const ackService = this.config.getAcknowledgedAgentsService();
-      const projectRoot = this.config.getProjectRoot();
-      const unacknowledgedAgents: AgentDefinition[] = [];
-      const agentsToRegister: AgentDefinition[] = [];
-
       for (const agent of projectAgents.agents) {
         // If it's a remote agent, use the agentCardUrl as the hash.
         // This allows multiple remote agents in a single file to be tracked independently.
@@ -187,28 +186,12 @@ export class AgentRegistry {
                   .digest('hex')
               : undefined);
         }
-
-        if (!agent.metadata?.hash) {
-          agentsToRegister.push(agent);
-          continue;
-        }
-
-        const isAcknowledged = await ackService.isAcknowledged(
-          projectRoot,
-          agent.name,
-          agent.metadata.hash,
-        );
-
-        if (isAcknowledged) {
-          agentsToRegister.push(agent);
-        } else {
-          unacknowledgedAgents.push(agent);
-        }
       }
 
-      if (unacknowledgedAgents.length > 0) {
-        coreEvents.emitAgentsDiscovered(unacknowledgedAgents);
-      }
+      const agentsToRegister = await this.filterAcknowledged(
+        projectAgents.agents,
+        unacknowledgedAgents,
+      );
 
       await Promise.allSettled(
         agentsToRegister.map(async (agent) => {
@@ -233,6 +216,58 @@ export class AgentRegistry {
       );
     }
 
+    // Import remote agents from agent card sources. Agents defined in agent
+    // files take precedence over imported ones with the same name.
+    const remoteAgentSources =
+      this.config.getAgentsSettings().remoteAgentSources ?? [];
+    if (remoteAgentSources.length > 0) {
+      const discovered = await discoverRemoteAgents(
+        remoteAgentSources,
+        this.config.getProjectRoot(),
+      );
+      for (const error of discovered.errors) {
+        debugLogger.warn(
+          `[AgentRegistry] Error importing remote agent: ${error.message}`,
+        );
+        coreEvents.emitFeedback(
+          'error',
+          `Agent loading error: ${error.message}`,
+        );
+      }
+      const agentsToRegister = await this.filterAcknowledged(
+        discovered.agents.filter((agent) => {
+          if (!this.allDefinitions.has(agent.name)) {
+            return true;
+          }
+          debugLogger.debug(
+            `[AgentRegistry] Skipping imported agent '${agent.name}': an agent with that name is already defined.`,
+          );
+          return false;
+        }),
+        unacknowledgedAgents,
+      );
+      await Promise.allSettled(
+        agentsToRegister.map(async (agent) => {
+          try {
+            await this.registerAgent(agent);
+          } catch (e) {
+            debugLogger.warn(
+              `[AgentRegistry] Error registering imported agent "${agent.name}":`,
+              e,
+            );
+            coreEvents.emitFeedback(
+              'error',
+              `Error registering imported agent "${agent.name}": ${e instanceof Error ? e.message : String(e)}`,
+            );
+          }
+        }),
+      );
+    }
+
+    if (unacknowledgedAgents.length > 0) {
+      coreEvents.emitAgentsDiscovered(unacknowledgedAgents);
+    }
+
     // Load agents from extensions
     for (const extension of this.config.getExtensions()) {
       if (extension.isActive && extension.agents) {
@@ -262,6 +297,35 @@ export class AgentRegistry {
     }
   }
 
+  /**
+   * Returns the agents the user has acknowledged, or that don't need an
+   * acknowledgement. The others are added to `unacknowledged`.
+   */
+  private async filterAcknowledged(
+    agents: AgentDefinition[],
+    unacknowledged: AgentDefinition[],
+  ): Promise<AgentDefinition[]> {
+    const ackService = this.config.getAcknowledgedAgentsService();
+    const projectRoot = this.config.getProjectRoot();
+    const acknowledged: AgentDefinition[] = [];
+
+    for (const agent of agents) {
+      if (
+        !agent.metadata?.hash ||
+        (await ackService.isAcknowledged(
+          projectRoot,
+          agent.name,
+          agent.metadata.hash,
+        ))
+      ) {
+        acknowledged.push(agent);
+      } else {
+        unacknowledged.push(agent);
+      }
+    }
+    return acknowledged;
+  }
+
   private loadBuiltInAgents(): void {
     this.registerLocalAgent(CodebaseInvestigatorAgent(this.config));
     this.registerLocalAgent(CliHelpAgent(this.config));
@@ -166,4 +166,99 @@ describe('AgentRegistry Acknowledgement', () => {
 
     expect(registry.getDefinition('ProjectAgent')).toBeDefined();
   });
+
+  describe('imported remote agents', () => {
+    let cardsDir: string;
+
+    const writeCard = async (skillDescription: string) => {
+      await fs.writeFile(
+        path.join(cardsDir, 'weather.json'),
+        JSON.stringify({
+          name: 'Weather Agent',
+          description: 'Answers questions about the weather.',
+          url: 'http://localhost:9999/a2a',
+          version: '1.0.0',
+          protocolVersion: '0.3.0',
+          capabilities: {},
+          defaultInputModes: ['text'],
+          defaultOutputModes: ['text'],
+          skills: [
+            {
+              id: 'forecast',
+              name: 'Forecast',
+              description: skillDescription,
+              tags: [],
+            },
+          ],
+        }),
+      );
+    };
+
+    beforeEach(async () => {
+      cardsDir = path.join(tempDir, 'cards');
+      await fs.mkdir(cardsDir);
+      vi.mocked(tomlLoader.loadAgentsFromDirectory).mockResolvedValue({
+        agents: [],
+        errors: [],
+      });
+      vi.spyOn(config, 'getAgentsSettings').mockReturnValue({
+        remoteAgentSources: [cardsDir],
+      });
+    });
+
+    it('asks for acknowledgement again when the skills change', async () => {
+      const emitSpy = vi.spyOn(coreEvents, 'emitAgentsDiscovered');
+      await writeCard('Gives the forecast.');
+
+      await registry.initialize();
+
+      expect(emitSpy).toHaveBeenCalledTimes(1);
+      const [discovered] = emitSpy.mock.calls[0][0];
+      expect(discovered.name).toBe('weather-agent');
+      expect(registry.getDefinition('weather-agent')).toBeUndefined();
+
+      await ackService.acknowledge(
+        '/project',
+        'weather-agent',
+        discovered.metadata!.hash!,
+      );
+      emitSpy.mockClear();
+      await registry.initialize();
+      expect(emitSpy).not.toHaveBeenCalled();
+
+      await writeCard('Gives the forecast and books flights.');
+      await registry.initialize();
+      expect(emitSpy).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'weather-agent' }),
+      ]);
+    });
+
+    it('does not import agents that are already defined', async () => {
+      await fs.writeFile(
+        path.join(cardsDir, 'project.json'),
+        JSON.stringify({
+          name: 'ProjectAgent',
+          description: 'Imported',
+          url: 'http://localhost:9999/a2a',
+          version: '1.0.0',
+          protocolVersion: '0.3.0',
+          capabilities: {},
+          defaultInputModes: ['text'],
+          defaultOutputModes: ['text'],
+          skills: [],
+        }),
+      );
+      vi.mocked(tomlLoader.loadAgentsFromDirectory).mockResolvedValue({
+        agents: [{ ...MOCK_AGENT_WITH_HASH, name: 'projectagent' }],
+        errors: [],
+      });
+      await ackService.acknowledge('/project', 'projectagent', 'hash123');
+      const emitSpy = vi.spyOn(coreEvents, 'emitAgentsDiscovered');
+
+      await registry.initialize();
+
+      expect(emitSpy).not.toHaveBeenCalled();
+      expect(registry.getDefinition('projectagent')?.kind).toBe('local');
+    });
+  });
 });
@@ -36,6 +36,32 @@ export enum AgentTerminateMode {
 export interface OutputObject {
   result: string;
   terminate_reason: AgentTerminateMode;
+  /** Present when the agent ran in an isolated worktree and changed files. */
+  worktree?: AgentWorktreeResult;
+}
+
+/**
+ * How an agent's execution is isolated from the main checkout.
+ * - `worktree`: the agent runs in its own git worktree.
+ */
+export type AgentIsolationMode = 'worktree';
+
+/**
+ * The outcome of reviewing the changes an agent made in its worktree.
+ * - `merged`: the patch was applied to the main checkout.
+ * - `discarded`: the user rejected the patch and the worktree was removed.
+ * - `preserved`: the patch was not applied and the worktree was kept.
+ */
+export type AgentWorktreeStatus = 'merged' | 'discarded' | 'preserved';
+
+export interface AgentWorktreeResult {
+  status: AgentWorktreeStatus;
+  /** The worktree the agent ran in. Only exists while `preserved`. */
+  path: string;
+  /** The agent's changes relative to the commit the worktree started from. */
+  patch: string;
+  /** Why the patch was not applied, when `preserved`. */
+  error?: string;
 }
 
 /**
@@ -114,6 +140,36 @@ export function isSubagentProgress(obj: unknown): obj is SubagentProgress {
   );
 }
 
+/**
+ * One input of a fan-out invocation. `progress` is unset while the input is
+ * waiting for a free slot.
+ */
+export interface SubagentFanOutItem {
+  input: string;
+  progress?: SubagentProgress;
+}
+
+/**
+ * Progress of an `invoke_agent` call that runs one subagent instance per
+ * input.
+ */
+export interface SubagentFanOutProgress {
+  isSubagentFanOutProgress: true;
+  agentName: string;
+  items: SubagentFanOutItem[];
+}
+
+export function isSubagentFanOutProgress(
+  obj: unknown,
+): obj is SubagentFanOutProgress {
+  return (
+    typeof obj === 'object' &&
+    obj !== null &&
+    'isSubagentFanOutProgress' in obj &&
+    obj.isSubagentFanOutProgress === true
+  );
+}
+
 /**
  * Checks if the tool call data indicates an error.
  */
@@ -227,6 +283,14 @@ export interface LocalAgentDefinition<
    */
   workspaceDirectories?: string[];
 
+  /**
+   * Optional isolation for file changes. With `worktree`, the agent runs in a
+   * new git worktree of the project so that parallel agents don't edit the
+   * same checkout. When the agent finishes, its changes are shown to the user
+   * as a patch to merge into the main checkout or discard.
+   */
+  isolation?: AgentIsolationMode;
+
   /**
    * Optional inline MCP servers for this agent.
    */
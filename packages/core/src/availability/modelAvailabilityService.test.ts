@@ -162,4 +162,74 @@ describe('ModelAvailabilityService', () => {
       reason: 'quota',
     });
   });
+
+  describe('provider chain hops', () => {
+    const now = 1_000_000;
+
+    it('skips a failed hop until its cool-down expires', () => {
+      service.markHopFailed('vertex', 1000, 'quota exceeded', now);
+
+      expect(service.isHopAvailable('vertex', now + 999)).toBe(false);
+      expect(service.isHopAvailable('vertex', now + 1000)).toBe(true);
+      expect(service.getHopHealth('vertex')).toEqual({
+        consecutiveFailures: 1,
+        coolingDownUntil: now + 1000,
+        lastError: 'quota exceeded',
+      });
+    });
+
+    it('doubles the cool-down for consecutive failures', () => {
+      service.markHopFailed('vertex', 1000, undefined, now);
+      const health = service.markHopFailed('vertex', 1000, undefined, now);
+
+      expect(health.consecutiveFailures).toBe(2);
+      expect(health.coolingDownUntil).toBe(now + 2000);
+    });
+
+    it('caps the cool-down at an hour', () => {
+      const hour = 60 * 60 * 1000;
+      for (let i = 0; i < 10; i++) {
+        service.markHopFailed('vertex', hour / 2, undefined, now);
+      }
+      expect(service.getHopHealth('vertex').coolingDownUntil).toBe(now + hour);
+    });
+
+    it('forgets failures once a hop is healthy again', () => {
+      service.markHopFailed('vertex', 1000, undefined, now);
+      service.markHopHealthy('vertex');
+
+      expect(service.getHopHealth('vertex')).toEqual({
+        consecutiveFailures: 0,
+      });
+      expect(service.isHopAvailable('vertex', now)).toBe(true);
+    });
+
+    it('selects the first hop that is not cooling down', () => {
+      service.markHopFailed('vertex', 1000, undefined, now);
+
+      expect(
+        service.selectFirstAvailableHop(['vertex', 'api-key', 'local'], now),
+      ).toEqual({
+        selectedHop: 'api-key',
+        skipped: [{ hop: 'vertex', coolingDownUntil: now + 1000 }],
+      });
+    });
+
+    it('returns null when every hop is cooling down', () => {
+      service.markHopFailed('vertex', 1000, undefined, now);
+
+      expect(service.selectFirstAvailableHop(['vertex'], now).selectedHop).toBe(
+        null,
+      );
+    });
+
+    it('keeps hop health across reset', () => {
+      service.markHopFailed('vertex', 1000, undefined, now);
+      service.reset();
+      expect(service.isHopAvailable('vertex', now)).toBe(false);
+
+      service.resetHops();
+      expect(service.isHopAvailable('vertex', now)).toBe(true);
+    });
+  });
 });
@@ -38,8 +38,30 @@ export interface ModelSelectionResult {
   }>;
 }
 
+const MAX_HOP_COOLDOWN_MS = 60 * 60 * 1000;
+
+/**
+ * Health of a provider chain hop.
+ */
+export interface HopHealth {
+  /** Failures since the hop last served a request successfully. */
+  consecutiveFailures: number;
+  /** Epoch milliseconds until which the hop is skipped. */
+  coolingDownUntil?: number;
+  lastError?: string;
+}
+
+export interface HopSelectionResult {
+  selectedHop: string | null;
+  skipped: Array<{
+    hop: string;
+    coolingDownUntil: number;
+  }>;
+}
+
 export class ModelAvailabilityService {
   private readonly health = new Map<ModelId, HealthState>();
+  private readonly hopHealth = new Map<string, HopHealth>();
 
   markTerminal(model: ModelId, reason: TerminalUnavailabilityReason) {
     this.setState(model, {
@@ -115,6 +137,60 @@ export class ModelAvailabilityService {
     return { selectedModel: null, skipped };
   }
 
+  /**
+   * Records a failure of a provider chain hop and skips it for `cooldownMs`.
+   * The cool-down doubles with every consecutive failure, up to an hour.
+   */
+  markHopFailed(
+    hop: string,
+    cooldownMs: number,
+    error?: string,
+    now: number = Date.now(),
+  ): HopHealth {
+    const consecutiveFailures =
+      (this.hopHealth.get(hop)?.consecutiveFailures ?? 0) + 1;
+    const health: HopHealth = {
+      consecutiveFailures,
+      coolingDownUntil:
+        now +
+        Math.min(
+          cooldownMs * 2 ** (consecutiveFailures - 1),
+          Math.max(cooldownMs, MAX_HOP_COOLDOWN_MS),
+        ),
+      lastError: error,
+    };
+    this.hopHealth.set(hop, health);
+    return health;
+  }
+
+  markHopHealthy(hop: string) {
+    this.hopHealth.delete(hop);
+  }
+
+  getHopHealth(hop: string): HopHealth {
+    return this.hopHealth.get(hop) ?? { consecutiveFailures: 0 };
+  }
+
+  isHopAvailable(hop: string, now: number = Date.now()): boolean {
+    const coolingDownUntil = this.hopHealth.get(hop)?.coolingDownUntil;
+    return coolingDownUntil === undefined || coolingDownUntil <= now;
+  }
+
+  selectFirstAvailableHop(
+    hops: string[],
+    now: number = Date.now(),
+  ): HopSelectionResult {
+    const skipped: HopSelectionResult['skipped'] = [];
+    for (const hop of hops) {
+      const coolingDownUntil = this.hopHealth.get(hop)?.coolingDownUntil;
+      if (coolingDownUntil === undefined || coolingDownUntil <= now) {
+        return { selectedHop: hop, skipped };
+      }
+      skipped.push({ hop, coolingDownUntil });
+    }
+    return { selectedHop: null, skipped };
+  }
+
   resetTurn() {
     for (const [model, state] of this.health.entries()) {
       if (state.status === 'sticky_retry') {
@@ -123,10 +199,18 @@ export class ModelAvailabilityService {
     }
   }
 
+  /**
+   * Clears model health. Hop health is kept, since provider chains switch
+   * auth themselves and must remember which hops are cooling down.
+   */
   reset() {
     this.health.clear();
   }
 
+  resetHops() {
+    this.hopHealth.clear();
+  }
+
   private setState(model: ModelId, nextState: HealthState) {
     this.health.set(model, nextState);
   }
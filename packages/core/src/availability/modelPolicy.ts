@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { AuthType } from '../core/contentGenerator.js';
 import type {
   ModelAvailabilityService,
   ModelHealthStatus,
@@ -46,8 +47,39 @@ export interface ModelPolicy {
   actions: ModelPolicyActionMap;
   stateTransitions: ModelPolicyStateMap;
   isLastResort?: boolean;
+  /**
+   * The auth/backend that serves this model. Only used by provider chains,
+   * where each policy is a hop that may use a different backend.
+   */
+  backend?: ModelBackend;
+  /**
+   * How long a provider chain hop is skipped after it fails, in milliseconds.
+   */
+  cooldownMs?: number;
 }
 
+/**
+ * An auth/backend a provider chain hop is served through.
+ */
+export interface ModelBackend {
+  authType: AuthType;
+  /** Name shown to the user. Must be unique within a chain. */
+  label?: string;
+  baseUrl?: string;
+  /** Environment variable holding the API key for this backend. */
+  apiKeyEnvVar?: string;
+}
+
+/**
+ * Configuration of a single provider chain hop. The model defaults to the
+ * session's model, and actions are always silent.
+ */
+export type ProviderHopConfig = Partial<
+  Pick<ModelPolicy, 'model' | 'stateTransitions' | 'cooldownMs'>
+> & {
+  backend: ModelBackend;
+};
+
 /**
  * A chain of model policies defining the priority and fallback behavior.
  * The first model in the chain is the primary model.
@@ -7,9 +7,12 @@
 import { describe, it, expect } from 'vitest';
 import {
   createDefaultPolicy,
+  createProviderPolicyChain,
   getModelPolicyChain,
+  getPolicyHopId,
   validateModelPolicyChain,
 } from './policyCatalog.js';
+import { AuthType } from '../core/contentGenerator.js';
 import {
   DEFAULT_GEMINI_MODEL,
   PREVIEW_GEMINI_3_1_CUSTOM_TOOLS_MODEL,
@@ -115,4 +118,66 @@ describe('policyCatalog', () => {
     expect(policy.stateTransitions.terminal).toBe('terminal');
     expect(policy.stateTransitions.unknown).toBe('terminal');
   });
+
+  describe('createProviderPolicyChain', () => {
+    it('builds a silent chain ending in a last resort', () => {
+      const chain = createProviderPolicyChain(
+        [
+          { backend: { authType: AuthType.USE_VERTEX_AI, label: 'vertex' } },
+          { backend: { authType: AuthType.USE_GEMINI } },
+          {
+            model: 'llama3',
+            backend: {
+              authType: AuthType.OPENAI_COMPATIBLE,
+              label: 'local',
+              baseUrl: 'http://localhost:11434/v1',
+            },
+            cooldownMs: 1000,
+          },
+        ],
+        DEFAULT_GEMINI_MODEL,
+      );
+
+      expect(chain.map((policy) => policy.model)).toEqual([
+        DEFAULT_GEMINI_MODEL,
+        DEFAULT_GEMINI_MODEL,
+        'llama3',
+      ]);
+      expect(chain.map((policy) => policy.isLastResort)).toEqual([
+        false,
+        false,
+        true,
+      ]);
+      expect(
+        chain.every((policy) => policy.actions.terminal === 'silent'),
+      ).toBe(true);
+      expect(chain[2].cooldownMs).toBe(1000);
+      expect(chain.map(getPolicyHopId)).toEqual([
+        'vertex',
+        `gemini-api-key/${DEFAULT_GEMINI_MODEL}`,
+        'local',
+      ]);
+    });
+
+    it('fails when a hop has no backend', () => {
+      expect(() =>
+        createProviderPolicyChain(
+          [{ model: 'model-a' } as never],
+          DEFAULT_GEMINI_MODEL,
+        ),
+      ).toThrow('must define a `backend`');
+    });
+
+    it('fails when two hops share an identifier', () => {
+      expect(() =>
+        createProviderPolicyChain(
+          [
+            { backend: { authType: AuthType.USE_GEMINI } },
+            { backend: { authType: AuthType.USE_GEMINI } },
+          ],
+          DEFAULT_GEMINI_MODEL,
+        ),
+      ).toThrow('Provider chain hops must be unique');
+    });
+  });
 });
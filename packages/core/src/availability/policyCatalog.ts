@@ -9,6 +9,7 @@ import type {
   ModelPolicyActionMap,
   ModelPolicyChain,
   ModelPolicyStateMap,
+  ProviderHopConfig,
 } from './modelPolicy.js';
 import {
   DEFAULT_GEMINI_FLASH_LITE_MODEL,
@@ -129,6 +130,56 @@ export function validateModelPolicyChain(chain: ModelPolicyChain): void {
   }
 }
 
+/** How long a provider chain hop is skipped after it fails. */
+export const DEFAULT_HOP_COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * Returns the identifier a provider chain hop is tracked under.
+ */
+export function getPolicyHopId(policy: ModelPolicy): string {
+  return policy.backend?.label ?? `${policy.backend?.authType}/${policy.model}`;
+}
+
+/**
+ * Builds a provider chain from its configuration. Every hop falls through to
+ * the next one silently, and the last hop is the last resort. Hops without a
+ * model use `defaultModel`.
+ */
+export function createProviderPolicyChain(
+  hops: ProviderHopConfig[],
+  defaultModel: string,
+): ModelPolicyChain {
+  const chain = hops.map((hop, index) =>
+    definePolicy({
+      ...hop,
+      model: hop.model ?? defaultModel,
+      actions: SILENT_ACTIONS,
+      isLastResort: index === hops.length - 1,
+    }),
+  );
+  validateProviderPolicyChain(chain);
+  return chain;
+}
+
+export function validateProviderPolicyChain(chain: ModelPolicyChain): void {
+  validateModelPolicyChain(chain);
+  const hopIds = new Set<string>();
+  for (const policy of chain) {
+    if (!policy.backend) {
+      throw new Error(
+        `Provider chain hop for model "${policy.model}" must define a \`backend\`.`,
+      );
+    }
+    const hopId = getPolicyHopId(policy);
+    if (hopIds.has(hopId)) {
+      throw new Error(
+        `Provider chain hops must be unique, but "${hopId}" appears more than once. Set \`backend.label\` to tell them apart.`,
+      );
+    }
+    hopIds.add(hopId);
+  }
+}
+
 /**
  * Helper to define a ModelPolicy with default actions and state transitions.
  * Ensures every policy is a fresh instance to avoid shared state.
@@ -142,6 +193,10 @@ function definePolicy(config: PolicyConfig): ModelPolicy {
       ...DEFAULT_STATE,
       ...(config.stateTransitions ?? {}),
     },
+    ...(config.backend ? { backend: { ...config.backend } } : {}),
+    ...(config.cooldownMs !== undefined
+      ? { cooldownMs: config.cooldownMs }
+      : {}),
   };
 }
 
@@ -150,6 +205,7 @@ function clonePolicy(policy: ModelPolicy): ModelPolicy {
     ...policy,
     actions: { ...policy.actions },
     stateTransitions: { ...policy.stateTransitions },
+    ...(policy.backend ? { backend: { ...policy.backend } } : {}),
   };
 }
 
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  SessionMetrics,
+  UiTelemetryService,
+} from '../telemetry/uiTelemetry.js';
+import {
+  BudgetTracker,
+  describeBudgetLimit,
+  type BudgetLimits,
+} from './budget.js';
+
+const PRICING = { 'test-model': { input: 1_000_000, output: 0 } };
+
+/** Telemetry whose session costs one unit per input token. */
+class FakeTelemetry extends EventEmitter {
+  private metrics = this.makeMetrics(0);
+
+  private makeMetrics(tokens: number): SessionMetrics {
+    return {
+      models: {
+        'test-model': {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 0 },
+          tokens: {
+            input: tokens,
+            prompt: tokens,
+            candidates: 0,
+            total: tokens,
+            cached: 0,
+            thoughts: 0,
+            tool: 0,
+          },
+          roles: {},
+        },
+      },
+    } as unknown as SessionMetrics;
+  }
+
+  getMetrics(): SessionMetrics {
+    return this.metrics;
+  }
+
+  spend(cost: number) {
+    this.metrics = this.makeMetrics(cost);
+    this.emit('update', { metrics: this.metrics });
+  }
+
+  clear(newSessionId?: string) {
+    this.metrics = this.makeMetrics(0);
+    this.emit('clear', newSessionId);
+    this.emit('update', { metrics: this.metrics });
+  }
+}
+
+describe('BudgetTracker', () => {
+  let tempDir: string;
+  let ledgerPath: string;
+  let telemetry: FakeTelemetry;
+  let now: Date;
+
+  const createTracker = (limits: BudgetLimits, sessionId = 'session-1') =>
+    new BudgetTracker({
+      sessionId,
+      telemetry: telemetry as unknown as UiTelemetryService,
+      ledgerPath,
+      limits,
+      pricing: PRICING,
+      now: () => now,
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-test-'));
+    ledgerPath = path.join(tempDir, 'cost-ledger.json');
+    telemetry = new FakeTelemetry();
+    now = new Date(2026, 9, 18, 12);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('does nothing without limits', () => {
+    const tracker = createTracker({});
+    telemetry.spend(100);
+
+    expect(tracker.hasLimits()).toBe(false);
+    expect(tracker.check('prompt-1')).toBeUndefined();
+  });
+
+  it('reports hard limits before soft limits', () => {
+    const tracker = createTracker({ sessionSoftLimit: 5, sessionHardLimit: 8 });
+
+    telemetry.spend(4);
+    expect(tracker.check('prompt-1')).toBeUndefined();
+
+    telemetry.spend(9);
+    expect(tracker.check('prompt-1')).toEqual({
+      scope: 'session',
+      severity: 'hard',
+      limit: 8,
+      spent: 9,
+      currency: 'USD',
+    });
+  });
+
+  it('asks about a soft limit only once', () => {
+    const tracker = createTracker({ sessionSoftLimit: 5 });
+    telemetry.spend(6);
+
+    const exceeded = tracker.check('prompt-1')!;
+    expect(exceeded.severity).toBe('soft');
+    tracker.approve(exceeded, 'prompt-1');
+
+    telemetry.spend(20);
+    expect(tracker.check('prompt-2')).toBeUndefined();
+  });
+
+  it('asks about a hard limit again on the next prompt', () => {
+    const tracker = createTracker({ sessionHardLimit: 5 });
+    telemetry.spend(6);
+
+    tracker.approve(tracker.check('prompt-1')!, 'prompt-1');
+
+    expect(tracker.check('prompt-1')).toBeUndefined();
+    expect(tracker.check('prompt-2')).toMatchObject({
+      scope: 'session',
+      severity: 'hard',
+    });
+  });
+
+  it('adds up the spend of all sessions of the day', () => {
+    const other = createTracker({}, 'session-0');
+    telemetry.spend(3);
+    expect(other.getDailyCost()).toBe(3);
+
+    telemetry.clear('session-1');
+    const tracker = createTracker({ dailyHardLimit: 5 });
+    telemetry.spend(1);
+    expect(tracker.check('prompt-1')).toBeUndefined();
+
+    telemetry.spend(2);
+    expect(tracker.check('prompt-1')).toMatchObject({
+      scope: 'daily',
+      severity: 'hard',
+      spent: 5,
+    });
+  });
+
+  it('only counts what a resumed session spent today', () => {
+    const tracker = createTracker({});
+    telemetry.spend(10);
+
+    now = new Date(2026, 9, 19, 9);
+    telemetry.clear('session-1');
+    telemetry.spend(10);
+    expect(tracker.getDailyCost()).toBe(0);
+
+    telemetry.spend(12);
+    expect(tracker.getDailyCost()).toBe(2);
+  });
+
+  it('drops sessions that have not been active for a month', () => {
+    createTracker({});
+    telemetry.spend(1);
+
+    now = new Date(2026, 10, 30);
+    telemetry.clear('session-2');
+    telemetry.spend(2);
+
+    const ledger = JSON.parse(fs.readFileSync(ledgerPath, 'utf-8'));
+    expect(Object.keys(ledger.sessions)).toEqual(['session-2']);
+  });
+
+  it('keeps the entries other sessions recorded in the meantime', () => {
+    createTracker({});
+    telemetry.spend(2);
+    const ledger = JSON.parse(fs.readFileSync(ledgerPath, 'utf-8'));
+    ledger.sessions['session-2'] = { '2026-10-18': 5 };
+    fs.writeFileSync(ledgerPath, JSON.stringify(ledger));
+
+    telemetry.spend(3);
+
+    const written = JSON.parse(fs.readFileSync(ledgerPath, 'utf-8'));
+    expect(written.sessions).toEqual({
+      'session-1': { '2026-10-18': 3 },
+      'session-2': { '2026-10-18': 5 },
+    });
+    expect(fs.readdirSync(tempDir)).toEqual(['cost-ledger.json']);
+  });
+
+  it('leaves an unreadable ledger alone instead of resetting it', () => {
+    fs.writeFileSync(ledgerPath, '{"sessions": {"session-2"');
+    createTracker({});
+
+    telemetry.spend(2);
+
+    expect(fs.readFileSync(ledgerPath, 'utf-8')).toBe(
+      '{"sessions": {"session-2"',
+    );
+  });
+});
+
+describe('describeBudgetLimit', () => {
+  it('describes the limit and the spend', () => {
+    expect(
+      describeBudgetLimit({
+        scope: 'daily',
+        severity: 'soft',
+        limit: 10,
+        spent: 10.5,
+        currency: 'USD',
+      }),
+    ).toBe('Daily budget soft limit of $10.00 reached ($10.50 spent).');
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type {
+  SessionMetrics,
+  UiTelemetryService,
+} from '../telemetry/uiTelemetry.js';
+import {
+  calculateSessionCost,
+  formatCost,
+  type ModelPricing,
+  type SessionCost,
+} from './pricing.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { isNodeError } from '../utils/errors.js';
+
+/**
+ * Spending limits, in the configured currency. Reaching a soft limit asks
+ * once whether to continue; reaching a hard limit stops the agent loop and
+ * asks again for every prompt.
+ */
+export interface BudgetLimits {
+  sessionSoftLimit?: number;
+  sessionHardLimit?: number;
+  dailySoftLimit?: number;
+  dailyHardLimit?: number;
+}
+
+export type BudgetScope = 'session' | 'daily';
+
+export type BudgetSeverity = 'soft' | 'hard';
+
+/**
+ * Describes a budget limit that was reached.
+ */
+export interface BudgetLimitExceeded {
+  scope: BudgetScope;
+  severity: BudgetSeverity;
+  limit: number;
+  spent: number;
+  currency: string;
+}
+
+/**
+ * Defines the intent returned by the UI layer when a budget limit is reached.
+ */
+export type BudgetIntent =
+  | 'continue' // Keep going. Soft limits aren't asked about again; hard limits are asked about again on the next prompt.
+  | 'stop'; // Stop the agent loop.
+
+/**
+ * The interface for the handler provided by the UI layer (e.g., the CLI)
+ * to ask the user whether to continue when a budget limit is reached.
+ */
+export type BudgetHandler = (
+  exceeded: BudgetLimitExceeded,
+) => Promise<BudgetIntent>;
+
+/** Number of days without activity after which a session leaves the ledger. */
+const LEDGER_RETENTION_DAYS = 30;
+
+/**
+ * Cumulative cost of each session at the end of each day it was active, in
+ * `YYYY-MM-DD` local time. A session's spend on a day is the difference to
+ * the previous day it was active, which keeps resumed sessions from being
+ * counted twice.
+ */
+interface CostLedger {
+  sessions: Record<string, Record<string, number>>;
+}
+
+export interface BudgetTrackerOptions {
+  sessionId: string;
+  telemetry: UiTelemetryService;
+  ledgerPath: string;
+  limits?: BudgetLimits;
+  pricing?: Record<string, ModelPricing>;
+  currency?: string;
+  /** Returns the current time; for tests. */
+  now?: () => Date;
+}
+
+function toDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Describes a reached budget limit for the user.
+ */
+export function describeBudgetLimit(exceeded: BudgetLimitExceeded): string {
+  const scope = exceeded.scope === 'session' ? 'Session' : 'Daily';
+  return `${scope} budget ${exceeded.severity} limit of ${formatCost(
+    exceeded.limit,
+    exceeded.currency,
+  )} reached (${formatCost(exceeded.spent, exceeded.currency)} spent).`;
+}
+
+/**
+ * Tracks what the current session and all sessions of the day cost, and
+ * decides when a budget limit needs the user's attention.
+ *
+ * The cost of each session is recorded in a ledger shared by all sessions on
+ * this machine whenever the token counts change.
+ */
+export class BudgetTracker {
+  private sessionId: string;
+  private readonly limits: BudgetLimits;
+  private readonly now: () => Date;
+  private lastRecorded?: { sessionId: string; day: string; cost: number };
+  private readonly approvedSoftLimits = new Set<BudgetScope>();
+  private readonly approvedHardLimits = new Map<BudgetScope, string>();
+
+  constructor(private readonly options: BudgetTrackerOptions) {
+    this.sessionId = options.sessionId;
+    this.limits = options.limits ?? {};
+    this.now = options.now ?? (() => new Date());
+
+    options.telemetry.on('update', ({ metrics }: { metrics: SessionMetrics }) =>
+      this.record(metrics),
+    );
+    options.telemetry.on('clear', (newSessionId?: string) => {
+      if (newSessionId) {
+        this.sessionId = newSessionId;
+      }
+      this.approvedSoftLimits.delete('session');
+      this.approvedHardLimits.delete('session');
+    });
+  }
+
+  /** Returns true if any budget limit is configured. */
+  hasLimits(): boolean {
+    return Object.values(this.limits).some(
+      (limit) => typeof limit === 'number' && limit > 0,
+    );
+  }
+
+  getSessionCost(): SessionCost {
+    return calculateSessionCost(
+      this.options.telemetry.getMetrics(),
+      this.options.pricing,
+      this.options.currency,
+    );
+  }
+
+  /** Returns what all sessions on this machine cost today. */
+  getDailyCost(): number {
+    const today = toDay(this.now());
+    let total = 0;
+    for (const days of Object.values(this.readLedger()?.sessions ?? {})) {
+      if (days[today] === undefined) {
+        continue;
+      }
+      const previous = Object.keys(days)
+        .filter((day) => day < today)
+        .sort()
+        .pop();
+      total += days[today] - (previous ? days[previous] : 0);
+    }
+    return total;
+  }
+
+  /**
+   * Returns the first limit that was reached and not yet approved for the
+   * given prompt, hard limits first.
+   */
+  check(promptId: string): BudgetLimitExceeded | undefined {
+    if (!this.hasLimits()) {
+      return undefined;
+    }
+    const currency = this.getSessionCost().currency;
+    const spent: Record<BudgetScope, () => number> = {
+      session: () => this.getSessionCost().total,
+      daily: () => this.getDailyCost(),
+    };
+    const candidates: Array<[BudgetScope, BudgetSeverity, number | undefined]> =
+      [
+        ['session', 'hard', this.limits.sessionHardLimit],
+        ['daily', 'hard', this.limits.dailyHardLimit],
+        ['session', 'soft', this.limits.sessionSoftLimit],
+        ['daily', 'soft', this.limits.dailySoftLimit],
+      ];
+    for (const [scope, severity, limit] of candidates) {
+      if (!limit || limit <= 0) {
+        continue;
+      }
+      if (
+        severity === 'hard'
+          ? this.approvedHardLimits.get(scope) === promptId
+          : this.approvedSoftLimits.has(scope)
+      ) {
+        continue;
+      }
+      const amount = spent[scope]();
+      if (amount >= limit) {
+        return { scope, severity, limit, spent: amount, currency };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Records that the user chose to continue past a limit. Soft limits stay
+   * approved; hard limits only for the rest of the prompt.
+   */
+  approve(exceeded: BudgetLimitExceeded, promptId: string): void {
+    this.approvedSoftLimits.add(exceeded.scope);
+    if (exceeded.severity === 'hard') {
+      this.approvedHardLimits.set(exceeded.scope, promptId);
+    }
+  }
+
+  private record(metrics: SessionMetrics): void {
+    const { total } = calculateSessionCost(
+      metrics,
+      this.options.pricing,
+      this.options.currency,
+    );
+    const day = toDay(this.now());
+    const last = this.lastRecorded;
+    if (
+      last?.sessionId === this.sessionId &&
+      last.day === day &&
+      last.cost === total
+    ) {
+      return;
+    }
+    if (!last && total === 0) {
+      return;
+    }
+    this.lastRecorded = { sessionId: this.sessionId, day, cost: total };
+
+    // Re-read right before writing so entries other sessions recorded since
+    // the last read are kept; only this session's entry is replaced.
+    const ledger = this.readLedger();
+    if (!ledger) {
+      return;
+    }
+    const days = ledger.sessions[this.sessionId] ?? {};
+    days[day] = total;
+    ledger.sessions[this.sessionId] = days;
+    this.writeLedger(this.prune(ledger, day));
+  }
+
+  /**
+   * Keeps the two most recent days of each session, which is all that is
+   * needed to work out today's spend, and drops inactive sessions.
+   */
+  private prune(ledger: CostLedger, today: string): CostLedger {
+    const cutoff = new Date(this.now());
+    cutoff.setDate(cutoff.getDate() - LEDGER_RETENTION_DAYS);
+    const oldest = toDay(cutoff);
+    const sessions: CostLedger['sessions'] = {};
+    for (const [sessionId, days] of Object.entries(ledger.sessions)) {
+      const recent = Object.keys(days)
+        .filter((day) => day <= today)
+        .sort()
+        .slice(-2);
+      if (recent.length === 0 || recent[recent.length - 1] < oldest) {
+        continue;
+      }
+      sessions[sessionId] = Object.fromEntries(
+        recent.map((day) => [day, days[day]]),
+      );
+    }
+    return { sessions };
+  }
+
+  /**
+   * Returns the ledger, an empty one if it doesn't exist yet, or undefined if
+   * it can't be read. An unreadable ledger is left alone rather than replaced,
+   * so the spend of other sessions isn't lost.
+   */
+  private readLedger(): CostLedger | undefined {
+    try {
+      const content = fs.readFileSync(this.options.ledgerPath, 'utf-8');
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const parsed = JSON.parse(content) as Partial<CostLedger>;
+      if (parsed && typeof parsed.sessions === 'object' && parsed.sessions) {
+        return { sessions: parsed.sessions };
+      }
+      debugLogger.warn('Ignoring a cost ledger with an unexpected format.');
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'ENOENT') {
+        return { sessions: {} };
+      }
+      debugLogger.warn('Could not read the cost ledger:', error);
+    }
+    return undefined;
+  }
+
+  /**
+   * Writes the ledger to a unique temporary file and renames it into place,
+   * so concurrent sessions never read a partially written ledger.
+   */
+  private writeLedger(ledger: CostLedger): void {
+    const tmpPath = `${this.options.ledgerPath}.${crypto
+      .randomBytes(8)
+      .toString('hex')}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.options.ledgerPath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(ledger, null, 2), {
+        encoding: 'utf-8',
+        flag: 'wx',
+      });
+      fs.renameSync(tmpPath, this.options.ledgerPath);
+    } catch (error) {
+      debugLogger.warn('Could not write the cost ledger:', error);
+      fs.rmSync(tmpPath, { force: true });
+    }
+  }
+}
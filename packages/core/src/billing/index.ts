@@ -5,3 +5,5 @@
  */
 
 export * from './billing.js';
+export * from './budget.js';
+export * from './pricing.js';
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ModelMetrics, SessionMetrics } from '../telemetry/uiTelemetry.js';
+import {
+  calculateModelCost,
+  calculateSessionCost,
+  formatCost,
+  getModelPricing,
+} from './pricing.js';
+
+function makeTokens(
+  tokens: Partial<ModelMetrics['tokens']>,
+): ModelMetrics['tokens'] {
+  return {
+    input: 0,
+    prompt: 0,
+    candidates: 0,
+    total: 0,
+    cached: 0,
+    thoughts: 0,
+    tool: 0,
+    ...tokens,
+  };
+}
+
+function makeMetrics(
+  models: Record<string, Partial<ModelMetrics['tokens']>>,
+): SessionMetrics {
+  return {
+    models: Object.fromEntries(
+      Object.entries(models).map(([model, tokens]) => [
+        model,
+        {
+          api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 0 },
+          tokens: makeTokens(tokens),
+          roles: {},
+        },
+      ]),
+    ),
+  } as unknown as SessionMetrics;
+}
+
+describe('pricing', () => {
+  describe('getModelPricing', () => {
+    it('prefers an exact match, then the longest prefix', () => {
+      expect(getModelPricing('gemini-2.5-flash')?.input).toBe(0.3);
+      expect(getModelPricing('gemini-2.5-flash-lite-001')?.input).toBe(0.1);
+      expect(getModelPricing('gemini-2.5-flash-001')?.input).toBe(0.3);
+    });
+
+    it('applies overrides and returns undefined for unknown models', () => {
+      const overrides = { 'my-model': { input: 1, output: 2 } };
+      expect(getModelPricing('my-model-v2', overrides)).toEqual({
+        input: 1,
+        output: 2,
+      });
+      expect(
+        getModelPricing('gemini-2.5-pro', {
+          'gemini-2.5-pro': { input: 5, output: 5 },
+        })?.input,
+      ).toBe(5);
+      expect(getModelPricing('unknown-model')).toBeUndefined();
+    });
+  });
+
+  describe('calculateModelCost', () => {
+    it('prices input, cached, tool, output and thought tokens', () => {
+      const cost = calculateModelCost(
+        makeTokens({
+          input: 1_000_000,
+          cached: 2_000_000,
+          tool: 1_000_000,
+          candidates: 500_000,
+          thoughts: 500_000,
+        }),
+        { input: 1, output: 10, cachedInput: 0.25 },
+      );
+      expect(cost).toBeCloseTo(2 + 0.5 + 10);
+    });
+
+    it('charges cached tokens at the input price by default', () => {
+      expect(
+        calculateModelCost(makeTokens({ cached: 1_000_000 }), {
+          input: 3,
+          output: 0,
+        }),
+      ).toBeCloseTo(3);
+    });
+  });
+
+  describe('calculateSessionCost', () => {
+    it('sums the models and lists the ones without a price', () => {
+      const cost = calculateSessionCost(
+        makeMetrics({
+          'gemini-2.5-pro': { input: 1_000_000, total: 1_000_000 },
+          'gemini-2.5-flash': { candidates: 1_000_000, total: 1_000_000 },
+          'local-model': { input: 10, total: 10 },
+        }),
+        undefined,
+        'EUR',
+      );
+      expect(cost.currency).toBe('EUR');
+      expect(cost.models['gemini-2.5-pro']).toBeCloseTo(1.25);
+      expect(cost.models['gemini-2.5-flash']).toBeCloseTo(2.5);
+      expect(cost.total).toBeCloseTo(3.75);
+      expect(cost.unpricedModels).toEqual(['local-model']);
+    });
+  });
+
+  describe('formatCost', () => {
+    it('formats currency codes and custom units', () => {
+      expect(formatCost(12.5, 'USD')).toBe('$12.50');
+      expect(formatCost(0.01234, 'USD')).toBe('$0.0123');
+      expect(formatCost(3, 'credits')).toBe('3.00 credits');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ModelMetrics, SessionMetrics } from '../telemetry/uiTelemetry.js';
+import {
+  DEFAULT_GEMINI_FLASH_LITE_MODEL,
+  DEFAULT_GEMINI_FLASH_MODEL,
+  DEFAULT_GEMINI_MODEL,
+  PREVIEW_GEMINI_3_1_MODEL,
+  PREVIEW_GEMINI_FLASH_MODEL,
+  PREVIEW_GEMINI_MODEL,
+} from '../config/models.js';
+
+/** Currency used for costs unless configured otherwise. */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Prices of a model, per million tokens.
+ */
+export interface ModelPricing {
+  /** Price of uncached input tokens, including tool use prompts. */
+  input: number;
+  /** Price of output tokens, including thoughts. */
+  output: number;
+  /** Price of cached input tokens. Defaults to the input price. */
+  cachedInput?: number;
+}
+
+/**
+ * Approximate list prices in USD for the default models. Users on other
+ * plans, currencies or models override or extend these in settings.
+ */
+export const DEFAULT_MODEL_PRICING: Readonly<Record<string, ModelPricing>> = {
+  [DEFAULT_GEMINI_MODEL]: { input: 1.25, output: 10, cachedInput: 0.125 },
+  [DEFAULT_GEMINI_FLASH_MODEL]: { input: 0.3, output: 2.5, cachedInput: 0.03 },
+  [DEFAULT_GEMINI_FLASH_LITE_MODEL]: {
+    input: 0.1,
+    output: 0.4,
+    cachedInput: 0.01,
+  },
+  [PREVIEW_GEMINI_MODEL]: { input: 2, output: 12, cachedInput: 0.2 },
+  [PREVIEW_GEMINI_3_1_MODEL]: { input: 2, output: 12, cachedInput: 0.2 },
+  [PREVIEW_GEMINI_FLASH_MODEL]: { input: 0.5, output: 3, cachedInput: 0.05 },
+};
+
+/**
+ * The cost of a session, broken down by model.
+ */
+export interface SessionCost {
+  currency: string;
+  total: number;
+  models: Record<string, number>;
+  /** Models with token usage but no known price; they add nothing to the total. */
+  unpricedModels: string[];
+}
+
+/**
+ * Looks up the pricing of a model. An exact match wins; otherwise the
+ * longest key that is a prefix of the model name is used, so that
+ * `gemini-2.5-flash` also prices versioned names like `gemini-2.5-flash-001`.
+ * Overrides take precedence over the defaults.
+ */
+export function getModelPricing(
+  model: string,
+  overrides: Record<string, ModelPricing> = {},
+): ModelPricing | undefined {
+  const pricing = { ...DEFAULT_MODEL_PRICING, ...overrides };
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Calculates the cost of the tokens a model used.
+ */
+export function calculateModelCost(
+  tokens: ModelMetrics['tokens'],
+  pricing: ModelPricing,
+): number {
+  const perToken = (pricePerMillion: number) => pricePerMillion / 1_000_000;
+  return (
+    (tokens.input + tokens.tool) * perToken(pricing.input) +
+    tokens.cached * perToken(pricing.cachedInput ?? pricing.input) +
+    (tokens.candidates + tokens.thoughts) * perToken(pricing.output)
+  );
+}
+
+/**
+ * Turns the token counts of a session into its cost.
+ */
+export function calculateSessionCost(
+  metrics: SessionMetrics,
+  overrides?: Record<string, ModelPricing>,
+  currency: string = DEFAULT_CURRENCY,
+): SessionCost {
+  const cost: SessionCost = {
+    currency,
+    total: 0,
+    models: {},
+    unpricedModels: [],
+  };
+  for (const [model, modelMetrics] of Object.entries(metrics.models)) {
+    const pricing = getModelPricing(model, overrides);
+    if (!pricing) {
+      if (modelMetrics.tokens.total > 0) {
+        cost.unpricedModels.push(model);
+      }
+      continue;
+    }
+    const modelCost = calculateModelCost(modelMetrics.tokens, pricing);
+    cost.models[model] = modelCost;
+    cost.total += modelCost;
+  }
+  return cost;
+}
+
+/**
+ * Formats an amount for display, keeping more digits for amounts below one
+ * unit so that cheap sessions don't show as zero.
+ */
+export function formatCost(amount: number, currency: string): string {
+  const fractionDigits = {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amount > 0 && amount < 1 ? 4 : 2,
+  };
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      ...fractionDigits,
+    }).format(amount);
+  } catch {
+    // Not an ISO 4217 code, e.g. a custom unit like "credits".
+    return `${new Intl.NumberFormat('en-US', fractionDigits).format(amount)} ${currency}`;
+  }
+}
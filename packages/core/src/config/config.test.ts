@@ -1058,6 +1058,104 @@ describe('Server Config (config.ts)', () => {
     );
   });
 
+  describe('provider chain', () => {
+    const providerParams: ConfigParameters = {
+      ...baseParams,
+      providerChain: [
+        {
+          backend: { authType: AuthType.USE_VERTEX_AI, label: 'vertex' },
+        },
+        {
+          model: 'llama3',
+          backend: {
+            authType: AuthType.OPENAI_COMPATIBLE,
+            label: 'local',
+            baseUrl: 'http://localhost:11434/v1',
+          },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(createContentGeneratorConfig).mockImplementation(
+        async (
+          _: Config,
+          authType: AuthType | undefined,
+          _apiKey?: string,
+          baseUrl?: string,
+        ) =>
+          ({
+            authType,
+            baseUrl,
+          }) as Partial<ContentGeneratorConfig> as ContentGeneratorConfig,
+      );
+    });
+
+    it('should not configure a chain by default', async () => {
+      const config = new Config(baseParams);
+
+      expect(config.getProviderChain()).toBeUndefined();
+      expect(await config.syncProviderHop()).toBeUndefined();
+    });
+
+    it('should activate the first hop with its auth and model', async () => {
+      const config = new Config(providerParams);
+
+      const hop = await config.syncProviderHop();
+
+      expect(hop?.backend?.label).toBe('vertex');
+      expect(config.getActiveProviderHop()).toBe(hop);
+      expect(config.getContentGeneratorConfig().authType).toBe(
+        AuthType.USE_VERTEX_AI,
+      );
+      expect(config.getModel()).toBe(MODEL);
+    });
+
+    it('should skip hops that are cooling down', async () => {
+      const config = new Config(providerParams);
+      config.getModelAvailabilityService().markHopFailed('vertex', 60_000);
+
+      const hop = await config.syncProviderHop();
+
+      expect(hop?.backend?.label).toBe('local');
+      expect(createContentGeneratorConfig).toHaveBeenCalledWith(
+        config,
+        AuthType.OPENAI_COMPATIBLE,
+        undefined,
+        'http://localhost:11434/v1',
+        undefined,
+      );
+      expect(config.getModel()).toBe('llama3');
+    });
+
+    it('should not refresh auth when the hop is already active', async () => {
+      const config = new Config(providerParams);
+      await config.syncProviderHop();
+      vi.mocked(createContentGeneratorConfig).mockClear();
+
+      await config.syncProviderHop();
+
+      expect(createContentGeneratorConfig).not.toHaveBeenCalled();
+    });
+
+    it('should cool down hops that fail to activate', async () => {
+      const config = new Config(providerParams);
+      vi.mocked(createContentGeneratorConfig).mockRejectedValueOnce(
+        new Error('missing credentials'),
+      );
+
+      const hop = await config.syncProviderHop();
+
+      expect(hop?.backend?.label).toBe('local');
+      expect(
+        config.getModelAvailabilityService().getHopHealth('vertex'),
+      ).toMatchObject({
+        consecutiveFailures: 1,
+        lastError: 'missing credentials',
+      });
+    });
+  });
+
   describe('Usage Statistics', () => {
     it('defaults usage statistics to enabled if not specified', () => {
       const config = new Config({
@@ -25,6 +25,16 @@ import {
   type ContentGeneratorConfig,
 } from '../core/contentGenerator.js';
 import type { OverageStrategy } from '../billing/billing.js';
+import {
+  BudgetTracker,
+  type BudgetHandler,
+  type BudgetLimits,
+} from '../billing/budget.js';
+import {
+  DEFAULT_CURRENCY,
+  type ModelPricing,
+  type SessionCost,
+} from '../billing/pricing.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
 import { ResourceRegistry } from '../resources/resource-registry.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
@@ -102,6 +112,8 @@ import {
   TrackerAddDependencyTool,
   TrackerVisualizeTool,
 } from '../tools/trackerTools.js';
+import { IdeDiagnosticsTool, IdeNavigateTool } from '../tools/ide-tools.js';
+import { DocSearchTool } from '../tools/doc-search.js';
 import {
   logRipgrepFallback,
   logFlashFallback,
@@ -119,6 +131,17 @@ import type {
   ValidationHandler,
 } from '../fallback/types.js';
 import { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
+import type {
+  ModelBackend,
+  ModelPolicy,
+  ModelPolicyChain,
+  ProviderHopConfig,
+} from '../availability/modelPolicy.js';
+import {
+  createProviderPolicyChain,
+  DEFAULT_HOP_COOLDOWN_MS,
+  getPolicyHopId,
+} from '../availability/policyCatalog.js';
 import { ModelRouterService } from '../routing/modelRouterService.js';
 import { OutputFormat } from '../output/types.js';
 import {
@@ -129,13 +152,18 @@ import {
 import { DEFAULT_MODEL_CONFIGS } from './defaultModelConfigs.js';
 import { MemoryContextManager } from '../context/memoryContextManager.js';
 import { TrackerService } from '../services/trackerService.js';
+import { WebFetchCache } from '../services/webFetchCache.js';
+import { DocSearchIndex } from '../services/docSearchIndex.js';
 import type { GenerateContentParameters } from '@google/genai';
 
 // Re-export OAuth config type
 export type { MCPOAuthConfig, AnyToolInvocation, AnyDeclarativeTool };
 import type { AnyToolInvocation, AnyDeclarativeTool } from '../tools/tools.js';
 import { WorkspaceContext } from '../utils/workspaceContext.js';
-import { getWorkspaceContextOverride } from './scoped-config.js';
+import {
+  getTargetDirOverride,
+  getWorkspaceContextOverride,
+} from './scoped-config.js';
 import { Storage } from './storage.js';
 import type { ShellExecutionConfig } from '../services/shellExecutionService.js';
 import { FileExclusions } from '../utils/ignorePatterns.js';
@@ -166,6 +194,7 @@ import { AcknowledgedAgentsService } from '../agents/acknowledgedAgents.js';
 import { setGlobalProxy, updateGlobalFetchTimeouts } from '../utils/fetch.js';
 import { ExperimentFlags } from '../code_assist/experiments/flagNames.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
 import { SkillManager, type SkillDefinition } from '../skills/skillManager.js';
 import { startupProfiler } from '../telemetry/startupProfiler.js';
 import type { AgentDefinition } from '../agents/types.js';
@@ -179,6 +208,11 @@ import { loadPoliciesFromToml } from '../policy/toml-loader.js';
 import { CheckerRunner } from '../safety/checker-runner.js';
 import { ContextBuilder } from '../safety/context-builder.js';
 import { CheckerRegistry } from '../safety/registry.js';
+import {
+  ContextProcessorRegistry,
+  type ContextProcessorDef,
+} from '../context/config/registry.js';
+import { registerBuiltInProcessors } from '../context/config/builtinProcessors.js';
 import { ConsecaSafetyChecker } from '../safety/conseca/conseca.js';
 import type { AgentLoopContext } from './agent-loop-context.js';
 
@@ -285,6 +319,13 @@ export interface AgentOverride {
 export interface AgentSettings {
   overrides?: Record<string, AgentOverride>;
   browser?: BrowserAgentCustomConfig;
+  /** How many subagent instances an `invoke_agent` fan-out runs at once. */
+  maxConcurrentFanOut?: number;
+  /**
+   * Directories of A2A agent card files and URLs of agent cards whose agents
+   * are imported as remote agents.
+   */
+  remoteAgentSources?: string[];
 }
 
 export interface CustomTheme {
@@ -420,6 +461,11 @@ export interface GeminiCLIExtension {
    * Used to migrate an extension to a new repository source.
    */
   migratedTo?: string;
+  /**
+   * Context processors contributed by this extension, with their factories
+   * already loaded. Their IDs are prefixed with the extension name.
+   */
+  contextProcessors?: ContextProcessorDef[];
   /** Loaded JS module for trajectory decoding */
   trajectoryProviderModule?: TrajectoryProvider;
 }
@@ -452,6 +498,7 @@ import {
 import { McpClientManager } from '../tools/mcp-client-manager.js';
 import { A2AClientManager } from '../agents/a2a-client-manager.js';
 import { type McpContext } from '../tools/mcp-client.js';
+import { type McpSamplingContext } from '../tools/mcp-sampling.js';
 import type { EnvironmentSanitizationConfig } from '../services/environmentSanitization.js';
 
 export type { FileFilteringOptions };
@@ -507,6 +554,12 @@ export enum AuthProviderType {
   SERVICE_ACCOUNT_IMPERSONATION = 'service_account_impersonation',
 }
 
+/**
+ * Where tool sandboxing runs commands: the platform's native sandbox, or a
+ * long-lived Podman or Docker container.
+ */
+export type ToolSandboxBackend = 'native' | 'podman' | 'docker';
+
 export interface SandboxConfig {
   enabled: boolean;
   allowedPaths?: string[];
@@ -520,6 +573,10 @@ export interface SandboxConfig {
     | 'lxc'
     | 'windows-native';
   image?: string;
+  /** Backend used for tool sandboxing. Defaults to `native`. */
+  toolBackend?: ToolSandboxBackend;
+  /** Image of the container that runs sandboxed tools with a container backend. */
+  toolImage?: string;
 }
 
 export const ConfigSchema = z.object({
@@ -585,6 +642,12 @@ export interface ConfigParameters {
   embeddingModel?: string;
   sandbox?: SandboxConfig;
   toolSandboxing?: boolean;
+  /** Domains sandboxed tools may reach through the egress proxy. */
+  sandboxAllowedDomains?: string[];
+  /** Domains sandboxed tools may never reach. */
+  sandboxDeniedDomains?: string[];
+  toolSandboxBackend?: ToolSandboxBackend;
+  toolSandboxImage?: string;
   targetDir: string;
   debugMode: boolean;
   question?: string;
@@ -667,6 +730,7 @@ export interface ConfigParameters {
   workspacePoliciesDir?: string;
   policyEngineConfig?: PolicyEngineConfig;
   directWebFetch?: boolean;
+  docSearchPaths?: string[];
   policyUpdateConfirmationRequest?: PolicyUpdateConfirmationRequest;
   output?: OutputSettings;
   gemmaModelRouter?: GemmaModelRouterSettings;
@@ -686,6 +750,7 @@ export interface ConfigParameters {
   acceptRawOutputRisk?: boolean;
   dynamicModelConfiguration?: boolean;
   modelConfigServiceConfig?: ModelConfigServiceConfig;
+  providerChain?: ProviderHopConfig[];
   enableHooks?: boolean;
   enableHooksUI?: boolean;
   experiments?: Experiments;
@@ -727,6 +792,9 @@ export interface ConfigParameters {
   enableConseca?: boolean;
   billing?: {
     overageStrategy?: OverageStrategy;
+    pricing?: Record<string, ModelPricing>;
+    currency?: string;
+    budget?: BudgetLimits;
   };
 }
 
@@ -749,12 +817,15 @@ export class Config implements McpContext, AgentLoopContext {
   private clientVersion: string;
   private fileSystemService: FileSystemService;
   private trackerService?: TrackerService;
+  private webFetchCache?: WebFetchCache;
   readonly topicState = new TopicState();
   private contentGeneratorConfig!: ContentGeneratorConfig;
   private contentGenerator!: ContentGenerator;
   readonly modelConfigService: ModelConfigService;
   private readonly embeddingModel: string;
   private readonly sandbox: SandboxConfig | undefined;
+  private readonly sandboxAllowedDomains: string[];
+  private readonly sandboxDeniedDomains: string[];
   private _sandboxForbiddenPaths: string[] | undefined;
   private readonly targetDir: string;
   private workspaceContext: WorkspaceContext;
@@ -790,6 +861,8 @@ export class Config implements McpContext, AgentLoopContext {
   private localLiteRtLmClient?: LocalLiteRtLmClient;
   private modelRouterService: ModelRouterService;
   private readonly modelAvailabilityService: ModelAvailabilityService;
+  private readonly providerChain: ModelPolicyChain | undefined;
+  private activeProviderHop: ModelPolicy | undefined;
   private readonly fileFiltering: {
     respectGitIgnore: boolean;
     respectGeminiIgnore: boolean;
@@ -862,6 +935,8 @@ export class Config implements McpContext, AgentLoopContext {
   private readonly ptyInfo: string;
   private readonly trustedFolder: boolean | undefined;
   private readonly directWebFetch: boolean;
+  private readonly docSearchPaths: string[];
+  private docSearchIndex?: DocSearchIndex;
   private readonly useRipgrep: boolean;
   private readonly enableInteractiveShell: boolean;
   private readonly shellBackgroundCompletionBehavior:
@@ -932,7 +1007,12 @@ export class Config implements McpContext, AgentLoopContext {
 
   private readonly billing: {
     overageStrategy: OverageStrategy;
+    pricing: Record<string, ModelPricing>;
+    currency: string;
+    budget: BudgetLimits;
   };
+  private budgetTracker?: BudgetTracker;
+  private budgetHandler?: BudgetHandler;
 
   private readonly enableAgents: boolean;
   private agents: AgentSettings;
@@ -943,6 +1023,7 @@ export class Config implements McpContext, AgentLoopContext {
   private readonly experimentalJitContext: boolean;
   private readonly experimentalMemoryManager: boolean;
   private readonly experimentalContextManagementConfig?: string;
+  private readonly contextProcessorRegistry = new ContextProcessorRegistry();
   private readonly memoryBoundaryMarkers: readonly string[];
   private readonly topicUpdateNarration: boolean;
   private readonly disableLLMCorrection: boolean;
@@ -978,14 +1059,21 @@ export class Config implements McpContext, AgentLoopContext {
           networkAccess: params.sandbox.networkAccess ?? false,
           command: params.sandbox.command,
           image: params.sandbox.image,
+          toolBackend: params.toolSandboxBackend,
+          toolImage: params.toolSandboxImage,
         }
       : {
           enabled: params.toolSandboxing || false,
           allowedPaths: [],
           includeDirectories: [Storage.getGlobalTempDir()],
           networkAccess: false,
+          toolBackend: params.toolSandboxBackend,
+          toolImage: params.toolSandboxImage,
         };
 
+    this.sandboxAllowedDomains = params.sandboxAllowedDomains ?? [];
+    this.sandboxDeniedDomains = params.sandboxDeniedDomains ?? [];
+
     this.targetDir = path.resolve(params.targetDir);
     this.folderTrust = params.folderTrust ?? false;
     this.workspaceContext = new WorkspaceContext(this.targetDir, []);
@@ -1010,6 +1098,8 @@ export class Config implements McpContext, AgentLoopContext {
           Storage.getGlobalTempDir(),
         ],
         policyManager: this._sandboxPolicyManager,
+        allowedDomains: this.sandboxAllowedDomains,
+        deniedDomains: this.sandboxDeniedDomains,
       },
       initialApprovalMode,
     );
@@ -1103,6 +1193,9 @@ export class Config implements McpContext, AgentLoopContext {
     this.disabledSkills = params.disabledSkills ?? [];
     this.adminSkillsEnabled = params.adminSkillsEnabled ?? true;
     this.modelAvailabilityService = new ModelAvailabilityService();
+    this.providerChain = params.providerChain?.length
+      ? createProviderPolicyChain(params.providerChain, this.model)
+      : undefined;
     this.dynamicModelConfiguration = params.dynamicModelConfiguration ?? false;
 
     // HACK: The settings loading logic doesn't currently merge the default
@@ -1156,6 +1249,7 @@ export class Config implements McpContext, AgentLoopContext {
     this.experimentalMemoryManager = params.experimentalMemoryManager ?? false;
     this.experimentalContextManagementConfig =
       params.experimentalContextManagementConfig;
+    registerBuiltInProcessors(this.contextProcessorRegistry);
     this.memoryBoundaryMarkers = params.memoryBoundaryMarkers ?? ['.git'];
     this.contextManagement = {
       enabled: params.contextManagement?.enabled ?? false,
@@ -1224,6 +1318,7 @@ export class Config implements McpContext, AgentLoopContext {
     this.ptyInfo = params.ptyInfo ?? 'child_process';
     this.trustedFolder = params.trustedFolder;
     this.directWebFetch = params.directWebFetch ?? false;
+    this.docSearchPaths = params.docSearchPaths ?? [];
     this.useRipgrep = params.useRipgrep ?? true;
     this.useBackgroundColor = params.useBackgroundColor ?? true;
     this.useAlternateBuffer = params.useAlternateBuffer ?? false;
@@ -1354,6 +1449,9 @@ export class Config implements McpContext, AgentLoopContext {
 
     this.billing = {
       overageStrategy: params.billing?.overageStrategy ?? 'ask',
+      pricing: params.billing?.pricing ?? {},
+      currency: params.billing?.currency ?? DEFAULT_CURRENCY,
+      budget: params.billing?.budget ?? {},
     };
 
     if (params.contextFileName) {
@@ -1735,6 +1833,8 @@ export class Config implements McpContext, AgentLoopContext {
           Storage.getGlobalTempDir(),
         ],
         policyManager: this._sandboxPolicyManager,
+        allowedDomains: this.sandboxAllowedDomains,
+        deniedDomains: this.sandboxDeniedDomains,
       },
       this.getApprovalMode(),
     );
@@ -1860,6 +1960,85 @@ export class Config implements McpContext, AgentLoopContext {
     return this._activeModel ?? this.model;
   }
 
+  getProviderChain(): ModelPolicyChain | undefined {
+    return this.providerChain;
+  }
+
+  /**
+   * Returns the provider chain hop serving requests, if a provider chain is
+   * configured and a hop has been activated.
+   */
+  getActiveProviderHop(): ModelPolicy | undefined {
+    return this.activeProviderHop;
+  }
+
+  /**
+   * Activates the first provider chain hop that is not cooling down, switching
+   * auth and model if needed. Hops that fail to activate are cooled down and
+   * skipped. Returns the serving hop, or undefined if no provider chain is
+   * configured.
+   */
+  async syncProviderHop(): Promise<ModelPolicy | undefined> {
+    if (!this.providerChain) {
+      return undefined;
+    }
+
+    for (;;) {
+      const { selectedHop } =
+        this.modelAvailabilityService.selectFirstAvailableHop(
+          this.providerChain.map(getPolicyHopId),
+        );
+      const hop = this.providerChain.find(
+        (policy) => getPolicyHopId(policy) === selectedHop,
+      );
+      if (!hop) {
+        // Every hop is cooling down; keep serving from the current one.
+        return this.activeProviderHop;
+      }
+      if (hop === this.activeProviderHop) {
+        return hop;
+      }
+
+      try {
+        await this.activateProviderHop(hop);
+        return hop;
+      } catch (e) {
+        debugLogger.warn(
+          `Failed to activate provider chain hop ${selectedHop}:`,
+          e,
+        );
+        this.modelAvailabilityService.markHopFailed(
+          getPolicyHopId(hop),
+          hop.cooldownMs ?? DEFAULT_HOP_COOLDOWN_MS,
+          getErrorMessage(e),
+        );
+      }
+    }
+  }
+
+  private async activateProviderHop(hop: ModelPolicy): Promise<void> {
+    const backend = hop.backend;
+    if (backend && !this.isBackendActive(backend)) {
+      await this.refreshAuth(
+        backend.authType,
+        backend.apiKeyEnvVar ? process.env[backend.apiKeyEnvVar] : undefined,
+        backend.baseUrl,
+      );
+    }
+    this.activeProviderHop = hop;
+    this.setModel(hop.model, true);
+  }
+
+  private isBackendActive(backend: ModelBackend): boolean {
+    const current = this.contentGeneratorConfig;
+    return (
+      current?.authType === backend.authType &&
+      (backend.baseUrl === undefined || current.baseUrl === backend.baseUrl) &&
+      (backend.apiKeyEnvVar === undefined ||
+        current.apiKey === process.env[backend.apiKeyEnvVar])
+    );
+  }
+
   setActiveModel(model: string): void {
     if (this._activeModel !== model) {
       this._activeModel = model;
@@ -1882,6 +2061,14 @@ export class Config implements McpContext, AgentLoopContext {
     return this.validationHandler;
   }
 
+  setBudgetHandler(handler: BudgetHandler): void {
+    this.budgetHandler = handler;
+  }
+
+  getBudgetHandler(): BudgetHandler | undefined {
+    return this.budgetHandler;
+  }
+
   resetTurn(): void {
     this.modelAvailabilityService.resetTurn();
   }
@@ -2055,7 +2242,7 @@ export class Config implements McpContext, AgentLoopContext {
   }
 
   getTargetDir(): string {
-    return this.targetDir;
+    return getTargetDirOverride() ?? this.targetDir;
   }
 
   getProjectRoot(): string {
@@ -2490,6 +2677,14 @@ export class Config implements McpContext, AgentLoopContext {
     return this.experimentalContextManagementConfig;
   }
 
+  /**
+   * Processor types that context management configs can reference, including
+   * ones contributed by active extensions.
+   */
+  getContextProcessorRegistry(): ContextProcessorRegistry {
+    return this.contextProcessorRegistry;
+  }
+
   getContextManagementConfig(): ContextManagementConfig {
     return this.contextManagement;
   }
@@ -2736,10 +2931,34 @@ export class Config implements McpContext, AgentLoopContext {
     return this.telemetrySettings.outfile;
   }
 
-  getBillingSettings(): { overageStrategy: OverageStrategy } {
+  getBillingSettings(): {
+    overageStrategy: OverageStrategy;
+    pricing: Record<string, ModelPricing>;
+    currency: string;
+    budget: BudgetLimits;
+  } {
     return this.billing;
   }
 
+  getBudgetTracker(): BudgetTracker {
+    if (!this.budgetTracker) {
+      this.budgetTracker = new BudgetTracker({
+        sessionId: this.getSessionId(),
+        telemetry: uiTelemetryService,
+        ledgerPath: Storage.getCostLedgerPath(),
+        limits: this.billing.budget,
+        pricing: this.billing.pricing,
+        currency: this.billing.currency,
+      });
+    }
+    return this.budgetTracker;
+  }
+
+  /** Returns the cost of the session so far, priced per model. */
+  getSessionCost(): SessionCost {
+    return this.getBudgetTracker().getSessionCost();
+  }
+
   /**
    * Updates the overage strategy at runtime.
    * Used to switch from 'ask' to 'always' after the user accepts credits
@@ -2855,6 +3074,13 @@ export class Config implements McpContext, AgentLoopContext {
     return this.trackerService;
   }
 
+  getWebFetchCache(): WebFetchCache {
+    if (!this.webFetchCache) {
+      this.webFetchCache = new WebFetchCache(Storage.getWebFetchCacheDir());
+    }
+    return this.webFetchCache;
+  }
+
   getFileService(): FileDiscoveryService {
     if (!this.fileDiscoveryService) {
       this.fileDiscoveryService = new FileDiscoveryService(this.targetDir, {
@@ -2934,6 +3160,28 @@ export class Config implements McpContext, AgentLoopContext {
     return this.directWebFetch;
   }
 
+  getDocSearchPaths(): string[] {
+    return this.docSearchPaths;
+  }
+
+  /**
+   * Returns the index of locally searchable documentation, or undefined when
+   * no documentation paths are configured.
+   */
+  getDocSearchIndex(): DocSearchIndex | undefined {
+    if (this.docSearchPaths.length === 0) {
+      return undefined;
+    }
+    if (!this.docSearchIndex) {
+      this.docSearchIndex = new DocSearchIndex(
+        this.docSearchPaths,
+        this.targetDir,
+        this.getFileService(),
+      );
+    }
+    return this.docSearchIndex;
+  }
+
   setApprovedPlanPath(path: string | undefined): void {
     this.approvedPlanPath = path;
   }
@@ -3469,6 +3717,10 @@ export class Config implements McpContext, AgentLoopContext {
     return this.policyEngine;
   }
 
+  getMcpSamplingContext(): McpSamplingContext {
+    return this;
+  }
+
   getEnableHooks(): boolean {
     return this.enableHooks;
   }
@@ -3694,6 +3946,23 @@ export class Config implements McpContext, AgentLoopContext {
       );
     }
 
+    // Language features are served by the IDE companion, so they are only
+    // offered in IDE mode.
+    if (this.getIdeMode()) {
+      maybeRegister(IdeDiagnosticsTool, () =>
+        registry.registerTool(new IdeDiagnosticsTool(this, this.messageBus)),
+      );
+      maybeRegister(IdeNavigateTool, () =>
+        registry.registerTool(new IdeNavigateTool(this, this.messageBus)),
+      );
+    }
+
+    if (this.docSearchPaths.length > 0) {
+      maybeRegister(DocSearchTool, () =>
+        registry.registerTool(new DocSearchTool(this, this.messageBus)),
+      );
+    }
+
     // Register Subagent Tool
     maybeRegister(AgentTool, () =>
       registry.registerTool(new AgentTool(this, this.messageBus)),
@@ -12,6 +12,9 @@ import {
   createScopedWorkspaceContext,
   runWithScopedWorkspaceContext,
   getWorkspaceContextOverride,
+  createWorktreeWorkspaceContext,
+  runWithScopedTargetDir,
+  getTargetDirOverride,
 } from './scoped-config.js';
 import { Config } from './config.js';
 
@@ -204,3 +207,54 @@ describe('runWithScopedWorkspaceContext', () => {
     });
   });
 });
+
+describe('worktree scoping', () => {
+  let tempDir: string;
+  let extraDir: string;
+  let worktreeDir: string;
+  let config: Config;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoped-worktree-'));
+    extraDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoped-worktree-extra-'));
+    worktreeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoped-worktree-wt-'));
+
+    config = new Config({
+      targetDir: tempDir,
+      sessionId: 'test-session',
+      debugMode: false,
+      cwd: tempDir,
+      model: 'test-model',
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(extraDir, { recursive: true, force: true });
+    fs.rmSync(worktreeDir, { recursive: true, force: true });
+  });
+
+  it('should replace the primary directory with the worktree', () => {
+    const parent = createScopedWorkspaceContext(config.getWorkspaceContext(), [
+      extraDir,
+    ]);
+    const scoped = createWorktreeWorkspaceContext(parent, worktreeDir);
+    const dirs = scoped.getDirectories();
+
+    expect(dirs[0]).toBe(fs.realpathSync(worktreeDir));
+    expect(dirs).toContain(fs.realpathSync(extraDir));
+    expect(dirs).not.toContain(fs.realpathSync(tempDir));
+  });
+
+  it('should override Config.getTargetDir() only within scope', async () => {
+    expect(getTargetDirOverride()).toBeUndefined();
+
+    await runWithScopedTargetDir(worktreeDir, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(config.getTargetDir()).toBe(worktreeDir);
+      expect(getTargetDirOverride()).toBe(worktreeDir);
+    });
+
+    expect(config.getTargetDir()).toBe(path.resolve(tempDir));
+  });
+});
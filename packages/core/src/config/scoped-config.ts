@@ -84,3 +84,50 @@ export function createScopedWorkspaceContext(
     ...additionalDirectories,
   ]);
 }
+
+/**
+ * AsyncLocalStorage for scoped target directory overrides.
+ *
+ * Subagents that run in an isolated git worktree execute inside this store so
+ * that `Config.getTargetDir()` resolves relative paths, shell working
+ * directories and file discovery against the worktree instead of the main
+ * checkout.
+ */
+const targetDirOverride = new AsyncLocalStorage<string>();
+
+/**
+ * Returns the current target directory override, if any.
+ * Called by `Config.getTargetDir()` to check for per-agent scoping.
+ */
+export function getTargetDirOverride(): string | undefined {
+  return targetDirOverride.getStore();
+}
+
+/**
+ * Runs a function with a scoped target directory override.
+ * Any calls to `Config.getTargetDir()` within `fn` will return `targetDir`.
+ *
+ * @param targetDir The directory to use as the target directory.
+ * @param fn The function to run.
+ * @returns The result of the function.
+ */
+export function runWithScopedTargetDir<T>(targetDir: string, fn: () => T): T {
+  return targetDirOverride.run(targetDir, fn);
+}
+
+/**
+ * Creates a {@link WorkspaceContext} rooted at a worktree that replaces the
+ * parent's primary directory. The main checkout is left out so tools can't
+ * write to it, while any additional directories are kept.
+ *
+ * @param parentContext The parent workspace context.
+ * @param worktreePath The worktree to use as the primary directory.
+ * @returns A new WorkspaceContext rooted at the worktree.
+ */
+export function createWorktreeWorkspaceContext(
+  parentContext: WorkspaceContext,
+  worktreePath: string,
+): WorkspaceContext {
+  const additionalDirs = parentContext.getDirectories().slice(1);
+  return new WorkspaceContext(worktreePath, [...additionalDirs]);
+}
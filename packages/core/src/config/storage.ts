@@ -22,6 +22,7 @@ import { StorageMigration } from './storageMigration.js';
 export const OAUTH_FILE = 'oauth_creds.json';
 const TMP_DIR_NAME = 'tmp';
 const BIN_DIR_NAME = 'bin';
+const WEB_FETCH_CACHE_DIR_NAME = 'web-fetch-cache';
 const AGENTS_DIR_NAME = '.agents';
 
 export const AUTO_SAVED_POLICY_FILENAME = 'auto-saved.toml';
@@ -78,6 +79,10 @@ export class Storage {
     return path.join(Storage.getGlobalGeminiDir(), 'settings.json');
   }
 
+  static getCostLedgerPath(): string {
+    return path.join(Storage.getGlobalGeminiDir(), 'cost-ledger.json');
+  }
+
   static getInstallationIdPath(): string {
     return path.join(Storage.getGlobalGeminiDir(), 'installation_id');
   }
@@ -155,6 +160,10 @@ export class Storage {
     return path.join(Storage.getGlobalTempDir(), BIN_DIR_NAME);
   }
 
+  static getWebFetchCacheDir(): string {
+    return path.join(Storage.getGlobalTempDir(), WEB_FETCH_CACHE_DIR_NAME);
+  }
+
   getGeminiDir(): string {
     return path.join(this.targetDir, GEMINI_DIR);
   }
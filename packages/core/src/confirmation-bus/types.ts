@@ -5,6 +5,10 @@
  */
 
 import { type FunctionCall } from '@google/genai';
+import type {
+  ElicitRequestFormParams,
+  ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
 import { type ApprovalMode } from '../policy/types.js';
 import type {
   ToolConfirmationOutcome,
@@ -26,6 +30,8 @@ export enum MessageBusType {
   ASK_USER_REQUEST = 'ask-user-request',
   ASK_USER_RESPONSE = 'ask-user-response',
   SUBAGENT_ACTIVITY = 'subagent-activity',
+  MCP_ELICITATION_REQUEST = 'mcp-elicitation-request',
+  MCP_ELICITATION_RESPONSE = 'mcp-elicitation-response',
 }
 
 export interface ToolCallsUpdateMessage {
@@ -107,6 +113,7 @@ export type SerializableConfirmationDetails =
       originalContent: string | null;
       newContent: string;
       isModifying?: boolean;
+      isModifiable?: boolean;
       diffStat?: DiffStat;
     }
   | {
@@ -217,6 +224,29 @@ export interface SubagentActivityMessage {
   activity: SubagentActivityItem;
 }
 
+/**
+ * The restricted JSON schema an MCP server uses to describe the fields it
+ * wants the user to fill in.
+ */
+export type McpElicitationSchema = ElicitRequestFormParams['requestedSchema'];
+
+export interface McpElicitationRequest {
+  type: MessageBusType.MCP_ELICITATION_REQUEST;
+  correlationId: string;
+  serverName: string;
+  /** The message the server wants to show to the user. */
+  message: string;
+  requestedSchema: McpElicitationSchema;
+}
+
+export interface McpElicitationResponse {
+  type: MessageBusType.MCP_ELICITATION_RESPONSE;
+  correlationId: string;
+  action: ElicitResult['action'];
+  /** The submitted values, only present when action is 'accept'. */
+  content?: ElicitResult['content'];
+}
+
 export type Message =
   | ToolConfirmationRequest
   | ToolConfirmationResponse
@@ -227,4 +257,6 @@ export type Message =
   | AskUserRequest
   | AskUserResponse
   | ToolCallsUpdateMessage
-  | SubagentActivityMessage;
+  | SubagentActivityMessage
+  | McpElicitationRequest
+  | McpElicitationResponse;
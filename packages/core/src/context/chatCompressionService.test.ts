@@ -292,6 +292,53 @@ describe('ChatCompressionService', () => {
     );
   });
 
+  it('should keep pinned parts verbatim after the summary', async () => {
+    const pinnedPrompt = { text: 'Always use tabs.' };
+    const call = {
+      functionCall: { id: 'call-1', name: 'read_file', args: {} },
+    };
+    const pinnedResponse = {
+      functionResponse: {
+        id: 'call-1',
+        name: 'read_file',
+        response: { output: 'file contents' },
+      },
+    };
+    const history: Content[] = [
+      { role: 'user', parts: [pinnedPrompt, { text: 'Fix the bug.' }] },
+      { role: 'model', parts: [{ text: 'Reading the file.' }, call] },
+      { role: 'user', parts: [pinnedResponse] },
+      { role: 'model', parts: [{ text: 'Fixed it.' }] },
+      { role: 'user', parts: [{ text: 'Thanks' }] },
+    ];
+    vi.mocked(mockChat.getHistory).mockReturnValue(history);
+
+    const result = await service.compress(
+      mockChat,
+      mockPromptId,
+      true,
+      mockModel,
+      mockConfig,
+      false,
+      undefined,
+      new Set([pinnedPrompt, pinnedResponse]),
+    );
+
+    expect(result.info.compressionStatus).toBe(CompressionStatus.COMPRESSED);
+    expect(result.newHistory).toEqual([
+      { role: 'user', parts: [{ text: 'Verified Summary' }, pinnedPrompt] },
+      { role: 'model', parts: [call] },
+      { role: 'user', parts: [pinnedResponse] },
+      {
+        role: 'model',
+        parts: [{ text: 'Got it. Thanks for the additional context!' }],
+      },
+      { role: 'user', parts: [{ text: 'Thanks' }] },
+    ]);
+    expect(result.newHistory![0].parts![1]).toBe(pinnedPrompt);
+    expect(result.newHistory![2].parts![0]).toBe(pinnedResponse);
+  });
+
   it('should fall back to initial summary if verification response is empty', async () => {
     const history: Content[] = [
       { role: 'user', parts: [{ text: 'msg1' }] },
@@ -584,6 +631,51 @@ describe('ChatCompressionService', () => {
       expect(files[0]).toMatch(/grep_.*\.txt/);
     });
 
+    it('should not truncate pinned function responses', async () => {
+      vi.mocked(mockChat.getLastPromptTokenCount).mockReturnValue(600000);
+      const largeResponse = 'a'.repeat(170000);
+      const pinnedResponse = {
+        functionResponse: {
+          name: 'grep',
+          response: { content: largeResponse },
+        },
+      };
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'old msg' }] },
+        { role: 'model', parts: [{ text: 'old resp' }] },
+        { role: 'user', parts: [{ text: 'msg 1' }] },
+        { role: 'user', parts: [pinnedResponse] },
+        { role: 'model', parts: [{ text: 'resp 2' }] },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'grep',
+                response: { content: largeResponse },
+              },
+            },
+          ],
+        },
+      ];
+      vi.mocked(mockChat.getHistory).mockReturnValue(history);
+
+      const result = await service.compress(
+        mockChat,
+        mockPromptId,
+        true,
+        mockModel,
+        mockConfig,
+        false,
+        undefined,
+        new Set([pinnedResponse]),
+      );
+
+      expect(result.info.compressionStatus).toBe(CompressionStatus.COMPRESSED);
+      const keptHistory = result.newHistory!.slice(2);
+      expect(keptHistory[1].parts![0]).toBe(pinnedResponse);
+    });
+
     it('should correctly handle massive single-line strings inside JSON by using multi-line Elephant Line logic', async () => {
       vi.mocked(mockConfig.getCompressionThreshold).mockResolvedValue(0.5);
       vi.mocked(mockChat.getLastPromptTokenCount).mockReturnValue(600000);
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Content } from '@google/genai';
+import type { Content, Part } from '@google/genai';
 import type { Config } from '../config/config.js';
 import type { GeminiChat } from '../core/geminiChat.js';
 import { type ChatCompressionInfo, CompressionStatus } from '../core/turn.js';
@@ -130,11 +130,13 @@ export function modelStringToModelConfigAlias(model: string): string {
  *    tool responses are truncated to their last 30 lines and saved to a temporary file.
  *
  * This ensures that compression effectively reduces context size even when recent turns
- * contain massive tool outputs (like large grep results or logs).
+ * contain massive tool outputs (like large grep results or logs). Pinned parts are never
+ * truncated.
  */
 async function truncateHistoryToBudget(
   history: readonly Content[],
   config: Config,
+  pinnedParts: ReadonlySet<Part>,
 ): Promise<Content[]> {
   let functionResponseTokenCounter = 0;
   const truncatedHistory: Content[] = [];
@@ -179,8 +181,9 @@ async function truncateHistoryToBudget(
           const tokens = estimateTokenCountSync([{ text: contentStr }]);
 
           if (
+            !pinnedParts.has(part) &&
             functionResponseTokenCounter + tokens >
-            COMPRESSION_FUNCTION_RESPONSE_TOKEN_BUDGET
+              COMPRESSION_FUNCTION_RESPONSE_TOKEN_BUDGET
           ) {
             try {
               // Budget exceeded: Truncate this response.
@@ -234,6 +237,55 @@ async function truncateHistoryToBudget(
   return truncatedHistory;
 }
 
+/**
+ * Returns the pinned parts of the given history as turns of their own, so they
+ * can be kept verbatim next to the summary. A pinned tool response brings its
+ * call along, since the model API rejects a response without one.
+ */
+function getPinnedHistory(
+  history: readonly Content[],
+  pinnedParts: ReadonlySet<Part>,
+): Content[] {
+  if (pinnedParts.size === 0) {
+    return [];
+  }
+  const pinnedResponses = history
+    .flatMap((content) => content.parts ?? [])
+    .filter((part) => part.functionResponse && pinnedParts.has(part));
+  const isCallOfPinnedResponse = (part: Part) =>
+    !!part.functionCall &&
+    pinnedResponses.some(
+      (response) =>
+        response.functionResponse?.id === part.functionCall?.id &&
+        response.functionResponse?.name === part.functionCall?.name,
+    );
+
+  const pinnedHistory: Content[] = [];
+  for (const content of history) {
+    const parts = (content.parts ?? []).filter(
+      (part) => pinnedParts.has(part) || isCallOfPinnedResponse(part),
+    );
+    if (parts.length > 0) {
+      pinnedHistory.push({ role: content.role, parts });
+    }
+  }
+  return pinnedHistory;
+}
+
+/** Merges consecutive turns of the same role so the roles alternate. */
+function mergeConsecutiveTurns(history: readonly Content[]): Content[] {
+  const merged: Content[] = [];
+  for (const content of history) {
+    const last = merged.at(-1);
+    if (last && last.role === content.role) {
+      last.parts = [...(last.parts ?? []), ...(content.parts ?? [])];
+    } else {
+      merged.push({ ...content, parts: [...(content.parts ?? [])] });
+    }
+  }
+  return merged;
+}
+
 export class ChatCompressionService {
   async compress(
     chat: GeminiChat,
@@ -243,6 +295,7 @@ export class ChatCompressionService {
     config: Config,
     hasFailedCompressionAttempt: boolean,
     abortSignal?: AbortSignal,
+    pinnedParts: ReadonlySet<Part> = new Set(),
   ): Promise<{ newHistory: Content[] | null; info: ChatCompressionInfo }> {
     const curatedHistory = chat.getHistory(true);
 
@@ -287,6 +340,7 @@ export class ChatCompressionService {
     const truncatedHistory = await truncateHistoryToBudget(
       curatedHistory,
       config,
+      pinnedParts,
     );
 
     // If summarization previously failed (and not forced), we only rely on truncation.
@@ -426,15 +480,20 @@ export class ChatCompressionService {
       };
     }
 
+    // Pinned parts of the summarized history are kept verbatim after the
+    // summary.
     const extraHistory: Content[] = [
-      {
-        role: 'user',
-        parts: [{ text: finalSummary }],
-      },
-      {
-        role: 'model',
-        parts: [{ text: 'Got it. Thanks for the additional context!' }],
-      },
+      ...mergeConsecutiveTurns([
+        {
+          role: 'user',
+          parts: [{ text: finalSummary }],
+        },
+        ...getPinnedHistory(originalHistoryToCompress, pinnedParts),
+        {
+          role: 'model',
+          parts: [{ text: 'Got it. Thanks for the additional context!' }],
+        },
+      ]),
       ...historyToKeepTruncated,
     ];
 
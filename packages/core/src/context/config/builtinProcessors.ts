@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ContextProcessorRegistry } from './registry.js';
+import {
+  BlobDegradationProcessorOptionsSchema,
+  createBlobDegradationProcessor,
+} from '../processors/blobDegradationProcessor.js';
+import {
+  HistoryTruncationProcessorOptionsSchema,
+  createHistoryTruncationProcessor,
+} from '../processors/historyTruncationProcessor.js';
+import {
+  NodeDistillationProcessorOptionsSchema,
+  createNodeDistillationProcessor,
+} from '../processors/nodeDistillationProcessor.js';
+import {
+  NodeTruncationProcessorOptionsSchema,
+  createNodeTruncationProcessor,
+} from '../processors/nodeTruncationProcessor.js';
+import {
+  RollingSummaryProcessorOptionsSchema,
+  createRollingSummaryProcessor,
+} from '../processors/rollingSummaryProcessor.js';
+import {
+  StateSnapshotAsyncProcessorOptionsSchema,
+  createStateSnapshotAsyncProcessor,
+} from '../processors/stateSnapshotAsyncProcessor.js';
+import {
+  StateSnapshotProcessorOptionsSchema,
+  createStateSnapshotProcessor,
+} from '../processors/stateSnapshotProcessor.js';
+import {
+  ToolMaskingProcessorOptionsSchema,
+  createToolMaskingProcessor,
+} from '../processors/toolMaskingProcessor.js';
+
+/**
+ * Registers the processors that ship with core under their type names.
+ */
+export function registerBuiltInProcessors(registry: ContextProcessorRegistry) {
+  registry.registerProcessor({
+    id: 'BlobDegradation',
+    schema: BlobDegradationProcessorOptionsSchema,
+    create: (id, env) => createBlobDegradationProcessor(id, env),
+  });
+  registry.registerProcessor({
+    id: 'HistoryTruncation',
+    schema: HistoryTruncationProcessorOptionsSchema,
+    create: createHistoryTruncationProcessor,
+  });
+  registry.registerProcessor({
+    id: 'NodeDistillation',
+    schema: NodeDistillationProcessorOptionsSchema,
+    create: createNodeDistillationProcessor,
+  });
+  registry.registerProcessor({
+    id: 'NodeTruncation',
+    schema: NodeTruncationProcessorOptionsSchema,
+    create: createNodeTruncationProcessor,
+  });
+  registry.registerProcessor({
+    id: 'RollingSummary',
+    schema: RollingSummaryProcessorOptionsSchema,
+    create: createRollingSummaryProcessor,
+  });
+  registry.registerProcessor({
+    id: 'StateSnapshot',
+    schema: StateSnapshotProcessorOptionsSchema,
+    create: createStateSnapshotProcessor,
+  });
+  registry.registerProcessor({
+    id: 'StateSnapshotAsync',
+    schema: StateSnapshotAsyncProcessorOptionsSchema,
+    createAsync: createStateSnapshotAsyncProcessor,
+  });
+  registry.registerProcessor({
+    id: 'ToolMasking',
+    schema: ToolMaskingProcessorOptionsSchema,
+    create: createToolMaskingProcessor,
+  });
+}
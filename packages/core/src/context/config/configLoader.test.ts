@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { loadContextManagementConfig } from './configLoader.js';
 import { defaultContextProfile } from './profiles.js';
 import { ContextProcessorRegistry } from './registry.js';
@@ -13,6 +13,8 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import type { Config } from '../../config/config.js';
 import type { JSONSchemaType } from 'ajv';
+import { registerBuiltInProcessors } from './builtinProcessors.js';
+import { createMockEnvironment } from '../testing/contextTestUtils.js';
 
 describe('SidecarLoader (Real FS)', () => {
   let tmpDir: string;
@@ -91,4 +93,115 @@ describe('SidecarLoader (Real FS)', () => {
       loadContextManagementConfig(mockConfig, registry),
     ).rejects.toThrow('Unexpected end of JSON input');
   });
+
+  describe('configured pipelines', () => {
+    const collapseLogs = vi.fn((id: string) => ({
+      id,
+      name: 'CollapseLogs',
+      process: async () => [],
+    }));
+
+    beforeEach(() => {
+      registerBuiltInProcessors(registry);
+      registry.registerProcessor({
+        id: 'build-tools.collapseLogs',
+        schema: {
+          type: 'object',
+          properties: { maxLines: { type: 'number' } },
+          required: ['maxLines'],
+        } as unknown as JSONSchemaType<{ maxLines: number }>,
+        create: collapseLogs,
+        extensionName: 'build-tools',
+      });
+    });
+
+    it('appends pipelines that reference registered processors', async () => {
+      await fs.writeFile(
+        sidecarPath,
+        JSON.stringify({
+          processorOptions: {
+            buildLogs: {
+              type: 'build-tools.collapseLogs',
+              options: { maxLines: 20 },
+            },
+            summary: { type: 'RollingSummary', options: {} },
+          },
+          pipelines: [
+            {
+              name: 'Build Logs',
+              triggers: ['new_message'],
+              processors: ['buildLogs', 'summary'],
+            },
+          ],
+        }),
+      );
+      const env = createMockEnvironment();
+
+      const result = await loadContextManagementConfig(mockConfig, registry);
+      const pipelines = result.buildPipelines(env, result.config);
+
+      expect(pipelines.map((pipeline) => pipeline.name)).toEqual([
+        ...defaultContextProfile
+          .buildPipelines(env)
+          .map((pipeline) => pipeline.name),
+        'Build Logs',
+      ]);
+      const buildLogs = pipelines[pipelines.length - 1];
+      expect(buildLogs.triggers).toEqual(['new_message']);
+      expect(buildLogs.processors.map((processor) => processor.id)).toEqual([
+        'buildLogs',
+        'summary',
+      ]);
+      expect(collapseLogs).toHaveBeenCalledWith('buildLogs', env, {
+        maxLines: 20,
+      });
+    });
+
+    it('rejects pipelines that reference undeclared processors', async () => {
+      await fs.writeFile(
+        sidecarPath,
+        JSON.stringify({
+          pipelines: [
+            {
+              name: 'Build Logs',
+              triggers: ['new_message'],
+              processors: ['buildLogs'],
+            },
+          ],
+        }),
+      );
+      await expect(
+        loadContextManagementConfig(mockConfig, registry),
+      ).rejects.toThrow(
+        'Pipeline "Build Logs" references "buildLogs", which is not declared in processorOptions.',
+      );
+    });
+
+    it('rejects sync processors in async pipelines', async () => {
+      await fs.writeFile(
+        sidecarPath,
+        JSON.stringify({
+          processorOptions: {
+            buildLogs: {
+              type: 'build-tools.collapseLogs',
+              options: { maxLines: 20 },
+            },
+          },
+          pipelines: [
+            {
+              name: 'Background',
+              triggers: ['nodes_aged_out'],
+              processors: ['buildLogs'],
+              async: true,
+            },
+          ],
+        }),
+      );
+      await expect(
+        loadContextManagementConfig(mockConfig, registry),
+      ).rejects.toThrow(
+        'Processor "buildLogs" of type "build-tools.collapseLogs" can\'t run in async pipeline "Background".',
+      );
+    });
+  });
 });
@@ -8,7 +8,12 @@ import type { Config } from '../../config/config.js';
 import * as fsSync from 'node:fs';
 import * as fs from 'node:fs/promises';
 import type { ContextManagementConfig } from './types.js';
-import { defaultContextProfile, type ContextProfile } from './profiles.js';
+import {
+  defaultContextProfile,
+  validatePipelineReferences,
+  withConfiguredPipelines,
+  type ContextProfile,
+} from './profiles.js';
 import { SchemaValidator } from '../../utils/schemaValidator.js';
 import { getContextManagementConfigSchema } from './schema.js';
 import type { ContextProcessorRegistry } from './registry.js';
@@ -53,16 +58,28 @@ async function loadConfigFromFile(
   // so we know with absolute certainty at runtime that \`parsed\` conforms to this shape.
   // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
   const validConfig = parsed as ContextManagementConfig;
-  return {
-    ...defaultContextProfile,
-    config: {
-      ...defaultContextProfile.config,
-      ...(validConfig.budget ? { budget: validConfig.budget } : {}),
-      ...(validConfig.processorOptions
-        ? { processorOptions: validConfig.processorOptions }
-        : {}),
+
+  const referenceError = validatePipelineReferences(validConfig, registry);
+  if (referenceError) {
+    throw new Error(
+      `Invalid sidecar configuration in ${sidecarPath}. ${referenceError}`,
+    );
+  }
+
+  return withConfiguredPipelines(
+    {
+      ...defaultContextProfile,
+      config: {
+        ...defaultContextProfile.config,
+        ...(validConfig.budget ? { budget: validConfig.budget } : {}),
+        ...(validConfig.processorOptions
+          ? { processorOptions: validConfig.processorOptions }
+          : {}),
+        ...(validConfig.pipelines ? { pipelines: validConfig.pipelines } : {}),
+      },
     },
-  };
+    registry,
+  );
 }
 
 /**
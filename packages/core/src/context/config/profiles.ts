@@ -7,9 +7,11 @@
 import type {
   AsyncPipelineDef,
   ContextManagementConfig,
+  ContextPipelineConfig,
   PipelineDef,
 } from './types.js';
 import type { ContextEnvironment } from '../pipeline/environment.js';
+import type { ContextProcessorRegistry } from './registry.js';
 
 // Import factories
 import { createToolMaskingProcessor } from '../processors/toolMaskingProcessor.js';
@@ -143,3 +145,88 @@ export const defaultContextProfile: ContextProfile = {
     },
   ],
 };
+
+/**
+ * Checks that every processor named by a configured pipeline is declared in
+ * `processorOptions` and has a registered type that can run in that pipeline.
+ * Returns an error message, or null if the references are valid.
+ */
+export function validatePipelineReferences(
+  config: ContextManagementConfig,
+  registry: ContextProcessorRegistry,
+): string | null {
+  for (const pipeline of config.pipelines ?? []) {
+    for (const name of pipeline.processors) {
+      const entry = config.processorOptions?.[name];
+      if (!entry) {
+        return `Pipeline "${pipeline.name}" references "${name}", which is not declared in processorOptions.`;
+      }
+      const def = registry.getProcessor(entry.type);
+      if (!def) {
+        return `Processor "${name}" has unknown type "${entry.type}".`;
+      }
+      if (pipeline.async ? !def.createAsync : !def.create) {
+        return `Processor "${name}" of type "${entry.type}" can't run in ${pipeline.async ? 'async' : 'sync'} pipeline "${pipeline.name}".`;
+      }
+    }
+  }
+  return null;
+}
+
+function buildConfiguredPipeline<P>(
+  pipeline: ContextPipelineConfig,
+  config: ContextManagementConfig,
+  create: (type: string, id: string, options: unknown) => P,
+): {
+  name: string;
+  triggers: ContextPipelineConfig['triggers'];
+  processors: P[];
+} {
+  return {
+    name: pipeline.name,
+    triggers: pipeline.triggers,
+    processors: pipeline.processors.map((name) => {
+      const entry = config.processorOptions?.[name];
+      if (!entry) {
+        throw new Error(
+          `Pipeline "${pipeline.name}" references "${name}", which is not declared in processorOptions.`,
+        );
+      }
+      return create(entry.type, name, entry.options);
+    }),
+  };
+}
+
+/**
+ * Returns a profile that also runs the pipelines declared in its config's
+ * `pipelines`, building their processors from the registry. This is how
+ * processors contributed by extensions are attached to pipeline triggers.
+ */
+export function withConfiguredPipelines(
+  profile: ContextProfile,
+  registry: ContextProcessorRegistry,
+): ContextProfile {
+  return {
+    ...profile,
+    buildPipelines: (env, config = profile.config) => [
+      ...profile.buildPipelines(env, config),
+      ...(config.pipelines ?? [])
+        .filter((pipeline) => !pipeline.async)
+        .map((pipeline) =>
+          buildConfiguredPipeline(pipeline, config, (type, id, options) =>
+            registry.createProcessor(type, id, env, options),
+          ),
+        ),
+    ],
+    buildAsyncPipelines: (env, config = profile.config) => [
+      ...profile.buildAsyncPipelines(env, config),
+      ...(config.pipelines ?? [])
+        .filter((pipeline) => pipeline.async)
+        .map((pipeline) =>
+          buildConfiguredPipeline(pipeline, config, (type, id, options) =>
+            registry.createAsyncProcessor(type, id, env, options),
+          ),
+        ),
+    ],
+  };
+}
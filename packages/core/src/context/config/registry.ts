@@ -5,15 +5,37 @@
  */
 
 import type { JSONSchemaType } from 'ajv';
+import type { AsyncContextProcessor, ContextProcessor } from '../pipeline.js';
+import type { ContextEnvironment } from '../pipeline/environment.js';
+
+export type ContextProcessorFactory<T = unknown> = (
+  id: string,
+  env: ContextEnvironment,
+  options: T,
+) => ContextProcessor;
+
+export type AsyncContextProcessorFactory<T = unknown> = (
+  id: string,
+  env: ContextEnvironment,
+  options: T,
+) => AsyncContextProcessor;
 
 export interface ContextProcessorDef<T = unknown> {
   readonly id: string;
   readonly schema: JSONSchemaType<T>;
+  /** Builds the processor when a configured sync pipeline references it. */
+  readonly create?: ContextProcessorFactory<T>;
+  /** Builds the processor when a configured async pipeline references it. */
+  readonly createAsync?: AsyncContextProcessorFactory<T>;
+  /** The extension that contributed this processor, if any. */
+  readonly extensionName?: string;
 }
 
 /**
- * Registry for validating declarative sidecar configuration schemas.
- * (Dynamic instantiation has been replaced by static ContextProfiles)
+ * Registry of processor types that declarative sidecar configuration can
+ * reference. Schemas validate `processorOptions`, and factories build the
+ * processors for pipelines declared in the config. Built-in profiles still
+ * construct their own processors directly.
  */
 export class ContextProcessorRegistry {
   private readonly processors = new Map<string, ContextProcessorDef>();
@@ -24,6 +46,21 @@ export class ContextProcessorRegistry {
     this.processors.set(def.id, def as unknown as ContextProcessorDef<unknown>);
   }
 
+  /**
+   * Removes every processor contributed by the given extension.
+   */
+  unregisterExtensionProcessors(extensionName: string) {
+    for (const [id, def] of this.processors) {
+      if (def.extensionName === extensionName) {
+        this.processors.delete(id);
+      }
+    }
+  }
+
+  getProcessor(id: string): ContextProcessorDef | undefined {
+    return this.processors.get(id);
+  }
+
   getSchema(id: string): object | undefined {
     return this.processors.get(id)?.schema;
   }
@@ -36,6 +73,48 @@ export class ContextProcessorRegistry {
     return defs;
   }
 
+  /**
+   * Builds a sync processor of the given type. The options must already have
+   * been validated against the type's schema.
+   */
+  createProcessor(
+    type: string,
+    id: string,
+    env: ContextEnvironment,
+    options: unknown,
+  ): ContextProcessor {
+    const def = this.processors.get(type);
+    if (!def?.create) {
+      throw new Error(
+        def
+          ? `Context processor "${type}" can't run in a sync pipeline.`
+          : `Unknown context processor "${type}".`,
+      );
+    }
+    return def.create(id, env, options);
+  }
+
+  /**
+   * Builds an async processor of the given type. The options must already
+   * have been validated against the type's schema.
+   */
+  createAsyncProcessor(
+    type: string,
+    id: string,
+    env: ContextEnvironment,
+    options: unknown,
+  ): AsyncContextProcessor {
+    const def = this.processors.get(type);
+    if (!def?.createAsync) {
+      throw new Error(
+        def
+          ? `Context processor "${type}" can't run in an async pipeline.`
+          : `Unknown context processor "${type}".`,
+      );
+    }
+    return def.createAsync(id, env, options);
+  }
+
   clear() {
     this.processors.clear();
   }
@@ -50,6 +50,51 @@ export function getContextManagementConfigSchema(
           'Named hyperparameter configurations for ContextProcessors and AsyncProcessors.',
         additionalProperties: { oneOf: processorOptionSchemas },
       },
+      pipelines: {
+        type: 'array',
+        description:
+          'Extra pipelines that run processors declared in processorOptions.',
+        items: {
+          type: 'object',
+          required: ['name', 'triggers', 'processors'],
+          properties: {
+            name: { type: 'string' },
+            triggers: {
+              type: 'array',
+              items: {
+                oneOf: [
+                  {
+                    enum: [
+                      'new_message',
+                      'retained_exceeded',
+                      'gc_backstop',
+                      'nodes_added',
+                      'nodes_aged_out',
+                    ],
+                  },
+                  {
+                    type: 'object',
+                    required: ['type', 'intervalMs'],
+                    properties: {
+                      type: { const: 'timer' },
+                      intervalMs: { type: 'number' },
+                    },
+                  },
+                ],
+              },
+            },
+            processors: {
+              type: 'array',
+              description: 'Names of entries in processorOptions.',
+              items: { type: 'string' },
+            },
+            async: {
+              type: 'boolean',
+              description: 'Runs the processors as an async pipeline.',
+            },
+          },
+        },
+      },
     },
   };
 }
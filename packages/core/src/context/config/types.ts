@@ -26,6 +26,18 @@ export interface AsyncPipelineDef {
   processors: AsyncContextProcessor[];
 }
 
+/**
+ * A pipeline declared in a context config. Each processor is the name of an
+ * entry in `processorOptions`, whose `type` must be a registered processor.
+ */
+export interface ContextPipelineConfig {
+  name: string;
+  triggers: PipelineTrigger[];
+  processors: string[];
+  /** Runs the processors as an async pipeline. Defaults to false. */
+  async?: boolean;
+}
+
 export interface ContextBudget {
   retainedTokens: number;
   maxTokens: number;
@@ -43,4 +55,10 @@ export interface ContextManagementConfig {
    * Keys are named identifiers (e.g. "gentleTruncation").
    */
   processorOptions?: Record<string, { type: string; options: unknown }>;
+
+  /**
+   * Extra pipelines to run after the profile's own, e.g. to run processors
+   * contributed by extensions.
+   */
+  pipelines?: ContextPipelineConfig[];
 }
@@ -79,4 +79,40 @@ describe('ContextManager Sync Pressure Barrier Tests', () => {
     expect(lastModel.role).toBe('model');
     expect(lastModel.parts![0].text).toBe('Final answer.');
   });
+
+  it('should keep pinned nodes when the barrier truncates history', async () => {
+    const config = createMockContextConfig();
+    const { chatHistory, contextManager } = setupContextComponentTest(
+      config,
+      testTruncateProfile,
+    );
+
+    chatHistory.set([
+      { role: 'user', parts: [{ text: 'System prompt' }] },
+      { role: 'model', parts: [{ text: 'Understood.' }] },
+      ...createSyntheticHistory(20, 35000),
+      { role: 'user', parts: [{ text: 'Final question.' }] },
+      { role: 'model', parts: [{ text: 'Final answer.' }] },
+    ]);
+
+    const pinned = contextManager
+      .inspect()
+      .episodes.flatMap((episode) => episode.nodes)
+      .find((node) => node.preview.startsWith('User turn 2.'));
+    expect(pinned).toBeDefined();
+    expect(contextManager.pinNode(pinned!.id)).toBe(true);
+    expect(contextManager.pinNode('missing')).toBe(false);
+
+    const projection = await contextManager.renderHistory();
+    const texts = projection.flatMap((c) => c.parts!.map((p) => p.text));
+
+    expect(texts.some((text) => text?.startsWith('User turn 2.'))).toBe(true);
+    expect(texts.some((text) => text?.startsWith('User turn 3.'))).toBe(false);
+    expect(contextManager.inspect().episodes[3].nodes[0]).toMatchObject({
+      id: pinned!.id,
+      type: 'USER_PROMPT',
+      status: 'original',
+      pinned: true,
+    });
+  });
 });
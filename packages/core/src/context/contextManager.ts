@@ -15,6 +15,7 @@ import type { PipelineOrchestrator } from './pipeline/orchestrator.js';
 import { HistoryObserver } from './historyObserver.js';
 import { render } from './graph/render.js';
 import { ContextWorkingBufferImpl } from './pipeline/contextWorkingBuffer.js';
+import { inspectContextNodes, type ContextInspection } from './inspector.js';
 
 export class ContextManager {
   // The master state containing the pristine graph and current active graph.
@@ -23,6 +24,9 @@ export class ContextManager {
 
   private readonly eventBus: ContextEventBus;
 
+  // Nodes the user pinned. Processors never receive them as targets.
+  private readonly pinnedNodeIds = new Set<string>();
+
   // Internal sub-components
   private readonly orchestrator: PipelineOrchestrator;
   private readonly historyObserver: HistoryObserver;
@@ -81,6 +85,7 @@ export class ContextManager {
       this.eventBus.emitChunkReceived({
         nodes: this.buffer.nodes,
         targetNodeIds: newNodes,
+        protectedNodeIds: this.pinnedNodeIds,
       });
     }
 
@@ -111,6 +116,7 @@ export class ContextManager {
           targetDeficit:
             currentTokens - this.sidecar.config.budget.retainedTokens,
           targetNodeIds: agedOutNodes,
+          protectedNodeIds: this.pinnedNodeIds,
         });
       }
     }
@@ -144,6 +150,38 @@ export class ContextManager {
     return [...this.buffer.nodes];
   }
 
+  /**
+   * Pins a node so that no processor degrades it. Returns false if the node
+   * isn't in the working buffer.
+   */
+  pinNode(nodeId: string): boolean {
+    if (!this.buffer.nodes.some((n) => n.id === nodeId)) {
+      return false;
+    }
+    this.pinnedNodeIds.add(nodeId);
+    return true;
+  }
+
+  unpinNode(nodeId: string): boolean {
+    return this.pinnedNodeIds.delete(nodeId);
+  }
+
+  getPinnedNodeIds(): ReadonlySet<string> {
+    return this.pinnedNodeIds;
+  }
+
+  /**
+   * Describes the working buffer for display: its episodes, the token cost of
+   * each node, and which processor last changed it.
+   */
+  inspect(): ContextInspection {
+    return inspectContextNodes(this.buffer.nodes, {
+      tokenCalculator: this.env.tokenCalculator,
+      auditLog: this.buffer.getAuditLog(),
+      pinnedNodeIds: this.pinnedNodeIds,
+    });
+  }
+
   /**
    * Executes the final 'gc_backstop' pipeline if necessary, enforcing the token budget,
    * and maps the Episodic Context Graph back into a raw Gemini Content[] array for transmission.
@@ -160,7 +198,7 @@ export class ContextManager {
       this.sidecar,
       this.tracer,
       this.env,
-      activeTaskIds,
+      new Set([...activeTaskIds, ...this.pinnedNodeIds]),
     );
 
     this.tracer.logEvent('ContextManager', 'Finished rendering');
@@ -16,11 +16,15 @@ export interface ContextConsolidationEvent {
   nodes: readonly ConcreteNode[];
   targetDeficit: number;
   targetNodeIds: Set<string>;
+  /** Nodes that processors must leave untouched, such as pinned nodes. */
+  protectedNodeIds?: ReadonlySet<string>;
 }
 
 export interface ChunkReceivedEvent {
   nodes: readonly ConcreteNode[];
   targetNodeIds: Set<string>;
+  /** Nodes that processors must leave untouched, such as pinned nodes. */
+  protectedNodeIds?: ReadonlySet<string>;
 }
 
 export class ContextEventBus extends EventEmitter {
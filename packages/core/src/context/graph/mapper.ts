@@ -22,6 +22,11 @@ export class ContextGraphMapper {
     return toGraph(history, tokenCalculator, this.nodeIdentityMap);
   }
 
+  /** Returns the ID already assigned to a history object, if any. */
+  getNodeId(obj: object): string | undefined {
+    return this.nodeIdentityMap.get(obj);
+  }
+
   fromGraph(nodes: readonly ConcreteNode[]): Content[] {
     return fromGraph(nodes, this.registry);
   }
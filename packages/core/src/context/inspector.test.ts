@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Content, Part } from '@google/genai';
+import {
+  CHAT_COMPRESSION_SOURCE,
+  ContextInspector,
+  TOOL_OUTPUT_MASKING_SOURCE,
+  inspectContextNodes,
+} from './inspector.js';
+import { MASKING_INDICATOR_TAG } from './toolOutputMaskingService.js';
+import { ContextTokenCalculator } from './utils/contextTokenCalculator.js';
+import { NodeBehaviorRegistry } from './graph/behaviorRegistry.js';
+import { registerBuiltInBehaviors } from './graph/builtinBehaviors.js';
+import type { ConcreteNode } from './graph/types.js';
+
+function createHistory(toolPart: Part): Content[] {
+  return [
+    {
+      role: 'user',
+      parts: [{ text: '<state_snapshot>Earlier work</state_snapshot>' }],
+    },
+    { role: 'model', parts: [{ text: 'Got it.' }] },
+    { role: 'user', parts: [{ text: 'List the files' }] },
+    {
+      role: 'model',
+      parts: [{ functionCall: { id: 'call-1', name: 'ls', args: {} } }],
+    },
+    { role: 'user', parts: [toolPart] },
+    { role: 'model', parts: [{ text: 'Here they are.' }] },
+  ];
+}
+
+describe('ContextInspector', () => {
+  it('groups nodes into episodes and reports their status', () => {
+    const inspector = new ContextInspector();
+    const inspection = inspector.inspect(
+      createHistory({
+        functionResponse: {
+          id: 'call-1',
+          name: 'ls',
+          response: { output: `<${MASKING_INDICATOR_TAG}>...` },
+        },
+      }),
+    );
+
+    expect(inspection.episodes).toHaveLength(2);
+    expect(inspection.episodes[0].nodes.map((n) => n.type)).toEqual([
+      'USER_PROMPT',
+      'AGENT_THOUGHT',
+    ]);
+    expect(inspection.episodes[0].nodes[0]).toMatchObject({
+      preview: '<state_snapshot>Earlier work</state_snapshot>',
+      status: 'summarized',
+      changedBy: CHAT_COMPRESSION_SOURCE,
+      pinned: false,
+    });
+    expect(inspection.episodes[1].nodes.map((n) => n.type)).toEqual([
+      'USER_PROMPT',
+      'TOOL_EXECUTION',
+      'AGENT_THOUGHT',
+      'AGENT_YIELD',
+    ]);
+    expect(inspection.episodes[1].nodes[1]).toMatchObject({
+      preview: 'ls',
+      status: 'masked',
+      changedBy: TOOL_OUTPUT_MASKING_SOURCE,
+    });
+
+    const nodeTokens = inspection.episodes
+      .flatMap((episode) => episode.nodes)
+      .reduce((sum, node) => sum + node.tokens, 0);
+    expect(nodeTokens).toBeGreaterThan(0);
+    expect(inspection.totalTokens).toBe(nodeTokens);
+  });
+
+  it('pins nodes by ID and returns the parts behind them', () => {
+    const toolPart: Part = {
+      functionResponse: {
+        id: 'call-1',
+        name: 'ls',
+        response: { output: 'a.txt' },
+      },
+    };
+    const history = createHistory(toolPart);
+    const inspector = new ContextInspector();
+    const toolNode = inspector.inspect(history).episodes[1].nodes[1];
+    const yieldNode = inspector.inspect(history).episodes[1].nodes[3];
+
+    expect(inspector.pinNode(history, toolNode.id)).toBe(true);
+    expect(inspector.pinNode(history, yieldNode.id)).toBe(false);
+    expect(inspector.pinNode(history, 'missing')).toBe(false);
+
+    // IDs stay stable while the chat keeps the same history objects.
+    expect(inspector.inspect([...history]).episodes[1].nodes[1]).toMatchObject({
+      id: toolNode.id,
+      pinned: true,
+    });
+    expect(inspector.getPinnedParts(history)).toEqual(new Set([toolPart]));
+
+    expect(inspector.unpinNode(toolNode.id)).toBe(true);
+    expect(inspector.unpinNode(toolNode.id)).toBe(false);
+    expect(inspector.getPinnedParts(history).size).toBe(0);
+  });
+});
+
+describe('inspectContextNodes', () => {
+  it('attributes nodes to the processor that last added them', () => {
+    const registry = new NodeBehaviorRegistry();
+    registerBuiltInBehaviors(registry);
+    const tokenCalculator = new ContextTokenCalculator(4, registry);
+    const masked: ConcreteNode = {
+      id: 'masked-1',
+      type: 'MASKED_TOOL',
+      timestamp: 2,
+      toolName: 'read_file',
+      replacesId: 'tool-1',
+      tokens: { intent: 1, observation: 1 },
+    };
+    const summary: ConcreteNode = {
+      id: 'summary-1',
+      type: 'ROLLING_SUMMARY',
+      timestamp: 3,
+      text: 'Summary of earlier turns',
+      abstractsIds: ['thought-1'],
+    };
+
+    const inspection = inspectContextNodes(
+      [
+        {
+          id: 'prompt-1',
+          type: 'USER_PROMPT',
+          timestamp: 1,
+          semanticParts: [{ type: 'text', text: 'Read the config' }],
+        },
+        masked,
+        summary,
+      ],
+      {
+        tokenCalculator,
+        auditLog: [
+          {
+            processorId: 'ToolMasking',
+            timestamp: 2,
+            removedIds: ['tool-1'],
+            addedNodes: [masked],
+          },
+          {
+            processorId: 'RollingSummary',
+            timestamp: 3,
+            removedIds: ['thought-1'],
+            addedNodes: [summary],
+          },
+        ],
+        pinnedNodeIds: new Set(['prompt-1']),
+      },
+    );
+
+    expect(inspection.episodes).toHaveLength(1);
+    expect(
+      inspection.episodes[0].nodes.map(({ id, status, changedBy, pinned }) => ({
+        id,
+        status,
+        changedBy,
+        pinned,
+      })),
+    ).toEqual([
+      {
+        id: 'prompt-1',
+        status: 'original',
+        changedBy: undefined,
+        pinned: true,
+      },
+      {
+        id: 'masked-1',
+        status: 'masked',
+        changedBy: 'ToolMasking',
+        pinned: false,
+      },
+      {
+        id: 'summary-1',
+        status: 'summarized',
+        changedBy: 'RollingSummary',
+        pinned: false,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Content, Part } from '@google/genai';
+import type { ConcreteNode, NodeType } from './graph/types.js';
+import type { GraphMutation } from './pipeline.js';
+import { ContextGraphMapper } from './graph/mapper.js';
+import { NodeBehaviorRegistry } from './graph/behaviorRegistry.js';
+import { registerBuiltInBehaviors } from './graph/builtinBehaviors.js';
+import { ContextTokenCalculator } from './utils/contextTokenCalculator.js';
+import { MASKING_INDICATOR_TAG } from './toolOutputMaskingService.js';
+import { ASCII_TOKENS_PER_CHAR } from '../utils/tokenCalculation.js';
+
+/**
+ * How a node differs from what was originally recorded in the history.
+ */
+export type ContextNodeStatus =
+  | 'original'
+  | 'masked'
+  | 'truncated'
+  | 'summarized';
+
+export interface ContextNodeInspection {
+  id: string;
+  type: NodeType;
+  /** A one-line preview of the node's content. */
+  preview: string;
+  tokens: number;
+  status: ContextNodeStatus;
+  /** The processor or service that last changed the node, if known. */
+  changedBy?: string;
+  pinned: boolean;
+}
+
+export interface ContextEpisodeInspection {
+  id: string;
+  tokens: number;
+  nodes: ContextNodeInspection[];
+}
+
+export interface ContextInspection {
+  totalTokens: number;
+  episodes: ContextEpisodeInspection[];
+}
+
+export interface InspectContextOptions {
+  tokenCalculator: ContextTokenCalculator;
+  /** Mutations applied to the nodes, used to find which processor made them. */
+  auditLog?: readonly GraphMutation[];
+  pinnedNodeIds?: ReadonlySet<string>;
+}
+
+/** Name reported for nodes masked by `ToolOutputMaskingService`. */
+export const TOOL_OUTPUT_MASKING_SOURCE = 'ToolOutputMasking';
+/** Name reported for nodes rewritten by `ChatCompressionService`. */
+export const CHAT_COMPRESSION_SOURCE = 'ChatCompression';
+
+const PREVIEW_LENGTH = 80;
+const TRUNCATED_OUTPUT_PREFIX = 'Output too large. Showing first';
+
+function toPreview(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > PREVIEW_LENGTH
+    ? `${line.slice(0, PREVIEW_LENGTH - 3)}...`
+    : line;
+}
+
+function getNodeText(node: ConcreteNode): string {
+  switch (node.type) {
+    case 'USER_PROMPT':
+      return node.semanticParts
+        .map((part) => {
+          switch (part.type) {
+            case 'text':
+              return part.text;
+            case 'inline_data':
+            case 'file_data':
+              return `[${part.mimeType}]`;
+            default:
+              return '';
+          }
+        })
+        .join(' ');
+    case 'SYSTEM_EVENT':
+      return node.name;
+    case 'TOOL_EXECUTION':
+    case 'MASKED_TOOL':
+      return node.toolName;
+    case 'AGENT_THOUGHT':
+    case 'AGENT_YIELD':
+    case 'SNAPSHOT':
+    case 'ROLLING_SUMMARY':
+      return node.text;
+    default:
+      return '';
+  }
+}
+
+function getObservationText(node: ConcreteNode): string {
+  if (node.type !== 'TOOL_EXECUTION') return '';
+  return typeof node.observation === 'string'
+    ? node.observation
+    : JSON.stringify(node.observation);
+}
+
+/**
+ * Works out a node's status from its type and content. Content-level services
+ * rewrite history in place, so their changes are recognized by the markers
+ * they leave behind.
+ */
+function getNodeStatus(node: ConcreteNode): {
+  status: ContextNodeStatus;
+  changedBy?: string;
+} {
+  switch (node.type) {
+    case 'MASKED_TOOL':
+      return { status: 'masked' };
+    case 'SNAPSHOT':
+    case 'ROLLING_SUMMARY':
+      return { status: 'summarized' };
+    case 'TOOL_EXECUTION': {
+      const observation = getObservationText(node);
+      if (observation.includes(`<${MASKING_INDICATOR_TAG}`)) {
+        return { status: 'masked', changedBy: TOOL_OUTPUT_MASKING_SOURCE };
+      }
+      if (observation.includes(TRUNCATED_OUTPUT_PREFIX)) {
+        return { status: 'truncated', changedBy: CHAT_COMPRESSION_SOURCE };
+      }
+      break;
+    }
+    case 'USER_PROMPT':
+      if (getNodeText(node).includes('<state_snapshot>')) {
+        return { status: 'summarized', changedBy: CHAT_COMPRESSION_SOURCE };
+      }
+      break;
+    default:
+      break;
+  }
+  return { status: node.replacesId ? 'truncated' : 'original' };
+}
+
+/**
+ * Describes the given nodes for display, grouped into episodes. A new episode
+ * starts at every user prompt or system event, matching how the graph is built
+ * from history.
+ */
+export function inspectContextNodes(
+  nodes: readonly ConcreteNode[],
+  options: InspectContextOptions,
+): ContextInspection {
+  const lastChangedBy = new Map<string, string>();
+  for (const mutation of options.auditLog ?? []) {
+    for (const node of mutation.addedNodes) {
+      lastChangedBy.set(node.id, mutation.processorId);
+    }
+  }
+
+  const episodes: ContextEpisodeInspection[] = [];
+  let totalTokens = 0;
+  for (const node of nodes) {
+    const isTrigger =
+      node.type === 'USER_PROMPT' || node.type === 'SYSTEM_EVENT';
+    if (isTrigger || episodes.length === 0) {
+      episodes.push({ id: node.id, tokens: 0, nodes: [] });
+    }
+    const episode = episodes[episodes.length - 1];
+
+    const tokens = options.tokenCalculator.getTokenCost(node);
+    const { status, changedBy } = getNodeStatus(node);
+    episode.nodes.push({
+      id: node.id,
+      type: node.type,
+      preview: toPreview(getNodeText(node)),
+      tokens,
+      status,
+      changedBy: lastChangedBy.get(node.id) ?? changedBy,
+      pinned: options.pinnedNodeIds?.has(node.id) ?? false,
+    });
+    episode.tokens += tokens;
+    totalTokens += tokens;
+  }
+
+  return { totalTokens, episodes };
+}
+
+/**
+ * Inspects a chat's history as the context graph sees it and tracks the nodes
+ * the user pinned. Node IDs are tied to the history's `Part` objects, so they
+ * stay stable for as long as the chat keeps those objects.
+ */
+export class ContextInspector {
+  private readonly registry = new NodeBehaviorRegistry();
+  private readonly mapper: ContextGraphMapper;
+  private readonly tokenCalculator: ContextTokenCalculator;
+  private readonly pinnedNodeIds = new Set<string>();
+
+  constructor() {
+    registerBuiltInBehaviors(this.registry);
+    this.mapper = new ContextGraphMapper(this.registry);
+    this.tokenCalculator = new ContextTokenCalculator(
+      1 / ASCII_TOKENS_PER_CHAR,
+      this.registry,
+    );
+  }
+
+  private getNodes(history: readonly Content[]): ConcreteNode[] {
+    return this.mapper
+      .toGraph(history, this.tokenCalculator)
+      .flatMap((episode) => episode.concreteNodes);
+  }
+
+  inspect(history: readonly Content[]): ContextInspection {
+    const nodes = this.getNodes(history);
+    this.tokenCalculator.garbageCollectCache(new Set(nodes.map((n) => n.id)));
+    return inspectContextNodes(nodes, {
+      tokenCalculator: this.tokenCalculator,
+      pinnedNodeIds: this.pinnedNodeIds,
+    });
+  }
+
+  /**
+   * Pins a node in the given history. Returns false if no node with that ID
+   * can be pinned. Yields are synthesized on every read, so they can't be.
+   */
+  pinNode(history: readonly Content[], nodeId: string): boolean {
+    const node = this.getNodes(history).find((n) => n.id === nodeId);
+    if (!node || node.type === 'AGENT_YIELD') {
+      return false;
+    }
+    this.pinnedNodeIds.add(nodeId);
+    return true;
+  }
+
+  unpinNode(nodeId: string): boolean {
+    return this.pinnedNodeIds.delete(nodeId);
+  }
+
+  getPinnedNodeIds(): ReadonlySet<string> {
+    return this.pinnedNodeIds;
+  }
+
+  /**
+   * Returns the history parts that back pinned nodes, so that services that
+   * rewrite parts can leave them alone.
+   */
+  getPinnedParts(history: readonly Content[]): ReadonlySet<Part> {
+    const parts = new Set<Part>();
+    if (this.pinnedNodeIds.size === 0) {
+      return parts;
+    }
+    for (const content of history) {
+      for (const part of content.parts ?? []) {
+        const id = this.mapper.getNodeId(part);
+        if (id && this.pinnedNodeIds.has(id)) {
+          parts.add(part);
+        }
+      }
+    }
+    return parts;
+  }
+
+  clearPins() {
+    this.pinnedNodeIds.clear();
+  }
+}
@@ -220,5 +220,34 @@ describe('PipelineOrchestrator (Component)', () => {
       const callArgs = executeSpy.mock.calls[0][0];
       expect(callArgs.targets).toEqual([node2]); // AsyncProcessors only get the target nodes
     });
+
+    it('leaves protected nodes out of async pipeline targets', async () => {
+      const executeSpy = vi.fn();
+      setupOrchestrator(
+        [],
+        [
+          {
+            name: 'TestAsync',
+            triggers: ['nodes_added'],
+            processors: [
+              createMockAsyncProcessor('MyAsyncProcessor', executeSpy),
+            ],
+          },
+        ],
+      );
+
+      const node1 = createDummyNode('ep1', 'USER_PROMPT', 10);
+      const node2 = createDummyNode('ep1', 'AGENT_THOUGHT', 20);
+
+      eventBus.emitChunkReceived({
+        nodes: [node1, node2],
+        targetNodeIds: new Set([node1.id, node2.id]),
+        protectedNodeIds: new Set([node1.id]),
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(executeSpy.mock.calls[0][0].targets).toEqual([node2]);
+    });
   });
 });
@@ -66,11 +66,21 @@ export class PipelineOrchestrator {
             trigger === 'nodes_aged_out'
           ) {
             this.eventBus.onConsolidationNeeded((event) => {
-              executeFn(pipeline, event.nodes, event.targetNodeIds, new Set());
+              executeFn(
+                pipeline,
+                event.nodes,
+                event.targetNodeIds,
+                event.protectedNodeIds ?? new Set(),
+              );
             });
           } else if (trigger === 'new_message' || trigger === 'nodes_added') {
             this.eventBus.onChunkReceived((event) => {
-              executeFn(pipeline, event.nodes, event.targetNodeIds, new Set());
+              executeFn(
+                pipeline,
+                event.nodes,
+                event.targetNodeIds,
+                event.protectedNodeIds ?? new Set(),
+              );
             });
           }
         }
@@ -86,23 +96,28 @@ export class PipelineOrchestrator {
       );
     });
 
-    bindTriggers(this.asyncPipelines, (pipeline, nodes, targetIds) => {
-      const inboxSnapshot = new InboxSnapshotImpl(
-        this.env.inbox.getMessages() || [],
-      );
-      const targets = nodes.filter((n) => targetIds.has(n.id));
-      for (const processor of pipeline.processors) {
-        processor
-          .process({
-            targets,
-            inbox: inboxSnapshot,
-            buffer: ContextWorkingBufferImpl.initialize(nodes),
-          })
-          .catch((e: unknown) =>
-            debugLogger.error(`AsyncProcessor ${processor.name} failed:`, e),
-          );
-      }
-    });
+    bindTriggers(
+      this.asyncPipelines,
+      (pipeline, nodes, targetIds, protectedIds) => {
+        const inboxSnapshot = new InboxSnapshotImpl(
+          this.env.inbox.getMessages() || [],
+        );
+        const targets = nodes.filter((n) =>
+          this.isNodeAllowed(n, targetIds, protectedIds),
+        );
+        for (const processor of pipeline.processors) {
+          processor
+            .process({
+              targets,
+              inbox: inboxSnapshot,
+              buffer: ContextWorkingBufferImpl.initialize(nodes),
+            })
+            .catch((e: unknown) =>
+              debugLogger.error(`AsyncProcessor ${processor.name} failed:`, e),
+            );
+        }
+      },
+    );
   }
 
   shutdown() {
@@ -661,4 +661,57 @@ describe('ToolOutputMaskingService', () => {
       )['output'],
     ).toContain(MASKING_INDICATOR_TAG);
   });
+
+  it('should never mask pinned tool outputs', async () => {
+    const pinnedPart: Part = {
+      functionResponse: {
+        name: 'bulky_tool',
+        response: { output: 'A'.repeat(60000) },
+      },
+    };
+    const history: Content[] = [
+      { role: 'user', parts: [pinnedPart] },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              name: 'other_tool',
+              response: { output: 'B'.repeat(60000) },
+            },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              name: 'padding',
+              response: { output: 'C'.repeat(60000) },
+            },
+          },
+        ],
+      },
+      { role: 'user', parts: [{ text: 'latest' }] },
+    ];
+
+    mockedEstimateTokenCountSync.mockImplementation((parts: Part[]) => {
+      const resp = parts[0].functionResponse?.response as Record<
+        string,
+        unknown
+      >;
+      const content = (resp?.['output'] as string) ?? JSON.stringify(resp);
+      return content.includes(`<${MASKING_INDICATOR_TAG}`) ? 100 : 60000;
+    });
+
+    const result = await service.mask(
+      history,
+      mockConfig,
+      new Set([pinnedPart]),
+    );
+
+    expect(result.maskedCount).toBe(2);
+    expect(result.newHistory[0].parts?.[0]).toBe(pinnedPart);
+  });
 });
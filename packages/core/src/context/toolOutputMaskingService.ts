@@ -67,9 +67,13 @@ export interface MaskingResult {
  * are preserved until they collectively reach the threshold.
  */
 export class ToolOutputMaskingService {
+  /**
+   * @param pinnedParts Tool outputs the user pinned. These are never masked.
+   */
   async mask(
     history: readonly Content[],
     config: Config,
+    pinnedParts: ReadonlySet<Part> = new Set(),
   ): Promise<MaskingResult> {
     if (history.length === 0) {
       return { newHistory: history, maskedCount: 0, tokensSaved: 0 };
@@ -111,7 +115,7 @@ export class ToolOutputMaskingService {
         if (!part.functionResponse) continue;
 
         const toolName = part.functionResponse.name;
-        if (toolName && EXEMPT_TOOLS.has(toolName)) {
+        if ((toolName && EXEMPT_TOOLS.has(toolName)) || pinnedParts.has(part)) {
           continue;
         }
 
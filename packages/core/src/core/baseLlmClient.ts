@@ -96,6 +96,13 @@ export interface GenerateContentOptions {
    * The maximum number of attempts for the request.
    */
   maxAttempts?: number;
+  /**
+   * Per-request generation settings layered over the resolved model config.
+   */
+  generationConfig?: Pick<
+    GenerateContentConfig,
+    'temperature' | 'maxOutputTokens' | 'stopSequences'
+  >;
 }
 
 interface _CommonGenerateOptions {
@@ -105,6 +112,7 @@ interface _CommonGenerateOptions {
   abortSignal: AbortSignal;
   promptId: string;
   maxAttempts?: number;
+  generationConfig?: GenerateContentOptions['generationConfig'];
   additionalProperties?: {
     responseJsonSchema: Record<string, unknown>;
     responseMimeType: string;
@@ -236,6 +244,7 @@ export class BaseLlmClient {
       promptId,
       role,
       maxAttempts,
+      generationConfig,
     } = options;
 
     const shouldRetryOnContent = (response: GenerateContentResponse) => {
@@ -251,6 +260,7 @@ export class BaseLlmClient {
         abortSignal,
         promptId,
         maxAttempts,
+        generationConfig,
       },
       shouldRetryOnContent,
       'generateContent',
@@ -271,6 +281,7 @@ export class BaseLlmClient {
       abortSignal,
       promptId,
       maxAttempts,
+      generationConfig,
       additionalProperties,
     } = options;
 
@@ -309,6 +320,7 @@ export class BaseLlmClient {
         }
         const finalConfig: GenerateContentConfig = {
           ...currentGenerateContentConfig,
+          ...generationConfig,
           ...(systemInstruction && { systemInstruction }),
           ...additionalProperties,
           abortSignal,
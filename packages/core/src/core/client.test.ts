@@ -42,7 +42,7 @@ import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
 import { ChatCompressionService } from '../context/chatCompressionService.js';
 import type { ChatRecordingService } from '../services/chatRecordingService.js';
 import { createAvailabilityServiceMock } from '../availability/testUtils.js';
-import type { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
+import { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
 import type {
   ModelConfigKey,
   ResolvedModelConfig,
@@ -53,6 +53,7 @@ import { LlmRole, LoopType } from '../telemetry/types.js';
 import { partToString } from '../utils/partUtils.js';
 import { coreEvents, CoreEvent } from '../utils/events.js';
 import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { BudgetLimitExceeded, BudgetTracker } from '../billing/budget.js';
 
 // Mock fs module to prevent actual file system operations during tests
 const mockFileSystem = new Map<string, string>();
@@ -237,6 +238,11 @@ describe('Gemini Client (client.ts)', () => {
       getWorkingDir: vi.fn().mockReturnValue('/test/dir'),
       getFileService: vi.fn().mockReturnValue(fileService),
       getMaxSessionTurns: vi.fn().mockReturnValue(0),
+      getBudgetTracker: vi.fn().mockReturnValue({
+        check: vi.fn().mockReturnValue(undefined),
+        approve: vi.fn(),
+      }),
+      getBudgetHandler: vi.fn().mockReturnValue(undefined),
       getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
       setQuotaErrorOccurred: vi.fn(),
       getNoBrowser: vi.fn().mockReturnValue(false),
@@ -1431,6 +1437,108 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
 
+    describe('budget limits', () => {
+      const exceeded: BudgetLimitExceeded = {
+        scope: 'session',
+        severity: 'hard',
+        limit: 5,
+        spent: 6,
+        currency: 'USD',
+      };
+      let tracker: { check: Mock; approve: Mock };
+      let mockChat: Partial<GeminiChat>;
+
+      beforeEach(() => {
+        tracker = {
+          check: vi.fn().mockReturnValue(exceeded),
+          approve: vi.fn(),
+        };
+        vi.mocked(mockConfig.getBudgetTracker).mockReturnValue(
+          tracker as unknown as BudgetTracker,
+        );
+        mockTurnRunFn.mockReturnValue(
+          (async function* () {
+            yield { type: 'content', value: 'Hello' };
+          })(),
+        );
+        mockChat = {
+          addHistory: vi.fn(),
+          setTools: vi.fn(),
+          getHistory: vi.fn().mockReturnValue([]),
+          getLastPromptTokenCount: vi.fn(),
+        };
+        client['chat'] = mockChat as GeminiChat;
+      });
+
+      it('stops the agent loop when the user stops at a limit', async () => {
+        const handler = vi.fn().mockResolvedValue('stop');
+        vi.mocked(mockConfig.getBudgetHandler).mockReturnValue(handler);
+
+        const events = await fromAsync(
+          client.sendMessageStream(
+            [{ text: 'Hi' }],
+            new AbortController().signal,
+            'prompt-id-budget',
+          ),
+        );
+
+        expect(handler).toHaveBeenCalledWith(exceeded);
+        expect(events).toEqual([
+          {
+            type: GeminiEventType.AgentExecutionStopped,
+            value: {
+              reason:
+                'Session budget hard limit of $5.00 reached ($6.00 spent).',
+            },
+          },
+        ]);
+        expect(mockChat.addHistory).toHaveBeenCalledWith({
+          role: 'user',
+          parts: [{ text: 'Hi' }],
+        });
+        expect(mockTurnRunFn).not.toHaveBeenCalled();
+      });
+
+      it('continues and records the approval when the user continues', async () => {
+        vi.mocked(mockConfig.getBudgetHandler).mockReturnValue(
+          vi.fn().mockResolvedValue('continue'),
+        );
+
+        await fromAsync(
+          client.sendMessageStream(
+            [{ text: 'Hi' }],
+            new AbortController().signal,
+            'prompt-id-budget',
+          ),
+        );
+
+        expect(tracker.approve).toHaveBeenCalledWith(
+          exceeded,
+          'prompt-id-budget',
+        );
+        expect(mockTurnRunFn).toHaveBeenCalled();
+      });
+
+      it('warns about soft limits without a handler', async () => {
+        tracker.check.mockReturnValue({ ...exceeded, severity: 'soft' });
+        const feedbackSpy = vi.spyOn(coreEvents, 'emitFeedback');
+
+        await fromAsync(
+          client.sendMessageStream(
+            [{ text: 'Hi' }],
+            new AbortController().signal,
+            'prompt-id-budget',
+          ),
+        );
+
+        expect(feedbackSpy).toHaveBeenCalledWith(
+          'warning',
+          'Session budget soft limit of $5.00 reached ($6.00 spent).',
+        );
+        expect(mockTurnRunFn).toHaveBeenCalled();
+      });
+    });
+
     it('should respect MAX_TURNS limit even when turns parameter is set to a large value', async () => {
       // This test verifies that the infinite loop protection works even when
       // someone tries to bypass it by calling with a very large turns value
@@ -2211,6 +2319,49 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(2);
     });
 
+    it('should report the provider chain hop serving the turn', async () => {
+      const hop = policyCatalog.createProviderPolicyChain(
+        [{ backend: { authType: AuthType.USE_VERTEX_AI, label: 'vertex' } }],
+        'default-routed-model',
+      )[0];
+      const availability = new ModelAvailabilityService();
+      availability.markHopFailed('vertex', 0, 'earlier failure');
+      Object.assign(client['config'], {
+        syncProviderHop: vi.fn().mockResolvedValue(hop),
+        getActiveProviderHop: vi.fn().mockReturnValue(hop),
+        getModelAvailabilityService: vi.fn().mockReturnValue(availability),
+      });
+      mockTurnRunFn.mockReturnValueOnce(
+        (async function* () {
+          yield { type: GeminiEventType.Content, value: 'Hello' };
+        })(),
+      );
+
+      const mockChat: Partial<GeminiChat> = {
+        addHistory: vi.fn(),
+        setTools: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([]),
+        getLastPromptTokenCount: vi.fn(),
+      };
+      client['chat'] = mockChat as GeminiChat;
+
+      const stream = client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-provider-chain',
+      );
+      const events = await fromAsync(stream);
+
+      expect(events[0]).toEqual({
+        type: GeminiEventType.ModelInfo,
+        value: 'default-routed-model',
+        provider: 'vertex',
+      });
+      expect(client['config'].syncProviderHop).toHaveBeenCalled();
+      // A successful turn clears the hop's failure history.
+      expect(availability.getHopHealth('vertex').consecutiveFailures).toBe(0);
+    });
+
     describe('Editor context delta', () => {
       const mockStream = (async function* () {
         yield { type: 'content', value: 'Hello' };
@@ -66,14 +66,17 @@ import type { RoutingContext } from '../routing/routingStrategy.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import type { ModelConfigKey } from '../services/modelConfigService.js';
 import { ToolOutputMaskingService } from '../context/toolOutputMaskingService.js';
+import { ContextInspector } from '../context/inspector.js';
 import { calculateRequestTokenCount } from '../utils/tokenCalculation.js';
 import {
   applyModelSelection,
   createAvailabilityContextProvider,
 } from '../availability/policyHelpers.js';
+import { getPolicyHopId } from '../availability/policyCatalog.js';
 import { getDisplayString, resolveModel } from '../config/models.js';
 import { partToString } from '../utils/partUtils.js';
 import { coreEvents, CoreEvent } from '../utils/events.js';
+import { describeBudgetLimit, type BudgetIntent } from '../billing/budget.js';
 
 const MAX_TURNS = 100;
 
@@ -97,6 +100,7 @@ export class GeminiClient {
   private readonly compressionService: ChatCompressionService;
   private readonly agentHistoryProvider: AgentHistoryProvider;
   private readonly toolOutputMaskingService: ToolOutputMaskingService;
+  private readonly contextInspector: ContextInspector;
   private lastPromptId: string;
   private currentSequenceModel: string | null = null;
   private lastSentIdeContext: IdeContext | undefined;
@@ -116,6 +120,7 @@ export class GeminiClient {
       this.config,
     );
     this.toolOutputMaskingService = new ToolOutputMaskingService();
+    this.contextInspector = new ContextInspector();
     this.lastPromptId = this.config.getSessionId();
 
     coreEvents.on(CoreEvent.ModelChanged, this.handleModelChanged);
@@ -279,6 +284,14 @@ export class GeminiClient {
     return this.getChat().getHistory();
   }
 
+  /**
+   * Returns the inspector that describes this chat's context graph and tracks
+   * which of its nodes the user pinned.
+   */
+  getContextInspector(): ContextInspector {
+    return this.contextInspector;
+  }
+
   stripThoughtsFromHistory() {
     this.getChat().stripThoughtsFromHistory();
   }
@@ -309,6 +322,7 @@ export class GeminiClient {
 
   async resetChat(): Promise<void> {
     this.chat = await this.startChat();
+    this.contextInspector.clearPins();
     this.updateTelemetryTokenCount();
     // Reset JIT context loaded paths so subdirectory context can be
     // re-discovered in the new session.
@@ -325,6 +339,7 @@ export class GeminiClient {
     resumedSessionData?: ResumedSessionData,
   ): Promise<void> {
     this.chat = await this.startChat(history, resumedSessionData);
+    this.contextInspector.clearPins();
     this.updateTelemetryTokenCount();
   }
 
@@ -590,6 +605,39 @@ export class GeminiClient {
     );
   }
 
+  /**
+   * Asks whether to continue once the session or daily spend reaches a
+   * budget limit. Without a handler, as in non-interactive runs, soft limits
+   * only warn and hard limits stop.
+   *
+   * @returns The reason to stop, or undefined to continue.
+   */
+  private async checkBudget(promptId: string): Promise<string | undefined> {
+    const tracker = this.config.getBudgetTracker();
+    const exceeded = tracker.check(promptId);
+    if (!exceeded) {
+      return undefined;
+    }
+
+    const message = describeBudgetLimit(exceeded);
+    const handler = this.config.getBudgetHandler();
+    let intent: BudgetIntent;
+    if (handler) {
+      intent = await handler(exceeded);
+    } else if (exceeded.severity === 'soft') {
+      coreEvents.emitFeedback('warning', message);
+      intent = 'continue';
+    } else {
+      intent = 'stop';
+    }
+
+    if (intent === 'continue') {
+      tracker.approve(exceeded, promptId);
+      return undefined;
+    }
+    return message;
+  }
+
   private async *processTurn(
     request: PartListUnion,
     signal: AbortSignal,
@@ -614,6 +662,18 @@ export class GeminiClient {
       return turn;
     }
 
+    const budgetStopReason = await this.checkBudget(prompt_id);
+    if (budgetStopReason) {
+      // Keep the request in the transcript so the user can pick up from it.
+      // The chat merges it into the next request, which answers it.
+      this.getChat().addHistory(createUserContent(request));
+      yield {
+        type: GeminiEventType.AgentExecutionStopped,
+        value: { reason: budgetStopReason },
+      };
+      return turn;
+    }
+
     // Check for context window overflow
     const modelForLimitCheck = this._getActiveModelForCurrentTurn();
 
@@ -706,6 +766,12 @@ export class GeminiClient {
       );
     }
 
+    // A new sequence is served by the first provider chain hop that is not
+    // cooling down, which may switch auth and model.
+    const providerHop = this.currentSequenceModel
+      ? this.config.getActiveProviderHop?.()
+      : await this.config.syncProviderHop?.();
+
     const routingContext: RoutingContext = {
       history: this.getChat().getHistory(/*curated=*/ true),
       request,
@@ -737,7 +803,11 @@ export class GeminiClient {
     modelToUse = finalModel;
 
     if (!signal.aborted && !this.currentSequenceModel) {
-      yield { type: GeminiEventType.ModelInfo, value: modelToUse };
+      yield {
+        type: GeminiEventType.ModelInfo,
+        value: modelToUse,
+        ...(providerHop ? { provider: getPolicyHopId(providerHop) } : {}),
+      };
     }
     this.currentSequenceModel = modelToUse;
 
@@ -803,6 +873,13 @@ export class GeminiClient {
       return turn;
     }
 
+    const servingHop = this.config.getActiveProviderHop?.();
+    if (servingHop) {
+      this.config
+        .getModelAvailabilityService()
+        .markHopHealthy(getPolicyHopId(servingHop));
+    }
+
     // Update cumulative response in hook state
     // We do this immediately after the stream finishes for THIS turn.
     const hooksEnabled = this.config.getEnableHooks();
@@ -1189,6 +1266,7 @@ export class GeminiClient {
       this.config,
       this.hasFailedCompressionAttempt,
       abortSignal,
+      this.contextInspector.getPinnedParts(this.getHistory()),
     );
 
     if (
@@ -1236,6 +1314,7 @@ export class GeminiClient {
     const result = await this.toolOutputMaskingService.mask(
       history,
       this.config,
+      this.contextInspector.getPinnedParts(history),
     );
     if (result.maskedCount > 0) {
       this.getChat().setHistory(result.newHistory);
@@ -18,6 +18,7 @@ import { LoggingContentGenerator } from './loggingContentGenerator.js';
 import { loadApiKey } from './apiKeyCredentialStorage.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from './openaiContentGenerator.js';
 import { resetVersionCache } from '../utils/version.js';
 
 vi.mock('../code_assist/codeAssist.js');
@@ -825,6 +826,46 @@ describe('createContentGenerator', () => {
       ),
     ).rejects.toThrow('Custom base URL must use HTTPS unless it is localhost.');
   });
+
+  it('should create an OpenAICompatibleContentGenerator when AuthType is OPENAI_COMPATIBLE', async () => {
+    const generator = await createContentGenerator(
+      {
+        apiKey: 'test-api-key',
+        authType: AuthType.OPENAI_COMPATIBLE,
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'qwen3-coder',
+      },
+      mockConfig,
+    );
+    expect(GoogleGenAI).not.toHaveBeenCalled();
+    expect(generator).toBeInstanceOf(LoggingContentGenerator);
+    expect((generator as LoggingContentGenerator).getWrapped()).toBeInstanceOf(
+      OpenAICompatibleContentGenerator,
+    );
+  });
+
+  it('should require a baseUrl for OPENAI_COMPATIBLE', async () => {
+    await expect(
+      createContentGenerator(
+        { authType: AuthType.OPENAI_COMPATIBLE },
+        mockConfig,
+      ),
+    ).rejects.toThrow(
+      'OPENAI_BASE_URL must be set to use an OpenAI-compatible endpoint.',
+    );
+  });
+
+  it('should reject non-https remote OPENAI_COMPATIBLE baseUrl values', async () => {
+    await expect(
+      createContentGenerator(
+        {
+          authType: AuthType.OPENAI_COMPATIBLE,
+          baseUrl: 'http://example.com/v1',
+        },
+        mockConfig,
+      ),
+    ).rejects.toThrow('Custom base URL must use HTTPS unless it is localhost.');
+  });
 });
 
 describe('createContentGeneratorConfig', () => {
@@ -930,4 +971,31 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBe('gateway-placeholder-key');
     expect(config.vertexai).toBe(false);
   });
+
+  it('should configure for OPENAI_COMPATIBLE from OPENAI_* env vars', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'env-openai-key');
+    vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:8080/v1');
+    vi.stubEnv('OPENAI_MODEL', 'qwen3-coder');
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.OPENAI_COMPATIBLE,
+    );
+    expect(config.apiKey).toBe('env-openai-key');
+    expect(config.baseUrl).toBe('http://localhost:8080/v1');
+    expect(config.model).toBe('qwen3-coder');
+    expect(config.vertexai).toBeUndefined();
+  });
+
+  it('should prefer explicit values over OPENAI_* env vars', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'env-openai-key');
+    vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:8080/v1');
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.OPENAI_COMPATIBLE,
+      'explicit-key',
+      'https://llm.example.com/v1',
+    );
+    expect(config.apiKey).toBe('explicit-key');
+    expect(config.baseUrl).toBe('https://llm.example.com/v1');
+  });
 });
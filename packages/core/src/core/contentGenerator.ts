@@ -21,6 +21,7 @@ import { loadApiKey } from './apiKeyCredentialStorage.js';
 
 import type { UserTierId, GeminiUserTier } from '../code_assist/types.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from './openaiContentGenerator.js';
 import { InstallationManager } from '../utils/installationManager.js';
 import { FakeContentGenerator } from './fakeContentGenerator.js';
 import { parseCustomHeaders } from '../utils/customHeaderUtils.js';
@@ -63,6 +64,7 @@ export enum AuthType {
   LEGACY_CLOUD_SHELL = 'cloud-shell',
   COMPUTE_ADC = 'compute-default-credentials',
   GATEWAY = 'gateway',
+  OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
 /**
@@ -99,6 +101,8 @@ export type ContentGeneratorConfig = {
   proxy?: string;
   baseUrl?: string;
   customHeaders?: Record<string, string>;
+  /** Model sent to OpenAI-compatible endpoints in place of the Gemini model. */
+  model?: string;
 };
 
 const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
@@ -174,6 +178,18 @@ export async function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
+  if (authType === AuthType.OPENAI_COMPATIBLE) {
+    contentGeneratorConfig.apiKey =
+      apiKey || process.env['OPENAI_API_KEY'] || undefined;
+    // A base URL passed explicitly (e.g. by an ACP client) takes precedence
+    // over OPENAI_BASE_URL.
+    contentGeneratorConfig.baseUrl =
+      baseUrl || process.env['OPENAI_BASE_URL'] || undefined;
+    contentGeneratorConfig.model = process.env['OPENAI_MODEL'] || undefined;
+
+    return contentGeneratorConfig;
+  }
+
   return contentGeneratorConfig;
 }
 
@@ -319,6 +335,24 @@ export async function createContentGenerator(
       });
       return new LoggingContentGenerator(googleGenAI.models, gcConfig);
     }
+
+    if (config.authType === AuthType.OPENAI_COMPATIBLE) {
+      if (!config.baseUrl) {
+        throw new Error(
+          'OPENAI_BASE_URL must be set to use an OpenAI-compatible endpoint.',
+        );
+      }
+      validateBaseUrl(config.baseUrl);
+      return new LoggingContentGenerator(
+        new OpenAICompatibleContentGenerator({
+          baseUrl: config.baseUrl,
+          apiKey: config.apiKey,
+          headers: { ...baseHeaders, ...config.customHeaders },
+          model: config.model,
+        }),
+        gcConfig,
+      );
+    }
     throw new Error(
       `Error creating contentGenerator: Unsupported authType: ${config.authType}`,
     );
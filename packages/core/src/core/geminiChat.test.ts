@@ -660,6 +660,50 @@ describe('GeminiChat', () => {
       ).rejects.toThrow(InvalidStreamError);
     });
 
+    it('should merge a new request into an unanswered user turn', async () => {
+      chat.setHistory([{ role: 'user', parts: [{ text: 'Stopped request' }] }]);
+      vi.mocked(mockContentGenerator.generateContentStream).mockResolvedValue(
+        (async function* () {
+          yield {
+            candidates: [
+              {
+                content: { role: 'model', parts: [{ text: 'Answer' }] },
+                finishReason: 'STOP',
+              },
+            ],
+          } as unknown as GenerateContentResponse;
+        })(),
+      );
+
+      const stream = await chat.sendMessageStream(
+        { model: 'gemini-2.0-flash' },
+        'Continue',
+        'prompt-id-merge',
+        new AbortController().signal,
+        LlmRole.MAIN,
+      );
+      for await (const _ of stream) {
+        // Consume the stream.
+      }
+
+      expect(
+        vi.mocked(mockContentGenerator.generateContentStream).mock.calls[0][0]
+          .contents,
+      ).toEqual([
+        {
+          role: 'user',
+          parts: [{ text: 'Stopped request' }, { text: 'Continue' }],
+        },
+      ]);
+      expect(chat.getHistory()).toEqual([
+        {
+          role: 'user',
+          parts: [{ text: 'Stopped request' }, { text: 'Continue' }],
+        },
+        { role: 'model', parts: [{ text: 'Answer' }] },
+      ]);
+    });
+
     it('should succeed when there is a tool call without finish reason', async () => {
       // Setup: Stream with tool call but no finish reason
       const streamWithToolCall = (async function* () {
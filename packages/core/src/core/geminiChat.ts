@@ -346,8 +346,18 @@ export class GeminiChat {
       });
     }
 
-    // Add user content to history ONCE before any attempts.
-    this.history.push(userContent);
+    // Add user content to history ONCE before any attempts. A request that was
+    // left unanswered, e.g. because a budget limit stopped the turn, is merged
+    // with this one so the history never has two user turns in a row.
+    const lastContent = this.history[this.history.length - 1];
+    if (lastContent?.role === 'user') {
+      this.history[this.history.length - 1] = {
+        ...lastContent,
+        parts: [...(lastContent.parts ?? []), ...(userContent.parts ?? [])],
+      };
+    } else {
+      this.history.push(userContent);
+    }
     const requestContents = this.getHistory(true);
 
     const streamWithRetries = async function* (
@@ -0,0 +1,454 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  Type,
+  type GenerateContentResponse,
+} from '@google/genai';
+import {
+  OpenAICompatibleApiError,
+  OpenAICompatibleContentGenerator,
+  fromOpenAIChatResponse,
+  toOpenAIChatRequest,
+  toOpenAIMessages,
+} from './openaiContentGenerator.js';
+import { LlmRole } from '../telemetry/llmRole.js';
+
+const fetchMock = vi.hoisted(() => vi.fn());
+
+vi.mock('undici', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('undici')>()),
+  fetch: fetchMock,
+}));
+
+function sseResponse(events: unknown[]): Response {
+  const body = [
+    ...events.map((event) => `data: ${JSON.stringify(event)}\n\n`),
+    'data: [DONE]\n\n',
+  ].join('');
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+describe('toOpenAIMessages', () => {
+  it('should convert system instructions, text and images', () => {
+    const messages = toOpenAIMessages(
+      [
+        {
+          role: 'user',
+          parts: [
+            { text: 'What is this?' },
+            { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+          ],
+        },
+        { role: 'model', parts: [{ text: 'A cat.' }] },
+      ],
+      'Be brief.',
+    );
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,AAAA' },
+          },
+        ],
+      },
+      { role: 'assistant', content: 'A cat.' },
+    ]);
+  });
+
+  it('should drop thought parts from model turns', () => {
+    const messages = toOpenAIMessages([
+      {
+        role: 'model',
+        parts: [{ text: 'thinking...', thought: true }, { text: 'Answer' }],
+      },
+    ]);
+
+    expect(messages).toEqual([{ role: 'assistant', content: 'Answer' }]);
+  });
+
+  it('should pair function calls with their responses', () => {
+    const messages = toOpenAIMessages([
+      { role: 'user', parts: [{ text: 'List files' }] },
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'ls', args: { path: '.' } } },
+          { functionCall: { id: 'abc', name: 'ls', args: { path: 'src' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'ls', response: { output: 'a' } } },
+          {
+            functionResponse: {
+              id: 'abc',
+              name: 'ls',
+              response: { output: 'b' },
+            },
+          },
+        ],
+      },
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'List files' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_0',
+            type: 'function',
+            function: { name: 'ls', arguments: '{"path":"."}' },
+          },
+          {
+            id: 'abc',
+            type: 'function',
+            function: { name: 'ls', arguments: '{"path":"src"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: '{"output":"a"}' },
+      { role: 'tool', tool_call_id: 'abc', content: '{"output":"b"}' },
+    ]);
+  });
+});
+
+describe('toOpenAIChatRequest', () => {
+  it('should convert tools, tool config and generation settings', () => {
+    const request = toOpenAIChatRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'hello',
+        config: {
+          temperature: 0.2,
+          topP: 0.9,
+          maxOutputTokens: 128,
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'read_file',
+                  description: 'Reads a file',
+                  parametersJsonSchema: {
+                    type: 'object',
+                    properties: { path: { type: 'string' } },
+                  },
+                },
+                {
+                  name: 'ls',
+                  parameters: {
+                    type: Type.OBJECT,
+                    properties: { path: { type: Type.STRING } },
+                  },
+                },
+              ],
+            },
+          ],
+          toolConfig: {
+            functionCallingConfig: {
+              mode: FunctionCallingConfigMode.ANY,
+              allowedFunctionNames: ['ls'],
+            },
+          },
+        },
+      },
+      'local-model',
+    );
+
+    expect(request).toMatchObject({
+      model: 'local-model',
+      messages: [{ role: 'user', content: 'hello' }],
+      temperature: 0.2,
+      top_p: 0.9,
+      max_tokens: 128,
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file',
+            parameters: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+            },
+          },
+        },
+        {
+          type: 'function',
+          function: {
+            name: 'ls',
+            parameters: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+            },
+          },
+        },
+      ],
+      tool_choice: { type: 'function', function: { name: 'ls' } },
+    });
+  });
+
+  it('should request JSON output when a response schema is set', () => {
+    const request = toOpenAIChatRequest(
+      {
+        model: 'm',
+        contents: 'hello',
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: { type: 'object' },
+        },
+      },
+      'm',
+    );
+
+    expect(request.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: { type: 'object' } },
+    });
+  });
+});
+
+describe('fromOpenAIChatResponse', () => {
+  it('should convert content, reasoning, tool calls and usage', () => {
+    const response = fromOpenAIChatResponse({
+      id: 'resp-1',
+      choices: [
+        {
+          message: {
+            reasoning_content: 'hmm',
+            content: 'Reading.',
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'read_file', arguments: '{"path":"a.ts"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: {
+        prompt_tokens: 10,
+        completion_tokens: 5,
+        total_tokens: 15,
+        prompt_tokens_details: { cached_tokens: 4 },
+      },
+    });
+
+    expect(response.responseId).toBe('resp-1');
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: 'hmm', thought: true },
+      { text: 'Reading.' },
+      {
+        functionCall: {
+          id: 'call_1',
+          name: 'read_file',
+          args: { path: 'a.ts' },
+        },
+      },
+    ]);
+    expect(response.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(response.functionCalls).toHaveLength(1);
+    expect(response.usageMetadata).toMatchObject({
+      promptTokenCount: 10,
+      candidatesTokenCount: 5,
+      totalTokenCount: 15,
+      cachedContentTokenCount: 4,
+    });
+  });
+
+  it('should map length to MAX_TOKENS', () => {
+    const response = fromOpenAIChatResponse({
+      choices: [{ message: { content: 'cut' }, finish_reason: 'length' }],
+    });
+    expect(response.candidates?.[0].finishReason).toBe(FinishReason.MAX_TOKENS);
+  });
+});
+
+describe('OpenAICompatibleContentGenerator', () => {
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should post chat completions with auth headers and the configured model', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({
+        choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }],
+      }),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl: 'http://localhost:8080/v1/',
+      apiKey: 'secret',
+      headers: { 'User-Agent': 'test' },
+      model: 'local-model',
+    });
+
+    const response = await generator.generateContent(
+      { model: 'gemini-2.5-pro', contents: 'hello' },
+      'prompt-id',
+      LlmRole.MAIN,
+    );
+
+    expect(response.text).toBe('Hi');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers).toMatchObject({
+      Authorization: 'Bearer secret',
+      'User-Agent': 'test',
+    });
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'local-model',
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+  });
+
+  it('should throw an error with the HTTP status on failure', async () => {
+    fetchMock.mockResolvedValue(new Response('slow down', { status: 429 }));
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl: 'http://localhost:8080/v1',
+    });
+
+    const error = await generator
+      .generateContent(
+        { model: 'm', contents: 'hello' },
+        'prompt-id',
+        LlmRole.MAIN,
+      )
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenAICompatibleApiError);
+    expect(error).toMatchObject({
+      status: 429,
+      message: 'Request to /chat/completions failed with status 429: slow down',
+    });
+  });
+
+  it('should stream text deltas and assemble tool calls', async () => {
+    fetchMock.mockResolvedValue(
+      sseResponse([
+        { id: 'r1', choices: [{ delta: { content: 'Let me ' } }] },
+        { id: 'r1', choices: [{ delta: { content: 'check.' } }] },
+        {
+          id: 'r1',
+          choices: [
+            {
+              delta: {
+                tool_calls: [
+                  {
+                    index: 0,
+                    id: 'call_1',
+                    function: { name: 'ls', arguments: '{"pa' },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          id: 'r1',
+          choices: [
+            {
+              delta: {
+                tool_calls: [{ index: 0, function: { arguments: 'th":"."}' } }],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        },
+        {
+          id: 'r1',
+          choices: [],
+          usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 },
+        },
+      ]),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl: 'http://localhost:8080/v1',
+    });
+
+    const stream = await generator.generateContentStream(
+      { model: 'm', contents: 'hello' },
+      'prompt-id',
+      LlmRole.MAIN,
+    );
+    const chunks: GenerateContentResponse[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'Let me ',
+      'check.',
+      undefined,
+    ]);
+    const last = chunks[chunks.length - 1];
+    expect(last.functionCalls).toEqual([
+      { id: 'call_1', name: 'ls', args: { path: '.' } },
+    ]);
+    expect(last.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata).toMatchObject({
+      promptTokenCount: 7,
+      candidatesTokenCount: 3,
+      totalTokenCount: 10,
+    });
+  });
+
+  it('should estimate token counts locally', async () => {
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl: 'http://localhost:8080/v1',
+    });
+
+    const result = await generator.countTokens({
+      model: 'm',
+      contents: [{ role: 'user', parts: [{ text: 'hello world' }] }],
+    });
+
+    expect(result.totalTokens).toBeGreaterThan(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should embed content through the embeddings endpoint', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ data: [{ embedding: [0.1, 0.2] }] }),
+    );
+    const generator = new OpenAICompatibleContentGenerator({
+      baseUrl: 'http://localhost:8080/v1',
+    });
+
+    const result = await generator.embedContent({
+      model: 'embedder',
+      contents: 'hello',
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:8080/v1/embeddings',
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      model: 'embedder',
+      input: ['hello'],
+    });
+    expect(result.embeddings).toEqual([{ values: [0.1, 0.2] }]);
+  });
+});
@@ -0,0 +1,713 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  EmbedContentResponse,
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+  type Content,
+  type ContentListUnion,
+  type ContentUnion,
+  type CountTokensParameters,
+  type CountTokensResponse,
+  type EmbedContentParameters,
+  type GenerateContentParameters,
+  type GenerateContentResponseUsageMetadata,
+  type Part,
+  type Schema,
+  type ToolListUnion,
+} from '@google/genai';
+import * as readline from 'node:readline';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { fetch as undiciFetch, type Response as UndiciResponse } from 'undici';
+import type { ContentGenerator } from './contentGenerator.js';
+import { toContents } from '../code_assist/converter.js';
+import { estimateTokenCountSync } from '../utils/tokenCalculation.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import type { LlmRole } from '../telemetry/llmRole.js';
+
+export interface OpenAICompatibleOptions {
+  /** Base URL of the API, e.g. `http://localhost:8080/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  /** Sent instead of the requested model when set. */
+  model?: string;
+}
+
+// Wire types for the subset of the chat completions API that is used.
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAITool {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: unknown };
+}
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: OpenAITool[];
+  tool_choice?:
+    | 'auto'
+    | 'none'
+    | 'required'
+    | { type: 'function'; function: { name: string } };
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  response_format?:
+    | { type: 'json_object' }
+    | {
+        type: 'json_schema';
+        json_schema: { name: string; schema: unknown };
+      };
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface OpenAIChatResponse {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIChatChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: Array<{ embedding: number[] }>;
+}
+
+/**
+ * Error thrown for non-2xx responses. Exposes `status` so that retry and
+ * quota handling treat it like errors from the Gemini API.
+ */
+export class OpenAICompatibleApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'OpenAICompatibleApiError';
+  }
+}
+
+function isContent(value: unknown): value is Content {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    ('parts' in value || 'role' in value)
+  );
+}
+
+function normalizeContents(contents: ContentListUnion): Content[] {
+  // Chat history is passed as Content[] and is used as is so thought parts
+  // can be dropped below; other shapes are normalized by the shared helper.
+  if (Array.isArray(contents) && contents.every(isContent)) {
+    return contents;
+  }
+  return toContents(contents);
+}
+
+function contentUnionToText(content: ContentUnion | undefined): string {
+  if (!content) {
+    return '';
+  }
+  return toContents(content)
+    .flatMap((c) => c.parts ?? [])
+    .map((part) => part.text ?? '')
+    .join('\n');
+}
+
+// Gemini `Schema` uses upper-case type names; JSON Schema expects lower-case.
+function schemaToJsonSchema(schema: Schema): unknown {
+  return JSON.parse(
+    JSON.stringify(schema, (key, value: unknown) =>
+      key === 'type' && typeof value === 'string' ? value.toLowerCase() : value,
+    ),
+  );
+}
+
+function toOpenAITools(tools: ToolListUnion | undefined): OpenAITool[] {
+  const result: OpenAITool[] = [];
+  for (const tool of tools ?? []) {
+    if (!('functionDeclarations' in tool)) {
+      continue;
+    }
+    for (const declaration of tool.functionDeclarations ?? []) {
+      if (!declaration.name) {
+        continue;
+      }
+      result.push({
+        type: 'function',
+        function: {
+          name: declaration.name,
+          description: declaration.description,
+          parameters:
+            declaration.parametersJsonSchema ??
+            (declaration.parameters
+              ? schemaToJsonSchema(declaration.parameters)
+              : { type: 'object', properties: {} }),
+        },
+      });
+    }
+  }
+  return result;
+}
+
+function partToUserContent(part: Part): OpenAIContentPart | undefined {
+  if (part.text !== undefined) {
+    return { type: 'text', text: part.text };
+  }
+  if (part.inlineData?.data && part.inlineData.mimeType?.startsWith('image/')) {
+    return {
+      type: 'image_url',
+      image_url: {
+        url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+      },
+    };
+  }
+  if (part.fileData?.fileUri) {
+    return { type: 'text', text: `[File: ${part.fileData.fileUri}]` };
+  }
+  return undefined;
+}
+
+/**
+ * Converts Gemini contents into chat completion messages. Function calls
+ * become assistant `tool_calls` and function responses become `tool`
+ * messages, matched by call id (or by name and order when history has none).
+ */
+export function toOpenAIMessages(
+  contents: Content[],
+  systemInstruction?: ContentUnion,
+): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+  const systemText = contentUnionToText(systemInstruction);
+  if (systemText) {
+    messages.push({ role: 'system', content: systemText });
+  }
+
+  const pendingCallIds = new Map<string, string[]>();
+  let generatedIdCount = 0;
+
+  for (const content of contents) {
+    const parts = (content.parts ?? []).filter((part) => !part.thought);
+
+    if (content.role === 'model') {
+      const text = parts
+        .filter((part) => part.text !== undefined)
+        .map((part) => part.text)
+        .join('');
+      const toolCalls: OpenAIToolCall[] = [];
+      for (const part of parts) {
+        if (!part.functionCall?.name) {
+          continue;
+        }
+        const id = part.functionCall.id ?? `call_${generatedIdCount++}`;
+        const queue = pendingCallIds.get(part.functionCall.name) ?? [];
+        queue.push(id);
+        pendingCallIds.set(part.functionCall.name, queue);
+        toolCalls.push({
+          id,
+          type: 'function',
+          function: {
+            name: part.functionCall.name,
+            arguments: JSON.stringify(part.functionCall.args ?? {}),
+          },
+        });
+      }
+      if (text || toolCalls.length > 0) {
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        });
+      }
+      continue;
+    }
+
+    const userParts: OpenAIContentPart[] = [];
+    for (const part of parts) {
+      if (part.functionResponse) {
+        const name = part.functionResponse.name ?? '';
+        const queue = pendingCallIds.get(name);
+        const id = part.functionResponse.id ?? queue?.[0] ?? `call_${name}`;
+        if (queue) {
+          pendingCallIds.set(
+            name,
+            queue.filter((pendingId) => pendingId !== id),
+          );
+        }
+        messages.push({
+          role: 'tool',
+          tool_call_id: id,
+          content: JSON.stringify(part.functionResponse.response ?? {}),
+        });
+        continue;
+      }
+      const userPart = partToUserContent(part);
+      if (userPart) {
+        userParts.push(userPart);
+      }
+    }
+    if (userParts.length === 0) {
+      continue;
+    }
+    messages.push({
+      role: 'user',
+      content: userParts.every((part) => part.type === 'text')
+        ? userParts.map((part) => part.text).join('\n')
+        : userParts,
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Builds a chat completions request from Gemini generate content parameters.
+ */
+export function toOpenAIChatRequest(
+  request: GenerateContentParameters,
+  model: string,
+): OpenAIChatRequest {
+  const config = request.config ?? {};
+  const body: OpenAIChatRequest = {
+    model,
+    messages: toOpenAIMessages(
+      normalizeContents(request.contents),
+      config.systemInstruction,
+    ),
+    temperature: config.temperature,
+    top_p: config.topP,
+    max_tokens: config.maxOutputTokens,
+    stop: config.stopSequences,
+    seed: config.seed,
+    presence_penalty: config.presencePenalty,
+    frequency_penalty: config.frequencyPenalty,
+  };
+
+  const tools = toOpenAITools(config.tools);
+  if (tools.length > 0) {
+    body.tools = tools;
+    const callingConfig = config.toolConfig?.functionCallingConfig;
+    const allowed = callingConfig?.allowedFunctionNames ?? [];
+    if (callingConfig?.mode === FunctionCallingConfigMode.NONE) {
+      body.tool_choice = 'none';
+    } else if (callingConfig?.mode === FunctionCallingConfigMode.ANY) {
+      body.tool_choice =
+        allowed.length === 1
+          ? { type: 'function', function: { name: allowed[0] } }
+          : 'required';
+    }
+  }
+
+  if (config.responseMimeType === 'application/json') {
+    const schema =
+      config.responseJsonSchema ??
+      (config.responseSchema
+        ? schemaToJsonSchema(config.responseSchema)
+        : undefined);
+    body.response_format = schema
+      ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+      : { type: 'json_object' };
+  }
+
+  return body;
+}
+
+function toFinishReason(
+  reason: string | null | undefined,
+): FinishReason | undefined {
+  switch (reason) {
+    case undefined:
+    case null:
+      return undefined;
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    default:
+      return FinishReason.OTHER;
+  }
+}
+
+function toUsageMetadata(
+  usage: OpenAIUsage | null | undefined,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount: usage.total_tokens,
+    cachedContentTokenCount: usage.prompt_tokens_details?.cached_tokens,
+    thoughtsTokenCount: usage.completion_tokens_details?.reasoning_tokens,
+  };
+}
+
+function parseToolArguments(
+  name: string,
+  args: string | undefined,
+): Record<string, unknown> {
+  if (!args) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(args);
+    if (typeof parsed === 'object' && parsed !== null) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to report the malformed arguments.
+  }
+  debugLogger.warn(`Ignoring malformed arguments for tool call "${name}".`);
+  return {};
+}
+
+function toolCallToPart(toolCall: {
+  id?: string;
+  name: string;
+  arguments?: string;
+}): Part {
+  return {
+    functionCall: {
+      id: toolCall.id,
+      name: toolCall.name,
+      args: parseToolArguments(toolCall.name, toolCall.arguments),
+    },
+  };
+}
+
+function buildResponse(
+  parts: Part[],
+  finishReason: FinishReason | undefined,
+  usage: OpenAIUsage | null | undefined,
+  responseId?: string,
+  modelVersion?: string,
+): GenerateContentResponse {
+  const out = new GenerateContentResponse();
+  out.responseId = responseId;
+  out.modelVersion = modelVersion;
+  out.candidates = [
+    {
+      index: 0,
+      content: { role: 'model', parts },
+      ...(finishReason && { finishReason }),
+    },
+  ];
+  out.usageMetadata = toUsageMetadata(usage);
+  return out;
+}
+
+/**
+ * Converts a chat completions response into a Gemini response.
+ */
+export function fromOpenAIChatResponse(
+  response: OpenAIChatResponse,
+): GenerateContentResponse {
+  const choice = response.choices?.[0];
+  const message = choice?.message;
+  const parts: Part[] = [];
+  if (message?.reasoning_content) {
+    parts.push({ text: message.reasoning_content, thought: true });
+  }
+  if (message?.content) {
+    parts.push({ text: message.content });
+  }
+  for (const toolCall of message?.tool_calls ?? []) {
+    parts.push(
+      toolCallToPart({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: toolCall.function.arguments,
+      }),
+    );
+  }
+  return buildResponse(
+    parts,
+    toFinishReason(choice?.finish_reason),
+    response.usage,
+    response.id,
+    response.model,
+  );
+}
+
+/**
+ * Converts streamed chat completion chunks into Gemini response chunks. Text
+ * is yielded as it arrives; tool calls are assembled from their argument
+ * deltas and yielded with the finish reason and usage in a final chunk.
+ */
+export async function* fromOpenAIChatStream(
+  chunks: AsyncIterable<OpenAIChatChunk>,
+): AsyncGenerator<GenerateContentResponse> {
+  const toolCalls = new Map<
+    number,
+    { id?: string; name: string; arguments: string }
+  >();
+  let finishReason: FinishReason | undefined;
+  let usage: OpenAIUsage | null | undefined;
+  let responseId: string | undefined;
+  let modelVersion: string | undefined;
+
+  for await (const chunk of chunks) {
+    responseId ??= chunk.id;
+    modelVersion ??= chunk.model;
+    usage = chunk.usage ?? usage;
+
+    const choice = chunk.choices?.[0];
+    finishReason = toFinishReason(choice?.finish_reason) ?? finishReason;
+    const delta = choice?.delta;
+    if (!delta) {
+      continue;
+    }
+
+    for (const toolCallDelta of delta.tool_calls ?? []) {
+      const existing = toolCalls.get(toolCallDelta.index) ?? {
+        name: '',
+        arguments: '',
+      };
+      existing.id ??= toolCallDelta.id;
+      existing.name += toolCallDelta.function?.name ?? '';
+      existing.arguments += toolCallDelta.function?.arguments ?? '';
+      toolCalls.set(toolCallDelta.index, existing);
+    }
+
+    const parts: Part[] = [];
+    if (delta.reasoning_content) {
+      parts.push({ text: delta.reasoning_content, thought: true });
+    }
+    if (delta.content) {
+      parts.push({ text: delta.content });
+    }
+    if (parts.length > 0) {
+      yield buildResponse(
+        parts,
+        undefined,
+        undefined,
+        responseId,
+        modelVersion,
+      );
+    }
+  }
+
+  const toolCallParts = [...toolCalls.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, toolCall]) => toolCallToPart(toolCall));
+  yield buildResponse(
+    toolCallParts,
+    finishReason ?? FinishReason.STOP,
+    usage,
+    responseId,
+    modelVersion,
+  );
+}
+
+async function* parseServerSentEvents(
+  body: NodeReadableStream<Uint8Array>,
+): AsyncGenerator<OpenAIChatChunk> {
+  const rl = readline.createInterface({
+    input: Readable.fromWeb(body),
+    crlfDelay: Infinity, // Recognizes '\r\n' and '\n' as line breaks
+  });
+  for await (const line of rl) {
+    if (!line.startsWith('data:')) {
+      continue; // Ignore blank lines, comments and other fields
+    }
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      return;
+    }
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      yield JSON.parse(data) as OpenAIChatChunk;
+    } catch {
+      debugLogger.warn('Skipping malformed chat completion chunk.');
+    }
+  }
+}
+
+/**
+ * A ContentGenerator that talks to any OpenAI-compatible chat completions
+ * endpoint, such as llama.cpp, vLLM or an internal proxy.
+ */
+export class OpenAICompatibleContentGenerator implements ContentGenerator {
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Uses undici's fetch so the dispatcher installed by `setGlobalProxy` and
+   * `updateGlobalFetchTimeouts` applies to these requests.
+   */
+  private async post(
+    path: string,
+    body: object,
+    signal?: AbortSignal,
+  ): Promise<UndiciResponse> {
+    const response = await undiciFetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.options.headers,
+        ...(this.options.apiKey && {
+          Authorization: `Bearer ${this.options.apiKey}`,
+        }),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new OpenAICompatibleApiError(
+        `Request to ${path} failed with status ${response.status}${
+          detail ? `: ${detail}` : ''
+        }`,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  private getModel(requestedModel: string): string {
+    return this.options.model || requestedModel;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    role: LlmRole,
+  ): Promise<GenerateContentResponse> {
+    const body = toOpenAIChatRequest(request, this.getModel(request.model));
+    const response = await this.post(
+      '/chat/completions',
+      body,
+      request.config?.abortSignal,
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const json = (await response.json()) as OpenAIChatResponse;
+    return fromOpenAIChatResponse(json);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    role: LlmRole,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const body: OpenAIChatRequest = {
+      ...toOpenAIChatRequest(request, this.getModel(request.model)),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    const response = await this.post(
+      '/chat/completions',
+      body,
+      request.config?.abortSignal,
+    );
+    if (!response.body) {
+      throw new Error('Chat completions stream returned no body.');
+    }
+    return fromOpenAIChatStream(parseServerSentEvents(response.body));
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    // Chat completions APIs have no token counting endpoint, so estimate.
+    const parts = normalizeContents(request.contents).flatMap(
+      (content) => content.parts ?? [],
+    );
+    return { totalTokens: estimateTokenCountSync(parts) };
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const input = normalizeContents(request.contents).map((content) =>
+      (content.parts ?? []).map((part) => part.text ?? '').join('\n'),
+    );
+    const response = await this.post(
+      '/embeddings',
+      { model: this.getModel(request.model), input },
+      request.config?.abortSignal,
+    );
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const json = (await response.json()) as OpenAIEmbeddingResponse;
+    const out = new EmbedContentResponse();
+    out.embeddings = (json.data ?? []).map((item) => ({
+      values: item.embedding,
+    }));
+    return out;
+  }
+}
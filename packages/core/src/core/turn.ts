@@ -107,6 +107,8 @@ export type ServerGeminiInvalidStreamEvent = {
 export type ServerGeminiModelInfoEvent = {
   type: GeminiEventType.ModelInfo;
   value: string;
+  /** The provider chain hop serving the model, if one is configured. */
+  provider?: string;
 };
 
 export interface StructuredError {
@@ -16,7 +16,6 @@ import {
 } from 'vitest';
 import { handleFallback } from './handler.js';
 import type { Config } from '../config/config.js';
-import type { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
 import { createAvailabilityServiceMock } from '../availability/testUtils.js';
 import { AuthType } from '../core/contentGenerator.js';
 import {
@@ -31,7 +30,12 @@ import type { FallbackModelHandler } from './types.js';
 import { openBrowserSecurely } from '../utils/secure-browser-launcher.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import * as policyHelpers from '../availability/policyHelpers.js';
-import { createDefaultPolicy } from '../availability/policyCatalog.js';
+import {
+  createDefaultPolicy,
+  createProviderPolicyChain,
+} from '../availability/policyCatalog.js';
+import { ModelAvailabilityService } from '../availability/modelAvailabilityService.js';
+import { coreEvents } from '../utils/events.js';
 import {
   RetryableQuotaError,
   TerminalQuotaError,
@@ -412,4 +416,75 @@ describe('handleFallback', () => {
       expect(policyConfig.activateFallbackMode).not.toHaveBeenCalled();
     });
   });
+  describe('provider chain flow', () => {
+    const chain = createProviderPolicyChain(
+      [
+        {
+          backend: { authType: AuthType.USE_VERTEX_AI, label: 'vertex' },
+          cooldownMs: 1000,
+        },
+        { backend: { authType: AuthType.USE_GEMINI, label: 'api-key' } },
+      ],
+      MOCK_PRO_MODEL,
+    );
+    let availability: ModelAvailabilityService;
+    let providerConfig: Config;
+    let feedbackSpy: MockInstance;
+
+    beforeEach(() => {
+      availability = new ModelAvailabilityService();
+      providerConfig = createMockConfig({
+        getModelAvailabilityService: vi.fn(() => availability),
+        getProviderChain: vi.fn(() => chain),
+        getActiveProviderHop: vi.fn(() => chain[0]),
+        syncProviderHop: vi.fn(async () => chain[1]),
+        getFallbackModelHandler: vi.fn(() => mockHandler),
+      });
+      feedbackSpy = vi
+        .spyOn(coreEvents, 'emitFeedback')
+        .mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      feedbackSpy.mockRestore();
+    });
+
+    it('cools down the failed hop and switches to the next one silently', async () => {
+      const result = await handleFallback(
+        providerConfig,
+        MOCK_PRO_MODEL,
+        AuthType.USE_VERTEX_AI,
+        new Error('quota exceeded'),
+      );
+
+      expect(result).toBe(true);
+      expect(availability.getHopHealth('vertex')).toMatchObject({
+        consecutiveFailures: 1,
+        lastError: 'quota exceeded',
+      });
+      expect(availability.isHopAvailable('vertex')).toBe(false);
+      expect(providerConfig.syncProviderHop).toHaveBeenCalled();
+      expect(mockHandler).not.toHaveBeenCalled();
+      expect(feedbackSpy).toHaveBeenCalledWith(
+        'info',
+        expect.stringContaining(
+          `vertex is unavailable, switching to api-key (${MOCK_PRO_MODEL})`,
+        ),
+      );
+    });
+
+    it('returns null when no other hop is available', async () => {
+      vi.mocked(providerConfig.syncProviderHop).mockResolvedValue(chain[0]);
+
+      const result = await handleFallback(
+        providerConfig,
+        MOCK_PRO_MODEL,
+        AuthType.USE_VERTEX_AI,
+      );
+
+      expect(result).toBeNull();
+      expect(mockHandler).not.toHaveBeenCalled();
+      expect(feedbackSpy).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -19,6 +19,11 @@ import {
   resolvePolicyAction,
   applyAvailabilityTransition,
 } from '../availability/policyHelpers.js';
+import {
+  DEFAULT_HOP_COOLDOWN_MS,
+  getPolicyHopId,
+} from '../availability/policyCatalog.js';
+import { coreEvents } from '../utils/events.js';
 
 export const UPGRADE_URL_PAGE = 'https://goo.gle/set-up-gemini-code-assist';
 
@@ -28,6 +33,10 @@ export async function handleFallback(
   authType?: string,
   error?: unknown,
 ): Promise<string | boolean | null> {
+  if (config.getProviderChain?.()) {
+    return handleProviderFallback(config, error);
+  }
+
   const chain = resolvePolicyChain(config);
   const { failedPolicy, candidates } = buildFallbackPolicyContext(
     chain,
@@ -109,6 +118,42 @@ export async function handleFallback(
   }
 }
 
+/**
+ * Cools down the provider chain hop that failed and moves on to the next one
+ * without asking the user. Returns null if no other hop is available.
+ */
+async function handleProviderFallback(
+  config: Config,
+  error?: unknown,
+): Promise<boolean | null> {
+  const failedHop = config.getActiveProviderHop();
+  if (!failedHop) {
+    return null;
+  }
+
+  const failedHopId = getPolicyHopId(failedHop);
+  const health = config
+    .getModelAvailabilityService()
+    .markHopFailed(
+      failedHopId,
+      failedHop.cooldownMs ?? DEFAULT_HOP_COOLDOWN_MS,
+      error === undefined ? undefined : getErrorMessage(error),
+    );
+
+  const nextHop = await config.syncProviderHop();
+  if (!nextHop || nextHop === failedHop) {
+    return null;
+  }
+
+  const retryAt = new Date(health.coolingDownUntil ?? Date.now());
+  coreEvents.emitFeedback(
+    'info',
+    `${failedHopId} is unavailable, switching to ${getPolicyHopId(nextHop)} (${nextHop.model}). ` +
+      `${failedHopId} will be tried again after ${retryAt.toLocaleTimeString()}.`,
+  );
+  return true;
+}
+
 async function handleUpgrade() {
   if (!shouldLaunchBrowser()) {
     debugLogger.log(
@@ -178,14 +178,17 @@ describe('HookEventHandler', () => {
       expect(mockCoreEvents.emitHookStart).toHaveBeenCalledWith({
         hookName: './test.sh',
         eventName: HookEventName.BeforeTool,
+        executionId: expect.any(String),
         hookIndex: 1,
         totalHooks: 1,
       });
+      const { executionId } = mockCoreEvents.emitHookStart.mock.calls[0][0];
 
       if (onHookEnd) onHookEnd(mockPlan[0].hookConfig, mockResults[0]);
       expect(mockCoreEvents.emitHookEnd).toHaveBeenCalledWith({
         hookName: './test.sh',
         eventName: HookEventName.BeforeTool,
+        executionId,
         success: true,
       });
 
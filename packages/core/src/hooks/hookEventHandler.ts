@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { randomUUID } from 'node:crypto';
 import type { HookPlanner, HookEventContext } from './hookPlanner.js';
 import type { HookRunner } from './hookRunner.js';
 import type { HookAggregator, AggregatedHookResult } from './hookAggregator.js';
@@ -299,10 +300,14 @@ export class HookEventHandler {
         };
       }
 
+      const executionIds = new Map<HookConfig, string>();
       const onHookStart = (config: HookConfig, index: number) => {
+        const executionId = randomUUID();
+        executionIds.set(config, executionId);
         coreEvents.emitHookStart({
           hookName: this.getHookName(config),
           eventName,
+          executionId,
           source: config.source,
           hookIndex: index + 1,
           totalHooks: plan.hookConfigs.length,
@@ -313,6 +318,7 @@ export class HookEventHandler {
         coreEvents.emitHookEnd({
           hookName: this.getHookName(config),
           eventName,
+          executionId: executionIds.get(config),
           success: result.success,
         });
       };
@@ -513,6 +519,9 @@ export class HookEventHandler {
     if (config.type === HookType.Command) {
       return config.name || config.command || 'unknown-command';
     }
+    if (config.type === HookType.Http) {
+      return config.name || config.url || 'unknown-http';
+    }
     return config.name || 'unknown-hook';
   }
 
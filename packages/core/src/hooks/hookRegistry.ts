@@ -130,6 +130,9 @@ export class HookRegistry {
     if (entry.config.type === 'command') {
       return entry.config.name || entry.config.command || 'unknown-command';
     }
+    if (entry.config.type === 'http') {
+      return entry.config.name || entry.config.url || 'unknown-http';
+    }
     return entry.config.name || 'unknown-hook';
   }
 
@@ -300,7 +303,7 @@ please review the project settings (.gemini/settings.json) and remove them.`;
   ): boolean {
     if (
       !config.type ||
-      !['command', 'plugin', 'runtime'].includes(config.type)
+      !['command', 'plugin', 'runtime', 'http'].includes(config.type)
     ) {
       debugLogger.warn(
         `Invalid hook ${eventName} from ${source} type: ${config.type}`,
@@ -315,6 +318,13 @@ please review the project settings (.gemini/settings.json) and remove them.`;
       return false;
     }
 
+    if (config.type === 'http' && !config.url) {
+      debugLogger.warn(
+        `HTTP hook ${eventName} from ${source} missing url field`,
+      );
+      return false;
+    }
+
     if (config.type === 'runtime' && !config.name) {
       debugLogger.warn(
         `Runtime hook ${eventName} from ${source} missing name field`,
@@ -16,6 +16,7 @@ import {
 } from './types.js';
 import type { Readable, Writable } from 'node:stream';
 import type { Config } from '../config/config.js';
+import { fetchWithTimeout, FetchError } from '../utils/fetch.js';
 
 // Mock type for the child_process spawn
 type MockChildProcessWithoutNullStreams = ChildProcessWithoutNullStreams & {
@@ -33,6 +34,14 @@ vi.mock('node:child_process', async (importOriginal) => {
   };
 });
 
+vi.mock('../utils/fetch.js', async (importOriginal) => {
+  const actual = await importOriginal();
+  return {
+    ...(actual as object),
+    fetchWithTimeout: vi.fn(),
+  };
+});
+
 // Mock debugLogger using vi.hoisted
 const mockDebugLogger = vi.hoisted(() => ({
   log: vi.fn(),
@@ -455,6 +464,125 @@ describe('HookRunner', () => {
         );
       });
     });
+
+    describe('http hooks', () => {
+      const httpConfig: HookConfig = {
+        type: HookType.Http,
+        url: 'https://hooks.example.com/gemini',
+        timeout: 5000,
+      };
+
+      it('should POST the hook input and parse the JSON response', async () => {
+        const mockOutput = { decision: 'deny', reason: 'Not allowed' };
+        vi.mocked(fetchWithTimeout).mockResolvedValue(
+          new Response(JSON.stringify(mockOutput), { status: 200 }),
+        );
+
+        const result = await hookRunner.executeHook(
+          httpConfig,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toEqual(mockOutput);
+        expect(result.outputFormat).toBe('json');
+        expect(fetchWithTimeout).toHaveBeenCalledWith(
+          'https://hooks.example.com/gemini',
+          5000,
+          {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(mockInput),
+          },
+        );
+        expect(spawn).not.toHaveBeenCalled();
+      });
+
+      it('should expand environment variables in headers', async () => {
+        // Secrets are redacted from the hook environment unless allowed.
+        vi.stubEnv('HOOK_TEST_TOKEN', 'secret-token');
+        mockConfig.sanitizationConfig.allowedEnvironmentVariables = [
+          'HOOK_TEST_TOKEN',
+        ];
+        vi.mocked(fetchWithTimeout).mockResolvedValue(
+          new Response(null, { status: 204 }),
+        );
+
+        const result = await hookRunner.executeHook(
+          {
+            ...httpConfig,
+            headers: {
+              Authorization: 'Bearer ${HOOK_TEST_TOKEN}',
+              'X-Session': '$GEMINI_SESSION_ID',
+              'X-Team': '$TEAM',
+            },
+            env: { TEAM: 'platform' },
+          } as HookConfig,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.output).toBeUndefined();
+        expect(vi.mocked(fetchWithTimeout).mock.calls[0][2]?.headers).toEqual({
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer secret-token',
+          'X-Session': 'test-session',
+          'X-Team': 'platform',
+        });
+        vi.unstubAllEnvs();
+      });
+
+      it('should treat non-2xx responses as non-blocking failures', async () => {
+        vi.mocked(fetchWithTimeout).mockResolvedValue(
+          new Response('Service unavailable', { status: 503 }),
+        );
+
+        const result = await hookRunner.executeHook(
+          httpConfig,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe(
+          'HTTP hook responded with status 503',
+        );
+        expect(result.output).toEqual({
+          decision: 'allow',
+          systemMessage: 'Warning: Service unavailable',
+        });
+      });
+
+      it('should report timeouts', async () => {
+        vi.mocked(fetchWithTimeout).mockRejectedValue(
+          new FetchError('Request timed out after 5000ms', 'ETIMEDOUT'),
+        );
+
+        const result = await hookRunner.executeHook(
+          httpConfig,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Hook timed out after 5000ms');
+      });
+
+      it('should block project http hooks in untrusted folders', async () => {
+        vi.mocked(mockConfig.isTrustedFolder).mockReturnValue(false);
+
+        const result = await hookRunner.executeHook(
+          { ...httpConfig, source: ConfigSource.Project } as HookConfig,
+          HookEventName.BeforeTool,
+          mockInput,
+        );
+
+        expect(result.success).toBe(false);
+        expect(fetchWithTimeout).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('executeHooksParallel', () => {
@@ -11,6 +11,7 @@ import {
   HookType,
   type HookConfig,
   type CommandHookConfig,
+  type HttpHookConfig,
   type RuntimeHookConfig,
   type HookInput,
   type HookOutput,
@@ -24,6 +25,8 @@ import type { Config } from '../config/config.js';
 import type { LLMRequest } from './hookTranslator.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { sanitizeEnvironment } from '../services/environmentSanitization.js';
+import { expandEnvVars } from '../utils/envExpansion.js';
+import { fetchWithTimeout, FetchError } from '../utils/fetch.js';
 import {
   escapeShellArg,
   getShellConfiguration,
@@ -42,7 +45,7 @@ const EXIT_CODE_SUCCESS = 0;
 const EXIT_CODE_NON_BLOCKING_ERROR = 1;
 
 /**
- * Hook runner that executes command hooks
+ * Hook runner that executes command, HTTP and runtime hooks
  */
 export class HookRunner {
   private readonly config: Config;
@@ -88,6 +91,15 @@ export class HookRunner {
         );
       }
 
+      if (hookConfig.type === HookType.Http) {
+        return await this.executeHttpHook(
+          hookConfig,
+          eventName,
+          input,
+          startTime,
+        );
+      }
+
       return await this.executeCommandHook(
         hookConfig,
         eventName,
@@ -97,9 +109,7 @@ export class HookRunner {
     } catch (error) {
       const duration = Date.now() - startTime;
       const hookId =
-        hookConfig.name ||
-        (hookConfig.type === HookType.Command ? hookConfig.command : '') ||
-        'unknown';
+        hookConfig.name || hookConfig.command || hookConfig.url || 'unknown';
       const errorMessage = `Hook execution failed for event '${eventName}' (hook: ${hookId}): ${error}`;
       debugLogger.warn(`Hook execution error (non-fatal): ${errorMessage}`);
 
@@ -344,16 +354,7 @@ export class HookRunner {
         command = `${command}; if ($LASTEXITCODE -ne 0) { exit $LASTEXITCODE }`;
       }
 
-      // Set up environment variables
-      const env = {
-        ...sanitizeEnvironment(process.env, this.config.sanitizationConfig),
-        GEMINI_PROJECT_DIR: input.cwd,
-        GEMINI_PLANS_DIR: this.config.storage.getPlansDir(),
-        GEMINI_CWD: input.cwd,
-        GEMINI_SESSION_ID: input.session_id,
-        CLAUDE_PROJECT_DIR: input.cwd, // For compatibility
-        ...hookConfig.env,
-      };
+      const env = this.buildHookEnv(hookConfig, input);
 
       const child = spawn(
         shellConfig.executable,
@@ -448,33 +449,10 @@ export class HookRunner {
           return;
         }
 
-        // Parse output
-        let output: HookOutput | undefined;
-        let outputFormat: 'json' | 'text' | undefined;
-
-        const textToParse = stdout.trim() || stderr.trim();
-        if (textToParse) {
-          try {
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-            let parsed = JSON.parse(textToParse);
-            if (typeof parsed === 'string') {
-              // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-              parsed = JSON.parse(parsed);
-            }
-            if (parsed && typeof parsed === 'object') {
-              // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
-              output = parsed as HookOutput;
-              outputFormat = 'json';
-            }
-          } catch {
-            // Not JSON, convert plain text to structured output
-            output = this.convertPlainTextToHookOutput(
-              textToParse,
-              exitCode || EXIT_CODE_SUCCESS,
-            );
-            outputFormat = 'text';
-          }
-        }
+        const { output, outputFormat } = this.parseHookOutput(
+          stdout.trim() || stderr.trim(),
+          exitCode || EXIT_CODE_SUCCESS,
+        );
 
         resolve({
           hookConfig,
@@ -507,6 +485,135 @@ export class HookRunner {
     });
   }
 
+  /**
+   * Execute an HTTP hook by POSTing the hook input as JSON to the configured URL
+   */
+  private async executeHttpHook(
+    hookConfig: HttpHookConfig,
+    eventName: HookEventName,
+    input: HookInput,
+    startTime: number,
+  ): Promise<HookExecutionResult> {
+    const timeout = hookConfig.timeout ?? DEFAULT_HOOK_TIMEOUT;
+
+    if (!hookConfig.url) {
+      const errorMessage = 'HTTP hook missing url';
+      debugLogger.warn(`Hook configuration error (non-fatal): ${errorMessage}`);
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        error: new Error(errorMessage),
+        duration: Date.now() - startTime,
+      };
+    }
+
+    const env = this.buildHookEnv(hookConfig, input);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    for (const [name, value] of Object.entries(hookConfig.headers ?? {})) {
+      headers[name] = expandEnvVars(value, env);
+    }
+
+    let body: string;
+    let status: number;
+    try {
+      const response = await fetchWithTimeout(hookConfig.url, timeout, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(input),
+      });
+      status = response.status;
+      body = await response.text();
+    } catch (error) {
+      const timedOut =
+        error instanceof FetchError && error.code === 'ETIMEDOUT';
+      return {
+        hookConfig,
+        eventName,
+        success: false,
+        error: timedOut
+          ? new Error(`Hook timed out after ${timeout}ms`)
+          : error instanceof Error
+            ? error
+            : new Error(String(error)),
+        duration: Date.now() - startTime,
+      };
+    }
+
+    // Non-2xx responses are treated like a non-blocking command failure, so a
+    // failing endpoint surfaces a warning instead of blocking the agent.
+    const ok = status >= 200 && status < 300;
+    const { output, outputFormat } = this.parseHookOutput(
+      body.trim(),
+      ok ? EXIT_CODE_SUCCESS : EXIT_CODE_NON_BLOCKING_ERROR,
+    );
+
+    return {
+      hookConfig,
+      eventName,
+      success: ok,
+      output,
+      outputFormat,
+      stdout: body,
+      error: ok
+        ? undefined
+        : new Error(`HTTP hook responded with status ${status}`),
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Build the environment exposed to command hooks and used to expand HTTP
+   * hook headers
+   */
+  private buildHookEnv(
+    hookConfig: CommandHookConfig | HttpHookConfig,
+    input: HookInput,
+  ): NodeJS.ProcessEnv {
+    return {
+      ...sanitizeEnvironment(process.env, this.config.sanitizationConfig),
+      GEMINI_PROJECT_DIR: input.cwd,
+      GEMINI_PLANS_DIR: this.config.storage.getPlansDir(),
+      GEMINI_CWD: input.cwd,
+      GEMINI_SESSION_ID: input.session_id,
+      CLAUDE_PROJECT_DIR: input.cwd, // For compatibility
+      ...hookConfig.env,
+    };
+  }
+
+  /**
+   * Parse hook output as JSON, falling back to plain text
+   */
+  private parseHookOutput(
+    text: string,
+    exitCode: number,
+  ): { output?: HookOutput; outputFormat?: 'json' | 'text' } {
+    if (!text) {
+      return {};
+    }
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      let parsed = JSON.parse(text);
+      if (typeof parsed === 'string') {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        parsed = JSON.parse(parsed);
+      }
+      if (parsed && typeof parsed === 'object') {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+        return { output: parsed as HookOutput, outputFormat: 'json' };
+      }
+      return {};
+    } catch {
+      // Not JSON, convert plain text to structured output
+      return {
+        output: this.convertPlainTextToHookOutput(text, exitCode),
+        outputFormat: 'text',
+      };
+    }
+  }
+
   /**
    * Expand command with environment variables and input context
    */
@@ -169,6 +169,86 @@ describe('TrustedHooksManager', () => {
         ),
       ).toEqual(['my-hook']);
     });
+
+    it('should detect change in http hook url as untrusted', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      const manager = new TrustedHooksManager();
+
+      const originalHook = {
+        [HookEventName.BeforeTool]: [
+          {
+            hooks: [{ type: HookType.Http, url: 'https://a.example.com' }],
+          },
+        ],
+      };
+      const updatedHook = {
+        [HookEventName.BeforeTool]: [
+          {
+            hooks: [{ type: HookType.Http, url: 'https://b.example.com' }],
+          },
+        ],
+      };
+
+      manager.trustHooks(
+        '/project',
+        originalHook as Partial<Record<HookEventName, HookDefinition[]>>,
+      );
+
+      expect(
+        manager.getUntrustedHooks(
+          '/project',
+          originalHook as Partial<Record<HookEventName, HookDefinition[]>>,
+        ),
+      ).toEqual([]);
+      expect(
+        manager.getUntrustedHooks(
+          '/project',
+          updatedHook as Partial<Record<HookEventName, HookDefinition[]>>,
+        ),
+      ).toEqual(['https://b.example.com']);
+    });
+
+    it('should detect change in http hook headers or timeout as untrusted', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      const manager = new TrustedHooksManager();
+      const withHook = (hook: Record<string, unknown>) =>
+        ({
+          [HookEventName.BeforeTool]: [
+            {
+              hooks: [
+                { type: HookType.Http, url: 'https://a.example.com', ...hook },
+              ],
+            },
+          ],
+        }) as Partial<Record<HookEventName, HookDefinition[]>>;
+
+      manager.trustHooks(
+        '/project',
+        withHook({ headers: { Authorization: 'Bearer $TOKEN' } }),
+      );
+
+      expect(
+        manager.getUntrustedHooks(
+          '/project',
+          withHook({ headers: { Authorization: 'Bearer $TOKEN' } }),
+        ),
+      ).toEqual([]);
+      expect(
+        manager.getUntrustedHooks(
+          '/project',
+          withHook({ headers: { Authorization: 'Bearer $OTHER_TOKEN' } }),
+        ),
+      ).toEqual(['https://a.example.com']);
+      expect(
+        manager.getUntrustedHooks(
+          '/project',
+          withHook({
+            headers: { Authorization: 'Bearer $TOKEN' },
+            timeout: 120000,
+          }),
+        ),
+      ).toEqual(['https://a.example.com']);
+    });
   });
 
   describe('persistence', () => {
@@ -16,7 +16,7 @@ import {
 import { debugLogger } from '../utils/debugLogger.js';
 
 interface TrustedHooksConfig {
-  [projectPath: string]: string[]; // Array of trusted hook keys (name:command)
+  [projectPath: string]: string[]; // Array of trusted hook keys (name:command or name:url)
 }
 
 export class TrustedHooksManager {
@@ -84,7 +84,9 @@ export class TrustedHooksManager {
           const key = getHookKey(hook);
           if (!trustedKeys.has(key)) {
             // Return friendly name or command
-            untrusted.push(hook.name || hook.command || 'unknown-hook');
+            untrusted.push(
+              hook.name || hook.command || hook.url || 'unknown-hook',
+            );
           }
         }
       }
@@ -65,6 +65,7 @@ export const HOOKS_CONFIG_FIELDS = ['enabled', 'disabled', 'notifications'];
 export enum HookType {
   Command = 'command',
   Runtime = 'runtime',
+  Http = 'http',
 }
 
 /**
@@ -85,6 +86,7 @@ export interface RuntimeHookConfig {
   /** Function to execute when the hook is triggered */
   action: HookAction;
   command?: never;
+  url?: never;
   source?: ConfigSource;
   /** Maximum time allowed for hook execution in milliseconds */
   timeout?: number;
@@ -97,6 +99,7 @@ export interface CommandHookConfig {
   type: HookType.Command;
   command: string;
   action?: never;
+  url?: never;
   name?: string;
   description?: string;
   timeout?: number;
@@ -104,7 +107,25 @@ export interface CommandHookConfig {
   env?: Record<string, string>;
 }
 
-export type HookConfig = CommandHookConfig | RuntimeHookConfig;
+/**
+ * HTTP hook configuration entry. The hook input is POSTed as JSON to `url`
+ * and the response body is parsed like command hook output.
+ */
+export interface HttpHookConfig {
+  type: HookType.Http;
+  url: string;
+  /** Request headers. Values support $VAR and ${VAR} env expansion. */
+  headers?: Record<string, string>;
+  action?: never;
+  command?: never;
+  name?: string;
+  description?: string;
+  timeout?: number;
+  source?: ConfigSource;
+  env?: Record<string, string>;
+}
+
+export type HookConfig = CommandHookConfig | RuntimeHookConfig | HttpHookConfig;
 
 /**
  * Hook definition with matcher
@@ -120,6 +141,15 @@ export interface HookDefinition {
  */
 export function getHookKey(hook: HookConfig): string {
   const name = hook.name || '';
+  if (hook.type === HookType.Http) {
+    // Header templates and the timeout change what the hook receives and how
+    // long it may block, so editing them has to invalidate trust. The raw
+    // templates are used so expanded secrets never end up in the key.
+    const headers = Object.entries(hook.headers ?? {}).sort(([a], [b]) =>
+      a.localeCompare(b),
+    );
+    return `${name}:${hook.url}:${JSON.stringify({ headers, timeout: hook.timeout })}`;
+  }
   const command = hook.type === HookType.Command ? hook.command : '';
   return `${name}:${command}`;
 }
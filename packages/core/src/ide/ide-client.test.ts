@@ -557,6 +557,84 @@ describe('IdeClient', () => {
     });
   });
 
+  describe('language features', () => {
+    const connectWithTools = async (tools: string[]) => {
+      vi.mocked(getConnectionConfigFromFile).mockResolvedValue({
+        port: '8080',
+      });
+      vi.mocked(validateWorkspacePath).mockReturnValue({ isValid: true });
+      mockClient.request.mockResolvedValueOnce({
+        tools: tools.map((name) => ({ name })),
+      });
+      const ideClient = await IdeClient.getInstance();
+      await ideClient.connect();
+      return ideClient;
+    };
+
+    it('should report which features the IDE serves', async () => {
+      const ideClient = await connectWithTools(['openDiff', 'getDiagnostics']);
+
+      expect(ideClient.isLanguageFeatureAvailable('getDiagnostics')).toBe(true);
+      expect(ideClient.isLanguageFeatureAvailable('getDefinition')).toBe(false);
+    });
+
+    it('should return parsed diagnostics', async () => {
+      const ideClient = await connectWithTools(['getDiagnostics']);
+      const diagnostic = {
+        filePath: '/test/workspace/a.ts',
+        range: {
+          start: { line: 3, character: 5 },
+          end: { line: 3, character: 9 },
+        },
+        severity: 'error',
+        message: "Cannot find name 'foo'.",
+        source: 'ts',
+      };
+      mockClient.request.mockResolvedValueOnce({
+        isError: false,
+        content: [
+          { type: 'text', text: JSON.stringify({ diagnostics: [diagnostic] }) },
+        ],
+      });
+
+      await expect(
+        ideClient.getDiagnostics('/test/workspace/a.ts'),
+      ).resolves.toEqual([diagnostic]);
+      expect(mockClient.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          params: {
+            name: 'getDiagnostics',
+            arguments: { filePath: '/test/workspace/a.ts' },
+          },
+        }),
+        expect.any(Object),
+        expect.any(Object),
+      );
+    });
+
+    it('should throw when the IDE reports an error', async () => {
+      const ideClient = await connectWithTools(['findReferences']);
+      mockClient.request.mockResolvedValueOnce({
+        isError: true,
+        content: [{ type: 'text', text: 'File not found' }],
+      });
+
+      await expect(
+        ideClient.findReferences('/test/workspace/a.ts', 1, 1),
+      ).rejects.toThrow('File not found');
+    });
+
+    it('should throw when the feature is not available', async () => {
+      const ideClient = await connectWithTools(['openDiff', 'closeDiff']);
+
+      await expect(
+        ideClient.getDocumentSymbols('/test/workspace/a.ts'),
+      ).rejects.toThrow(
+        "The connected IDE does not support 'getDocumentSymbols'.",
+      );
+    });
+  });
+
   describe('authentication', () => {
     it('should connect with an auth token if provided in the discovery file', async () => {
       const authToken = 'test-auth-token';
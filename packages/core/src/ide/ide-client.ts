@@ -6,11 +6,18 @@
 
 import { detectIde, type IdeInfo } from '../ide/detect-ide.js';
 import { ideContextStore } from './ideContext.js';
+import type { z } from 'zod';
 import {
+  DocumentSymbolsResponseSchema,
+  GetDiagnosticsResponseSchema,
   IdeContextNotificationSchema,
   IdeDiffAcceptedNotificationSchema,
   IdeDiffClosedNotificationSchema,
   IdeDiffRejectedNotificationSchema,
+  LocationsResponseSchema,
+  type Diagnostic,
+  type DocumentSymbol,
+  type Location,
 } from './types.js';
 import { getIdeProcessInfo } from './process-utils.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
@@ -49,6 +56,16 @@ export type DiffUpdateResult =
       content: undefined;
     };
 
+/**
+ * The language features an IDE companion can serve, keyed by the name of the
+ * MCP tool that implements each one.
+ */
+export type IdeLanguageFeature =
+  | 'getDiagnostics'
+  | 'getDefinition'
+  | 'findReferences'
+  | 'getDocumentSymbols';
+
 export type IDEConnectionState = {
   status: IDEConnectionStatus;
   details?: string; // User-facing
@@ -424,6 +441,98 @@ export class IdeClient {
     );
   }
 
+  /**
+   * Whether the connected IDE serves the given language feature. Older
+   * companion extensions only support diffing.
+   */
+  isLanguageFeatureAvailable(feature: IdeLanguageFeature): boolean {
+    return (
+      !!this.client &&
+      this.state.status === IDEConnectionStatus.Connected &&
+      this.availableTools.includes(feature)
+    );
+  }
+
+  /**
+   * Gets the errors and warnings the IDE reports for a file, or for every file
+   * it knows about if no path is given.
+   */
+  async getDiagnostics(filePath?: string): Promise<Diagnostic[]> {
+    const result = await this.callLanguageTool(
+      'getDiagnostics',
+      { filePath },
+      GetDiagnosticsResponseSchema,
+    );
+    return result.diagnostics;
+  }
+
+  async getDefinition(
+    filePath: string,
+    line: number,
+    character: number,
+  ): Promise<Location[]> {
+    const result = await this.callLanguageTool(
+      'getDefinition',
+      { filePath, line, character },
+      LocationsResponseSchema,
+    );
+    return result.locations;
+  }
+
+  async findReferences(
+    filePath: string,
+    line: number,
+    character: number,
+  ): Promise<Location[]> {
+    const result = await this.callLanguageTool(
+      'findReferences',
+      { filePath, line, character },
+      LocationsResponseSchema,
+    );
+    return result.locations;
+  }
+
+  async getDocumentSymbols(filePath: string): Promise<DocumentSymbol[]> {
+    const result = await this.callLanguageTool(
+      'getDocumentSymbols',
+      { filePath },
+      DocumentSymbolsResponseSchema,
+    );
+    return result.symbols;
+  }
+
+  /**
+   * Calls one of the companion's language tools and parses the JSON it
+   * returns. Unlike the diff methods, failures are thrown so that the calling
+   * tool can report them to the model.
+   */
+  private async callLanguageTool<T extends z.ZodTypeAny>(
+    feature: IdeLanguageFeature,
+    args: Record<string, unknown>,
+    schema: T,
+  ): Promise<z.infer<T>> {
+    if (!this.client || !this.isLanguageFeatureAvailable(feature)) {
+      throw new Error(`The connected IDE does not support '${feature}'.`);
+    }
+    const resultData = await this.client.request(
+      {
+        method: 'tools/call',
+        params: { name: feature, arguments: args },
+      },
+      CallToolResultSchema,
+      { timeout: IDE_REQUEST_TIMEOUT_MS },
+    );
+    const textPart = resultData.content.find((part) => part.type === 'text');
+    if (resultData.isError) {
+      throw new Error(textPart?.text ?? `Tool '${feature}' reported an error.`);
+    }
+    if (!textPart?.text) {
+      throw new Error(`Tool '${feature}' returned no content.`);
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+    return schema.parse(JSON.parse(textPart.text));
+  }
+
   private async discoverTools(): Promise<void> {
     if (!this.client) {
       return;
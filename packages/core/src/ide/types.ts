@@ -146,3 +146,117 @@ export const CloseDiffRequestSchema = z.object({
    */
   suppressNotification: z.boolean().optional(),
 });
+
+/**
+ * A position in a file. Lines and characters are 1-based, like the cursor in
+ * `FileSchema`.
+ */
+export const PositionSchema = z.object({
+  line: z.number(),
+  character: z.number(),
+});
+
+export const RangeSchema = z.object({
+  start: PositionSchema,
+  end: PositionSchema,
+});
+
+/**
+ * A range in a file, such as where a symbol is defined or referenced.
+ */
+export const LocationSchema = z.object({
+  /**
+   * The absolute path to the file.
+   */
+  filePath: z.string(),
+  range: RangeSchema,
+});
+export type Location = z.infer<typeof LocationSchema>;
+
+/**
+ * An error, warning or hint that a language server reported for a file.
+ */
+export const DiagnosticSchema = z.object({
+  /**
+   * The absolute path to the file.
+   */
+  filePath: z.string(),
+  range: RangeSchema,
+  severity: z.enum(['error', 'warning', 'info', 'hint']),
+  message: z.string(),
+  /**
+   * What reported the diagnostic, e.g. `ts` or `eslint`.
+   */
+  source: z.string().optional(),
+  code: z.string().optional(),
+});
+export type Diagnostic = z.infer<typeof DiagnosticSchema>;
+
+/**
+ * A symbol declared in a file, flattened from the IDE's symbol tree.
+ */
+export const DocumentSymbolSchema = z.object({
+  name: z.string(),
+  /**
+   * The kind of symbol, e.g. `Class`, `Method` or `Variable`.
+   */
+  kind: z.string(),
+  range: RangeSchema,
+  /**
+   * The name of the symbol that contains this one, if any.
+   */
+  containerName: z.string().optional(),
+});
+export type DocumentSymbol = z.infer<typeof DocumentSymbolSchema>;
+
+/**
+ * The request to get diagnostics from the IDE.
+ */
+export const GetDiagnosticsRequestSchema = z.object({
+  /**
+   * The absolute path to a file. Omit to get diagnostics for every file the
+   * IDE knows about.
+   */
+  filePath: z.string().optional(),
+});
+
+export const GetDiagnosticsResponseSchema = z.object({
+  diagnostics: z.array(DiagnosticSchema),
+});
+
+/**
+ * The request to find the definition of, or references to, the symbol at a
+ * position.
+ */
+export const SymbolPositionRequestSchema = z.object({
+  /**
+   * The absolute path to the file.
+   */
+  filePath: z.string(),
+  /**
+   * The 1-based line number.
+   */
+  line: z.number(),
+  /**
+   * The 1-based character offset.
+   */
+  character: z.number(),
+});
+
+export const LocationsResponseSchema = z.object({
+  locations: z.array(LocationSchema),
+});
+
+/**
+ * The request to list the symbols declared in a file.
+ */
+export const GetDocumentSymbolsRequestSchema = z.object({
+  /**
+   * The absolute path to the file.
+   */
+  filePath: z.string(),
+});
+
+export const DocumentSymbolsResponseSchema = z.object({
+  symbols: z.array(DocumentSymbolSchema),
+});
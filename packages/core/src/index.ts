@@ -55,6 +55,10 @@ export * from './routing/modelRouterService.js';
 
 export * from './fallback/types.js';
 export * from './fallback/handler.js';
+export type {
+  ModelBackend,
+  ProviderHopConfig,
+} from './availability/modelPolicy.js';
 
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
@@ -139,6 +143,7 @@ export * from './services/fileSystemService.js';
 export * from './services/sandboxedFileSystemService.js';
 export * from './services/modelConfigService.js';
 export * from './sandbox/windows/WindowsSandboxManager.js';
+export * from './sandbox/container/ContainerSandboxManager.js';
 export * from './services/sessionSummaryUtils.js';
 export {
   startMemoryService,
@@ -148,6 +153,7 @@ export { isProjectSkillPatchTarget } from './services/memoryPatchUtils.js';
 export * from './context/memoryContextManager.js';
 export * from './services/trackerService.js';
 export * from './services/trackerTypes.js';
+export * from './services/trackerExport.js';
 export * from './services/keychainService.js';
 export * from './services/keychainTypes.js';
 export * from './skills/skillManager.js';
@@ -235,6 +241,7 @@ export * from './tools/ripGrep.js';
 export * from './tools/glob.js';
 export * from './tools/edit.js';
 export * from './tools/write-file.js';
+export * from './tools/diff-utils.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
@@ -242,8 +249,12 @@ export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
+export * from './tools/mcp-sampling.js';
+export * from './tools/mcp-elicitation.js';
 export * from './tools/write-todos.js';
 export * from './tools/trackerTools.js';
+export * from './tools/ide-tools.js';
+export * from './tools/doc-search.js';
 export * from './tools/activate-skill.js';
 export * from './tools/ask-user.js';
 
@@ -265,6 +276,7 @@ export { OAuthUtils } from './mcp/oauth-utils.js';
 export * from './telemetry/index.js';
 export * from './telemetry/billingEvents.js';
 export { logBillingEvent } from './telemetry/loggers.js';
+export { sanitizeConversationRecord } from './telemetry/sanitize.js';
 export * from './telemetry/constants.js';
 export { createSessionId } from './utils/session.js';
 export * from './utils/compatibility.js';
@@ -294,3 +306,11 @@ export type { Content, Part, FunctionCall } from '@google/genai';
 // Export context types and profiles
 export * from './context/types.js';
 export * from './context/profiles.js';
+export * from './context/config/registry.js';
+export type {
+  AsyncContextProcessor,
+  ContextProcessor,
+  ProcessArgs,
+} from './context/pipeline.js';
+export type { ContextEnvironment } from './context/pipeline/environment.js';
+export * from './context/inspector.js';
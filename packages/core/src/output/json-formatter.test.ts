@@ -152,6 +152,24 @@ describe('JsonFormatter', () => {
     expect(JSON.parse(formatted)).toEqual(expected);
   });
 
+  it('should format the response as JSON with cost', () => {
+    const formatter = new JsonFormatter();
+    const cost = {
+      currency: 'USD',
+      total: 0.25,
+      models: { 'gemini-2.5-flash': 0.25 },
+      unpricedModels: [],
+    };
+    const formatted = formatter.format(
+      undefined,
+      'Done',
+      undefined,
+      undefined,
+      cost,
+    );
+    expect(JSON.parse(formatted)).toEqual({ response: 'Done', cost });
+  });
+
   it('should format response with error as JSON', () => {
     const formatter = new JsonFormatter();
     const response = 'Partial response';
@@ -6,6 +6,7 @@
 
 import stripAnsi from 'strip-ansi';
 import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import type { SessionCost } from '../billing/pricing.js';
 import { getErrorType } from '../utils/errors.js';
 import type { JsonError, JsonOutput } from './types.js';
 
@@ -15,6 +16,7 @@ export class JsonFormatter {
     response?: string,
     stats?: SessionMetrics,
     error?: JsonError,
+    cost?: SessionCost,
   ): string {
     const output: JsonOutput = {};
 
@@ -30,6 +32,10 @@ export class JsonFormatter {
       output.stats = stats;
     }
 
+    if (cost) {
+      output.cost = cost;
+    }
+
     if (error) {
       output.error = error;
     }
@@ -512,6 +512,24 @@ describe('StreamJsonFormatter', () => {
     });
   });
 
+  describe('convertToStreamCost', () => {
+    it('should convert the session cost to snake case', () => {
+      const result = formatter.convertToStreamCost({
+        currency: 'USD',
+        total: 0.5,
+        models: { 'gemini-2.5-pro': 0.5 },
+        unpricedModels: ['local-model'],
+      });
+
+      expect(result).toEqual({
+        currency: 'USD',
+        total: 0.5,
+        models: { 'gemini-2.5-pro': 0.5 },
+        unpriced_models: ['local-model'],
+      });
+    });
+  });
+
   describe('JSON validity', () => {
     it('should produce valid JSON for all event types', () => {
       const events = [
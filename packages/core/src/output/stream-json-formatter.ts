@@ -7,9 +7,11 @@
 import type {
   JsonStreamEvent,
   ModelStreamStats,
+  StreamCost,
   StreamStats,
 } from './types.js';
 import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import type { SessionCost } from '../billing/pricing.js';
 
 /**
  * Formatter for streaming JSON output.
@@ -85,4 +87,18 @@ export class StreamJsonFormatter {
       models,
     };
   }
+
+  /**
+   * Converts a SessionCost to the StreamCost format.
+   * @param cost - The cost of the session
+   * @returns Cost for streaming output
+   */
+  convertToStreamCost(cost: SessionCost): StreamCost {
+    return {
+      currency: cost.currency,
+      total: cost.total,
+      models: cost.models,
+      unpriced_models: cost.unpricedModels,
+    };
+  }
 }
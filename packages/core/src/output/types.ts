@@ -5,6 +5,7 @@
  */
 
 import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import type { SessionCost } from '../billing/pricing.js';
 
 export enum OutputFormat {
   TEXT = 'text',
@@ -22,6 +23,7 @@ export interface JsonOutput {
   session_id?: string;
   response?: string;
   stats?: SessionMetrics;
+  cost?: SessionCost;
   error?: JsonError;
 }
 
@@ -97,6 +99,14 @@ export interface StreamStats {
   models: Record<string, ModelStreamStats>;
 }
 
+export interface StreamCost {
+  currency: string;
+  total: number;
+  models: Record<string, number>;
+  // Models with token usage but no known price
+  unpriced_models: string[];
+}
+
 export interface ResultEvent extends BaseJsonStreamEvent {
   type: JsonStreamEventType.RESULT;
   status: 'success' | 'error';
@@ -105,6 +115,7 @@ export interface ResultEvent extends BaseJsonStreamEvent {
     message: string;
   };
   stats?: StreamStats;
+  cost?: StreamCost;
 }
 
 export type JsonStreamEvent =
@@ -73,6 +73,7 @@ export const ADMIN_POLICY_TIER = 5;
 // Specific priority offsets and derived priorities for dynamic/settings rules.
 
 export const MCP_EXCLUDED_PRIORITY = USER_POLICY_TIER + 0.9;
+export const SKILL_ALLOWED_TOOLS_PRIORITY = USER_POLICY_TIER + 0.5;
 export const EXCLUDE_TOOLS_FLAG_PRIORITY = USER_POLICY_TIER + 0.4;
 export const ALLOWED_TOOLS_FLAG_PRIORITY = USER_POLICY_TIER + 0.3;
 export const TRUSTED_MCP_SERVER_PRIORITY = USER_POLICY_TIER + 0.2;
@@ -388,6 +389,7 @@ export async function createPolicyEngineConfig(
   //
   // Settings-based and dynamic rules (mixed tiers):
   //   MCP_EXCLUDED_PRIORITY:        MCP servers excluded list (security: persistent server blocks)
+  //   SKILL_ALLOWED_TOOLS_PRIORITY: Tools left out of an active skill's allowed-tools (temporary blocks)
   //   EXCLUDE_TOOLS_FLAG_PRIORITY:  Command line flag --exclude-tools (explicit temporary blocks)
   //   ALLOWED_TOOLS_FLAG_PRIORITY:  Command line flag --allowed-tools (explicit temporary allows)
   //   TRUSTED_MCP_SERVER_PRIORITY:  MCP servers with trust=true (persistent trusted servers)
@@ -486,6 +486,62 @@ describe('PolicyEngine', () => {
         (await engine.check({ name: 'new-tool' }, undefined)).decision,
       ).toBe(PolicyDecision.ALLOW);
     });
+
+    it('should skip excluded tools and fall through to lower rules', async () => {
+      engine.addRule({
+        toolName: '*',
+        excludeToolNames: ['read_file'],
+        decision: PolicyDecision.DENY,
+        priority: 10,
+      });
+      engine.addRule({ toolName: 'read_file', decision: PolicyDecision.ALLOW });
+
+      expect(
+        (await engine.check({ name: 'read_file' }, undefined)).decision,
+      ).toBe(PolicyDecision.ALLOW);
+      expect(
+        (await engine.check({ name: 'write_file' }, undefined)).decision,
+      ).toBe(PolicyDecision.DENY);
+      expect(
+        engine.getExcludedTools(
+          undefined,
+          new Set(['read_file', 'write_file']),
+        ),
+      ).toEqual(new Set(['write_file']));
+    });
+
+    it('should skip a rule when any name of an invoke_agent call is excluded', async () => {
+      engine.addRule({
+        toolName: '*',
+        excludeToolNames: ['invoke_agent'],
+        decision: PolicyDecision.DENY,
+        priority: 10,
+      });
+      engine.addRule({
+        toolName: '*',
+        excludeToolNames: ['codebase_investigator'],
+        decision: PolicyDecision.DENY,
+        priority: 5,
+      });
+      engine.addRule({
+        toolName: 'invoke_agent',
+        decision: PolicyDecision.ALLOW,
+      });
+
+      const invoke = (agentName: string) =>
+        engine.check(
+          {
+            name: 'invoke_agent',
+            args: { agent_name: agentName, prompt: 'Hello' },
+          },
+          undefined,
+        );
+
+      expect((await invoke('codebase_investigator')).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect((await invoke('generalist')).decision).toBe(PolicyDecision.DENY);
+    });
   });
 
   describe('removeRulesForTool', () => {
@@ -2129,6 +2185,120 @@ describe('PolicyEngine', () => {
     });
   });
 
+  describe('explain', () => {
+    const shellRules: PolicyRule[] = [
+      {
+        toolName: 'run_shell_command',
+        argsPattern: /"command":"git push/,
+        decision: PolicyDecision.DENY,
+        priority: 3,
+        source: 'User: git.toml',
+      },
+      {
+        toolName: 'run_shell_command',
+        decision: PolicyDecision.ALLOW,
+        priority: 2,
+        modes: [ApprovalMode.AUTO_EDIT],
+      },
+      {
+        toolName: 'run_shell_command',
+        decision: PolicyDecision.ASK_USER,
+        priority: 1,
+      },
+      {
+        toolName: 'run_shell_command',
+        decision: PolicyDecision.ALLOW,
+        priority: 5,
+        subagent: 'pr-creator',
+      },
+    ];
+
+    it('should list every matching rule and the one that decided', async () => {
+      engine = new PolicyEngine({
+        rules: shellRules,
+        approvalMode: ApprovalMode.AUTO_EDIT,
+      });
+
+      const explanation = await engine.explain(
+        { name: 'run_shell_command', args: { command: 'git push origin' } },
+        undefined,
+      );
+
+      expect(explanation.matchingRules.map((rule) => rule.priority)).toEqual([
+        3, 2, 1,
+      ]);
+      expect(explanation.result.decision).toBe(PolicyDecision.DENY);
+      expect(explanation.result.rule).toBe(explanation.matchingRules[0]);
+      expect(explanation.checkers).toEqual([]);
+    });
+
+    it('should apply mode and subagent filters', async () => {
+      engine = new PolicyEngine({ rules: shellRules });
+
+      const explanation = await engine.explain(
+        { name: 'run_shell_command', args: { command: 'ls' } },
+        undefined,
+        undefined,
+        'pr-creator',
+      );
+
+      expect(explanation.matchingRules.map((rule) => rule.priority)).toEqual([
+        5, 1,
+      ]);
+      expect(explanation.result).toEqual({
+        decision: PolicyDecision.ALLOW,
+        rule: explanation.matchingRules[0],
+      });
+    });
+
+    it('should report the safety checkers that ran', async () => {
+      const checkers: SafetyCheckerRule[] = [
+        {
+          toolName: 'write_file',
+          checker: {
+            type: 'in-process',
+            name: InProcessCheckerType.ALLOWED_PATH,
+          },
+        },
+        {
+          toolName: 'write_file',
+          checker: { type: 'external', name: 'failing-checker' },
+        },
+      ];
+      mockCheckerRunner.runChecker = vi
+        .fn()
+        .mockResolvedValueOnce({
+          decision: SafetyCheckDecision.ASK_USER,
+          reason: 'Path is outside the workspace',
+        })
+        .mockRejectedValueOnce(new Error('Checker crashed'));
+      engine = new PolicyEngine(
+        {
+          rules: [{ toolName: 'write_file', decision: PolicyDecision.ALLOW }],
+          checkers,
+        },
+        mockCheckerRunner,
+      );
+
+      const explanation = await engine.explain(
+        { name: 'write_file', args: { file_path: '/etc/hosts' } },
+        undefined,
+      );
+
+      expect(explanation.checkers).toEqual([
+        {
+          checker: checkers[0],
+          result: {
+            decision: SafetyCheckDecision.ASK_USER,
+            reason: 'Path is outside the workspace',
+          },
+        },
+        { checker: checkers[1], error: 'Checker crashed' },
+      ]);
+      expect(explanation.result.decision).toBe(PolicyDecision.DENY);
+    });
+  });
+
   describe('addChecker', () => {
     it('should add a new checker and maintain priority order', () => {
       const checker1: SafetyCheckerRule = {
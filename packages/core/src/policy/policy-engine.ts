@@ -22,10 +22,13 @@ import {
   type HookCheckerRule,
   ApprovalMode,
   type CheckResult,
+  type CheckerExplanation,
+  type PolicyExplanation,
   ALWAYS_ALLOW_PRIORITY_FRACTION,
 } from './types.js';
 import { stableStringify } from './stable-stringify.js';
 import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
 import { isRecord } from '../utils/markdownUtils.js';
 import type { CheckerRunner } from '../safety/checker-runner.js';
 import { SafetyCheckDecision } from '../safety/protocol.js';
@@ -80,6 +83,21 @@ function matchesWildcard(
   return toolName === pattern;
 }
 
+/**
+ * Whether the rule's `excludeToolNames` carve out the tool call under any of
+ * the names it is checked by. Excluding `invoke_agent` thus also covers the
+ * agent-name alias of its calls, and excluding an agent's name covers the
+ * `invoke_agent` call that runs it.
+ */
+function isExcludedByRule(
+  rule: PolicyRule,
+  toolCallsToTry: FunctionCall[],
+): boolean {
+  return toolCallsToTry.some(
+    (tc) => !!tc.name && !!rule.excludeToolNames?.includes(tc.name),
+  );
+}
+
 function ruleMatches(
   rule: PolicyRule | SafetyCheckerRule,
   toolCall: FunctionCall,
@@ -153,6 +171,14 @@ function ruleMatches(
     }
   }
 
+  if (
+    'excludeToolNames' in rule &&
+    toolCall.name &&
+    rule.excludeToolNames?.includes(toolCall.name)
+  ) {
+    return false;
+  }
+
   // Check annotations if specified
   if (rule.toolAnnotations) {
     if (!toolAnnotations) {
@@ -493,19 +519,17 @@ export class PolicyEngine {
   }
 
   /**
-   * Check if a tool call is allowed based on the configured policies.
-   * Returns the decision and the matching rule (if any).
+   * Resolves the MCP server a tool call belongs to, if any.
    */
-  async check(
+  private resolveServerName(
     toolCall: FunctionCall,
     serverName: string | undefined,
     toolAnnotations?: Record<string, unknown>,
-    subagent?: string,
-  ): Promise<CheckResult> {
+  ): string | undefined {
     // Case 1: Metadata injection is the primary and safest way to identify an MCP server.
     // If we have explicit `_serverName` metadata (usually injected by tool-registry for active tools), use it.
     if (!serverName && isMcpToolAnnotation(toolAnnotations)) {
-      serverName = toolAnnotations._serverName;
+      return toolAnnotations._serverName;
     }
 
     // Case 2: Fallback for static FQN strings (e.g. from TOML policies or allowed/excluded settings strings).
@@ -514,10 +538,110 @@ export class PolicyEngine {
     if (!serverName && toolCall.name) {
       const parsed = parseMcpToolName(toolCall.name);
       if (parsed.serverName) {
-        serverName = parsed.serverName;
+        return parsed.serverName;
+      }
+    }
+
+    return serverName;
+  }
+
+  /**
+   * Returns the tool call under each name that rules may refer to it by:
+   * its legacy aliases and, for `invoke_agent`, the invoked agent's name.
+   */
+  private getToolCallsToTry(toolCall: FunctionCall): FunctionCall[] {
+    // We also want to check legacy aliases for the tool name.
+    const toolNamesToTry = toolCall.name ? getToolAliases(toolCall.name) : [];
+
+    if (toolCall.name === AGENT_TOOL_NAME) {
+      if (isRecord(toolCall.args)) {
+        const subagentName = toolCall.args['agent_name'];
+        if (typeof subagentName === 'string') {
+          // Inject the subagent name as a virtual tool alias for transparent rule matching
+          toolNamesToTry.push(subagentName);
+        }
       }
     }
 
+    return toolNamesToTry.map((name) => ({ ...toolCall, name }));
+  }
+
+  /**
+   * Check if a tool call is allowed based on the configured policies.
+   * Returns the decision and the matching rule (if any).
+   */
+  async check(
+    toolCall: FunctionCall,
+    serverName: string | undefined,
+    toolAnnotations?: Record<string, unknown>,
+    subagent?: string,
+  ): Promise<CheckResult> {
+    return this.evaluate(toolCall, serverName, toolAnnotations, subagent);
+  }
+
+  /**
+   * Explains how {@link check} decides a tool call: every rule that matches
+   * it, the safety checkers that ran and their results, and the final
+   * decision.
+   */
+  async explain(
+    toolCall: FunctionCall,
+    serverName: string | undefined,
+    toolAnnotations?: Record<string, unknown>,
+    subagent?: string,
+  ): Promise<PolicyExplanation> {
+    const resolvedServerName = this.resolveServerName(
+      toolCall,
+      serverName,
+      toolAnnotations,
+    );
+    const stringifiedArgs = toolCall.args
+      ? stableStringify(toolCall.args)
+      : undefined;
+    const toolCallsToTry = this.getToolCallsToTry(toolCall);
+
+    const matchingRules = this.rules.filter(
+      (rule) =>
+        !(this.disableAlwaysAllow && this.isAlwaysAllowRule(rule)) &&
+        !isExcludedByRule(rule, toolCallsToTry) &&
+        toolCallsToTry.some((tc) =>
+          ruleMatches(
+            rule,
+            tc,
+            stringifiedArgs,
+            resolvedServerName,
+            this.approvalMode,
+            this.nonInteractive,
+            toolAnnotations,
+            subagent,
+          ),
+        ),
+    );
+
+    const checkers: CheckerExplanation[] = [];
+    const result = await this.evaluate(
+      toolCall,
+      serverName,
+      toolAnnotations,
+      subagent,
+      checkers,
+    );
+    return { matchingRules, checkers, result };
+  }
+
+  /**
+   * Implements {@link check}. When `checkerResults` is given, the outcome of
+   * every safety checker that runs is appended to it.
+   */
+  private async evaluate(
+    toolCall: FunctionCall,
+    serverName: string | undefined,
+    toolAnnotations?: Record<string, unknown>,
+    subagent?: string,
+    checkerResults?: CheckerExplanation[],
+  ): Promise<CheckResult> {
+    serverName = this.resolveServerName(toolCall, serverName, toolAnnotations);
+
     let stringifiedArgs: string | undefined;
     // Compute stringified args once before the loop
     if (
@@ -551,41 +675,27 @@ export class PolicyEngine {
     let matchedRule: PolicyRule | undefined;
     let decision: PolicyDecision | undefined;
 
-    // We also want to check legacy aliases for the tool name.
-    const toolNamesToTry = toolCall.name ? getToolAliases(toolCall.name) : [];
-
-    if (toolCall.name === AGENT_TOOL_NAME) {
-      if (isRecord(toolCall.args)) {
-        const subagentName = toolCall.args['agent_name'];
-        if (typeof subagentName === 'string') {
-          // Inject the subagent name as a virtual tool alias for transparent rule matching
-          toolNamesToTry.push(subagentName);
-        }
-      }
-    }
-
-    const toolCallsToTry: FunctionCall[] = [];
-    for (const name of toolNamesToTry) {
-      toolCallsToTry.push({ ...toolCall, name });
-    }
+    const toolCallsToTry = this.getToolCallsToTry(toolCall);
 
     for (const rule of this.rules) {
       if (this.disableAlwaysAllow && this.isAlwaysAllowRule(rule)) {
         continue;
       }
 
-      const match = toolCallsToTry.some((tc) =>
-        ruleMatches(
-          rule,
-          tc,
-          stringifiedArgs,
-          serverName,
-          this.approvalMode,
-          this.nonInteractive,
-          toolAnnotations,
-          subagent,
-        ),
-      );
+      const match =
+        !isExcludedByRule(rule, toolCallsToTry) &&
+        toolCallsToTry.some((tc) =>
+          ruleMatches(
+            rule,
+            tc,
+            stringifiedArgs,
+            serverName,
+            this.approvalMode,
+            this.nonInteractive,
+            toolAnnotations,
+            subagent,
+          ),
+        );
 
       if (match) {
         debugLogger.debug(
@@ -721,6 +831,7 @@ export class PolicyEngine {
               toolCall,
               checkerRule.checker,
             );
+            checkerResults?.push({ checker: checkerRule, result });
             if (result.decision === SafetyCheckDecision.DENY) {
               debugLogger.debug(
                 `[PolicyEngine.check] Safety checker '${checkerRule.checker.name}' denied execution: ${result.reason}`,
@@ -740,6 +851,10 @@ export class PolicyEngine {
               `[PolicyEngine.check] Safety checker '${checkerRule.checker.name}' threw an error:`,
               error,
             );
+            checkerResults?.push({
+              checker: checkerRule,
+              error: getErrorMessage(error),
+            });
             return {
               decision: PolicyDecision.DENY,
               rule: matchedRule,
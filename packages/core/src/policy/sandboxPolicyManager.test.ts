@@ -69,4 +69,25 @@ describe('SandboxPolicyManager', () => {
     const perms = manager.getCommandPermissions('npm');
     expect(perms.fileSystem?.read).toContain('/node_modules');
   });
+
+  it('should merge and persist allowed domains', () => {
+    const manager = new SandboxPolicyManager(configPath);
+    manager.addSessionApproval('npm', {
+      allowedDomains: ['Registry.npmjs.org'],
+    });
+    manager.addSessionApproval('npm', {
+      allowedDomains: ['registry.npmjs.org', 'not a domain'],
+    });
+    expect(manager.getCommandPermissions('npm').allowedDomains).toEqual([
+      'registry.npmjs.org',
+    ]);
+
+    manager.addPersistentApproval('curl', {
+      allowedDomains: ['*.example.com'],
+    });
+    const reloaded = new SandboxPolicyManager(configPath);
+    expect(reloaded.getCommandPermissions('curl').allowedDomains).toEqual([
+      '*.example.com',
+    ]);
+  });
 });
@@ -14,6 +14,7 @@ import { debugLogger } from '../utils/debugLogger.js';
 import { type SandboxPermissions } from '../services/sandboxManager.js';
 import { deduplicateAbsolutePaths } from '../utils/paths.js';
 import { normalizeCommand } from '../utils/shell-utils.js';
+import { normalizeDomainPattern } from '../sandbox/utils/egressProxy.js';
 
 export const SandboxModeConfigSchema = z.object({
   network: z.boolean(),
@@ -26,6 +27,7 @@ export const SandboxModeConfigSchema = z.object({
 export const PersistentCommandConfigSchema = z.object({
   allowed_paths: z.array(z.string()).optional(),
   allow_network: z.boolean().optional(),
+  allowed_domains: z.array(z.string()).optional(),
 });
 
 export const SandboxTomlSchema = z.object({
@@ -43,6 +45,17 @@ export type PersistentCommandConfig = z.infer<
 >;
 export type SandboxTomlSchemaType = z.infer<typeof SandboxTomlSchema>;
 
+function mergeDomains(...lists: Array<string[] | undefined>): string[] {
+  const domains = new Set<string>();
+  for (const domain of lists.flatMap((list) => list ?? [])) {
+    const normalized = normalizeDomainPattern(domain);
+    if (normalized) {
+      domains.add(normalized);
+    }
+  }
+  return Array.from(domains);
+}
+
 export class SandboxPolicyManager {
   private static _DEFAULT_CONFIG: SandboxTomlSchemaType | null = null;
 
@@ -164,6 +177,7 @@ export class SandboxPolicyManager {
       return {
         fileSystem: { read: [], write: [] },
         network: false,
+        allowedDomains: [],
       };
     }
     const persistent = this.config.commands[normalized];
@@ -181,6 +195,10 @@ export class SandboxPolicyManager {
         ],
       },
       network: persistent?.allow_network || session?.network || false,
+      allowedDomains: mergeDomains(
+        persistent?.allowed_domains,
+        session?.allowedDomains,
+      ),
     };
   }
 
@@ -195,6 +213,7 @@ export class SandboxPolicyManager {
     const existing = this.sessionApprovals[normalized] || {
       fileSystem: { read: [], write: [] },
       network: false,
+      allowedDomains: [],
     };
 
     this.sessionApprovals[normalized] = {
@@ -209,6 +228,10 @@ export class SandboxPolicyManager {
         ]),
       },
       network: existing.network || permissions.network || false,
+      allowedDomains: mergeDomains(
+        existing.allowedDomains,
+        permissions.allowedDomains,
+      ),
     };
   }
 
@@ -224,6 +247,10 @@ export class SandboxPolicyManager {
       allowed_paths: [],
       allow_network: false,
     };
+    const allowedDomains = mergeDomains(
+      existing.allowed_domains,
+      permissions.allowedDomains,
+    );
 
     const newPathsArray: string[] = [
       ...(existing.allowed_paths ?? []),
@@ -235,6 +262,7 @@ export class SandboxPolicyManager {
     this.config.commands[normalized] = {
       allowed_paths: Array.from(newPaths),
       allow_network: existing.allow_network || permissions.network || false,
+      ...(allowedDomains.length > 0 ? { allowed_domains: allowedDomains } : {}),
     };
 
     this.saveConfig();
@@ -76,6 +76,7 @@ priority = 100
         decision: PolicyDecision.ALLOW,
         priority: 1.1, // tier 1 + 100/1000
         source: 'Default: test.toml',
+        sourceFile: path.join(tempDir, 'test.toml'),
       });
       expect(result.checkers).toHaveLength(0);
       expect(result.errors).toHaveLength(0);
@@ -495,6 +495,7 @@ export async function loadPoliciesFromToml(
                   allowRedirection:
                     rule.allowRedirection ?? rule.allow_redirection,
                   source: `${tierName.charAt(0).toUpperCase() + tierName.slice(1)}: ${file}`,
+                  sourceFile: filePath,
                   denyMessage: rule.denyMessage ?? rule.deny_message,
                 };
 
@@ -622,6 +623,7 @@ export async function loadPoliciesFromToml(
                   modes: checker.modes,
                   toolAnnotations: checker.toolAnnotations,
                   source: `${tierName.charAt(0).toUpperCase() + tierName.slice(1)}: ${file}`,
+                  sourceFile: filePath,
                 };
 
                 if (argsPattern) {
@@ -4,7 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { SafetyCheckInput } from '../safety/protocol.js';
+import type {
+  SafetyCheckInput,
+  SafetyCheckResult,
+} from '../safety/protocol.js';
 import type { SandboxManager } from '../services/sandboxManager.js';
 
 export enum PolicyDecision {
@@ -123,6 +126,12 @@ export interface PolicyRule {
    */
   toolName: string;
 
+  /**
+   * Tool names this rule does not apply to, even if `toolName` matches them.
+   * Lets a wildcard rule carve out exceptions without deciding for them.
+   */
+  excludeToolNames?: readonly string[];
+
   /**
    * The name of the subagent this rule applies to.
    * If undefined, the rule applies regardless of whether it's the main agent or a subagent.
@@ -185,6 +194,11 @@ export interface PolicyRule {
    */
   source?: string;
 
+  /**
+   * Path of the policy file the rule was loaded from, if any.
+   */
+  sourceFile?: string;
+
   /**
    * Optional message to display when this rule results in a DENY decision.
    * This message will be returned to the model/user.
@@ -239,6 +253,11 @@ export interface SafetyCheckerRule {
    * e.g. "my-policies.toml", "Workspace: project.toml", etc.
    */
   source?: string;
+
+  /**
+   * Path of the policy file the checker was loaded from, if any.
+   */
+  sourceFile?: string;
 }
 
 export interface HookExecutionContext {
@@ -352,6 +371,29 @@ export interface CheckResult {
   rule?: PolicyRule;
 }
 
+/**
+ * The outcome of a safety checker that ran while explaining a decision.
+ */
+export interface CheckerExplanation {
+  checker: SafetyCheckerRule;
+  /** The checker's result, unless it threw. */
+  result?: SafetyCheckResult;
+  /** The error thrown by the checker. Errors deny the tool call. */
+  error?: string;
+}
+
+/**
+ * Describes how the policy engine reached its decision for a tool call.
+ */
+export interface PolicyExplanation {
+  /** Every rule that matches the tool call, highest priority first. */
+  matchingRules: PolicyRule[];
+  /** The safety checkers that ran, in the order they ran. */
+  checkers: CheckerExplanation[];
+  /** The final decision and deciding rule, as returned by `check()`. */
+  result: CheckResult;
+}
+
 /**
  * Priority for subagent tools (registered dynamically).
  * Effective priority matching Tier 1 (Default) at priority 30.
@@ -22,6 +22,7 @@ describe('ContextBuilder', () => {
     mockHistory = [];
 
     const mockGeminiClient = {
+      isInitialized: vi.fn().mockReturnValue(true),
       getHistory: vi.fn().mockImplementation(() => mockHistory),
     };
     mockConfig = {
@@ -50,6 +51,19 @@ describe('ContextBuilder', () => {
     ]);
   });
 
+  it('should fall back to the current question before the chat starts', () => {
+    vi.mocked(mockConfig.geminiClient!.isInitialized).mockReturnValue(false);
+    vi.mocked(mockConfig.geminiClient!.getHistory).mockImplementation(() => {
+      throw new Error('Chat not initialized');
+    });
+
+    const context = contextBuilder.buildFullContext();
+
+    expect(context.history?.turns).toEqual([
+      { user: { text: 'mock question' }, model: {} },
+    ]);
+  });
+
   it('should build full context with existing history (User -> Model)', () => {
     mockHistory = [
       { role: 'user', parts: [{ text: 'Hello' }] },
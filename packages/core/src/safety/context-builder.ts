@@ -19,7 +19,10 @@ export class ContextBuilder {
    * Builds the full context object with all available data.
    */
   buildFullContext(): SafetyCheckInput['context'] {
-    const clientHistory = this.context.geminiClient?.getHistory() || [];
+    // The client may not have started a chat yet, e.g. when checkers are run
+    // outside of a session by `gemini policy explain`.
+    const client = this.context.geminiClient;
+    const clientHistory = client?.isInitialized() ? client.getHistory() : [];
     const history = this.convertHistoryToTurns(clientHistory);
 
     debugLogger.debug(
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ContainerSandboxManager } from './ContainerSandboxManager.js';
+import { spawnAsync } from '../../utils/shell-utils.js';
+import type { ShellExecutionResult } from '../../services/shellExecutionService.js';
+import fs from 'node:fs';
+import os from 'node:os';
+
+vi.mock('node:fs', async () => {
+  const actual = await vi.importActual<typeof import('node:fs')>('node:fs');
+  return {
+    ...actual,
+    default: {
+      // @ts-expect-error - Property 'default' does not exist on type 'typeof import("node:fs")'
+      ...actual.default,
+      existsSync: vi.fn(() => true),
+      realpathSync: vi.fn((p) => p.toString()),
+      statSync: vi.fn(() => ({ isDirectory: () => true }) as fs.Stats),
+      lstatSync: vi.fn(() => ({}) as fs.Stats),
+      mkdirSync: vi.fn(),
+      mkdtempSync: vi.fn((prefix: string) => prefix + 'mocked'),
+      openSync: vi.fn(),
+      closeSync: vi.fn(),
+      writeFileSync: vi.fn(),
+      chmodSync: vi.fn(),
+      rmSync: vi.fn(),
+    },
+    existsSync: vi.fn(() => true),
+    realpathSync: vi.fn((p) => p.toString()),
+    statSync: vi.fn(() => ({ isDirectory: () => true }) as fs.Stats),
+    lstatSync: vi.fn(() => ({}) as fs.Stats),
+    mkdirSync: vi.fn(),
+    mkdtempSync: vi.fn((prefix: string) => prefix + 'mocked'),
+    openSync: vi.fn(),
+    closeSync: vi.fn(),
+    writeFileSync: vi.fn(),
+    chmodSync: vi.fn(),
+    rmSync: vi.fn(),
+  };
+});
+
+vi.mock('../../utils/shell-utils.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../../utils/shell-utils.js')>();
+  return {
+    ...actual,
+    spawnAsync: vi.fn(() =>
+      Promise.resolve({ status: 0, stdout: Buffer.from('') }),
+    ),
+    initializeShellParsers: vi.fn(),
+  };
+});
+
+describe.skipIf(os.platform() === 'win32')('ContainerSandboxManager', () => {
+  let workspaceCount = 0;
+  let workspace: string;
+  let manager: ContainerSandboxManager;
+
+  const runCalls = () =>
+    vi.mocked(spawnAsync).mock.calls.filter(([, args]) => args[0] === 'run');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.realpathSync).mockImplementation((p) => p.toString());
+    // Containers are shared per process, so give every test its own
+    // workspace to start from a clean pool.
+    workspace = `/home/user/workspace-${++workspaceCount}`;
+    manager = new ContainerSandboxManager(
+      { workspace },
+      { runtime: 'podman', image: 'sandbox:latest' },
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('prepareCommand', () => {
+    it('runs the command in a container through the runtime', async () => {
+      const result = await manager.prepareCommand({
+        command: 'ls',
+        args: ['-la'],
+        cwd: workspace,
+        env: { PATH: '/usr/bin', FOO: 'bar' },
+      });
+
+      expect(runCalls()).toHaveLength(1);
+      const [runtime, runArgs] = runCalls()[0];
+      expect(runtime).toBe('podman');
+      expect(runArgs.slice(0, 2)).toEqual(['run', '--name']);
+      const containerName = runArgs[2];
+      expect(containerName).toMatch(
+        new RegExp(`^gemini-cli-sandbox-${process.pid}-[0-9a-f]{12}$`),
+      );
+
+      expect(result.program).toBe('podman');
+      expect(result.args).toEqual([
+        'exec',
+        '--interactive',
+        '--workdir',
+        workspace,
+        '--env',
+        'FOO',
+        containerName,
+        'ls',
+        '-la',
+      ]);
+      expect(result.env['FOO']).toBe('bar');
+      expect(result.cwd).toBe(workspace);
+    });
+
+    it('reuses the container for commands with the same configuration', async () => {
+      const req = {
+        command: 'ls',
+        args: [],
+        cwd: workspace,
+        env: {},
+      };
+
+      const first = await manager.prepareCommand(req);
+      const second = await manager.prepareCommand({ ...req, command: 'pwd' });
+
+      expect(runCalls()).toHaveLength(1);
+      expect(second.args.at(-2)).toBe(first.args.at(-2));
+    });
+
+    it('starts a separate container when network access differs', async () => {
+      const req = {
+        command: 'ls',
+        args: [],
+        cwd: workspace,
+        env: {},
+      };
+
+      await manager.prepareCommand(req);
+      await manager.prepareCommand({
+        ...req,
+        policy: { networkAccess: true },
+      });
+
+      const calls = runCalls();
+      expect(calls).toHaveLength(2);
+      expect(calls[0][1]).toContain('none');
+      expect(calls[1][1]).not.toContain('--network');
+    });
+
+    it('retries starting the container after a failure', async () => {
+      vi.mocked(spawnAsync).mockRejectedValueOnce(new Error('no such image'));
+      const req = {
+        command: 'ls',
+        args: [],
+        cwd: workspace,
+        env: {},
+      };
+
+      await expect(manager.prepareCommand(req)).rejects.toThrow(
+        'Failed to start the podman sandbox container: no such image',
+      );
+      await expect(manager.prepareCommand(req)).resolves.toBeDefined();
+      expect(runCalls()).toHaveLength(2);
+    });
+
+    it('throws when no image is configured', async () => {
+      const noImage = new ContainerSandboxManager(
+        { workspace },
+        { runtime: 'docker' },
+      );
+
+      await expect(
+        noImage.prepareCommand({
+          command: 'ls',
+          args: [],
+          cwd: workspace,
+          env: {},
+        }),
+      ).rejects.toThrow(/security\.toolSandboxImage/);
+      expect(spawnAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parseDenials', () => {
+    it('reports file system denials in the shared shape', () => {
+      const result = manager.parseDenials({
+        output: `touch: cannot touch '${workspace}/out.txt': Read-only file system`,
+        exitCode: 1,
+      } as ShellExecutionResult);
+
+      expect(result?.filePaths).toContain(`${workspace}/out.txt`);
+    });
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import { createHash } from 'node:crypto';
+import { spawnSync } from 'node:child_process';
+import { join, dirname } from 'node:path';
+import {
+  type SandboxManager,
+  type GlobalSandboxOptions,
+  type SandboxRequest,
+  type SandboxedCommand,
+  type SandboxPermissions,
+  GOVERNANCE_FILES,
+  type ParsedSandboxDenial,
+  resolveSandboxPaths,
+} from '../../services/sandboxManager.js';
+import type { ShellExecutionResult } from '../../services/shellExecutionService.js';
+import {
+  sanitizeEnvironment,
+  getSecureSanitizationConfig,
+} from '../../services/environmentSanitization.js';
+import {
+  isStrictlyApproved,
+  verifySandboxOverrides,
+} from '../utils/commandUtils.js';
+import {
+  isKnownSafeCommand,
+  isDangerousCommand,
+} from '../utils/commandSafety.js';
+import {
+  parsePosixSandboxDenials,
+  createSandboxDenialCache,
+  type SandboxDenialCache,
+} from '../utils/sandboxDenialUtils.js';
+import { isErrnoException } from '../utils/fsUtils.js';
+import { handleReadWriteCommands } from '../utils/sandboxReadWriteUtils.js';
+import {
+  buildContainerExecArgs,
+  buildContainerRunArgs,
+  type ContainerRuntime,
+} from './containerArgsBuilder.js';
+import {
+  getCommandRoots,
+  initializeShellParsers,
+  spawnAsync,
+  stripShellWrapper,
+} from '../../utils/shell-utils.js';
+import { assertValidPathString } from '../../utils/paths.js';
+import { getErrorMessage } from '../../utils/errors.js';
+import { debugLogger } from '../../utils/debugLogger.js';
+
+/**
+ * Options for running sandboxed commands in containers.
+ */
+export interface ContainerSandboxOptions {
+  runtime: ContainerRuntime;
+  /** The image to run commands in. It must provide `sh` and `sleep`. */
+  image?: string;
+}
+
+/**
+ * Host environment the container runtime itself needs to reach its daemon or
+ * user session. These are not forwarded into the container.
+ */
+const RUNTIME_ENV = [
+  'PATH',
+  'HOME',
+  'XDG_RUNTIME_DIR',
+  'DOCKER_HOST',
+  'DOCKER_CONFIG',
+  'DOCKER_CONTEXT',
+  'CONTAINER_HOST',
+  'CONTAINERS_CONF',
+];
+
+/**
+ * Running containers, shared by all managers of this process and keyed by
+ * runtime and run arguments, so that commands with the same mounts and
+ * network access reuse the same container.
+ */
+const runningContainers = new Map<string, Promise<string>>();
+let exitCleanupRegistered = false;
+
+/**
+ * Removes the containers started by this process when it exits. This has to
+ * be synchronous, so the runtime is invoked with `spawnSync`.
+ */
+function registerExitCleanup(): void {
+  if (exitCleanupRegistered) return;
+  exitCleanupRegistered = true;
+
+  process.on('exit', () => {
+    const namesByRuntime = new Map<string, string[]>();
+    for (const key of runningContainers.keys()) {
+      const [runtime, name] = key.split('\0');
+      namesByRuntime.set(runtime, [
+        ...(namesByRuntime.get(runtime) ?? []),
+        name,
+      ]);
+    }
+    for (const [runtime, names] of namesByRuntime) {
+      try {
+        spawnSync(runtime, ['rm', '--force', ...names], {
+          stdio: 'ignore',
+          timeout: 10_000,
+        });
+      } catch {
+        // Ignore errors
+      }
+    }
+  });
+}
+
+/**
+ * Ensures a file or directory exists.
+ */
+function touch(filePath: string, isDirectory: boolean) {
+  assertValidPathString(filePath);
+  try {
+    // If it exists (even as a broken symlink), do nothing
+    fs.lstatSync(filePath);
+    return;
+  } catch (e: unknown) {
+    if (isErrnoException(e) && e.code !== 'ENOENT') {
+      throw e;
+    }
+  }
+
+  if (isDirectory) {
+    fs.mkdirSync(filePath, { recursive: true });
+  } else {
+    fs.mkdirSync(dirname(filePath), { recursive: true });
+    fs.closeSync(fs.openSync(filePath, 'a'));
+  }
+}
+
+/**
+ * A SandboxManager implementation that runs each command inside a
+ * long-lived rootless Podman or Docker container. Useful where bubblewrap
+ * cannot create user namespaces, such as on many CI runners.
+ */
+export class ContainerSandboxManager implements SandboxManager {
+  private static maskFilePath: string | undefined;
+  private readonly denialCache: SandboxDenialCache = createSandboxDenialCache();
+  private governanceFilesInitialized = false;
+
+  constructor(
+    private readonly options: GlobalSandboxOptions,
+    private readonly container: ContainerSandboxOptions,
+  ) {}
+
+  private ensureGovernanceFilesExist(workspace: string): void {
+    if (this.governanceFilesInitialized) return;
+
+    // Bind mounts need these to exist on the host.
+    for (const file of GOVERNANCE_FILES) {
+      touch(join(workspace, file.path), file.isDirectory);
+    }
+
+    this.governanceFilesInitialized = true;
+  }
+
+  isKnownSafeCommand(args: string[]): boolean {
+    return isKnownSafeCommand(args);
+  }
+
+  isDangerousCommand(args: string[]): boolean {
+    return isDangerousCommand(args);
+  }
+
+  parseDenials(result: ShellExecutionResult): ParsedSandboxDenial | undefined {
+    return parsePosixSandboxDenials(result, this.denialCache);
+  }
+
+  getWorkspace(): string {
+    return this.options.workspace;
+  }
+
+  getOptions(): GlobalSandboxOptions {
+    return this.options;
+  }
+
+  private getMaskFilePath(): string {
+    if (
+      ContainerSandboxManager.maskFilePath &&
+      fs.existsSync(ContainerSandboxManager.maskFilePath)
+    ) {
+      return ContainerSandboxManager.maskFilePath;
+    }
+    const tempDir = fs.mkdtempSync(join(os.tmpdir(), 'gemini-cli-mask-file-'));
+    const maskPath = join(tempDir, 'mask');
+    fs.writeFileSync(maskPath, '');
+    fs.chmodSync(maskPath, 0);
+    ContainerSandboxManager.maskFilePath = maskPath;
+
+    // Cleanup on exit
+    process.on('exit', () => {
+      try {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      } catch {
+        // Ignore errors
+      }
+    });
+
+    return maskPath;
+  }
+
+  /**
+   * Returns the name of a running container started with the given
+   * arguments, starting one if needed.
+   */
+  private getContainer(runArgs: string[]): Promise<string> {
+    const { runtime } = this.container;
+    const hash = createHash('sha256')
+      .update(runArgs.join('\0'))
+      .digest('hex')
+      .slice(0, 12);
+    const name = `gemini-cli-sandbox-${process.pid}-${hash}`;
+    const key = `${runtime}\0${name}`;
+
+    let container = runningContainers.get(key);
+    if (!container) {
+      const [subcommand, ...rest] = runArgs;
+      container = spawnAsync(runtime, [subcommand, '--name', name, ...rest])
+        .then(() => {
+          debugLogger.debug(`Started ${runtime} sandbox container ${name}`);
+          return name;
+        })
+        .catch((e: unknown) => {
+          runningContainers.delete(key);
+          throw new Error(
+            `Failed to start the ${runtime} sandbox container: ${getErrorMessage(e)}`,
+          );
+        });
+      runningContainers.set(key, container);
+      registerExitCleanup();
+    }
+    return container;
+  }
+
+  async prepareCommand(req: SandboxRequest): Promise<SandboxedCommand> {
+    const { runtime, image } = this.container;
+    if (!image) {
+      throw new Error(
+        `No container image is configured for the ${runtime} tool sandbox. Set security.toolSandboxImage in settings.`,
+      );
+    }
+
+    const isReadonlyMode = this.options.modeConfig?.readonly ?? true;
+    const allowOverrides = this.options.modeConfig?.allowOverrides ?? true;
+
+    verifySandboxOverrides(allowOverrides, req.policy);
+
+    let command = req.command;
+    let args = req.args;
+
+    // Translate virtual commands for sandboxed file system access
+    if (command === '__read') {
+      command = 'cat';
+    } else if (command === '__write') {
+      command = 'sh';
+      args = ['-c', 'cat > "$1"', '_', ...args];
+    }
+
+    await initializeShellParsers();
+    const fullCmd = [command, ...args].join(' ');
+    const stripped = stripShellWrapper(fullCmd);
+    const roots = getCommandRoots(stripped).filter(
+      (r) => r !== 'shopt' && r !== 'set',
+    );
+    const commandName = roots.length > 0 ? roots[0] : join(command);
+    const isGitCommand = roots.includes('git');
+
+    const isApproved = allowOverrides
+      ? await isStrictlyApproved(
+          { ...req, command, args },
+          this.options.modeConfig?.approvedTools,
+        )
+      : false;
+    const isYolo = this.options.modeConfig?.yolo ?? false;
+    const workspaceWrite = !isReadonlyMode || isApproved || isYolo;
+
+    const networkAccess =
+      this.options.modeConfig?.network || req.policy?.networkAccess || isYolo;
+
+    const persistentPermissions = allowOverrides
+      ? this.options.policyManager?.getCommandPermissions(commandName)
+      : undefined;
+
+    const mergedAdditional: SandboxPermissions = {
+      fileSystem: {
+        read: [
+          ...(persistentPermissions?.fileSystem?.read ?? []),
+          ...(req.policy?.additionalPermissions?.fileSystem?.read ?? []),
+        ],
+        write: [
+          ...(persistentPermissions?.fileSystem?.write ?? []),
+          ...(req.policy?.additionalPermissions?.fileSystem?.write ?? []),
+        ],
+      },
+      network:
+        networkAccess ||
+        persistentPermissions?.network ||
+        req.policy?.additionalPermissions?.network ||
+        false,
+    };
+
+    // If the workspace is writable and we're running a git command,
+    // automatically allow write access to the .git directory.
+    if (workspaceWrite && isGitCommand) {
+      const gitDir = join(this.options.workspace, '.git');
+      if (!mergedAdditional.fileSystem!.write!.includes(gitDir)) {
+        mergedAdditional.fileSystem!.write!.push(gitDir);
+      }
+    }
+
+    const { command: finalCommand, args: finalArgs } = handleReadWriteCommands(
+      req,
+      mergedAdditional,
+      this.options.workspace,
+      [
+        ...(req.policy?.allowedPaths || []),
+        ...(this.options.includeDirectories || []),
+      ],
+    );
+
+    const sanitizationConfig = getSecureSanitizationConfig(
+      req.policy?.sanitizationConfig,
+    );
+
+    const sanitizedEnv = sanitizeEnvironment(req.env, sanitizationConfig);
+
+    const resolvedPaths = await resolveSandboxPaths(
+      this.options,
+      req,
+      mergedAdditional,
+    );
+
+    this.ensureGovernanceFilesExist(resolvedPaths.workspace.resolved);
+
+    const runArgs = await buildContainerRunArgs({
+      runtime,
+      image,
+      resolvedPaths,
+      workspaceWrite,
+      networkAccess: mergedAdditional.network ?? false,
+      maskFilePath: this.getMaskFilePath(),
+      isReadOnlyCommand: req.command === '__read',
+    });
+    const containerName = await this.getContainer(runArgs);
+
+    const runtimeEnv: NodeJS.ProcessEnv = {};
+    for (const key of RUNTIME_ENV) {
+      if (process.env[key] !== undefined) {
+        runtimeEnv[key] = process.env[key];
+      }
+    }
+
+    return {
+      program: runtime,
+      args: buildContainerExecArgs(
+        containerName,
+        req.cwd,
+        sanitizedEnv,
+        finalCommand,
+        finalArgs,
+      ),
+      env: { ...sanitizedEnv, ...runtimeEnv },
+      cwd: req.cwd,
+    };
+  }
+}
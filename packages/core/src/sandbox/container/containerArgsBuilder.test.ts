@@ -0,0 +1,324 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import {
+  buildContainerExecArgs,
+  buildContainerMounts,
+  buildContainerRunArgs,
+  formatMount,
+  CONTAINER_LABEL,
+  type ContainerRunArgsOptions,
+} from './containerArgsBuilder.js';
+import {
+  findSecretFiles,
+  type ResolvedSandboxPaths,
+} from '../../services/sandboxManager.js';
+
+vi.mock('node:fs', async () => {
+  const actual = await vi.importActual<typeof import('node:fs')>('node:fs');
+  return {
+    ...actual,
+    default: {
+      // @ts-expect-error - Property 'default' does not exist on type 'typeof import("node:fs")'
+      ...actual.default,
+      existsSync: vi.fn(() => true),
+      statSync: vi.fn(() => ({ isDirectory: () => true }) as fs.Stats),
+    },
+    existsSync: vi.fn(() => true),
+    statSync: vi.fn(() => ({ isDirectory: () => true }) as fs.Stats),
+  };
+});
+
+vi.mock('../../services/sandboxManager.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../../services/sandboxManager.js')>();
+  return {
+    ...actual,
+    findSecretFiles: vi.fn(() => Promise.resolve([])),
+  };
+});
+
+describe.skipIf(os.platform() === 'win32')('containerArgsBuilder', () => {
+  const workspace = '/home/user/workspace';
+
+  const createResolvedPaths = (
+    overrides: Partial<ResolvedSandboxPaths> = {},
+  ): ResolvedSandboxPaths => ({
+    workspace: {
+      original: workspace,
+      resolved: workspace,
+    },
+    forbidden: [],
+    globalIncludes: [],
+    policyAllowed: [],
+    policyRead: [],
+    policyWrite: [],
+    ...overrides,
+  });
+
+  const createOptions = (
+    overrides: Partial<ContainerRunArgsOptions> = {},
+  ): ContainerRunArgsOptions => ({
+    runtime: 'podman',
+    image: 'sandbox:latest',
+    resolvedPaths: createResolvedPaths(),
+    workspaceWrite: false,
+    networkAccess: false,
+    maskFilePath: '/tmp/mask',
+    isReadOnlyCommand: false,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.statSync).mockReturnValue({
+      isDirectory: () => true,
+    } as fs.Stats);
+    vi.mocked(findSecretFiles).mockResolvedValue([]);
+  });
+
+  describe('buildContainerMounts', () => {
+    it('mounts the workspace read-only by default', async () => {
+      const mounts = await buildContainerMounts(createOptions());
+
+      expect(mounts[0]).toEqual({
+        type: 'bind',
+        source: workspace,
+        target: workspace,
+        readonly: true,
+      });
+    });
+
+    it('mounts the workspace writable when workspaceWrite is set', async () => {
+      const mounts = await buildContainerMounts(
+        createOptions({ workspaceWrite: true }),
+      );
+
+      expect(mounts[0]).toEqual({
+        type: 'bind',
+        source: workspace,
+        target: workspace,
+        readonly: false,
+      });
+    });
+
+    it('protects governance files unless they are writable', async () => {
+      const readOnly = await buildContainerMounts(createOptions());
+      expect(readOnly).toContainEqual({
+        type: 'bind',
+        source: `${workspace}/.gitignore`,
+        target: `${workspace}/.gitignore`,
+        readonly: true,
+      });
+      expect(readOnly).toContainEqual({
+        type: 'bind',
+        source: `${workspace}/.git`,
+        target: `${workspace}/.git`,
+        readonly: true,
+      });
+
+      const writable = await buildContainerMounts(
+        createOptions({ workspaceWrite: true }),
+      );
+      const targets = writable.map((m) => m.target);
+      expect(targets).not.toContain(`${workspace}/.gitignore`);
+      expect(targets).toContain(`${workspace}/.git`);
+    });
+
+    it('keeps .git writable when it is explicitly requested', async () => {
+      const mounts = await buildContainerMounts(
+        createOptions({
+          workspaceWrite: true,
+          resolvedPaths: createResolvedPaths({
+            policyWrite: [`${workspace}/.git`],
+          }),
+        }),
+      );
+
+      expect(mounts).toContainEqual({
+        type: 'bind',
+        source: `${workspace}/.git`,
+        target: `${workspace}/.git`,
+        readonly: false,
+      });
+      expect(mounts).not.toContainEqual(
+        expect.objectContaining({
+          target: `${workspace}/.git`,
+          readonly: true,
+        }),
+      );
+    });
+
+    it('mounts read and write policy paths with matching access', async () => {
+      const mounts = await buildContainerMounts(
+        createOptions({
+          resolvedPaths: createResolvedPaths({
+            policyRead: ['/opt/data'],
+            policyWrite: ['/opt/out'],
+          }),
+        }),
+      );
+
+      expect(mounts).toContainEqual({
+        type: 'bind',
+        source: '/opt/data',
+        target: '/opt/data',
+        readonly: true,
+      });
+      expect(mounts).toContainEqual({
+        type: 'bind',
+        source: '/opt/out',
+        target: '/opt/out',
+        readonly: false,
+      });
+    });
+
+    it('masks forbidden directories with tmpfs and files with the null device', async () => {
+      vi.mocked(fs.statSync).mockImplementation(
+        (p) =>
+          ({
+            isDirectory: () => p.toString() === '/tmp/cache',
+          }) as fs.Stats,
+      );
+
+      const mounts = await buildContainerMounts(
+        createOptions({
+          resolvedPaths: createResolvedPaths({
+            forbidden: ['/tmp/cache', '/opt/secret.txt'],
+          }),
+        }),
+      );
+
+      expect(mounts).toContainEqual({ type: 'tmpfs', target: '/tmp/cache' });
+      expect(mounts).toContainEqual({
+        type: 'bind',
+        source: os.devNull,
+        target: '/opt/secret.txt',
+        readonly: true,
+      });
+    });
+
+    it('masks secret files with the mask file', async () => {
+      vi.mocked(findSecretFiles).mockResolvedValue([`${workspace}/.env`]);
+
+      const mounts = await buildContainerMounts(createOptions());
+
+      expect(findSecretFiles).toHaveBeenCalledWith(workspace, 3);
+      expect(mounts).toContainEqual({
+        type: 'bind',
+        source: '/tmp/mask',
+        target: `${workspace}/.env`,
+        readonly: true,
+      });
+    });
+
+    it('orders parent mounts before their children', async () => {
+      vi.mocked(findSecretFiles).mockResolvedValue([`${workspace}/.env`]);
+
+      const mounts = await buildContainerMounts(createOptions());
+      const targets = mounts.map((m) => m.target);
+
+      expect(targets.indexOf(workspace)).toBeLessThan(
+        targets.indexOf(`${workspace}/.env`),
+      );
+    });
+  });
+
+  describe('formatMount', () => {
+    it('formats bind and tmpfs mounts', () => {
+      expect(
+        formatMount({
+          type: 'bind',
+          source: '/a',
+          target: '/b',
+          readonly: true,
+        }),
+      ).toBe('type=bind,source=/a,destination=/b,readonly');
+      expect(formatMount({ type: 'tmpfs', target: '/c' })).toBe(
+        'type=tmpfs,destination=/c,tmpfs-mode=0',
+      );
+    });
+
+    it('quotes paths with commas or spaces', () => {
+      expect(
+        formatMount({
+          type: 'bind',
+          source: '/my dir',
+          target: '/a,b',
+          readonly: false,
+        }),
+      ).toBe('type=bind,"source=/my dir","destination=/a,b"');
+    });
+  });
+
+  describe('buildContainerRunArgs', () => {
+    it('starts a detached, unprivileged container without network', async () => {
+      const args = await buildContainerRunArgs(createOptions());
+
+      expect(args.slice(0, 4)).toEqual(['run', '--detach', '--rm', '--init']);
+      expect(args).toContain(CONTAINER_LABEL);
+      expect(args.join(' ')).toContain('--cap-drop ALL');
+      expect(args.join(' ')).toContain('--security-opt no-new-privileges');
+      expect(args.join(' ')).toContain('--network none');
+      expect(args.join(' ')).toContain('--userns keep-id');
+      expect(args.slice(-5)).toEqual([
+        '--workdir',
+        workspace,
+        'sandbox:latest',
+        'sleep',
+        'infinity',
+      ]);
+    });
+
+    it('keeps the network when network access is granted', async () => {
+      const args = await buildContainerRunArgs(
+        createOptions({ networkAccess: true }),
+      );
+
+      expect(args).not.toContain('--network');
+    });
+
+    it('runs as the host user with docker', async () => {
+      const args = await buildContainerRunArgs(
+        createOptions({ runtime: 'docker' }),
+      );
+
+      expect(args).not.toContain('--userns');
+      const userIndex = args.indexOf('--user');
+      expect(args[userIndex + 1]).toBe(
+        `${process.getuid!()}:${process.getgid!()}`,
+      );
+    });
+  });
+
+  describe('buildContainerExecArgs', () => {
+    it('forwards environment variables by name only', () => {
+      const args = buildContainerExecArgs(
+        'sandbox-1',
+        `${workspace}/src`,
+        { FOO: 'secret-value', PATH: '/usr/bin', HOME: '/home/user' },
+        'ls',
+        ['-la'],
+      );
+
+      expect(args).toEqual([
+        'exec',
+        '--interactive',
+        '--workdir',
+        `${workspace}/src`,
+        '--env',
+        'FOO',
+        'sandbox-1',
+        'ls',
+        '-la',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import { join, dirname } from 'node:path';
+import {
+  GOVERNANCE_FILES,
+  findSecretFiles,
+  type ResolvedSandboxPaths,
+} from '../../services/sandboxManager.js';
+import { isErrnoException } from '../utils/fsUtils.js';
+import { debugLogger } from '../../utils/debugLogger.js';
+import { toPathKey } from '../../utils/paths.js';
+
+/**
+ * Container runtimes that can run sandboxed tools.
+ */
+export type ContainerRuntime = 'podman' | 'docker';
+
+/**
+ * A single mount of the sandbox container.
+ */
+export type ContainerMount =
+  | { type: 'bind'; source: string; target: string; readonly: boolean }
+  | { type: 'tmpfs'; target: string };
+
+/**
+ * Options for building the arguments that start a sandbox container.
+ */
+export interface ContainerRunArgsOptions {
+  runtime: ContainerRuntime;
+  image: string;
+  resolvedPaths: ResolvedSandboxPaths;
+  workspaceWrite: boolean;
+  networkAccess: boolean;
+  maskFilePath: string;
+  isReadOnlyCommand: boolean;
+}
+
+/** Label that marks containers started by Gemini CLI. */
+export const CONTAINER_LABEL = 'dev.gemini-cli.sandbox';
+
+/** How deep secret files are searched for below each mounted directory. */
+const SECRET_SCAN_DEPTH = 3;
+
+/**
+ * Collects the mounts of the sandbox container. Mirrors the bubblewrap
+ * layout: the workspace and allowed paths are bound at their host paths,
+ * governance files are write-protected, and forbidden paths and secret files
+ * are masked.
+ */
+export async function buildContainerMounts(
+  options: Pick<
+    ContainerRunArgsOptions,
+    'resolvedPaths' | 'workspaceWrite' | 'maskFilePath' | 'isReadOnlyCommand'
+  >,
+): Promise<ContainerMount[]> {
+  const { resolvedPaths, workspaceWrite, maskFilePath, isReadOnlyCommand } =
+    options;
+  const { workspace } = resolvedPaths;
+  const mounts: ContainerMount[] = [];
+  const bind = (source: string, target: string, readonly: boolean) =>
+    mounts.push({ type: 'bind', source, target, readonly });
+
+  bind(workspace.original, workspace.original, !workspaceWrite);
+  if (workspace.resolved !== workspace.original) {
+    bind(workspace.resolved, workspace.resolved, !workspaceWrite);
+  }
+
+  for (const includeDir of resolvedPaths.globalIncludes) {
+    if (fs.existsSync(includeDir)) {
+      bind(includeDir, includeDir, true);
+    }
+  }
+
+  for (const allowedPath of resolvedPaths.policyAllowed) {
+    if (fs.existsSync(allowedPath)) {
+      bind(allowedPath, allowedPath, false);
+    } else {
+      const parent = dirname(allowedPath);
+      if (fs.existsSync(parent)) {
+        bind(parent, parent, isReadOnlyCommand);
+      }
+    }
+  }
+
+  for (const p of resolvedPaths.policyRead) {
+    if (fs.existsSync(p)) {
+      bind(p, p, true);
+    }
+  }
+
+  for (const p of resolvedPaths.policyWrite) {
+    if (fs.existsSync(p)) {
+      bind(p, p, false);
+    }
+  }
+
+  const policyWriteKeys = new Set(resolvedPaths.policyWrite.map(toPathKey));
+
+  for (const file of GOVERNANCE_FILES) {
+    const filePath = join(workspace.original, file.path);
+    const realPath = join(workspace.resolved, file.path);
+
+    const isExplicitlyWritable =
+      policyWriteKeys.has(toPathKey(filePath)) ||
+      policyWriteKeys.has(toPathKey(realPath));
+
+    // Same rules as the other sandboxes: .gitignore and .geminiignore follow
+    // the workspace, .git stays protected unless explicitly requested.
+    const isImplicitlyWritable = workspaceWrite && file.path !== '.git';
+
+    if (!isExplicitlyWritable && !isImplicitlyWritable) {
+      bind(filePath, filePath, true);
+      if (realPath !== filePath) {
+        bind(realPath, realPath, true);
+      }
+    }
+  }
+
+  if (resolvedPaths.gitWorktree) {
+    const { worktreeGitDir, mainGitDir } = resolvedPaths.gitWorktree;
+    for (const gitDir of [worktreeGitDir, mainGitDir]) {
+      if (
+        gitDir &&
+        !policyWriteKeys.has(toPathKey(gitDir)) &&
+        fs.existsSync(gitDir)
+      ) {
+        bind(gitDir, gitDir, true);
+      }
+    }
+  }
+
+  for (const p of resolvedPaths.forbidden) {
+    try {
+      if (fs.statSync(p).isDirectory()) {
+        mounts.push({ type: 'tmpfs', target: p });
+      } else {
+        bind(os.devNull, p, true);
+      }
+    } catch (e: unknown) {
+      if (!isErrnoException(e) || e.code !== 'ENOENT') {
+        debugLogger.warn(
+          `Failed to secure forbidden path ${p}: ${e instanceof Error ? e.message : String(e)}`,
+        );
+        bind(os.devNull, p, true);
+      }
+    }
+  }
+
+  // Mask secret files (.env, .env.*)
+  const searchDirs = new Set([
+    workspace.original,
+    workspace.resolved,
+    ...resolvedPaths.policyAllowed,
+    ...resolvedPaths.globalIncludes,
+  ]);
+  for (const dir of searchDirs) {
+    for (const secretFile of await findSecretFiles(dir, SECRET_SCAN_DEPTH)) {
+      bind(maskFilePath, secretFile, true);
+    }
+  }
+
+  // Parents must be mounted before children so they don't hide them.
+  mounts.sort((a, b) => a.target.length - b.target.length);
+  return mounts;
+}
+
+/**
+ * Quotes a `--mount` field if it contains characters that are special in
+ * the runtime's CSV syntax.
+ */
+function mountField(key: string, value: string): string {
+  const field = `${key}=${value}`;
+  return /[",\s]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Formats a mount as a `--mount` argument.
+ */
+export function formatMount(mount: ContainerMount): string {
+  if (mount.type === 'tmpfs') {
+    return [
+      'type=tmpfs',
+      mountField('destination', mount.target),
+      'tmpfs-mode=0',
+    ].join(',');
+  }
+  return [
+    'type=bind',
+    mountField('source', mount.source),
+    mountField('destination', mount.target),
+    ...(mount.readonly ? ['readonly'] : []),
+  ].join(',');
+}
+
+/**
+ * Builds the arguments of the `run` command that starts a long-lived
+ * sandbox container. The container only sleeps; commands are run in it with
+ * `exec`. The container name is left out so that identical configurations
+ * produce identical arguments and can share a container.
+ */
+export async function buildContainerRunArgs(
+  options: ContainerRunArgsOptions,
+): Promise<string[]> {
+  const { runtime, image, resolvedPaths, networkAccess } = options;
+
+  const args = [
+    'run',
+    '--detach',
+    '--rm',
+    '--init',
+    '--label',
+    CONTAINER_LABEL,
+    '--cap-drop',
+    'ALL',
+    '--security-opt',
+    'no-new-privileges',
+  ];
+
+  if (!networkAccess) {
+    args.push('--network', 'none');
+  }
+
+  // Keep file ownership in bind mounts consistent with the host user.
+  if (runtime === 'podman') {
+    args.push('--userns', 'keep-id');
+  } else if (typeof process.getuid === 'function') {
+    args.push('--user', `${process.getuid()}:${process.getgid?.() ?? 0}`);
+  }
+
+  for (const mount of await buildContainerMounts(options)) {
+    args.push('--mount', formatMount(mount));
+  }
+
+  args.push(
+    '--workdir',
+    resolvedPaths.workspace.original,
+    image,
+    'sleep',
+    'infinity',
+  );
+  return args;
+}
+
+/**
+ * Environment variables that describe the host rather than the command and
+ * must not override the container's own values.
+ */
+const HOST_ONLY_ENV = new Set(['PATH', 'HOME', 'HOSTNAME', 'TMPDIR']);
+
+/**
+ * Builds the arguments of the `exec` command that runs a command inside a
+ * running sandbox container. Environment variables are passed by name, so
+ * their values are read from the environment of the runtime process instead
+ * of showing up in the process list.
+ */
+export function buildContainerExecArgs(
+  containerName: string,
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+  command: string,
+  args: string[],
+): string[] {
+  const execArgs = ['exec', '--interactive', '--workdir', cwd];
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined && !HOST_ONLY_ENV.has(key)) {
+      execArgs.push('--env', key);
+    }
+  }
+  execArgs.push(containerName, command, ...args);
+  return execArgs;
+}
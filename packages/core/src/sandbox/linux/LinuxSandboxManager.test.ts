@@ -6,6 +6,8 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { LinuxSandboxManager } from './LinuxSandboxManager.js';
+import { EgressProxy } from '../utils/egressProxy.js';
+import type { ShellExecutionResult } from '../../services/shellExecutionService.js';
 import fs from 'node:fs';
 import path from 'node:path';
 
@@ -57,6 +59,30 @@ vi.mock('../../utils/shell-utils.js', async (importOriginal) => {
   };
 });
 
+const mockEgressProxy = vi.hoisted(() => ({
+  hostDir: '/tmp/gemini-cli-egress-mocked',
+  wrapCommand: vi.fn((command: string, args: string[]) => ({
+    command: '/usr/bin/node',
+    args: ['bridge.cjs', 'proxy.sock', '3128', command, ...args],
+  })),
+  close: vi.fn(),
+  onDenied: undefined as ((host: string) => void) | undefined,
+}));
+
+vi.mock('../utils/egressProxy.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../utils/egressProxy.js')>();
+  return {
+    ...actual,
+    EgressProxy: {
+      start: vi.fn((_policy, onDenied: (host: string) => void) => {
+        mockEgressProxy.onDenied = onDenied;
+        return Promise.resolve(mockEgressProxy);
+      }),
+    },
+  };
+});
+
 describe('LinuxSandboxManager', () => {
   const workspace = '/home/user/workspace';
   let manager: LinuxSandboxManager;
@@ -165,5 +191,77 @@ describe('LinuxSandboxManager', () => {
         }),
       ).rejects.toThrow(/Cannot override/);
     });
+
+    it('routes commands with allowed domains through the egress proxy', async () => {
+      const customManager = new LinuxSandboxManager({
+        workspace,
+        allowedDomains: ['registry.npmjs.org'],
+      });
+
+      const result = await customManager.prepareCommand({
+        command: 'npm',
+        args: ['install'],
+        cwd: workspace,
+        env: {},
+      });
+
+      expect(EgressProxy.start).toHaveBeenCalledWith(
+        {
+          allowAll: false,
+          allowedDomains: ['registry.npmjs.org'],
+          deniedDomains: [],
+        },
+        expect.any(Function),
+      );
+      expect(result.args.slice(-5)).toEqual([
+        'bridge.cjs',
+        'proxy.sock',
+        '3128',
+        'npm',
+        'install',
+      ]);
+      expect(result.env['HTTPS_PROXY']).toBe('http://127.0.0.1:3128');
+
+      result.cleanup!();
+      expect(mockEgressProxy.close).toHaveBeenCalled();
+    });
+
+    it('does not start the egress proxy without domain rules', async () => {
+      const result = await manager.prepareCommand({
+        command: 'curl',
+        args: ['https://example.com'],
+        cwd: workspace,
+        env: {},
+        policy: { networkAccess: true },
+      });
+
+      expect(EgressProxy.start).not.toHaveBeenCalled();
+      expect(result.env['HTTPS_PROXY']).toBeUndefined();
+    });
+  });
+
+  describe('parseDenials', () => {
+    it('reports domains blocked by the egress proxy once', async () => {
+      const customManager = new LinuxSandboxManager({
+        workspace,
+        deniedDomains: ['example.com'],
+      });
+      await customManager.prepareCommand({
+        command: 'curl',
+        args: ['https://example.com'],
+        cwd: workspace,
+        env: {},
+        policy: { networkAccess: true },
+      });
+      mockEgressProxy.onDenied!('example.com');
+
+      const result = {
+        output: 'curl: (56) CONNECT tunnel failed, response 403',
+      } as ShellExecutionResult;
+      expect(customManager.parseDenials(result)?.domains).toEqual([
+        'example.com',
+      ]);
+      expect(customManager.parseDenials(result)).toBeUndefined();
+    });
   });
 });
@@ -38,6 +38,11 @@ import {
 } from '../utils/sandboxDenialUtils.js';
 import { isErrnoException } from '../utils/fsUtils.js';
 import { handleReadWriteCommands } from '../utils/sandboxReadWriteUtils.js';
+import {
+  EgressProxy,
+  getEgressProxyEnv,
+  requiresEgressProxy,
+} from '../utils/egressProxy.js';
 import { buildBwrapArgs } from './bwrapArgsBuilder.js';
 import {
   getCommandRoots,
@@ -144,6 +149,7 @@ function touch(filePath: string, isDirectory: boolean) {
 export class LinuxSandboxManager implements SandboxManager {
   private static maskFilePath: string | undefined;
   private readonly denialCache: SandboxDenialCache = createSandboxDenialCache();
+  private readonly egressDenials = new Set<string>();
   private governanceFilesInitialized = false;
 
   constructor(private readonly options: GlobalSandboxOptions) {}
@@ -169,7 +175,9 @@ export class LinuxSandboxManager implements SandboxManager {
   }
 
   parseDenials(result: ShellExecutionResult): ParsedSandboxDenial | undefined {
-    return parsePosixSandboxDenials(result, this.denialCache);
+    const egressDenials = Array.from(this.egressDenials);
+    this.egressDenials.clear();
+    return parsePosixSandboxDenials(result, this.denialCache, egressDenials);
   }
 
   getWorkspace(): string {
@@ -263,6 +271,16 @@ export class LinuxSandboxManager implements SandboxManager {
         persistentPermissions?.network ||
         req.policy?.additionalPermissions?.network ||
         false,
+      allowedDomains: [
+        ...(this.options.allowedDomains ?? []),
+        ...(persistentPermissions?.allowedDomains ?? []),
+        ...(req.policy?.additionalPermissions?.allowedDomains ?? []),
+      ],
+      deniedDomains: [
+        ...(this.options.deniedDomains ?? []),
+        ...(persistentPermissions?.deniedDomains ?? []),
+        ...(req.policy?.additionalPermissions?.deniedDomains ?? []),
+      ],
     };
 
     // If the workspace is writable and we're running a git command,
@@ -274,15 +292,11 @@ export class LinuxSandboxManager implements SandboxManager {
       }
     }
 
-    const { command: finalCommand, args: finalArgs } = handleReadWriteCommands(
-      req,
-      mergedAdditional,
-      this.options.workspace,
-      [
+    const { command: sandboxedCommand, args: sandboxedArgs } =
+      handleReadWriteCommands(req, mergedAdditional, this.options.workspace, [
         ...(req.policy?.allowedPaths || []),
         ...(this.options.includeDirectories || []),
-      ],
-    );
+      ]);
 
     const sanitizationConfig = getSecureSanitizationConfig(
       req.policy?.sanitizationConfig,
@@ -298,12 +312,29 @@ export class LinuxSandboxManager implements SandboxManager {
 
     this.ensureGovernanceFilesExist(resolvedPaths.workspace.resolved);
 
+    // Commands that may only reach some domains get no network of their own;
+    // they reach the internet through a filtering proxy instead.
+    const egressPolicy = {
+      allowAll: mergedAdditional.network ?? false,
+      allowedDomains: mergedAdditional.allowedDomains ?? [],
+      deniedDomains: mergedAdditional.deniedDomains ?? [],
+    };
+    const egressProxy = requiresEgressProxy(egressPolicy)
+      ? await EgressProxy.start(egressPolicy, (host) =>
+          this.egressDenials.add(host),
+        )
+      : undefined;
+    const { command: finalCommand, args: finalArgs } = egressProxy
+      ? egressProxy.wrapCommand(sandboxedCommand, sandboxedArgs)
+      : { command: sandboxedCommand, args: sandboxedArgs };
+
     const bwrapArgs = await buildBwrapArgs({
       resolvedPaths,
       workspaceWrite,
-      networkAccess: mergedAdditional.network ?? false,
+      networkAccess: !egressProxy && (mergedAdditional.network ?? false),
       maskFilePath: this.getMaskFilePath(),
       isReadOnlyCommand: req.command === '__read',
+      egressProxyDir: egressProxy?.hostDir,
     });
 
     const bpfPath = getSeccompBpfPath();
@@ -325,9 +356,12 @@ export class LinuxSandboxManager implements SandboxManager {
     return {
       program: 'sh',
       args: shArgs,
-      env: sanitizedEnv,
+      env: egressProxy
+        ? { ...sanitizedEnv, ...getEgressProxyEnv() }
+        : sanitizedEnv,
       cwd: req.cwd,
       cleanup: () => {
+        egressProxy?.close();
         try {
           fs.unlinkSync(argsPath);
         } catch {
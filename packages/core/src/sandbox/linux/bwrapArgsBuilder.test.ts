@@ -146,6 +146,21 @@ describe.skipIf(os.platform() === 'win32')('buildBwrapArgs', () => {
     expect(args).toContain('--share-net');
   });
 
+  it('mounts the egress proxy directory without sharing the network', async () => {
+    const args = await buildBwrapArgs({
+      ...defaultOptions,
+      egressProxyDir: '/tmp/gemini-cli-egress-abc',
+    });
+
+    expect(args).not.toContain('--share-net');
+    const index = args.indexOf('/tmp/gemini-cli-egress-abc');
+    expect(args.slice(index - 1, index + 2)).toEqual([
+      '--ro-bind',
+      '/tmp/gemini-cli-egress-abc',
+      '/tmp/.gemini-egress',
+    ]);
+  });
+
   it('maps explicit write permissions to --bind-try', async () => {
     const args = await buildBwrapArgs({
       ...defaultOptions,
@@ -15,6 +15,7 @@ import { isErrnoException } from '../utils/fsUtils.js';
 import { spawnAsync } from '../../utils/shell-utils.js';
 import { debugLogger } from '../../utils/debugLogger.js';
 import { toPathKey } from '../../utils/paths.js';
+import { EGRESS_PROXY_SANDBOX_DIR } from '../utils/egressProxy.js';
 
 /**
  * Options for building bubblewrap (bwrap) arguments.
@@ -25,6 +26,8 @@ export interface BwrapArgsOptions {
   networkAccess: boolean;
   maskFilePath: string;
   isReadOnlyCommand: boolean;
+  /** Host directory of the egress proxy to mount into the sandbox, if any. */
+  egressProxyDir?: string;
 }
 
 /**
@@ -39,6 +42,7 @@ export async function buildBwrapArgs(
     networkAccess,
     maskFilePath,
     isReadOnlyCommand,
+    egressProxyDir,
   } = options;
   const { workspace } = resolvedPaths;
 
@@ -95,6 +99,14 @@ export async function buildBwrapArgs(
     });
   }
 
+  if (egressProxyDir) {
+    mounts.push({
+      type: '--ro-bind',
+      src: egressProxyDir,
+      dest: EGRESS_PROXY_SANDBOX_DIR,
+    });
+  }
+
   for (const includeDir of resolvedPaths.globalIncludes) {
     mounts.push({ type: '--ro-bind-try', src: includeDir, dest: includeDir });
   }
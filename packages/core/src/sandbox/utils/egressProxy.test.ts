@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import {
+  EgressProxy,
+  isEgressAllowed,
+  matchesDomain,
+  normalizeDomainPattern,
+  requiresEgressProxy,
+} from './egressProxy.js';
+
+describe('egress policy', () => {
+  it('matches exact domains and wildcard subdomains', () => {
+    expect(matchesDomain('registry.npmjs.org', 'registry.npmjs.org')).toBe(
+      true,
+    );
+    expect(matchesDomain('Registry.NPMJS.org.', 'registry.npmjs.org')).toBe(
+      true,
+    );
+    expect(matchesDomain('npmjs.org', 'registry.npmjs.org')).toBe(false);
+    expect(matchesDomain('a.b.example.com', '*.example.com')).toBe(true);
+    expect(matchesDomain('example.com', '*.example.com')).toBe(false);
+    expect(matchesDomain('badexample.com', '*.example.com')).toBe(false);
+  });
+
+  it('rejects invalid domain patterns', () => {
+    expect(normalizeDomainPattern(' Example.COM ')).toBe('example.com');
+    expect(normalizeDomainPattern('*.example.com')).toBe('*.example.com');
+    expect(normalizeDomainPattern('example.*')).toBeUndefined();
+    expect(normalizeDomainPattern('https://example.com')).toBeUndefined();
+    expect(matchesDomain('anything', '*')).toBe(false);
+  });
+
+  it('lets denied domains win over allowed ones', () => {
+    const policy = {
+      allowAll: false,
+      allowedDomains: ['*.example.com'],
+      deniedDomains: ['secret.example.com'],
+    };
+    expect(isEgressAllowed('api.example.com', policy)).toBe(true);
+    expect(isEgressAllowed('secret.example.com', policy)).toBe(false);
+    expect(isEgressAllowed('other.com', policy)).toBe(false);
+    expect(isEgressAllowed('other.com', { ...policy, allowAll: true })).toBe(
+      true,
+    );
+  });
+
+  it('only requires the proxy when domain rules restrict the command', () => {
+    const none = { allowAll: false, allowedDomains: [], deniedDomains: [] };
+    expect(requiresEgressProxy(none)).toBe(false);
+    expect(requiresEgressProxy({ ...none, allowAll: true })).toBe(false);
+    expect(requiresEgressProxy({ ...none, allowedDomains: ['a.com'] })).toBe(
+      true,
+    );
+    expect(
+      requiresEgressProxy({
+        ...none,
+        allowAll: true,
+        deniedDomains: ['a.com'],
+      }),
+    ).toBe(true);
+  });
+});
+
+describe('EgressProxy', () => {
+  let target: http.Server;
+  let targetPort: number;
+  let proxy: EgressProxy;
+  const onDenied = vi.fn();
+
+  const socketPath = () => join(proxy.hostDir, 'proxy.sock');
+
+  const connect = (authority: string) =>
+    new Promise<{ status: string; socket: net.Socket }>((resolve, reject) => {
+      const socket = net.connect(socketPath(), () => {
+        socket.write(
+          `CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n\r\n`,
+        );
+      });
+      socket.once('data', (data) => {
+        resolve({ status: data.toString(), socket });
+      });
+      socket.once('error', reject);
+    });
+
+  beforeEach(async () => {
+    target = http.createServer((_req, res) => res.end('hello from target'));
+    await new Promise<void>((resolve) =>
+      target.listen(0, '127.0.0.1', resolve),
+    );
+    targetPort = (target.address() as AddressInfo).port;
+    proxy = await EgressProxy.start(
+      {
+        allowAll: false,
+        allowedDomains: ['127.0.0.1'],
+        deniedDomains: [],
+      },
+      onDenied,
+    );
+  });
+
+  afterEach(async () => {
+    proxy.close();
+    await new Promise((resolve) => target.close(resolve));
+    vi.clearAllMocks();
+  });
+
+  it('tunnels connections to allowed domains', async () => {
+    const { status, socket } = await connect(`127.0.0.1:${targetPort}`);
+    expect(status).toContain('200 Connection Established');
+
+    const response = new Promise<string>((resolve) => {
+      let body = '';
+      socket.on('data', (data) => (body += data.toString()));
+      socket.on('end', () => resolve(body));
+    });
+    socket.write(
+      'GET / HTTP/1.1\r\nHost: 127.0.0.1\r\nConnection: close\r\n\r\n',
+    );
+    expect(await response).toContain('hello from target');
+    expect(onDenied).not.toHaveBeenCalled();
+  });
+
+  it('rejects tunnels to other domains and reports them', async () => {
+    const { status, socket } = await connect('example.com:443');
+    socket.destroy();
+
+    expect(status).toContain('403 Forbidden');
+    expect(status).toContain(
+      'Connection to example.com blocked by the sandbox egress proxy',
+    );
+    expect(onDenied).toHaveBeenCalledWith('example.com');
+  });
+
+  it('filters plain HTTP requests', async () => {
+    const request = (url: string) =>
+      new Promise<{ status?: number; body: string }>((resolve, reject) => {
+        http
+          .get({ socketPath: socketPath(), path: url }, (res) => {
+            let body = '';
+            res.on('data', (data) => (body += data.toString()));
+            res.on('end', () => resolve({ status: res.statusCode, body }));
+          })
+          .on('error', reject);
+      });
+
+    expect(await request(`http://127.0.0.1:${targetPort}/`)).toEqual({
+      status: 200,
+      body: 'hello from target',
+    });
+    expect((await request('http://example.com/')).status).toBe(403);
+    expect(onDenied).toHaveBeenCalledWith('example.com');
+  });
+
+  it('removes its files when closed', () => {
+    const hostDir = proxy.hostDir;
+    expect(fs.existsSync(join(hostDir, 'bridge.cjs'))).toBe(true);
+
+    proxy.close();
+    expect(fs.existsSync(hostDir)).toBe(false);
+  });
+});
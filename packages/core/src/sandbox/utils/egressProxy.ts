@@ -0,0 +1,306 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import http from 'node:http';
+import net from 'node:net';
+import os from 'node:os';
+import { join } from 'node:path';
+import type { Duplex } from 'node:stream';
+import { debugLogger } from '../../utils/debugLogger.js';
+import { formatEgressDenial } from './sandboxDenialUtils.js';
+
+/** Directory inside the sandbox where the proxy socket and bridge are mounted. */
+export const EGRESS_PROXY_SANDBOX_DIR = '/tmp/.gemini-egress';
+
+/**
+ * Port the bridge listens on inside the sandbox. The sandbox has its own
+ * network namespace, so this never conflicts with ports on the host.
+ */
+export const EGRESS_PROXY_SANDBOX_PORT = 3128;
+
+const SOCKET_NAME = 'proxy.sock';
+const BRIDGE_NAME = 'bridge.cjs';
+
+/**
+ * Runs inside the sandbox. Listens on the loopback interface of the
+ * sandbox's network namespace, forwards every connection to the proxy's Unix
+ * socket, and runs the actual command once it is listening.
+ */
+const BRIDGE_SCRIPT = `'use strict';
+const net = require('node:net');
+const { spawn } = require('node:child_process');
+const [socketPath, port, command, ...args] = process.argv.slice(2);
+const server = net.createServer((client) => {
+  const upstream = net.connect(socketPath);
+  client.on('error', () => upstream.destroy());
+  upstream.on('error', () => client.destroy());
+  client.pipe(upstream).pipe(client);
+});
+server.listen(Number(port), '127.0.0.1', () => {
+  const child = spawn(command, args, { stdio: 'inherit' });
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP']) {
+    process.on(signal, () => child.kill(signal));
+  }
+  child.on('error', (err) => {
+    process.stderr.write(command + ': ' + err.message + '\\n');
+    process.exit(127);
+  });
+  child.on('exit', (code, signal) => {
+    server.close();
+    if (signal) {
+      process.removeAllListeners(signal);
+      process.kill(process.pid, signal);
+    } else {
+      process.exit(code ?? 1);
+    }
+  });
+});
+`;
+
+/**
+ * Which domains a sandboxed command may connect to.
+ */
+export interface EgressPolicy {
+  /** Whether domains that are not explicitly allowed may be reached. */
+  allowAll: boolean;
+  allowedDomains: string[];
+  deniedDomains: string[];
+}
+
+/**
+ * Normalizes a domain or `*.domain` pattern, returning undefined if it is not
+ * a valid host name.
+ */
+export function normalizeDomainPattern(pattern: string): string | undefined {
+  const normalized = pattern.trim().toLowerCase().replace(/\.$/, '');
+  return /^(\*\.)?[a-z0-9_-]+(\.[a-z0-9_-]+)*$/.test(normalized)
+    ? normalized
+    : undefined;
+}
+
+/**
+ * Checks a host against a domain pattern. `example.com` only matches itself,
+ * `*.example.com` matches any of its subdomains.
+ */
+export function matchesDomain(host: string, pattern: string): boolean {
+  const normalizedHost = host.toLowerCase().replace(/\.$/, '');
+  const normalizedPattern = normalizeDomainPattern(pattern);
+  if (!normalizedPattern) {
+    return false;
+  }
+  if (normalizedPattern.startsWith('*.')) {
+    return normalizedHost.endsWith(normalizedPattern.slice(1));
+  }
+  return normalizedHost === normalizedPattern;
+}
+
+/**
+ * Decides whether a host may be reached. Denied domains always win.
+ */
+export function isEgressAllowed(host: string, policy: EgressPolicy): boolean {
+  if (policy.deniedDomains.some((pattern) => matchesDomain(host, pattern))) {
+    return false;
+  }
+  return (
+    policy.allowAll ||
+    policy.allowedDomains.some((pattern) => matchesDomain(host, pattern))
+  );
+}
+
+/**
+ * Whether a command needs the egress proxy: either it has no network access
+ * but some allowed domains, or it has network access with some exceptions.
+ */
+export function requiresEgressProxy(policy: EgressPolicy): boolean {
+  return policy.allowAll
+    ? policy.deniedDomains.length > 0
+    : policy.allowedDomains.length > 0;
+}
+
+/**
+ * Environment variables that point common tools (curl, npm, pip, git, ...)
+ * at the bridge inside the sandbox.
+ */
+export function getEgressProxyEnv(): Record<string, string> {
+  const proxyUrl = `http://127.0.0.1:${EGRESS_PROXY_SANDBOX_PORT}`;
+  const noProxy = 'localhost,127.0.0.1,::1';
+  return {
+    HTTP_PROXY: proxyUrl,
+    HTTPS_PROXY: proxyUrl,
+    ALL_PROXY: proxyUrl,
+    NO_PROXY: noProxy,
+    http_proxy: proxyUrl,
+    https_proxy: proxyUrl,
+    all_proxy: proxyUrl,
+    no_proxy: noProxy,
+  };
+}
+
+function rejectTunnel(socket: Duplex, host: string): void {
+  const body = formatEgressDenial(host) + '\n';
+  socket.end(
+    'HTTP/1.1 403 Forbidden\r\n' +
+      'Content-Type: text/plain\r\n' +
+      `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+      'Connection: close\r\n\r\n' +
+      body,
+  );
+}
+
+/**
+ * A filtering HTTP proxy that only lets sandboxed commands reach the domains
+ * their policy allows. It handles both plain HTTP requests and CONNECT
+ * tunnels, and listens on a Unix socket that is mounted into the sandbox.
+ */
+export class EgressProxy {
+  private constructor(
+    private readonly server: http.Server,
+    private readonly sockets: Set<Duplex>,
+    /** Host directory holding the socket and bridge script. */
+    readonly hostDir: string,
+  ) {}
+
+  /**
+   * Starts a proxy enforcing the given policy. Blocked hosts are reported
+   * through `onDenied`.
+   */
+  static async start(
+    policy: EgressPolicy,
+    onDenied: (host: string) => void,
+  ): Promise<EgressProxy> {
+    const hostDir = fs.mkdtempSync(join(os.tmpdir(), 'gemini-cli-egress-'));
+    fs.writeFileSync(join(hostDir, BRIDGE_NAME), BRIDGE_SCRIPT);
+
+    const sockets = new Set<Duplex>();
+    const track = (socket: Duplex) => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+    };
+
+    const server = http.createServer((req, res) => {
+      let target: URL;
+      try {
+        target = new URL(req.url ?? '');
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Only proxy requests with absolute URLs are supported.\n');
+        return;
+      }
+      if (target.protocol !== 'http:') {
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end(`Unsupported protocol: ${target.protocol}\n`);
+        return;
+      }
+      if (!isEgressAllowed(target.hostname, policy)) {
+        onDenied(target.hostname);
+        res.writeHead(403, { 'Content-Type': 'text/plain' });
+        res.end(formatEgressDenial(target.hostname) + '\n');
+        return;
+      }
+
+      const upstream = http.request(
+        {
+          host: target.hostname,
+          port: target.port || 80,
+          method: req.method,
+          path: `${target.pathname}${target.search}`,
+          headers: req.headers,
+        },
+        (upstreamRes) => {
+          res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+          upstreamRes.pipe(res);
+        },
+      );
+      upstream.on('error', (e) => {
+        if (!res.headersSent) {
+          res.writeHead(502, { 'Content-Type': 'text/plain' });
+        }
+        res.end(`Failed to reach ${target.hostname}: ${e.message}\n`);
+      });
+      req.pipe(upstream);
+    });
+
+    server.on('connect', (req, clientSocket: Duplex, head: Buffer) => {
+      track(clientSocket);
+      let host: string;
+      let port: number;
+      try {
+        const target = new URL(`http://${req.url ?? ''}`);
+        host = target.hostname;
+        port = Number(target.port) || 443;
+      } catch {
+        clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+      }
+      if (!isEgressAllowed(host, policy)) {
+        onDenied(host);
+        rejectTunnel(clientSocket, host);
+        return;
+      }
+
+      const upstream = net.connect(port, host, () => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        if (head.length > 0) {
+          upstream.write(head);
+        }
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+      track(upstream);
+      upstream.on('error', (e) => {
+        debugLogger.debug(`Egress proxy: failed to reach ${host}: ${e}`);
+        clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      });
+      clientSocket.on('error', () => upstream.destroy());
+    });
+    server.on('connection', track);
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(join(hostDir, SOCKET_NAME), () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    return new EgressProxy(server, sockets, hostDir);
+  }
+
+  /**
+   * Wraps a command so that it runs behind the bridge inside the sandbox.
+   */
+  wrapCommand(
+    command: string,
+    args: string[],
+  ): { command: string; args: string[] } {
+    return {
+      command: process.execPath,
+      args: [
+        join(EGRESS_PROXY_SANDBOX_DIR, BRIDGE_NAME),
+        join(EGRESS_PROXY_SANDBOX_DIR, SOCKET_NAME),
+        String(EGRESS_PROXY_SANDBOX_PORT),
+        command,
+        ...args,
+      ],
+    };
+  }
+
+  /**
+   * Stops the proxy, drops open connections and removes its files.
+   */
+  close(): void {
+    this.server.close();
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    try {
+      fs.rmSync(this.hostDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
@@ -8,6 +8,7 @@ import { describe, it, expect } from 'vitest';
 import {
   parsePosixSandboxDenials,
   createSandboxDenialCache,
+  formatEgressDenial,
 } from './sandboxDenialUtils.js';
 import type { ShellExecutionResult } from '../../services/shellExecutionService.js';
 
@@ -224,4 +225,34 @@ PermissionError: [Errno 13] Permission denied: '/etc/test_sandbox_denial'`;
     const parsed2 = parsePosixSandboxDenials(result);
     expect(parsed2).toBeDefined();
   });
+
+  it('should report domains blocked by the egress proxy instead of network access', () => {
+    const parsed = parsePosixSandboxDenials(
+      {
+        output: 'npm error network request failed, reason: ECONNRESET',
+      } as unknown as ShellExecutionResult,
+      undefined,
+      ['Registry.npmjs.org'],
+    );
+    expect(parsed).toEqual({
+      network: undefined,
+      filePaths: undefined,
+      domains: ['registry.npmjs.org'],
+    });
+  });
+
+  it('should extract domains from egress proxy messages in the output', () => {
+    const cache = createSandboxDenialCache();
+    const result = {
+      output: formatEgressDenial('example.com'),
+    } as unknown as ShellExecutionResult;
+
+    expect(parsePosixSandboxDenials(result, cache)?.domains).toEqual([
+      'example.com',
+    ]);
+    // Blocked domains are reported even when the output repeats.
+    expect(parsePosixSandboxDenials(result, cache)?.domains).toEqual([
+      'example.com',
+    ]);
+  });
 });
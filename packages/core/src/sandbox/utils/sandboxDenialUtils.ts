@@ -22,6 +22,16 @@ export function createSandboxDenialCache(maxSize = 10): SandboxDenialCache {
   return new LRUCache<string, boolean>(maxSize);
 }
 
+/**
+ * Formats the message the egress proxy answers blocked connections with.
+ */
+export function formatEgressDenial(host: string): string {
+  return `Connection to ${host} blocked by the sandbox egress proxy: domain is not allowed.`;
+}
+
+const EGRESS_DENIAL_REGEX =
+  /connection to ([\w.-]+) blocked by the sandbox egress proxy/gi;
+
 /**
  * Sanitizes extracted paths to prevent path traversal vulnerabilities.
  * Filters out paths containing '..' or null bytes.
@@ -60,19 +70,29 @@ export function sanitizeExtractedPath(p: string): string | undefined {
 /**
  * Common POSIX-style sandbox denial detection.
  * Used by macOS and Linux sandbox managers.
+ *
+ * `egressDenials` are the hosts the egress proxy blocked while the command
+ * ran; tools rarely print the proxy's response, so they are passed in
+ * alongside the output.
  */
 export function parsePosixSandboxDenials(
   result: ShellExecutionResult,
   cache?: SandboxDenialCache,
+  egressDenials: string[] = [],
 ): ParsedSandboxDenial | undefined {
   const output = result.output || '';
   const errorOutput = result.error?.message;
   const fullText = output + '\n' + (errorOutput || '');
   const combined = fullText.toLowerCase();
 
+  const domains = new Set(egressDenials.map((host) => host.toLowerCase()));
+  for (const match of fullText.matchAll(EGRESS_DENIAL_REGEX)) {
+    domains.add(match[1].toLowerCase());
+  }
+
   // Cache by the first 200 characters of the error to handle variable data (timestamps, PIDs)
   const cacheKey = combined.trim().slice(0, 200);
-  if (cacheKey && cache?.has(cacheKey)) {
+  if (domains.size === 0 && cacheKey && cache?.has(cacheKey)) {
     return undefined;
   }
 
@@ -114,7 +134,7 @@ export function parsePosixSandboxDenials(
     'networkaccessdenied',
   ].some((keyword) => combined.includes(keyword));
 
-  if (!isFileDenial && !isNetworkDenial) {
+  if (!isFileDenial && !isNetworkDenial && domains.size === 0) {
     return undefined;
   }
 
@@ -163,8 +183,11 @@ export function parsePosixSandboxDenials(
     cache.set(cacheKey, true);
   }
 
+  // Blocked domains are more precise than a generic network error, so they
+  // are reported instead of asking for full network access.
   return {
-    network: isNetworkDenial || undefined,
+    network: (domains.size === 0 && isNetworkDenial) || undefined,
     filePaths: filePaths.size > 0 ? Array.from(filePaths) : undefined,
+    domains: domains.size > 0 ? Array.from(domains) : undefined,
   };
 }
@@ -216,6 +216,50 @@ describe('confirmation.ts', () => {
       );
     });
 
+    it('should mark edit confirmations of tools that cannot be modified', async () => {
+      const details = {
+        type: 'edit' as const,
+        title: 'Merge?',
+        fileName: 'worktree',
+        filePath: '/tmp/worktree',
+        fileDiff: 'diff',
+        originalContent: null,
+        newContent: '',
+        onConfirm: vi.fn(),
+      };
+      invocationMock.shouldConfirmExecute.mockResolvedValue(details);
+
+      const listenerPromise = waitForListener(
+        MessageBusType.TOOL_CONFIRMATION_RESPONSE,
+      );
+      const promise = resolveConfirmation(toolCall, signal, {
+        config: mockConfig,
+        messageBus: mockMessageBus,
+        state: mockState,
+        modifier: mockModifier,
+        getPreferredEditor,
+        schedulerId: ROOT_SCHEDULER_ID,
+      });
+      await listenerPromise;
+
+      emitResponse({
+        type: MessageBusType.TOOL_CONFIRMATION_RESPONSE,
+        correlationId: '123e4567-e89b-12d3-a456-426614174000',
+        confirmed: true,
+      });
+
+      await promise;
+      expect(mockState.updateStatus).toHaveBeenCalledWith(
+        'call-1',
+        'awaiting_approval',
+        expect.objectContaining({
+          confirmationDetails: expect.objectContaining({
+            isModifiable: false,
+          }),
+        }),
+      );
+    });
+
     it('should fire hooks if enabled', async () => {
       const details = {
         type: 'info' as const,
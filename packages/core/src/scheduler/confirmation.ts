@@ -31,6 +31,7 @@ import {
   type EditorType,
   NO_EDITOR_AVAILABLE_ERROR,
 } from '../utils/editor.js';
+import { isModifiableDeclarativeTool } from '../tools/modifiable-tool.js';
 import type { DiffUpdateResult } from '../ide/ide-client.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { coreEvents } from '../utils/events.js';
@@ -149,6 +150,9 @@ export async function resolveConfirmation(
     if (deps.systemMessage) {
       details.systemMessage = deps.systemMessage;
     }
+    if (details.type === 'edit') {
+      details.isModifiable = isModifiableDeclarativeTool(toolCall.tool);
+    }
 
     await notifyHooks(deps, details);
 
@@ -229,6 +229,7 @@ describe('ToolModificationHandler', () => {
         expect.any(String),
         '',
         expect.any(Object),
+        undefined,
       );
       expect(result).toEqual({
         updatedParams: { content: '' },
@@ -270,6 +271,7 @@ describe('ToolModificationHandler', () => {
         'old content',
         'new content',
         { content: 'original' },
+        undefined,
       );
       expect(Diff.createPatch).toHaveBeenCalledWith(
         'test.txt',
@@ -284,5 +286,37 @@ describe('ToolModificationHandler', () => {
         updatedDiff: 'mock-diff',
       });
     });
+
+    it('should pass rejected hunks on to the updated params', async () => {
+      vi.mocked(
+        modifiableToolModule.isModifiableDeclarativeTool,
+      ).mockReturnValue(true);
+      mockModifyContext.getCurrentContent.mockResolvedValue('old content');
+      mockModifyContext.getFilePath.mockReturnValue('test.txt');
+
+      const mockWaitingToolCall = createMockWaitingToolCall({
+        tool: mockModifiableTool,
+        request: {
+          callId: 'call-1',
+          name: 'mockModifiableTool',
+          args: { content: 'original' },
+          isClientInitiated: false,
+          prompt_id: 'p1',
+        },
+      });
+
+      await handler.applyInlineModify(
+        mockWaitingToolCall,
+        { newContent: 'new content', rejectedHunks: ['@@ -1 +1 @@'] },
+        new AbortController().signal,
+      );
+
+      expect(mockModifyContext.createUpdatedParams).toHaveBeenCalledWith(
+        'old content',
+        'new content',
+        { content: 'original' },
+        ['@@ -1 +1 @@'],
+      );
+    });
   });
 });
@@ -89,6 +89,7 @@ export class ToolModificationHandler {
       currentContent,
       payload.newContent,
       toolCall.request.args,
+      payload.rejectedHunks,
     );
 
     const updatedDiff = Diff.createPatch(
@@ -831,6 +831,41 @@ describe('ChatRecordingService', () => {
     });
   });
 
+  describe('appendMessages', () => {
+    it('should append copied messages and keep their IDs', async () => {
+      await chatRecordingService.initialize();
+      const messages: MessageRecord[] = [
+        {
+          id: 'copied-1',
+          timestamp: '2026-01-01T00:00:00.000Z',
+          type: 'user',
+          content: 'msg1',
+        },
+        {
+          id: 'copied-2',
+          timestamp: '2026-01-01T00:00:01.000Z',
+          type: 'gemini',
+          content: 'msg2',
+          model: 'm',
+        },
+      ];
+
+      chatRecordingService.appendMessages(messages);
+
+      expect(
+        chatRecordingService.getConversation()?.messages.map((m) => m.id),
+      ).toEqual(['copied-1', 'copied-2']);
+      const conversation = (await loadConversationRecord(
+        chatRecordingService.getConversationFilePath()!,
+      )) as ConversationRecord;
+      expect(conversation.sessionId).toBe('test-session-id');
+      expect(conversation.messages.map((m) => m.content)).toEqual([
+        'msg1',
+        'msg2',
+      ]);
+    });
+  });
+
   describe('ENOSPC (disk full) graceful degradation - issue #16266', () => {
     it('should disable recording and not throw when ENOSPC occurs during initialize', async () => {
       const enospcError = new Error('ENOSPC: no space left on device');
@@ -757,6 +757,18 @@ export class ChatRecordingService {
     return this.cachedConversation;
   }
 
+  /**
+   * Appends messages copied from another conversation, e.g. when forking a
+   * session. Message IDs are kept so they remain valid rewind targets.
+   */
+  appendMessages(messages: readonly MessageRecord[]): void {
+    if (!this.conversationFile || !this.cachedConversation) return;
+
+    for (const msg of messages) {
+      this.pushMessage(msg);
+    }
+  }
+
   updateMessagesFromHistory(history: readonly Content[]): void {
     if (!this.conversationFile || !this.cachedConversation) return;
 
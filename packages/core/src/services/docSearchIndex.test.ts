@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { gzipSync } from 'node:zlib';
+import { DocSearchIndex, tokenize } from './docSearchIndex.js';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+
+describe('tokenize', () => {
+  it('should split camelCase and snake_case words into their parts', () => {
+    expect(tokenize('Call readFileSync, not max_retry_count.')).toEqual([
+      'call',
+      'readfilesync',
+      'read',
+      'file',
+      'sync',
+      'not',
+      'max_retry_count',
+      'max',
+      'retry',
+      'count',
+    ]);
+  });
+});
+
+describe('DocSearchIndex', () => {
+  let tempDir: string;
+
+  const writeFile = async (relativePath: string, content: string | Buffer) => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const createIndex = (entries: string[]) =>
+    new DocSearchIndex(entries, tempDir, new FileDiscoveryService(tempDir));
+
+  beforeEach(async () => {
+    tempDir = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-doc-search-')),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should rank the section that best matches the query first', async () => {
+    await writeFile(
+      'docs/guide.md',
+      [
+        '# Installation',
+        'Install the package with npm.',
+        '',
+        '## Retries',
+        'Requests are retried with exponential backoff.',
+        'Set maxRetries to change the retry count.',
+      ].join('\n'),
+    );
+    await writeFile('docs/other.md', 'Nothing about that here.\n');
+
+    const results = await createIndex(['docs']).search('retry backoff', 5);
+
+    expect(results[0]).toMatchObject({
+      filePath: path.join(tempDir, 'docs/guide.md'),
+      line: 5,
+    });
+    expect(results[0].snippet).toContain('exponential backoff');
+    expect(results.some((r) => r.filePath.endsWith('other.md'))).toBe(false);
+  });
+
+  it('should only index documentation files in directories', async () => {
+    await writeFile('docs/notes.txt', 'unicorn notes');
+    await writeFile('docs/README', 'unicorn readme');
+    await writeFile('docs/script.js', 'const unicorn = 1;');
+
+    const results = await createIndex(['docs']).search('unicorn', 10);
+
+    expect(results.map((r) => path.basename(r.filePath)).sort()).toEqual([
+      'README',
+      'notes.txt',
+    ]);
+  });
+
+  it('should respect ignore rules inside the project', async () => {
+    await writeFile('.geminiignore', 'docs/drafts/\n');
+    await writeFile('docs/drafts/wip.md', 'unicorn draft');
+    await writeFile('docs/final.md', 'unicorn final');
+
+    const results = await createIndex(['docs']).search('unicorn', 10);
+
+    expect(results.map((r) => path.basename(r.filePath))).toEqual(['final.md']);
+  });
+
+  it('should index ignored directories that are configured explicitly', async () => {
+    await writeFile('.geminiignore', 'node_modules/\n');
+    await writeFile('node_modules/lib/README.md', 'unicorn library');
+    await writeFile('node_modules/lib/CHANGELOG.md', 'unicorn changes');
+
+    const results = await createIndex(['node_modules/*/README.md']).search(
+      'unicorn',
+      10,
+    );
+
+    expect(results.map((r) => path.basename(r.filePath))).toEqual([
+      'README.md',
+    ]);
+  });
+
+  it('should index gzipped man pages', async () => {
+    await writeFile(
+      'man/man1/tool.1.gz',
+      gzipSync(
+        [
+          '.\\" comment',
+          '.TH TOOL 1',
+          '.SH NAME',
+          'tool \\- frobnicate \\fBwidgets\\fR',
+        ].join('\n'),
+      ),
+    );
+
+    const results = await createIndex(['man']).search('frobnicate', 1);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].snippet).toContain('tool - frobnicate widgets');
+  });
+
+  it('should pick up changed and deleted files on refresh', async () => {
+    const filePath = await writeFile('docs/a.md', 'unicorn');
+    await writeFile('docs/b.md', 'unicorn');
+    const index = createIndex(['docs']);
+    expect(await index.search('unicorn', 10)).toHaveLength(2);
+
+    await fs.rm(path.join(tempDir, 'docs/b.md'));
+    await fs.writeFile(filePath, 'dragon');
+    await index.refresh(true);
+
+    expect(index.fileCount).toBe(1);
+    expect(await index.search('unicorn', 10)).toEqual([]);
+    expect(await index.search('dragon', 10)).toHaveLength(1);
+  });
+
+  it('should return nothing for queries without terms', async () => {
+    await writeFile('docs/a.md', 'unicorn');
+
+    await expect(createIndex(['docs']).search('?!', 10)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { gunzip } from 'node:zlib';
+import { promisify } from 'node:util';
+import { glob, hasMagic, type Path } from 'glob';
+import type { FileDiscoveryService } from './fileDiscoveryService.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { homedir, isSubpath } from '../utils/paths.js';
+
+const gunzipAsync = promisify(gunzip);
+
+/** Files larger than this are not indexed. */
+const MAX_FILE_SIZE_BYTES = 1024 * 1024;
+/** Stop indexing after this many files so huge trees don't exhaust memory. */
+const MAX_INDEXED_FILES = 20000;
+/** Sections are split at headings, or after this many lines. */
+const MAX_SECTION_LINES = 30;
+/** Searches within this long of the last refresh skip rescanning the disk. */
+const REFRESH_INTERVAL_MS = 30 * 1000;
+const MAX_SNIPPET_LINE_LENGTH = 200;
+
+// BM25 parameters, at their usual defaults.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DOC_EXTENSIONS = new Set([
+  '.md',
+  '.mdx',
+  '.markdown',
+  '.txt',
+  '.rst',
+  '.adoc',
+]);
+const DOC_BASENAMES = /^(readme|changelog|license|copying|news|authors)$/i;
+const MAN_PAGE = /\.[1-9][a-z]*(\.gz)?$/;
+
+export interface DocSearchResult {
+  filePath: string;
+  /** 1-based line of the best matching line in the section. */
+  line: number;
+  score: number;
+  /** The best matching line with one line of context on each side. */
+  snippet: string;
+}
+
+interface IndexedSection {
+  startLine: number;
+  lines: string[];
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  sections: IndexedSection[];
+}
+
+/**
+ * Splits text into lowercase search terms. camelCase and snake_case words are
+ * indexed whole and by their parts, so `readFileSync` matches `read file`.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1) {
+      terms.push(lower);
+    }
+    const parts = word
+      .split(/_|(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u)
+      .filter((part) => part.length > 1);
+    if (parts.length > 1) {
+      terms.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return terms;
+}
+
+function isDocFile(filePath: string): boolean {
+  const base = path.basename(filePath);
+  const ext = path.extname(base).toLowerCase();
+  return (
+    DOC_EXTENSIONS.has(ext) ||
+    DOC_BASENAMES.test(path.basename(base, ext)) ||
+    MAN_PAGE.test(base)
+  );
+}
+
+/**
+ * Reduces roff man page source to its text.
+ */
+function stripRoff(source: string): string {
+  return source
+    .split('\n')
+    .filter((line) => !line.startsWith('.\\"') && !line.startsWith('\'\\"'))
+    .map((line) =>
+      line
+        .replace(/^[.'][A-Za-z]{1,3}\s?/, '')
+        .replace(/\\f(?:\[[^\]]*\]|\(..|.)/g, '')
+        .replace(/\\s[+-]?\d/g, '')
+        .replace(/\\\(em|\\\(en/g, '-')
+        .replace(/\\([-.e&|^ ])/g, (_, char: string) =>
+          char === 'e' ? '\\' : char === '&' || char === '|' ? '' : char,
+        ),
+    )
+    .join('\n');
+}
+
+async function readDocFile(filePath: string): Promise<string> {
+  if (filePath.endsWith('.gz')) {
+    const buffer = await fs.readFile(filePath);
+    return stripRoff((await gunzipAsync(buffer)).toString('utf8'));
+  }
+  const content = await fs.readFile(filePath, 'utf8');
+  return MAN_PAGE.test(path.basename(filePath)) ? stripRoff(content) : content;
+}
+
+function isHeading(line: string, nextLine: string | undefined): boolean {
+  return (
+    /^#{1,6}\s/.test(line) ||
+    (line.trim() !== '' &&
+      nextLine !== undefined &&
+      /^(?:={3,}|-{3,}|~{3,})\s*$/.test(nextLine))
+  );
+}
+
+function splitIntoSections(content: string): IndexedSection[] {
+  const lines = content.split(/\r?\n/);
+  const sections: IndexedSection[] = [];
+  let start = 0;
+  const flush = (end: number) => {
+    const sectionLines = lines.slice(start, end);
+    const terms = tokenize(sectionLines.join('\n'));
+    if (terms.length > 0) {
+      const termFrequencies = new Map<string, number>();
+      for (const term of terms) {
+        termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+      }
+      sections.push({
+        startLine: start + 1,
+        lines: sectionLines,
+        termFrequencies,
+        length: terms.length,
+      });
+    }
+    start = end;
+  };
+  for (let i = 0; i < lines.length; i++) {
+    if (
+      i > start &&
+      (isHeading(lines[i], lines[i + 1]) || i - start >= MAX_SECTION_LINES)
+    ) {
+      flush(i);
+    }
+  }
+  flush(lines.length);
+  return sections;
+}
+
+function buildSnippet(
+  section: IndexedSection,
+  queryTerms: string[],
+): { line: number; snippet: string } {
+  let bestIndex = 0;
+  let bestHits = -1;
+  section.lines.forEach((line, index) => {
+    const lineTerms = new Set(tokenize(line));
+    const hits = queryTerms.filter((term) => lineTerms.has(term)).length;
+    if (hits > bestHits) {
+      bestHits = hits;
+      bestIndex = index;
+    }
+  });
+  const snippet = section.lines
+    .slice(Math.max(0, bestIndex - 1), bestIndex + 2)
+    .map((line) =>
+      line.length > MAX_SNIPPET_LINE_LENGTH
+        ? `${line.slice(0, MAX_SNIPPET_LINE_LENGTH)}...`
+        : line,
+    )
+    .join('\n')
+    .trim();
+  return { line: section.startLine + bestIndex, snippet };
+}
+
+/**
+ * A full-text index of documentation on the local disk, ranked with BM25.
+ *
+ * Each configured entry is a file, a directory, or a glob pattern. Files are
+ * indexed in sections that start at Markdown or reStructuredText headings, so
+ * results point at the part of a file that matches. The index is kept in
+ * memory and refreshed incrementally: only files whose size or modification
+ * time changed are read again.
+ *
+ * Files inside the project are skipped when the project's ignore rules match
+ * them, unless the entry itself points into an ignored directory (for example
+ * `node_modules/*\/README.md`), in which case the user asked for it explicitly.
+ */
+export class DocSearchIndex {
+  private readonly files = new Map<string, IndexedFile>();
+  private readonly documentFrequencies = new Map<string, number>();
+  private sectionCount = 0;
+  private totalSectionLength = 0;
+  private lastRefresh = 0;
+  private pendingRefresh: Promise<void> | undefined;
+
+  constructor(
+    private readonly entries: string[],
+    private readonly projectRoot: string,
+    private readonly fileDiscoveryService: FileDiscoveryService,
+  ) {}
+
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  /**
+   * Rescans the configured entries, unless that was done recently.
+   */
+  async refresh(force = false): Promise<void> {
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
+    }
+    if (!force && Date.now() - this.lastRefresh < REFRESH_INTERVAL_MS) {
+      return;
+    }
+    this.pendingRefresh = this.doRefresh().finally(() => {
+      this.lastRefresh = Date.now();
+      this.pendingRefresh = undefined;
+    });
+    return this.pendingRefresh;
+  }
+
+  async search(query: string, limit: number): Promise<DocSearchResult[]> {
+    await this.refresh();
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.sectionCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalSectionLength / this.sectionCount;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const frequency = this.documentFrequencies.get(term) ?? 0;
+        return [
+          term,
+          Math.log(
+            1 + (this.sectionCount - frequency + 0.5) / (frequency + 0.5),
+          ),
+        ];
+      }),
+    );
+
+    const scored: Array<{
+      filePath: string;
+      section: IndexedSection;
+      score: number;
+    }> = [];
+    for (const [filePath, file] of this.files) {
+      for (const section of file.sections) {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = section.termFrequencies.get(term);
+          if (!frequency) {
+            continue;
+          }
+          score +=
+            (idf.get(term)! * frequency * (BM25_K1 + 1)) /
+            (frequency +
+              BM25_K1 *
+                (1 - BM25_B + (BM25_B * section.length) / averageLength));
+        }
+        if (score > 0) {
+          scored.push({ filePath, section, score });
+        }
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    return scored.slice(0, limit).map(({ filePath, section, score }) => ({
+      filePath,
+      score,
+      ...buildSnippet(section, queryTerms),
+    }));
+  }
+
+  private async doRefresh(): Promise<void> {
+    const seen = new Set<string>();
+    const filePaths = new Set<string>();
+    for (const entry of this.entries) {
+      for (const filePath of await this.listFiles(entry)) {
+        filePaths.add(filePath);
+      }
+    }
+    if (filePaths.size > MAX_INDEXED_FILES) {
+      debugLogger.warn(
+        `[DocSearchIndex] Found ${filePaths.size} files, only indexing the first ${MAX_INDEXED_FILES}.`,
+      );
+    }
+    for (const filePath of [...filePaths].slice(0, MAX_INDEXED_FILES)) {
+      seen.add(filePath);
+      await this.indexFile(filePath);
+    }
+    for (const filePath of [...this.files.keys()]) {
+      if (!seen.has(filePath)) {
+        this.removeFile(filePath);
+      }
+    }
+  }
+
+  private resolveEntry(entry: string): string {
+    const expanded =
+      entry === '~' || entry.startsWith('~/')
+        ? path.join(homedir(), entry.slice(1))
+        : entry;
+    return path.resolve(this.projectRoot, expanded);
+  }
+
+  /**
+   * Returns whether the project's ignore rules apply below `dir`. They don't
+   * when `dir` is outside the project or is itself ignored.
+   */
+  private appliesIgnoreRules(dir: string): boolean {
+    if (!isSubpath(this.projectRoot, dir)) {
+      return false;
+    }
+    for (
+      let current = dir;
+      isSubpath(this.projectRoot, current) &&
+      path.relative(this.projectRoot, current) !== '';
+      current = path.dirname(current)
+    ) {
+      if (this.fileDiscoveryService.shouldIgnoreDirectory(current)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async listFiles(entry: string): Promise<string[]> {
+    const resolved = this.resolveEntry(entry);
+    const isPattern = hasMagic(entry, { windowsPathsNoEscape: true });
+    let root = resolved;
+    if (isPattern) {
+      const segments = resolved.split(path.sep);
+      const firstMagic = segments.findIndex((segment) => hasMagic(segment));
+      root = segments.slice(0, firstMagic).join(path.sep) || path.sep;
+    } else {
+      try {
+        const stats = await fs.stat(resolved);
+        if (stats.isFile()) {
+          return [resolved];
+        }
+      } catch {
+        debugLogger.debug(`[DocSearchIndex] Skipping missing path ${entry}`);
+        return [];
+      }
+    }
+
+    const applyIgnoreRules = this.appliesIgnoreRules(root);
+    const isIgnored = (p: Path, isDirectory: boolean) =>
+      applyIgnoreRules &&
+      (isDirectory
+        ? this.fileDiscoveryService.shouldIgnoreDirectory(p.fullpath())
+        : this.fileDiscoveryService.shouldIgnoreFile(p.fullpath()));
+    const files = await glob(
+      isPattern ? path.relative(root, resolved) : '**/*',
+      {
+        cwd: root,
+        absolute: true,
+        nodir: true,
+        windowsPathsNoEscape: true,
+        ignore: {
+          ignored: (p) => isIgnored(p, false),
+          childrenIgnored: (p) => isIgnored(p, true),
+        },
+      },
+    );
+    return (isPattern ? files : files.filter(isDocFile)).sort();
+  }
+
+  private async indexFile(filePath: string): Promise<void> {
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch {
+      this.removeFile(filePath);
+      return;
+    }
+    const existing = this.files.get(filePath);
+    if (
+      existing &&
+      existing.mtimeMs === stats.mtimeMs &&
+      existing.size === stats.size
+    ) {
+      return;
+    }
+    this.removeFile(filePath);
+    if (stats.size > MAX_FILE_SIZE_BYTES) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await readDocFile(filePath);
+    } catch (error) {
+      debugLogger.debug(`[DocSearchIndex] Failed to read ${filePath}:`, error);
+      return;
+    }
+    // Binary files that happen to match a pattern aren't worth indexing.
+    if (content.includes('\0')) {
+      return;
+    }
+
+    const sections = splitIntoSections(content);
+    for (const section of sections) {
+      this.sectionCount++;
+      this.totalSectionLength += section.length;
+      for (const term of section.termFrequencies.keys()) {
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) ?? 0) + 1,
+        );
+      }
+    }
+    this.files.set(filePath, {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      sections,
+    });
+  }
+
+  private removeFile(filePath: string): void {
+    const file = this.files.get(filePath);
+    if (!file) {
+      return;
+    }
+    for (const section of file.sections) {
+      this.sectionCount--;
+      this.totalSectionLength -= section.length;
+      for (const term of section.termFrequencies.keys()) {
+        const frequency = this.documentFrequencies.get(term)! - 1;
+        if (frequency > 0) {
+          this.documentFrequencies.set(term, frequency);
+        } else {
+          this.documentFrequencies.delete(term);
+        }
+      }
+    }
+    this.files.delete(filePath);
+  }
+}
@@ -16,6 +16,7 @@ import {
   type SandboxRequest,
 } from './sandboxManager.js';
 import { createSandboxManager } from './sandboxManagerFactory.js';
+import { ContainerSandboxManager } from '../sandbox/container/ContainerSandboxManager.js';
 import { LinuxSandboxManager } from '../sandbox/linux/LinuxSandboxManager.js';
 import { MacOsSandboxManager } from '../sandbox/macos/MacOsSandboxManager.js';
 import { WindowsSandboxManager } from '../sandbox/windows/WindowsSandboxManager.js';
@@ -401,5 +402,17 @@ describe('SandboxManager', () => {
       );
       expect(manager).toBeInstanceOf(WindowsSandboxManager);
     });
+
+    it.each(['podman', 'docker'] as const)(
+      'should return ContainerSandboxManager if the tool backend is %s',
+      (toolBackend) => {
+        vi.spyOn(os, 'platform').mockReturnValue('linux');
+        const manager = createSandboxManager(
+          { enabled: true, toolBackend, toolImage: 'sandbox:latest' },
+          { workspace: path.resolve('/workspace') },
+        );
+        expect(manager).toBeInstanceOf(ContainerSandboxManager);
+      },
+    );
   });
 });
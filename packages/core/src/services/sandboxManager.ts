@@ -71,6 +71,13 @@ export interface SandboxPermissions {
   };
   /** Whether the command should have network access. */
   network?: boolean;
+  /**
+   * Domains the command may reach through the egress proxy when it has no
+   * general network access. `*.example.com` matches any subdomain.
+   */
+  allowedDomains?: string[];
+  /** Domains the command may never reach, even with network access. */
+  deniedDomains?: string[];
 }
 
 /**
@@ -112,6 +119,10 @@ export interface GlobalSandboxOptions {
   modeConfig?: SandboxModeConfig;
   /** The policy manager for persistent approvals. */
   policyManager?: SandboxPolicyManager;
+  /** Domains every sandboxed command may reach through the egress proxy. */
+  allowedDomains?: string[];
+  /** Domains no sandboxed command may reach. */
+  deniedDomains?: string[];
 }
 
 /**
@@ -154,6 +165,8 @@ export interface ParsedSandboxDenial {
   filePaths?: string[];
   /** If the denial is related to network access. */
   network?: boolean;
+  /** If the egress proxy blocked connections, these are the domains that were blocked. */
+  domains?: string[];
 }
 
 /**
@@ -14,6 +14,7 @@ import {
 import { LinuxSandboxManager } from '../sandbox/linux/LinuxSandboxManager.js';
 import { MacOsSandboxManager } from '../sandbox/macos/MacOsSandboxManager.js';
 import { WindowsSandboxManager } from '../sandbox/windows/WindowsSandboxManager.js';
+import { ContainerSandboxManager } from '../sandbox/container/ContainerSandboxManager.js';
 import type { SandboxConfig } from '../config/config.js';
 
 /**
@@ -29,6 +30,12 @@ export function createSandboxManager(
   }
 
   if (sandbox?.enabled) {
+    if (sandbox.toolBackend === 'podman' || sandbox.toolBackend === 'docker') {
+      return new ContainerSandboxManager(options, {
+        runtime: sandbox.toolBackend,
+        image: sandbox.toolImage,
+      });
+    }
     if (os.platform() === 'win32') {
       return new WindowsSandboxManager(options);
     } else if (os.platform() === 'linux') {
@@ -7,6 +7,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { generateSummary, getPreviousSession } from './sessionSummaryUtils.js';
 import type { Config } from '../config/config.js';
+import type { Storage } from '../config/storage.js';
 import type { ContentGenerator } from '../core/contentGenerator.js';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
@@ -89,6 +90,17 @@ describe('sessionSummaryUtils', () => {
       expect(result).toBeNull();
     });
 
+    it('should look in the given storage', async () => {
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+      const storage = {
+        getProjectTempDir: vi.fn().mockReturnValue('/tmp/other'),
+      } as unknown as Storage;
+
+      await getPreviousSession(mockConfig, storage);
+
+      expect(fs.access).toHaveBeenCalledWith(path.join('/tmp/other', 'chats'));
+    });
+
     it('should return null if no session files exist', async () => {
       vi.mocked(fs.access).mockResolvedValue(undefined);
       mockReaddir.mockResolvedValue([]);
@@ -5,6 +5,7 @@
  */
 
 import type { Config } from '../config/config.js';
+import type { Storage } from '../config/storage.js';
 import { SessionSummaryService } from './sessionSummaryService.js';
 import { BaseLlmClient } from '../core/baseLlmClient.js';
 import { debugLogger } from '../utils/debugLogger.js';
@@ -96,9 +97,10 @@ async function generateAndSaveSummary(
  */
 export async function getPreviousSession(
   config: Config,
+  storage: Storage = config.storage,
 ): Promise<string | null> {
   try {
-    const chatsDir = path.join(config.storage.getProjectTempDir(), 'chats');
+    const chatsDir = path.join(storage.getProjectTempDir(), 'chats');
 
     // Check if chats directory exists
     try {
@@ -164,12 +166,16 @@ export async function getPreviousSession(
 }
 
 /**
- * Generates summary for the previous session if it lacks one.
+ * Generates summary for the previous session if it lacks one. Sessions are
+ * looked up in `storage`, which defaults to the current project's.
  * This is designed to be called fire-and-forget on startup.
  */
-export async function generateSummary(config: Config): Promise<void> {
+export async function generateSummary(
+  config: Config,
+  storage: Storage = config.storage,
+): Promise<void> {
   try {
-    const sessionPath = await getPreviousSession(config);
+    const sessionPath = await getPreviousSession(config, storage);
     if (sessionPath) {
       await generateAndSaveSummary(config, sessionPath);
     }
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportTrackerTasks,
+  getTrackerExportFormat,
+  parseTrackerTasks,
+} from './trackerExport.js';
+import { TaskStatus, TaskType, type TrackerTask } from './trackerTypes.js';
+
+const createTask = (
+  id: string,
+  overrides: Partial<TrackerTask> = {},
+): TrackerTask => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  type: TaskType.TASK,
+  status: TaskStatus.OPEN,
+  dependencies: [],
+  ...overrides,
+});
+
+const tasks: TrackerTask[] = [
+  createTask('child1', {
+    parentId: 'epic01',
+    title: 'Write schema',
+    description: 'Tables for users.\n\nAnd for sessions.',
+    status: TaskStatus.CLOSED,
+  }),
+  createTask('epic01', { type: TaskType.EPIC, title: 'Storage' }),
+  createTask('child2', {
+    parentId: 'epic01',
+    type: TaskType.BUG,
+    title: 'Fix migration',
+    status: TaskStatus.IN_PROGRESS,
+    dependencies: ['child1'],
+    subagentSessionId: 'session-1',
+    metadata: { owner: 'db' },
+  }),
+];
+
+describe('getTrackerExportFormat', () => {
+  it('infers the format from the file extension', () => {
+    expect(getTrackerExportFormat('plan.jsonl')).toBe('jsonl');
+    expect(getTrackerExportFormat('plan.JSON')).toBe('jsonl');
+    expect(getTrackerExportFormat('plan.md')).toBe('markdown');
+    expect(getTrackerExportFormat('plan')).toBe('markdown');
+  });
+});
+
+describe('exportTrackerTasks', () => {
+  it('writes a nested Markdown checklist', () => {
+    expect(exportTrackerTasks(tasks, 'markdown')).toBe(
+      [
+        '# Task tracker',
+        '',
+        '- [ ] [EPIC] Storage <!-- tracker: {"id":"epic01","status":"open"} -->',
+        '  - [x] [TASK] Write schema <!-- tracker: {"id":"child1","status":"closed"} -->',
+        '    Tables for users.',
+        '',
+        '    And for sessions.',
+        '  - [ ] [BUG] Fix migration <!-- tracker: {"id":"child2","status":"in_progress","dependencies":["child1"],"subagentSessionId":"session-1","metadata":{"owner":"db"}} -->',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('writes one task per line for JSONL, parents first', () => {
+    const lines = exportTrackerTasks(tasks, 'jsonl').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual([
+      'epic01',
+      'child1',
+      'child2',
+    ]);
+  });
+});
+
+describe('parseTrackerTasks', () => {
+  const sortById = (list: TrackerTask[]) =>
+    [...list].sort((a, b) => a.id.localeCompare(b.id));
+
+  it.each(['markdown', 'jsonl'] as const)('round trips %s', (format) => {
+    const parsed = parseTrackerTasks(exportTrackerTasks(tasks, format), format);
+    expect(sortById(parsed)).toEqual(sortById(tasks));
+  });
+
+  it('lets the checkbox override the recorded status', () => {
+    const parsed = parseTrackerTasks(
+      [
+        '- [x] Ticked <!-- tracker: {"id":"aaaaaa","status":"in_progress"} -->',
+        '- [ ] Unticked <!-- tracker: {"id":"bbbbbb","status":"closed"} -->',
+        '- [ ] Blocked <!-- tracker: {"id":"cccccc","status":"blocked"} -->',
+      ].join('\n'),
+      'markdown',
+    );
+    expect(parsed.map((task) => task.status)).toEqual([
+      TaskStatus.CLOSED,
+      TaskStatus.OPEN,
+      TaskStatus.BLOCKED,
+    ]);
+  });
+
+  it('gives new IDs to items added by hand', () => {
+    const parsed = parseTrackerTasks(
+      [
+        '- [ ] [EPIC] Storage <!-- tracker: {"id":"epic01","status":"open"} -->',
+        '  - [ ] [BUG] Handle empty tables',
+        '  - [ ] Add an index',
+      ].join('\n'),
+      'markdown',
+    );
+    expect(parsed).toHaveLength(3);
+    expect(parsed[1]).toMatchObject({
+      type: TaskType.BUG,
+      title: 'Handle empty tables',
+      parentId: 'epic01',
+    });
+    expect(parsed[1].id).toMatch(/^[0-9a-f]{6}$/);
+    expect(parsed[2]).toMatchObject({
+      type: TaskType.TASK,
+      title: 'Add an index',
+      parentId: 'epic01',
+    });
+  });
+
+  it('reports the line of invalid metadata', () => {
+    expect(() =>
+      parseTrackerTasks(
+        '# Plan\n\n- [ ] Broken <!-- tracker: {"id":} -->',
+        'markdown',
+      ),
+    ).toThrow('Invalid tracker metadata on line 3.');
+    expect(() =>
+      parseTrackerTasks('{"id":"aaaaaa","title":"x"}\n', 'jsonl'),
+    ).toThrow(/^Invalid task on line 1:/);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { z } from 'zod';
+import { generateTrackerTaskId } from './trackerService.js';
+import {
+  TaskStatus,
+  TaskType,
+  TrackerTaskSchema,
+  TASK_TYPE_LABELS,
+  type TrackerTask,
+} from './trackerTypes.js';
+
+export type TrackerExportFormat = 'markdown' | 'jsonl';
+
+// Items added by hand during review have no id yet and get a new one.
+const ImportedTrackerTaskSchema = TrackerTaskSchema.extend({
+  id: TrackerTaskSchema.shape.id.optional(),
+});
+
+const MARKDOWN_HEADING = '# Task tracker';
+
+// Fields that have no visible representation in the Markdown checklist are
+// kept in an HTML comment, which GitHub hides when rendering.
+const MarkdownTaskCommentSchema = z.object({
+  id: TrackerTaskSchema.shape.id.optional(),
+  status: TrackerTaskSchema.shape.status.optional(),
+  dependencies: TrackerTaskSchema.shape.dependencies.optional(),
+  subagentSessionId: TrackerTaskSchema.shape.subagentSessionId,
+  metadata: TrackerTaskSchema.shape.metadata,
+});
+
+const TASK_LINE_REGEX = /^(\s*)[-*] \[([ xX])\] (.*)$/;
+const TASK_COMMENT_REGEX = /\s*<!--\s*tracker:\s*(\{.*\})\s*-->\s*$/;
+
+/**
+ * Infers the export format from a file name, defaulting to Markdown.
+ */
+export function getTrackerExportFormat(fileName: string): TrackerExportFormat {
+  return /\.jsonl?$/i.test(fileName) ? 'jsonl' : 'markdown';
+}
+
+/**
+ * Orders tasks so that every parent comes before its children, keeping the
+ * input order otherwise. Returns the depth of each task alongside it.
+ */
+function orderByHierarchy(
+  tasks: readonly TrackerTask[],
+): Array<{ task: TrackerTask; depth: number }> {
+  const ids = new Set(tasks.map((task) => task.id));
+  const childrenMap = new Map<string, TrackerTask[]>();
+  const roots: TrackerTask[] = [];
+  for (const task of tasks) {
+    if (task.parentId && ids.has(task.parentId)) {
+      const children = childrenMap.get(task.parentId) ?? [];
+      children.push(task);
+      childrenMap.set(task.parentId, children);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const ordered: Array<{ task: TrackerTask; depth: number }> = [];
+  const visited = new Set<string>();
+  const visit = (task: TrackerTask, depth: number) => {
+    if (visited.has(task.id)) {
+      return;
+    }
+    visited.add(task.id);
+    ordered.push({ task, depth });
+    for (const child of childrenMap.get(task.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  for (const root of roots) {
+    visit(root, 0);
+  }
+  return ordered;
+}
+
+function toMarkdown(tasks: readonly TrackerTask[]): string {
+  const lines = [MARKDOWN_HEADING, ''];
+  for (const { task, depth } of orderByHierarchy(tasks)) {
+    const indent = '  '.repeat(depth);
+    const checkbox = task.status === TaskStatus.CLOSED ? '[x]' : '[ ]';
+    const comment = JSON.stringify({
+      id: task.id,
+      status: task.status,
+      ...(task.dependencies.length > 0 && {
+        dependencies: task.dependencies,
+      }),
+      ...(task.subagentSessionId && {
+        subagentSessionId: task.subagentSessionId,
+      }),
+      ...(task.metadata && { metadata: task.metadata }),
+    });
+    const title = task.title.replace(/\s*\n\s*/g, ' ');
+    lines.push(
+      `${indent}- ${checkbox} ${TASK_TYPE_LABELS[task.type]} ${title} <!-- tracker: ${comment} -->`,
+    );
+    if (task.description.trim()) {
+      for (const line of task.description.trimEnd().split('\n')) {
+        lines.push(line.trim() ? `${indent}  ${line}` : '');
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toJsonLines(tasks: readonly TrackerTask[]): string {
+  return orderByHierarchy(tasks)
+    .map(({ task }) => JSON.stringify(task) + '\n')
+    .join('');
+}
+
+/**
+ * Serializes tracker tasks as a GitHub-style Markdown checklist or as JSON
+ * Lines. Parents always precede their children.
+ */
+export function exportTrackerTasks(
+  tasks: readonly TrackerTask[],
+  format: TrackerExportFormat,
+): string {
+  return format === 'jsonl' ? toJsonLines(tasks) : toMarkdown(tasks);
+}
+
+function parseTypeAndTitle(text: string): { type: TaskType; title: string } {
+  for (const type of Object.values(TaskType)) {
+    const label = TASK_TYPE_LABELS[type];
+    if (text.toUpperCase().startsWith(label)) {
+      return { type, title: text.slice(label.length).trim() };
+    }
+  }
+  return { type: TaskType.TASK, title: text.trim() };
+}
+
+function parseMarkdown(content: string): TrackerTask[] {
+  const tasks: TrackerTask[] = [];
+  // Open items, innermost last, used to find the parent of nested items.
+  const stack: Array<{ indent: number; task: TrackerTask }> = [];
+  let descriptionLines: string[] = [];
+
+  const flushDescription = () => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.task.description = descriptionLines.join('\n').trim();
+    }
+    descriptionLines = [];
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const match = TASK_LINE_REGEX.exec(line);
+    if (!match) {
+      const current = stack[stack.length - 1];
+      if (current && (!line.trim() || /^\s/.test(line))) {
+        const leading = line.length - line.trimStart().length;
+        descriptionLines.push(
+          line.slice(Math.min(leading, current.indent + 2)),
+        );
+      }
+      return;
+    }
+
+    flushDescription();
+    const [, indentText, checkbox, rest] = match;
+    const indent = indentText.length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    let comment: z.infer<typeof MarkdownTaskCommentSchema> = {};
+    const commentMatch = TASK_COMMENT_REGEX.exec(rest);
+    if (commentMatch) {
+      let data: unknown;
+      try {
+        data = JSON.parse(commentMatch[1]);
+      } catch {
+        throw new Error(`Invalid tracker metadata on line ${index + 1}.`);
+      }
+      const parsed = MarkdownTaskCommentSchema.safeParse(data);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid tracker metadata on line ${index + 1}: ${parsed.error.message}`,
+        );
+      }
+      comment = parsed.data;
+    }
+    const text = commentMatch ? rest.slice(0, commentMatch.index) : rest;
+
+    // The checkbox wins over the recorded status so that ticking or unticking
+    // an item during review changes the task.
+    let status = comment.status ?? TaskStatus.OPEN;
+    if (checkbox !== ' ') {
+      status = TaskStatus.CLOSED;
+    } else if (status === TaskStatus.CLOSED) {
+      status = TaskStatus.OPEN;
+    }
+
+    const parent = stack[stack.length - 1]?.task;
+    const task: TrackerTask = {
+      ...parseTypeAndTitle(text),
+      id: comment.id ?? generateTrackerTaskId(),
+      description: '',
+      status,
+      dependencies: comment.dependencies ?? [],
+      ...(parent && { parentId: parent.id }),
+      ...(comment.subagentSessionId && {
+        subagentSessionId: comment.subagentSessionId,
+      }),
+      ...(comment.metadata && { metadata: comment.metadata }),
+    };
+    tasks.push(task);
+    stack.push({ indent, task });
+  });
+  flushDescription();
+
+  return tasks;
+}
+
+function parseJsonLines(content: string): TrackerTask[] {
+  const tasks: TrackerTask[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1}.`);
+    }
+    const parsed = ImportedTrackerTaskSchema.safeParse(data);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid task on line ${index + 1}: ${parsed.error.message}`,
+      );
+    }
+    tasks.push({
+      ...parsed.data,
+      id: parsed.data.id ?? generateTrackerTaskId(),
+    });
+  });
+  return tasks;
+}
+
+/**
+ * Parses tasks previously written by `exportTrackerTasks`. Tasks without an
+ * id, such as items added by hand during review, are given a new one.
+ */
+export function parseTrackerTasks(
+  content: string,
+  format: TrackerExportFormat,
+): TrackerTask[] {
+  return format === 'jsonl' ? parseJsonLines(content) : parseMarkdown(content);
+}
@@ -139,4 +139,98 @@ describe('TrackerService', () => {
       service.updateTask(taskA.id, { dependencies: [taskB.id] }),
     ).rejects.toThrow(/Circular dependency detected/);
   });
+
+  describe('importTasks', () => {
+    const makeTask = (
+      id: string,
+      overrides: Partial<TrackerTask> = {},
+    ): TrackerTask => ({
+      id,
+      title: `Task ${id}`,
+      description: '',
+      type: TaskType.TASK,
+      status: TaskStatus.OPEN,
+      dependencies: [],
+      ...overrides,
+    });
+
+    it('should keep imported IDs and merge with existing tasks', async () => {
+      const existing = await service.createTask({
+        title: 'Existing',
+        description: '',
+        type: TaskType.TASK,
+        status: TaskStatus.OPEN,
+        dependencies: [],
+      });
+
+      await service.importTasks([
+        makeTask('aaaaaa', { type: TaskType.EPIC }),
+        makeTask('bbbbbb', {
+          parentId: 'aaaaaa',
+          dependencies: [existing.id],
+          subagentSessionId: 'session-1',
+        }),
+      ]);
+
+      const tasks = await service.listTasks();
+      expect(tasks.map((t) => t.id).sort()).toEqual(
+        ['aaaaaa', 'bbbbbb', existing.id].sort(),
+      );
+      expect(await service.getTask('bbbbbb')).toMatchObject({
+        parentId: 'aaaaaa',
+        dependencies: [existing.id],
+        subagentSessionId: 'session-1',
+      });
+    });
+
+    it('should delete tasks missing from the import when replacing', async () => {
+      const existing = await service.createTask({
+        title: 'Existing',
+        description: '',
+        type: TaskType.TASK,
+        status: TaskStatus.OPEN,
+        dependencies: [],
+      });
+
+      await service.importTasks([makeTask('aaaaaa')], { replace: true });
+
+      expect(await service.getTask(existing.id)).toBeNull();
+      expect((await service.listTasks()).map((t) => t.id)).toEqual(['aaaaaa']);
+    });
+
+    it('should reject unknown dependencies without writing anything', async () => {
+      await expect(
+        service.importTasks([
+          makeTask('aaaaaa'),
+          makeTask('bbbbbb', { dependencies: ['cccccc'] }),
+        ]),
+      ).rejects.toThrow('Dependency cccccc not found for task bbbbbb.');
+      expect(await service.listTasks()).toEqual([]);
+    });
+
+    it('should reject circular dependencies across the import', async () => {
+      await expect(
+        service.importTasks([
+          makeTask('aaaaaa', { dependencies: ['bbbbbb'] }),
+          makeTask('bbbbbb', { dependencies: ['aaaaaa'] }),
+        ]),
+      ).rejects.toThrow(/Circular dependency detected/);
+    });
+
+    it('should reject duplicate IDs', async () => {
+      await expect(
+        service.importTasks([makeTask('aaaaaa'), makeTask('aaaaaa')]),
+      ).rejects.toThrow('Duplicate task ID aaaaaa in import.');
+    });
+
+    it('should reject IDs that are not generated task IDs without writing anything', async () => {
+      await expect(
+        service.importTasks([makeTask('aaaaaa'), makeTask('../abc')]),
+      ).rejects.toThrow('Invalid task ID ../abc in import.');
+      expect(await service.listTasks()).toEqual([]);
+      await expect(
+        fs.access(path.join(path.dirname(service.trackerDir), 'abc.json')),
+      ).rejects.toThrow();
+    });
+  });
 });
@@ -16,6 +16,18 @@ import {
 } from './trackerTypes.js';
 import { type z } from 'zod';
 
+/**
+ * Generates a 6-character hex ID.
+ */
+export function generateTrackerTaskId(): string {
+  return randomBytes(3).toString('hex');
+}
+
+// Imported IDs may use any lowercase letters and digits, not just the hex that
+// generateTrackerTaskId() creates. IDs name the task files, so anything else
+// could point outside the tracker directory.
+const TRACKER_TASK_ID_PATTERN = /^[a-z0-9]{6}$/;
+
 export class TrackerService {
   private readonly tasksDir: string;
 
@@ -32,11 +44,8 @@ export class TrackerService {
     }
   }
 
-  /**
-   * Generates a 6-character hex ID.
-   */
   private generateId(): string {
-    return randomBytes(3).toString('hex');
+    return generateTrackerTaskId();
   }
 
   /**
@@ -174,6 +183,63 @@ export class TrackerService {
     return updatedTask;
   }
 
+  /**
+   * Writes a batch of tasks, such as an imported plan, keeping their IDs.
+   * The resulting graph is validated as a whole before anything is written.
+   * With `replace`, tasks that are not part of the batch are deleted.
+   */
+  async importTasks(
+    tasks: TrackerTask[],
+    options: { replace?: boolean } = {},
+  ): Promise<TrackerTask[]> {
+    await this.ensureInitialized();
+    const existing = await this.listTasks();
+
+    const imported = new Map<string, TrackerTask>();
+    for (const task of tasks) {
+      if (!TRACKER_TASK_ID_PATTERN.test(task.id)) {
+        throw new Error(`Invalid task ID ${task.id} in import.`);
+      }
+      if (imported.has(task.id)) {
+        throw new Error(`Duplicate task ID ${task.id} in import.`);
+      }
+      imported.set(task.id, TrackerTaskSchema.parse(task));
+    }
+
+    const finalTasks = new Map<string, TrackerTask>(
+      options.replace ? [] : existing.map((task) => [task.id, task]),
+    );
+    for (const task of imported.values()) {
+      finalTasks.set(task.id, task);
+    }
+
+    for (const task of imported.values()) {
+      if (task.parentId && !finalTasks.has(task.parentId)) {
+        throw new Error(`Parent task with ID ${task.parentId} not found.`);
+      }
+      for (const depId of task.dependencies) {
+        if (!finalTasks.has(depId)) {
+          throw new Error(`Dependency ${depId} not found for task ${task.id}.`);
+        }
+      }
+    }
+    this.validateGraphHasNoCycles(finalTasks);
+
+    if (options.replace) {
+      for (const task of existing) {
+        if (!imported.has(task.id)) {
+          await fs.rm(path.join(this.tasksDir, `${task.id}.json`), {
+            force: true,
+          });
+        }
+      }
+    }
+    for (const task of imported.values()) {
+      await this.saveTask(task);
+    }
+    return [...imported.values()];
+  }
+
   /**
    * Saves a task to disk.
    */
@@ -242,4 +308,34 @@ export class TrackerService {
 
     await check(task.id);
   }
+
+  /**
+   * Validates that a complete set of tasks has no circular dependencies.
+   */
+  private validateGraphHasNoCycles(tasks: Map<string, TrackerTask>): void {
+    const visited = new Set<string>();
+    const stack = new Set<string>();
+
+    const check = (currentId: string) => {
+      if (stack.has(currentId)) {
+        throw new Error(
+          `Circular dependency detected involving task ${currentId}.`,
+        );
+      }
+      if (visited.has(currentId)) {
+        return;
+      }
+
+      visited.add(currentId);
+      stack.add(currentId);
+      for (const depId of tasks.get(currentId)?.dependencies ?? []) {
+        check(depId);
+      }
+      stack.delete(currentId);
+    };
+
+    for (const id of tasks.keys()) {
+      check(id);
+    }
+  }
 }
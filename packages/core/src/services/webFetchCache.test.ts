@@ -0,0 +1,185 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { WebFetchCache } from './webFetchCache.js';
+
+describe('WebFetchCache', () => {
+  let tempDir: string;
+  let cache: WebFetchCache;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-webfetch-'));
+    cache = new WebFetchCache(path.join(tempDir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined for unknown URLs', async () => {
+    await expect(cache.get('https://example.com/')).resolves.toBeUndefined();
+  });
+
+  it('should store and return responses with their validators', async () => {
+    await cache.set('https://example.com/page', {
+      headers: new Headers({
+        etag: '"abc"',
+        'last-modified': 'Wed, 21 Oct 2026 07:28:00 GMT',
+      }),
+      contentType: 'text/html',
+      body: '<p>Hello</p>',
+    });
+
+    const entry = await cache.get('https://example.com/page');
+    expect(entry).toMatchObject({
+      url: 'https://example.com/page',
+      etag: '"abc"',
+      lastModified: 'Wed, 21 Oct 2026 07:28:00 GMT',
+      contentType: 'text/html',
+      body: '<p>Hello</p>',
+    });
+    expect(cache.getRevalidationHeaders(entry!)).toEqual({
+      'If-None-Match': '"abc"',
+      'If-Modified-Since': 'Wed, 21 Oct 2026 07:28:00 GMT',
+    });
+  });
+
+  it('should ignore the URL fragment', async () => {
+    await cache.set('https://example.com/page#intro', {
+      headers: new Headers(),
+      contentType: 'text/plain',
+      body: 'text',
+    });
+
+    expect(await cache.get('https://example.com/page#usage')).toMatchObject({
+      body: 'text',
+    });
+  });
+
+  it('should not store responses marked no-store', async () => {
+    await cache.set('https://example.com/private', {
+      headers: new Headers({ 'cache-control': 'private, no-store' }),
+      contentType: 'text/plain',
+      body: 'secret',
+    });
+
+    await expect(
+      cache.get('https://example.com/private'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should treat recent entries as fresh', async () => {
+    await cache.set('https://example.com/', {
+      headers: new Headers(),
+      contentType: 'text/plain',
+      body: 'text',
+    });
+    const entry = (await cache.get('https://example.com/'))!;
+
+    expect(cache.isFresh(entry)).toBe(true);
+    expect(cache.isFresh(entry, entry.fetchedAt + 10 * 60 * 1000)).toBe(false);
+  });
+
+  it('should derive freshness from Cache-Control', async () => {
+    const freshness = async (headers: Record<string, string>) => {
+      await cache.set('https://example.com/', {
+        headers: new Headers(headers),
+        contentType: 'text/plain',
+        body: 'text',
+      });
+      const entry = (await cache.get('https://example.com/'))!;
+      return [
+        cache.isFresh(entry, entry.fetchedAt + 60 * 1000),
+        cache.isFresh(entry, entry.fetchedAt + 30 * 60 * 1000),
+      ];
+    };
+
+    expect(await freshness({ 'cache-control': 'max-age=3600' })).toEqual([
+      true,
+      true,
+    ]);
+    expect(
+      await freshness({ 'cache-control': 'max-age=3600', age: '3590' }),
+    ).toEqual([false, false]);
+    expect(await freshness({ 'cache-control': 'no-cache' })).toEqual([
+      false,
+      false,
+    ]);
+    expect(await freshness({ 'cache-control': 'must-revalidate' })).toEqual([
+      false,
+      false,
+    ]);
+    expect(await freshness({})).toEqual([true, false]);
+  });
+
+  it('should keep entries for different Accept headers apart', async () => {
+    await cache.set(
+      'https://example.com/',
+      {
+        headers: new Headers({ vary: 'Accept, Accept-Encoding' }),
+        contentType: 'application/json',
+        body: '{}',
+      },
+      'application/json',
+    );
+
+    await expect(
+      cache.get('https://example.com/', 'text/html'),
+    ).resolves.toBeUndefined();
+    expect(
+      await cache.get('https://example.com/', 'application/json'),
+    ).toMatchObject({ body: '{}' });
+  });
+
+  it('should not store responses that vary on other request headers', async () => {
+    await cache.set('https://example.com/', {
+      headers: new Headers({ vary: 'Cookie' }),
+      contentType: 'text/plain',
+      body: 'personalized',
+    });
+
+    await expect(cache.get('https://example.com/')).resolves.toBeUndefined();
+  });
+
+  it('should refresh the fetch time on touch', async () => {
+    await cache.set('https://example.com/', {
+      headers: new Headers(),
+      contentType: 'text/plain',
+      body: 'text',
+    });
+    const entry = (await cache.get('https://example.com/'))!;
+
+    await cache.touch({ ...entry, fetchedAt: 0 });
+
+    const touched = (await cache.get('https://example.com/'))!;
+    expect(touched.fetchedAt).toBeGreaterThanOrEqual(entry.fetchedAt);
+    expect(touched.body).toBe('text');
+
+    await cache.touch(
+      touched,
+      new Headers({ 'cache-control': 'max-age=3600' }),
+    );
+    expect((await cache.get('https://example.com/'))!.freshForMs).toBe(
+      3600 * 1000,
+    );
+  });
+
+  it('should ignore corrupt entries', async () => {
+    await cache.set('https://example.com/', {
+      headers: new Headers(),
+      contentType: 'text/plain',
+      body: 'text',
+    });
+    const [file] = await fs.readdir(path.join(tempDir, 'cache'));
+    await fs.writeFile(path.join(tempDir, 'cache', file), '{not json');
+
+    await expect(cache.get('https://example.com/')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { debugLogger } from '../utils/debugLogger.js';
+import { isNodeError } from '../utils/errors.js';
+
+export interface WebFetchCacheEntry {
+  url: string;
+  /** The Accept header the body was requested with. */
+  accept?: string;
+  /** When the body was last fetched or revalidated, in ms since the epoch. */
+  fetchedAt: number;
+  /** How long after `fetchedAt` the entry is fresh, from Cache-Control. */
+  freshForMs?: number;
+  etag?: string;
+  lastModified?: string;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Entries this recent are served without asking the server, unless the
+ * response said otherwise.
+ */
+const DEFAULT_FRESH_FOR_MS = 5 * 60 * 1000;
+/** Bodies larger than this are not cached. */
+const MAX_CACHED_BODY_LENGTH = 5 * 1024 * 1024;
+const MAX_ENTRIES = 500;
+/**
+ * Request headers a response may vary on and still be cached: Accept is part
+ * of the cache key, and the others don't change between requests.
+ */
+const CACHEABLE_VARY_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'user-agent',
+]);
+
+/**
+ * Returns how long a response may be served without revalidation, based on
+ * its Cache-Control and Age headers.
+ */
+function getFreshnessLifetime(headers: Headers): number {
+  const cacheControl = headers.get('cache-control') ?? '';
+  if (/\bno-cache\b/i.test(cacheControl)) {
+    return 0;
+  }
+  const maxAge = /\bmax-age\s*=\s*"?(\d+)/i.exec(cacheControl);
+  if (maxAge) {
+    const age = Number(headers.get('age')) || 0;
+    return Math.max(Number(maxAge[1]) - age, 0) * 1000;
+  }
+  return /\bmust-revalidate\b/i.test(cacheControl) ? 0 : DEFAULT_FRESH_FOR_MS;
+}
+
+/**
+ * On-disk cache of fetched web pages, keyed by URL and Accept header. Entries
+ * are reused as is while Cache-Control allows it, or for a few minutes when
+ * it says nothing; older ones are revalidated with their ETag or
+ * Last-Modified date so that unchanged pages aren't downloaded again.
+ */
+export class WebFetchCache {
+  constructor(private readonly cacheDir: string) {}
+
+  private getEntryPath(url: string, accept?: string): string {
+    let key = url;
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      key = parsed.href;
+    } catch {
+      // Use the URL as given
+    }
+    if (accept) {
+      key += `\n${accept}`;
+    }
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.cacheDir, `${hash}.json`);
+  }
+
+  async get(
+    url: string,
+    accept?: string,
+  ): Promise<WebFetchCacheEntry | undefined> {
+    try {
+      const content = await fs.readFile(this.getEntryPath(url, accept), 'utf8');
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+      const entry = JSON.parse(content) as WebFetchCacheEntry;
+      return typeof entry.body === 'string' ? entry : undefined;
+    } catch (error) {
+      if (!isNodeError(error) || error.code !== 'ENOENT') {
+        debugLogger.debug(`[WebFetchCache] Ignoring unreadable entry:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  isFresh(entry: WebFetchCacheEntry, now = Date.now()): boolean {
+    return now - entry.fetchedAt < (entry.freshForMs ?? DEFAULT_FRESH_FOR_MS);
+  }
+
+  /**
+   * Returns the conditional request headers for revalidating an entry.
+   */
+  getRevalidationHeaders(entry: WebFetchCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Stores a successful response fetched with the given Accept header.
+   * Responses that forbid storing, that vary on other request headers, or
+   * that are too large, are skipped.
+   */
+  async set(
+    url: string,
+    response: { headers: Headers; contentType: string; body: string },
+    accept?: string,
+  ): Promise<void> {
+    const cacheControl = response.headers.get('cache-control') ?? '';
+    const vary = (response.headers.get('vary') ?? '')
+      .split(',')
+      .map((header) => header.trim().toLowerCase())
+      .filter(Boolean);
+    if (
+      /\bno-store\b/i.test(cacheControl) ||
+      vary.some((header) => !CACHEABLE_VARY_HEADERS.has(header)) ||
+      response.body.length > MAX_CACHED_BODY_LENGTH
+    ) {
+      return;
+    }
+    const entry: WebFetchCacheEntry = {
+      url,
+      accept,
+      fetchedAt: Date.now(),
+      freshForMs: getFreshnessLifetime(response.headers),
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      contentType: response.contentType,
+      body: response.body,
+    };
+    await this.write(entry);
+  }
+
+  /**
+   * Marks an entry as fresh again after the server confirmed it is unchanged.
+   * Cache-Control sent with the confirmation replaces the stored one.
+   */
+  async touch(entry: WebFetchCacheEntry, headers?: Headers): Promise<void> {
+    await this.write({
+      ...entry,
+      fetchedAt: Date.now(),
+      ...(headers?.has('cache-control') && {
+        freshForMs: getFreshnessLifetime(headers),
+      }),
+    });
+  }
+
+  private async write(entry: WebFetchCacheEntry): Promise<void> {
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(
+        this.getEntryPath(entry.url, entry.accept),
+        JSON.stringify(entry),
+      );
+      await this.prune();
+    } catch (error) {
+      debugLogger.debug(`[WebFetchCache] Failed to write entry:`, error);
+    }
+  }
+
+  /**
+   * Removes the least recently fetched entries beyond the size limit.
+   */
+  private async prune(): Promise<void> {
+    const files = (await fs.readdir(this.cacheDir)).filter((file) =>
+      file.endsWith('.json'),
+    );
+    if (files.length <= MAX_ENTRIES) {
+      return;
+    }
+    const stats = await Promise.all(
+      files.map(async (file) => {
+        const filePath = path.join(this.cacheDir, file);
+        return { filePath, mtimeMs: (await fs.stat(filePath)).mtimeMs };
+      }),
+    );
+    stats.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    await Promise.all(
+      stats
+        .slice(0, files.length - MAX_ENTRIES)
+        .map(({ filePath }) => fs.rm(filePath, { force: true })),
+    );
+  }
+}
@@ -14,6 +14,8 @@ import {
   hasWorktreeChanges,
   cleanupWorktree,
   getWorktreePath,
+  getWorktreePatch,
+  applyWorktreePatch,
   WorktreeService,
 } from './worktreeService.js';
 import { execa } from 'execa';
@@ -228,6 +230,52 @@ describe('worktree utilities', () => {
       );
     });
   });
+
+  describe('getWorktreePatch', () => {
+    it('should include untracked files and diff against the base commit', async () => {
+      vi.mocked(execa)
+        .mockResolvedValueOnce({ stdout: '' } as never) // add --intent-to-add
+        .mockResolvedValueOnce({ stdout: 'diff --git a/a b/a\n' } as never);
+
+      const patch = await getWorktreePatch(expectedPath, 'base-sha');
+
+      expect(patch).toBe('diff --git a/a b/a\n');
+      expect(execa).toHaveBeenNthCalledWith(
+        1,
+        'git',
+        ['add', '--intent-to-add', '--all'],
+        { cwd: expectedPath },
+      );
+      expect(execa).toHaveBeenNthCalledWith(
+        2,
+        'git',
+        ['diff', '--binary', 'base-sha'],
+        { cwd: expectedPath, stripFinalNewline: false },
+      );
+    });
+  });
+
+  describe('applyWorktreePatch', () => {
+    it('should apply the patch to the project working tree', async () => {
+      vi.mocked(execa).mockResolvedValue({ stdout: '' } as never);
+
+      await applyWorktreePatch(projectRoot, 'patch');
+
+      expect(execa).toHaveBeenCalledWith(
+        'git',
+        ['apply', '--whitespace=nowarn', '-'],
+        { cwd: projectRoot, input: 'patch' },
+      );
+    });
+
+    it('should propagate conflicts', async () => {
+      vi.mocked(execa).mockRejectedValue(new Error('patch does not apply'));
+
+      await expect(applyWorktreePatch(projectRoot, 'patch')).rejects.toThrow(
+        'patch does not apply',
+      );
+    });
+  });
 });
 
 describe('WorktreeService', () => {
@@ -223,3 +223,35 @@ export async function cleanupWorktree(
     }
   }
 }
+
+/**
+ * Returns the changes in a worktree relative to `baseSha` as a binary-safe
+ * patch, including commits made in the worktree and untracked files.
+ */
+export async function getWorktreePatch(
+  dirPath: string,
+  baseSha: string,
+): Promise<string> {
+  // Record untracked files as intent-to-add so they show up in the diff.
+  await execa('git', ['add', '--intent-to-add', '--all'], { cwd: dirPath });
+  const { stdout } = await execa('git', ['diff', '--binary', baseSha], {
+    cwd: dirPath,
+    stripFinalNewline: false,
+  });
+  return stdout;
+}
+
+/**
+ * Applies a patch produced by {@link getWorktreePatch} to the working tree of
+ * `projectRoot`. Nothing is staged or committed. Throws if the patch does not
+ * apply cleanly, in which case the working tree is left untouched.
+ */
+export async function applyWorktreePatch(
+  projectRoot: string,
+  patch: string,
+): Promise<void> {
+  await execa('git', ['apply', '--whitespace=nowarn', '-'], {
+    cwd: projectRoot,
+    input: patch,
+  });
+}
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Config } from '../config/config.js';
+import type { AnyDeclarativeTool } from '../tools/tools.js';
+import { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyDecision } from '../policy/types.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+import { SkillScriptTool } from '../tools/skill-script.js';
+import { SkillManager } from './skillManager.js';
+import { SKILL_POLICY_SOURCE, applyActiveSkills } from './skillActivation.js';
+
+describe('applyActiveSkills', () => {
+  let skillManager: SkillManager;
+  let policyEngine: PolicyEngine;
+  let tools: Map<string, AnyDeclarativeTool>;
+  let setTools: ReturnType<typeof vi.fn>;
+  let config: Config;
+
+  const decide = async (name: string) =>
+    (await policyEngine.check({ name, args: {} }, undefined)).decision;
+  const invokeAgent = async (agentName: string) =>
+    (
+      await policyEngine.check(
+        {
+          name: 'invoke_agent',
+          args: { agent_name: agentName, prompt: 'Hello' },
+        },
+        undefined,
+      )
+    ).decision;
+
+  beforeEach(() => {
+    skillManager = new SkillManager();
+    skillManager.addSkills([
+      {
+        name: 'reviewer',
+        description: 'Reviews code',
+        location: '/skills/reviewer/SKILL.md',
+        body: '',
+        allowedTools: ['read_file', 'search_file_content'],
+        scripts: [
+          {
+            name: 'diff',
+            description: 'Shows the diff',
+            path: '/skills/reviewer/scripts/diff.sh',
+          },
+        ],
+      },
+      {
+        name: 'writer',
+        description: 'Writes docs',
+        location: '/skills/writer/SKILL.md',
+        body: '',
+      },
+      {
+        name: 'delegator',
+        description: 'Delegates to subagents',
+        location: '/skills/delegator/SKILL.md',
+        body: '',
+        allowedTools: ['invoke_agent'],
+      },
+      {
+        name: 'investigator',
+        description: 'Investigates the codebase',
+        location: '/skills/investigator/SKILL.md',
+        body: '',
+        allowedTools: ['codebase_investigator'],
+      },
+    ]);
+    policyEngine = new PolicyEngine({ defaultDecision: PolicyDecision.ALLOW });
+    tools = new Map(
+      ['read_file', 'grep_search', 'run_shell_command', 'activate_skill'].map(
+        (name) => [name, { name } as AnyDeclarativeTool],
+      ),
+    );
+    setTools = vi.fn();
+    config = {
+      getSkillManager: () => skillManager,
+      getPolicyEngine: () => policyEngine,
+      getToolRegistry: () => ({
+        getTool: (name: string) => tools.get(name),
+        registerTool: (tool: AnyDeclarativeTool) => tools.set(tool.name, tool),
+        getAllToolNames: () => Array.from(tools.keys()),
+        getMessageBus: () => createMockMessageBus(),
+      }),
+      getAgentRegistry: () => ({
+        getDefinition: (name: string) =>
+          ['codebase_investigator', 'generalist'].includes(name)
+            ? { name }
+            : undefined,
+      }),
+      geminiClient: { isInitialized: () => true, setTools },
+    } as unknown as Config;
+  });
+
+  it('does nothing for skills without allowed tools', async () => {
+    skillManager.activateSkill('writer');
+
+    await applyActiveSkills(config);
+
+    expect(policyEngine.getRules()).toHaveLength(0);
+    expect(await decide('run_shell_command')).toBe(PolicyDecision.ALLOW);
+  });
+
+  it('registers scripts and denies tools outside allowed-tools', async () => {
+    skillManager.activateSkill('reviewer');
+
+    await applyActiveSkills(config);
+
+    expect(tools.get('skill_reviewer_diff')).toBeInstanceOf(SkillScriptTool);
+    expect(await decide('run_shell_command')).toBe(PolicyDecision.DENY);
+    expect(await decide('read_file')).toBe(PolicyDecision.ALLOW);
+    // Legacy aliases in allowed-tools cover the current tool name.
+    expect(await decide('grep_search')).toBe(PolicyDecision.ALLOW);
+    expect(await decide('skill_reviewer_diff')).toBe(PolicyDecision.ALLOW);
+    expect(await decide('activate_skill')).toBe(PolicyDecision.ALLOW);
+    expect(setTools).toHaveBeenCalled();
+  });
+
+  it('denies tools registered after activation', async () => {
+    skillManager.activateSkill('reviewer');
+    await applyActiveSkills(config);
+
+    tools.set('mcp_github_create_issue', {
+      name: 'mcp_github_create_issue',
+    } as AnyDeclarativeTool);
+
+    expect(await decide('mcp_github_create_issue')).toBe(PolicyDecision.DENY);
+    expect(await decide('read_file')).toBe(PolicyDecision.ALLOW);
+  });
+
+  it('allows every subagent when invoke_agent is listed', async () => {
+    skillManager.activateSkill('delegator');
+
+    await applyActiveSkills(config);
+
+    expect(await invokeAgent('codebase_investigator')).toBe(
+      PolicyDecision.ALLOW,
+    );
+    expect(await invokeAgent('generalist')).toBe(PolicyDecision.ALLOW);
+  });
+
+  it('allows only the subagents listed by name', async () => {
+    skillManager.activateSkill('investigator');
+
+    await applyActiveSkills(config);
+
+    expect(await invokeAgent('codebase_investigator')).toBe(
+      PolicyDecision.ALLOW,
+    );
+    expect(await invokeAgent('generalist')).toBe(PolicyDecision.DENY);
+    expect(await decide('read_file')).toBe(PolicyDecision.DENY);
+    expect(
+      policyEngine.getExcludedTools(
+        undefined,
+        new Set(['invoke_agent', 'read_file']),
+      ),
+    ).toEqual(new Set(['read_file']));
+  });
+
+  it('leaves allowed tools to the other policy rules', async () => {
+    policyEngine.addRule({
+      toolName: 'read_file',
+      decision: PolicyDecision.ASK_USER,
+    });
+    skillManager.activateSkill('reviewer');
+
+    await applyActiveSkills(config);
+
+    expect(await decide('read_file')).toBe(PolicyDecision.ASK_USER);
+  });
+
+  it('replaces its rules when skills change', async () => {
+    skillManager.activateSkill('reviewer');
+    await applyActiveSkills(config);
+    const ruleCount = policyEngine.getRules().length;
+
+    skillManager.activateSkill('writer');
+    await applyActiveSkills(config);
+
+    const rules = policyEngine.getRules();
+    expect(rules).toHaveLength(ruleCount);
+    expect(rules.every((rule) => rule.source === SKILL_POLICY_SOURCE)).toBe(
+      true,
+    );
+  });
+});
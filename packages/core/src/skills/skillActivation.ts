@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import { PolicyDecision } from '../policy/types.js';
+import { SKILL_ALLOWED_TOOLS_PRIORITY } from '../policy/config.js';
+import {
+  ACTIVATE_SKILL_TOOL_NAME,
+  AGENT_TOOL_NAME,
+  getToolAliases,
+} from '../tools/tool-names.js';
+import {
+  SkillScriptTool,
+  getSkillScriptToolName,
+} from '../tools/skill-script.js';
+
+/** Source of the policy rules that enforce `allowed-tools`. */
+export const SKILL_POLICY_SOURCE = 'Skills (allowed-tools)';
+
+/**
+ * Applies what the active skills declare in their frontmatter. Bundled scripts
+ * are registered as tools. If any active skill lists `allowed-tools`, every
+ * other tool is denied through the policy engine; the allowed set is the union
+ * of all active skills' lists, plus their scripts and `activate_skill`.
+ * Subagents may be listed by name, which allows `invoke_agent` for just those
+ * agents. Allowed tools are left to the other rules, so they still ask for
+ * confirmation as usual.
+ */
+export async function applyActiveSkills(config: Config): Promise<void> {
+  const skills = config.getSkillManager().getActiveSkills();
+  const toolRegistry = config.getToolRegistry();
+  const policyEngine = config.getPolicyEngine();
+
+  const allowedTools = new Set<string>(
+    getToolAliases(ACTIVATE_SKILL_TOOL_NAME),
+  );
+  for (const skill of skills) {
+    for (const script of skill.scripts ?? []) {
+      const toolName = getSkillScriptToolName(skill.name, script.name);
+      if (!toolRegistry.getTool(toolName)) {
+        toolRegistry.registerTool(
+          new SkillScriptTool(
+            config,
+            skill.name,
+            script,
+            toolRegistry.getMessageBus(),
+          ),
+        );
+      }
+      allowedTools.add(toolName);
+    }
+    for (const tool of skill.allowedTools ?? []) {
+      for (const alias of getToolAliases(tool)) {
+        allowedTools.add(alias);
+      }
+    }
+  }
+  const allowedAgents = Array.from(allowedTools).filter((name) =>
+    config.getAgentRegistry().getDefinition(name),
+  );
+
+  policyEngine.removeRulesBySource(SKILL_POLICY_SOURCE);
+  const restrictingSkills = skills.filter((s) => s.allowedTools);
+  if (restrictingSkills.length > 0) {
+    const skillNames = restrictingSkills.map((s) => s.name).join(', ');
+    // A wildcard rule also covers tools registered after activation, such as
+    // MCP tools from servers that connect later.
+    policyEngine.addRule({
+      toolName: '*',
+      excludeToolNames: [
+        ...allowedTools,
+        ...(allowedAgents.length > 0 ? getToolAliases(AGENT_TOOL_NAME) : []),
+      ],
+      decision: PolicyDecision.DENY,
+      priority: SKILL_ALLOWED_TOOLS_PRIORITY,
+      source: SKILL_POLICY_SOURCE,
+      denyMessage: `Tool is not in the allowed-tools of the active skills (${skillNames}).`,
+    });
+    // Listing only some subagents by name keeps `invoke_agent` available,
+    // but just for them. The args pattern limits the rule to calls that name
+    // an agent, so the tool itself isn't hidden from the model.
+    if (allowedAgents.length > 0 && !allowedTools.has(AGENT_TOOL_NAME)) {
+      policyEngine.addRule({
+        toolName: AGENT_TOOL_NAME,
+        argsPattern: /"agent_name":/,
+        excludeToolNames: allowedAgents,
+        decision: PolicyDecision.DENY,
+        priority: SKILL_ALLOWED_TOOLS_PRIORITY,
+        source: SKILL_POLICY_SOURCE,
+        denyMessage: `Subagent is not in the allowed-tools of the active skills (${skillNames}).`,
+      });
+    }
+  }
+
+  const geminiClient = config.geminiClient;
+  if (geminiClient?.isInitialized()) {
+    await geminiClient.setTools();
+  }
+}
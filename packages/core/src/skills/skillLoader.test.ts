@@ -271,4 +271,56 @@ description: Test sanitization
     expect(skills).toHaveLength(1);
     expect(skills[0].name).toBe('gke-prs-troubleshooter');
   });
+
+  it('should parse allowed tools, scripts and the minimum CLI version', async () => {
+    const skillDir = path.join(testRootDir, 'release');
+    await fs.mkdir(skillDir, { recursive: true });
+    await fs.writeFile(
+      path.join(skillDir, 'SKILL.md'),
+      `---
+name: release
+description: Cuts a release
+allowed-tools: read_file, run_shell_command
+min-cli-version: 0.40.0
+scripts:
+  - name: bump
+    path: scripts/bump.sh
+    description: Bumps the version
+  - path: scripts/unnamed.sh
+---
+`,
+    );
+
+    const skills = await loadSkillsFromDir(testRootDir);
+
+    expect(skills).toHaveLength(1);
+    expect(skills[0].allowedTools).toEqual(['read_file', 'run_shell_command']);
+    expect(skills[0].minCliVersion).toBe('0.40.0');
+    expect(skills[0].scripts).toEqual([
+      {
+        name: 'bump',
+        description: 'Bumps the version',
+        path: path.join(skillDir, 'scripts', 'bump.sh'),
+      },
+    ]);
+  });
+
+  it('should read allowed tools when falling back to the simple parser', async () => {
+    const skillFile = path.join(testRootDir, 'SKILL.md');
+    await fs.writeFile(
+      skillFile,
+      `---
+name: fallback
+description: Uses: colons that break YAML
+allowed-tools: [read_file, 'grep_search']
+---
+`,
+    );
+
+    const skills = await loadSkillsFromDir(testRootDir);
+
+    expect(skills).toHaveLength(1);
+    expect(skills[0].description).toBe('Uses: colons that break YAML');
+    expect(skills[0].allowedTools).toEqual(['read_file', 'grep_search']);
+  });
 });
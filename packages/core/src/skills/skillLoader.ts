@@ -11,6 +11,19 @@ import { load } from 'js-yaml';
 import { debugLogger } from '../utils/debugLogger.js';
 import { coreEvents } from '../utils/events.js';
 
+/**
+ * A helper script bundled with a skill and exposed as a tool while the skill
+ * is active.
+ */
+export interface SkillScript {
+  /** The script's name, used to build the tool name. */
+  name: string;
+  /** A description of what the script does, shown to the model. */
+  description: string;
+  /** The absolute path to the script on disk. */
+  path: string;
+}
+
 /**
  * Represents the definition of an Agent Skill.
  */
@@ -29,6 +42,24 @@ export interface SkillDefinition {
   isBuiltin?: boolean;
   /** The name of the extension that provided this skill, if any. */
   extensionName?: string;
+  /** The only tools the agent may call while the skill is active. */
+  allowedTools?: string[];
+  /** Helper scripts exposed as tools while the skill is active. */
+  scripts?: SkillScript[];
+  /** The minimum CLI version the skill needs. */
+  minCliVersion?: string;
+}
+
+/**
+ * The fields read from a skill's frontmatter. Scripts are kept as written, with
+ * paths relative to the skill's directory.
+ */
+export interface SkillFrontmatter {
+  name: string;
+  description: string;
+  allowedTools?: string[];
+  scripts?: SkillScript[];
+  minCliVersion?: string;
 }
 
 export const FRONTMATTER_REGEX =
@@ -38,16 +69,19 @@ export const FRONTMATTER_REGEX =
  * Parses frontmatter content using YAML with a fallback to simple key-value parsing.
  * This handles cases where description contains colons that would break YAML parsing.
  */
-export function parseFrontmatter(
-  content: string,
-): { name: string; description: string } | null {
+export function parseFrontmatter(content: string): SkillFrontmatter | null {
   try {
     const parsed = load(content);
     if (parsed && typeof parsed === 'object') {
       // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
-      const { name, description } = parsed as Record<string, unknown>;
+      const fields = parsed as Record<string, unknown>;
+      const { name, description } = fields;
       if (typeof name === 'string' && typeof description === 'string') {
-        return { name, description };
+        return {
+          name,
+          description,
+          ...parseOptionalFields(fields),
+        };
       }
     }
   } catch (yamlError) {
@@ -61,15 +95,81 @@ export function parseFrontmatter(
 }
 
 /**
- * Simple frontmatter parser that extracts name and description fields.
+ * Parses a tool list written either as a YAML list or as a comma-separated
+ * string. Brackets and quotes are stripped so that flow-style lists read by
+ * the simple parser come out the same as with YAML.
+ */
+function parseToolList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return value
+      .replace(/^\s*\[|\]\s*$/g, '')
+      .split(',')
+      .map((tool) => tool.trim().replace(/^['"]|['"]$/g, ''))
+      .filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.map((tool) => String(tool).trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+function parseScripts(value: unknown): SkillScript[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const scripts: SkillScript[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+    const fields = entry as Record<string, unknown>;
+    const { name, path: scriptPath, description } = fields;
+    if (typeof name === 'string' && typeof scriptPath === 'string') {
+      scripts.push({
+        name,
+        path: scriptPath,
+        description: typeof description === 'string' ? description : '',
+      });
+    }
+  }
+  return scripts;
+}
+
+/**
+ * Reads the optional `allowed-tools`, `scripts` and `min-cli-version` fields.
+ * Malformed entries are dropped here; `SkillManager` validates the rest once
+ * the skill's location is known.
+ */
+function parseOptionalFields(
+  fields: Record<string, unknown>,
+): Omit<SkillFrontmatter, 'name' | 'description'> {
+  const result: Omit<SkillFrontmatter, 'name' | 'description'> = {};
+  const allowedTools = parseToolList(fields['allowed-tools']);
+  if (allowedTools) {
+    result.allowedTools = allowedTools;
+  }
+  const scripts = parseScripts(fields['scripts']);
+  if (scripts) {
+    result.scripts = scripts;
+  }
+  const minCliVersion = fields['min-cli-version'];
+  if (typeof minCliVersion === 'string' || typeof minCliVersion === 'number') {
+    result.minCliVersion = String(minCliVersion);
+  }
+  return result;
+}
+
+/**
+ * Simple frontmatter parser that extracts name and description fields, along
+ * with single-line `allowed-tools` and `min-cli-version` values.
  * Handles cases where values contain colons that would break YAML parsing.
  */
-function parseSimpleFrontmatter(
-  content: string,
-): { name: string; description: string } | null {
+function parseSimpleFrontmatter(content: string): SkillFrontmatter | null {
   const lines = content.split(/\r?\n/);
   let name: string | undefined;
   let description: string | undefined;
+  const optionalFields: Record<string, unknown> = {};
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -81,6 +181,14 @@ function parseSimpleFrontmatter(
       continue;
     }
 
+    const optionalMatch = line.match(
+      /^\s*(allowed-tools|min-cli-version):\s*(.*)$/,
+    );
+    if (optionalMatch) {
+      optionalFields[optionalMatch[1]] = optionalMatch[2].trim();
+      continue;
+    }
+
     // Match "description:" at the start of the line (optional whitespace)
     const descMatch = line.match(/^\s*description:\s*(.*)$/);
     if (descMatch) {
@@ -104,7 +212,7 @@ function parseSimpleFrontmatter(
   }
 
   if (name !== undefined && description !== undefined) {
-    return { name, description };
+    return { name, description, ...parseOptionalFields(optionalFields) };
   }
   return null;
 }
@@ -179,11 +287,18 @@ export async function loadSkillFromFile(
     // Sanitize name for use as a filename/directory name (e.g. replace ':' with '-')
     const sanitizedName = frontmatter.name.replace(/[:\\/<>*?"|]/g, '-');
 
+    const skillDir = path.dirname(filePath);
     return {
       name: sanitizedName,
       description: frontmatter.description,
       location: filePath,
       body: match[2]?.trim() ?? '',
+      allowedTools: frontmatter.allowedTools,
+      scripts: frontmatter.scripts?.map((script) => ({
+        ...script,
+        path: path.resolve(skillDir, script.path),
+      })),
+      minCliVersion: frontmatter.minCliVersion,
     };
   } catch (error) {
     debugLogger.log(`Error parsing skill file ${filePath}:`, error);
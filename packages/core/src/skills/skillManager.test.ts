@@ -8,7 +8,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import { SkillManager } from './skillManager.js';
+import { SkillManager, isVersionAtLeast } from './skillManager.js';
 import { Storage } from '../config/storage.js';
 import { type GeminiCLIExtension } from '../config/config.js';
 import { loadSkillsFromDir, type SkillDefinition } from './skillLoader.js';
@@ -438,4 +438,108 @@ description: project-desc
       );
     });
   });
+
+  describe('frontmatter validation', () => {
+    it('should drop skills that need a newer CLI', async () => {
+      const userDir = path.join(testRootDir, 'user');
+      await fs.mkdir(path.join(userDir, 'future'), { recursive: true });
+      await fs.mkdir(path.join(userDir, 'current'), { recursive: true });
+      await fs.writeFile(
+        path.join(userDir, 'future', 'SKILL.md'),
+        `---
+name: future
+description: needs a newer CLI
+min-cli-version: 999.0.0
+---
+`,
+      );
+      await fs.writeFile(
+        path.join(userDir, 'current', 'SKILL.md'),
+        `---
+name: current
+description: works today
+min-cli-version: 0.1.0
+---
+`,
+      );
+      const emitFeedbackSpy = vi.spyOn(coreEvents, 'emitFeedback');
+
+      vi.spyOn(Storage, 'getUserSkillsDir').mockReturnValue(userDir);
+      vi.spyOn(Storage, 'getUserAgentSkillsDir').mockReturnValue(
+        '/non-existent-user-agent',
+      );
+      const service = new SkillManager();
+      // @ts-expect-error accessing private method for testing
+      vi.spyOn(service, 'discoverBuiltinSkills').mockResolvedValue(undefined);
+      await service.discoverSkills(new Storage('/dummy'), [], false);
+
+      expect(service.getSkills().map((s) => s.name)).toEqual(['current']);
+      expect(emitFeedbackSpy).toHaveBeenCalledWith(
+        'warning',
+        expect.stringContaining(
+          'Skill "future" requires Gemini CLI 999.0.0 or later',
+        ),
+      );
+    });
+
+    it('should drop scripts that are missing or outside the skill', async () => {
+      const skillDir = path.join(testRootDir, 'user', 'tools');
+      await fs.mkdir(path.join(skillDir, 'scripts'), { recursive: true });
+      await fs.writeFile(path.join(skillDir, 'scripts', 'lint.sh'), '');
+      await fs.writeFile(path.join(testRootDir, 'outside.sh'), '');
+      await fs.writeFile(
+        path.join(skillDir, 'SKILL.md'),
+        `---
+name: tools
+description: bundles scripts
+allowed-tools: [read_file, read_file, grep_search]
+scripts:
+  - name: lint
+    path: scripts/lint.sh
+    description: Runs the linter
+  - name: missing
+    path: scripts/missing.sh
+  - name: escape
+    path: ../../outside.sh
+  - name: lint
+    path: scripts/lint.sh
+---
+`,
+      );
+      const emitFeedbackSpy = vi.spyOn(coreEvents, 'emitFeedback');
+
+      vi.spyOn(Storage, 'getUserSkillsDir').mockReturnValue(
+        path.join(testRootDir, 'user'),
+      );
+      vi.spyOn(Storage, 'getUserAgentSkillsDir').mockReturnValue(
+        '/non-existent-user-agent',
+      );
+      const service = new SkillManager();
+      // @ts-expect-error accessing private method for testing
+      vi.spyOn(service, 'discoverBuiltinSkills').mockResolvedValue(undefined);
+      await service.discoverSkills(new Storage('/dummy'), [], false);
+
+      const skill = service.getSkill('tools')!;
+      expect(skill.allowedTools).toEqual(['read_file', 'grep_search']);
+      expect(skill.scripts).toEqual([
+        {
+          name: 'lint',
+          description: 'Runs the linter',
+          path: path.join(skillDir, 'scripts', 'lint.sh'),
+        },
+      ]);
+      expect(emitFeedbackSpy).toHaveBeenCalledTimes(3);
+      expect(emitFeedbackSpy).toHaveBeenCalledWith(
+        'warning',
+        expect.stringContaining('is outside the skill directory.'),
+      );
+    });
+  });
+
+  it('should compare versions ignoring pre-release suffixes', () => {
+    expect(isVersionAtLeast('0.40.0-nightly.20260414', '0.40.0')).toBe(true);
+    expect(isVersionAtLeast('0.40.0', '0.40')).toBe(true);
+    expect(isVersionAtLeast('0.39.9', '0.40.0')).toBe(false);
+    expect(isVersionAtLeast('1.0.0', '0.99.0')).toBe(true);
+  });
 });
@@ -4,16 +4,52 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Storage } from '../config/storage.js';
-import { type SkillDefinition, loadSkillsFromDir } from './skillLoader.js';
+import {
+  type SkillDefinition,
+  type SkillScript,
+  loadSkillsFromDir,
+} from './skillLoader.js';
 import type { GeminiCLIExtension } from '../config/config.js';
 import { debugLogger } from '../utils/debugLogger.js';
 import { coreEvents } from '../utils/events.js';
+import { isSubpath } from '../utils/paths.js';
+import { getVersion } from '../utils/version.js';
 
 export { type SkillDefinition };
 
+const SCRIPT_NAME_REGEX = /^[a-zA-Z0-9_-]+$/;
+const VERSION_REGEX = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/;
+
+function parseVersion(version: string): number[] | null {
+  const match = version.trim().match(VERSION_REGEX);
+  if (!match) {
+    return null;
+  }
+  return match.slice(1).map((part) => Number(part ?? 0));
+}
+
+/**
+ * Returns true if `version` is at least `minimum`. Pre-release suffixes are
+ * ignored, so nightly builds count as their release version.
+ */
+export function isVersionAtLeast(version: string, minimum: string): boolean {
+  const current = parseVersion(version);
+  const required = parseVersion(minimum);
+  if (!current || !required) {
+    return false;
+  }
+  for (let i = 0; i < required.length; i++) {
+    if (current[i] !== required[i]) {
+      return current[i] > required[i];
+    }
+  }
+  return true;
+}
+
 export class SkillManager {
   private skills: SkillDefinition[] = [];
   private activeSkillNames: Set<string> = new Set();
@@ -72,23 +108,108 @@ export class SkillManager {
     this.addSkillsWithPrecedence(userAgentSkills);
 
     // 4. Workspace skills (highest precedence)
-    if (!isTrusted) {
+    if (isTrusted) {
+      const projectSkills = await loadSkillsFromDir(
+        storage.getProjectSkillsDir(),
+      );
+      this.addSkillsWithPrecedence(projectSkills);
+
+      // 4.1 Workspace agent skills alias (.agents/skills)
+      const projectAgentSkills = await loadSkillsFromDir(
+        storage.getProjectAgentSkillsDir(),
+      );
+      this.addSkillsWithPrecedence(projectAgentSkills);
+    } else {
       debugLogger.debug(
         'Workspace skills disabled because folder is not trusted.',
       );
-      return;
     }
 
-    const projectSkills = await loadSkillsFromDir(
-      storage.getProjectSkillsDir(),
-    );
-    this.addSkillsWithPrecedence(projectSkills);
+    await this.validateSkills();
+  }
 
-    // 4.1 Workspace agent skills alias (.agents/skills)
-    const projectAgentSkills = await loadSkillsFromDir(
-      storage.getProjectAgentSkillsDir(),
-    );
-    this.addSkillsWithPrecedence(projectAgentSkills);
+  /**
+   * Drops skills that need a newer CLI and bundled scripts that can't be run.
+   */
+  private async validateSkills(): Promise<void> {
+    const cliVersion = await getVersion();
+    const validSkills: SkillDefinition[] = [];
+    for (const skill of this.skills) {
+      if (await this.validateSkill(skill, cliVersion)) {
+        validSkills.push(skill);
+      }
+    }
+    this.skills = validSkills;
+  }
+
+  private async validateSkill(
+    skill: SkillDefinition,
+    cliVersion: string,
+  ): Promise<boolean> {
+    if (skill.minCliVersion !== undefined) {
+      if (!parseVersion(skill.minCliVersion)) {
+        coreEvents.emitFeedback(
+          'warning',
+          `Skill "${skill.name}" has an invalid min-cli-version "${skill.minCliVersion}" and was not loaded.`,
+        );
+        return false;
+      }
+      if (
+        parseVersion(cliVersion) &&
+        !isVersionAtLeast(cliVersion, skill.minCliVersion)
+      ) {
+        coreEvents.emitFeedback(
+          'warning',
+          `Skill "${skill.name}" requires Gemini CLI ${skill.minCliVersion} or later (running ${cliVersion}) and was not loaded.`,
+        );
+        return false;
+      }
+    }
+
+    if (skill.allowedTools) {
+      skill.allowedTools = Array.from(new Set(skill.allowedTools));
+    }
+
+    if (skill.scripts) {
+      const skillDir = path.dirname(skill.location);
+      const names = new Set<string>();
+      const scripts: SkillScript[] = [];
+      for (const script of skill.scripts) {
+        const error = await this.validateScript(script, skillDir, names);
+        if (error) {
+          coreEvents.emitFeedback(
+            'warning',
+            `Skipping script "${script.name}" of skill "${skill.name}": ${error}`,
+          );
+          continue;
+        }
+        names.add(script.name);
+        scripts.push(script);
+      }
+      skill.scripts = scripts;
+    }
+    return true;
+  }
+
+  private async validateScript(
+    script: SkillScript,
+    skillDir: string,
+    seenNames: ReadonlySet<string>,
+  ): Promise<string | undefined> {
+    if (!SCRIPT_NAME_REGEX.test(script.name)) {
+      return 'names may only contain letters, numbers, underscores and hyphens.';
+    }
+    if (seenNames.has(script.name)) {
+      return 'another script has the same name.';
+    }
+    if (!isSubpath(skillDir, script.path)) {
+      return `"${script.path}" is outside the skill directory.`;
+    }
+    const stats = await fs.stat(script.path).catch(() => null);
+    if (!stats?.isFile()) {
+      return `"${script.path}" does not exist.`;
+    }
+    return undefined;
   }
 
   /**
@@ -203,4 +324,11 @@ export class SkillManager {
   isSkillActive(name: string): boolean {
     return this.activeSkillNames.has(name);
   }
+
+  /**
+   * Returns the skills that have been activated.
+   */
+  getActiveSkills(): SkillDefinition[] {
+    return this.skills.filter((s) => this.activeSkillNames.has(s.name));
+  }
 }
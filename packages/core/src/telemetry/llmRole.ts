@@ -17,4 +17,5 @@ export enum LlmRole {
   UTILITY_AUTOCOMPLETE = 'utility_autocomplete',
   UTILITY_FAST_ACK_HELPER = 'utility_fast_ack_helper',
   UTILITY_STATE_SNAPSHOT_PROCESSOR = 'utility_state_snapshot_processor',
+  MCP_SAMPLING = 'mcp_sampling',
 }
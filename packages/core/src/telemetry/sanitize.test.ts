@@ -16,6 +16,9 @@ import { describe, it, expect } from 'vitest';
 import { HookCallEvent, EVENT_HOOK_CALL } from './types.js';
 import { HookType } from '../hooks/types.js';
 import type { Config } from '../config/config.js';
+import type { ConversationRecord } from '../services/chatRecordingTypes.js';
+import { CoreToolCallStatus } from '../scheduler/types.js';
+import { sanitizeConversationRecord } from './sanitize.js';
 
 /**
  * Create a mock config for testing.
@@ -496,4 +499,93 @@ describe('Telemetry Sanitization', () => {
       });
     });
   });
+
+  describe('sanitizeConversationRecord', () => {
+    const record: ConversationRecord = {
+      sessionId: 'session-1',
+      projectHash: 'hash',
+      startTime: '2026-01-01T00:00:00.000Z',
+      lastUpdated: '2026-01-01T00:01:00.000Z',
+      messages: [
+        {
+          id: 'm1',
+          timestamp: '2026-01-01T00:00:00.000Z',
+          type: 'user',
+          content: [{ text: 'Deploy with api_key=sk-12345678' }],
+        },
+        {
+          id: 'm2',
+          timestamp: '2026-01-01T00:00:30.000Z',
+          type: 'gemini',
+          content: 'Using password: hunter22 now',
+          thoughts: [
+            {
+              subject: 'Auth',
+              description: 'The token abcdefgh12345 looks valid',
+              timestamp: '2026-01-01T00:00:10.000Z',
+            },
+          ],
+          toolCalls: [
+            {
+              id: 't1',
+              name: 'run_shell_command',
+              args: { command: 'curl', apiKey: 'secret-value' },
+              result: [
+                {
+                  functionResponse: {
+                    id: 't1',
+                    name: 'run_shell_command',
+                    response: { output: 'Authorization: Bearer abc.def.ghi' },
+                    parts: [
+                      {
+                        fileData: {
+                          mimeType: 'image/png',
+                          fileUri:
+                            'https://storage.example.com/shot.png?token=tok-98765',
+                        },
+                      },
+                    ],
+                  },
+                },
+              ],
+              resultDisplay: 'secret=xyz-123',
+              status: CoreToolCallStatus.Success,
+              timestamp: '2026-01-01T00:00:20.000Z',
+            },
+          ],
+          tokens: { input: 10, output: 5, cached: 0, total: 15 },
+        },
+      ],
+    };
+
+    it('should redact secrets from messages, thoughts and tool calls', () => {
+      const sanitized = sanitizeConversationRecord(record);
+      const serialized = JSON.stringify(sanitized);
+
+      for (const secret of [
+        'sk-12345678',
+        'hunter22',
+        'abcdefgh12345',
+        'secret-value',
+        'abc.def.ghi',
+        'xyz-123',
+        'tok-98765',
+      ]) {
+        expect(serialized).not.toContain(secret);
+      }
+      expect(serialized).toContain('[REDACTED]');
+    });
+
+    it('should keep metadata and token usage', () => {
+      const sanitized = sanitizeConversationRecord(record);
+
+      expect(sanitized.sessionId).toBe('session-1');
+      expect(sanitized.messages[1]).toMatchObject({
+        tokens: { input: 10, output: 5, cached: 0, total: 15 },
+      });
+      expect(record.messages[0].content).toEqual([
+        { text: 'Deploy with api_key=sk-12345678' },
+      ]);
+    });
+  });
 });
@@ -4,6 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { Part, PartListUnion } from '@google/genai';
+import type {
+  ConversationRecord,
+  MessageRecord,
+  ToolCallRecord,
+} from '../services/chatRecordingTypes.js';
+import type { ToolResultDisplay } from '../tools/tools.js';
+import {
+  sanitizeErrorMessage,
+  sanitizeThoughtContent,
+  sanitizeToolArgs,
+} from '../utils/agent-sanitization-utils.js';
+
 /**
  * Sanitize hook name to remove potentially sensitive information.
  * Extracts the base command name without arguments or full paths.
@@ -50,3 +63,117 @@ export function sanitizeHookName(hookName: string): string {
 
   return command;
 }
+
+function sanitizeObject<T extends object>(value: T): T {
+  // sanitizeToolArgs preserves the shape of objects; it only replaces values.
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+  return sanitizeToolArgs(value) as T;
+}
+
+function sanitizePart(part: Part): Part {
+  const sanitized: Part = { ...part };
+  if (part.text !== undefined) {
+    sanitized.text = sanitizeErrorMessage(part.text);
+  }
+  if (part.inlineData?.displayName) {
+    sanitized.inlineData = {
+      ...part.inlineData,
+      displayName: sanitizeErrorMessage(part.inlineData.displayName),
+    };
+  }
+  if (part.fileData) {
+    sanitized.fileData = sanitizeObject(part.fileData);
+  }
+  if (part.functionCall?.args) {
+    sanitized.functionCall = {
+      ...part.functionCall,
+      args: sanitizeObject(part.functionCall.args),
+    };
+  }
+  if (part.functionResponse) {
+    const { id, name, parts, response } = part.functionResponse;
+    sanitized.functionResponse = {
+      id,
+      name,
+      // Nested parts carry the same kinds of data as top-level ones, such as
+      // file URIs with access tokens.
+      parts: parts?.map(sanitizePart),
+      response: response && sanitizeObject(response),
+    };
+  }
+  return sanitized;
+}
+
+function sanitizeParts(parts: PartListUnion): PartListUnion {
+  if (typeof parts === 'string') {
+    return sanitizeErrorMessage(parts);
+  }
+  if (Array.isArray(parts)) {
+    return parts.map((part) =>
+      typeof part === 'string'
+        ? sanitizeErrorMessage(part)
+        : sanitizePart(part),
+    );
+  }
+  return sanitizePart(parts);
+}
+
+function sanitizeResultDisplay(
+  display: ToolResultDisplay | undefined,
+): ToolResultDisplay | undefined {
+  if (typeof display === 'string') {
+    return sanitizeErrorMessage(display);
+  }
+  return display && sanitizeObject(display);
+}
+
+function sanitizeToolCallRecord(toolCall: ToolCallRecord): ToolCallRecord {
+  return {
+    ...toolCall,
+    args: sanitizeObject(toolCall.args),
+    result: toolCall.result && sanitizeParts(toolCall.result),
+    description:
+      toolCall.description && sanitizeErrorMessage(toolCall.description),
+    resultDisplay: sanitizeResultDisplay(toolCall.resultDisplay),
+  };
+}
+
+function sanitizeMessageRecord(message: MessageRecord): MessageRecord {
+  const content = sanitizeParts(message.content);
+  const displayContent =
+    message.displayContent && sanitizeParts(message.displayContent);
+  if (message.type !== 'gemini') {
+    return { ...message, content, displayContent };
+  }
+  return {
+    ...message,
+    content,
+    displayContent,
+    toolCalls: message.toolCalls?.map(sanitizeToolCallRecord),
+    thoughts: message.thoughts?.map((thought) => ({
+      ...thought,
+      subject: sanitizeThoughtContent(thought.subject),
+      description: sanitizeThoughtContent(thought.description),
+    })),
+  };
+}
+
+/**
+ * Redacts credentials, tokens, private keys and key file paths from a saved
+ * conversation so that it can be shared outside of the team that recorded it.
+ *
+ * Message text, thoughts, tool arguments, tool results and tool displays are
+ * sanitized. Session metadata and token usage are kept as is.
+ *
+ * @param record The conversation to redact.
+ * @returns A redacted copy of the conversation.
+ */
+export function sanitizeConversationRecord(
+  record: ConversationRecord,
+): ConversationRecord {
+  return {
+    ...record,
+    summary: record.summary && sanitizeErrorMessage(record.summary),
+    messages: record.messages.map(sanitizeMessageRecord),
+  };
+}
@@ -9,11 +9,16 @@ import { ActivateSkillTool } from './activate-skill.js';
 import type { Config } from '../config/config.js';
 import type { MessageBus } from '../confirmation-bus/message-bus.js';
 import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+import { applyActiveSkills } from '../skills/skillActivation.js';
 
 vi.mock('../utils/getFolderStructure.js', () => ({
   getFolderStructure: vi.fn().mockResolvedValue('Mock folder structure'),
 }));
 
+vi.mock('../skills/skillActivation.js', () => ({
+  applyActiveSkills: vi.fn().mockResolvedValue(undefined),
+}));
+
 describe('ActivateSkillTool', () => {
   let mockConfig: Config;
   let tool: ActivateSkillTool;
@@ -114,6 +119,7 @@ describe('ActivateSkillTool', () => {
     expect(mockConfig.getSkillManager().activateSkill).toHaveBeenCalledWith(
       'test-skill',
     );
+    expect(applyActiveSkills).toHaveBeenCalledWith(mockConfig);
     expect(mockConfig.getWorkspaceContext().addDirectory).toHaveBeenCalledWith(
       '/path/to/test-skill',
     );
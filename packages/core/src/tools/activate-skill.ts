@@ -22,6 +22,7 @@ import { ACTIVATE_SKILL_TOOL_NAME } from './tool-names.js';
 import { ToolErrorType } from './tool-error.js';
 import { getActivateSkillDefinition } from './definitions/coreTools.js';
 import { resolveToolDeclaration } from './definitions/resolver.js';
+import { applyActiveSkills } from '../skills/skillActivation.js';
 
 /**
  * Parameters for the ActivateSkill tool
@@ -127,7 +128,8 @@ ${folderStructure}`,
       };
     }
 
-    skillManager.activateSkill(skillName);
+    skillManager.activateSkill(skill.name);
+    await applyActiveSkills(this.config);
 
     // Add the skill's directory to the workspace context so the agent has permission
     // to read its bundled resources.
@@ -138,6 +138,10 @@ export const TOPIC_PARAM_STRATEGIC_INTENT = 'strategic_intent';
 export const COMPLETE_TASK_TOOL_NAME = 'complete_task';
 export const COMPLETE_TASK_DISPLAY_NAME = 'Complete Task';
 
+// -- merge_worktree --
+export const MERGE_WORKTREE_TOOL_NAME = 'merge_worktree';
+export const MERGE_WORKTREE_DISPLAY_NAME = 'Merge Worktree';
+
 // -- MCP Resources --
 export const READ_MCP_RESOURCE_TOOL_NAME = 'read_mcp_resource';
 export const LIST_MCP_RESOURCES_TOOL_NAME = 'list_mcp_resources';
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolDefinition } from './types.js';
+import { DOC_SEARCH_TOOL_NAME } from '../tool-names.js';
+
+export const DOC_SEARCH_DEFINITION: ToolDefinition = {
+  base: {
+    name: DOC_SEARCH_TOOL_NAME,
+    description:
+      'Searches documentation available on the local disk, such as the project docs, READMEs of installed packages and man pages, without using the network. Returns the best matching passages with their file and line. Use it to look up how a library, command or project feature works; read the file for more context.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description:
+            "Keywords to search for, e.g. 'retry backoff options' or 'tar extract'. Results are ranked by how well they match all keywords.",
+        },
+        max_results: {
+          type: 'integer',
+          description: 'Maximum number of passages to return. Defaults to 10.',
+          minimum: 1,
+          maximum: 50,
+        },
+      },
+      required: ['query'],
+    },
+  },
+};
@@ -132,6 +132,12 @@ export function getShellDeclaration(
                     description:
                       'Set to true to enable network access for this command.',
                   },
+                  allowedDomains: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'List of domains (e.g. "registry.npmjs.org" or "*.example.com") to allow through the sandbox egress proxy. Prefer this over full network access when a previous command reported a blocked domain.',
+                  },
                   fileSystem: {
                     type: 'object',
                     properties: {
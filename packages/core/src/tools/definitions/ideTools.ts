@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolDefinition } from './types.js';
+import {
+  IDE_DIAGNOSTICS_TOOL_NAME,
+  IDE_NAVIGATE_TOOL_NAME,
+} from '../tool-names.js';
+
+export const IDE_DIAGNOSTICS_DEFINITION: ToolDefinition = {
+  base: {
+    name: IDE_DIAGNOSTICS_TOOL_NAME,
+    description:
+      "Lists the errors and warnings that the connected IDE's language servers report, such as type errors and lint problems. Use it after editing a file to check that the change compiles, instead of running a full build.",
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        file_path: {
+          type: 'string',
+          description:
+            'Path of the file to check. Omit to list problems in every file the IDE knows about.',
+        },
+      },
+    },
+  },
+};
+
+export const IDE_NAVIGATE_DEFINITION: ToolDefinition = {
+  base: {
+    name: IDE_NAVIGATE_TOOL_NAME,
+    description:
+      "Navigates code with the connected IDE's language servers: finds where the symbol at a position is defined, finds every reference to it, or lists the symbols declared in a file.",
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['definition', 'references', 'symbols'],
+          description: 'What to look up.',
+        },
+        file_path: {
+          type: 'string',
+          description: 'Path of the file to look in.',
+        },
+        line: {
+          type: 'integer',
+          description:
+            "1-based line of the symbol. Required for 'definition' and 'references'.",
+        },
+        character: {
+          type: 'integer',
+          description:
+            "1-based column of the symbol. Required for 'definition' and 'references'.",
+        },
+      },
+      required: ['operation', 'file_path'],
+    },
+  },
+};
@@ -5,7 +5,14 @@
  */
 
 import { describe, expect, it } from 'vitest';
-import { getDiffContextSnippet } from './diff-utils.js';
+import {
+  applyDiffHunks,
+  formatDiffHunk,
+  getDiffContextSnippet,
+  getDiffHunkNewText,
+  getDiffHunks,
+  getRejectedHunksNote,
+} from './diff-utils.js';
 
 describe('getDiffContextSnippet', () => {
   it('should return the whole new content if originalContent is empty', () => {
@@ -64,3 +71,129 @@ describe('getDiffContextSnippet', () => {
     expect(snippet).toBe('...\n4\n6\n...');
   });
 });
+
+describe('diff hunks', () => {
+  const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line${i + 1}`);
+  const original = lines(20).join('\n') + '\n';
+  const proposedLines = lines(20);
+  proposedLines[1] = 'changed2';
+  proposedLines[17] = 'changed18';
+  const proposed = proposedLines.join('\n') + '\n';
+
+  it('should split distant changes into separate hunks', () => {
+    const hunks = getDiffHunks(original, proposed);
+
+    expect(hunks).toHaveLength(2);
+    expect(formatDiffHunk(hunks[0])).toBe(
+      [
+        '@@ -1,5 +1,5 @@',
+        ' line1',
+        '-line2',
+        '+changed2',
+        ' line3',
+        ' line4',
+        ' line5',
+      ].join('\n'),
+    );
+  });
+
+  it('should return the new side of a hunk', () => {
+    const [first] = getDiffHunks(original, proposed);
+
+    expect(getDiffHunkNewText(proposed, first)).toBe(
+      'line1\nchanged2\nline3\nline4\nline5\n',
+    );
+  });
+
+  it('should keep accepted hunks and drop rejected ones', () => {
+    const hunks = getDiffHunks(original, proposed);
+
+    const result = applyDiffHunks(original, proposed, hunks, [
+      { status: 'accepted' },
+      { status: 'rejected' },
+    ]);
+
+    const expected = lines(20);
+    expected[1] = 'changed2';
+    expect(result).toBe(expected.join('\n') + '\n');
+  });
+
+  it('should reproduce the proposal when every hunk is accepted', () => {
+    const hunks = getDiffHunks(original, proposed);
+
+    expect(
+      applyDiffHunks(
+        original,
+        proposed,
+        hunks,
+        hunks.map(() => ({ status: 'accepted' as const })),
+      ),
+    ).toBe(proposed);
+    expect(
+      applyDiffHunks(
+        original,
+        proposed,
+        hunks,
+        hunks.map(() => ({ status: 'rejected' as const })),
+      ),
+    ).toBe(original);
+  });
+
+  it('should replace an edited hunk with the edited text', () => {
+    const hunks = getDiffHunks(original, proposed);
+
+    const result = applyDiffHunks(original, proposed, hunks, [
+      { status: 'rejected' },
+      {
+        status: 'edited',
+        newText: 'line15\nline16\nline17\nedited18\nline19\nline20',
+      },
+    ]);
+
+    const expected = lines(20);
+    expected[17] = 'edited18';
+    expect(result).toBe(expected.join('\n') + '\n');
+  });
+
+  it('should keep CRLF line endings in edited hunks', () => {
+    const crlfOriginal = 'a\r\nb\r\nc\r\n';
+    const crlfProposed = 'a\r\nB\r\nc\r\n';
+    const hunks = getDiffHunks(crlfOriginal, crlfProposed);
+
+    expect(
+      applyDiffHunks(crlfOriginal, crlfProposed, hunks, [
+        { status: 'edited', newText: 'a\nX\nc' },
+      ]),
+    ).toBe('a\r\nX\r\nc\r\n');
+  });
+
+  it('should handle a change to the trailing newline', () => {
+    const hunks = getDiffHunks('a\nb', 'a\nb\nc\n');
+
+    expect(
+      applyDiffHunks('a\nb', 'a\nb\nc\n', hunks, [{ status: 'accepted' }]),
+    ).toBe('a\nb\nc\n');
+    expect(
+      applyDiffHunks('a\nb', 'a\nb\nc\n', hunks, [{ status: 'rejected' }]),
+    ).toBe('a\nb');
+  });
+
+  it('should handle new files', () => {
+    const hunks = getDiffHunks('', 'a\nb\n');
+
+    expect(hunks).toHaveLength(1);
+    expect(
+      applyDiffHunks('', 'a\nb\n', hunks, [
+        { status: 'edited', newText: 'a\n' },
+      ]),
+    ).toBe('a\n');
+  });
+
+  it('should describe rejected hunks for the model', () => {
+    const note = getRejectedHunksNote(['@@ -1 +1 @@\n-a\n+b']);
+
+    expect(note).toContain('Do not apply them again');
+    expect(note).toContain('@@ -1 +1 @@\n-a\n+b');
+  });
+});
@@ -5,6 +5,8 @@
  */
 
 import * as Diff from 'diff';
+import { DEFAULT_STRUCTURED_PATCH_OPTS } from './diffOptions.js';
+import { checkExhaustive } from '../utils/checks.js';
 
 /**
  * Generates a snippet of the diff between two strings, including a few lines of context around the changes.
@@ -73,3 +75,119 @@ export function getDiffContextSnippet(
   }
   return outputParts.join('\n');
 }
+
+/**
+ * How the user resolved a single hunk while reviewing a proposed change.
+ * Edited hunks carry the replacement for the hunk's new side.
+ */
+export type DiffHunkDecision =
+  | { status: 'accepted' }
+  | { status: 'rejected' }
+  | { status: 'edited'; newText: string };
+
+/**
+ * Splits a proposed change into the hunks of its unified diff.
+ */
+export function getDiffHunks(
+  originalContent: string,
+  newContent: string,
+): Diff.StructuredPatchHunk[] {
+  return Diff.structuredPatch(
+    '',
+    '',
+    originalContent,
+    newContent,
+    '',
+    '',
+    DEFAULT_STRUCTURED_PATCH_OPTS,
+  ).hunks;
+}
+
+/**
+ * Formats a hunk as unified diff text, starting with its `@@` header.
+ */
+export function formatDiffHunk(hunk: Diff.StructuredPatchHunk): string {
+  const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+  return [header, ...hunk.lines].join('\n');
+}
+
+function splitLinesKeepingEol(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// A hunk without lines on one side starts after the given line rather than
+// at it.
+function getHunkRange(start: number, count: number) {
+  const from = count === 0 ? start : start - 1;
+  return { from, to: from + count };
+}
+
+/**
+ * Returns the text on the new side of a hunk, including its context lines.
+ */
+export function getDiffHunkNewText(
+  newContent: string,
+  hunk: Diff.StructuredPatchHunk,
+): string {
+  const { from, to } = getHunkRange(hunk.newStart, hunk.newLines);
+  return splitLinesKeepingEol(newContent).slice(from, to).join('');
+}
+
+/**
+ * Rebuilds the proposed content keeping only the accepted and edited hunks.
+ * Rejected hunks keep the original lines.
+ */
+export function applyDiffHunks(
+  originalContent: string,
+  newContent: string,
+  hunks: readonly Diff.StructuredPatchHunk[],
+  decisions: readonly DiffHunkDecision[],
+): string {
+  const originalLines = splitLinesKeepingEol(originalContent);
+  const newLines = splitLinesKeepingEol(newContent);
+  const parts: string[] = [];
+  let cursor = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldRange = getHunkRange(hunk.oldStart, hunk.oldLines);
+    const newRange = getHunkRange(hunk.newStart, hunk.newLines);
+    parts.push(...originalLines.slice(cursor, oldRange.from));
+
+    const decision = decisions[index] ?? { status: 'accepted' };
+    switch (decision.status) {
+      case 'accepted':
+        parts.push(...newLines.slice(newRange.from, newRange.to));
+        break;
+      case 'rejected':
+        parts.push(...originalLines.slice(oldRange.from, oldRange.to));
+        break;
+      case 'edited': {
+        const proposed = newLines.slice(newRange.from, newRange.to).join('');
+        let text = decision.newText;
+        if (proposed.includes('\r\n')) {
+          text = text.replace(/\r?\n/g, '\r\n');
+        }
+        const eol = proposed.match(/\r?\n$/)?.[0];
+        if (eol && text && !text.endsWith('\n')) {
+          text += eol;
+        }
+        parts.push(text);
+        break;
+      }
+      default:
+        checkExhaustive(decision);
+    }
+    cursor = oldRange.to;
+  });
+
+  parts.push(...originalLines.slice(cursor));
+  return parts.join('');
+}
+
+/**
+ * Builds the note sent back to the model for hunks the user rejected, so it
+ * does not try to apply them again.
+ */
+export function getRejectedHunksNote(rejectedHunks: readonly string[]): string {
+  return `The user rejected the following parts of the proposed change, so they were not applied. Do not apply them again unless the user asks you to:\n${rejectedHunks.join('\n')}`;
+}
@@ -7,10 +7,11 @@
 import * as Diff from 'diff';
 import type { DiffStat } from './tools.js';
 
-const DEFAULT_STRUCTURED_PATCH_OPTS: Diff.StructuredPatchOptionsNonabortable = {
-  context: 3,
-  ignoreWhitespace: false,
-};
+export const DEFAULT_STRUCTURED_PATCH_OPTS: Diff.StructuredPatchOptionsNonabortable =
+  {
+    context: 3,
+    ignoreWhitespace: false,
+  };
 
 export const DEFAULT_DIFF_OPTIONS: Diff.CreatePatchOptionsNonabortable = {
   context: 3,
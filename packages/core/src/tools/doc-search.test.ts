@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DocSearchTool } from './doc-search.js';
+import { ToolErrorType } from './tool-error.js';
+import type { Config } from '../config/config.js';
+import type { DocSearchIndex } from '../services/docSearchIndex.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+describe('DocSearchTool', () => {
+  const abortSignal = new AbortController().signal;
+  let mockIndex: { search: ReturnType<typeof vi.fn>; fileCount: number };
+  let index: DocSearchIndex | undefined;
+  let tool: DocSearchTool;
+
+  beforeEach(() => {
+    mockIndex = { search: vi.fn(), fileCount: 3 };
+    index = mockIndex as unknown as DocSearchIndex;
+    const config = {
+      getDocSearchIndex: () => index,
+      getTargetDir: () => '/project',
+    } as unknown as Config;
+    tool = new DocSearchTool(config, createMockMessageBus());
+  });
+
+  it('lists matching passages with their location', async () => {
+    mockIndex.search.mockResolvedValue([
+      {
+        filePath: '/project/docs/retries.md',
+        line: 12,
+        score: 3.2,
+        snippet: 'Requests are retried\nwith exponential backoff.',
+      },
+      {
+        filePath: '/usr/share/man/man1/curl.1.gz',
+        line: 40,
+        score: 1.1,
+        snippet: '--retry <num>',
+      },
+    ]);
+
+    const result = await tool
+      .build({ query: 'retry backoff', max_results: 2 })
+      .execute({ abortSignal });
+
+    expect(mockIndex.search).toHaveBeenCalledWith('retry backoff', 2);
+    expect(result.llmContent).toBe(
+      [
+        "Found 2 passage(s) for 'retry backoff':",
+        '',
+        'docs/retries.md:12',
+        '  Requests are retried',
+        '  with exponential backoff.',
+        '',
+        '/usr/share/man/man1/curl.1.gz:40',
+        '  --retry <num>',
+      ].join('\n'),
+    );
+    expect(result.returnDisplay).toBe('Found 2 passage(s).');
+  });
+
+  it('reports when nothing matches', async () => {
+    mockIndex.search.mockResolvedValue([]);
+
+    const result = await tool.build({ query: 'unicorn' }).execute({
+      abortSignal,
+    });
+
+    expect(mockIndex.search).toHaveBeenCalledWith('unicorn', 10);
+    expect(result.llmContent).toBe(
+      "No documentation found for 'unicorn' in 3 indexed file(s).",
+    );
+    expect(result.error).toBeUndefined();
+  });
+
+  it('fails when no documentation paths are configured', async () => {
+    index = undefined;
+
+    const result = await tool.build({ query: 'unicorn' }).execute({
+      abortSignal,
+    });
+
+    expect(result.error?.type).toBe(ToolErrorType.EXECUTION_FAILED);
+    expect(result.llmContent).toContain('tools.docSearchPaths');
+  });
+
+  it('rejects empty queries and out of range limits', () => {
+    expect(() => tool.build({ query: '  ' })).toThrow(/non-empty/);
+    expect(() => tool.build({ query: 'a', max_results: 0 })).toThrow(
+      /max_results/,
+    );
+  });
+});
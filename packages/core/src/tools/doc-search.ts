@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { DOC_SEARCH_DEFINITION } from './definitions/docSearchTool.js';
+import { resolveToolDeclaration } from './definitions/resolver.js';
+import { DOC_SEARCH_TOOL_NAME } from './tool-names.js';
+import type { ExecuteOptions, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import type { DocSearchResult } from '../services/docSearchIndex.js';
+import { isSubpath, makeRelative } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+const DEFAULT_MAX_RESULTS = 10;
+
+/**
+ * Parameters for the DocSearch tool.
+ */
+export interface DocSearchParams {
+  query: string;
+  max_results?: number;
+}
+
+function formatResult(result: DocSearchResult, targetDir: string): string {
+  const filePath = isSubpath(targetDir, result.filePath)
+    ? makeRelative(result.filePath, targetDir)
+    : result.filePath;
+  const snippet = result.snippet
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n');
+  return `${filePath}:${result.line}\n${snippet}`;
+}
+
+class DocSearchInvocation extends BaseToolInvocation<
+  DocSearchParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: DocSearchParams,
+    messageBus: MessageBus,
+    toolName: string,
+  ) {
+    super(params, messageBus, toolName);
+  }
+
+  getDescription(): string {
+    return `'${this.params.query}'`;
+  }
+
+  override async execute({
+    abortSignal: _signal,
+  }: ExecuteOptions): Promise<ToolResult> {
+    const index = this.config.getDocSearchIndex();
+    if (!index) {
+      const message =
+        'No documentation paths are configured. Add them to the tools.docSearchPaths setting.';
+      return {
+        llmContent: `Error: ${message}`,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.EXECUTION_FAILED },
+      };
+    }
+
+    let results: DocSearchResult[];
+    try {
+      results = await index.search(
+        this.params.query,
+        this.params.max_results ?? DEFAULT_MAX_RESULTS,
+      );
+    } catch (error) {
+      const message = `Failed to search documentation: ${getErrorMessage(error)}`;
+      return {
+        llmContent: `Error: ${message}`,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.EXECUTION_FAILED },
+      };
+    }
+
+    if (results.length === 0) {
+      const message = `No documentation found for '${this.params.query}' in ${index.fileCount} indexed file(s).`;
+      return { llmContent: message, returnDisplay: message };
+    }
+
+    const targetDir = this.config.getTargetDir();
+    return {
+      llmContent: `Found ${results.length} passage(s) for '${this.params.query}':\n\n${results
+        .map((result) => formatResult(result, targetDir))
+        .join('\n\n')}`,
+      returnDisplay: `Found ${results.length} passage(s).`,
+    };
+  }
+}
+
+/**
+ * Searches locally indexed documentation, for use without network access.
+ */
+export class DocSearchTool extends BaseDeclarativeTool<
+  DocSearchParams,
+  ToolResult
+> {
+  static readonly Name = DOC_SEARCH_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      DocSearchTool.Name,
+      'SearchDocs',
+      DOC_SEARCH_DEFINITION.base.description!,
+      Kind.Search,
+      DOC_SEARCH_DEFINITION.base.parametersJsonSchema,
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: DocSearchParams,
+  ): string | null {
+    if (params.query.trim() === '') {
+      return "The 'query' parameter must be non-empty.";
+    }
+    return null;
+  }
+
+  protected createInvocation(params: DocSearchParams, messageBus: MessageBus) {
+    return new DocSearchInvocation(this.config, params, messageBus, this.name);
+  }
+
+  override getSchema(modelId?: string) {
+    return resolveToolDeclaration(DOC_SEARCH_DEFINITION, modelId);
+  }
+}
@@ -726,6 +726,29 @@ function doIt() {
       expect(display.fileName).toBe(testFile);
     });
 
+    it('should tell the model about hunks the user rejected', async () => {
+      fs.writeFileSync(filePath, 'first\nsecond\n', 'utf8');
+      const params: EditToolParams = {
+        file_path: filePath,
+        instruction: 'Apply the reviewed change',
+        old_string: 'first\nsecond\n',
+        new_string: 'first\nSECOND\n',
+        modified_by_user: true,
+        rejected_hunks: ['@@ -1,1 +1,1 @@\n-first\n+FIRST'],
+      };
+
+      const invocation = tool.build(params);
+      const result = await invocation.execute({
+        abortSignal: new AbortController().signal,
+      });
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('first\nSECOND\n');
+      expect(result.llmContent).toContain(
+        'The user rejected the following parts of the proposed change',
+      );
+      expect(result.llmContent).toContain('-first\n+FIRST');
+    });
+
     it('should return error if old_string is not found in file', async () => {
       fs.writeFileSync(filePath, 'Some content.', 'utf8');
 
@@ -33,7 +33,7 @@ import type { Config } from '../config/config.js';
 import { CoreToolCallStatus } from '../scheduler/types.js';
 
 import { DEFAULT_DIFF_OPTIONS, getDiffStat } from './diffOptions.js';
-import { getDiffContextSnippet } from './diff-utils.js';
+import { getDiffContextSnippet, getRejectedHunksNote } from './diff-utils.js';
 import {
   type ModifiableDeclarativeTool,
   type ModifyContext,
@@ -414,6 +414,11 @@ export interface EditToolParams {
    * Initially proposed content.
    */
   ai_proposed_content?: string;
+
+  /**
+   * Hunks of the proposed edit that the user rejected during review.
+   */
+  rejected_hunks?: string[];
 }
 
 export function isEditToolParams(args: unknown): args is EditToolParams {
@@ -973,6 +978,11 @@ ${snippet}`);
           `User modified the \`new_string\` content to be: ${this.params.new_string}.`,
         );
       }
+      if (this.params.rejected_hunks?.length) {
+        llmSuccessMessageParts.push(
+          getRejectedHunksNote(this.params.rejected_hunks),
+        );
+      }
 
       // Discover JIT subdirectory context for the edited file path
       const jitContext = await discoverJitContext(
@@ -1134,6 +1144,7 @@ export class EditTool
         oldContent: string,
         modifiedProposedContent: string,
         originalParams: EditToolParams,
+        rejectedHunks?: string[],
       ): EditToolParams => {
         const content = originalParams.new_string;
         return {
@@ -1142,6 +1153,7 @@ export class EditTool
           old_string: oldContent,
           new_string: modifiedProposedContent,
           modified_by_user: true,
+          rejected_hunks: rejectedHunks,
         };
       },
     };
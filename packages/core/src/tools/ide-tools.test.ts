@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IdeDiagnosticsTool, IdeNavigateTool } from './ide-tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { IdeClient } from '../ide/ide-client.js';
+import type { Config } from '../config/config.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+
+vi.mock('../ide/ide-client.js', () => ({
+  IdeClient: { getInstance: vi.fn() },
+}));
+
+const range = (line: number, character: number) => ({
+  start: { line, character },
+  end: { line, character: character + 3 },
+});
+
+describe('IDE tools', () => {
+  const abortSignal = new AbortController().signal;
+  let ideMode: boolean;
+  let mockIdeClient: {
+    isLanguageFeatureAvailable: ReturnType<typeof vi.fn>;
+    getDiagnostics: ReturnType<typeof vi.fn>;
+    getDefinition: ReturnType<typeof vi.fn>;
+    findReferences: ReturnType<typeof vi.fn>;
+    getDocumentSymbols: ReturnType<typeof vi.fn>;
+  };
+  let config: Config;
+
+  beforeEach(() => {
+    ideMode = true;
+    mockIdeClient = {
+      isLanguageFeatureAvailable: vi.fn().mockReturnValue(true),
+      getDiagnostics: vi.fn(),
+      getDefinition: vi.fn(),
+      findReferences: vi.fn(),
+      getDocumentSymbols: vi.fn(),
+    };
+    vi.mocked(IdeClient.getInstance).mockResolvedValue(
+      mockIdeClient as unknown as IdeClient,
+    );
+    config = {
+      getIdeMode: () => ideMode,
+      getTargetDir: () => '/project',
+      validatePathAccess: (filePath: string) =>
+        filePath.startsWith('/project')
+          ? null
+          : `Path not in workspace: ${filePath}`,
+    } as unknown as Config;
+  });
+
+  describe('IdeDiagnosticsTool', () => {
+    it('lists problems with errors first', async () => {
+      mockIdeClient.getDiagnostics.mockResolvedValue([
+        {
+          filePath: '/project/src/a.ts',
+          range: range(4, 1),
+          severity: 'warning',
+          message: "'x' is never used.",
+          source: 'eslint',
+          code: 'no-unused-vars',
+        },
+        {
+          filePath: '/project/src/a.ts',
+          range: range(2, 7),
+          severity: 'error',
+          message: "Cannot find name 'foo'.",
+          source: 'ts',
+        },
+      ]);
+      const tool = new IdeDiagnosticsTool(config, createMockMessageBus());
+
+      const result = await tool
+        .build({ file_path: 'src/a.ts' })
+        .execute({ abortSignal });
+
+      expect(mockIdeClient.getDiagnostics).toHaveBeenCalledWith(
+        '/project/src/a.ts',
+      );
+      expect(result.llmContent).toBe(
+        [
+          'Found 2 problem(s), 1 error(s).',
+          "src/a.ts:2:7 error: Cannot find name 'foo'. [ts]",
+          "src/a.ts:4:1 warning: 'x' is never used. [eslint no-unused-vars]",
+        ].join('\n'),
+      );
+      expect(result.error).toBeUndefined();
+    });
+
+    it('reports a clean file', async () => {
+      mockIdeClient.getDiagnostics.mockResolvedValue([]);
+      const tool = new IdeDiagnosticsTool(config, createMockMessageBus());
+
+      const result = await tool
+        .build({ file_path: 'src/a.ts' })
+        .execute({ abortSignal });
+
+      expect(result.llmContent).toBe('No problems found in src/a.ts.');
+    });
+
+    it('fails when no IDE serves diagnostics', async () => {
+      mockIdeClient.isLanguageFeatureAvailable.mockReturnValue(false);
+      const tool = new IdeDiagnosticsTool(config, createMockMessageBus());
+
+      const result = await tool.build({}).execute({ abortSignal });
+
+      expect(result.error?.type).toBe(ToolErrorType.IDE_NOT_CONNECTED);
+      expect(mockIdeClient.getDiagnostics).not.toHaveBeenCalled();
+    });
+
+    it('rejects paths outside the workspace', () => {
+      const tool = new IdeDiagnosticsTool(config, createMockMessageBus());
+
+      expect(() => tool.build({ file_path: '/etc/passwd' })).toThrow(
+        'Path not in workspace',
+      );
+    });
+  });
+
+  describe('IdeNavigateTool', () => {
+    it('finds references to a symbol', async () => {
+      mockIdeClient.findReferences.mockResolvedValue([
+        { filePath: '/project/src/a.ts', range: range(3, 10) },
+        { filePath: '/project/src/b.ts', range: range(12, 4) },
+      ]);
+      const tool = new IdeNavigateTool(config, createMockMessageBus());
+
+      const result = await tool
+        .build({
+          operation: 'references',
+          file_path: 'src/a.ts',
+          line: 3,
+          character: 10,
+        })
+        .execute({ abortSignal });
+
+      expect(mockIdeClient.findReferences).toHaveBeenCalledWith(
+        '/project/src/a.ts',
+        3,
+        10,
+      );
+      expect(result.llmContent).toBe(
+        'Found 2 reference(s):\nsrc/a.ts:3:10\nsrc/b.ts:12:4',
+      );
+    });
+
+    it('lists document symbols', async () => {
+      mockIdeClient.getDocumentSymbols.mockResolvedValue([
+        { name: 'Parser', kind: 'Class', range: range(1, 1) },
+        {
+          name: 'parse',
+          kind: 'Method',
+          range: range(5, 3),
+          containerName: 'Parser',
+        },
+      ]);
+      const tool = new IdeNavigateTool(config, createMockMessageBus());
+
+      const result = await tool
+        .build({ operation: 'symbols', file_path: 'src/a.ts' })
+        .execute({ abortSignal });
+
+      expect(result.llmContent).toBe(
+        'Symbols in src/a.ts:\n1:1 Class Parser\n5:3 Method parse in Parser',
+      );
+    });
+
+    it('requires a position for definitions', () => {
+      const tool = new IdeNavigateTool(config, createMockMessageBus());
+
+      expect(() =>
+        tool.build({ operation: 'definition', file_path: 'src/a.ts' }),
+      ).toThrow("'line' and 'character' are required for 'definition'.");
+    });
+
+    it('reports IDE failures', async () => {
+      mockIdeClient.getDefinition.mockRejectedValue(
+        new Error('File not found'),
+      );
+      const tool = new IdeNavigateTool(config, createMockMessageBus());
+
+      const result = await tool
+        .build({
+          operation: 'definition',
+          file_path: 'src/a.ts',
+          line: 1,
+          character: 1,
+        })
+        .execute({ abortSignal });
+
+      expect(result.error).toEqual({
+        message: 'Failed to look up definition: File not found',
+        type: ToolErrorType.EXECUTION_FAILED,
+      });
+    });
+
+    it('is unavailable outside IDE mode', async () => {
+      ideMode = false;
+      const tool = new IdeNavigateTool(config, createMockMessageBus());
+
+      const result = await tool
+        .build({ operation: 'symbols', file_path: 'src/a.ts' })
+        .execute({ abortSignal });
+
+      expect(result.error?.type).toBe(ToolErrorType.IDE_NOT_CONNECTED);
+    });
+  });
+});
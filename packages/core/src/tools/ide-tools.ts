@@ -0,0 +1,368 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  IDE_DIAGNOSTICS_DEFINITION,
+  IDE_NAVIGATE_DEFINITION,
+} from './definitions/ideTools.js';
+import { resolveToolDeclaration } from './definitions/resolver.js';
+import {
+  IDE_DIAGNOSTICS_TOOL_NAME,
+  IDE_NAVIGATE_TOOL_NAME,
+} from './tool-names.js';
+import type { ExecuteOptions, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { IdeClient, type IdeLanguageFeature } from '../ide/ide-client.js';
+import type { Diagnostic, DocumentSymbol, Location } from '../ide/types.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** Results beyond this many are summarized rather than listed. */
+const MAX_RESULTS = 100;
+
+const SEVERITY_ORDER: Record<Diagnostic['severity'], number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+  hint: 3,
+};
+
+function formatPosition(
+  filePath: string,
+  position: { line: number; character: number },
+  targetDir: string,
+): string {
+  return `${makeRelative(filePath, targetDir)}:${position.line}:${position.character}`;
+}
+
+function formatDiagnostic(
+  diagnostic: Diagnostic,
+  targetDir: string,
+): string {
+  const source = [diagnostic.source, diagnostic.code].filter(Boolean).join(' ');
+  return `${formatPosition(diagnostic.filePath, diagnostic.range.start, targetDir)} ${diagnostic.severity}: ${diagnostic.message}${source ? ` [${source}]` : ''}`;
+}
+
+function formatSymbol(symbol: DocumentSymbol): string {
+  const container = symbol.containerName ? ` in ${symbol.containerName}` : '';
+  return `${symbol.range.start.line}:${symbol.range.start.character} ${symbol.kind} ${symbol.name}${container}`;
+}
+
+function formatList(lines: string[]): string {
+  const listed = lines.slice(0, MAX_RESULTS);
+  if (lines.length > MAX_RESULTS) {
+    listed.push(`... and ${lines.length - MAX_RESULTS} more`);
+  }
+  return listed.join('\n');
+}
+
+function errorResult(message: string, type: ToolErrorType): ToolResult {
+  return {
+    llmContent: `Error: ${message}`,
+    returnDisplay: message,
+    error: { message, type },
+  };
+}
+
+/**
+ * Returns the connected IDE client if it serves the given feature.
+ */
+async function getIdeClient(
+  config: Config,
+  feature: IdeLanguageFeature,
+): Promise<IdeClient | undefined> {
+  if (!config.getIdeMode()) {
+    return undefined;
+  }
+  const ideClient = await IdeClient.getInstance();
+  return ideClient.isLanguageFeatureAvailable(feature) ? ideClient : undefined;
+}
+
+const IDE_UNAVAILABLE_MESSAGE =
+  'No connected IDE supports this. Make sure the IDE companion extension is installed and up to date, and run /ide enable.';
+
+function validateFilePath(config: Config, filePath: string): string | null {
+  if (filePath.trim() === '') {
+    return "The 'file_path' parameter must be non-empty.";
+  }
+  return config.validatePathAccess(
+    path.resolve(config.getTargetDir(), filePath),
+    'read',
+  );
+}
+
+// --- ide_diagnostics ---
+
+interface IdeDiagnosticsParams {
+  file_path?: string;
+}
+
+class IdeDiagnosticsInvocation extends BaseToolInvocation<
+  IdeDiagnosticsParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: IdeDiagnosticsParams,
+    messageBus: MessageBus,
+    toolName: string,
+  ) {
+    super(params, messageBus, toolName);
+  }
+
+  getDescription(): string {
+    return this.params.file_path
+      ? shortenPath(this.params.file_path)
+      : 'all files';
+  }
+
+  override async execute({
+    abortSignal: _signal,
+  }: ExecuteOptions): Promise<ToolResult> {
+    const ideClient = await getIdeClient(this.config, 'getDiagnostics');
+    if (!ideClient) {
+      return errorResult(
+        IDE_UNAVAILABLE_MESSAGE,
+        ToolErrorType.IDE_NOT_CONNECTED,
+      );
+    }
+    const targetDir = this.config.getTargetDir();
+    const filePath = this.params.file_path
+      ? path.resolve(targetDir, this.params.file_path)
+      : undefined;
+
+    let diagnostics: Diagnostic[];
+    try {
+      diagnostics = await ideClient.getDiagnostics(filePath);
+    } catch (error) {
+      return errorResult(
+        `Failed to get diagnostics: ${getErrorMessage(error)}`,
+        ToolErrorType.EXECUTION_FAILED,
+      );
+    }
+
+    if (diagnostics.length === 0) {
+      const message = filePath
+        ? `No problems found in ${makeRelative(filePath, targetDir)}.`
+        : 'No problems found.';
+      return { llmContent: message, returnDisplay: message };
+    }
+
+    const sorted = [...diagnostics].sort(
+      (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+    );
+    const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+    const summary = `Found ${diagnostics.length} problem(s), ${errorCount} error(s).`;
+    return {
+      llmContent: `${summary}\n${formatList(
+        sorted.map((d) => formatDiagnostic(d, targetDir)),
+      )}`,
+      returnDisplay: summary,
+    };
+  }
+}
+
+export class IdeDiagnosticsTool extends BaseDeclarativeTool<
+  IdeDiagnosticsParams,
+  ToolResult
+> {
+  static readonly Name = IDE_DIAGNOSTICS_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      IdeDiagnosticsTool.Name,
+      'IDE Diagnostics',
+      IDE_DIAGNOSTICS_DEFINITION.base.description!,
+      Kind.Read,
+      IDE_DIAGNOSTICS_DEFINITION.base.parametersJsonSchema,
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: IdeDiagnosticsParams,
+  ): string | null {
+    if (params.file_path === undefined) {
+      return null;
+    }
+    return validateFilePath(this.config, params.file_path);
+  }
+
+  protected createInvocation(
+    params: IdeDiagnosticsParams,
+    messageBus: MessageBus,
+  ) {
+    return new IdeDiagnosticsInvocation(
+      this.config,
+      params,
+      messageBus,
+      this.name,
+    );
+  }
+
+  override getSchema(modelId?: string) {
+    return resolveToolDeclaration(IDE_DIAGNOSTICS_DEFINITION, modelId);
+  }
+}
+
+// --- ide_navigate ---
+
+type IdeNavigateOperation = 'definition' | 'references' | 'symbols';
+
+interface IdeNavigateParams {
+  operation: IdeNavigateOperation;
+  file_path: string;
+  line?: number;
+  character?: number;
+}
+
+const NAVIGATE_FEATURES: Record<IdeNavigateOperation, IdeLanguageFeature> = {
+  definition: 'getDefinition',
+  references: 'findReferences',
+  symbols: 'getDocumentSymbols',
+};
+
+class IdeNavigateInvocation extends BaseToolInvocation<
+  IdeNavigateParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: IdeNavigateParams,
+    messageBus: MessageBus,
+    toolName: string,
+  ) {
+    super(params, messageBus, toolName);
+  }
+
+  getDescription(): string {
+    const { operation, file_path, line, character } = this.params;
+    const position = line !== undefined ? `:${line}:${character}` : '';
+    return `${operation} ${shortenPath(file_path)}${position}`;
+  }
+
+  override async execute({
+    abortSignal: _signal,
+  }: ExecuteOptions): Promise<ToolResult> {
+    const { operation } = this.params;
+    const ideClient = await getIdeClient(
+      this.config,
+      NAVIGATE_FEATURES[operation],
+    );
+    if (!ideClient) {
+      return errorResult(
+        IDE_UNAVAILABLE_MESSAGE,
+        ToolErrorType.IDE_NOT_CONNECTED,
+      );
+    }
+    const targetDir = this.config.getTargetDir();
+    const filePath = path.resolve(targetDir, this.params.file_path);
+
+    try {
+      if (operation === 'symbols') {
+        const symbols = await ideClient.getDocumentSymbols(filePath);
+        const relativePath = makeRelative(filePath, targetDir);
+        if (symbols.length === 0) {
+          const message = `No symbols found in ${relativePath}.`;
+          return { llmContent: message, returnDisplay: message };
+        }
+        return {
+          llmContent: `Symbols in ${relativePath}:\n${formatList(
+            symbols.map(formatSymbol),
+          )}`,
+          returnDisplay: `Found ${symbols.length} symbol(s).`,
+        };
+      }
+
+      const line = this.params.line!;
+      const character = this.params.character!;
+      const locations: Location[] =
+        operation === 'definition'
+          ? await ideClient.getDefinition(filePath, line, character)
+          : await ideClient.findReferences(filePath, line, character);
+      const what = operation === 'definition' ? 'definition' : 'reference';
+      if (locations.length === 0) {
+        const message = `No ${what}s found.`;
+        return { llmContent: message, returnDisplay: message };
+      }
+      return {
+        llmContent: `Found ${locations.length} ${what}(s):\n${formatList(
+          locations.map((location) =>
+            formatPosition(location.filePath, location.range.start, targetDir),
+          ),
+        )}`,
+        returnDisplay: `Found ${locations.length} ${what}(s).`,
+      };
+    } catch (error) {
+      return errorResult(
+        `Failed to look up ${operation}: ${getErrorMessage(error)}`,
+        ToolErrorType.EXECUTION_FAILED,
+      );
+    }
+  }
+}
+
+export class IdeNavigateTool extends BaseDeclarativeTool<
+  IdeNavigateParams,
+  ToolResult
+> {
+  static readonly Name = IDE_NAVIGATE_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus: MessageBus,
+  ) {
+    super(
+      IdeNavigateTool.Name,
+      'IDE Navigate',
+      IDE_NAVIGATE_DEFINITION.base.description!,
+      Kind.Search,
+      IDE_NAVIGATE_DEFINITION.base.parametersJsonSchema,
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: IdeNavigateParams,
+  ): string | null {
+    const pathError = validateFilePath(this.config, params.file_path);
+    if (pathError) {
+      return pathError;
+    }
+    if (params.operation !== 'symbols') {
+      if (params.line === undefined || params.character === undefined) {
+        return `'line' and 'character' are required for '${params.operation}'.`;
+      }
+      if (params.line < 1 || params.character < 1) {
+        return "'line' and 'character' must be at least 1.";
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: IdeNavigateParams,
+    messageBus: MessageBus,
+  ) {
+    return new IdeNavigateInvocation(
+      this.config,
+      params,
+      messageBus,
+      this.name,
+    );
+  }
+
+  override getSchema(modelId?: string) {
+    return resolveToolDeclaration(IDE_NAVIGATE_DEFINITION, modelId);
+  }
+}
@@ -20,6 +20,8 @@ import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
 import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
   ErrorCode,
   McpError,
   PromptListChangedNotificationSchema,
@@ -28,6 +30,7 @@ import {
   ProgressNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { DiscoveredMCPTool } from './mcp-tool.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
 
 import { WorkspaceContext } from '../utils/workspaceContext.js';
 import {
@@ -2806,3 +2809,120 @@ describe('connectToMcpServer - OAuth with transport fallback', () => {
     expect(mockAuthProvider.authenticate).toHaveBeenCalledOnce();
   });
 });
+
+describe('connectToMcpServer - sampling', () => {
+  let mockedClient: ClientLib.Client;
+  let workspaceContext: WorkspaceContext;
+
+  beforeEach(() => {
+    mockedClient = {
+      connect: vi.fn(),
+      close: vi.fn(),
+      registerCapabilities: vi.fn(),
+      setRequestHandler: vi.fn(),
+      onclose: vi.fn(),
+      notification: vi.fn(),
+    } as unknown as ClientLib.Client;
+    vi.mocked(ClientLib.Client).mockImplementation(() => mockedClient);
+
+    workspaceContext = new WorkspaceContext(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-agent-test-')),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should advertise sampling when a sampling context is available', async () => {
+    await connectToMcpServer(
+      '0.0.1',
+      'test-server',
+      { httpUrl: 'http://test-server' },
+      false,
+      workspaceContext,
+      {
+        ...MOCK_CONTEXT_DEFAULT,
+        getMcpSamplingContext: vi.fn().mockReturnValue({
+          getBaseLlmClient: vi.fn(),
+          getActiveModel: vi.fn(),
+          getPolicyEngine: vi.fn(),
+        }),
+      },
+    );
+
+    expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
+      sampling: {},
+    });
+    expect(mockedClient.setRequestHandler).toHaveBeenCalledWith(
+      CreateMessageRequestSchema,
+      expect.any(Function),
+    );
+  });
+
+  it('should not advertise sampling without a sampling context', async () => {
+    await connectToMcpServer(
+      '0.0.1',
+      'test-server',
+      { httpUrl: 'http://test-server' },
+      false,
+      workspaceContext,
+      MOCK_CONTEXT_DEFAULT,
+    );
+
+    expect(mockedClient.registerCapabilities).not.toHaveBeenCalledWith({
+      sampling: {},
+    });
+    expect(mockedClient.setRequestHandler).not.toHaveBeenCalledWith(
+      CreateMessageRequestSchema,
+      expect.any(Function),
+    );
+  });
+});
+
+describe('connectToMcpServer - elicitation', () => {
+  let mockedClient: ClientLib.Client;
+  let workspaceContext: WorkspaceContext;
+
+  beforeEach(() => {
+    mockedClient = {
+      connect: vi.fn(),
+      close: vi.fn(),
+      registerCapabilities: vi.fn(),
+      setRequestHandler: vi.fn(),
+      onclose: vi.fn(),
+      notification: vi.fn(),
+    } as unknown as ClientLib.Client;
+    vi.mocked(ClientLib.Client).mockImplementation(() => mockedClient);
+
+    workspaceContext = new WorkspaceContext(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-agent-test-')),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should advertise form elicitation when a message bus is available', async () => {
+    await connectToMcpServer(
+      '0.0.1',
+      'test-server',
+      { httpUrl: 'http://test-server' },
+      false,
+      workspaceContext,
+      {
+        ...MOCK_CONTEXT_DEFAULT,
+        messageBus: {} as MessageBus,
+      },
+    );
+
+    expect(mockedClient.registerCapabilities).toHaveBeenCalledWith({
+      elicitation: { form: {} },
+    });
+    expect(mockedClient.setRequestHandler).toHaveBeenCalledWith(
+      ElicitRequestSchema,
+      expect.any(Function),
+    );
+  });
+});
@@ -22,6 +22,8 @@ import {
 } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
   ListResourcesResultSchema,
   ListRootsRequestSchema,
   ReadResourceResultSchema,
@@ -48,6 +50,11 @@ import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
 import { ServiceAccountImpersonationProvider } from '../mcp/sa-impersonation-provider.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { XcodeMcpBridgeFixTransport } from './xcode-mcp-fix-transport.js';
+import {
+  createSamplingRequestHandler,
+  type McpSamplingContext,
+} from './mcp-sampling.js';
+import { createElicitationRequestHandler } from './mcp-elicitation.js';
 
 import type { CallableTool, FunctionCall, Part, Tool } from '@google/genai';
 import { basename } from 'node:path';
@@ -1760,6 +1767,16 @@ export interface McpContext {
       source?: string;
     }>;
   };
+  /**
+   * Returns the context used to answer `sampling/createMessage` requests.
+   * When absent, the sampling capability is not advertised to servers.
+   */
+  getMcpSamplingContext?(): McpSamplingContext;
+  /**
+   * The bus used to forward `elicitation/create` requests to the UI. When
+   * absent, the elicitation capability is not advertised to servers.
+   */
+  readonly messageBus?: MessageBus;
 }
 
 /**
@@ -1797,6 +1814,23 @@ export async function connectToMcpServer(
     },
   });
 
+  const samplingContext = cliConfig.getMcpSamplingContext?.();
+  if (samplingContext) {
+    mcpClient.registerCapabilities({ sampling: {} });
+    mcpClient.setRequestHandler(
+      CreateMessageRequestSchema,
+      createSamplingRequestHandler(mcpServerName, samplingContext),
+    );
+  }
+
+  if (cliConfig.messageBus) {
+    mcpClient.registerCapabilities({ elicitation: { form: {} } });
+    mcpClient.setRequestHandler(
+      ElicitRequestSchema,
+      createElicitationRequestHandler(mcpServerName, cliConfig.messageBus),
+    );
+  }
+
   mcpClient.setRequestHandler(ListRootsRequestSchema, async () => {
     const roots = [];
     for (const dir of workspaceContext.getDirectories()) {
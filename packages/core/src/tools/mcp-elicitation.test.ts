@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ElicitRequest } from '@modelcontextprotocol/sdk/types.js';
+import { MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  MessageBusType,
+  QuestionType,
+  type McpElicitationRequest,
+  type McpElicitationSchema,
+} from '../confirmation-bus/types.js';
+import { PolicyEngine } from '../policy/policy-engine.js';
+import {
+  answersToElicitationContent,
+  createElicitationRequestHandler,
+  elicitationSchemaToQuestions,
+} from './mcp-elicitation.js';
+
+const SCHEMA: McpElicitationSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', title: 'Name', description: 'Your name' },
+    age: { type: 'integer', minimum: 0 },
+    subscribe: { type: 'boolean', title: 'Subscribe' },
+    color: {
+      type: 'string',
+      oneOf: [
+        { const: 'r', title: 'Red' },
+        { const: 'g', title: 'Green' },
+      ],
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string', enum: ['a', 'b', 'c'] },
+    },
+  },
+  required: ['name'],
+};
+
+function createRequest(
+  params: Partial<ElicitRequest['params']> = {},
+): ElicitRequest {
+  return {
+    method: 'elicitation/create',
+    params: {
+      message: 'Tell us about yourself',
+      requestedSchema: SCHEMA,
+      ...params,
+    } as ElicitRequest['params'],
+  };
+}
+
+describe('mcp-elicitation', () => {
+  describe('elicitationSchemaToQuestions', () => {
+    it('maps schema properties to form questions', () => {
+      const questions = elicitationSchemaToQuestions(SCHEMA);
+
+      expect(questions).toEqual([
+        {
+          type: QuestionType.TEXT,
+          header: 'Name*',
+          question: 'Name - Your name',
+          placeholder: undefined,
+        },
+        {
+          type: QuestionType.TEXT,
+          header: 'age',
+          question: 'age',
+          placeholder: 'Whole number, min 0',
+        },
+        {
+          type: QuestionType.YESNO,
+          header: 'Subscribe',
+          question: 'Subscribe',
+        },
+        {
+          type: QuestionType.CHOICE,
+          header: 'color',
+          question: 'color',
+          options: [
+            { label: 'Red', description: 'r' },
+            { label: 'Green', description: 'g' },
+          ],
+          multiSelect: false,
+        },
+        {
+          type: QuestionType.CHOICE,
+          header: 'tags',
+          question: 'tags',
+          options: [
+            { label: 'a', description: '' },
+            { label: 'b', description: '' },
+            { label: 'c', description: '' },
+          ],
+          multiSelect: true,
+        },
+      ]);
+    });
+  });
+
+  describe('answersToElicitationContent', () => {
+    it('converts answers to typed values', () => {
+      const content = answersToElicitationContent(SCHEMA, {
+        '0': 'Ada',
+        '1': '36',
+        '2': 'Yes',
+        '3': 'Green',
+        '4': 'a, c',
+      });
+
+      expect(content).toEqual({
+        name: 'Ada',
+        age: 36,
+        subscribe: true,
+        color: 'g',
+        tags: ['a', 'c'],
+      });
+    });
+
+    it('keeps multi-select labels that contain commas apart', () => {
+      const schema: McpElicitationSchema = {
+        type: 'object',
+        properties: {
+          cities: {
+            type: 'array',
+            items: {
+              anyOf: [
+                { const: 'nyc', title: 'New York, NY' },
+                { const: 'sf', title: 'San Francisco, CA' },
+              ],
+            },
+          },
+        },
+      };
+
+      expect(
+        answersToElicitationContent(schema, {
+          '0': 'New York, NY, San Francisco, CA',
+        }),
+      ).toEqual({ cities: ['nyc', 'sf'] });
+      expect(
+        answersToElicitationContent(schema, {
+          '0': 'San Francisco, CA, Boston, MA',
+        }),
+      ).toEqual({ cities: ['sf', 'Boston, MA'] });
+    });
+
+    it('omits blank and invalid answers', () => {
+      const content = answersToElicitationContent(SCHEMA, {
+        '0': '  ',
+        '1': '3.5',
+        '2': 'maybe',
+      });
+
+      expect(content).toEqual({});
+    });
+  });
+
+  describe('createElicitationRequestHandler', () => {
+    let messageBus: MessageBus;
+    const signal = new AbortController().signal;
+
+    beforeEach(() => {
+      messageBus = new MessageBus(new PolicyEngine());
+    });
+
+    it('declines when no UI is listening', async () => {
+      const handler = createElicitationRequestHandler('server', messageBus);
+
+      await expect(handler(createRequest(), { signal })).resolves.toEqual({
+        action: 'decline',
+      });
+    });
+
+    it('declines url mode requests', async () => {
+      messageBus.subscribe(MessageBusType.MCP_ELICITATION_REQUEST, () => {});
+      const handler = createElicitationRequestHandler('server', messageBus);
+
+      await expect(
+        handler(
+          createRequest({
+            mode: 'url',
+            url: 'https://example.com',
+            elicitationId: 'id',
+          }),
+          { signal },
+        ),
+      ).resolves.toEqual({ action: 'decline' });
+    });
+
+    it('forwards requests to the UI and returns its response', async () => {
+      messageBus.subscribe<McpElicitationRequest>(
+        MessageBusType.MCP_ELICITATION_REQUEST,
+        (request) => {
+          expect(request.serverName).toBe('server');
+          expect(request.message).toBe('Tell us about yourself');
+          void messageBus.publish({
+            type: MessageBusType.MCP_ELICITATION_RESPONSE,
+            correlationId: request.correlationId,
+            action: 'accept',
+            content: { name: 'Ada' },
+          });
+        },
+      );
+      const handler = createElicitationRequestHandler('server', messageBus);
+
+      await expect(handler(createRequest(), { signal })).resolves.toEqual({
+        action: 'accept',
+        content: { name: 'Ada' },
+      });
+    });
+
+    it('cancels when the request is aborted', async () => {
+      const controller = new AbortController();
+      messageBus.subscribe(MessageBusType.MCP_ELICITATION_REQUEST, () => {
+        controller.abort();
+      });
+      const handler = createElicitationRequestHandler('server', messageBus);
+
+      await expect(
+        handler(createRequest(), { signal: controller.signal }),
+      ).resolves.toEqual({ action: 'cancel' });
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  ElicitRequest,
+  ElicitResult,
+  PrimitiveSchemaDefinition,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  MessageBusType,
+  QuestionType,
+  type McpElicitationResponse,
+  type McpElicitationSchema,
+  type Question,
+  type QuestionOption,
+} from '../confirmation-bus/types.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+type ElicitationContent = NonNullable<ElicitResult['content']>;
+
+const MULTI_SELECT_SEPARATOR = ', ';
+const YES_ANSWER = 'Yes';
+const NO_ANSWER = 'No';
+
+interface EnumOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Returns the selectable options for an enum-like property, or undefined if
+ * the property is free-form.
+ */
+function getEnumOptions(
+  property: PrimitiveSchemaDefinition,
+): EnumOption[] | undefined {
+  if (property.type === 'array') {
+    const items = property.items;
+    if ('anyOf' in items) {
+      return items.anyOf.map((o) => ({ value: o.const, label: o.title }));
+    }
+    return items.enum.map((value) => ({ value, label: value }));
+  }
+  if (property.type !== 'string') {
+    return undefined;
+  }
+  if ('oneOf' in property) {
+    return property.oneOf.map((o) => ({ value: o.const, label: o.title }));
+  }
+  if ('enum' in property) {
+    const names = 'enumNames' in property ? property.enumNames : undefined;
+    return property.enum.map((value, i) => ({
+      value,
+      label: names?.[i] ?? value,
+    }));
+  }
+  return undefined;
+}
+
+function describeProperty(property: PrimitiveSchemaDefinition): string {
+  const hints: string[] = [];
+  if (property.type === 'number' || property.type === 'integer') {
+    hints.push(property.type === 'integer' ? 'Whole number' : 'Number');
+    if (property.minimum !== undefined) hints.push(`min ${property.minimum}`);
+    if (property.maximum !== undefined) hints.push(`max ${property.maximum}`);
+  } else if (property.type === 'string' && 'format' in property) {
+    if (property.format) hints.push(`Format: ${property.format}`);
+  }
+  if (property.default !== undefined) {
+    hints.push(`default: ${String(property.default)}`);
+  }
+  return hints.join(', ');
+}
+
+/**
+ * Converts an elicitation schema into questions that can be rendered by the
+ * ask-user form, in property order.
+ */
+export function elicitationSchemaToQuestions(
+  schema: McpElicitationSchema,
+): Question[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties).map(([key, property]) => {
+    const title = property.title ?? key;
+    const question = [title, property.description].filter(Boolean).join(' - ');
+    const header = required.has(key) ? `${title}*` : title;
+
+    if (property.type === 'boolean') {
+      return { type: QuestionType.YESNO, header, question };
+    }
+
+    const enumOptions = getEnumOptions(property);
+    if (enumOptions) {
+      const options: QuestionOption[] = enumOptions.map((o) => ({
+        label: o.label,
+        description: o.label === o.value ? '' : o.value,
+      }));
+      return {
+        type: QuestionType.CHOICE,
+        header,
+        question,
+        options,
+        multiSelect: property.type === 'array',
+      };
+    }
+
+    return {
+      type: QuestionType.TEXT,
+      header,
+      question,
+      placeholder: describeProperty(property) || undefined,
+    };
+  });
+}
+
+/**
+ * Splits a multi-select answer back into the labels it was joined from. The
+ * form joins the selected labels in option order, followed by any custom
+ * text, so matching whole labels keeps labels that contain the separator
+ * intact. Answers made of labels alone are preferred over ones with custom
+ * text.
+ */
+function splitMultiSelectAnswer(answer: string, labels: string[]): string[] {
+  const split = (
+    start: number,
+    firstOption: number,
+    allowCustom: boolean,
+  ): string[] | undefined => {
+    if (start === answer.length) {
+      return [];
+    }
+    for (let i = firstOption; i < labels.length; i++) {
+      const label = labels[i];
+      const end = start + label.length;
+      if (!label || !answer.startsWith(label, start)) {
+        continue;
+      }
+      if (end === answer.length) {
+        return [label];
+      }
+      if (answer.startsWith(MULTI_SELECT_SEPARATOR, end)) {
+        const rest = split(
+          end + MULTI_SELECT_SEPARATOR.length,
+          i + 1,
+          allowCustom,
+        );
+        if (rest) {
+          return [label, ...rest];
+        }
+      }
+    }
+    return allowCustom ? [answer.slice(start)] : undefined;
+  };
+  return split(0, 0, false) ?? split(0, 0, true) ?? [answer];
+}
+
+function toValue(
+  property: PrimitiveSchemaDefinition,
+  answer: string,
+): ElicitationContent[string] | undefined {
+  const enumOptions = getEnumOptions(property);
+  const toEnumValue = (label: string) =>
+    enumOptions?.find((o) => o.label === label)?.value ?? label;
+
+  switch (property.type) {
+    case 'boolean': {
+      const normalized = answer.toLowerCase();
+      if (normalized === YES_ANSWER.toLowerCase() || normalized === 'true') {
+        return true;
+      }
+      if (normalized === NO_ANSWER.toLowerCase() || normalized === 'false') {
+        return false;
+      }
+      return undefined;
+    }
+    case 'number':
+    case 'integer': {
+      const value = Number(answer);
+      if (!Number.isFinite(value)) return undefined;
+      if (property.type === 'integer' && !Number.isInteger(value)) {
+        return undefined;
+      }
+      return value;
+    }
+    case 'array':
+      return splitMultiSelectAnswer(
+        answer,
+        enumOptions?.map((o) => o.label) ?? [],
+      ).map(toEnumValue);
+    default:
+      return toEnumValue(answer);
+  }
+}
+
+/**
+ * Converts the answers collected by the ask-user form back into the content
+ * shape expected by the MCP server. Blank or unparseable answers are omitted
+ * so the server can apply its own defaults and validation.
+ */
+export function answersToElicitationContent(
+  schema: McpElicitationSchema,
+  answers: { [questionIndex: string]: string },
+): ElicitationContent {
+  const content: ElicitationContent = {};
+  Object.entries(schema.properties).forEach(([key, property], index) => {
+    const answer = answers[String(index)]?.trim();
+    if (!answer) return;
+    const value = toValue(property, answer);
+    if (value !== undefined) {
+      content[key] = value;
+    }
+  });
+  return content;
+}
+
+/**
+ * Creates the `elicitation/create` request handler for a single MCP server.
+ *
+ * Requests are published on the message bus so an interactive UI can render
+ * them as a form. When nothing is listening (e.g. non-interactive mode), the
+ * request is declined immediately.
+ */
+export function createElicitationRequestHandler(
+  serverName: string,
+  messageBus: MessageBus,
+) {
+  return async (
+    request: ElicitRequest,
+    extra: { signal: AbortSignal },
+  ): Promise<ElicitResult> => {
+    const { params } = request;
+    if (params.mode === 'url') {
+      return { action: 'decline' };
+    }
+    if (
+      messageBus.listenerCount(MessageBusType.MCP_ELICITATION_REQUEST) === 0
+    ) {
+      debugLogger.debug(
+        `[MCP elicitation] Declining request from "${serverName}": no UI is available.`,
+      );
+      return { action: 'decline' };
+    }
+    if (extra.signal.aborted) {
+      return { action: 'cancel' };
+    }
+
+    const correlationId = randomUUID();
+    return new Promise<ElicitResult>((resolve) => {
+      const cleanup = () => {
+        messageBus.unsubscribe(
+          MessageBusType.MCP_ELICITATION_RESPONSE,
+          responseHandler,
+        );
+        extra.signal.removeEventListener('abort', abortHandler);
+      };
+
+      const responseHandler = (response: McpElicitationResponse) => {
+        if (response.correlationId !== correlationId) return;
+        cleanup();
+        resolve(
+          response.action === 'accept'
+            ? { action: 'accept', content: response.content ?? {} }
+            : { action: response.action },
+        );
+      };
+
+      const abortHandler = () => {
+        // Let any UI showing this request know that it has gone away.
+        void messageBus.publish({
+          type: MessageBusType.MCP_ELICITATION_RESPONSE,
+          correlationId,
+          action: 'cancel',
+        });
+      };
+
+      messageBus.subscribe(
+        MessageBusType.MCP_ELICITATION_RESPONSE,
+        responseHandler,
+      );
+      extra.signal.addEventListener('abort', abortHandler, { once: true });
+
+      void messageBus.publish({
+        type: MessageBusType.MCP_ELICITATION_REQUEST,
+        correlationId,
+        serverName,
+        message: params.message,
+        requestedSchema: params.requestedSchema,
+      });
+    });
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GenerateContentResponse } from '@google/genai';
+import {
+  McpError,
+  type CreateMessageRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { BaseLlmClient } from '../core/baseLlmClient.js';
+import { PolicyDecision } from '../policy/types.js';
+import { LlmRole } from '../telemetry/llmRole.js';
+import { CoreEvent, coreEvents } from '../utils/events.js';
+import {
+  createSamplingRequestHandler,
+  MCP_SAMPLING_TOOL_NAME,
+  samplingMessagesToContents,
+  type McpSamplingContext,
+} from './mcp-sampling.js';
+
+function createRequest(
+  params: Partial<CreateMessageRequest['params']> = {},
+): CreateMessageRequest {
+  return {
+    method: 'sampling/createMessage',
+    params: {
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Summarize this' } },
+      ],
+      maxTokens: 100,
+      ...params,
+    },
+  };
+}
+
+describe('mcp-sampling', () => {
+  let generateContent: ReturnType<typeof vi.fn>;
+  let check: ReturnType<typeof vi.fn>;
+  let context: McpSamplingContext;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    generateContent = vi.fn().mockResolvedValue({
+      modelVersion: 'gemini-test-model',
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: 'A summary.' }] },
+          finishReason: 'STOP',
+        },
+      ],
+    } as unknown as GenerateContentResponse);
+    check = vi.fn().mockResolvedValue({ decision: PolicyDecision.ALLOW });
+    context = {
+      getBaseLlmClient: () => ({ generateContent }) as unknown as BaseLlmClient,
+      getActiveModel: () => 'gemini-active',
+      getPolicyEngine: () => ({ check }),
+    };
+  });
+
+  afterEach(() => {
+    coreEvents.removeAllListeners(CoreEvent.ConsentRequest);
+    vi.restoreAllMocks();
+  });
+
+  describe('samplingMessagesToContents', () => {
+    it('maps roles and content blocks to Gemini content', () => {
+      const contents = samplingMessagesToContents([
+        { role: 'user', content: { type: 'text', text: 'hi' } },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'look' },
+            { type: 'image', mimeType: 'image/png', data: 'abc' },
+          ],
+        },
+      ]);
+
+      expect(contents).toEqual([
+        { role: 'user', parts: [{ text: 'hi' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'look' },
+            { inlineData: { mimeType: 'image/png', data: 'abc' } },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('createSamplingRequestHandler', () => {
+    it('forwards allowed requests to the active model', async () => {
+      const handler = createSamplingRequestHandler('my-server', context);
+
+      const result = await handler(
+        createRequest({
+          systemPrompt: 'Be brief',
+          temperature: 0.2,
+          stopSequences: ['END'],
+        }),
+        { signal },
+      );
+
+      expect(check).toHaveBeenCalledWith(
+        expect.objectContaining({ name: MCP_SAMPLING_TOOL_NAME }),
+        'my-server',
+      );
+      expect(generateContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelConfigKey: { model: 'gemini-active' },
+          contents: [{ role: 'user', parts: [{ text: 'Summarize this' }] }],
+          systemInstruction: 'Be brief',
+          abortSignal: signal,
+          role: LlmRole.MCP_SAMPLING,
+          generationConfig: {
+            maxOutputTokens: 100,
+            temperature: 0.2,
+            stopSequences: ['END'],
+          },
+        }),
+      );
+      expect(result).toEqual({
+        model: 'gemini-test-model',
+        role: 'assistant',
+        stopReason: 'endTurn',
+        content: { type: 'text', text: 'A summary.' },
+      });
+    });
+
+    it('rejects requests denied by policy', async () => {
+      check.mockResolvedValue({ decision: PolicyDecision.DENY });
+      const handler = createSamplingRequestHandler('my-server', context);
+
+      await expect(handler(createRequest(), { signal })).rejects.toThrow(
+        McpError,
+      );
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+
+    it('declines ask_user decisions when no UI is listening', async () => {
+      check.mockResolvedValue({ decision: PolicyDecision.ASK_USER });
+      const handler = createSamplingRequestHandler('my-server', context);
+
+      await expect(handler(createRequest(), { signal })).rejects.toThrow(
+        /declined/,
+      );
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+
+    it('asks the user for consent on ask_user decisions', async () => {
+      check.mockResolvedValue({ decision: PolicyDecision.ASK_USER });
+      const onConsent = vi.fn(
+        (payload: { prompt: string; onConfirm: (ok: boolean) => void }) =>
+          payload.onConfirm(true),
+      );
+      coreEvents.on(CoreEvent.ConsentRequest, onConsent);
+      const handler = createSamplingRequestHandler('my-server', context);
+
+      await handler(createRequest(), { signal });
+
+      expect(onConsent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: expect.stringContaining('my-server'),
+        }),
+      );
+      expect(generateContent).toHaveBeenCalled();
+    });
+
+    it('rejects requests that include tools', async () => {
+      const handler = createSamplingRequestHandler('my-server', context);
+
+      await expect(
+        handler(
+          createRequest({
+            tools: [{ name: 't', inputSchema: { type: 'object' } }],
+          }),
+          { signal },
+        ),
+      ).rejects.toThrow(/not supported/);
+      expect(check).not.toHaveBeenCalled();
+    });
+
+    it('maps MAX_TOKENS to the maxTokens stop reason', async () => {
+      generateContent.mockResolvedValue({
+        candidates: [
+          {
+            content: { role: 'model', parts: [{ text: 'partial' }] },
+            finishReason: 'MAX_TOKENS',
+          },
+        ],
+      });
+      const handler = createSamplingRequestHandler('my-server', context);
+
+      const result = await handler(createRequest(), { signal });
+
+      expect(result.stopReason).toBe('maxTokens');
+      expect(result.model).toBe('gemini-active');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Content, FinishReason, Part } from '@google/genai';
+import {
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  type SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { BaseLlmClient } from '../core/baseLlmClient.js';
+import type { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyDecision } from '../policy/types.js';
+import { LlmRole } from '../telemetry/llmRole.js';
+import { CoreEvent, coreEvents } from '../utils/events.js';
+import { getResponseText } from '../utils/partUtils.js';
+import { debugLogger } from '../utils/debugLogger.js';
+
+/**
+ * The pseudo tool name used when asking the policy engine whether an MCP
+ * server may sample the model. Rules can target it together with `mcpName`
+ * to allow or deny sampling for a specific server.
+ */
+export const MCP_SAMPLING_TOOL_NAME = 'mcp_sampling';
+
+/**
+ * The error code the MCP specification reserves for a user (or policy)
+ * rejecting a sampling request.
+ */
+const SAMPLING_REJECTED_ERROR_CODE = -1;
+
+const MAX_PREVIEW_LENGTH = 500;
+
+/**
+ * The subset of the session configuration needed to answer
+ * `sampling/createMessage` requests.
+ */
+export interface McpSamplingContext {
+  getBaseLlmClient(): BaseLlmClient;
+  getActiveModel(): string;
+  getPolicyEngine(): Pick<PolicyEngine, 'check'>;
+}
+
+type SamplingContentBlock = Extract<
+  SamplingMessage['content'],
+  { type: string }
+>;
+
+function toPart(block: SamplingContentBlock): Part {
+  switch (block.type) {
+    case 'text':
+      return { text: block.text };
+    case 'image':
+    case 'audio':
+      return { inlineData: { mimeType: block.mimeType, data: block.data } };
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unsupported sampling content type: ${block.type}`,
+      );
+  }
+}
+
+/**
+ * Converts MCP sampling messages into Gemini `Content`.
+ */
+export function samplingMessagesToContents(
+  messages: SamplingMessage[],
+): Content[] {
+  return messages.map((message) => {
+    const blocks = Array.isArray(message.content)
+      ? message.content
+      : [message.content];
+    return {
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: blocks.map(toPart),
+    };
+  });
+}
+
+function toStopReason(finishReason: FinishReason | undefined): string {
+  switch (finishReason) {
+    case undefined:
+    case 'STOP':
+      return 'endTurn';
+    case 'MAX_TOKENS':
+      return 'maxTokens';
+    default:
+      return finishReason;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PREVIEW_LENGTH
+    ? `${text.slice(0, MAX_PREVIEW_LENGTH)}...`
+    : text;
+}
+
+function buildConsentPrompt(
+  serverName: string,
+  params: CreateMessageRequest['params'],
+): string {
+  const lines = [
+    `MCP server "${serverName}" is requesting a model completion ` +
+      `(${params.messages.length} message(s), up to ${params.maxTokens} tokens).`,
+  ];
+  if (params.systemPrompt) {
+    lines.push('', `System prompt: ${truncate(params.systemPrompt)}`);
+  }
+  const lastMessage = params.messages.at(-1);
+  if (lastMessage) {
+    const blocks = Array.isArray(lastMessage.content)
+      ? lastMessage.content
+      : [lastMessage.content];
+    const text = blocks
+      .map((block) => (block.type === 'text' ? block.text : `[${block.type}]`))
+      .join('\n');
+    lines.push('', `Last ${lastMessage.role} message: ${truncate(text)}`);
+  }
+  lines.push('', 'Do you want to allow this request?');
+  return lines.join('\n');
+}
+
+async function isSamplingAllowed(
+  serverName: string,
+  params: CreateMessageRequest['params'],
+  context: McpSamplingContext,
+): Promise<boolean> {
+  const { decision } = await context.getPolicyEngine().check(
+    {
+      name: MCP_SAMPLING_TOOL_NAME,
+      args: {
+        systemPrompt: params.systemPrompt,
+        maxTokens: params.maxTokens,
+        messageCount: params.messages.length,
+      },
+    },
+    serverName,
+  );
+
+  switch (decision) {
+    case PolicyDecision.ALLOW:
+      return true;
+    case PolicyDecision.DENY:
+      return false;
+    case PolicyDecision.ASK_USER:
+    default:
+      // Without an interactive UI there is nobody to ask, so decline.
+      if (coreEvents.listenerCount(CoreEvent.ConsentRequest) === 0) {
+        return false;
+      }
+      return new Promise<boolean>((resolve) => {
+        coreEvents.emitConsentRequest({
+          prompt: buildConsentPrompt(serverName, params),
+          onConfirm: (confirmed: boolean) => resolve(confirmed),
+        });
+      });
+  }
+}
+
+/**
+ * Creates the `sampling/createMessage` request handler for a single MCP
+ * server. Every request is checked against the policy engine before it is
+ * forwarded to the active model through the session's `BaseLlmClient`, so
+ * sampling usage is reflected in the session's token stats.
+ */
+export function createSamplingRequestHandler(
+  serverName: string,
+  context: McpSamplingContext,
+) {
+  return async (
+    request: CreateMessageRequest,
+    extra: { signal: AbortSignal },
+  ): Promise<CreateMessageResult> => {
+    const { params } = request;
+
+    if (params.tools?.length) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Tool use in sampling requests is not supported.',
+      );
+    }
+
+    if (!(await isSamplingAllowed(serverName, params, context))) {
+      debugLogger.debug(
+        `[MCP sampling] Request from "${serverName}" was declined.`,
+      );
+      throw new McpError(
+        SAMPLING_REJECTED_ERROR_CODE,
+        'Sampling request was declined by the user or policy.',
+      );
+    }
+
+    const model = context.getActiveModel();
+    const response = await context.getBaseLlmClient().generateContent({
+      modelConfigKey: { model },
+      contents: samplingMessagesToContents(params.messages),
+      systemInstruction: params.systemPrompt,
+      abortSignal: extra.signal,
+      promptId: `mcp-sampling-${serverName}`,
+      role: LlmRole.MCP_SAMPLING,
+      generationConfig: {
+        maxOutputTokens: params.maxTokens,
+        ...(params.temperature !== undefined && {
+          temperature: params.temperature,
+        }),
+        ...(params.stopSequences && { stopSequences: params.stopSequences }),
+      },
+    });
+
+    return {
+      model: response.modelVersion ?? model,
+      role: 'assistant',
+      stopReason: toStopReason(response.candidates?.[0]?.finishReason),
+      content: { type: 'text', text: getResponseText(response) ?? '' },
+    };
+  };
+}
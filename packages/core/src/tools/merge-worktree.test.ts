@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MergeWorktreeTool } from './merge-worktree.js';
+import { ToolErrorType } from './tool-error.js';
+import { type MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  applyWorktreePatch,
+  cleanupWorktree,
+} from '../services/worktreeService.js';
+
+vi.mock('../services/worktreeService.js', () => ({
+  applyWorktreePatch: vi.fn(),
+  cleanupWorktree: vi.fn(),
+}));
+
+describe('MergeWorktreeTool', () => {
+  const worktree = {
+    name: 'agent-coder-abc123',
+    path: '/project/.gemini/worktrees/agent-coder-abc123',
+    baseSha: 'base-sha',
+  };
+  const patch = 'diff --git a/a.ts b/a.ts\n';
+  let tool: MergeWorktreeTool;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const messageBus = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      subscribe: vi.fn(),
+      unsubscribe: vi.fn(),
+    } as unknown as MessageBus;
+    tool = new MergeWorktreeTool(
+      messageBus,
+      'Coder',
+      '/project',
+      worktree,
+      patch,
+    );
+  });
+
+  it('should show the patch for confirmation', async () => {
+    const details = await tool
+      .build({})
+      .shouldConfirmExecute(new AbortController().signal, 'ask_user');
+
+    expect(details).toMatchObject({
+      type: 'edit',
+      title: 'Merge changes from Coder?',
+      fileName: worktree.name,
+      fileDiff: patch,
+    });
+  });
+
+  it('should apply the patch and remove the worktree', async () => {
+    const result = await tool
+      .build({})
+      .execute({ abortSignal: new AbortController().signal });
+
+    expect(applyWorktreePatch).toHaveBeenCalledWith('/project', patch);
+    expect(cleanupWorktree).toHaveBeenCalledWith(worktree.path, '/project');
+    expect(result.error).toBeUndefined();
+    expect(result.llmContent).toBe('Merged changes from Coder into /project.');
+  });
+
+  it('should keep the worktree when the patch does not apply', async () => {
+    vi.mocked(applyWorktreePatch).mockRejectedValue(
+      new Error('patch does not apply'),
+    );
+
+    const result = await tool
+      .build({})
+      .execute({ abortSignal: new AbortController().signal });
+
+    expect(cleanupWorktree).not.toHaveBeenCalled();
+    expect(result.error).toEqual({
+      message: `Failed to apply the changes from ${worktree.path}: patch does not apply`,
+      type: ToolErrorType.EXECUTION_FAILED,
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  type ExecuteOptions,
+  type ToolCallConfirmationDetails,
+  type ToolResult,
+} from './tools.js';
+import {
+  MERGE_WORKTREE_TOOL_NAME,
+  MERGE_WORKTREE_DISPLAY_NAME,
+} from './definitions/base-declarations.js';
+import { ToolErrorType } from './tool-error.js';
+import { type MessageBus } from '../confirmation-bus/message-bus.js';
+import {
+  applyWorktreePatch,
+  cleanupWorktree,
+  type WorktreeInfo,
+} from '../services/worktreeService.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/**
+ * Tool that merges the changes a subagent made in its isolated worktree into
+ * the main checkout. It is scheduled by the agent executor rather than called
+ * by a model, so the patch goes through the usual policy and confirmation
+ * flow: approving applies the patch, rejecting it discards the worktree.
+ */
+export class MergeWorktreeTool extends BaseDeclarativeTool<
+  Record<string, never>,
+  ToolResult
+> {
+  static readonly Name = MERGE_WORKTREE_TOOL_NAME;
+
+  constructor(
+    messageBus: MessageBus,
+    private readonly agentName: string,
+    private readonly projectRoot: string,
+    private readonly worktree: WorktreeInfo,
+    private readonly patch: string,
+  ) {
+    super(
+      MergeWorktreeTool.Name,
+      MERGE_WORKTREE_DISPLAY_NAME,
+      'Applies the changes made in a subagent worktree to the main checkout.',
+      Kind.Edit,
+      { type: 'object', properties: {} },
+      messageBus,
+    );
+  }
+
+  protected createInvocation(
+    params: Record<string, never>,
+    messageBus: MessageBus,
+    toolName: string,
+    toolDisplayName: string,
+  ): MergeWorktreeInvocation {
+    return new MergeWorktreeInvocation(
+      params,
+      messageBus,
+      toolName,
+      toolDisplayName,
+      this.agentName,
+      this.projectRoot,
+      this.worktree,
+      this.patch,
+    );
+  }
+}
+
+export class MergeWorktreeInvocation extends BaseToolInvocation<
+  Record<string, never>,
+  ToolResult
+> {
+  constructor(
+    params: Record<string, never>,
+    messageBus: MessageBus,
+    toolName: string,
+    toolDisplayName: string,
+    private readonly agentName: string,
+    private readonly projectRoot: string,
+    private readonly worktree: WorktreeInfo,
+    private readonly patch: string,
+  ) {
+    super(params, messageBus, toolName, toolDisplayName);
+  }
+
+  getDescription(): string {
+    return `Merging changes from ${this.agentName} into ${this.projectRoot}`;
+  }
+
+  protected override async getConfirmationDetails(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    return {
+      type: 'edit',
+      title: `Merge changes from ${this.agentName}?`,
+      fileName: this.worktree.name,
+      filePath: this.worktree.path,
+      fileDiff: this.patch,
+      originalContent: null,
+      newContent: '',
+      onConfirm: async () => {
+        // Policy updates are handled centrally by the scheduler.
+      },
+    };
+  }
+
+  async execute(_options: ExecuteOptions): Promise<ToolResult> {
+    try {
+      await applyWorktreePatch(this.projectRoot, this.patch);
+    } catch (error) {
+      const message = `Failed to apply the changes from ${this.worktree.path}: ${getErrorMessage(error)}`;
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.EXECUTION_FAILED },
+      };
+    }
+
+    await cleanupWorktree(this.worktree.path, this.projectRoot);
+    const message = `Merged changes from ${this.agentName} into ${this.projectRoot}.`;
+    return { llmContent: message, returnDisplay: message };
+  }
+}
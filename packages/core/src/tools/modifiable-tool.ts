@@ -37,6 +37,7 @@ export interface ModifyContext<ToolParams> {
     oldContent: string,
     modifiedProposedContent: string,
     originalParams: ToolParams,
+    rejectedHunks?: string[],
   ) => ToolParams;
 }
 
@@ -1088,6 +1088,45 @@ describe('ShellTool', () => {
       );
     });
 
+    it('should request blocked domains instead of full network access', async () => {
+      const sandboxManager = {
+        parseDenials: vi.fn().mockReturnValue({
+          domains: ['example.com'],
+        }),
+        prepareCommand: vi.fn(),
+        isKnownSafeCommand: vi.fn(),
+        isDangerousCommand: vi.fn(),
+      } as unknown as SandboxManager;
+      mockSandboxManager = sandboxManager;
+
+      const invocation = shellTool.build({
+        command: 'curl https://example.com',
+        additional_permissions: { allowedDomains: ['api.test'] },
+      });
+      const promise = invocation.execute({ abortSignal: mockAbortSignal });
+
+      resolveExecutionPromise({
+        exitCode: 56,
+        output: 'curl: (56) CONNECT tunnel failed, response 403',
+        executionMethod: 'child_process',
+        signal: null,
+        error: null,
+        aborted: false,
+        pid: 12345,
+        rawOutput: Buffer.from('curl: (56) CONNECT tunnel failed'),
+      });
+
+      const result = await promise;
+
+      expect(result.error?.type).toBe(ToolErrorType.SANDBOX_EXPANSION_REQUIRED);
+      const details = JSON.parse(result.error!.message);
+      expect(details.additionalPermissions.network).toBeUndefined();
+      expect(details.additionalPermissions.allowedDomains).toEqual([
+        'api.test',
+        'example.com',
+      ]);
+    });
+
     it('should NOT consolidate paths into sensitive directories', async () => {
       const rootDir = path.join(tempRootDir, 'fake_root');
       const homeDir = path.join(rootDir, 'home');
@@ -568,6 +568,8 @@ export class ShellToolInvocation extends BaseToolInvocation<
               network:
                 this.params[PARAM_ADDITIONAL_PERMISSIONS]?.network ||
                 this.proactivePermissionsConfirmed?.network,
+              allowedDomains:
+                this.params[PARAM_ADDITIONAL_PERMISSIONS]?.allowedDomains,
               fileSystem: {
                 read: [
                   ...(this.params[PARAM_ADDITIONAL_PERMISSIONS]?.fileSystem
@@ -782,7 +784,8 @@ export class ShellToolInvocation extends BaseToolInvocation<
             const proactive =
               await getProactiveToolSuggestions(rootCommandDisplay);
             if (proactive) {
-              if (proactive.network) {
+              // Known blocked domains are a narrower request than full network access.
+              if (proactive.network && !sandboxDenial.domains) {
                 sandboxDenial.network = true;
               }
               if (proactive.fileSystem?.read) {
@@ -842,6 +845,11 @@ export class ShellToolInvocation extends BaseToolInvocation<
 
           const simplifiedRead = this.simplifyPaths(readPaths);
           const simplifiedWrite = this.simplifyPaths(writePaths);
+          const allowedDomains = new Set([
+            ...(this.params[PARAM_ADDITIONAL_PERMISSIONS]?.allowedDomains ||
+              []),
+            ...(sandboxDenial.domains || []),
+          ]);
 
           const additionalPermissions = {
             network:
@@ -855,6 +863,8 @@ export class ShellToolInvocation extends BaseToolInvocation<
                     write: simplifiedWrite,
                   }
                 : undefined,
+            allowedDomains:
+              allowedDomains.size > 0 ? Array.from(allowedDomains) : undefined,
           };
 
           const originalReadSize =
@@ -865,6 +875,9 @@ export class ShellToolInvocation extends BaseToolInvocation<
               ?.length || 0;
           const originalNetwork =
             !!this.params[PARAM_ADDITIONAL_PERMISSIONS]?.network;
+          const originalDomainsSize =
+            this.params[PARAM_ADDITIONAL_PERMISSIONS]?.allowedDomains?.length ||
+            0;
 
           const newReadSize =
             additionalPermissions.fileSystem?.read?.length || 0;
@@ -875,7 +888,8 @@ export class ShellToolInvocation extends BaseToolInvocation<
           const hasNewPermissions =
             newReadSize > originalReadSize ||
             newWriteSize > originalWriteSize ||
-            (!originalNetwork && newNetwork);
+            (!originalNetwork && newNetwork) ||
+            allowedDomains.size > originalDomainsSize;
 
           if (hasNewPermissions) {
             const confirmationDetails = {
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Config } from '../config/config.js';
+import { createMockMessageBus } from '../test-utils/mock-message-bus.js';
+import { ToolErrorType } from './tool-error.js';
+import { SkillScriptTool, getSkillScriptToolName } from './skill-script.js';
+
+describe.skipIf(process.platform === 'win32')('SkillScriptTool', () => {
+  let testRootDir: string;
+  let config: Config;
+
+  const createTool = async (name: string, content: string) => {
+    const scriptPath = path.join(testRootDir, `${name}.sh`);
+    await fs.writeFile(scriptPath, `#!/bin/sh\n${content}\n`, { mode: 0o755 });
+    return new SkillScriptTool(
+      config,
+      'my skill',
+      { name, description: `Runs ${name}`, path: scriptPath },
+      createMockMessageBus(),
+    );
+  };
+
+  beforeEach(async () => {
+    testRootDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'skill-script-test-'),
+    );
+    config = {
+      getTargetDir: () => testRootDir,
+      getShellToolInactivityTimeout: () => 0,
+      sanitizationConfig: {
+        allowedEnvironmentVariables: [],
+        blockedEnvironmentVariables: [],
+        enableEnvironmentVariableRedaction: false,
+      },
+      sandboxManager: undefined,
+    } as unknown as Config;
+  });
+
+  afterEach(async () => {
+    await fs.rm(testRootDir, { recursive: true, force: true });
+  });
+
+  it('builds a tool name from the skill and script names', () => {
+    expect(getSkillScriptToolName('my skill', 'lint')).toBe(
+      'skill_my_skill_lint',
+    );
+  });
+
+  it('runs the script with its arguments from the project root', async () => {
+    const tool = await createTool('echo', 'echo "$@" in $(pwd)');
+
+    const result = await tool
+      .build({ args: ['a', 'b'] })
+      .execute({ abortSignal: new AbortController().signal });
+
+    expect(tool.name).toBe('skill_my_skill_echo');
+    expect(result.error).toBeUndefined();
+    expect(result.llmContent).toBe(
+      `a b in ${await fs.realpath(testRootDir)}\n`,
+    );
+  });
+
+  it('reports a non-zero exit code', async () => {
+    const tool = await createTool('fail', 'echo broken >&2\nexit 3');
+
+    const result = await tool
+      .build({})
+      .execute({ abortSignal: new AbortController().signal });
+
+    expect(result.error?.type).toBe(ToolErrorType.EXECUTION_FAILED);
+    expect(result.llmContent).toContain('Stderr: broken');
+    expect(result.llmContent).toContain('Exit Code: 3');
+  });
+
+  it('redacts secrets from the script environment', async () => {
+    vi.stubEnv('MY_SERVICE_TOKEN', 'secret-value');
+    const tool = await createTool('env', 'echo "token=$MY_SERVICE_TOKEN"');
+
+    try {
+      const result = await tool
+        .build({})
+        .execute({ abortSignal: new AbortController().signal });
+
+      expect(result.llmContent).toBe('token=\n');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('cancels scripts that produce no output within the timeout', async () => {
+    vi.spyOn(config, 'getShellToolInactivityTimeout').mockReturnValue(100);
+    const tool = await createTool('hang', 'echo started\nsleep 10');
+
+    const result = await tool
+      .build({})
+      .execute({ abortSignal: new AbortController().signal });
+
+    expect(result.error?.type).toBe(ToolErrorType.EXECUTION_FAILED);
+    expect(result.llmContent).toContain('Stdout: started');
+    expect(result.llmContent).toContain('exceeded the timeout');
+  });
+
+  it('keeps only the tail of large output', async () => {
+    const tool = await createTool(
+      'loud',
+      "head -c 1100000 /dev/zero | tr '\\0' a\necho end",
+    );
+
+    const result = await tool
+      .build({})
+      .execute({ abortSignal: new AbortController().signal });
+
+    const output = result.llmContent as string;
+    expect(output).toMatch(/^\[Output truncated/);
+    expect(output.endsWith('aend\n')).toBe(true);
+    expect(output.length).toBeLessThan(1024 * 1024 + 100);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import { spawn } from 'node:child_process';
+import {
+  Kind,
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  type ToolResult,
+  type ToolInvocation,
+  type ExecuteOptions,
+} from './tools.js';
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { SkillScript } from '../skills/skillLoader.js';
+import { ToolErrorType } from './tool-error.js';
+import { SKILL_SCRIPT_TOOL_PREFIX } from './tool-names.js';
+import {
+  getSecureSanitizationConfig,
+  sanitizeEnvironment,
+} from '../services/environmentSanitization.js';
+
+// Only the tail of each output stream is kept beyond this many characters.
+const MAX_OUTPUT_LENGTH = 1024 * 1024;
+
+export interface SkillScriptToolParams {
+  /** Arguments passed to the script. */
+  args?: string[];
+}
+
+/**
+ * Returns the tool name a skill's script is exposed as.
+ */
+export function getSkillScriptToolName(
+  skillName: string,
+  scriptName: string,
+): string {
+  return `${SKILL_SCRIPT_TOOL_PREFIX}${skillName}_${scriptName}`.replace(
+    /[^a-zA-Z0-9_-]/g,
+    '_',
+  );
+}
+
+function appendOutput(
+  buffer: { text: string; truncated: boolean },
+  chunk: string,
+): void {
+  const text = buffer.text + chunk;
+  if (text.length > MAX_OUTPUT_LENGTH) {
+    buffer.text = text.slice(text.length - MAX_OUTPUT_LENGTH);
+    buffer.truncated = true;
+  } else {
+    buffer.text = text;
+  }
+}
+
+function formatOutput(buffer: { text: string; truncated: boolean }): string {
+  return buffer.truncated
+    ? `[Output truncated to the last ${MAX_OUTPUT_LENGTH} characters.]\n${buffer.text}`
+    : buffer.text;
+}
+
+class SkillScriptToolInvocation extends BaseToolInvocation<
+  SkillScriptToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    private readonly script: SkillScript,
+    params: SkillScriptToolParams,
+    messageBus: MessageBus,
+    toolName?: string,
+    toolDisplayName?: string,
+  ) {
+    super(params, messageBus, toolName, toolDisplayName);
+  }
+
+  getDescription(): string {
+    return [this.script.path, ...(this.params.args ?? [])].join(' ');
+  }
+
+  async execute({ abortSignal }: ExecuteOptions): Promise<ToolResult> {
+    const args = this.params.args ?? [];
+    const cwd = this.config.getTargetDir();
+    // Skill scripts come from third parties, so secrets are always redacted
+    // from their environment.
+    const sanitizationConfig = getSecureSanitizationConfig(
+      { enableEnvironmentVariableRedaction: true },
+      this.config.sanitizationConfig,
+    );
+    const env = sanitizeEnvironment(process.env, sanitizationConfig);
+
+    let finalCommand = this.script.path;
+    let finalArgs = args;
+    let finalEnv = env;
+    let cleanupFunc: (() => void) | undefined;
+
+    const sandboxManager = this.config.sandboxManager;
+    if (sandboxManager) {
+      const prepared = await sandboxManager.prepareCommand({
+        command: this.script.path,
+        args,
+        cwd,
+        env,
+        policy: { sanitizationConfig },
+      });
+      finalCommand = prepared.program;
+      finalArgs = prepared.args;
+      finalEnv = prepared.env;
+      cleanupFunc = prepared.cleanup;
+    }
+
+    const stdout = { text: '', truncated: false };
+    const stderr = { text: '', truncated: false };
+    let error: Error | null = null;
+    let code: number | null = null;
+
+    const timeoutMs = this.config.getShellToolInactivityTimeout();
+    const timeoutController = new AbortController();
+    let timeoutTimer: NodeJS.Timeout | undefined;
+    const resetTimeout = () => {
+      if (timeoutMs <= 0) {
+        return;
+      }
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      timeoutTimer = setTimeout(() => timeoutController.abort(), timeoutMs);
+    };
+
+    try {
+      resetTimeout();
+      await new Promise<void>((resolve) => {
+        const child = spawn(finalCommand, finalArgs, {
+          cwd,
+          env: finalEnv,
+          signal: AbortSignal.any([abortSignal, timeoutController.signal]),
+        });
+        child.stdout.on('data', (data: Buffer) => {
+          resetTimeout();
+          appendOutput(stdout, data.toString());
+        });
+        child.stderr.on('data', (data: Buffer) => {
+          resetTimeout();
+          appendOutput(stderr, data.toString());
+        });
+        child.on('error', (err: Error) => {
+          error = err;
+        });
+        child.on('close', (exitCode: number | null) => {
+          code = exitCode;
+          resolve();
+        });
+      });
+    } finally {
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      cleanupFunc?.();
+    }
+
+    if (timeoutController.signal.aborted) {
+      error = new Error(
+        `Script was cancelled because it exceeded the timeout of ${(
+          timeoutMs / 60000
+        ).toFixed(1)} minutes without output.`,
+      );
+    }
+
+    const stdoutText = formatOutput(stdout);
+    const stderrText = formatOutput(stderr);
+    if (error || code !== 0) {
+      const llmContent = [
+        `Stdout: ${stdoutText || '(empty)'}`,
+        `Stderr: ${stderrText || '(empty)'}`,
+        `Error: ${error ?? '(none)'}`,
+        `Exit Code: ${code ?? '(none)'}`,
+      ].join('\n');
+      return {
+        llmContent,
+        returnDisplay: llmContent,
+        error: {
+          message: llmContent,
+          type: ToolErrorType.EXECUTION_FAILED,
+        },
+      };
+    }
+
+    const output = stderrText
+      ? `${stdoutText}\nStderr: ${stderrText}`
+      : stdoutText;
+    return {
+      llmContent: output || '(no output)',
+      returnDisplay: output || '(no output)',
+    };
+  }
+}
+
+/**
+ * Exposes a script bundled with a skill as a tool. The script runs from the
+ * project root with the tool's `args` as its arguments.
+ */
+export class SkillScriptTool extends BaseDeclarativeTool<
+  SkillScriptToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    readonly skillName: string,
+    private readonly script: SkillScript,
+    messageBus: MessageBus,
+  ) {
+    const name = getSkillScriptToolName(skillName, script.name);
+    super(
+      name,
+      `${skillName}: ${script.name}`,
+      `${script.description || `Runs the ${script.name} script.`}
+
+This script is bundled with the "${skillName}" skill and runs \`${path.basename(script.path)}\` from the project root.`,
+      Kind.Execute,
+      {
+        type: 'object',
+        properties: {
+          args: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Arguments to pass to the script.',
+          },
+        },
+      },
+      messageBus,
+      false, // isOutputMarkdown
+      false, // canUpdateOutput
+    );
+  }
+
+  protected createInvocation(
+    params: SkillScriptToolParams,
+    messageBus: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<SkillScriptToolParams, ToolResult> {
+    return new SkillScriptToolInvocation(
+      this.config,
+      this.script,
+      params,
+      messageBus,
+      _toolName ?? this.name,
+      _toolDisplayName ?? this.displayName,
+    );
+  }
+}
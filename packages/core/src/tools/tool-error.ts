@@ -78,6 +78,9 @@ export enum ToolErrorType {
   // WebSearch-specific Errors
   WEB_SEARCH_FAILED = 'web_search_failed',
 
+  // IDE-specific Errors
+  IDE_NOT_CONNECTED = 'ide_not_connected',
+
   // Hook-specific Errors
   STOP_EXECUTION = 'stop_execution',
 }
@@ -192,6 +192,11 @@ export const TRACKER_LIST_TASKS_TOOL_NAME = 'tracker_list_tasks';
 export const TRACKER_ADD_DEPENDENCY_TOOL_NAME = 'tracker_add_dependency';
 export const TRACKER_VISUALIZE_TOOL_NAME = 'tracker_visualize';
 
+export const IDE_DIAGNOSTICS_TOOL_NAME = 'ide_diagnostics';
+export const IDE_NAVIGATE_TOOL_NAME = 'ide_navigate';
+
+export const DOC_SEARCH_TOOL_NAME = 'search_docs';
+
 export const AGENT_TOOL_NAME = 'invoke_agent';
 
 // Tool Display Names
@@ -240,6 +245,9 @@ export function getToolAliases(name: string): string[] {
 /** Prefix used for tools discovered via the tool DiscoveryCommand. */
 export const DISCOVERED_TOOL_PREFIX = 'discovered_tool_';
 
+/** Prefix used for scripts bundled with an active skill. */
+export const SKILL_SCRIPT_TOOL_PREFIX = 'skill_';
+
 /**
  * List of all built-in tool names.
  */
@@ -270,6 +278,9 @@ export const ALL_BUILTIN_TOOL_NAMES = [
   TRACKER_LIST_TASKS_TOOL_NAME,
   TRACKER_ADD_DEPENDENCY_TOOL_NAME,
   TRACKER_VISUALIZE_TOOL_NAME,
+  IDE_DIAGNOSTICS_TOOL_NAME,
+  IDE_NAVIGATE_TOOL_NAME,
+  DOC_SEARCH_TOOL_NAME,
   GET_INTERNAL_DOCS_TOOL_NAME,
   ENTER_PLAN_MODE_TOOL_NAME,
   EXIT_PLAN_MODE_TOOL_NAME,
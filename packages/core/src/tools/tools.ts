@@ -21,7 +21,10 @@ import {
   type Question,
 } from '../confirmation-bus/types.js';
 import { ApprovalMode } from '../policy/types.js';
-import type { SubagentProgress } from '../agents/types.js';
+import type {
+  SubagentFanOutProgress,
+  SubagentProgress,
+} from '../agents/types.js';
 
 /**
 /**
@@ -870,7 +873,11 @@ export interface TodoList {
   todos: Todo[];
 }
 
-export type ToolLiveOutput = string | AnsiOutput | SubagentProgress;
+export type ToolLiveOutput =
+  | string
+  | AnsiOutput
+  | SubagentProgress
+  | SubagentFanOutProgress;
 
 export interface StructuredToolResult {
   summary: string;
@@ -926,6 +933,7 @@ export type ToolResultDisplay =
   | AnsiOutput
   | TodoList
   | SubagentProgress
+  | SubagentFanOutProgress
   | GrepResult
   | ListDirectoryResult
   | ReadManyFilesResult;
@@ -984,12 +992,16 @@ export interface ToolEditConfirmationDetails {
   originalContent: string | null;
   newContent: string;
   isModifying?: boolean;
+  /** Whether the user may change the content before it is written. Set by the scheduler. */
+  isModifiable?: boolean;
   diffStat?: DiffStat;
   ideConfirmation?: Promise<DiffUpdateResult>;
 }
 
 export interface ToolEditConfirmationPayload {
   newContent: string;
+  /** Hunks of the proposed change that the user rejected, as unified diff text */
+  rejectedHunks?: string[];
 }
 
 export interface ToolAskUserConfirmationPayload {
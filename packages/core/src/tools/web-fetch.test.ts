@@ -31,15 +31,16 @@ import {
   logWebFetchFallbackAttempt,
   WebFetchFallbackAttemptEvent,
 } from '../telemetry/index.js';
-import { convert } from 'html-to-text';
+import { extractReadableMarkdown } from '../utils/readerMode.js';
+import type { WebFetchCacheEntry } from '../services/webFetchCache.js';
 
 const mockGenerateContent = vi.fn();
 const mockGetGeminiClient = vi.fn(() => ({
   generateContent: mockGenerateContent,
 }));
 
-vi.mock('html-to-text', () => ({
-  convert: vi.fn((text) => `Converted: ${text}`),
+vi.mock('../utils/readerMode.js', () => ({
+  extractReadableMarkdown: vi.fn((text) => `Converted: ${text}`),
 }));
 
 vi.mock('../telemetry/index.js', () => ({
@@ -267,9 +268,23 @@ describe('convertGithubUrlToRaw', () => {
 describe('WebFetchTool', () => {
   let mockConfig: Config;
   let bus: MessageBus;
+  let mockCache: {
+    get: Mock;
+    isFresh: Mock;
+    getRevalidationHeaders: Mock;
+    set: Mock;
+    touch: Mock;
+  };
 
   beforeEach(() => {
     vi.resetAllMocks();
+    mockCache = {
+      get: vi.fn().mockResolvedValue(undefined),
+      isFresh: vi.fn().mockReturnValue(false),
+      getRevalidationHeaders: vi.fn().mockReturnValue({}),
+      set: vi.fn(),
+      touch: vi.fn(),
+    };
     bus = createMockMessageBus();
     getMockMessageBusInstance(bus).defaultToolDecision = 'ask_user';
     mockConfig = {
@@ -286,6 +301,7 @@ describe('WebFetchTool', () => {
       getRetryFetchErrors: vi.fn().mockReturnValue(false),
       getMaxAttempts: vi.fn().mockReturnValue(3),
       getDirectWebFetch: vi.fn().mockReturnValue(false),
+      getWebFetchCache: vi.fn(() => mockCache),
       modelConfigService: {
         getResolvedConfig: vi.fn().mockImplementation(({ model }) => ({
           model,
@@ -595,7 +611,7 @@ describe('WebFetchTool', () => {
 
     it.each([
       {
-        name: 'HTML content using html-to-text',
+        name: 'HTML content using reader mode',
         content: '<html><body><h1>Hello</h1></body></html>',
         contentType: 'text/html; charset=utf-8',
         shouldConvert: true,
@@ -653,18 +669,14 @@ describe('WebFetchTool', () => {
             .replace(/'/g, '&apos;');
 
         if (shouldConvert) {
-          expect(convert).toHaveBeenCalledWith(content, {
-            wordwrap: false,
-            selectors: [
-              { selector: 'a', options: { ignoreHref: true } },
-              { selector: 'img', format: 'skip' },
-            ],
+          expect(extractReadableMarkdown).toHaveBeenCalledWith(content, {
+            baseUrl: 'https://example.com/',
           });
           expect(result.llmContent).toContain(
             `Converted: ${sanitizeXml(content)}`,
           );
         } else {
-          expect(convert).not.toHaveBeenCalled();
+          expect(extractReadableMarkdown).not.toHaveBeenCalled();
           expect(result.llmContent).toContain(sanitizeXml(content));
         }
       },
@@ -990,7 +1002,7 @@ describe('WebFetchTool', () => {
       );
     });
 
-    it('should use html-to-text and preserve links for HTML content', async () => {
+    it('should use reader mode and preserve links for HTML content', async () => {
       const content =
         '<html><body><a href="https://link.com">Link</a></body></html>';
       mockFetch('https://example.com/', {
@@ -1004,17 +1016,110 @@ describe('WebFetchTool', () => {
       const invocation = tool.build(params);
       await invocation.execute({ abortSignal: new AbortController().signal });
 
-      expect(convert).toHaveBeenCalledWith(
-        content,
-        expect.objectContaining({
-          selectors: [
-            expect.objectContaining({
-              selector: 'a',
-              options: { ignoreHref: false, baseUrl: 'https://example.com/' },
-            }),
-          ],
-        }),
-      );
+      expect(extractReadableMarkdown).toHaveBeenCalledWith(content, {
+        baseUrl: 'https://example.com/',
+        includeLinks: true,
+      });
+    });
+
+    describe('cache', () => {
+      const cachedEntry: WebFetchCacheEntry = {
+        url: 'https://example.com/',
+        fetchedAt: 0,
+        etag: '"v1"',
+        contentType: 'text/plain',
+        body: 'Cached content',
+      };
+
+      it('should serve fresh cache entries without fetching', async () => {
+        mockCache.get.mockResolvedValue(cachedEntry);
+        mockCache.isFresh.mockReturnValue(true);
+        const fetchSpy = vi.spyOn(fetchUtils, 'fetchWithTimeout');
+
+        const tool = new WebFetchTool(mockConfig, bus);
+        const invocation = tool.build({ url: 'https://example.com' });
+        const result = await invocation.execute({
+          abortSignal: new AbortController().signal,
+        });
+
+        expect(fetchSpy).not.toHaveBeenCalled();
+        expect(result.llmContent).toBe('Cached content');
+      });
+
+      it('should revalidate stale entries and reuse them on 304', async () => {
+        mockCache.get.mockResolvedValue(cachedEntry);
+        mockCache.getRevalidationHeaders.mockReturnValue({
+          'If-None-Match': '"v1"',
+        });
+        mockFetch('https://example.com/', {
+          status: 304,
+          headers: new Headers(),
+        });
+
+        const tool = new WebFetchTool(mockConfig, bus);
+        const invocation = tool.build({ url: 'https://example.com' });
+        const result = await invocation.execute({
+          abortSignal: new AbortController().signal,
+        });
+
+        expect(fetchUtils.fetchWithTimeout).toHaveBeenCalledWith(
+          'https://example.com/',
+          expect.any(Number),
+          expect.objectContaining({
+            headers: expect.objectContaining({ 'If-None-Match': '"v1"' }),
+          }),
+        );
+        expect(mockCache.touch).toHaveBeenCalledWith(
+          cachedEntry,
+          expect.any(Headers),
+        );
+        expect(mockCache.set).not.toHaveBeenCalled();
+        expect(result.llmContent).toBe('Cached content');
+      });
+
+      it('should cache successful text responses', async () => {
+        const headers = new Headers({
+          'content-type': 'text/plain',
+          etag: '"v2"',
+        });
+        mockFetch('https://example.com/', {
+          status: 200,
+          headers,
+          text: () => Promise.resolve('Fresh content'),
+        });
+
+        const tool = new WebFetchTool(mockConfig, bus);
+        const invocation = tool.build({ url: 'https://example.com' });
+        await invocation.execute({ abortSignal: new AbortController().signal });
+
+        expect(mockCache.set).toHaveBeenCalledWith(
+          'https://example.com/',
+          {
+            headers,
+            contentType: 'text/plain',
+            body: 'Fresh content',
+          },
+          expect.stringContaining('text/markdown'),
+        );
+        expect(mockCache.get).toHaveBeenCalledWith(
+          'https://example.com/',
+          expect.stringContaining('text/markdown'),
+        );
+      });
+
+      it('should not cache error responses', async () => {
+        mockFetch('https://example.com/', {
+          status: 404,
+          headers: new Headers({ 'content-type': 'text/plain' }),
+          text: () => Promise.resolve('Not found'),
+        });
+
+        const tool = new WebFetchTool(mockConfig, bus);
+        const invocation = tool.build({ url: 'https://example.com' });
+        await invocation.execute({ abortSignal: new AbortController().signal });
+
+        expect(mockCache.set).not.toHaveBeenCalled();
+      });
     });
 
     it('should return base64 for image content', async () => {
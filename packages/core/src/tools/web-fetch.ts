@@ -21,7 +21,8 @@ import { getErrorMessage } from '../utils/errors.js';
 import { getResponseText } from '../utils/partUtils.js';
 import { fetchWithTimeout, isPrivateIp } from '../utils/fetch.js';
 import { truncateString } from '../utils/textUtils.js';
-import { convert } from 'html-to-text';
+import { extractReadableMarkdown } from '../utils/readerMode.js';
+import type { WebFetchCacheEntry } from '../services/webFetchCache.js';
 import {
   logWebFetchFallbackAttempt,
   WebFetchFallbackAttemptEvent,
@@ -219,6 +220,32 @@ interface ErrorWithStatus extends Error {
   status?: number;
 }
 
+interface FetchedPage {
+  status: number;
+  contentType: string;
+  headers: Headers;
+  body: Buffer;
+}
+
+function pageFromCache(entry: WebFetchCacheEntry): FetchedPage {
+  return {
+    status: 200,
+    contentType: entry.contentType,
+    headers: new Headers({ 'content-type': entry.contentType }),
+    body: Buffer.from(entry.body, 'utf8'),
+  };
+}
+
+function isTextContentType(contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return (
+    type === '' ||
+    type.startsWith('text/') ||
+    type.includes('json') ||
+    type.includes('xml')
+  );
+}
+
 class WebFetchToolInvocation extends BaseToolInvocation<
   WebFetchToolParams,
   ToolResult
@@ -292,48 +319,17 @@ class WebFetchToolInvocation extends BaseToolInvocation<
       );
     }
 
-    const response = await retryWithBackoff(
-      async () => {
-        const res = await fetchWithTimeout(url, URL_FETCH_TIMEOUT_MS, {
-          signal,
-          headers: {
-            'User-Agent': USER_AGENT,
-          },
-        });
-        if (!res.ok) {
-          const error = new Error(
-            `Request failed with status code ${res.status} ${res.statusText}`,
-          );
-          (error as ErrorWithStatus).status = res.status;
-          throw error;
-        }
-        return res;
-      },
-      {
-        retryFetchErrors: this.context.config.getRetryFetchErrors(),
-        onRetry: (attempt, error, delayMs) =>
-          this.handleRetry(attempt, error, delayMs),
-        signal,
-      },
-    );
-
-    const bodyBuffer = await this.readResponseWithLimit(
-      response,
-      MAX_EXPERIMENTAL_FETCH_SIZE,
-    );
-    const rawContent = bodyBuffer.toString('utf8');
-    const contentType = response.headers.get('content-type') || '';
+    const page = await this.fetchPage(url, signal, {
+      headers: { 'User-Agent': USER_AGENT },
+      throwOnHttpError: true,
+    });
+    const rawContent = page.body.toString('utf8');
+    const contentType = page.contentType;
     let textContent: string;
 
-    // Only use html-to-text if content type is HTML, or if no content type is provided (assume HTML)
+    // Only extract HTML if content type is HTML, or if no content type is provided (assume HTML)
     if (contentType.toLowerCase().includes('text/html') || contentType === '') {
-      textContent = convert(rawContent, {
-        wordwrap: false,
-        selectors: [
-          { selector: 'a', options: { ignoreHref: true } },
-          { selector: 'img', format: 'skip' },
-        ],
-      });
+      textContent = extractReadableMarkdown(rawContent, { baseUrl: url });
     } else {
       // For other content types (text/plain, application/json, etc.), use raw text
       textContent = rawContent;
@@ -552,6 +548,81 @@ ${aggregatedContent}
     return confirmationDetails;
   }
 
+  /**
+   * Fetches a URL through the on-disk cache. Recently fetched pages are served
+   * from the cache; older ones are revalidated with their ETag or
+   * Last-Modified date. Only successful text responses are cached.
+   */
+  private async fetchPage(
+    url: string,
+    signal: AbortSignal,
+    options: { headers: Record<string, string>; throwOnHttpError: boolean },
+  ): Promise<FetchedPage> {
+    const cache = this.context.config.getWebFetchCache();
+    const cacheKey = normalizeUrl(url);
+    const accept = options.headers['Accept'];
+    const cached = await cache.get(cacheKey, accept);
+    if (cached && cache.isFresh(cached)) {
+      debugLogger.debug(`[WebFetchTool] Serving ${url} from cache`);
+      return pageFromCache(cached);
+    }
+
+    const response = await retryWithBackoff(
+      async () => {
+        const res = await fetchWithTimeout(url, URL_FETCH_TIMEOUT_MS, {
+          signal,
+          headers: {
+            ...options.headers,
+            ...(cached ? cache.getRevalidationHeaders(cached) : {}),
+          },
+        });
+        if (options.throwOnHttpError && !res.ok && res.status !== 304) {
+          const error = new Error(
+            `Request failed with status code ${res.status} ${res.statusText}`,
+          );
+          (error as ErrorWithStatus).status = res.status;
+          throw error;
+        }
+        return res;
+      },
+      {
+        retryFetchErrors: this.context.config.getRetryFetchErrors(),
+        onRetry: (attempt, error, delayMs) =>
+          this.handleRetry(attempt, error, delayMs),
+        signal,
+      },
+    );
+
+    if (response.status === 304 && cached) {
+      debugLogger.debug(`[WebFetchTool] Revalidated cached ${url}`);
+      await cache.touch(cached, response.headers);
+      return pageFromCache(cached);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    const body = await this.readResponseWithLimit(
+      response,
+      MAX_EXPERIMENTAL_FETCH_SIZE,
+    );
+    if (response.status === 200 && isTextContentType(contentType)) {
+      await cache.set(
+        cacheKey,
+        {
+          headers: response.headers,
+          contentType,
+          body: body.toString('utf8'),
+        },
+        accept,
+      );
+    }
+    return {
+      status: response.status,
+      contentType,
+      headers: response.headers,
+      body,
+    };
+  }
+
   private async readResponseWithLimit(
     response: Response,
     limit: number,
@@ -631,32 +702,18 @@ ${aggregatedContent}
     }
 
     try {
-      const response = await retryWithBackoff(
-        async () => {
-          const res = await fetchWithTimeout(url, URL_FETCH_TIMEOUT_MS, {
-            signal,
-            headers: {
-              Accept:
-                'text/markdown, text/plain;q=0.9, application/json;q=0.9, text/html;q=0.8, application/pdf;q=0.7, video/*;q=0.7, */*;q=0.5',
-              'User-Agent': USER_AGENT,
-            },
-          });
-          return res;
-        },
-        {
-          retryFetchErrors: this.context.config.getRetryFetchErrors(),
-          onRetry: (attempt, error, delayMs) =>
-            this.handleRetry(attempt, error, delayMs),
-          signal,
+      const response = await this.fetchPage(url, signal, {
+        headers: {
+          Accept:
+            'text/markdown, text/plain;q=0.9, application/json;q=0.9, text/html;q=0.8, application/pdf;q=0.7, video/*;q=0.7, */*;q=0.5',
+          'User-Agent': USER_AGENT,
         },
-      );
+        throwOnHttpError: false,
+      });
 
-      const contentType = response.headers.get('content-type') || '';
+      const contentType = response.contentType;
       const status = response.status;
-      const bodyBuffer = await this.readResponseWithLimit(
-        response,
-        MAX_EXPERIMENTAL_FETCH_SIZE,
-      );
+      const bodyBuffer = response.body;
 
       if (status >= 400) {
         let rawResponseText = bodyBuffer.toString('utf8');
@@ -701,11 +758,9 @@ Response: ${rawResponseText}`;
 
       if (lowContentType.includes('text/html')) {
         const html = bodyBuffer.toString('utf8');
-        let textContent = convert(html, {
-          wordwrap: false,
-          selectors: [
-            { selector: 'a', options: { ignoreHref: false, baseUrl: url } },
-          ],
+        let textContent = extractReadableMarkdown(html, {
+          baseUrl: url,
+          includeLinks: true,
         });
         if (!this.context.config.isContextManagementEnabled()) {
           textContent = truncateString(
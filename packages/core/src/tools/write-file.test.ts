@@ -843,6 +843,25 @@ describe('WriteFileTool', () => {
       },
     );
 
+    it('should tell the model about rejected hunks', async () => {
+      const filePath = path.join(rootDir, 'rejected_hunks.txt');
+      const content = 'Accepted content';
+      mockEnsureCorrectFileContent.mockResolvedValue(content);
+
+      const invocation = tool.build({
+        file_path: filePath,
+        content,
+        modified_by_user: true,
+        rejected_hunks: ['@@ -1,1 +1,1 @@\n-old\n+rejected'],
+      });
+      const result = await invocation.execute({ abortSignal });
+
+      expect(result.llmContent).toContain(
+        'The user rejected the following parts of the proposed change',
+      );
+      expect(result.llmContent).toContain('-old\n+rejected');
+    });
+
     it('should include the file content in llmContent', async () => {
       const filePath = path.join(rootDir, 'content_check.txt');
       const content = 'This is the content that should be returned.';
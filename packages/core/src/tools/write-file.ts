@@ -33,7 +33,7 @@ import { getErrorMessage, isNodeError } from '../utils/errors.js';
 import { ensureCorrectFileContent } from '../utils/editCorrector.js';
 import { detectLineEnding } from '../utils/textUtils.js';
 import { DEFAULT_DIFF_OPTIONS, getDiffStat } from './diffOptions.js';
-import { getDiffContextSnippet } from './diff-utils.js';
+import { getDiffContextSnippet, getRejectedHunksNote } from './diff-utils.js';
 import type {
   ModifiableDeclarativeTool,
   ModifyContext,
@@ -75,6 +75,11 @@ export interface WriteFileToolParams {
    * Initially proposed content.
    */
   ai_proposed_content?: string;
+
+  /**
+   * Hunks of the proposed content that the user rejected during review.
+   */
+  rejected_hunks?: string[];
 }
 
 export function isWriteFileToolParams(
@@ -277,7 +282,8 @@ class WriteFileToolInvocation extends BaseToolInvocation<
       };
     }
 
-    const { content, ai_proposed_content, modified_by_user } = this.params;
+    const { content, ai_proposed_content, modified_by_user, rejected_hunks } =
+      this.params;
     const correctedContentResult = await getCorrectedFileContent(
       this.config,
       this.resolvedPath,
@@ -370,6 +376,9 @@ class WriteFileToolInvocation extends BaseToolInvocation<
           `User modified the \`content\` to be: ${content}`,
         );
       }
+      if (rejected_hunks?.length) {
+        llmSuccessMessageParts.push(getRejectedHunksNote(rejected_hunks));
+      }
 
       // Return a diff of the file before and after the write so that the agent
       // can avoid the need to spend a turn doing a verification read.
@@ -571,6 +580,7 @@ export class WriteFileTool
         _oldContent: string,
         modifiedProposedContent: string,
         originalParams: WriteFileToolParams,
+        rejectedHunks?: string[],
       ) => {
         const content = originalParams.content;
         return {
@@ -578,6 +588,7 @@ export class WriteFileTool
           ai_proposed_content: content,
           content: modifiedProposedContent,
           modified_by_user: true,
+          rejected_hunks: rejectedHunks,
         };
       },
     };
@@ -88,6 +88,11 @@ export interface HookPayload {
  * Payload for the 'hook-start' event.
  */
 export interface HookStartPayload extends HookPayload {
+  /**
+   * Identifies this run of the hook. The matching 'hook-end' event carries
+   * the same ID, even when the same hook runs several times at once.
+   */
+  executionId?: string;
   /**
    * The source of the hook configuration.
    */
@@ -106,6 +111,8 @@ export interface HookStartPayload extends HookPayload {
  * Payload for the 'hook-end' event.
  */
 export interface HookEndPayload extends HookPayload {
+  /** The ID from the matching 'hook-start' event. */
+  executionId?: string;
   success: boolean;
 }
 
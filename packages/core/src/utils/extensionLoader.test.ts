@@ -18,6 +18,8 @@ import { PolicyDecision } from '../policy/types.js';
 import type { Config, GeminiCLIExtension } from '../config/config.js';
 import { type McpClientManager } from '../tools/mcp-client-manager.js';
 import type { GeminiClient } from '../core/client.js';
+import { ContextProcessorRegistry } from '../context/config/registry.js';
+import type { JSONSchemaType } from 'ajv';
 
 const mockRefreshServerHierarchicalMemory = vi.hoisted(() => vi.fn());
 
@@ -45,6 +47,7 @@ describe('SimpleExtensionLoader', () => {
     removeRulesBySource: MockInstance;
     removeCheckersBySource: MockInstance;
   };
+  let contextProcessorRegistry: ContextProcessorRegistry;
 
   const activeExtension: GeminiCLIExtension = {
     name: 'test-extension',
@@ -95,6 +98,7 @@ describe('SimpleExtensionLoader', () => {
       removeRulesBySource: vi.fn(),
       removeCheckersBySource: vi.fn(),
     };
+    contextProcessorRegistry = new ContextProcessorRegistry();
     mockConfig = {
       getMcpClientManager: () => mockMcpClientManager,
       getEnableExtensionReloading: () => extensionReloadingEnabled,
@@ -114,6 +118,7 @@ describe('SimpleExtensionLoader', () => {
       }),
       reloadSkills: mockSkillsReload,
       getPolicyEngine: () => mockPolicyEngine,
+      getContextProcessorRegistry: () => contextProcessorRegistry,
     } as unknown as Config;
   });
 
@@ -144,6 +149,30 @@ describe('SimpleExtensionLoader', () => {
     );
   });
 
+  it('should register and unregister context processors', async () => {
+    const extension: GeminiCLIExtension = {
+      ...activeExtension,
+      contextProcessors: [
+        {
+          id: 'test-extension.collapseLogs',
+          schema: { type: 'object' } as unknown as JSONSchemaType<unknown>,
+          create: vi.fn(),
+          extensionName: 'test-extension',
+        },
+      ],
+    };
+    const loader = new TestingSimpleExtensionLoader([extension]);
+    await loader.start(mockConfig);
+    expect(
+      contextProcessorRegistry.getProcessor('test-extension.collapseLogs'),
+    ).toBe(extension.contextProcessors![0]);
+
+    await loader.stopExtension(extension);
+    expect(
+      contextProcessorRegistry.getProcessor('test-extension.collapseLogs'),
+    ).toBeUndefined();
+  });
+
   it('should start active extensions', async () => {
     const loader = new SimpleExtensionLoader([activeExtension]);
     await loader.start(mockConfig);
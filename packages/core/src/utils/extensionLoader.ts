@@ -90,6 +90,13 @@ export abstract class ExtensionLoader {
         }
       }
 
+      if (extension.contextProcessors) {
+        const registry = this.config.getContextProcessorRegistry();
+        for (const processor of extension.contextProcessors) {
+          registry.registerProcessor(processor);
+        }
+      }
+
       // Note: Context files are loaded only once all extensions are done
       // loading/unloading to reduce churn, see the `maybeRefreshMemories` call
       // below.
@@ -204,6 +211,12 @@ export abstract class ExtensionLoader {
         }
       }
 
+      if (extension.contextProcessors) {
+        this.config
+          .getContextProcessorRegistry()
+          .unregisterExtensionProcessors(extension.name);
+      }
+
       // Note: Context files are loaded only once all extensions are done
       // loading/unloading to reduce churn, see the `maybeRefreshMemories` call
       // below.
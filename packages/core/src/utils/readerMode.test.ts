@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractReadableMarkdown } from './readerMode.js';
+
+const filler =
+  'This paragraph is long enough to make the surrounding element count as the main content of the page. '.repeat(
+    3,
+  );
+
+describe('extractReadableMarkdown', () => {
+  it('should keep the main content and drop page chrome', () => {
+    const html = `<html><body>
+      <nav><a href="/">Home</a> <a href="/docs">Docs</a></nav>
+      <aside>Related posts</aside>
+      <article><h1>Title</h1><p>${filler}</p></article>
+      <footer>Copyright</footer>
+    </body></html>`;
+
+    const markdown = extractReadableMarkdown(html);
+
+    expect(markdown).toMatch(/^# Title/);
+    expect(markdown).toContain(filler.trim());
+    expect(markdown).not.toContain('Home');
+    expect(markdown).not.toContain('Related posts');
+    expect(markdown).not.toContain('Copyright');
+  });
+
+  it('should fall back to the body when no landmark has enough text', () => {
+    const html = `<html><body>
+      <header>Site name</header>
+      <main>Short</main>
+      <div><h2>Section</h2><p>Body text</p></div>
+    </body></html>`;
+
+    const markdown = extractReadableMarkdown(html);
+
+    expect(markdown).toContain('Short');
+    expect(markdown).toContain('## Section');
+    expect(markdown).toContain('Body text');
+    expect(markdown).not.toContain('Site name');
+  });
+
+  it('should render code blocks as fenced code with their language', () => {
+    const html = `<body><pre><code class="language-ts">const a = 1;
+if (a) {
+  run();
+}
+</code></pre><p>Use <code>run()</code> to start.</p></body>`;
+
+    const markdown = extractReadableMarkdown(html);
+
+    expect(markdown).toContain(
+      '```ts\nconst a = 1;\nif (a) {\n  run();\n}\n```',
+    );
+    expect(markdown).toContain('Use `run()` to start.');
+  });
+
+  it('should render tables as Markdown tables', () => {
+    const html = `<body><table>
+      <thead><tr><th>Name</th><th>Value</th></tr></thead>
+      <tbody><tr><td>a|b</td><td>1</td></tr><tr><td>c</td></tr></tbody>
+    </table></body>`;
+
+    expect(extractReadableMarkdown(html)).toBe(
+      ['| Name | Value |', '| --- | --- |', '| a\\|b | 1 |', '| c |  |'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should render lists with dashes', () => {
+    const html = '<body><ul><li>One</li><li>Two</li></ul></body>';
+
+    expect(extractReadableMarkdown(html)).toBe('- One\n- Two');
+  });
+
+  it('should keep link text only by default', () => {
+    const html = '<body><p>See <a href="/docs">the docs</a>.</p></body>';
+
+    expect(extractReadableMarkdown(html)).toBe('See the docs.');
+  });
+
+  it('should resolve links against the base URL when links are kept', () => {
+    const html = `<body><p>See <a href="/docs">the docs</a>, <a href="#top">top</a>
+      and <a href="javascript:void(0)">this</a>.</p></body>`;
+
+    expect(
+      extractReadableMarkdown(html, {
+        baseUrl: 'https://example.com/guide/',
+        includeLinks: true,
+      }),
+    ).toBe('See [the docs](https://example.com/docs), top and this.');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  compile,
+  type DomNode,
+  type FormatCallback,
+  type HtmlToTextOptions,
+} from 'html-to-text';
+
+export interface ReaderModeOptions {
+  /** URL of the page, used to resolve relative links. */
+  baseUrl?: string;
+  /** Whether to keep link targets as Markdown links. */
+  includeLinks?: boolean;
+}
+
+/**
+ * Elements that usually hold a page's main content, most specific first.
+ */
+const MAIN_CONTENT_SELECTORS = [
+  'article',
+  'main',
+  '[role="main"]',
+  '#content',
+  '#main-content',
+  '.markdown-body',
+];
+
+/**
+ * A candidate with less text than this is assumed to be a teaser or an empty
+ * landmark rather than the page's content.
+ */
+const MIN_MAIN_CONTENT_LENGTH = 200;
+
+/** Elements that never carry content worth reading. */
+const NOISE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'form',
+  'button',
+  'img',
+  'nav',
+  'aside',
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[aria-hidden="true"]',
+];
+
+/**
+ * Page-level chrome. Only skipped when no main content element is found,
+ * since articles often put their title in a `<header>`.
+ */
+const PAGE_CHROME_SELECTORS = [
+  'header',
+  'footer',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+];
+
+function getTextContent(node: DomNode): string {
+  if (node.type === 'text') {
+    return node.data ?? '';
+  }
+  return (node.children ?? []).map(getTextContent).join('');
+}
+
+function getCodeLanguage(elem: DomNode): string {
+  const code = elem.children?.find(
+    (child) => child.type === 'tag' && child.name === 'code',
+  );
+  const className = [elem.attribs?.class, code?.attribs?.class]
+    .filter((value): value is string => typeof value === 'string')
+    .join(' ');
+  return /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(className)?.[1] ?? '';
+}
+
+const formatHeading: FormatCallback = (elem, walk, builder) => {
+  const level = Number(elem.name?.slice(1)) || 1;
+  builder.openBlock({ leadingLineBreaks: 2 });
+  builder.addLiteral(`${'#'.repeat(level)} `);
+  walk(elem.children, builder);
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+const formatCodeBlock: FormatCallback = (elem, _walk, builder) => {
+  const code = getTextContent(elem).replace(/\n+$/, '');
+  const fence = code.includes('```') ? '````' : '```';
+  builder.openBlock({ isPre: true, leadingLineBreaks: 2 });
+  builder.addLiteral(`${fence}${getCodeLanguage(elem)}\n${code}\n${fence}`);
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+function escapeTableCell(text: string): string {
+  return text
+    .replace(/\|/g, '\\|')
+    .replace(/\s*\n\s*/g, ' ')
+    .trim();
+}
+
+function tableToMarkdown(rows: Array<Array<{ text: string }>>): string {
+  const width = Math.max(...rows.map((row) => row.length));
+  if (rows.length === 0 || width === 0) {
+    return '';
+  }
+  const lines = rows.map((row) => {
+    const cells = Array.from({ length: width }, (_, i) =>
+      escapeTableCell(row[i]?.text ?? ''),
+    );
+    return `| ${cells.join(' | ')} |`;
+  });
+  lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+  return lines.join('\n');
+}
+
+const formatTable: FormatCallback = (elem, walk, builder) => {
+  builder.openTable();
+  const visit = (node: DomNode) => {
+    if (node.type !== 'tag') {
+      return;
+    }
+    if (
+      node.name === 'thead' ||
+      node.name === 'tbody' ||
+      node.name === 'tfoot'
+    ) {
+      node.children.forEach(visit);
+      return;
+    }
+    if (node.name !== 'tr') {
+      return;
+    }
+    builder.openTableRow();
+    for (const cell of node.children) {
+      if (cell.type === 'tag' && (cell.name === 'td' || cell.name === 'th')) {
+        builder.openTableCell();
+        walk(cell.children, builder);
+        builder.closeTableCell();
+      }
+    }
+    builder.closeTableRow();
+  };
+  elem.children.forEach(visit);
+  builder.closeTable({
+    tableToString: tableToMarkdown,
+    leadingLineBreaks: 2,
+    trailingLineBreaks: 2,
+  });
+};
+
+function resolveHref(href: unknown, baseUrl: unknown): string | undefined {
+  if (typeof href !== 'string' || href.startsWith('#')) {
+    return undefined;
+  }
+  try {
+    const url = new URL(
+      href,
+      typeof baseUrl === 'string' ? baseUrl : undefined,
+    );
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.href
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const formatLink: FormatCallback = (elem, walk, builder) => {
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+  const metadata = (builder as unknown as { metadata?: ReaderModeOptions })
+    .metadata;
+  const href = resolveHref(elem.attribs?.href, metadata?.baseUrl);
+  if (!href) {
+    walk(elem.children, builder);
+    return;
+  }
+  builder.addInline('[', { noWordTransform: true });
+  walk(elem.children, builder);
+  builder.addInline(`](${href})`, { noWordTransform: true });
+};
+
+function buildOptions(
+  baseSelector: string | undefined,
+  includeLinks: boolean,
+): HtmlToTextOptions {
+  const skip = baseSelector
+    ? NOISE_SELECTORS
+    : [...NOISE_SELECTORS, ...PAGE_CHROME_SELECTORS];
+  return {
+    wordwrap: false,
+    baseElements: baseSelector
+      ? { selectors: [baseSelector], returnDomByDefault: false }
+      : { selectors: ['body'], returnDomByDefault: true },
+    formatters: { formatHeading, formatCodeBlock, formatTable, formatLink },
+    selectors: [
+      ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map((selector) => ({
+        selector,
+        format: 'formatHeading',
+      })),
+      { selector: 'pre', format: 'formatCodeBlock' },
+      { selector: 'table', format: 'formatTable' },
+      {
+        selector: 'code',
+        format: 'inlineSurround',
+        options: { prefix: '`', suffix: '`' },
+      },
+      {
+        selector: 'a',
+        format: includeLinks ? 'formatLink' : 'inline',
+      },
+      { selector: 'ul', options: { itemPrefix: '- ' } },
+      { selector: 'hr', format: 'skip' },
+      ...skip.map((selector) => ({ selector, format: 'skip' })),
+    ],
+  };
+}
+
+const converters = new Map<string, (html: string, meta?: unknown) => string>();
+
+function getConverter(baseSelector: string | undefined, includeLinks: boolean) {
+  const key = `${baseSelector ?? ''}|${includeLinks}`;
+  let converter = converters.get(key);
+  if (!converter) {
+    converter = compile(buildOptions(baseSelector, includeLinks));
+    converters.set(key, converter);
+  }
+  return converter;
+}
+
+/**
+ * Extracts the main content of an HTML page as Markdown, in the spirit of
+ * browser reader modes. Navigation, sidebars and other chrome are dropped,
+ * while headings, code blocks, lists and tables keep their structure.
+ *
+ * The first landmark element (`<article>`, `<main>`, ...) with enough text is
+ * used as the content. Pages without one are converted whole, minus their
+ * header and footer.
+ */
+export function extractReadableMarkdown(
+  html: string,
+  options: ReaderModeOptions = {},
+): string {
+  const includeLinks = options.includeLinks ?? false;
+  for (const selector of MAIN_CONTENT_SELECTORS) {
+    const markdown = getConverter(selector, includeLinks)(html, options).trim();
+    if (markdown.length >= MIN_MAIN_CONTENT_LENGTH) {
+      return markdown;
+    }
+  }
+  return getConverter(undefined, includeLinks)(html, options).trim();
+}
@@ -5,7 +5,15 @@
  */
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { useDevToolsData, type ConsoleLog, type NetworkLog } from './hooks';
+import {
+  useDevToolsData,
+  type ConsoleLog,
+  type ContextEpisodeSnapshot,
+  type ContextNodeSnapshot,
+  type ContextSnapshot,
+  type NetworkLog,
+  type TimelineEvent,
+} from './hooks';
 
 type ThemeMode = 'light' | 'dark' | null; // null means follow system
 
@@ -26,14 +34,23 @@ interface ThemeColors {
 }
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'console' | 'network'>('console');
-  const { networkLogs, consoleLogs, connectedSessions } = useDevToolsData();
+  const [activeTab, setActiveTab] = useState<
+    'console' | 'network' | 'timeline' | 'context'
+  >('console');
+  const {
+    networkLogs,
+    consoleLogs,
+    timelineEvents,
+    contextSnapshots,
+    connectedSessions,
+  } = useDevToolsData();
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(
     null,
   );
   const [importedLogs, setImportedLogs] = useState<{
     network: NetworkLog[];
     console: ConsoleLog[];
+    timeline: TimelineEvent[];
   } | null>(null);
   const [importedSessionId, setImportedSessionId] = useState<string | null>(
     null,
@@ -109,6 +126,7 @@ export default function App() {
       const content = event.target?.result as string;
       try {
         const networkMap = new Map<string, NetworkLog>();
+        const timelineMap = new Map<string, TimelineEvent>();
         const consoleLogs: ConsoleLog[] = [];
 
         content
@@ -149,6 +167,16 @@ export default function App() {
                   timestamp: existing.timestamp,
                 } as NetworkLog);
               }
+            } else if (type === 'timeline') {
+              const id = payload.id;
+              if (!id) return;
+              const existing = timelineMap.get(id);
+              timelineMap.set(id, {
+                ...existing,
+                ...payload,
+                timestamp:
+                  existing?.timestamp ?? payload.timestamp ?? timestamp,
+              } as TimelineEvent);
             }
           });
 
@@ -157,7 +185,11 @@ export default function App() {
           (a, b) => a.timestamp - b.timestamp,
         );
 
-        setImportedLogs({ network: networkLogs, console: consoleLogs });
+        setImportedLogs({
+          network: networkLogs,
+          console: consoleLogs,
+          timeline: Array.from(timelineMap.values()),
+        });
         setImportedSessionId(importId);
         setSelectedSessionId(importId);
       } catch (err) {
@@ -182,7 +214,11 @@ export default function App() {
         timestamp: log.timestamp,
         data: {
           type: 'console',
-          payload: { type: log.type, content: log.content },
+          payload: {
+            type: log.type,
+            content: log.content,
+            promptId: log.promptId,
+          },
           sessionId: log.sessionId,
           timestamp: log.timestamp,
         },
@@ -202,6 +238,19 @@ export default function App() {
       });
     });
 
+    // Export tool calls and hook executions
+    filteredTimelineEvents.forEach((event: TimelineEvent) => {
+      entries.push({
+        timestamp: event.timestamp,
+        data: {
+          type: 'timeline',
+          payload: event,
+          sessionId: event.sessionId,
+          timestamp: event.timestamp,
+        },
+      });
+    });
+
     // Sort by timestamp, then serialize
     entries.sort((a, b) => a.timestamp - b.timestamp);
 
@@ -227,6 +276,7 @@ export default function App() {
     };
     networkLogs.forEach(updateMap);
     consoleLogs.forEach(updateMap);
+    timelineEvents.forEach(updateMap);
 
     const discovered = Array.from(sessionMap.entries())
       .sort((a, b) => b[1] - a[1])
@@ -236,7 +286,7 @@ export default function App() {
       return [importedSessionId, ...discovered];
     }
     return discovered;
-  }, [networkLogs, consoleLogs, importedSessionId]);
+  }, [networkLogs, consoleLogs, timelineEvents, importedSessionId]);
 
   useEffect(() => {
     if (sessions.length > 0 && selectedSessionId === null) {
@@ -260,6 +310,16 @@ export default function App() {
     return networkLogs.filter((l) => l.sessionId === selectedSessionId);
   }, [networkLogs, selectedSessionId, importedSessionId, importedLogs]);
 
+  const filteredTimelineEvents = useMemo(() => {
+    if (!selectedSessionId) return [];
+    if (selectedSessionId === importedSessionId && importedLogs) {
+      return importedLogs.timeline;
+    }
+    return timelineEvents.filter(
+      (e: TimelineEvent) => e.sessionId === selectedSessionId,
+    );
+  }, [timelineEvents, selectedSessionId, importedSessionId, importedLogs]);
+
   return (
     <div
       style={{
@@ -308,6 +368,18 @@ export default function App() {
             label="Network"
             t={t}
           />
+          <TabButton
+            active={activeTab === 'timeline'}
+            onClick={() => setActiveTab('timeline')}
+            label="Timeline"
+            t={t}
+          />
+          <TabButton
+            active={activeTab === 'context'}
+            onClick={() => setActiveTab('context')}
+            label="Context"
+            t={t}
+          />
         </div>
 
         <div
@@ -517,6 +589,32 @@ export default function App() {
             >
               <NetworkView logs={filteredNetworkLogs} t={t} isDark={isDark} />
             </div>
+            <div
+              style={{
+                display: activeTab === 'timeline' ? 'flex' : 'none',
+                height: '100%',
+              }}
+            >
+              <TimelineView
+                networkLogs={filteredNetworkLogs}
+                consoleLogs={filteredConsoleLogs}
+                events={filteredTimelineEvents}
+                t={t}
+              />
+            </div>
+            <div
+              style={{
+                display: activeTab === 'context' ? 'flex' : 'none',
+                height: '100%',
+              }}
+            >
+              <ContextView
+                snapshot={contextSnapshots[selectedSessionId]}
+                sessionId={selectedSessionId}
+                connected={connectedSessions.includes(selectedSessionId)}
+                t={t}
+              />
+            </div>
           </>
         ) : (
           <div
@@ -826,6 +924,469 @@ function ConsoleView({ logs, t }: { logs: ConsoleLog[]; t: ThemeColors }) {
   );
 }
 
+// --- Context Components ---
+
+const CONTEXT_STATUS_LABELS: Record<ContextNodeSnapshot['status'], string> = {
+  original: 'Original',
+  masked: 'Masked',
+  truncated: 'Truncated',
+  summarized: 'Summarized',
+};
+
+function ContextView({
+  snapshot,
+  sessionId,
+  connected,
+  t,
+}: {
+  snapshot: ContextSnapshot | undefined;
+  sessionId: string;
+  connected: boolean;
+  t: ThemeColors;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  const sendRequest = async (
+    action: 'refresh' | 'pin' | 'unpin',
+    nodeId?: string,
+  ) => {
+    try {
+      const res = await fetch('/api/context', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, action, nodeId }),
+      });
+      setError(res.ok ? null : `Request failed (${res.status})`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // Ask for a fresh snapshot whenever a connected session is shown.
+  useEffect(() => {
+    if (connected) {
+      void sendRequest('refresh');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId, connected]);
+
+  const buttonStyle = {
+    fontSize: '11px',
+    padding: '2px 8px',
+    border: `1px solid ${t.border}`,
+    background: t.bg,
+    color: t.text,
+    borderRadius: '4px',
+    cursor: connected ? 'pointer' : 'default',
+  };
+  const cellStyle = {
+    padding: '4px 8px',
+    borderBottom: `1px solid ${t.rowBorder}`,
+    whiteSpace: 'nowrap' as const,
+  };
+
+  return (
+    <div
+      style={{
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+        fontSize: '12px',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '6px 8px',
+          borderBottom: `1px solid ${t.border}`,
+          background: t.bgSecondary,
+        }}
+      >
+        <span style={{ fontWeight: 600 }}>
+          {snapshot
+            ? `${snapshot.totalTokens.toLocaleString()} tokens in ${snapshot.episodes.length} episodes`
+            : 'No context snapshot yet'}
+        </span>
+        {snapshot && (
+          <span style={{ color: t.textSecondary }}>
+            Updated {new Date(snapshot.timestamp).toLocaleTimeString()}
+          </span>
+        )}
+        {error && <span style={{ color: t.errorText }}>{error}</span>}
+        <button
+          onClick={() => void sendRequest('refresh')}
+          disabled={!connected}
+          style={{ ...buttonStyle, marginLeft: 'auto' }}
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto' }}>
+        {snapshot ? (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: t.textSecondary }}>
+                <th style={cellStyle}>Node</th>
+                <th style={cellStyle}>Preview</th>
+                <th style={{ ...cellStyle, textAlign: 'right' }}>Tokens</th>
+                <th style={cellStyle}>Status</th>
+                <th style={cellStyle}>Changed by</th>
+                <th style={cellStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {snapshot.episodes.map(
+                (episode: ContextEpisodeSnapshot, index: number) => (
+                  <React.Fragment key={episode.id}>
+                    <tr style={{ background: t.bgSecondary, fontWeight: 600 }}>
+                      <td style={cellStyle} colSpan={2}>
+                        Episode {index + 1}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'right' }}>
+                        {episode.tokens.toLocaleString()}
+                      </td>
+                      <td style={cellStyle} colSpan={3} />
+                    </tr>
+                    {episode.nodes.map((node: ContextNodeSnapshot) => (
+                      <tr key={node.id}>
+                        <td style={cellStyle} title={node.id}>
+                          {node.pinned ? '📌 ' : ''}
+                          {node.type}
+                        </td>
+                        <td
+                          style={{
+                            ...cellStyle,
+                            maxWidth: '480px',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                          }}
+                          title={node.preview}
+                        >
+                          {node.preview}
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }}>
+                          {node.tokens.toLocaleString()}
+                        </td>
+                        <td
+                          style={{
+                            ...cellStyle,
+                            color:
+                              node.status === 'original'
+                                ? t.textSecondary
+                                : t.warnText,
+                          }}
+                        >
+                          {CONTEXT_STATUS_LABELS[node.status]}
+                        </td>
+                        <td style={{ ...cellStyle, color: t.textSecondary }}>
+                          {node.changedBy ?? ''}
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }}>
+                          {node.type !== 'AGENT_YIELD' && (
+                            <button
+                              onClick={() =>
+                                void sendRequest(
+                                  node.pinned ? 'unpin' : 'pin',
+                                  node.id,
+                                )
+                              }
+                              disabled={!connected}
+                              style={buttonStyle}
+                            >
+                              {node.pinned ? 'Unpin' : 'Pin'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ),
+              )}
+            </tbody>
+          </table>
+        ) : (
+          <div
+            style={{
+              padding: '20px',
+              color: t.textSecondary,
+              fontSize: '11px',
+              textAlign: 'center',
+            }}
+          >
+            {connected
+              ? 'Waiting for the session to report its context'
+              : 'Context is only available for connected sessions'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// --- Timeline Components ---
+
+type TimelineItem =
+  | { kind: 'network'; timestamp: number; log: NetworkLog }
+  | { kind: 'console'; timestamp: number; log: ConsoleLog }
+  | { kind: 'tool' | 'hook'; timestamp: number; event: TimelineEvent };
+
+interface PromptGroup {
+  promptId: string | undefined;
+  start: number;
+  items: TimelineItem[];
+}
+
+/**
+ * Groups a session's requests, console lines, tool calls and hook executions
+ * under the prompt that caused them, in the order the prompts started.
+ */
+function groupByPrompt(
+  networkLogs: NetworkLog[],
+  consoleLogs: ConsoleLog[],
+  events: TimelineEvent[],
+): PromptGroup[] {
+  const groups = new Map<string | undefined, PromptGroup>();
+  const add = (promptId: string | undefined, item: TimelineItem) => {
+    let group = groups.get(promptId);
+    if (!group) {
+      group = { promptId, start: item.timestamp, items: [] };
+      groups.set(promptId, group);
+    }
+    group.items.push(item);
+    group.start = Math.min(group.start, item.timestamp);
+  };
+  networkLogs.forEach((log) =>
+    add(log.promptId, { kind: 'network', timestamp: log.timestamp, log }),
+  );
+  consoleLogs.forEach((log) =>
+    add(log.promptId, { kind: 'console', timestamp: log.timestamp, log }),
+  );
+  events.forEach((event) =>
+    add(event.promptId, {
+      kind: event.kind,
+      timestamp: event.timestamp,
+      event,
+    }),
+  );
+  const sorted = Array.from(groups.values()).sort((a, b) => a.start - b.start);
+  sorted.forEach((group) =>
+    group.items.sort((a, b) => a.timestamp - b.timestamp),
+  );
+  return sorted;
+}
+
+const TIMELINE_KIND_LABELS: Record<TimelineItem['kind'], string> = {
+  network: 'Request',
+  console: 'Console',
+  tool: 'Tool',
+  hook: 'Hook',
+};
+
+function describeTimelineItem(item: TimelineItem): {
+  summary: string;
+  status: string;
+  isError: boolean;
+  durationMs?: number;
+} {
+  switch (item.kind) {
+    case 'network': {
+      const { log } = item;
+      let path = log.url;
+      try {
+        path = new URL(log.url).pathname;
+      } catch {
+        // Keep the raw URL
+      }
+      const chunks = log.chunks?.length ? ` (${log.chunks.length} chunks)` : '';
+      return {
+        summary: `${log.method} ${path}${chunks}`,
+        status: log.error
+          ? 'error'
+          : log.pending
+            ? 'pending'
+            : String(log.response?.status ?? ''),
+        isError: !!log.error || (log.response?.status ?? 0) >= 400,
+        durationMs: log.response?.durationMs,
+      };
+    }
+    case 'console':
+      return {
+        summary: item.log.content.split('\n')[0],
+        status: item.log.type,
+        isError: item.log.type === 'error',
+      };
+    default: {
+      const { event } = item;
+      return {
+        summary: event.eventName
+          ? `${event.eventName} › ${event.name}`
+          : event.name,
+        status: event.status,
+        isError: event.status === 'error',
+        durationMs: event.durationMs,
+      };
+    }
+  }
+}
+
+function TimelineView({
+  networkLogs,
+  consoleLogs,
+  events,
+  t,
+}: {
+  networkLogs: NetworkLog[];
+  consoleLogs: ConsoleLog[];
+  events: TimelineEvent[];
+  t: ThemeColors;
+}) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const groups = useMemo(
+    () => groupByPrompt(networkLogs, consoleLogs, events),
+    [networkLogs, consoleLogs, events],
+  );
+
+  const toggle = (key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const cellStyle = {
+    padding: '4px 8px',
+    borderBottom: `1px solid ${t.rowBorder}`,
+    whiteSpace: 'nowrap' as const,
+  };
+
+  if (groups.length === 0) {
+    return (
+      <div
+        style={{
+          flex: 1,
+          padding: '20px',
+          color: t.textSecondary,
+          fontSize: '11px',
+          textAlign: 'center',
+        }}
+      >
+        No activity recorded for this session yet
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ flex: 1, overflowY: 'auto', fontSize: '12px' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', color: t.textSecondary }}>
+            <th style={{ ...cellStyle, textAlign: 'right' }}>Offset</th>
+            <th style={cellStyle}>Kind</th>
+            <th style={cellStyle}>Activity</th>
+            <th style={cellStyle}>Status</th>
+            <th style={{ ...cellStyle, textAlign: 'right' }}>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group: PromptGroup) => {
+            const key = group.promptId ?? '';
+            const isCollapsed = collapsed.has(key);
+            const counts = (['network', 'tool', 'hook', 'console'] as const)
+              .map((kind) => ({
+                kind,
+                count: group.items.filter((i) => i.kind === kind).length,
+              }))
+              .filter(({ count }) => count > 0)
+              .map(
+                ({ kind, count }) =>
+                  `${count} ${TIMELINE_KIND_LABELS[kind].toLowerCase()}${count === 1 ? '' : 's'}`,
+              )
+              .join(' · ');
+            return (
+              <React.Fragment key={key}>
+                <tr
+                  onClick={() => toggle(key)}
+                  style={{
+                    background: t.bgSecondary,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                  }}
+                >
+                  <td style={cellStyle} colSpan={3}>
+                    {isCollapsed ? '▶' : '▼'}{' '}
+                    {group.promptId ?? 'Outside a prompt'}
+                    <span
+                      style={{
+                        marginLeft: '12px',
+                        fontWeight: 400,
+                        color: t.textSecondary,
+                      }}
+                    >
+                      {new Date(group.start).toLocaleTimeString()} · {counts}
+                    </span>
+                  </td>
+                  <td style={cellStyle} colSpan={2} />
+                </tr>
+                {!isCollapsed &&
+                  group.items.map((item: TimelineItem, index: number) => {
+                    const { summary, status, isError, durationMs } =
+                      describeTimelineItem(item);
+                    return (
+                      <tr
+                        key={`${item.kind}-${index}`}
+                        style={{
+                          background: isError ? t.errorBg : undefined,
+                          color: isError ? t.errorText : undefined,
+                        }}
+                      >
+                        <td
+                          style={{
+                            ...cellStyle,
+                            textAlign: 'right',
+                            color: t.textSecondary,
+                          }}
+                        >
+                          +{item.timestamp - group.start}ms
+                        </td>
+                        <td style={cellStyle}>
+                          {TIMELINE_KIND_LABELS[item.kind]}
+                        </td>
+                        <td
+                          style={{
+                            ...cellStyle,
+                            maxWidth: '640px',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                          }}
+                          title={summary}
+                        >
+                          {summary}
+                        </td>
+                        <td style={cellStyle}>{status}</td>
+                        <td style={{ ...cellStyle, textAlign: 'right' }}>
+                          {durationMs !== undefined ? `${durationMs}ms` : ''}
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // --- Network Components ---
 
 function NetworkView({
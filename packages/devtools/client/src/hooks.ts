@@ -8,14 +8,24 @@ import { useState, useEffect } from 'react';
 import type {
   NetworkLog,
   InspectorConsoleLog as ConsoleLog,
+  ContextSnapshot,
+  TimelineEvent,
 } from '../../src/types.js';
 
-export type { NetworkLog };
+export type { NetworkLog, ContextSnapshot, TimelineEvent };
+export type {
+  ContextEpisodeSnapshot,
+  ContextNodeSnapshot,
+} from '../../src/types.js';
 export type { InspectorConsoleLog as ConsoleLog } from '../../src/types.js';
 
 export function useDevToolsData() {
   const [networkLogs, setNetworkLogs] = useState<NetworkLog[]>([]);
   const [consoleLogs, setConsoleLogs] = useState<ConsoleLog[]>([]);
+  const [timelineEvents, setTimelineEvents] = useState<TimelineEvent[]>([]);
+  const [contextSnapshots, setContextSnapshots] = useState<
+    Record<string, ContextSnapshot>
+  >({});
   const [isConnected, setIsConnected] = useState(false);
   const [connectedSessions, setConnectedSessions] = useState<string[]>([]);
 
@@ -44,6 +54,22 @@ export function useDevToolsData() {
           const merged = [...prev, ...newLogs];
           return merged.length > 5000 ? merged.slice(-5000) : merged;
         });
+        setTimelineEvents((prev) => {
+          const merged = new Map(
+            prev.map((e: TimelineEvent) => [`${e.sessionId}:${e.id}`, e]),
+          );
+          for (const event of data.timelineEvents ?? []) {
+            merged.set(`${event.sessionId}:${event.id}`, event);
+          }
+          return Array.from(merged.values());
+        });
+        setContextSnapshots((prev) => {
+          const next = { ...prev };
+          for (const snapshot of data.contextSnapshots ?? []) {
+            next[snapshot.sessionId] = snapshot;
+          }
+          return next;
+        });
         setConnectedSessions(data.sessions);
       } catch {
         // Malformed snapshot — ignore
@@ -79,6 +105,38 @@ export function useDevToolsData() {
       }
     });
 
+    evtSource.addEventListener('timeline', (e) => {
+      try {
+        const event = JSON.parse(e.data) as TimelineEvent;
+        setTimelineEvents((prev) => {
+          const idx = prev.findIndex(
+            (l) => l.id === event.id && l.sessionId === event.sessionId,
+          );
+          if (idx > -1) {
+            const next = [...prev];
+            next[idx] = event;
+            return next;
+          }
+          const next = [...prev, event];
+          return next.length > 5000 ? next.slice(-5000) : next;
+        });
+      } catch {
+        // Malformed timeline event — ignore
+      }
+    });
+
+    evtSource.addEventListener('context', (e) => {
+      try {
+        const snapshot = JSON.parse(e.data) as ContextSnapshot;
+        setContextSnapshots((prev) => ({
+          ...prev,
+          [snapshot.sessionId]: snapshot,
+        }));
+      } catch {
+        // Malformed context event — ignore
+      }
+    });
+
     evtSource.addEventListener('session', (e) => {
       try {
         setConnectedSessions(JSON.parse(e.data));
@@ -90,5 +148,12 @@ export function useDevToolsData() {
     return () => evtSource.close();
   }, []);
 
-  return { networkLogs, consoleLogs, isConnected, connectedSessions };
+  return {
+    networkLogs,
+    consoleLogs,
+    timelineEvents,
+    contextSnapshots,
+    isConnected,
+    connectedSessions,
+  };
 }
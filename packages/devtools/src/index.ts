@@ -12,6 +12,8 @@ import type {
   NetworkLog,
   ConsoleLogPayload,
   InspectorConsoleLog,
+  ContextSnapshot,
+  TimelineEvent,
 } from './types.js';
 import { INDEX_HTML, CLIENT_JS } from './_client-assets.js';
 
@@ -19,6 +21,8 @@ export type {
   NetworkLog,
   ConsoleLogPayload,
   InspectorConsoleLog,
+  ContextSnapshot,
+  TimelineEvent,
 } from './types.js';
 
 interface IncomingNetworkPayload extends Partial<NetworkLog> {
@@ -44,6 +48,8 @@ export class DevTools extends EventEmitter {
   private static instance: DevTools | undefined;
   private logs: NetworkLog[] = [];
   private consoleLogs: InspectorConsoleLog[] = [];
+  private timelineEvents: TimelineEvent[] = [];
+  private contextSnapshots = new Map<string, ContextSnapshot>();
   private server: http.Server | null = null;
   private wss: WebSocketServer | null = null;
   private sessions = new Map<string, SessionInfo>();
@@ -54,7 +60,7 @@ export class DevTools extends EventEmitter {
 
   private constructor() {
     super();
-    // Each SSE client adds 3 listeners; raise the limit to avoid warnings
+    // Each SSE client adds 4 listeners; raise the limit to avoid warnings
     this.setMaxListeners(50);
   }
 
@@ -129,6 +135,37 @@ export class DevTools extends EventEmitter {
     }
   }
 
+  addInternalTimelineEvent(
+    payload: TimelineEvent,
+    sessionId?: string,
+    timestamp?: number,
+  ) {
+    if (!payload.id) return;
+    const existingIndex = this.timelineEvents.findIndex(
+      (e) => e.id === payload.id && e.sessionId === sessionId,
+    );
+    if (existingIndex > -1) {
+      const existing = this.timelineEvents[existingIndex];
+      // Keep when the call started; later events only update its outcome.
+      this.timelineEvents[existingIndex] = {
+        ...existing,
+        ...payload,
+        sessionId,
+        timestamp: existing.timestamp,
+      };
+      this.emit('timeline-update', this.timelineEvents[existingIndex]);
+    } else {
+      const entry: TimelineEvent = {
+        ...payload,
+        sessionId,
+        timestamp: payload.timestamp || timestamp || Date.now(),
+      };
+      this.timelineEvents.push(entry);
+      if (this.timelineEvents.length > 5000) this.timelineEvents.shift();
+      this.emit('timeline-update', entry);
+    }
+  }
+
   getUrl(): string {
     return `http://127.0.0.1:${this.port}`;
   }
@@ -211,6 +248,60 @@ export class DevTools extends EventEmitter {
               res.end(JSON.stringify({ error: 'Invalid request' }));
             }
           });
+        } else if (req.url === '/api/context' && req.method === 'POST') {
+          let body = '';
+          req.on('data', (chunk) => {
+            body += chunk;
+          });
+          req.on('end', () => {
+            try {
+              const parsed: unknown = JSON.parse(body);
+              if (
+                typeof parsed !== 'object' ||
+                parsed === null ||
+                !('sessionId' in parsed) ||
+                typeof parsed.sessionId !== 'string' ||
+                !('action' in parsed) ||
+                (parsed.action !== 'refresh' &&
+                  parsed.action !== 'pin' &&
+                  parsed.action !== 'unpin')
+              ) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: 'Invalid request' }));
+                return;
+              }
+              const nodeId =
+                'nodeId' in parsed && typeof parsed.nodeId === 'string'
+                  ? parsed.nodeId
+                  : undefined;
+              if (parsed.action !== 'refresh' && !nodeId) {
+                res.writeHead(400, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: 'Missing nodeId' }));
+                return;
+              }
+              const session = this.sessions.get(parsed.sessionId);
+              if (session) {
+                // The CLI answers with a `context` message holding the
+                // updated snapshot.
+                session.ws.send(
+                  JSON.stringify({
+                    type: 'context-request',
+                    action: parsed.action,
+                    nodeId,
+                  }),
+                );
+
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ success: true }));
+              } else {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: 'Session not found' }));
+              }
+            } catch {
+              res.writeHead(400, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Invalid request' }));
+            }
+          });
         } else if (req.url === '/events') {
           res.writeHead(200, {
             'Content-Type': 'text/event-stream',
@@ -222,6 +313,8 @@ export class DevTools extends EventEmitter {
           const snapshot = JSON.stringify({
             networkLogs: this.logs,
             consoleLogs: this.consoleLogs,
+            timelineEvents: this.timelineEvents,
+            contextSnapshots: Array.from(this.contextSnapshots.values()),
             sessions: Array.from(this.sessions.keys()),
           });
           res.write(`event: snapshot\ndata: ${snapshot}\n\n`);
@@ -233,16 +326,26 @@ export class DevTools extends EventEmitter {
           const onConsole = (log: InspectorConsoleLog) => {
             res.write(`event: console\ndata: ${JSON.stringify(log)}\n\n`);
           };
+          const onTimeline = (event: TimelineEvent) => {
+            res.write(`event: timeline\ndata: ${JSON.stringify(event)}\n\n`);
+          };
+          const onContext = (snapshot: ContextSnapshot) => {
+            res.write(`event: context\ndata: ${JSON.stringify(snapshot)}\n\n`);
+          };
           const onSession = () => {
             const sessions = Array.from(this.sessions.keys());
             res.write(`event: session\ndata: ${JSON.stringify(sessions)}\n\n`);
           };
           this.on('update', onNetwork);
           this.on('console-update', onConsole);
+          this.on('timeline-update', onTimeline);
+          this.on('context-update', onContext);
           this.on('session-update', onSession);
           req.on('close', () => {
             this.off('update', onNetwork);
             this.off('console-update', onConsole);
+            this.off('timeline-update', onTimeline);
+            this.off('context-update', onContext);
             this.off('session-update', onSession);
           });
         } else if (req.url === '/' || req.url === '/index.html') {
@@ -387,6 +490,32 @@ export class DevTools extends EventEmitter {
         );
         break;
 
+      case 'timeline':
+        this.addInternalTimelineEvent(
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+          message['payload'] as TimelineEvent,
+          sessionId,
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+          message['timestamp'] as number,
+        );
+        break;
+
+      case 'context': {
+        const snapshot: ContextSnapshot = {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+          ...(message['payload'] as Omit<
+            ContextSnapshot,
+            'sessionId' | 'timestamp'
+          >),
+          sessionId,
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-type-assertion
+          timestamp: message['timestamp'] as number,
+        };
+        this.contextSnapshots.set(sessionId, snapshot);
+        this.emit('context-update', snapshot);
+        break;
+      }
+
       default:
         break;
     }
@@ -7,6 +7,8 @@
 export interface NetworkLog {
   id: string;
   sessionId?: string;
+  /** The prompt that was being handled when the request was sent. */
+  promptId?: string;
   timestamp: number;
   method: string;
   url: string;
@@ -30,6 +32,7 @@ export interface NetworkLog {
 export interface ConsoleLogPayload {
   type: 'log' | 'warn' | 'error' | 'debug' | 'info';
   content: string;
+  promptId?: string;
 }
 
 export interface InspectorConsoleLog extends ConsoleLogPayload {
@@ -37,3 +40,44 @@ export interface InspectorConsoleLog extends ConsoleLogPayload {
   sessionId?: string;
   timestamp: number;
 }
+
+/**
+ * A tool call or hook execution, tied to the prompt that caused it. Events
+ * with the same ID update earlier ones, so only the latest status is kept.
+ */
+export interface TimelineEvent {
+  id: string;
+  sessionId?: string;
+  promptId?: string;
+  kind: 'tool' | 'hook';
+  name: string;
+  /** The hook event that ran the hook, e.g. `BeforeTool`. */
+  eventName?: string;
+  status: string;
+  timestamp: number;
+  durationMs?: number;
+}
+
+export interface ContextNodeSnapshot {
+  id: string;
+  type: string;
+  preview: string;
+  tokens: number;
+  status: 'original' | 'masked' | 'truncated' | 'summarized';
+  changedBy?: string;
+  pinned: boolean;
+}
+
+export interface ContextEpisodeSnapshot {
+  id: string;
+  tokens: number;
+  nodes: ContextNodeSnapshot[];
+}
+
+/** The context graph of a session, as last reported by the CLI. */
+export interface ContextSnapshot {
+  sessionId: string;
+  timestamp: number;
+  totalTokens: number;
+  episodes: ContextEpisodeSnapshot[];
+}
@@ -7,8 +7,11 @@
 import * as vscode from 'vscode';
 import {
   CloseDiffRequestSchema,
+  GetDiagnosticsRequestSchema,
+  GetDocumentSymbolsRequestSchema,
   IdeContextNotificationSchema,
   OpenDiffRequestSchema,
+  SymbolPositionRequestSchema,
 } from '@google/gemini-cli-core/src/ide/types.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
@@ -27,6 +30,12 @@ import { tmpdir } from '@google/gemini-cli-core';
 import type { z } from 'zod';
 import type { DiffManager } from './diff-manager.js';
 import { OpenFilesManager } from './open-files-manager.js';
+import {
+  findReferences,
+  getDefinition,
+  getDiagnostics,
+  getDocumentSymbols,
+} from './language-features.js';
 
 class CORSError extends Error {
   constructor(message: string) {
@@ -112,6 +121,12 @@ function sendIdeContextUpdateNotification(
   transport.send(notification);
 }
 
+function jsonResult(value: unknown) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(value) }],
+  };
+}
+
 function getSessionId(req: Request): string | undefined {
   const header = req.headers[MCP_SESSION_ID_HEADER];
   return Array.isArray(header) ? header[0] : header;
@@ -475,5 +490,64 @@ const createMcpServer = (
       };
     },
   );
+  server.registerTool(
+    'getDiagnostics',
+    {
+      description:
+        '(IDE Tool) Get the errors and warnings reported for a file, or for every file if no path is given.',
+      inputSchema: GetDiagnosticsRequestSchema.shape,
+    },
+    async ({ filePath }: z.infer<typeof GetDiagnosticsRequestSchema>) => {
+      log(`Received getDiagnostics request for filePath: ${filePath ?? '*'}`);
+      return jsonResult({ diagnostics: await getDiagnostics(filePath) });
+    },
+  );
+  server.registerTool(
+    'getDefinition',
+    {
+      description:
+        '(IDE Tool) Find where the symbol at a 1-based position is defined.',
+      inputSchema: SymbolPositionRequestSchema.shape,
+    },
+    async ({
+      filePath,
+      line,
+      character,
+    }: z.infer<typeof SymbolPositionRequestSchema>) => {
+      log(`Received getDefinition request for filePath: ${filePath}`);
+      return jsonResult({
+        locations: await getDefinition(filePath, line, character),
+      });
+    },
+  );
+  server.registerTool(
+    'findReferences',
+    {
+      description:
+        '(IDE Tool) Find all references to the symbol at a 1-based position.',
+      inputSchema: SymbolPositionRequestSchema.shape,
+    },
+    async ({
+      filePath,
+      line,
+      character,
+    }: z.infer<typeof SymbolPositionRequestSchema>) => {
+      log(`Received findReferences request for filePath: ${filePath}`);
+      return jsonResult({
+        locations: await findReferences(filePath, line, character),
+      });
+    },
+  );
+  server.registerTool(
+    'getDocumentSymbols',
+    {
+      description: '(IDE Tool) List the symbols declared in a file.',
+      inputSchema: GetDocumentSymbolsRequestSchema.shape,
+    },
+    async ({ filePath }: z.infer<typeof GetDocumentSymbolsRequestSchema>) => {
+      log(`Received getDocumentSymbols request for filePath: ${filePath}`);
+      return jsonResult({ symbols: await getDocumentSymbols(filePath) });
+    },
+  );
   return server;
 };
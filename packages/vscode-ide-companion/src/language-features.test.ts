@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  findReferences,
+  getDefinition,
+  getDiagnostics,
+  getDocumentSymbols,
+} from './language-features.js';
+
+const vscodeMock = vi.hoisted(() => {
+  const uri = (fsPath: string, scheme = 'file') => ({
+    fsPath,
+    scheme,
+    toString: () => `${scheme}://${fsPath}`,
+  });
+  const range = (line: number, character: number) => ({
+    start: { line, character },
+    end: { line, character: character + 3 },
+  });
+  return {
+    uri,
+    range,
+    Uri: { file: (fsPath: string) => uri(fsPath) },
+    Position: vi.fn((line: number, character: number) => ({
+      line,
+      character,
+    })),
+    DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+    SymbolKind: { 4: 'Class', 5: 'Method', Class: 4, Method: 5 },
+    languages: {
+      getDiagnostics: vi.fn(),
+      onDidChangeDiagnostics: vi.fn(),
+    },
+    workspace: {
+      textDocuments: [] as Array<{ uri: ReturnType<typeof uri> }>,
+      openTextDocument: vi.fn(),
+    },
+    commands: { executeCommand: vi.fn() },
+  };
+});
+
+vi.mock('vscode', () => vscodeMock);
+
+describe('language features', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vscodeMock.workspace.textDocuments = [];
+  });
+
+  describe('getDiagnostics', () => {
+    it('returns diagnostics for an open file with 1-based positions', async () => {
+      vscodeMock.workspace.textDocuments = [
+        { uri: vscodeMock.uri('/ws/a.ts') },
+      ];
+      vscodeMock.languages.getDiagnostics.mockReturnValue([
+        {
+          range: vscodeMock.range(1, 4),
+          severity: 0,
+          message: "Cannot find name 'foo'.",
+          source: 'ts',
+          code: 2304,
+        },
+        {
+          range: vscodeMock.range(6, 0),
+          severity: 1,
+          message: "'x' is never used.",
+          source: 'eslint',
+          code: { value: 'no-unused-vars', target: {} },
+        },
+      ]);
+
+      const diagnostics = await getDiagnostics('/ws/a.ts');
+
+      expect(vscodeMock.workspace.openTextDocument).not.toHaveBeenCalled();
+      expect(diagnostics).toEqual([
+        {
+          filePath: '/ws/a.ts',
+          range: {
+            start: { line: 2, character: 5 },
+            end: { line: 2, character: 8 },
+          },
+          severity: 'error',
+          message: "Cannot find name 'foo'.",
+          source: 'ts',
+          code: '2304',
+        },
+        {
+          filePath: '/ws/a.ts',
+          range: {
+            start: { line: 7, character: 1 },
+            end: { line: 7, character: 4 },
+          },
+          severity: 'warning',
+          message: "'x' is never used.",
+          source: 'eslint',
+          code: 'no-unused-vars',
+        },
+      ]);
+    });
+
+    it('opens a closed file and waits for its diagnostics', async () => {
+      let listener: (event: { uris: unknown[] }) => void = () => {};
+      const dispose = vi.fn();
+      vscodeMock.languages.onDidChangeDiagnostics.mockImplementation(
+        (callback) => {
+          listener = callback;
+          return { dispose };
+        },
+      );
+      vscodeMock.workspace.openTextDocument.mockImplementation(() => {
+        listener({ uris: [vscodeMock.uri('/ws/b.ts')] });
+        return Promise.resolve({});
+      });
+      vscodeMock.languages.getDiagnostics.mockReturnValue([]);
+
+      await expect(getDiagnostics('/ws/b.ts')).resolves.toEqual([]);
+      expect(vscodeMock.workspace.openTextDocument).toHaveBeenCalled();
+      expect(dispose).toHaveBeenCalled();
+    });
+
+    it('returns diagnostics for all files on disk', async () => {
+      vscodeMock.languages.getDiagnostics.mockReturnValue([
+        [
+          vscodeMock.uri('/ws/a.ts'),
+          [{ range: vscodeMock.range(0, 0), severity: 3, message: 'hint' }],
+        ],
+        [
+          vscodeMock.uri('/untitled-1', 'untitled'),
+          [{ range: vscodeMock.range(0, 0), severity: 0, message: 'error' }],
+        ],
+      ]);
+
+      const diagnostics = await getDiagnostics();
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        filePath: '/ws/a.ts',
+        severity: 'hint',
+      });
+    });
+  });
+
+  describe('navigation', () => {
+    it('finds definitions from locations and location links', async () => {
+      vscodeMock.commands.executeCommand.mockResolvedValue([
+        { uri: vscodeMock.uri('/ws/a.ts'), range: vscodeMock.range(0, 9) },
+        {
+          targetUri: vscodeMock.uri('/ws/b.ts'),
+          targetRange: vscodeMock.range(3, 0),
+          targetSelectionRange: vscodeMock.range(3, 6),
+        },
+      ]);
+
+      const locations = await getDefinition('/ws/a.ts', 5, 3);
+
+      expect(vscodeMock.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.executeDefinitionProvider',
+        expect.objectContaining({ fsPath: '/ws/a.ts' }),
+        { line: 4, character: 2 },
+      );
+      expect(locations.map((l) => [l.filePath, l.range.start])).toEqual([
+        ['/ws/a.ts', { line: 1, character: 10 }],
+        ['/ws/b.ts', { line: 4, character: 7 }],
+      ]);
+    });
+
+    it('returns no references when no provider answers', async () => {
+      vscodeMock.commands.executeCommand.mockResolvedValue(undefined);
+
+      await expect(findReferences('/ws/a.ts', 1, 1)).resolves.toEqual([]);
+      expect(vscodeMock.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.executeReferenceProvider',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('flattens document symbols', async () => {
+      vscodeMock.commands.executeCommand.mockResolvedValue([
+        {
+          name: 'Parser',
+          kind: 4,
+          range: vscodeMock.range(0, 0),
+          selectionRange: vscodeMock.range(0, 13),
+          children: [
+            {
+              name: 'parse',
+              kind: 5,
+              range: vscodeMock.range(2, 2),
+              selectionRange: vscodeMock.range(2, 2),
+              children: [],
+            },
+          ],
+        },
+      ]);
+
+      const symbols = await getDocumentSymbols('/ws/a.ts');
+
+      expect(symbols).toEqual([
+        {
+          name: 'Parser',
+          kind: 'Class',
+          range: {
+            start: { line: 1, character: 14 },
+            end: { line: 1, character: 17 },
+          },
+          containerName: undefined,
+        },
+        {
+          name: 'parse',
+          kind: 'Method',
+          range: {
+            start: { line: 3, character: 3 },
+            end: { line: 3, character: 6 },
+          },
+          containerName: 'Parser',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2026 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as vscode from 'vscode';
+import type {
+  Diagnostic,
+  DocumentSymbol,
+  Location,
+} from '@google/gemini-cli-core/src/ide/types.js';
+
+/**
+ * How long to wait for language servers to report diagnostics for a file that
+ * was not open yet.
+ */
+const DIAGNOSTICS_SETTLE_TIMEOUT_MS = 2000;
+
+type Range = Location['range'];
+
+// VS Code positions are 0-based; the CLI uses 1-based positions throughout.
+function toRange(range: vscode.Range): Range {
+  return {
+    start: { line: range.start.line + 1, character: range.start.character + 1 },
+    end: { line: range.end.line + 1, character: range.end.character + 1 },
+  };
+}
+
+function toSeverity(
+  severity: vscode.DiagnosticSeverity,
+): Diagnostic['severity'] {
+  switch (severity) {
+    case vscode.DiagnosticSeverity.Error:
+      return 'error';
+    case vscode.DiagnosticSeverity.Warning:
+      return 'warning';
+    case vscode.DiagnosticSeverity.Information:
+      return 'info';
+    default:
+      return 'hint';
+  }
+}
+
+function toDiagnostic(
+  uri: vscode.Uri,
+  diagnostic: vscode.Diagnostic,
+): Diagnostic {
+  const { code } = diagnostic;
+  return {
+    filePath: uri.fsPath,
+    range: toRange(diagnostic.range),
+    severity: toSeverity(diagnostic.severity),
+    message: diagnostic.message,
+    source: diagnostic.source,
+    code:
+      code === undefined
+        ? undefined
+        : typeof code === 'object'
+          ? String(code.value)
+          : String(code),
+  };
+}
+
+/**
+ * Opens a file that no editor has open yet so that language servers analyze
+ * it, and waits briefly for them to report.
+ */
+async function openAndSettle(uri: vscode.Uri): Promise<void> {
+  const isOpen = vscode.workspace.textDocuments.some(
+    (document) => document.uri.toString() === uri.toString(),
+  );
+  if (isOpen) {
+    return;
+  }
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(done, DIAGNOSTICS_SETTLE_TIMEOUT_MS);
+    const subscription = vscode.languages.onDidChangeDiagnostics((event) => {
+      if (event.uris.some((changed) => changed.toString() === uri.toString())) {
+        done();
+      }
+    });
+    function done() {
+      clearTimeout(timer);
+      subscription.dispose();
+      resolve();
+    }
+    vscode.workspace.openTextDocument(uri).then(undefined, done);
+  });
+}
+
+/**
+ * Returns the diagnostics for a file, or for every file on disk that VS Code
+ * has diagnostics for.
+ */
+export async function getDiagnostics(filePath?: string): Promise<Diagnostic[]> {
+  if (filePath) {
+    const uri = vscode.Uri.file(filePath);
+    await openAndSettle(uri);
+    return vscode.languages
+      .getDiagnostics(uri)
+      .map((diagnostic) => toDiagnostic(uri, diagnostic));
+  }
+  return vscode.languages
+    .getDiagnostics()
+    .filter(([uri]) => uri.scheme === 'file')
+    .flatMap(([uri, diagnostics]) =>
+      diagnostics.map((diagnostic) => toDiagnostic(uri, diagnostic)),
+    );
+}
+
+function toLocation(location: vscode.Location | vscode.LocationLink): Location {
+  if ('targetUri' in location) {
+    return {
+      filePath: location.targetUri.fsPath,
+      range: toRange(location.targetSelectionRange ?? location.targetRange),
+    };
+  }
+  return { filePath: location.uri.fsPath, range: toRange(location.range) };
+}
+
+async function executeLocationProvider(
+  command: string,
+  filePath: string,
+  line: number,
+  character: number,
+): Promise<Location[]> {
+  const locations = await vscode.commands.executeCommand<
+    Array<vscode.Location | vscode.LocationLink> | undefined
+  >(
+    command,
+    vscode.Uri.file(filePath),
+    new vscode.Position(line - 1, character - 1),
+  );
+  return (locations ?? []).map(toLocation);
+}
+
+export function getDefinition(
+  filePath: string,
+  line: number,
+  character: number,
+): Promise<Location[]> {
+  return executeLocationProvider(
+    'vscode.executeDefinitionProvider',
+    filePath,
+    line,
+    character,
+  );
+}
+
+export function findReferences(
+  filePath: string,
+  line: number,
+  character: number,
+): Promise<Location[]> {
+  return executeLocationProvider(
+    'vscode.executeReferenceProvider',
+    filePath,
+    line,
+    character,
+  );
+}
+
+/**
+ * Returns the symbols declared in a file. Providers may return a tree of
+ * `DocumentSymbol`s or a flat list of `SymbolInformation`; both are flattened.
+ */
+export async function getDocumentSymbols(
+  filePath: string,
+): Promise<DocumentSymbol[]> {
+  const symbols = await vscode.commands.executeCommand<
+    Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined
+  >('vscode.executeDocumentSymbolProvider', vscode.Uri.file(filePath));
+
+  const result: DocumentSymbol[] = [];
+  const visit = (
+    symbol: vscode.DocumentSymbol | vscode.SymbolInformation,
+    containerName?: string,
+  ) => {
+    if ('children' in symbol) {
+      result.push({
+        name: symbol.name,
+        kind: vscode.SymbolKind[symbol.kind],
+        range: toRange(symbol.selectionRange),
+        containerName,
+      });
+      for (const child of symbol.children) {
+        visit(child, symbol.name);
+      }
+      return;
+    }
+    result.push({
+      name: symbol.name,
+      kind: vscode.SymbolKind[symbol.kind],
+      range: toRange(symbol.location.range),
+      containerName: symbol.containerName || undefined,
+    });
+  };
+  for (const symbol of symbols ?? []) {
+    visit(symbol);
+  }
+  return result;
+}